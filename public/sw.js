@@ -0,0 +1,306 @@
+/**
+ * BabyPlace service worker — offline app shell, cached lookups and a visit queue.
+ *
+ * Strategies:
+ *   navigations              network-first → cached page → /offline.html
+ *   /_next/static, icons     cache-first (hashed, immutable)
+ *   /api/places/:id, /api/events/:id, /api/places (map results),
+ *   /api/favorites, /api/visits, /api/children
+ *                            stale-while-revalidate
+ *   Kakao map SDK + tiles    stale-while-revalidate, tiles capped at MAX_TILES
+ *   POST /api/visits         network; when offline, queued in IndexedDB and
+ *                            replayed on `sync` or a FLUSH message from the page
+ *
+ * Any successful non-GET /api request purges the API cache so the refetch that
+ * follows a favorite/hide/visit never serves the pre-mutation response.
+ *
+ * Message types are mirrored in src/lib/service-worker.ts.
+ */
+
+const VERSION = 'v1'
+const SHELL_CACHE = `babyplace-shell-${VERSION}`
+const API_CACHE = `babyplace-api-${VERSION}`
+const MAP_CACHE = `babyplace-map-${VERSION}`
+const CACHES = [SHELL_CACHE, API_CACHE, MAP_CACHE]
+
+const SHELL_PAGES = ['/', '/favorites', '/diary', '/profile']
+const SHELL_ASSETS = ['/offline.html', '/manifest.json', '/icons/icon-192.png', '/icons/icon-512.png']
+const MAX_TILES = 400
+const MAX_API_ENTRIES = 300
+
+const API_CACHE_PATTERNS = [
+  /^\/api\/places\/\d+$/,
+  /^\/api\/events\/\d+$/,
+  /^\/api\/places$/,
+  /^\/api\/events$/,
+  /^\/api\/favorites$/,
+  /^\/api\/visits$/,
+  /^\/api\/children$/,
+]
+
+const MSG = {
+  FLUSH: 'flush-visit-queue',
+  CLEAR_USER_DATA: 'clear-user-data',
+  QUEUED: 'visit-queued',
+  SYNCED: 'visits-synced',
+}
+
+const SYNC_TAG = 'visit-queue'
+const DB_NAME = 'babyplace-offline'
+const STORE = 'visit-queue'
+
+// ─── Lifecycle ──────────────────────────────────────────────────────────────
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()))
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key.startsWith('babyplace-') && !CACHES.includes(key)).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  )
+})
+
+/** Cache shell pages plus the /_next/static chunks their HTML references */
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE)
+  await cache.addAll(SHELL_ASSETS)
+
+  const chunks = new Set()
+  await Promise.all(SHELL_PAGES.map(async (path) => {
+    try {
+      const res = await fetch(path, { credentials: 'same-origin' })
+      if (!res.ok || res.redirected) return
+      await cache.put(path, res.clone())
+      const html = await res.text()
+      for (const match of html.matchAll(/\/_next\/static\/[^"'\s)]+/g)) chunks.add(match[0])
+    } catch {
+      // Shell page unavailable at install time; cached on first visit instead
+    }
+  }))
+
+  await Promise.all([...chunks].map((url) => cache.add(url).catch(() => {})))
+}
+
+// ─── Fetch routing ──────────────────────────────────────────────────────────
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith('/api/')) {
+      if (request.method === 'POST' && url.pathname === '/api/visits') {
+        event.respondWith(postVisit(request))
+      } else if (request.method !== 'GET') {
+        event.respondWith(passThroughMutation(request))
+      } else if (API_CACHE_PATTERNS.some((p) => p.test(url.pathname))) {
+        event.respondWith(staleWhileRevalidate(event, API_CACHE, MAX_API_ENTRIES))
+      }
+      return
+    }
+    if (request.method !== 'GET' || url.pathname.startsWith('/admin')) return
+
+    if (request.mode === 'navigate') {
+      event.respondWith(networkFirstPage(request))
+    } else if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/icons/')) {
+      event.respondWith(cacheFirst(request, SHELL_CACHE))
+    }
+    return
+  }
+
+  if (request.method !== 'GET') return
+  if (url.hostname === 'dapi.kakao.com' || url.hostname.endsWith('.daumcdn.net')) {
+    const isTile = request.destination === 'image'
+    event.respondWith(staleWhileRevalidate(event, MAP_CACHE, isTile ? MAX_TILES : null))
+  }
+})
+
+async function networkFirstPage(request) {
+  const cache = await caches.open(SHELL_CACHE)
+  try {
+    const res = await fetch(request)
+    if (res.ok && !res.redirected) cache.put(request, res.clone())
+    return res
+  } catch {
+    const url = new URL(request.url)
+    return (await cache.match(request, { ignoreSearch: true }))
+      ?? (await cache.match(url.pathname))
+      ?? (await cache.match('/offline.html'))
+      ?? Response.error()
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+  if (cached) return cached
+  const res = await fetch(request)
+  if (res.ok) cache.put(request, res.clone())
+  return res
+}
+
+async function staleWhileRevalidate(event, cacheName, maxEntries) {
+  const { request } = event
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+
+  const network = fetch(request)
+    .then(async (res) => {
+      // Opaque (cross-origin no-cors) tile responses report status 0
+      if (res.ok || res.type === 'opaque') {
+        await cache.put(request, res.clone())
+        if (maxEntries) await trimCache(cache, maxEntries)
+      }
+      return res
+    })
+
+  if (cached) {
+    event.waitUntil(network.catch(() => {}))
+    return cached
+  }
+  return network.catch(() => offlineJson(request))
+}
+
+/** Drop the oldest entries (cache.keys() is insertion-ordered) */
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys()
+  const excess = keys.length - maxEntries
+  for (let i = 0; i < excess; i++) await cache.delete(keys[i])
+}
+
+async function passThroughMutation(request) {
+  const res = await fetch(request)
+  if (res.ok) await caches.delete(API_CACHE)
+  return res
+}
+
+function offlineJson(request) {
+  if (new URL(request.url).pathname.startsWith('/api/')) {
+    return new Response(JSON.stringify({ error: 'Offline' }), {
+      status: 503,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+  return Response.error()
+}
+
+// ─── Visit queue ────────────────────────────────────────────────────────────
+
+async function postVisit(request) {
+  const body = await request.clone().text()
+  try {
+    return await passThroughMutation(request)
+  } catch {
+    const count = await enqueueVisit(withVisitDate(body))
+    if (self.registration.sync) {
+      await self.registration.sync.register(SYNC_TAG).catch(() => {})
+    }
+    await broadcast({ type: MSG.QUEUED, pending: count })
+    return new Response(JSON.stringify({ queued: true, pending: count }), {
+      status: 202,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
+
+/** Pin visitedAt to the day of the offline tap, not the day the queue syncs */
+function withVisitDate(body) {
+  try {
+    const data = JSON.parse(body)
+    if (!data.visitedAt) {
+      const now = new Date()
+      const pad = (n) => String(n).padStart(2, '0')
+      data.visitedAt = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`
+    }
+    return JSON.stringify(data)
+  } catch {
+    return body
+  }
+}
+
+async function flushVisitQueue() {
+  const entries = await readQueue()
+  let synced = 0
+  for (const entry of entries) {
+    let res
+    try {
+      res = await fetch('/api/visits', {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: { 'Content-Type': 'application/json' },
+        body: entry.body,
+      })
+    } catch {
+      break // still offline; keep the rest for the next attempt
+    }
+    // 2xx and client errors (409 duplicate, 401 signed out) are final; 5xx retries later
+    if (res.status >= 500) break
+    await deleteFromQueue(entry.id)
+    if (res.ok) synced++
+  }
+  if (synced > 0) await caches.delete(API_CACHE)
+  if (entries.length > 0) {
+    await broadcast({ type: MSG.SYNCED, synced, pending: (await readQueue()).length })
+  }
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) event.waitUntil(flushVisitQueue())
+})
+
+self.addEventListener('message', (event) => {
+  const type = event.data?.type
+  if (type === MSG.FLUSH) {
+    event.waitUntil(flushVisitQueue())
+  } else if (type === MSG.CLEAR_USER_DATA) {
+    event.waitUntil(Promise.all([caches.delete(API_CACHE), clearQueue()]))
+  }
+})
+
+async function broadcast(message) {
+  const clients = await self.clients.matchAll({ type: 'window' })
+  for (const client of clients) client.postMessage(message)
+}
+
+// ─── IndexedDB ──────────────────────────────────────────────────────────────
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1)
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true })
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+async function withStore(mode, fn) {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode)
+    const result = fn(tx.objectStore(STORE))
+    tx.oncomplete = () => resolve(result.result)
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+async function enqueueVisit(body) {
+  await withStore('readwrite', (store) => store.add({ body, queuedAt: Date.now() }))
+  return withStore('readonly', (store) => store.count())
+}
+
+function readQueue() {
+  return withStore('readonly', (store) => store.getAll())
+}
+
+function deleteFromQueue(id) {
+  return withStore('readwrite', (store) => store.delete(id))
+}
+
+function clearQueue() {
+  return withStore('readwrite', (store) => store.clear())
+}
@@ -1,12 +1,15 @@
 /**
  * Closure detection + auto-deactivation engine.
  *
- * Conditions for setting is_active = false (plan.md 10-4, Task #5 enhancements):
+ * Signals for setting is_active = false (plan.md 10-4, Task #5 enhancements):
  *   ① Kakao API revalidation FAILS (place no longer in Kakao's database)
  *   ② No blog/café mentions for the past TTL (category-specific)
+ *   ③ Users answered "아직 영업 중?" with no (place_fact_votes, see
+ *      src/lib/place-facts.ts isCrowdClosed)
  *
- * Both conditions must be true. Either alone is insufficient to deactivate
- * (a place might just be temporarily missing from Kakao, or simply unpopular).
+ * Any two must be true. One alone is insufficient to deactivate (a place might
+ * just be temporarily missing from Kakao, simply unpopular, or a few users
+ * might have hit a holiday). When ② and ③ agree the Kakao call is skipped.
  *
  * Category-based TTL (Task #5):
  *   - 놀이 (play facilities): 3 months
@@ -26,6 +29,7 @@
 import { supabaseAdmin } from '../lib/supabase-admin'
 import { logCollection } from '../lib/collection-log'
 import { searchKakaoPlace } from '../lib/kakao-search'
+import { summarizeFactVotes, isCrowdClosed, type FactVote } from '../../src/lib/place-facts'
 import type { PlaceCategory } from '../../src/types/index'
 
 /** Category-specific TTL in days (Task #5 enhancement) */
@@ -51,6 +55,10 @@ const REVALIDATE_BATCH = 1000
 /** Minimum similarity score to consider a Kakao result a match. */
 const MATCH_THRESHOLD = 0.75
 
+const PAGE = 1000
+
+const PLACE_COLUMNS = 'id, name, category, kakao_place_id, address, lat, lng, last_mentioned_at'
+
 // ─── Main export ──────────────────────────────────────────────────────────────
 
 export interface AutoDeactivateResult {
@@ -78,7 +86,7 @@ export async function runAutoDeactivate(): Promise<AutoDeactivateResult> {
   // because Supabase doesn't support complex conditional queries easily.
   const { data: allPlaces, error } = await supabaseAdmin
     .from('places')
-    .select('id, name, category, kakao_place_id, address, lat, lng, last_mentioned_at')
+    .select(PLACE_COLUMNS)
     .eq('is_active', true)
     .order('last_mentioned_at', { ascending: true, nullsFirst: true })
     .limit(REVALIDATE_BATCH * 2)  // fetch 2x to account for filtering
@@ -90,17 +98,38 @@ export async function runAutoDeactivate(): Promise<AutoDeactivateResult> {
   }
 
   // Filter by category-specific TTL
-  const places = (allPlaces || [])
-    .filter((place) => {
-      const ttl = CATEGORY_TTL_DAYS[place.category as PlaceCategory] ?? DEFAULT_SILENCE_DAYS
-      const cutoffDate = new Date()
-      cutoffDate.setDate(cutoffDate.getDate() - ttl)
-      const lastMentioned = place.last_mentioned_at ? new Date(place.last_mentioned_at) : new Date(0)
-      return lastMentioned < cutoffDate
-    })
+  const silentPlaces = (allPlaces || [])
+    .filter(isSilent)
     .slice(0, REVALIDATE_BATCH)  // limit after filtering
 
-  if (!places || places.length === 0) {
+  // Crowd-closed places are candidates even while still mentioned
+  let crowdClosedIds: Set<number>
+  try {
+    crowdClosedIds = await fetchCrowdClosedIds()
+  } catch (err) {
+    console.error('[auto-deactivate] Failed to fetch closed votes:', err)
+    result.errors++
+    crowdClosedIds = new Set()
+  }
+
+  const places = [...silentPlaces]
+  const silentIds = new Set(silentPlaces.map((p) => p.id))
+  const extraIds = [...crowdClosedIds].filter((id) => !silentIds.has(id))
+  if (extraIds.length > 0) {
+    const { data: closedPlaces, error: closedError } = await supabaseAdmin
+      .from('places')
+      .select(PLACE_COLUMNS)
+      .eq('is_active', true)
+      .in('id', extraIds)
+    if (closedError) {
+      console.error('[auto-deactivate] Failed to fetch crowd-closed places:', closedError)
+      result.errors++
+    } else {
+      places.push(...(closedPlaces || []))
+    }
+  }
+
+  if (places.length === 0) {
     console.log('[auto-deactivate] No places to check')
     return result
   }
@@ -109,16 +138,22 @@ export async function runAutoDeactivate(): Promise<AutoDeactivateResult> {
     result.placesChecked++
 
     try {
-      const kakaoAlive = await checkKakaoAlive(
-        place.name,
-        place.kakao_place_id,
-        place.address
-      )
-
-      if (!kakaoAlive) {
-        // Kakao revalidation failed + category-specific TTL silence → deactivate
+      const silent = isSilent(place)
+      const crowdClosed = crowdClosedIds.has(place.id)
+
+      // Two signals already agree → no need to spend a Kakao call
+      const kakaoAlive = silent && crowdClosed
+        ? null
+        : await checkKakaoAlive(place.name, place.kakao_place_id, place.address)
+
+      if (kakaoAlive !== true) {
         const ttl = CATEGORY_TTL_DAYS[place.category as PlaceCategory] ?? DEFAULT_SILENCE_DAYS
         const ttlMonths = Math.round(ttl / 30)
+        const reasons = [
+          kakaoAlive === false && 'Kakao not found',
+          silent && `${ttlMonths}mo silence`,
+          crowdClosed && 'users report closed',
+        ].filter(Boolean)
 
         await supabaseAdmin
           .from('places')
@@ -129,7 +164,7 @@ export async function runAutoDeactivate(): Promise<AutoDeactivateResult> {
           .eq('id', place.id)
 
         console.log(
-          `[auto-deactivate] Deactivated: "${place.name}" (id=${place.id}, category=${place.category}) — Kakao not found + ${ttlMonths}mo silence`
+          `[auto-deactivate] Deactivated: "${place.name}" (id=${place.id}, category=${place.category}) — ${reasons.join(' + ')}`
         )
         result.deactivated++
       } else {
@@ -152,6 +187,45 @@ export async function runAutoDeactivate(): Promise<AutoDeactivateResult> {
   return result
 }
 
+// ─── Signals ──────────────────────────────────────────────────────────────────
+
+/** ② No mentions within the category's TTL */
+function isSilent(place: { category: string; last_mentioned_at: string | null }): boolean {
+  const ttl = CATEGORY_TTL_DAYS[place.category as PlaceCategory] ?? DEFAULT_SILENCE_DAYS
+  const cutoffDate = new Date()
+  cutoffDate.setDate(cutoffDate.getDate() - ttl)
+  const lastMentioned = place.last_mentioned_at ? new Date(place.last_mentioned_at) : new Date(0)
+  return lastMentioned < cutoffDate
+}
+
+/** ③ Places whose recent "아직 영업 중?" answers settle on closed */
+async function fetchCrowdClosedIds(): Promise<Set<number>> {
+  const votesByPlace = new Map<number, FactVote[]>()
+  let offset = 0
+  while (true) {
+    const { data, error } = await supabaseAdmin
+      .from('place_fact_votes')
+      .select('id, place_id, attribute, answer, answered_at')
+      .eq('attribute', 'open')
+      .order('id')
+      .range(offset, offset + PAGE - 1)
+    if (error) throw new Error(error.message)
+    if (!data || data.length === 0) break
+    for (const vote of data as (FactVote & { place_id: number })[]) {
+      if (!votesByPlace.has(vote.place_id)) votesByPlace.set(vote.place_id, [])
+      votesByPlace.get(vote.place_id)!.push(vote)
+    }
+    if (data.length < PAGE) break
+    offset += PAGE
+  }
+
+  const closed = new Set<number>()
+  for (const [placeId, votes] of votesByPlace) {
+    if (isCrowdClosed(summarizeFactVotes(votes)[0])) closed.add(placeId)
+  }
+  return closed
+}
+
 // ─── Kakao revalidation ───────────────────────────────────────────────────────
 
 /**
@@ -35,6 +35,7 @@ import { getDistrictCode } from '../enrichers/district'
 import { checkDuplicate } from '../matchers/duplicate'
 import { PlaceCategory } from '../../src/types/index'
 import { checkPlaceGate } from '../matchers/place-gate'
+import { recordPlaceSource } from '../lib/place-sources'
 
 // ─── Kakao verification types ─────────────────────────────────────────────────
 
@@ -266,6 +267,14 @@ async function evaluateCandidate(candidate: CandidateRow): Promise<boolean> {
     .eq('kakao_place_id', kakaoResult.kakaoPlaceId!)
     .single()
 
+  if (newPlace) {
+    await recordPlaceSource(newPlace.id, 'auto_promoted', kakaoResult.kakaoPlaceId!, {
+      phone: kakaoResult.phone,
+      address: kakaoResult.address,
+      road_address: kakaoResult.roadAddress,
+    }, candidate.source_metadata)
+  }
+
   // Create blog_mentions from candidate's source_metadata
   const metadata = candidate.source_metadata ?? []
   if (metadata.length > 0 && newPlace) {
@@ -15,11 +15,17 @@
 import { supabaseAdmin } from '../lib/supabase-admin'
 import { logCollection } from '../lib/collection-log'
 import { prefetchIds } from '../lib/prefetch'
+import { markEventSourcesSeen } from '../lib/event-sources'
+import { recordPlaceSource } from '../lib/place-sources'
 import { checkDuplicate } from '../matchers/duplicate'
 import { checkPlaceGate } from '../matchers/place-gate'
 import { isInServiceRegion } from '../enrichers/region'
 import { getDistrictCode } from '../enrichers/district'
 import { classifyEventByTitle } from '../utils/event-classifier'
+import { parseAgeRange } from '../../src/lib/age-range'
+import { parseOpeningHours } from '../../src/lib/opening-hours'
+import { parsePrice, toPriceColumns } from '../../src/lib/price'
+import { parseAmenityText } from '../../src/lib/amenities'
 
 // ─── Config ──────────────────────────────────────────────────────────────────
 
@@ -298,9 +304,7 @@ export async function runBabygoCollector(): Promise<BabygoResult> {
 
     if (dup.isDuplicate) {
       if (dup.existingId) {
-        await supabaseAdmin.rpc('increment_source_count', {
-          p_place_id: dup.existingId,
-        })
+        await recordPlaceSource(dup.existingId, 'babygo', place.id, babygoFields(place), place)
       }
       result.duplicates++
       continue
@@ -324,8 +328,9 @@ export async function runBabygoCollector(): Promise<BabygoResult> {
       place.lng,
       place.address || ''
     )
+    const fields = babygoFields(place)
 
-    const { error } = await supabaseAdmin.from('places').insert({
+    const { data: inserted, error } = await supabaseAdmin.from('places').insert({
       name: place.name,
       category,
       sub_category: subCategory,
@@ -333,11 +338,18 @@ export async function runBabygoCollector(): Promise<BabygoResult> {
       lat: place.lat,
       lng: place.lng,
       district_code: districtCode,
-      phone: place.phone || null,
+      phone: fields.phone,
       source: 'babygo',
       source_id: place.id,
+      age_min_months: fields.age_min_months,
+      age_max_months: fields.age_max_months,
+      opening_hours: fields.opening_hours,
+      hours_text: fields.hours_text,
+      price_info: place.priceInfo,
+      ...toPriceColumns(parsePrice(place.priceInfo)),
+      amenities: fields.amenities,
       is_active: true,
-    })
+    }).select('id').single()
 
     if (error) {
       if (error.code === '23505') {
@@ -348,6 +360,7 @@ export async function runBabygoCollector(): Promise<BabygoResult> {
     } else {
       result.newPlaces++
       existingIds.add(place.id) // prevent re-insert within same run
+      await recordPlaceSource(inserted.id, 'babygo', place.id, fields, place)
     }
   }
 
@@ -355,6 +368,22 @@ export async function runBabygoCollector(): Promise<BabygoResult> {
   return result
 }
 
+function babygoFields(place: BabygoPlace) {
+  const ageRange = parseAgeRange(place.ageRange)
+  const openingHours = parseOpeningHours(place.businessHours)
+  const amenities = parseAmenityText(place.amenities, 'babygo', new Date().toISOString())
+  return {
+    phone: place.phone || null,
+    address: place.address || null,
+    age_min_months: ageRange?.minMonths ?? null,
+    age_max_months: ageRange?.maxMonths ?? null,
+    opening_hours: openingHours,
+    hours_text: openingHours ? place.businessHours : null,
+    price_info: place.priceInfo,
+    amenities: Object.keys(amenities).length > 0 ? amenities : null,
+  }
+}
+
 /**
  * Parse BabyGo event timestamp: "2024-09-09 18:09:1725872400" → "2024-09-09"
  */
@@ -469,9 +498,9 @@ export async function fetchBabygoEvents(): Promise<BabygoEventsResult> {
   try {
     console.log('[babygo-events] Starting BabyGo Events API collection')
 
-    // Prefetch existing babygo_event source_ids
+    // Prefetch existing babygo_event source_ids (incl. listings merged into other events)
     const existingIds = await prefetchIds({
-      table: 'events',
+      table: 'event_sources',
       column: 'source_id',
       filters: [{ op: 'eq', column: 'source', value: 'babygo' }],
     })
@@ -505,6 +534,10 @@ export async function fetchBabygoEvents(): Promise<BabygoEventsResult> {
 
     result.fetched = allEvents.size
     console.log(`[babygo-events] Fetched ${allEvents.size} events from ${months.length} months`)
+    await markEventSourcesSeen(
+      'babygo',
+      [...allEvents.keys()].map((id) => `babygo_event_${id}`).filter((sourceId) => existingIds.has(sourceId))
+    )
 
     // Process each event
     for (const [id, ev] of allEvents) {
@@ -525,7 +525,7 @@ async function validateAndInsert(
 
 async function prefetchKnownSourceIds(): Promise<Set<string>> {
   return prefetchIds({
-    table: 'events',
+    table: 'event_sources',
     column: 'source_id',
     filters: [{ op: 'in', column: 'source', value: ['blog_discovery', 'exhibition_extraction'] }],
   })
@@ -26,6 +26,7 @@ import { PlaceCategory } from '../../src/types/index'
 import { checkPlaceGate } from '../matchers/place-gate'
 import { prefetchIds } from '../lib/prefetch'
 import { logCollection } from '../lib/collection-log'
+import { recordPlaceSource } from '../lib/place-sources'
 
 // ─── API types ──────────────────────────────────────────────────────────────
 
@@ -301,7 +302,11 @@ async function processItem(
   })
 
   if (dup.isDuplicate && dup.existingId) {
-    await supabaseAdmin.rpc('increment_source_count', { p_place_id: dup.existingId })
+    await recordPlaceSource(dup.existingId, 'children-facility', item.pfctSn, {
+      address,
+      road_address: item.ronaAddr || null,
+      is_indoor: target.isIndoor ?? (item.idrodrCdNm ? item.idrodrCdNm === '실내' : null),
+    }, item)
     result.duplicates++
     return
   }
@@ -320,7 +325,7 @@ async function processItem(
       ? target.isIndoor
       : item.idrodrCdNm === '실내'
 
-  const { error } = await supabaseAdmin.from('places').insert({
+  const { data: inserted, error } = await supabaseAdmin.from('places').insert({
     name: item.pfctNm,
     category: target.babyCategory,
     sub_category: target.subCategory,
@@ -333,7 +338,7 @@ async function processItem(
     source_id: item.pfctSn,
     is_indoor: isIndoor,
     is_active: true,
-  })
+  }).select('id').single()
 
   if (error) {
     if (error.code === '23505') {
@@ -344,6 +349,11 @@ async function processItem(
     }
   } else {
     result.newPlaces++
+    await recordPlaceSource(inserted.id, 'children-facility', item.pfctSn, {
+      address,
+      road_address: item.ronaAddr || null,
+      is_indoor: isIndoor,
+    }, item)
   }
 }
 
@@ -13,6 +13,7 @@
 
 import { supabaseAdmin } from '../lib/supabase-admin'
 import { prefetchIds } from '../lib/prefetch'
+import { markEventSourcesSeen } from '../lib/event-sources'
 import { logCollection } from '../lib/collection-log'
 import { searchKakaoPlaceDetailed } from '../lib/kakao-search'
 import { isInServiceArea, isValidServiceAddress } from '../enrichers/region'
@@ -213,13 +214,17 @@ export async function runInterparkCollector(): Promise<InterparkResult> {
     result.hotItems = hotItems.length
     if (hotItems.length === 0) return result
 
-    // Step 2: Prefetch existing interpark source_ids
+    // Step 2: Prefetch existing interpark source_ids (incl. listings merged into other events)
     const existingIds = await prefetchIds({
-      table: 'events',
+      table: 'event_sources',
       column: 'source_id',
       filters: [{ op: 'eq', column: 'source', value: 'interpark' }],
     })
     console.log(`[interpark] Existing interpark events: ${existingIds.size}`)
+    await markEventSourcesSeen(
+      'interpark',
+      hotItems.map((item) => `interpark_${item.goodsCode}`).filter((sourceId) => existingIds.has(sourceId))
+    )
 
     const currentYear = new Date().getFullYear()
     const today = new Date().toISOString().split('T')[0]
@@ -18,6 +18,7 @@ import { getDistrictCode } from '../enrichers/district'
 import { PlaceCategory } from '../../src/types/index'
 import { evaluateKeywordCycle } from '../keywords/rotation-engine'
 import { checkPlaceGate } from '../matchers/place-gate'
+import { recordPlaceSource } from '../lib/place-sources'
 
 // ─── Kakao API types ─────────────────────────────────────────────────────────
 
@@ -307,11 +308,12 @@ async function processTarget(
         address,
         lat,
         lng,
+        phone: doc.phone || null,
       })
 
       if (dup.isDuplicate && dup.existingId) {
-        // Bump source_count to record discovery by another collector run
-        await supabaseAdmin.rpc('increment_source_count', { p_place_id: dup.existingId })
+        // Record the Kakao listing on the existing place (place-fields step picks fields)
+        await recordPlaceSource(dup.existingId, 'kakao', doc.id, kakaoFields(doc), doc)
         result.duplicates++
         continue
       }
@@ -330,7 +332,7 @@ async function processTarget(
       })
       if (!gate.allowed) continue
 
-      const { error } = await supabaseAdmin.from('places').insert({
+      const { data: inserted, error } = await supabaseAdmin.from('places').insert({
         name: doc.place_name,
         category: mapped.category,
         sub_category: subCategory,
@@ -345,7 +347,7 @@ async function processTarget(
         kakao_place_id: doc.id,
         is_indoor: mapped.isIndoor ?? target.isIndoor,
         is_active: true,
-      })
+      }).select('id').single()
 
       if (error) {
         // Unique constraint violation on kakao_place_id → already exists
@@ -357,6 +359,13 @@ async function processTarget(
         }
       } else {
         result.newPlaces++
+        await recordPlaceSource(
+          inserted.id,
+          'kakao',
+          doc.id,
+          { ...kakaoFields(doc), is_indoor: mapped.isIndoor ?? target.isIndoor },
+          doc
+        )
       }
     }
 
@@ -365,6 +374,14 @@ async function processTarget(
   }
 }
 
+function kakaoFields(doc: KakaoDocument) {
+  return {
+    phone: doc.phone || null,
+    address: doc.address_name || null,
+    road_address: doc.road_address_name || null,
+  }
+}
+
 // ─── Kakao API fetch ──────────────────────────────────────────────────────────
 
 async function fetchKakaoPage(
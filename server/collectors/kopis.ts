@@ -2,87 +2,164 @@
  * KOPIS 공연정보나루 collector
  *
  * Collects kids/family performances from the Korean Performance Information System.
- * Endpoint: GET http://www.kopis.or.kr/openApi/restful/pblprfr
  *
- * Query parameters:
- *   - service: API key (from KOPIS_API_KEY env)
- *   - stdate: start date (YYYYMMDD)
- *   - eddate: end date (YYYYMMDD)
- *   - shcate: AAAB (뮤지컬/공연), kid state filter
- *   - kidstate: Y (아동 공연만)
- * Response: XML parsed by xml2js
+ * Endpoints (XML, parsed by xml2js):
+ *   - GET /pblprfr                list: service, stdate, eddate, cpage, rows, kidstate=Y, signgucode
+ *   - GET /pblprfr/{mt20id}       detail: prfage, prfruntime, pcseguidance, dtguidance, poster, mt10id
+ *   - GET /pblfclty/{mt10id}      venue: adres, la, lo
+ *
+ * mt20id is the performance id, mt10id the facility id. Venues without usable
+ * facility coordinates fall back to Kakao keyword search (same as interpark.ts).
+ * Performances outside the Seoul/Gyeonggi service area are dropped.
+ *
+ * Cross-source duplicates (e.g. the same show on Interpark) are linked to one
+ * canonical event later by runEventDeduplication, where kopis data wins as an
+ * official source.
  */
 
 import { parseStringPromise } from 'xml2js'
 import { supabaseAdmin } from '../lib/supabase-admin'
 import { logCollection } from '../lib/collection-log'
+import { prefetchIds } from '../lib/prefetch'
+import { markEventSourcesSeen } from '../lib/event-sources'
+import { searchKakaoPlaceDetailed } from '../lib/kakao-search'
+import { isInServiceArea, isInServiceRegion, isValidServiceAddress } from '../enrichers/region'
+import { kopisLimiter, kakaoSearchLimiter } from '../rate-limiter'
+
+// ─── Types ───────────────────────────────────────────────────────────────────
 
-interface KOPISPerformance {
-  mt10id: [string] // performance id
+interface KOPISListRow {
+  mt20id: [string] // performance id
   prfnm: [string] // performance name
   prfpdfrom: [string] // start date (YYYY.MM.DD)
   prfpdto: [string] // end date (YYYY.MM.DD)
   fcltynm: [string] // venue name
   prfstate: [string] // performance state (공연중, 공연예정 등)
   genrenm: [string] // genre
-  prfcast?: [string] // cast
-  prfruntime?: [string] // runtime
-  pcseguidance?: [string] // ticket info
   poster?: [string] // poster image URL
-  sty?: [string] // style/description
 }
 
-interface KOPISResponse {
-  Dbtable?: {
-    Row?: KOPISPerformance[]
-  }
+interface KOPISDetail extends KOPISListRow {
+  mt10id?: [string] // facility id
+  prfcast?: [string] // cast
+  prfruntime?: [string] // runtime ("1시간 10분")
+  prfage?: [string] // age limit ("만 3세 이상")
+  pcseguidance?: [string] // ticket prices
+  dtguidance?: [string] // schedule ("화요일 ~ 금요일(11:00,14:00)")
+  sty?: [string] // synopsis
 }
 
-const KOPIS_API_BASE = 'http://www.kopis.or.kr/openApi/restful/pblprfr'
-const DAYS_LOOKBACK = 7
-const DAYS_LOOKAHEAD = 90
+interface KOPISFacility {
+  fcltynm?: [string]
+  adres?: [string] // address
+  la?: [string] // latitude
+  lo?: [string] // longitude
+}
+
+interface VenueLocation {
+  name: string
+  address: string | null
+  lat: number
+  lng: number
+}
 
 export interface KOPISCollectorResult {
   totalFetched: number
   newEvents: number
   duplicates: number
+  outOfArea: number
   errors: number
 }
 
+// ─── Config ──────────────────────────────────────────────────────────────────
+
+const KOPIS_API_BASE = 'http://www.kopis.or.kr/openApi/restful'
+const KOPIS_DETAIL_PAGE = 'https://www.kopis.or.kr/por/db/pblprfr/pblprfrView.do?menuId=MNU_00020&mt20Id='
+const DAYS_LOOKBACK = 7
+const DAYS_LOOKAHEAD = 90
+const PAGE_SIZE = 100
+const MAX_PAGES = 20
+
+/** 시도 codes: 서울, 인천, 경기 */
+const SERVICE_AREA_SIGNGU_CODES = ['11', '28', '41']
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
 /**
  * Run KOPIS collector.
- * Fetches performances within the next 90 days (and lookback 7 days for any missed).
+ * Fetches kids performances in the service area within the next 90 days
+ * (and lookback 7 days for any missed).
  */
 export async function runKOPISCollector(): Promise<KOPISCollectorResult> {
   const result: KOPISCollectorResult = {
     totalFetched: 0,
     newEvents: 0,
     duplicates: 0,
+    outOfArea: 0,
     errors: 0,
   }
 
   const startedAt = Date.now()
 
   try {
-    // Date range: 7 days ago to 90 days from now
+    if (!process.env.KOPIS_API_KEY) {
+      console.warn('[kopis] Missing env: KOPIS_API_KEY, skipping KOPIS collector')
+      return result
+    }
+
     const stdate = formatDateForAPI(new Date(Date.now() - DAYS_LOOKBACK * 24 * 60 * 60 * 1000))
     const eddate = formatDateForAPI(new Date(Date.now() + DAYS_LOOKAHEAD * 24 * 60 * 60 * 1000))
 
     console.log(`[kopis] Fetching performances from ${stdate} to ${eddate}`)
 
-    const performances = await fetchKOPISPerformances(stdate, eddate)
-    result.totalFetched = performances.length
+    // Skip detail/venue calls for performances already stored (incl. merged listings)
+    const knownIds = await prefetchIds({
+      table: 'event_sources',
+      column: 'source_id',
+      filters: [{ op: 'eq', column: 'source', value: 'kopis' }],
+    })
+    console.log(`[kopis] Pre-fetched ${knownIds.size} known source_ids`)
+
+    const rows: KOPISListRow[] = []
+    const seen = new Set<string>()
+    for (const signgucode of SERVICE_AREA_SIGNGU_CODES) {
+      for (const row of await fetchPerformanceList(stdate, eddate, signgucode)) {
+        const id = row.mt20id?.[0]
+        if (id && !seen.has(id)) {
+          seen.add(id)
+          rows.push(row)
+        }
+      }
+    }
+    result.totalFetched = rows.length
+    await markEventSourcesSeen('kopis', rows.map((row) => row.mt20id[0]).filter((id) => knownIds.has(id)))
+
+    const today = new Date().toISOString().split('T')[0]
+    const venueCache = new Map<string, VenueLocation | null>()
+
+    for (const row of rows) {
+      const perfId = row.mt20id[0]
+      if (knownIds.has(perfId)) {
+        result.duplicates++
+        continue
+      }
+
+      const endDate = parseKOPISDate(row.prfpdto?.[0])
+      if (endDate && endDate < today) continue
 
-    for (const perf of performances) {
       try {
-        await processKOPISPerformance(perf, result)
+        await processPerformance(perfId, venueCache, knownIds, result)
       } catch (err) {
-        console.error('[kopis] Error processing performance:', err, perf.mt10id?.[0])
+        console.error('[kopis] Error processing performance:', err, perfId)
         result.errors++
       }
     }
 
-    // Log to collection_logs
+    console.log(
+      `[kopis] Done: ${result.newEvents} new, ${result.duplicates} known, ` +
+        `${result.outOfArea} out-of-area, ${result.errors} errors`
+    )
+
     await logCollection({
       collector: 'kopis',
       startedAt,
@@ -104,116 +181,118 @@ export async function runKOPISCollector(): Promise<KOPISCollectorResult> {
   return result
 }
 
-/**
- * Fetch all performances from KOPIS API.
- */
-async function fetchKOPISPerformances(stdate: string, eddate: string): Promise<KOPISPerformance[]> {
-  if (!process.env.KOPIS_API_KEY) {
-    console.warn('[kopis] KOPIS_API_KEY not set, skipping')
-    return []
-  }
-
-  const params = new URLSearchParams({
-    service: process.env.KOPIS_API_KEY,
-    stdate,
-    eddate,
-    shcate: 'AAAB', // 뮤지컬/공연
-    kidstate: 'Y', // 아동 공연만
-  })
+// ─── API ─────────────────────────────────────────────────────────────────────
 
-  const url = `${KOPIS_API_BASE}?${params.toString()}`
+async function fetchKOPIS<T>(path: string, params: Record<string, string> = {}): Promise<T[]> {
+  const query = new URLSearchParams({ service: process.env.KOPIS_API_KEY!, ...params })
+  const url = `${KOPIS_API_BASE}/${path}?${query.toString()}`
 
-  // Set up abort controller for timeout
   const controller = new AbortController()
-  const timeout = setTimeout(() => controller.abort(), 10000) // 10 second timeout
+  const timeout = setTimeout(() => controller.abort(), 10000)
 
   try {
-    const response = await fetch(url, { signal: controller.signal })
-
+    const response = await kopisLimiter.throttle(() => fetch(url, { signal: controller.signal }))
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status} from KOPIS`)
+      throw new Error(`HTTP ${response.status} from KOPIS (${path})`)
     }
 
     const xml = await response.text()
-    const parsed = (await parseStringPromise(xml)) as KOPISResponse
-
-    if (!parsed.Dbtable?.Row) {
-      console.log('[kopis] No performances found in response')
-      return []
-    }
-
-    // Ensure Row is always an array
-    const rows = Array.isArray(parsed.Dbtable.Row)
-      ? parsed.Dbtable.Row
-      : [parsed.Dbtable.Row]
-
-    return rows
-  } catch (err) {
-    console.error('[kopis] Fetch error:', err)
-    throw err
+    const parsed = (await parseStringPromise(xml)) as { dbs?: { db?: T[] | T } }
+    const db = parsed.dbs?.db
+    if (!db) return []
+    return Array.isArray(db) ? db : [db]
   } finally {
     clearTimeout(timeout)
   }
 }
 
-/**
- * Process a single KOPIS performance.
- */
-async function processKOPISPerformance(
-  perf: KOPISPerformance,
+/** Page through the kids performance list for one 시도 code */
+async function fetchPerformanceList(stdate: string, eddate: string, signgucode: string): Promise<KOPISListRow[]> {
+  const rows: KOPISListRow[] = []
+
+  for (let cpage = 1; cpage <= MAX_PAGES; cpage++) {
+    const page = await fetchKOPIS<KOPISListRow>('pblprfr', {
+      stdate,
+      eddate,
+      cpage: String(cpage),
+      rows: String(PAGE_SIZE),
+      kidstate: 'Y', // 아동 공연만
+      signgucode,
+    })
+    rows.push(...page)
+    if (page.length < PAGE_SIZE) break
+  }
+
+  console.log(`[kopis] signgucode=${signgucode}: ${rows.length} performances`)
+  return rows
+}
+
+async function fetchPerformanceDetail(perfId: string): Promise<KOPISDetail | null> {
+  const [detail] = await fetchKOPIS<KOPISDetail>(`pblprfr/${encodeURIComponent(perfId)}`)
+  return detail ?? null
+}
+
+async function fetchFacility(facilityId: string): Promise<KOPISFacility | null> {
+  const [facility] = await fetchKOPIS<KOPISFacility>(`pblfclty/${encodeURIComponent(facilityId)}`)
+  return facility ?? null
+}
+
+// ─── Processing ──────────────────────────────────────────────────────────────
+
+async function processPerformance(
+  perfId: string,
+  venueCache: Map<string, VenueLocation | null>,
+  knownIds: Set<string>,
   result: KOPISCollectorResult
 ): Promise<void> {
-  const perfId = perf.mt10id?.[0]
-  if (!perfId) return
-
-  const name = perf.prfnm?.[0] || 'Unknown'
-  const venueName = perf.fcltynm?.[0] || null
-  const startDate = parseKOPISDate(perf.prfpdfrom?.[0])
-  const endDate = parseKOPISDate(perf.prfpdto?.[0])
+  const detail = await fetchPerformanceDetail(perfId)
+  if (!detail) {
+    console.warn('[kopis] Empty detail response:', perfId)
+    return
+  }
 
+  const startDate = parseKOPISDate(detail.prfpdfrom?.[0])
   if (!startDate) {
     console.warn('[kopis] Skipping performance with invalid start date:', perfId)
     return
   }
 
-  // Check for duplicate
-  const { data: existing } = await supabaseAdmin
-    .from('events')
-    .select('id')
-    .eq('source', 'kopis')
-    .eq('source_id', perfId)
-    .maybeSingle()
-
-  if (existing) {
-    result.duplicates++
+  const venueName = detail.fcltynm?.[0] || ''
+  const facilityId = detail.mt10id?.[0] || null
+  const cacheKey = facilityId || venueName
+  if (!venueCache.has(cacheKey)) {
+    venueCache.set(cacheKey, await resolveVenue(facilityId, venueName))
+  }
+  const venue = venueCache.get(cacheKey)
+  if (!venue) {
+    result.outOfArea++
     return
   }
 
-  // Build event data
   const eventData = {
-    name,
-    category: extractCategory(perf.genrenm?.[0]),
-    venue_name: venueName,
-    venue_address: null, // KOPIS doesn't provide venue address
-    lat: null, // Would need reverse geocoding from venue name
-    lng: null,
+    name: detail.prfnm?.[0]?.trim() || 'Unknown',
+    category: '문화행사',
+    sub_category: '공연',
+    venue_name: venueName || venue.name,
+    venue_address: venue.address,
+    lat: venue.lat,
+    lng: venue.lng,
     start_date: startDate,
-    end_date: endDate,
-    time_info: perf.prfruntime?.[0] || null,
-    price_info: perf.pcseguidance?.[0] || null,
-    age_range: 'kids', // KOPIS kidstate=Y
+    end_date: parseKOPISDate(detail.prfpdto?.[0]),
+    time_info: buildTimeInfo(detail.dtguidance?.[0], detail.prfruntime?.[0]),
+    price_info: cleanText(detail.pcseguidance?.[0]),
+    age_range: cleanText(detail.prfage?.[0]),
     source: 'kopis',
     source_id: perfId,
-    source_url: `http://www.kopis.or.kr/por/db/pblprfr/pblprfrView?experiencedate=&productnm=&areaCd=&rejectkidstate=&gcode=&shcate=AAAB&startDate=&endDate=&kidstate=Y&mt10id=${perfId}`,
-    poster_url: perf.poster?.[0] || null,
-    description: perf.sty?.[0] || null,
+    source_url: `${KOPIS_DETAIL_PAGE}${perfId}`,
+    poster_url: detail.poster?.[0] ? detail.poster[0].replace(/^http:/, 'https:') : null,
+    description: cleanText(detail.sty?.[0]),
   }
 
   const { error } = await supabaseAdmin.from('events').insert(eventData)
 
   if (error) {
     if (error.code === '23505') {
-      // Unique constraint on source_id
       result.duplicates++
     } else {
       console.error('[kopis] Insert error:', error.message, perfId)
@@ -221,17 +300,64 @@ async function processKOPISPerformance(
     }
   } else {
     result.newEvents++
+    knownIds.add(perfId)
   }
 }
 
+/**
+ * Resolve venue coordinates: KOPIS facility record first, Kakao keyword search
+ * as fallback. Returns null when the venue is outside the service area.
+ */
+async function resolveVenue(facilityId: string | null, venueName: string): Promise<VenueLocation | null> {
+  let address: string | null = null
+
+  if (facilityId) {
+    try {
+      const facility = await fetchFacility(facilityId)
+      address = cleanText(facility?.adres?.[0])
+      const lat = parseFloat(facility?.la?.[0] ?? '')
+      const lng = parseFloat(facility?.lo?.[0] ?? '')
+      if (!isNaN(lat) && !isNaN(lng) && lat !== 0 && lng !== 0) {
+        if (!isInServiceRegion(lat, lng, address)) return null
+        return { name: facility?.fcltynm?.[0] || venueName, address, lat, lng }
+      }
+    } catch (err) {
+      console.warn(`[kopis] Facility lookup error for ${facilityId}:`, err)
+    }
+  }
+
+  // Address known and outside the service area: no need to search
+  if (address && !isValidServiceAddress(address)) return null
+
+  const searchName = normalizeVenueName(venueName)
+  if (!searchName) return null
+
+  try {
+    const { match, bestScore } = await kakaoSearchLimiter.throttle(() =>
+      searchKakaoPlaceDetailed(searchName, address, { threshold: 0.5 })
+    )
+    if (match && bestScore >= 0.5) {
+      const matchAddress = match.roadAddress || match.address
+      if (isInServiceArea(match.lat, match.lng) || (matchAddress && isValidServiceAddress(matchAddress))) {
+        return { name: match.name, address: address || matchAddress, lat: match.lat, lng: match.lng }
+      }
+    }
+  } catch (err) {
+    console.warn(`[kopis] Kakao search error for "${searchName}":`, err)
+  }
+
+  return null
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
 /**
  * Parse KOPIS date format: "YYYY.MM.DD" → ISO date string "YYYY-MM-DD"
  */
 function parseKOPISDate(dateStr?: string): string | null {
   if (!dateStr) return null
 
-  // Format: YYYY.MM.DD
-  const match = dateStr.match(/^(\d{4})\.(\d{2})\.(\d{2})$/)
+  const match = dateStr.trim().match(/^(\d{4})\.(\d{2})\.(\d{2})$/)
   if (!match) {
     console.warn('[kopis] Invalid date format:', dateStr)
     return null
@@ -240,6 +366,29 @@ function parseKOPISDate(dateStr?: string): string | null {
   return `${match[1]}-${match[2]}-${match[3]}`
 }
 
+/**
+ * Strip the hall suffix KOPIS appends to venue names:
+ * "예술의전당 [서울] (CJ 토월극장)" → "예술의전당"
+ */
+function normalizeVenueName(venueName: string): string {
+  return venueName
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/\[[^\]]*\]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/** "화요일 ~ 금요일(11:00)" + "50분" → "화요일 ~ 금요일(11:00) · 50분" */
+function buildTimeInfo(schedule?: string, runtime?: string): string | null {
+  const parts = [cleanText(schedule), cleanText(runtime)].filter((p): p is string => !!p)
+  return parts.length > 0 ? parts.join(' · ') : null
+}
+
+function cleanText(value?: string): string | null {
+  const trimmed = value?.trim()
+  return trimmed ? trimmed : null
+}
+
 /**
  * Format date for KOPIS API: YYYYMMDD
  */
@@ -249,23 +398,3 @@ function formatDateForAPI(date: Date): string {
   const d = String(date.getDate()).padStart(2, '0')
   return `${y}${m}${d}`
 }
-
-/**
- * Extract category from KOPIS genre.
- * Examples: 뮤지컬, 연극, 인형극, 마술 등
- */
-function extractCategory(genre?: string): string {
-  if (!genre) return '공연'
-
-  const genreLower = genre.toLowerCase()
-
-  if (genreLower.includes('뮤지컬')) return '뮤지컬'
-  if (genreLower.includes('연극')) return '연극'
-  if (genreLower.includes('인형') || genreLower.includes('인형극')) return '인형극'
-  if (genreLower.includes('마술')) return '마술'
-  if (genreLower.includes('음악')) return '음악'
-  if (genreLower.includes('무용')) return '무용'
-  if (genreLower.includes('콘서트')) return '콘서트'
-
-  return '공연'
-}
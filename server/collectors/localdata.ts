@@ -25,6 +25,7 @@ import { isInServiceRegion } from '../enrichers/region'
 import { getDistrictCode } from '../enrichers/district'
 import { PlaceCategory } from '../../src/types/index'
 import { checkPlaceGate } from '../matchers/place-gate'
+import { recordPlaceSource } from '../lib/place-sources'
 
 // ─── API response types ─────────────────────────────────────────────────────
 
@@ -299,7 +300,10 @@ async function processItem(
   })
 
   if (dup.isDuplicate && dup.existingId) {
-    await supabaseAdmin.rpc('increment_source_count', { p_place_id: dup.existingId })
+    await recordPlaceSource(dup.existingId, 'small-biz', item.bizesId, {
+      address,
+      road_address: item.rdnmAdr || null,
+    }, item)
     result.duplicates++
     return
   }
@@ -313,7 +317,7 @@ async function processItem(
 
   const districtCode = await getDistrictCode(lat, lng, address)
 
-  const { error } = await supabaseAdmin.from('places').insert({
+  const { data: inserted, error } = await supabaseAdmin.from('places').insert({
     name: item.bizesNm,
     category: target.babyCategory,
     sub_category: item.indsSclsNm || item.indsMclsNm || target.subCategory,
@@ -326,7 +330,7 @@ async function processItem(
     source_id: item.bizesId,
     is_indoor: target.isIndoor,
     is_active: true,
-  })
+  }).select('id').single()
 
   if (error) {
     if (error.code === '23505') {
@@ -337,6 +341,11 @@ async function processItem(
     }
   } else {
     result.newPlaces++
+    await recordPlaceSource(inserted.id, 'small-biz', item.bizesId, {
+      address,
+      road_address: item.rdnmAdr || null,
+      is_indoor: target.isIndoor,
+    }, item)
   }
 }
 
@@ -28,7 +28,10 @@ import { checkDuplicate } from '../matchers/duplicate'
 import { isInServiceRegion } from '../enrichers/region'
 import { getDistrictCode } from '../enrichers/district'
 import { PlaceCategory } from '../../src/types/index'
+import { parseOpeningHours, normalizeClock } from '../../src/lib/opening-hours'
+import { parsePrice, toPriceColumns } from '../../src/lib/price'
 import { checkPlaceGate } from '../matchers/place-gate'
+import { recordPlaceSource } from '../lib/place-sources'
 
 // ─── Standard Data API response format ───────────────────────────────────────
 
@@ -352,6 +355,56 @@ async function fetchStandardPage(
   }
 }
 
+// ─── Opening hours / price helpers ───────────────────────────────────────────
+
+/**
+ * Build parseable hours text from open/close field pairs, e.g.
+ * [['평일', '0900', '1800'], ['토요일', '0900', '1700']] + '매주 월요일'
+ * → "평일 09:00~18:00, 토요일 09:00~17:00\n휴무: 매주 월요일".
+ * 00:00 pairs mean "no data" in these datasets and are skipped.
+ */
+function buildOpeningHours(
+  groups: [label: string, open: string | undefined, close: string | undefined][],
+  closedDays: string | undefined
+): { opening_hours: ReturnType<typeof parseOpeningHours>; hours_text: string | null } {
+  const usetime = groups
+    .map(([label, open, close]) => {
+      const from = normalizeClock(open)
+      const to = normalizeClock(close)
+      return from && to ? `${label} ${from}~${to}` : null
+    })
+    .filter(Boolean)
+    .join(', ')
+  const restdate = closedDays?.trim() || null
+  const openingHours = parseOpeningHours(usetime || null, restdate)
+  return {
+    opening_hours: openingHours,
+    hours_text: openingHours ? [usetime, restdate && `휴무: ${restdate}`].filter(Boolean).join('\n') : null,
+  }
+}
+
+/**
+ * Museum admission text from per-tier fee fields ("0" = 무료), e.g.
+ * "성인 3,000원, 청소년 2,000원, 어린이 무료 / 6세 이하 무료", parsed into price columns.
+ */
+function buildPrice(item: Record<string, string>): { price_info: string | null } & ReturnType<typeof toPriceColumns> {
+  const tiers: [string, string | undefined][] = [
+    ['성인', item.ADULT_CHRGE],
+    ['청소년', item.YGCHD_CHRGE],
+    ['어린이', item.CHILD_CHRGE],
+  ]
+  const listed = tiers
+    .map(([label, fee]) => [label, fee?.replace(/,/g, '').trim()] as const)
+    .filter(([, fee]) => fee && /^\d+$/.test(fee))
+    .map(([label, fee]) => {
+      const amount = Number(fee)
+      return amount === 0 ? `${label} 무료` : `${label} ${amount.toLocaleString('ko-KR')}원`
+    })
+    .join(', ')
+  const priceInfo = [listed, item.ETC_CHRGE_INFO?.trim(), item.ENTRC_FEE?.trim()].filter(Boolean).join(' / ') || null
+  return { price_info: priceInfo, ...toPriceColumns(parsePrice(priceInfo)) }
+}
+
 // ─── Data Source 1: Parks (전국도시공원정보표준데이터) ────────────────────────
 
 // Confirmed fields from data.go.kr docs (15012890):
@@ -413,6 +466,12 @@ async function fetchParks(stats: ParkStats, existingSourceIds: Set<string>): Pro
           const fullName = name.includes(parkSuffix) ? name : `${name} ${parkSuffix}`
 
           const sourceId = item.MANAGE_NO || `park_${name}`.replace(/\s+/g, '_')
+          const fields = {
+            address,
+            road_address: item.RDNMADR || item.rdnmadr || null,
+            phone: item.PHONE_NUMBER || item.phoneNumber || null,
+            is_indoor: false,
+          }
 
           // Fast in-memory duplicate check
           if (existingSourceIds.has(sourceId)) {
@@ -429,7 +488,7 @@ async function fetchParks(stats: ParkStats, existingSourceIds: Set<string>): Pro
           })
 
           if (dup.isDuplicate && dup.existingId) {
-            await supabaseAdmin.rpc('increment_source_count', { p_place_id: dup.existingId })
+            await recordPlaceSource(dup.existingId, 'public-data-go.kr', sourceId, fields, item)
             stats.duplicates++
             continue
           }
@@ -439,21 +498,18 @@ async function fetchParks(stats: ParkStats, existingSourceIds: Set<string>): Pro
 
           const districtCode = await getDistrictCode(lat, lng, address)
 
-          const { error } = await supabaseAdmin.from('places').insert({
+          const { data: inserted, error } = await supabaseAdmin.from('places').insert({
             name: fullName,
             category: '공원/놀이터' as PlaceCategory,
             sub_category: parkSuffix,
-            address,
-            road_address: item.RDNMADR || item.rdnmadr || null,
+            ...fields,
             lat,
             lng,
             district_code: districtCode,
-            phone: item.PHONE_NUMBER || item.phoneNumber || null,
             source: 'public-data-go.kr',
             source_id: sourceId,
-            is_indoor: false,
             is_active: true,
-          })
+          }).select('id').single()
 
           if (error) {
             if (error.code === '23505') {
@@ -464,6 +520,7 @@ async function fetchParks(stats: ParkStats, existingSourceIds: Set<string>): Pro
             }
           } else {
             stats.new++
+            await recordPlaceSource(inserted.id, 'public-data-go.kr', sourceId, fields, item)
           }
 
           stats.fetched++
@@ -544,6 +601,20 @@ async function fetchLibraries(stats: LibraryStats, existingSourceIds: Set<string
           if (!isInServiceRegion(lat, lng, address)) continue
 
           const sourceId = `library_${name}`.replace(/\s+/g, '_')
+          const fields = {
+            address,
+            road_address: item.RDNMADR || item.rdnmadr || null,
+            phone: item.TEL_NO || item.telNo || null,
+            is_indoor: true,
+            ...buildOpeningHours(
+              [
+                ['평일', item.WEEKDAY_OPER_OPEN_HHMM, item.WEEKDAY_OPER_CLOSE_HHMM],
+                ['토요일', item.SAT_OPER_OPEN_HHMM, item.SAT_OPER_CLOSE_HHMM],
+                ['공휴일', item.HOLIDAY_OPER_OPEN_HHMM, item.HOLIDAY_OPER_CLOSE_HHMM],
+              ],
+              item.CLOSE_DAY || item.closeDay
+            ),
+          }
 
           if (existingSourceIds.has(sourceId)) {
             stats.duplicates++
@@ -559,7 +630,7 @@ async function fetchLibraries(stats: LibraryStats, existingSourceIds: Set<string
           })
 
           if (dup.isDuplicate && dup.existingId) {
-            await supabaseAdmin.rpc('increment_source_count', { p_place_id: dup.existingId })
+            await recordPlaceSource(dup.existingId, 'public-data-go.kr', sourceId, fields, item)
             stats.duplicates++
             continue
           }
@@ -569,21 +640,18 @@ async function fetchLibraries(stats: LibraryStats, existingSourceIds: Set<string
 
           const districtCode = await getDistrictCode(lat, lng, address)
 
-          const { error } = await supabaseAdmin.from('places').insert({
+          const { data: inserted, error } = await supabaseAdmin.from('places').insert({
             name,
             category: '도서관' as PlaceCategory,
             sub_category: libraryType || '어린이도서관',
-            address,
-            road_address: item.RDNMADR || item.rdnmadr || null,
+            ...fields,
             lat,
             lng,
             district_code: districtCode,
-            phone: item.TEL_NO || item.telNo || null,
             source: 'public-data-go.kr',
             source_id: sourceId,
-            is_indoor: true,
             is_active: true,
-          })
+          }).select('id').single()
 
           if (error) {
             if (error.code === '23505') {
@@ -594,6 +662,7 @@ async function fetchLibraries(stats: LibraryStats, existingSourceIds: Set<string
             }
           } else {
             stats.new++
+            await recordPlaceSource(inserted.id, 'public-data-go.kr', sourceId, fields, item)
           }
 
           stats.fetched++
@@ -619,7 +688,9 @@ async function fetchLibraries(stats: LibraryStats, existingSourceIds: Set<string
 // FCLTY_NM, CTPRVN_NM, SIGNGU_NM, FCLTY_SE_NM (박물관/미술관),
 // RDNMADR, LNMADR, LATITUDE, LONGITUDE,
 // OPER_INSTT_TELNO, OPER_INSTT_NM, HOMEPG_URL,
-// ENTRC_FEE, REST_DAY, REFERENCE_DATE
+// WEEKDAY_OPN_BSNS_TIME, WEEKDAY_CLOS_TIME, HOLIDAY_OPN_BSNS_TIME, HOLIDAY_CLS_TIME,
+// ADULT_CHRGE, YGCHD_CHRGE, CHILD_CHRGE, ETC_CHRGE_INFO (older releases: ENTRC_FEE),
+// RSTDE_INFO (older releases: REST_DAY), REFERENCE_DATE
 
 const MUSEUMS_API = 'http://api.data.go.kr/openapi/tn_pubr_public_museum_artgr_info_api'
 
@@ -665,6 +736,21 @@ async function fetchMuseums(stats: MuseumStats, existingSourceIds: Set<string>):
           if (!isInServiceRegion(lat, lng, address)) continue
 
           const sourceId = `museum_${name}`.replace(/\s+/g, '_')
+          const price = buildPrice(item)
+          const fields = {
+            address,
+            road_address: item.RDNMADR || item.rdnmadr || null,
+            phone: item.OPER_INSTT_TELNO || item.operInsttTelno || item.telNo || null,
+            is_indoor: true,
+            ...buildOpeningHours(
+              [
+                ['평일', item.WEEKDAY_OPN_BSNS_TIME, item.WEEKDAY_CLOS_TIME],
+                ['공휴일', item.HOLIDAY_OPN_BSNS_TIME, item.HOLIDAY_CLS_TIME],
+              ],
+              item.RSTDE_INFO || item.REST_DAY || item.rstdeInfo
+            ),
+            price_info: price.price_info,
+          }
 
           if (existingSourceIds.has(sourceId)) {
             stats.duplicates++
@@ -680,7 +766,7 @@ async function fetchMuseums(stats: MuseumStats, existingSourceIds: Set<string>):
           })
 
           if (dup.isDuplicate && dup.existingId) {
-            await supabaseAdmin.rpc('increment_source_count', { p_place_id: dup.existingId })
+            await recordPlaceSource(dup.existingId, 'public-data-go.kr', sourceId, fields, item)
             stats.duplicates++
             continue
           }
@@ -692,23 +778,21 @@ async function fetchMuseums(stats: MuseumStats, existingSourceIds: Set<string>):
           const facilityType = item.FCLTY_SE_NM || item.fcltySeNm || ''
           const category = '전시/체험' as PlaceCategory
 
-          const { error } = await supabaseAdmin.from('places').insert({
+          const { data: inserted, error } = await supabaseAdmin.from('places').insert({
             name,
             category,
             sub_category: facilityType.includes('미술관') || name.includes('미술관')
               ? '미술관'
               : '박물관',
-            address,
-            road_address: item.RDNMADR || item.rdnmadr || null,
+            ...fields,
+            ...price,
             lat,
             lng,
             district_code: districtCode,
-            phone: item.OPER_INSTT_TELNO || item.operInsttTelno || item.telNo || null,
             source: 'public-data-go.kr',
             source_id: sourceId,
-            is_indoor: true,
             is_active: true,
-          })
+          }).select('id').single()
 
           if (error) {
             if (error.code === '23505') {
@@ -719,6 +803,7 @@ async function fetchMuseums(stats: MuseumStats, existingSourceIds: Set<string>):
             }
           } else {
             stats.new++
+            await recordPlaceSource(inserted.id, 'public-data-go.kr', sourceId, fields, item)
           }
 
           stats.fetched++
@@ -8,6 +8,7 @@
 import { supabaseAdmin } from '../lib/supabase-admin'
 import { logCollection } from '../lib/collection-log'
 import { prefetchIds } from '../lib/prefetch'
+import { markEventSourcesSeen } from '../lib/event-sources'
 import {
   classifySeoulEvent,
   isBlacklisted,
@@ -64,11 +65,12 @@ export interface SeoulEventsCollectorResult {
 
 /**
  * Pre-fetch known Seoul event source_ids from DB to skip LLM classification.
+ * Reads event_sources so listings merged into another canonical event count too.
  * Reuses the children-facility.ts prefetch pattern.
  */
 async function prefetchKnownSourceIds(): Promise<Set<string>> {
   return prefetchIds({
-    table: 'events',
+    table: 'event_sources',
     column: 'source_id',
     filters: [{ op: 'eq', column: 'source', value: 'seoul_events' }],
   })
@@ -125,6 +127,12 @@ export async function runSeoulEventsCollector(): Promise<SeoulEventsCollectorRes
       return !knownSourceIds.has(sourceId)
     })
     const knownSkipped = currentEvents.length - unknownEvents.length
+    await markEventSourcesSeen(
+      'seoul_events',
+      currentEvents
+        .map((e) => extractCultCode(e.HMPG_ADDR) || `${e.TITLE}_${e.DATE}`)
+        .filter((sourceId) => knownSourceIds.has(sourceId))
+    )
     console.log(`[seoul-events] Step 0.5 known filter: ${knownSkipped} already in DB, ${unknownEvents.length} to classify`)
 
     // Step 0.6: Restore official posters for existing events whose poster_url was overwritten
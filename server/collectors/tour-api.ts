@@ -11,6 +11,8 @@
  * Two-phase collection:
  *   Phase 1: areaBasedList2 — list places/events by area + content type
  *   Phase 2: detailIntro2 — baby-friendly fields (stroller, age range, kids facility)
+ *            opening hours (usetime/restdate → places.opening_hours)
+ *            and admission fees (usefee → places.price_info + parsed price columns)
  *
  * Dual storage:
  *   - Permanent facilities (contentTypeId 12,14,28) → places table
@@ -26,6 +28,12 @@ import { PlaceCategory } from '../../src/types/index'
 import { checkPlaceGate } from '../matchers/place-gate'
 import { classifyEventByTitle } from '../utils/event-classifier'
 import { logCollection } from '../lib/collection-log'
+import { parseOpeningHours } from '../../src/lib/opening-hours'
+import { parsePrice, toPriceColumns } from '../../src/lib/price'
+import { recordPlaceSource } from '../lib/place-sources'
+import { markEventSourcesSeen } from '../lib/event-sources'
+import { prefetchIds } from '../lib/prefetch'
+import { parseTourIntroAmenities } from '../../src/lib/amenities'
 
 // ─── API types ──────────────────────────────────────────────────────────────
 
@@ -77,12 +85,15 @@ interface TourIntroItem {
   contenttypeid?: number
   // 관광지(12)
   chkbabycarriage?: string
+  parking?: string
   expagerange?: string
   usetime?: string
   restdate?: string
   usefee?: string
   // 문화시설(14)
   chkbabycarriageculture?: string
+  parkingculture?: string
+  parkingfee?: string
   usetimeculture?: string
   restdateculture?: string
   usefeeculture?: string
@@ -94,14 +105,18 @@ interface TourIntroItem {
   eventplace?: string
   eventhomepage?: string
   agelimit?: string
-  usetimefestival?: string
+  usetimefestival?: string // 이용요금 (not hours, despite the name)
   // 레포츠(28)
   chkbabycarriageleports?: string
+  parkingleports?: string
+  parkingfeeleports?: string
   expagerangeleports?: string
   usefeeleports?: string
+  usetimeleports?: string
   restdateleports?: string
   // 음식점(39)
   kidsfacility?: string
+  parkingfood?: string
 }
 
 // ─── Config ─────────────────────────────────────────────────────────────────
@@ -164,11 +179,19 @@ export async function runTourAPICollector(): Promise<TourAPICollectorResult> {
   }
 
   try {
+    // Skip festivals already stored (incl. listings merged into another event)
+    const knownEventIds = await prefetchIds({
+      table: 'event_sources',
+      column: 'source_id',
+      filters: [{ op: 'eq', column: 'source', value: 'tour_api' }],
+    })
+    console.log(`[tour-api] Pre-fetched ${knownEventIds.size} known event source_ids`)
+
     for (const ct of CONTENT_TYPES) {
       for (const areaCode of AREA_CODES) {
         try {
           console.log(`[tour-api] Fetching ${ct.label} area=${areaCode}`)
-          await fetchAndProcess(ct, areaCode, result)
+          await fetchAndProcess(ct, areaCode, result, knownEventIds)
         } catch (err) {
           console.error(`[tour-api] Error ${ct.label} area=${areaCode}:`, err)
           result.errors++
@@ -204,7 +227,8 @@ export async function runTourAPICollector(): Promise<TourAPICollectorResult> {
 async function fetchAndProcess(
   ct: ContentTypeConfig,
   areaCode: number,
-  result: TourAPICollectorResult
+  result: TourAPICollectorResult,
+  knownEventIds: Set<string>
 ): Promise<void> {
   let pageNo = 1
   let fetchedTotal = 0
@@ -223,12 +247,19 @@ async function fetchAndProcess(
     const prevNew = result.newPlaces + result.newEvents
     const prevDup = result.duplicates
 
+    if (ct.storeTo === 'events') {
+      await markEventSourcesSeen(
+        'tour_api',
+        items.map((item) => String(item.contentid)).filter((id) => knownEventIds.has(id))
+      )
+    }
+
     for (const item of items) {
       try {
         if (ct.storeTo === 'places') {
           await processAsPlace(item, ct, result)
         } else {
-          await processAsEvent(item, result)
+          await processAsEvent(item, result, knownEventIds)
         }
       } catch (err) {
         console.error('[tour-api] Item error:', err, item.contentid)
@@ -308,19 +339,20 @@ async function processAsPlace(
     address,
     lat,
     lng,
+    phone: item.tel || null,
   })
 
   if (dup.isDuplicate && dup.existingId) {
-    await supabaseAdmin.rpc('increment_source_count', { p_place_id: dup.existingId })
+    await recordPlaceSource(dup.existingId, 'tour_api', String(item.contentid), tourFields(item, address), item)
     result.duplicates++
-    // Enrich existing place with tour data only if not already enriched (tags is null)
+    // Fetch intro for existing places only if not already enriched (tags is null)
     const { data: existing } = await supabaseAdmin
       .from('places')
       .select('tags')
       .eq('id', dup.existingId)
       .maybeSingle()
     if (!existing?.tags) {
-      await enrichWithIntro(item.contentid, item.contenttypeid, dup.existingId)
+      await enrichWithIntro(item.contentid, item.contenttypeid, dup.existingId, false)
       result.enriched++
     }
     return
@@ -379,28 +411,38 @@ async function processAsPlace(
       .eq('source_id', String(item.contentid))
       .maybeSingle()
     if (inserted) {
-      await enrichWithIntro(item.contentid, item.contenttypeid, inserted.id)
+      await recordPlaceSource(
+        inserted.id,
+        'tour_api',
+        String(item.contentid),
+        { ...tourFields(item, address), is_indoor: isIndoor },
+        item
+      )
+      await enrichWithIntro(item.contentid, item.contenttypeid, inserted.id, true)
       result.enriched++
     }
   }
 }
 
+function tourFields(item: TourListItem, address: string) {
+  return {
+    phone: item.tel || null,
+    address: address || null,
+    road_address: item.addr1 || null,
+  }
+}
+
 // ─── Process as Event (festivals, performances) ─────────────────────────────
 
 async function processAsEvent(
   item: TourListItem,
-  result: TourAPICollectorResult
+  result: TourAPICollectorResult,
+  knownEventIds: Set<string>
 ): Promise<void> {
   if (!item.contentid) return
 
-  const { data: existing } = await supabaseAdmin
-    .from('events')
-    .select('id')
-    .eq('source', 'tour_api')
-    .eq('source_id', String(item.contentid))
-    .maybeSingle()
-
-  if (existing) {
+  const sourceId = String(item.contentid)
+  if (knownEventIds.has(sourceId)) {
     result.duplicates++
     return
   }
@@ -437,11 +479,11 @@ async function processAsEvent(
     lng,
     start_date: startDate,
     end_date: endDate || null,
-    time_info: intro?.usetimefestival || intro?.playtime || null,
-    price_info: null,
+    time_info: introText(intro?.playtime),
+    price_info: introText(intro?.usetimefestival),
     age_range: intro?.agelimit || null,
     source: 'tour_api',
-    source_id: String(item.contentid),
+    source_id: sourceId,
     source_url: intro?.eventhomepage || null,
     poster_url: item.firstimage ? item.firstimage.replace('http://', 'https://') : null,
     description: null,
@@ -461,10 +503,16 @@ async function processAsEvent(
 
 // ─── Phase 2: Detail enrichment ─────────────────────────────────────────────
 
+/**
+ * Record detailIntro2 fields on the place's tour_api source. Only places this
+ * collector created are written directly; on others the place-fields step
+ * decides whether Tour API's values win.
+ */
 async function enrichWithIntro(
   contentId: number,
   contentTypeId: number,
-  placeId: number
+  placeId: number,
+  ownsPlace: boolean
 ): Promise<void> {
   const intro = await fetchIntro(contentId, contentTypeId)
   if (!intro) return
@@ -480,21 +528,62 @@ async function enrichWithIntro(
     intro.agelimit ||
     null
   const kidsFacility = intro.kidsfacility || null
-
-  if (!stroller && !ageRange && !kidsFacility) return
-
-  // Store baby-friendly info in tags array
+  const usetime = introText(intro.usetime || intro.usetimeculture || intro.usetimeleports)
+  const restdate = introText(intro.restdate || intro.restdateculture || intro.restdateleports)
+  const openingHours = parseOpeningHours(usetime, restdate)
+  const usefee = introText(intro.usefee || intro.usefeeculture || intro.usefeeleports)
+  const price = parsePrice(usefee)
+  const amenities = parseTourIntroAmenities(
+    {
+      stroller,
+      parking: introText(intro.parking || intro.parkingculture || intro.parkingleports || intro.parkingfood),
+      parkingFee: introText(intro.parkingfee || intro.parkingfeeleports),
+    },
+    new Date().toISOString()
+  )
+  const hasAmenities = Object.keys(amenities).length > 0
+
+  if (!stroller && !ageRange && !kidsFacility && !openingHours && !price && !hasAmenities) return
+
+  // Stroller rental and parking go to amenities; tags keep the rest
   const tags: string[] = []
-  if (stroller && stroller !== '불가' && stroller !== '없음') tags.push('유모차대여')
   if (kidsFacility && kidsFacility !== '없음') tags.push('어린이놀이방')
   if (ageRange) tags.push(`체험연령:${ageRange}`)
 
+  const update: Record<string, unknown> = {}
   if (tags.length > 0) {
-    await supabaseAdmin
-      .from('places')
-      .update({ tags, description: [stroller, ageRange, kidsFacility].filter(Boolean).join(' / ') })
-      .eq('id', placeId)
+    update.tags = tags
+    update.description = [stroller, ageRange, kidsFacility].filter(Boolean).join(' / ')
+  }
+  if (hasAmenities) update.amenities = amenities
+  if (openingHours) {
+    update.opening_hours = openingHours
+    update.hours_text = [usetime, restdate && `휴무: ${restdate}`].filter(Boolean).join('\n')
+  }
+  if (price) {
+    update.price_info = usefee
+    Object.assign(update, toPriceColumns(price))
   }
+
+  await recordPlaceSource(placeId, 'tour_api', String(contentId), {
+    tags: update.tags as string[] | undefined,
+    description: update.description as string | undefined,
+    opening_hours: openingHours,
+    hours_text: update.hours_text as string | undefined,
+    price_info: price ? usefee : null,
+    amenities: hasAmenities ? amenities : null,
+  })
+
+  if (ownsPlace && Object.keys(update).length > 0) {
+    await supabaseAdmin.from('places').update(update).eq('id', placeId)
+  }
+}
+
+/** Intro fields are HTML fragments ("09:00~18:00<br>(입장마감 17:00)") */
+function introText(raw: string | undefined): string | null {
+  if (!raw) return null
+  const text = raw.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').trim()
+  return text || null
 }
 
 async function fetchIntro(
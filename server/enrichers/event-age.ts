@@ -0,0 +1,91 @@
+/**
+ * Event age normalization — parse free-text age_range into age_min_months /
+ * age_max_months so /api/events can filter by childAgeMonths.
+ *
+ * Collectors store the source text as-is (Seoul USE_TRGT, Tour API agelimit,
+ * KOPIS prfage, BabyGo ageRange). Interpark has no age field, so events
+ * without age_range fall back to explicit ages in the title ("[24개월 이상]
+ * 오감놀이").
+ *
+ * Runs after event-dedup so merged rows are normalized once. Only rows whose
+ * parsed range differs from the stored one are written.
+ */
+
+import { supabaseAdmin } from '../lib/supabase-admin'
+import { logCollection } from '../lib/collection-log'
+import { parseAgeRange, parseTitleAgeRange } from '../../src/lib/age-range'
+
+export interface EventAgeResult {
+  scanned: number
+  updated: number
+  unparsed: number
+  errors: number
+}
+
+const PAGE = 1000
+
+export async function runEventAgeNormalization(): Promise<EventAgeResult> {
+  const result: EventAgeResult = { scanned: 0, updated: 0, unparsed: 0, errors: 0 }
+  const startedAt = Date.now()
+
+  try {
+    const events: any[] = []
+    let offset = 0
+    while (true) {
+      const { data, error } = await supabaseAdmin
+        .from('events')
+        .select('id, name, age_range, age_min_months, age_max_months')
+        .order('id')
+        .range(offset, offset + PAGE - 1)
+      if (error) throw new Error(`Failed to fetch events: ${error.message}`)
+      if (!data || data.length === 0) break
+      events.push(...data)
+      if (data.length < PAGE) break
+      offset += PAGE
+    }
+    result.scanned = events.length
+
+    for (const event of events) {
+      const parsed = parseAgeRange(event.age_range) ?? parseTitleAgeRange(event.name)
+      if (!parsed && event.age_range) result.unparsed++
+
+      const minMonths = parsed?.minMonths ?? null
+      const maxMonths = parsed?.maxMonths ?? null
+      if (minMonths === event.age_min_months && maxMonths === event.age_max_months) continue
+
+      const { error } = await supabaseAdmin
+        .from('events')
+        .update({ age_min_months: minMonths, age_max_months: maxMonths })
+        .eq('id', event.id)
+
+      if (error) {
+        console.error(`[event-age] Update error for ${event.id}:`, error.message)
+        result.errors++
+      } else {
+        result.updated++
+      }
+    }
+
+    await logCollection({
+      collector: 'event-age',
+      startedAt,
+      resultsCount: result.updated,
+      errors: result.errors,
+    })
+  } catch (err) {
+    console.error('[event-age] Fatal error:', err)
+    result.errors++
+    await logCollection({
+      collector: 'event-age',
+      startedAt,
+      resultsCount: result.updated,
+      errors: result.errors,
+      error: String(err),
+    })
+  }
+
+  console.log(
+    `[event-age] Done: scanned=${result.scanned}, updated=${result.updated}, unparsed=${result.unparsed}, errors=${result.errors}`
+  )
+  return result
+}
@@ -0,0 +1,93 @@
+/**
+ * Event price normalization — parse free-text price_info into is_free /
+ * price_adult / price_child / price_infant / free_under_months so /api/events
+ * can filter by free and maxPrice.
+ *
+ * Collectors store the source text as-is (Seoul USE_FEE, KOPIS pcseguidance,
+ * Tour API usetimefestival, BabyGo products, submissions). Interpark listings
+ * carry no price, so their rows stay unknown unless dedup merges in a
+ * price_info from another source.
+ *
+ * Runs after event-dedup so merged rows are normalized once. Only rows whose
+ * parsed columns differ from the stored ones are written.
+ */
+
+import { supabaseAdmin } from '../lib/supabase-admin'
+import { logCollection } from '../lib/collection-log'
+import { parsePrice, toPriceColumns, type PriceColumns } from '../../src/lib/price'
+
+export interface EventPriceResult {
+  scanned: number
+  updated: number
+  unparsed: number
+  errors: number
+}
+
+const PAGE = 1000
+
+const PRICE_FIELDS: (keyof PriceColumns)[] = ['is_free', 'price_adult', 'price_child', 'price_infant', 'free_under_months']
+
+export async function runEventPriceNormalization(): Promise<EventPriceResult> {
+  const result: EventPriceResult = { scanned: 0, updated: 0, unparsed: 0, errors: 0 }
+  const startedAt = Date.now()
+
+  try {
+    const events: any[] = []
+    let offset = 0
+    while (true) {
+      const { data, error } = await supabaseAdmin
+        .from('events')
+        .select(`id, price_info, ${PRICE_FIELDS.join(', ')}`)
+        .order('id')
+        .range(offset, offset + PAGE - 1)
+      if (error) throw new Error(`Failed to fetch events: ${error.message}`)
+      if (!data || data.length === 0) break
+      events.push(...data)
+      if (data.length < PAGE) break
+      offset += PAGE
+    }
+    result.scanned = events.length
+
+    for (const event of events) {
+      const parsed = parsePrice(event.price_info)
+      if (!parsed && event.price_info) result.unparsed++
+
+      const columns = toPriceColumns(parsed)
+      if (PRICE_FIELDS.every((field) => columns[field] === event[field])) continue
+
+      const { error } = await supabaseAdmin
+        .from('events')
+        .update(columns)
+        .eq('id', event.id)
+
+      if (error) {
+        console.error(`[event-price] Update error for ${event.id}:`, error.message)
+        result.errors++
+      } else {
+        result.updated++
+      }
+    }
+
+    await logCollection({
+      collector: 'event-price',
+      startedAt,
+      resultsCount: result.updated,
+      errors: result.errors,
+    })
+  } catch (err) {
+    console.error('[event-price] Fatal error:', err)
+    result.errors++
+    await logCollection({
+      collector: 'event-price',
+      startedAt,
+      resultsCount: result.updated,
+      errors: result.errors,
+      error: String(err),
+    })
+  }
+
+  console.log(
+    `[event-price] Done: scanned=${result.scanned}, updated=${result.updated}, unparsed=${result.unparsed}, errors=${result.errors}`
+  )
+  return result
+}
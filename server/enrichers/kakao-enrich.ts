@@ -20,6 +20,7 @@ import { searchKakaoPlace, searchKakaoPlaceDetailed } from '../lib/kakao-search'
 import { kakaoLimiter } from '../rate-limiter'
 import { isInServiceArea } from './region'
 import { mapKakaoCategory } from '../collectors/kakao-category'
+import { recordPlaceSource } from '../lib/place-sources'
 
 const ENRICH_BATCH = 1000
 const MATCH_THRESHOLD = 0.75
@@ -216,6 +217,11 @@ async function enrichPlace(place: PlaceRow, usedKakaoIds: Set<string>): Promise<
 
   // Track newly assigned ID to prevent same-batch duplicates
   usedKakaoIds.add(match.id)
+  await recordPlaceSource(place.id, 'kakao', match.id, {
+    phone: match.phone,
+    address: match.address,
+    road_address: match.roadAddress,
+  }, match)
   return true
 }
 
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../lib/supabase-admin', () => ({ supabaseAdmin: {} }))
+
+import { resolvePlaceFields, type PlaceObservation } from './place-fields'
+import { summarizeFactVotes } from '../../src/lib/place-facts'
+
+function obs(source: string, fields: PlaceObservation['fields'], lastSeenAt = '2026-01-01T00:00:00Z'): PlaceObservation {
+  return { source, fields, last_seen_at: lastSeenAt }
+}
+
+describe('resolvePlaceFields', () => {
+  it('takes each field from the most trusted source that reported it', () => {
+    const resolved = resolvePlaceFields([
+      obs('small-biz', { phone: '02-000-0000', address: '서울 송파구 1' }),
+      obs('kakao', { phone: '02-123-4567', is_indoor: false }),
+      obs('babygo', { is_indoor: true, tags: ['수유실'] }),
+      obs('tour_api', { tags: ['유모차대여'] }),
+    ])
+    expect(resolved.values).toEqual({
+      phone: '02-123-4567',
+      address: '서울 송파구 1',
+      is_indoor: true,
+      tags: ['유모차대여'],
+    })
+    expect(resolved.fieldSources).toEqual({
+      phone: 'kakao',
+      address: 'small-biz',
+      is_indoor: 'babygo',
+      tags: 'tour_api',
+    })
+  })
+
+  it('breaks trust ties by recency', () => {
+    const resolved = resolvePlaceFields([
+      obs('unknown-a', { phone: '02-111-1111' }, '2026-01-01T00:00:00Z'),
+      obs('unknown-b', { phone: '02-222-2222' }, '2026-03-01T00:00:00Z'),
+    ])
+    expect(resolved.values.phone).toBe('02-222-2222')
+    expect(resolved.fieldSources.phone).toBe('unknown-b')
+  })
+
+  it('keeps grouped fields from a single source', () => {
+    const resolved = resolvePlaceFields([
+      obs('tour_api', { hours_text: '09:00~18:00' }),
+      obs('public-data-go.kr', { opening_hours: null, hours_text: '평일 10:00~17:00' }),
+      obs('babygo', { age_min_months: 12 }),
+      obs('tour_api', { age_min_months: 24, age_max_months: 84 }),
+    ])
+    expect(resolved.values.opening_hours).toBeNull()
+    expect(resolved.values.hours_text).toBe('평일 10:00~17:00')
+    expect(resolved.values.age_min_months).toBe(12)
+    expect(resolved.values.age_max_months).toBeNull()
+    expect(resolved.fieldSources.age_max_months).toBe('babygo')
+  })
+
+  it('lets admin edits win without counting them as a source', () => {
+    const resolved = resolvePlaceFields([
+      obs('kakao', { phone: '02-123-4567' }),
+      obs('kakao', { phone: '02-765-4321' }),
+      obs('admin', { phone: '02-999-9999', is_indoor: true }),
+    ])
+    expect(resolved.values.phone).toBe('02-999-9999')
+    expect(resolved.fieldSources.is_indoor).toBe('admin')
+    expect(resolved.sourceCount).toBe(1)
+  })
+
+  it('merges amenities per amenity instead of by source', () => {
+    const seen = (source: string, at: string) => ({ present: true, source, confirmed_at: at })
+    const resolved = resolvePlaceFields([
+      obs('kakao', { amenities: { parking: seen('kakao', '2026-01-01'), elevator: seen('kakao', '2026-01-01') } }),
+      obs('babygo', { amenities: { parking: { ...seen('babygo', '2026-02-01'), fee: 'free' } } }),
+    ])
+    expect(resolved.values.amenities).toEqual({
+      parking: { present: true, source: 'babygo', confirmed_at: '2026-02-01', fee: 'free' },
+      elevator: { present: true, source: 'kakao', confirmed_at: '2026-01-01' },
+    })
+    expect(resolved.fieldSources.amenities).toBeUndefined()
+  })
+
+  it('applies settled user answers over source amenities', () => {
+    const now = new Date().toISOString()
+    const resolved = resolvePlaceFields(
+      [obs('kakao', { amenities: { parking: { present: true, source: 'kakao', confirmed_at: '2026-01-01' } } })],
+      summarizeFactVotes([1, 2, 3].map(() => ({ attribute: 'parking' as const, answer: false, answered_at: now })))
+    )
+    expect(resolved.values.amenities?.parking).toMatchObject({ present: false, source: 'user_confirmation' })
+    expect(resolved.sourceCount).toBe(1)
+  })
+
+  it('counts distinct sources and leaves unreported fields out', () => {
+    const resolved = resolvePlaceFields([
+      obs('kakao', {}),
+      obs('tour_api', { description: '유모차 대여 가능' }),
+      obs('public-data-go.kr', {}),
+    ])
+    expect(resolved.sourceCount).toBe(3)
+    expect(Object.keys(resolved.values)).toEqual(['description'])
+  })
+})
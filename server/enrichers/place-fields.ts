@@ -0,0 +1,257 @@
+/**
+ * Place field resolution — pick each places column from the place_sources
+ * observations by source trust, then recency.
+ *
+ * Every collector hit records what its listing reported (server/lib/place-sources.ts).
+ * For each field group the most trusted source that reported it wins; among
+ * equally trusted sources the most recently seen one wins. Groups are taken as
+ * a unit (opening_hours + hours_text, age_min + age_max) so a pair never mixes
+ * two sources. Fields no source reported are left as they are. Amenities are
+ * merged per amenity instead (src/lib/amenities.ts mergeAmenities), since each
+ * entry carries its own source and confirmation date, and settled user answers
+ * from place_fact_votes are applied on top (src/lib/place-facts.ts).
+ *
+ * Also sets source_count to the number of distinct sources (admin edits don't
+ * count), replacing the increment_source_count bumps collectors used to make on
+ * every duplicate hit. Sources of a merged place count toward the place it was
+ * merged into.
+ *
+ * Runs before scoring, which uses source_count for source diversity.
+ */
+
+import { supabaseAdmin } from '../lib/supabase-admin'
+import { logCollection } from '../lib/collection-log'
+import type { PlaceSourceFields } from '../lib/place-sources'
+import { parsePrice, toPriceColumns } from '../../src/lib/price'
+import { mergeAmenities } from '../../src/lib/amenities'
+import { summarizeFactVotes, applyFactConfirmations, type FactSummary, type FactVote } from '../../src/lib/place-facts'
+
+export interface PlaceObservation {
+  source: string
+  fields: PlaceSourceFields
+  last_seen_at: string
+}
+
+export interface ResolvedPlaceFields {
+  values: PlaceSourceFields
+  /** Winning source per field */
+  fieldSources: Record<string, string>
+  sourceCount: number
+}
+
+export interface PlaceFieldsResult {
+  scanned: number
+  updated: number
+  errors: number
+}
+
+type FieldKey = keyof PlaceSourceFields
+
+export const FIELD_GROUPS: FieldKey[][] = [
+  ['phone'],
+  ['address'],
+  ['road_address'],
+  ['description'],
+  ['is_indoor'],
+  ['tags'],
+  ['opening_hours', 'hours_text'],
+  ['price_info'],
+  ['age_min_months', 'age_max_months'],
+]
+
+/** Admin edits are ground truth and don't count as a data source */
+const ADMIN_SOURCE = 'admin'
+
+/** Most trusted first; sources not listed rank after every listed one */
+const DEFAULT_TRUST = [
+  ADMIN_SOURCE,
+  'kakao',
+  'tour_api',
+  'public-data-go.kr',
+  'children-facility',
+  'babygo',
+  'small-biz',
+  'auto_promoted',
+  'user_submission',
+]
+
+/** Per-group overrides, keyed by the group's first field */
+const FIELD_TRUST: Partial<Record<FieldKey, string[]>> = {
+  // Facility registries record indoor/outdoor explicitly; Kakao's is a category guess
+  is_indoor: [ADMIN_SOURCE, 'children-facility', 'babygo', 'tour_api', 'public-data-go.kr', 'kakao'],
+  // Baby-friendly detail (stroller, kids room, age) comes from detailIntro2 and BabyGo
+  tags: [ADMIN_SOURCE, 'tour_api', 'babygo'],
+  description: [ADMIN_SOURCE, 'tour_api', 'babygo', 'public-data-go.kr'],
+  opening_hours: [ADMIN_SOURCE, 'public-data-go.kr', 'babygo', 'tour_api', 'kakao'],
+  price_info: [ADMIN_SOURCE, 'public-data-go.kr', 'tour_api', 'babygo'],
+  age_min_months: [ADMIN_SOURCE, 'babygo', 'tour_api'],
+}
+
+const PAGE = 1000
+
+const PLACE_COLUMNS = [...FIELD_GROUPS.flat(), 'amenities']
+
+function trustRank(group: FieldKey, source: string): number {
+  const order = FIELD_TRUST[group] ?? DEFAULT_TRUST
+  const index = order.indexOf(source)
+  return index === -1 ? order.length : index
+}
+
+function reported(fields: PlaceSourceFields, group: FieldKey[]): boolean {
+  return group.some((key) => fields[key] !== null && fields[key] !== undefined)
+}
+
+/**
+ * Pick every field group from the most trusted, then most recent, observation.
+ * facts are the place's crowd answers; settled ones override amenities.
+ */
+export function resolvePlaceFields(observations: PlaceObservation[], facts: FactSummary[] = []): ResolvedPlaceFields {
+  const values: Record<string, unknown> = {}
+  const fieldSources: Record<string, string> = {}
+
+  for (const group of FIELD_GROUPS) {
+    const lead = group[0]
+    let best: PlaceObservation | null = null
+    for (const obs of observations) {
+      if (!reported(obs.fields, group)) continue
+      if (
+        !best ||
+        trustRank(lead, obs.source) < trustRank(lead, best.source) ||
+        (trustRank(lead, obs.source) === trustRank(lead, best.source) && obs.last_seen_at > best.last_seen_at)
+      ) {
+        best = obs
+      }
+    }
+    if (!best) continue
+    for (const key of group) {
+      values[key] = best.fields[key] ?? null
+      fieldSources[key] = best.source
+    }
+  }
+
+  const amenities = applyFactConfirmations(mergeAmenities(...observations.map((o) => o.fields.amenities)), facts)
+  if (Object.keys(amenities).length > 0) values.amenities = amenities
+
+  const sources = new Set(observations.map((o) => o.source).filter((s) => s !== ADMIN_SOURCE))
+  return { values: values as PlaceSourceFields, fieldSources, sourceCount: Math.max(1, sources.size) }
+}
+
+/** JSON with sorted keys — jsonb columns come back with Postgres' key order */
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableJson(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return stableJson(a) === stableJson(b)
+}
+
+async function fetchAll<T>(table: string, columns: string): Promise<T[]> {
+  const rows: T[] = []
+  let offset = 0
+  while (true) {
+    const { data, error } = await supabaseAdmin
+      .from(table)
+      .select(columns)
+      .order('id')
+      .range(offset, offset + PAGE - 1)
+    if (error) throw new Error(`Failed to fetch ${table}: ${error.message}`)
+    if (!data || data.length === 0) break
+    rows.push(...(data as T[]))
+    if (data.length < PAGE) break
+    offset += PAGE
+  }
+  return rows
+}
+
+export async function runPlaceFieldResolution(): Promise<PlaceFieldsResult> {
+  const result: PlaceFieldsResult = { scanned: 0, updated: 0, errors: 0 }
+  const startedAt = Date.now()
+
+  try {
+    const places = await fetchAll<Record<string, any>>(
+      'places',
+      `id, merged_into, source_count, field_sources, ${PLACE_COLUMNS.join(', ')}`
+    )
+    const sources = await fetchAll<PlaceObservation & { place_id: number }>(
+      'place_sources',
+      'id, place_id, source, fields, last_seen_at'
+    )
+
+    const votes = await fetchAll<FactVote & { place_id: number }>(
+      'place_fact_votes',
+      'id, place_id, attribute, answer, answered_at'
+    )
+
+    const mergedInto = new Map<number, number>()
+    for (const place of places) {
+      if (place.merged_into) mergedInto.set(place.id, place.merged_into)
+    }
+
+    const observationsByPlace = new Map<number, PlaceObservation[]>()
+    for (const row of sources) {
+      const placeId = mergedInto.get(row.place_id) ?? row.place_id
+      if (!observationsByPlace.has(placeId)) observationsByPlace.set(placeId, [])
+      observationsByPlace.get(placeId)!.push(row)
+    }
+
+    const votesByPlace = new Map<number, FactVote[]>()
+    for (const vote of votes) {
+      if (vote.attribute === 'open') continue
+      const placeId = mergedInto.get(vote.place_id) ?? vote.place_id
+      if (!votesByPlace.has(placeId)) votesByPlace.set(placeId, [])
+      votesByPlace.get(placeId)!.push(vote)
+    }
+
+    for (const place of places) {
+      if (place.merged_into) continue
+      const observations = observationsByPlace.get(place.id)
+      if (!observations || observations.length === 0) continue
+      result.scanned++
+
+      const resolved = resolvePlaceFields(observations, summarizeFactVotes(votesByPlace.get(place.id) ?? []))
+      const update: Record<string, unknown> = {}
+      for (const [key, value] of Object.entries(resolved.values)) {
+        if (!sameValue(place[key], value)) update[key] = value
+      }
+      if ('price_info' in update) {
+        Object.assign(update, toPriceColumns(parsePrice(update.price_info as string | null)))
+      }
+      if (!sameValue(place.field_sources, resolved.fieldSources)) update.field_sources = resolved.fieldSources
+      if (place.source_count !== resolved.sourceCount) update.source_count = resolved.sourceCount
+      if (Object.keys(update).length === 0) continue
+
+      const { error } = await supabaseAdmin.from('places').update(update).eq('id', place.id)
+      if (error) {
+        console.error(`[place-fields] Update error for ${place.id}:`, error.message)
+        result.errors++
+      } else {
+        result.updated++
+      }
+    }
+
+    await logCollection({
+      collector: 'place-fields',
+      startedAt,
+      resultsCount: result.updated,
+      errors: result.errors,
+    })
+  } catch (err) {
+    console.error('[place-fields] Fatal error:', err)
+    result.errors++
+    await logCollection({
+      collector: 'place-fields',
+      startedAt,
+      resultsCount: result.updated,
+      errors: result.errors,
+      error: String(err),
+    })
+  }
+
+  console.log(`[place-fields] Done: scanned=${result.scanned}, updated=${result.updated}, errors=${result.errors}`)
+  return result
+}
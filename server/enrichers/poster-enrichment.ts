@@ -24,7 +24,7 @@ const NAVER_IMAGE_URL = 'https://openapi.naver.com/v1/search/image'
 const NAVER_WEB_URL = 'https://openapi.naver.com/v1/search/webkr'
 
 // Sources that already have official posters — skip enrichment
-const OFFICIAL_POSTER_SOURCES = ['tour_api', 'interpark', 'babygo', 'seoul_events']
+const OFFICIAL_POSTER_SOURCES = ['tour_api', 'interpark', 'babygo', 'seoul_events', 'kopis']
 
 interface ImageCandidate {
   title: string
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../lib/supabase-admin', () => ({ supabaseAdmin: {} }))
+vi.mock('../lib/gemini', () => ({ extractWithGemini: vi.fn() }))
+
+import { toGapDecisions } from './search-gap'
+
+describe('toGapDecisions', () => {
+  const batch = [
+    { query_norm: '뽀로로파크일산', query: '뽀로로파크 일산', zero_count: 5 },
+    { query_norm: '일산키즈카페', query: '일산  키즈카페', zero_count: 4 },
+    { query_norm: 'asdf', query: 'asdf', zero_count: 3 },
+  ]
+
+  it('maps model rows to candidates with keyword and category', () => {
+    const decisions = toGapDecisions(batch, [
+      { n: 1, t: 'place_name', k: '뽀로로파크 일산점', c: '놀이' },
+      { n: 2, t: 'district_category', k: '일산   키즈카페', c: '놀이' },
+      { n: 3, t: 'noise', k: null, c: null },
+    ])
+    expect(decisions.map((d) => [d.candidate.query_norm, d.type, d.keyword, d.keywordGroup])).toEqual([
+      ['뽀로로파크일산', 'place_name', '뽀로로파크 일산점', '놀이'],
+      ['일산키즈카페', 'district_category', '일산 키즈카페', '놀이'],
+      ['asdf', 'noise', null, null],
+    ])
+  })
+
+  it('falls back to the query and drops unknown categories', () => {
+    const [decision] = toGapDecisions(batch, [{ n: 2, t: 'district_category', k: '', c: '병원' }])
+    expect(decision.keyword).toBe('일산 키즈카페')
+    expect(decision.keywordGroup).toBeNull()
+  })
+
+  it('treats unknown types as noise and skips rows it cannot place', () => {
+    const decisions = toGapDecisions(batch, [
+      { n: 1, t: 'brand', k: '뽀로로', c: '놀이' },
+      { n: 1, t: 'place_name', k: '뽀로로파크', c: '놀이' },
+      { n: 7, t: 'place_name', k: 'x', c: null },
+      { n: '2', t: 'place_name', k: 'x', c: null },
+    ])
+    expect(decisions).toHaveLength(1)
+    expect(decisions[0].type).toBe('noise')
+  })
+})
@@ -0,0 +1,260 @@
+/**
+ * Search gap → keywords: turn recurring zero-result searches into collection
+ * keywords (migration 00087).
+ *
+ * Picks queries with ≥ MIN_ZERO_SEARCHES zero-result submitted searches (not
+ * map list filters) in the last WINDOW_DAYS whose latest search still found
+ * nothing, and classifies them
+ * with Gemini:
+ *   place_name         a specific place → keyword is the place name (+ area)
+ *   district_category  an area + kind of place → "<area> <kind>" keyword
+ *   noise              typos, unrelated or unsearchable text → recorded only
+ * Every classified query is stored in search_gaps so it is asked once.
+ * Non-noise gaps are inserted into keywords as NEW with source 'search_gap'
+ * for both providers (kakao → Pipeline A, naver → Pipeline B).
+ *
+ * Each run also closes gaps whose query found results in a later submitted
+ * search (refresh_search_gaps), so /admin/search-analysis shows the loop closing.
+ * Without GEMINI_API_KEY the candidates wait for the next run.
+ */
+
+import { extractWithGemini } from '../lib/gemini'
+import { supabaseAdmin } from '../lib/supabase-admin'
+import { logCollection } from '../lib/collection-log'
+import { isChoseongQuery } from '../../src/lib/search'
+import type { PlaceCategory } from '../../src/types/index'
+import type { KeywordProvider } from './candidate-generator'
+
+export interface SearchGapResult {
+  classified: number
+  keywordsInserted: number
+  noise: number
+  closed: number
+  errors: number
+}
+
+export interface GapCandidate {
+  query_norm: string
+  query: string
+  zero_count: number
+}
+
+export type GapType = 'place_name' | 'district_category' | 'noise'
+
+export interface GapDecision {
+  candidate: GapCandidate
+  type: GapType
+  /** Collection keyword; null for noise */
+  keyword: string | null
+  keywordGroup: PlaceCategory | null
+}
+
+const WINDOW_DAYS = 30
+const MIN_ZERO_SEARCHES = 3
+/** Candidates classified per run */
+const CANDIDATE_LIMIT = 100
+const BATCH_SIZE = 50
+const KEYWORD_MAX_LENGTH = 30
+const PROVIDERS: KeywordProvider[] = ['kakao', 'naver']
+
+const CATEGORIES: PlaceCategory[] = [
+  '놀이',
+  '공원/놀이터',
+  '전시/체험',
+  '공연',
+  '동물/자연',
+  '식당/카페',
+  '도서관',
+  '수영/물놀이',
+  '문화행사',
+  '편의시설',
+]
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+export async function runSearchGapKeywords(): Promise<SearchGapResult> {
+  const result: SearchGapResult = { classified: 0, keywordsInserted: 0, noise: 0, closed: 0, errors: 0 }
+  const startedAt = Date.now()
+
+  try {
+    const { data, error } = await supabaseAdmin.rpc('search_gap_candidates', {
+      p_days: WINDOW_DAYS,
+      p_min_count: MIN_ZERO_SEARCHES,
+      p_limit: CANDIDATE_LIMIT,
+    })
+    if (error) throw new Error(`Failed to fetch gap candidates: ${error.message}`)
+    const candidates = (data ?? []) as GapCandidate[]
+
+    // 초성 input can't be a collection keyword; no need to ask the model
+    const decisions: GapDecision[] = candidates
+      .filter((c) => isChoseongQuery(c.query))
+      .map((candidate): GapDecision => ({ candidate, type: 'noise', keyword: null, keywordGroup: null }))
+    const toClassify = candidates.filter((c) => !isChoseongQuery(c.query))
+
+    if (toClassify.length > 0) {
+      if (!process.env.GEMINI_API_KEY) {
+        console.warn('[search-gap] No GEMINI_API_KEY, leaving gap queries for the next run')
+      } else {
+        for (let i = 0; i < toClassify.length; i += BATCH_SIZE) {
+          const batch = toClassify.slice(i, i + BATCH_SIZE)
+          decisions.push(...toGapDecisions(batch, await classifyGapBatch(batch)))
+        }
+      }
+    }
+
+    for (const decision of decisions) {
+      const saved = await saveDecision(decision)
+      if (!saved) {
+        result.errors++
+        continue
+      }
+      result.classified++
+      if (decision.type === 'noise') {
+        result.noise++
+        continue
+      }
+      result.keywordsInserted += await insertKeywords(decision, result)
+    }
+
+    const { data: closed, error: refreshError } = await supabaseAdmin.rpc('refresh_search_gaps')
+    if (refreshError) {
+      console.error('[search-gap] Failed to refresh gaps:', refreshError.message)
+      result.errors++
+    } else {
+      result.closed = (closed as number | null) ?? 0
+    }
+
+    await logCollection({
+      collector: 'search-gap',
+      startedAt,
+      resultsCount: result.classified,
+      errors: result.errors,
+    })
+  } catch (err) {
+    console.error('[search-gap] Fatal error:', err)
+    result.errors++
+    await logCollection({
+      collector: 'search-gap',
+      startedAt,
+      resultsCount: result.classified,
+      errors: result.errors,
+      error: String(err),
+    })
+  }
+
+  console.log(
+    `[search-gap] Done: classified=${result.classified}, keywords=${result.keywordsInserted}, noise=${result.noise}, closed=${result.closed}, errors=${result.errors}`
+  )
+  return result
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+interface RawGapClassification {
+  n?: unknown
+  t?: unknown
+  k?: unknown
+  c?: unknown
+}
+
+/**
+ * Map model output (n = 1-based index, t = gap type, k = keyword,
+ * c = category) to decisions. Unknown types become noise, a missing keyword
+ * falls back to the query, an unknown category to null. Queries the model
+ * skipped get no decision and are asked again next run.
+ */
+export function toGapDecisions(batch: GapCandidate[], raw: RawGapClassification[]): GapDecision[] {
+  const decisions = new Map<number, GapDecision>()
+  for (const row of raw) {
+    if (typeof row.n !== 'number') continue
+    const candidate = batch[row.n - 1]
+    if (!candidate || decisions.has(row.n)) continue
+
+    const type: GapType = row.t === 'place_name' || row.t === 'district_category' ? row.t : 'noise'
+    if (type === 'noise') {
+      decisions.set(row.n, { candidate, type, keyword: null, keywordGroup: null })
+      continue
+    }
+
+    const suggested = typeof row.k === 'string' && row.k.trim() ? row.k : candidate.query
+    decisions.set(row.n, {
+      candidate,
+      type,
+      keyword: suggested.replace(/\s+/g, ' ').trim().slice(0, KEYWORD_MAX_LENGTH),
+      keywordGroup: CATEGORIES.find((c) => c === row.c) ?? null,
+    })
+  }
+  return [...decisions.values()]
+}
+
+async function classifyGapBatch(batch: GapCandidate[]): Promise<RawGapClassification[]> {
+  const items = batch.map((c, i) => ({ n: i + 1, 검색어: c.query }))
+
+  const prompt = `당신은 아기/유아와 함께 갈 장소를 찾는 서비스의 검색어를 분류합니다.
+아래 검색어는 서비스에서 결과가 하나도 없었던 검색어입니다. 장소 수집용 키워드로 쓸 수 있는지 판단하세요.
+
+place_name: 특정 장소 이름 (예: "뽀로로파크 일산", "국립어린이과학관")
+district_category: 지역 + 장소 종류 (예: "일산 키즈카페", "송파구 수유실", "분당 유아수영")
+noise: 오타로 뜻을 알 수 없음, 아기/유아 나들이와 무관, 장소를 찾는 검색이 아님
+
+k: 카카오 지도/네이버 블로그 검색에 쓸 키워드. 오타는 고치고 띄어쓰기를 정리하세요 (noise면 null)
+c: 장소 카테고리, 다음 중 하나 또는 null: ${CATEGORIES.join(', ')}
+
+JSON으로 응답: [{"n":1,"t":"place_name","k":"뽀로로파크 일산","c":"놀이"},{"n":2,"t":"noise","k":null,"c":null}]
+
+${JSON.stringify(items, null, 0)}`
+
+  try {
+    const text = await extractWithGemini(prompt)
+    const match = text.match(/\[[\s\S]*\]/)
+    if (!match) return []
+    const parsed: unknown = JSON.parse(match[0])
+    return Array.isArray(parsed) ? (parsed as RawGapClassification[]) : []
+  } catch (err) {
+    console.error('[search-gap] Gemini batch error:', err)
+    return []
+  }
+}
+
+async function saveDecision(decision: GapDecision): Promise<boolean> {
+  const { candidate } = decision
+  const { error } = await supabaseAdmin.from('search_gaps').insert({
+    query_norm: candidate.query_norm,
+    query: candidate.query,
+    gap_type: decision.type,
+    keyword: decision.keyword,
+    keyword_group: decision.keywordGroup,
+    zero_count: candidate.zero_count,
+    status: decision.type === 'noise' ? 'noise' : 'open',
+  })
+  if (error) {
+    console.error(`[search-gap] Failed to save gap "${candidate.query}":`, error.message)
+    return false
+  }
+  return true
+}
+
+/** Insert the keyword for every provider; existing (keyword, provider) rows are left alone */
+async function insertKeywords(decision: GapDecision, result: SearchGapResult): Promise<number> {
+  let inserted = 0
+  for (const provider of PROVIDERS) {
+    const { error } = await supabaseAdmin.from('keywords').insert({
+      keyword: decision.keyword,
+      provider,
+      keyword_group: decision.keywordGroup,
+      is_indoor: null,
+      status: 'NEW',
+      source: 'search_gap',
+      efficiency_score: 0,
+      cycle_count: 0,
+      consecutive_zero_new: 0,
+    })
+    if (!error) {
+      inserted++
+    } else if (error.code !== '23505') {
+      console.warn(`[search-gap] Failed to insert ${provider} keyword "${decision.keyword}":`, error.message)
+      result.errors++
+    }
+  }
+  return inserted
+}
@@ -0,0 +1,33 @@
+/**
+ * event_sources helpers for event collectors.
+ *
+ * Known listings are skipped by collectors (prefetched from event_sources, which
+ * keeps listings merged into another canonical event), so their last_seen_at is
+ * bumped here instead of through event-dedup.
+ */
+
+import { supabaseAdmin } from './supabase-admin'
+
+const BATCH = 200
+
+/**
+ * Mark listings a collector returned again as still live.
+ *
+ * @example
+ * await markEventSourcesSeen('kopis', rows.map((r) => r.mt20id[0]).filter((id) => knownIds.has(id)))
+ */
+export async function markEventSourcesSeen(source: string, sourceIds: string[]): Promise<void> {
+  const now = new Date().toISOString()
+  for (let i = 0; i < sourceIds.length; i += BATCH) {
+    const batch = sourceIds.slice(i, i + BATCH)
+    const { error } = await supabaseAdmin
+      .from('event_sources')
+      .update({ last_seen_at: now })
+      .eq('source', source)
+      .in('source_id', batch)
+    if (error) {
+      console.error(`[event-sources] last_seen update error for ${source}:`, error.message)
+      return
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * place_sources helpers for place collectors.
+ *
+ * Every collector hit — a new insert or a duplicate of an existing place — is
+ * recorded with the fields that listing reported. The place-fields step picks
+ * each places column from these observations, so collectors no longer bump
+ * source_count or overwrite fields on places they didn't create.
+ */
+
+import { supabaseAdmin } from './supabase-admin'
+import type { OpeningHours } from '../../src/lib/opening-hours'
+import type { PlaceAmenities } from '../../src/lib/amenities'
+
+/** Place columns tracked per source (see FIELD_GROUPS in enrichers/place-fields.ts) */
+export interface PlaceSourceFields {
+  phone?: string | null
+  address?: string | null
+  road_address?: string | null
+  description?: string | null
+  is_indoor?: boolean | null
+  tags?: string[] | null
+  opening_hours?: OpeningHours | null
+  hours_text?: string | null
+  price_info?: string | null
+  age_min_months?: number | null
+  age_max_months?: number | null
+  amenities?: PlaceAmenities | null
+}
+
+/** Drop unobserved (null / empty) fields so they don't erase earlier observations */
+export function observedFields(fields: PlaceSourceFields): PlaceSourceFields {
+  const observed: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === null || value === undefined || value === '') continue
+    if (Array.isArray(value) && value.length === 0) continue
+    if (typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0) continue
+    observed[key] = value
+  }
+  return observed as PlaceSourceFields
+}
+
+/**
+ * Record that `source` listing `sourceId` resolved to `placeId`.
+ * Errors are logged, not thrown — provenance must never fail a collector run.
+ *
+ * @example
+ * await recordPlaceSource(dup.existingId, 'kakao', doc.id, { phone: doc.phone }, doc)
+ */
+export async function recordPlaceSource(
+  placeId: number,
+  source: string,
+  sourceId: string,
+  fields: PlaceSourceFields,
+  raw?: unknown
+): Promise<void> {
+  const { error } = await supabaseAdmin.rpc('record_place_source', {
+    p_place_id: placeId,
+    p_source: source,
+    p_source_id: sourceId,
+    p_fields: observedFields(fields),
+    p_raw: raw ?? null,
+  })
+  if (error) {
+    console.error(`[place-sources] record error for ${source}/${sourceId}:`, error.message)
+  }
+}
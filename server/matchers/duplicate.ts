@@ -3,12 +3,17 @@
  *
  * Strategy (from plan.md 18-9):
  *   1st pass: kakao_place_id exact match → definite duplicate
- *   2nd pass: name similarity > 0.7 + address proximity (or address string match)
+ *   2nd pass: nearby places scored by scorePlacePair (place-resolution.ts:
+ *             name similarity, phone, distance) ≥ MATCH_CONFIDENCE
  *             → probable duplicate → increment mention_count only
+ *
+ * A kakao id that belongs to a merged place resolves to the place it was
+ * merged into.
  */
 
 import { supabaseAdmin } from '../lib/supabase-admin'
 import { similarity } from './similarity'
+import { scorePlacePair, kakaoNumericId, MATCH_CONFIDENCE } from './place-resolution'
 
 export interface KakaoPlaceInput {
   kakaoPlaceId: string
@@ -16,6 +21,7 @@ export interface KakaoPlaceInput {
   address: string
   lat: number
   lng: number
+  phone?: string | null
 }
 
 export interface DuplicateCheckResult {
@@ -26,15 +32,6 @@ export interface DuplicateCheckResult {
   similarityScore?: number
 }
 
-/**
- * Extract numeric kakao place id from prefixed variants.
- * e.g. "tour_12345" → "12345", "dup_12345" → "12345", "12345" → "12345"
- */
-function extractKakaoNumericId(id: string): string | null {
-  const m = id.match(/(\d{5,})/)
-  return m ? m[1] : null
-}
-
 /**
  * Checks whether a Kakao API result already exists in the places table.
  *
@@ -47,14 +44,14 @@ export async function checkDuplicate(
   // --- Pass 1a: exact kakao_place_id match ---
   const { data: byId } = await supabaseAdmin
     .from('places')
-    .select('id, name')
+    .select('id, name, merged_into')
     .eq('kakao_place_id', input.kakaoPlaceId)
     .maybeSingle()
 
   if (byId) {
     return {
       isDuplicate: true,
-      existingId: byId.id,
+      existingId: byId.merged_into ?? byId.id,
       existingName: byId.name,
       matchType: 'kakao_id',
       similarityScore: 1.0,
@@ -65,12 +62,12 @@ export async function checkDuplicate(
   // Different collectors use prefixed IDs (tour_123, pfc_456, park_789, dup_123).
   // Extract the numeric part and check if any existing place has the same
   // numeric kakao ID (either bare or with dup_ prefix).
-  const numericId = extractKakaoNumericId(input.kakaoPlaceId)
+  const numericId = kakaoNumericId(input.kakaoPlaceId)
   if (numericId && numericId !== input.kakaoPlaceId) {
     // Search for bare numeric ID or dup_ variant
     const { data: byNumericId } = await supabaseAdmin
       .from('places')
-      .select('id, name')
+      .select('id, name, merged_into')
       .or(`kakao_place_id.eq.${numericId},kakao_place_id.eq.dup_${numericId}`)
       .limit(1)
       .maybeSingle()
@@ -78,7 +75,7 @@ export async function checkDuplicate(
     if (byNumericId) {
       return {
         isDuplicate: true,
-        existingId: byNumericId.id,
+        existingId: byNumericId.merged_into ?? byNumericId.id,
         existingName: byNumericId.name,
         matchType: 'kakao_id',
         similarityScore: 1.0,
@@ -93,7 +90,7 @@ export async function checkDuplicate(
 
   const { data: nearby } = await supabaseAdmin
     .from('places')
-    .select('id, name, lat, lng')
+    .select('id, name, lat, lng, phone')
     .eq('is_active', true)
     .gte('lat', input.lat - LAT_DELTA)
     .lte('lat', input.lat + LAT_DELTA)
@@ -101,15 +98,16 @@ export async function checkDuplicate(
     .lte('lng', input.lng + LNG_DELTA)
 
   if (nearby && nearby.length > 0) {
+    const incoming = { id: 0, name: input.name, lat: input.lat, lng: input.lng, phone: input.phone }
     for (const place of nearby) {
-      const score = similarity(input.name, place.name)
-      if (score > 0.7) {
+      const score = scorePlacePair(incoming, place)
+      if (score && score.confidence >= MATCH_CONFIDENCE) {
         return {
           isDuplicate: true,
           existingId: place.id,
           existingName: place.name,
           matchType: 'name_address',
-          similarityScore: score,
+          similarityScore: score.confidence,
         }
       }
     }
@@ -4,7 +4,14 @@ vi.mock('../lib/supabase-admin', () => ({
   supabaseAdmin: { from: () => ({ select: () => ({ eq: () => ({ data: [], error: null }) }) }) },
 }))
 
-import { datesOverlap, tokenSimilarity, isProbableDuplicate } from './event-dedup'
+import {
+  datesOverlap,
+  tokenSimilarity,
+  isProbableDuplicate,
+  blockingKeys,
+  findCanonicalMatch,
+  pickCanonicalFields,
+} from './event-dedup'
 
 describe('datesOverlap', () => {
   it('exact same start and end dates → true', () => {
@@ -162,3 +169,129 @@ describe('isProbableDuplicate', () => {
     expect(isProbableDuplicate(e1, e2)).toBe(true)
   })
 })
+
+describe('blockingKeys', () => {
+  it('pairs significant name tokens with running months and venue', () => {
+    const keys = blockingKeys({
+      name: '보노보노 40주년 특별전',
+      venue_name: '예술의전당 (한가람미술관)',
+      start_date: '2026-03-01',
+      end_date: '2026-04-30',
+    })
+    expect(keys).toEqual(
+      expect.arrayContaining(['보노보노@2026-03', '보노보노@2026-04', '40주년@2026-03', '보노보노@v:예술의전당'])
+    )
+    // 특별전 is a stopword
+    expect(keys.some((k) => k.startsWith('특별전@'))).toBe(false)
+  })
+
+  it('word-order variants with overlapping dates share a key', () => {
+    const a = blockingKeys({ name: '보노보노 40주년 특별전', start_date: '2026-03-01', end_date: '2026-04-30' })
+    const b = blockingKeys({ name: '40주년 보노보노 특별전', start_date: '2026-04-15', end_date: '2026-05-15' })
+    expect(a.some((k) => b.includes(k))).toBe(true)
+  })
+
+  it('uses @none for undated events and the whole name when every token is a stopword', () => {
+    expect(blockingKeys({ name: '보노보노 전시', start_date: null })).toEqual(['보노보노@none'])
+    expect(blockingKeys({ name: '어린이 뮤지컬', start_date: '2026-05-05' })).toEqual(['어린이뮤지컬@2026-05'])
+  })
+
+  it('caps long runs at 12 months', () => {
+    const keys = blockingKeys({ name: '공룡대탐험', start_date: '2026-01-01', end_date: '2028-12-31' })
+    expect(keys).toHaveLength(12)
+  })
+})
+
+describe('findCanonicalMatch', () => {
+  const listing = {
+    id: 10,
+    name: '40주년 보노보노 특별전',
+    source: 'interpark',
+    venue_name: '예술의전당',
+    start_date: '2026-03-15',
+    end_date: '2026-05-15',
+  }
+
+  it('picks the most similar cross-source duplicate', () => {
+    const weaker = { id: 1, name: '보노보노 특별전 in 서울', source: 'kopis', venue_name: '예술의전당', start_date: '2026-03-01', end_date: '2026-04-30' }
+    const stronger = { id: 2, name: '보노보노 40주년 특별전', source: 'seoul_events', venue_name: '예술의전당', start_date: '2026-03-01', end_date: '2026-04-30' }
+    expect(findCanonicalMatch(listing, [weaker, stronger])?.id).toBe(2)
+  })
+
+  it('matches a dated listing to an undated one with a near-identical name', () => {
+    const undated = { id: 3, name: '40주년 보노보노 특별전', source: 'blog_discovery', venue_name: null, start_date: null, end_date: null }
+    expect(findCanonicalMatch(listing, [undated])?.id).toBe(3)
+  })
+
+  it('only links same-source rows at the same venue when one is undated', () => {
+    const sameSourceDated = { ...listing, id: 4, start_date: '2026-03-01' }
+    expect(findCanonicalMatch(listing, [sameSourceDated])).toBeNull()
+    const sameSourceUndated = { ...listing, id: 5, start_date: null, end_date: null }
+    expect(findCanonicalMatch(listing, [sameSourceUndated])?.id).toBe(5)
+  })
+
+  it('returns null for unrelated candidates', () => {
+    const other = { id: 6, name: '뽀로로 어린이 체험전', source: 'kopis', venue_name: '코엑스', start_date: '2026-03-01', end_date: '2026-03-31' }
+    expect(findCanonicalMatch(listing, [other])).toBeNull()
+  })
+})
+
+describe('pickCanonicalFields', () => {
+  const seoul = {
+    source: 'seoul_events',
+    source_id: 'S1',
+    name: '보노보노 40주년 특별전',
+    venue_name: '예술의전당',
+    lat: null,
+    lng: null,
+    start_date: '2026-03-01',
+    end_date: '2026-04-30',
+    price_info: null,
+    poster_url: 'https://seoul/poster.jpg',
+    source_url: 'https://culture.seoul.go.kr/1',
+    first_seen_at: '2026-02-01T00:00:00Z',
+  }
+  const interpark = {
+    source: 'interpark',
+    source_id: 'interpark_1',
+    name: '[예술의전당] 보노보노 특별전',
+    venue_name: '예술의전당 한가람미술관',
+    lat: 37.48,
+    lng: 127.01,
+    start_date: '2026-03-02',
+    end_date: '2026-05-01',
+    price_info: '성인 15,000원',
+    poster_url: 'https://interpark/poster.jpg',
+    source_url: 'https://tickets.interpark.com/goods/1',
+    first_seen_at: '2026-02-10T00:00:00Z',
+  }
+
+  it('takes each field from the highest-priority listing that has it', () => {
+    const fields = pickCanonicalFields([interpark, seoul])
+    expect(fields).toMatchObject({
+      source: 'seoul_events',
+      source_id: 'S1',
+      name: '보노보노 40주년 특별전',
+      venue_name: '예술의전당',
+      start_date: '2026-03-01',
+      end_date: '2026-04-30',
+      // Missing on the Seoul listing → filled from Interpark
+      lat: 37.48,
+      lng: 127.01,
+      price_info: '성인 15,000원',
+      poster_url: 'https://seoul/poster.jpg',
+      source_url: 'https://culture.seoul.go.kr/1',
+    })
+  })
+
+  it('prefers higher poster priority independently of data priority', () => {
+    const blog = { ...seoul, source: 'blog_discovery', source_id: 'b1', poster_url: 'https://blog/poster.jpg' }
+    const fields = pickCanonicalFields([blog, { ...interpark, name: '보노보노' }])
+    expect(fields.source).toBe('interpark')
+    expect(fields.poster_url).toBe('https://interpark/poster.jpg')
+  })
+
+  it('returns nothing for no listings', () => {
+    expect(pickCanonicalFields([])).toEqual({})
+  })
+})
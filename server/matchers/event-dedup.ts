@@ -1,17 +1,22 @@
 /**
- * Event deduplication logic
+ * Event deduplication — resolve source listings to canonical events.
  *
- * Strategy:
- * When the same performance/event appears in multiple sources (e.g., KOPIS + Tour API),
- * detect and merge them to avoid duplicates in the events table.
+ * Collectors insert each listing (Seoul, KOPIS, Interpark, ...) as an events
+ * row. This step resolves every row not yet seen (blocking_keys IS NULL):
  *
- * Detection:
- *   1st pass: Similar name + overlapping dates → probable match
- *   2nd pass: Same venue + similar name → probable match
+ *   1. Blocking: candidates are canonical events sharing a blocking key
+ *      ("token@YYYY-MM" for each normalized name token × running month, and
+ *      "token@v:venue"), so each listing is compared against a handful of
+ *      rows instead of the whole table. Undated listings fall back to a name
+ *      search.
+ *   2. Matching: similar name + overlapping dates, same venue + similar name,
+ *      or a dated/undated pair with near-identical names (findCanonicalMatch).
+ *   3. Linking: the listing is stored in event_sources under the canonical
+ *      event, favorites/hides/mentions are re-pointed, and the incoming row is
+ *      folded away. Canonical fields are then re-picked per field from all
+ *      linked listings by SOURCE_DATA_PRIORITY (posters by SOURCE_POSTER_PRIORITY).
  *
- * Resolution:
- *   - Keep the entry with the best data quality (most fields populated)
- *   - Store source references in a denormalized field or separate relation
+ * Unmatched listings become canonical events with a single source.
  */
 
 import { supabaseAdmin } from '../lib/supabase-admin'
@@ -22,6 +27,7 @@ import { similarity } from './similarity'
 const SOURCE_DATA_PRIORITY: Record<string, number> = {
   tour_api: 100,
   seoul_events: 100,
+  kopis: 100,
   interpark: 80,
   babygo: 60,
   blog_discovery: 40,
@@ -33,6 +39,7 @@ const SOURCE_DATA_PRIORITY: Record<string, number> = {
 const SOURCE_POSTER_PRIORITY: Record<string, number> = {
   tour_api: 100,
   seoul_events: 100,
+  kopis: 100,
   interpark: 90,
   babygo: 80,
   blog_discovery: 40,
@@ -42,17 +49,44 @@ const SOURCE_POSTER_PRIORITY: Record<string, number> = {
 export interface EventDeduplicationResult {
   analyzed: number
   merged: number
+  registered: number
   errors: number
 }
 
+const PAGE = 1000
+const MAX_CANDIDATES = 50
+/** Ids per blog_mentions update / delete when re-pointing a folded listing */
+const MENTION_BATCH = 500
+/** visits.photo_paths CHECK (cardinality <= 10), migration 00081 */
+const MAX_VISIT_PHOTOS = 10
+/** Blocking months per listing — long exhibitions only need their first year to meet a match */
+const MAX_BLOCK_MONTHS = 12
+const MAX_BLOCK_TOKENS = 6
+/** Pending/rejected submissions are neither resolved nor matched against */
+const RESOLVABLE_FILTER = 'submission_status.is.null,submission_status.eq.approved'
+
+/** Listing columns snapshotted into event_sources and re-picked onto the canonical event */
+const LISTING_FIELDS = [
+  'name', 'venue_name', 'venue_address', 'lat', 'lng', 'start_date', 'end_date',
+  'time_info', 'price_info', 'age_range', 'description', 'poster_url', 'source_url',
+] as const
+
+/** Generic words that would put unrelated events in the same block */
+const BLOCK_STOPWORDS = new Set([
+  '전시', '전시회', '특별전', '기획전', '공연', '뮤지컬', '연극', '인형극', '체험', '체험전',
+  '축제', '페스티벌', '어린이', '가족', '키즈', '서울', '경기', '특별', '기념', '시즌',
+])
+
 /**
  * Run event deduplication pass.
- * Called after all event collectors have completed to identify and merge duplicates.
+ * Called after all event collectors have completed; only rows that haven't been
+ * resolved yet are processed, so each run is proportional to the new listings.
  */
 export async function runEventDeduplication(): Promise<EventDeduplicationResult> {
   const result: EventDeduplicationResult = {
     analyzed: 0,
     merged: 0,
+    registered: 0,
     errors: 0,
   }
 
@@ -61,165 +95,55 @@ export async function runEventDeduplication(): Promise<EventDeduplicationResult>
   try {
     console.log('[event-dedup] Starting event deduplication pass')
 
-    // Fetch recent events (last 3 days) as "new" candidates
-    const { data: recentEvents, error: recentError } = await supabaseAdmin
-      .from('events')
-      .select('*')
-      .gte('created_at', new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString())
-      .order('created_at', { ascending: false })
-
-    if (recentError) {
-      throw new Error(`Failed to fetch recent events: ${recentError.message}`)
-    }
-
-    // Fetch ALL active events to compare against
-    const allEvents: any[] = []
+    // Unresolved listings, oldest first so earlier rows become the canonical ones.
+    // Submissions wait until an admin approves them.
+    const pending: any[] = []
     let offset = 0
-    const PAGE = 1000
     while (true) {
-      const { data, error: allError } = await supabaseAdmin
+      const { data, error } = await supabaseAdmin
         .from('events')
         .select('*')
+        .is('blocking_keys', null)
+        .or(RESOLVABLE_FILTER)
+        .order('id')
         .range(offset, offset + PAGE - 1)
-      if (allError) throw new Error(`Failed to fetch events: ${allError.message}`)
+      if (error) throw new Error(`Failed to fetch unresolved events: ${error.message}`)
       if (!data || data.length === 0) break
-      allEvents.push(...data)
+      pending.push(...data)
       if (data.length < PAGE) break
       offset += PAGE
     }
 
-    if (!recentEvents || recentEvents.length === 0) {
-      console.log('[event-dedup] No recent events to deduplicate')
+    if (pending.length === 0) {
+      console.log('[event-dedup] No unresolved events')
       return result
     }
 
-    result.analyzed = allEvents.length
-    console.log(`[event-dedup] Comparing ${recentEvents.length} recent vs ${allEvents.length} total events`)
-
-    const recentIds = new Set(recentEvents.map((e: any) => e.id))
-    const processed = new Set<number>()
-
-    // Compare each recent event against ALL other events
-    for (const event1 of recentEvents) {
-      if (processed.has(event1.id)) continue
-
-      for (const event2 of allEvents) {
-        if (event2.id === event1.id) continue
-        if (processed.has(event2.id)) continue
-
-        // Skip if same source (within-source duplicates handled by UNIQUE constraint)
-        if (event1.source === event2.source) continue
-
-        // Check if they are likely the same event
-        if (isProbableDuplicate(event1, event2)) {
-          try {
-            await mergeEvents(event1, event2, processed)
-            result.merged++
-          } catch (err) {
-            console.error('[event-dedup] Error merging events:', err, event1.id, event2.id)
-            result.errors++
-          }
-        }
-      }
-    }
-
-    // Also compare non-recent events against each other (catch old cross-source duplicates)
-    const nonRecentEvents = allEvents.filter((e: any) => !recentIds.has(e.id) && !processed.has(e.id))
-    for (let i = 0; i < nonRecentEvents.length; i++) {
-      const event1 = nonRecentEvents[i]
-      if (processed.has(event1.id)) continue
-
-      for (let j = i + 1; j < nonRecentEvents.length; j++) {
-        const event2 = nonRecentEvents[j]
-        if (processed.has(event2.id)) continue
-        if (event1.source === event2.source) continue
-
-        if (isProbableDuplicate(event1, event2)) {
-          try {
-            await mergeEvents(event1, event2, processed)
-            result.merged++
-          } catch (err) {
-            console.error('[event-dedup] Error merging events:', err, event1.id, event2.id)
-            result.errors++
-          }
-        }
-      }
-    }
-
-    // Pass 3: Cross-source null-date cleanup
-    // When one event has dates and the other doesn't, with high name similarity
-    const remainingEvents = allEvents.filter((e: any) => !processed.has(e.id))
-    for (let i = 0; i < remainingEvents.length; i++) {
-      const e1 = remainingEvents[i]
-      if (processed.has(e1.id)) continue
-
-      for (let j = i + 1; j < remainingEvents.length; j++) {
-        const e2 = remainingEvents[j]
-        if (processed.has(e2.id)) continue
-        if (e1.source === e2.source) continue
-
-        const sim = similarity(e1.name, e2.name)
-        if (sim < 0.8) continue
-
-        const hasDate1 = !!e1.start_date
-        const hasDate2 = !!e2.start_date
-        if (hasDate1 === hasDate2) continue // both have or both lack dates
-
-        const keep = hasDate1 ? e1 : e2
-        const del = hasDate1 ? e2 : e1
-        const keepPri = SOURCE_DATA_PRIORITY[keep.source] ?? 0
-        const delPri = SOURCE_DATA_PRIORITY[del.source] ?? 0
-
-        if (keepPri >= delPri) {
-          try {
-            await mergeEvents(keep, del, processed)
-            result.merged++
-          } catch (err) {
-            console.error('[event-dedup] Error merging null-date events:', err, keep.id, del.id)
-            result.errors++
-          }
-        }
-      }
-    }
+    result.analyzed = pending.length
+    console.log(`[event-dedup] Resolving ${pending.length} new listings`)
 
-    // Pass 4: Within-source cleanup
-    // Same source + same venue + high similarity → delete the one without dates
-    const remainingEvents2 = allEvents.filter((e: any) => !processed.has(e.id))
-    for (let i = 0; i < remainingEvents2.length; i++) {
-      const e1 = remainingEvents2[i]
-      if (processed.has(e1.id)) continue
-
-      for (let j = i + 1; j < remainingEvents2.length; j++) {
-        const e2 = remainingEvents2[j]
-        if (processed.has(e2.id)) continue
-        if (e1.source !== e2.source) continue
-        if (!e1.venue_name || e1.venue_name !== e2.venue_name) continue
-
-        const sim = similarity(e1.name, e2.name)
-        if (sim < 0.8) continue
-
-        // Delete the one without dates
-        let keep: any, del: any
-        if (e1.start_date && !e2.start_date) {
-          keep = e1; del = e2
-        } else if (!e1.start_date && e2.start_date) {
-          keep = e2; del = e1
-        } else {
-          continue // both have or both lack dates — skip
-        }
+    for (const listing of pending) {
+      try {
+        const keys = blockingKeys(listing)
+        const linked = await findLinkedEvent(listing)
+        const candidates = linked ? [linked] : await fetchCandidates(listing, keys)
+        const canonical = linked ?? findCanonicalMatch(listing, candidates)
 
-        try {
-          await mergeEvents(keep, del, processed)
+        if (canonical) {
+          await linkListing(listing, canonical, keys)
           result.merged++
-        } catch (err) {
-          console.error('[event-dedup] Error merging within-source events:', err, keep.id, del.id)
-          result.errors++
+        } else {
+          await registerCanonical(listing, keys)
+          result.registered++
         }
+      } catch (err) {
+        console.error('[event-dedup] Error resolving event:', err, listing.id)
+        result.errors++
       }
     }
 
     console.log(
-      `[event-dedup] Deduplication complete: ${result.merged} merged from ${result.analyzed} analyzed`
+      `[event-dedup] Deduplication complete: ${result.merged} merged, ${result.registered} new canonical from ${result.analyzed} analyzed`
     )
 
     // Log to collection_logs (informational, not critical)
@@ -228,6 +152,7 @@ export async function runEventDeduplication(): Promise<EventDeduplicationResult>
       startedAt,
       resultsCount: result.analyzed,
       newEvents: result.merged,
+      errors: result.errors,
     })
   } catch (err) {
     console.error('[event-dedup] Fatal error:', err)
@@ -237,6 +162,435 @@ export async function runEventDeduplication(): Promise<EventDeduplicationResult>
   return result
 }
 
+// ─── Blocking ────────────────────────────────────────────────────────────────
+
+/** Significant name tokens for blocking (same normalization as tokenSimilarity, minus stopwords) */
+function nameTokens(name: string): string[] {
+  return normalizeEventName(name)
+    .split(' ')
+    .filter((t) => t.length >= 2 && !BLOCK_STOPWORDS.has(t))
+}
+
+/** Venue (or whole-name) block component: no spaces, parentheses or punctuation */
+function compactKey(venue: string): string {
+  return venue.replace(/\([^)]*\)/g, '').replace(/[^가-힣a-zA-Z0-9]/g, '').toLowerCase()
+}
+
+/** 'YYYY-MM' for each month the event runs, capped at MAX_BLOCK_MONTHS */
+function runningMonths(startDate: string, endDate: string | null): string[] {
+  const [sy, sm] = startDate.split('-').map(Number)
+  const [ey, em] = (endDate ?? startDate).split('-').map(Number)
+  const months: string[] = []
+  let y = sy
+  let m = sm
+  while ((y < ey || (y === ey && m <= em)) && months.length < MAX_BLOCK_MONTHS) {
+    months.push(`${y}-${String(m).padStart(2, '0')}`)
+    m++
+    if (m > 12) {
+      m = 1
+      y++
+    }
+  }
+  return months
+}
+
+/**
+ * Blocking keys for an event: "token@YYYY-MM" per name token × running month
+ * ("token@none" when undated) plus "token@v:venue". Listings of the same event
+ * meet as long as they share one significant token — spacing variants like
+ * "보노보노특별전" vs "보노보노 특별전" are the known miss.
+ */
+export function blockingKeys(event: {
+  name: string
+  venue_name?: string | null
+  start_date?: string | null
+  end_date?: string | null
+}): string[] {
+  const tokens = nameTokens(event.name)
+    .sort((a, b) => b.length - a.length)
+    .slice(0, MAX_BLOCK_TOKENS)
+  if (tokens.length === 0) {
+    // All-stopword names ("어린이 뮤지컬") still block on the whole name
+    tokens.push(compactKey(event.name))
+  }
+
+  const running = event.start_date ? runningMonths(event.start_date, event.end_date ?? null) : []
+  const months = running.length > 0 ? running : ['none']
+  const venue = event.venue_name ? compactKey(event.venue_name) : ''
+
+  const keys = new Set<string>()
+  for (const token of tokens) {
+    for (const month of months) keys.add(`${token}@${month}`)
+    if (venue) keys.add(`${token}@v:${venue}`)
+  }
+  return [...keys]
+}
+
+/** Listing already linked to another canonical event (re-inserted by a collector) */
+async function findLinkedEvent(listing: any): Promise<any | null> {
+  if (!listing.source_id) return null
+  const { data: link } = await supabaseAdmin
+    .from('event_sources')
+    .select('event_id')
+    .eq('source', listing.source)
+    .eq('source_id', listing.source_id)
+    .maybeSingle()
+  if (!link || link.event_id === listing.id) return null
+
+  const { data: event } = await supabaseAdmin.from('events').select('*').eq('id', link.event_id).maybeSingle()
+  return event ?? null
+}
+
+async function fetchCandidates(listing: any, keys: string[]): Promise<any[]> {
+  const { data, error } = await supabaseAdmin
+    .from('events')
+    .select('*')
+    .overlaps('blocking_keys', keys)
+    .or(RESOLVABLE_FILTER)
+    .neq('id', listing.id)
+    .limit(MAX_CANDIDATES)
+  if (error) throw new Error(`Candidate lookup failed: ${error.message}`)
+  const candidates = data ?? []
+
+  // Undated listings can't share a month key with dated ones — search by the longest token
+  if (!listing.start_date) {
+    const token = nameTokens(listing.name).sort((a, b) => b.length - a.length)[0]
+    if (token) {
+      const { data: byName } = await supabaseAdmin
+        .from('events')
+        .select('*')
+        .not('blocking_keys', 'is', null)
+        .or(RESOLVABLE_FILTER)
+        .ilike('name', `%${token}%`)
+        .neq('id', listing.id)
+        .limit(MAX_CANDIDATES)
+      const seen = new Set(candidates.map((c: any) => c.id))
+      for (const row of byName ?? []) {
+        if (!seen.has(row.id)) candidates.push(row)
+      }
+    }
+  }
+
+  return candidates
+}
+
+// ─── Matching ────────────────────────────────────────────────────────────────
+
+/**
+ * Pick the canonical event a new listing belongs to, or null.
+ *
+ * Cross-source: isProbableDuplicate, or one side undated with similarity ≥ 0.8.
+ * Same source (within-source re-listings): same venue + similarity ≥ 0.8 where
+ * exactly one side has dates. The most similar match wins.
+ */
+export function findCanonicalMatch(listing: any, candidates: any[]): any | null {
+  let best: any = null
+  let bestSim = -1
+
+  for (const candidate of candidates) {
+    if (candidate.id === listing.id) continue
+    const sim = similarity(listing.name, candidate.name)
+    const oneUndated = !!listing.start_date !== !!candidate.start_date
+
+    let matches: boolean
+    if (listing.source !== candidate.source) {
+      matches = isProbableDuplicate(listing, candidate) || (oneUndated && sim >= 0.8)
+    } else {
+      matches = !!listing.venue_name && listing.venue_name === candidate.venue_name && sim >= 0.8 && oneUndated
+    }
+
+    if (matches && sim > bestSim) {
+      best = candidate
+      bestSim = sim
+    }
+  }
+
+  return best
+}
+
+// ─── Canonical fields ────────────────────────────────────────────────────────
+
+function isFilled(value: unknown): boolean {
+  return value != null && value !== ''
+}
+
+/**
+ * Canonical event fields from its linked listings: each field comes from the
+ * highest-priority listing that has it (ties → more complete listing, then the
+ * older one). lat/lng and start/end dates are taken as pairs; posters follow
+ * SOURCE_POSTER_PRIORITY. source/source_id name the winning listing.
+ */
+export function pickCanonicalFields(sources: any[]): Record<string, unknown> {
+  if (sources.length === 0) return {}
+
+  const byPriority = (table: Record<string, number>) =>
+    [...sources].sort(
+      (a, b) =>
+        (table[b.source] ?? 0) - (table[a.source] ?? 0) ||
+        countNonNull(b) - countNonNull(a) ||
+        String(a.first_seen_at ?? '').localeCompare(String(b.first_seen_at ?? ''))
+    )
+  const ranked = byPriority(SOURCE_DATA_PRIORITY)
+  const first = <T>(pick: (s: any) => T | null) => {
+    for (const s of ranked) {
+      const value = pick(s)
+      if (value !== null) return value
+    }
+    return null
+  }
+
+  const fields: Record<string, unknown> = {
+    source: ranked[0].source,
+    source_id: ranked[0].source_id,
+  }
+  for (const field of LISTING_FIELDS) {
+    if (['lat', 'lng', 'start_date', 'end_date', 'poster_url'].includes(field)) continue
+    const value = first((s) => (isFilled(s[field]) ? s[field] : null))
+    if (value !== null) fields[field] = value
+  }
+
+  const coords = first((s) => (s.lat != null && s.lng != null ? { lat: s.lat, lng: s.lng } : null))
+  if (coords) Object.assign(fields, coords)
+
+  const dates = first((s) => (s.start_date ? { start_date: s.start_date, end_date: s.end_date ?? null } : null))
+  if (dates) Object.assign(fields, dates)
+
+  const poster = byPriority(SOURCE_POSTER_PRIORITY).find((s) => isFilled(s.poster_url))
+  if (poster) fields.poster_url = poster.poster_url
+
+  return fields
+}
+
+// ─── Linking ─────────────────────────────────────────────────────────────────
+
+function listingSnapshot(listing: any, eventId: number): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {
+    event_id: eventId,
+    source: listing.source,
+    source_id: listing.source_id,
+    last_seen_at: new Date().toISOString(),
+  }
+  for (const field of LISTING_FIELDS) snapshot[field] = listing[field] ?? null
+  return snapshot
+}
+
+/** New canonical event with itself as the only listing */
+async function registerCanonical(listing: any, keys: string[]): Promise<void> {
+  if (listing.source_id) {
+    const { error: sourceError } = await supabaseAdmin
+      .from('event_sources')
+      .upsert(listingSnapshot(listing, listing.id), { onConflict: 'source,source_id' })
+    if (sourceError) throw new Error(`event_sources upsert failed: ${sourceError.message}`)
+  }
+
+  const { error } = await supabaseAdmin.from('events').update({ blocking_keys: keys }).eq('id', listing.id)
+  if (error) throw new Error(`blocking_keys update failed: ${error.message}`)
+}
+
+interface FoldedVisit {
+  id: number
+  user_id: string
+  visited_at: string
+  memo: string | null
+  photo_paths: string[] | null
+}
+
+/**
+ * Fold a diary entry into the one the user logged on the canonical event the
+ * same day: photos (up to MAX_VISIT_PHOTOS), children and a missing memo carry
+ * over, then the folded entry is deleted.
+ */
+async function foldVisit(visit: FoldedVisit, toId: number): Promise<void> {
+  const { data: kept, error } = await supabaseAdmin
+    .from('visits')
+    .select('id, memo, photo_paths')
+    .eq('user_id', visit.user_id)
+    .eq('event_id', toId)
+    .eq('visited_at', visit.visited_at)
+    .single()
+  if (error || !kept) throw new Error(`visits fetch failed for ${visit.id}: ${error?.message}`)
+
+  const photos = [...new Set([...(kept.photo_paths ?? []), ...(visit.photo_paths ?? [])])].slice(0, MAX_VISIT_PHOTOS)
+  const { error: updateError } = await supabaseAdmin
+    .from('visits')
+    .update({ photo_paths: photos, memo: kept.memo ?? visit.memo })
+    .eq('id', kept.id)
+  if (updateError) throw new Error(`visits fold failed for ${visit.id}: ${updateError.message}`)
+
+  const { data: children, error: childError } = await supabaseAdmin
+    .from('visit_children')
+    .select('child_id')
+    .eq('visit_id', visit.id)
+  if (childError) throw new Error(`visit_children fetch failed for ${visit.id}: ${childError.message}`)
+  if (children && children.length > 0) {
+    const { error: upsertError } = await supabaseAdmin
+      .from('visit_children')
+      .upsert(
+        children.map((c: { child_id: number }) => ({ visit_id: kept.id, child_id: c.child_id })),
+        { onConflict: 'visit_id,child_id', ignoreDuplicates: true }
+      )
+    if (upsertError) throw new Error(`visit_children fold failed for ${visit.id}: ${upsertError.message}`)
+  }
+
+  const { error: deleteError } = await supabaseAdmin.from('visits').delete().eq('id', visit.id)
+  if (deleteError) throw new Error(`visits delete failed for ${visit.id}: ${deleteError.message}`)
+}
+
+/** Move user/mention references from the folded row to the canonical event */
+async function repointReferences(fromId: number, toId: number): Promise<void> {
+  // Per-user tables are UNIQUE (user_id, event_id): move row by row and let the
+  // cascade drop the ones the user already has on the canonical event
+  for (const table of ['favorites', 'user_hidden_items']) {
+    const { data: rows } = await supabaseAdmin.from(table).select('id').eq('event_id', fromId)
+    for (const row of rows ?? []) {
+      const { error } = await supabaseAdmin.from(table).update({ event_id: toId }).eq('id', row.id)
+      if (error && error.code !== '23505') {
+        console.error(`[event-dedup] ${table} re-point error for ${row.id}:`, error.message)
+      }
+    }
+  }
+
+  // Diary entries restrict the delete of the folded row (00092) and are
+  // UNIQUE (user_id, event_id, visited_at): move them, folding the ones the
+  // user already logged on the canonical event that day
+  const { data: visits, error: visitsError } = await supabaseAdmin
+    .from('visits')
+    .select('id, user_id, visited_at, memo, photo_paths')
+    .eq('event_id', fromId)
+  if (visitsError) throw new Error(`visits fetch failed: ${visitsError.message}`)
+  for (const visit of (visits ?? []) as FoldedVisit[]) {
+    const { error } = await supabaseAdmin.from('visits').update({ event_id: toId }).eq('id', visit.id)
+    if (!error) continue
+    if (error.code !== '23505') throw new Error(`visits re-point failed for ${visit.id}: ${error.message}`)
+    await foldVisit(visit, toId)
+  }
+
+  // collection_items is UNIQUE (collection_id, event_id) and cascades on
+  // delete: move the items whose collection doesn't list the canonical event yet
+  const [{ data: fromItems, error: fromItemsError }, { data: toItems, error: toItemsError }] = await Promise.all([
+    supabaseAdmin.from('collection_items').select('id, collection_id').eq('event_id', fromId),
+    supabaseAdmin.from('collection_items').select('collection_id').eq('event_id', toId),
+  ])
+  if (fromItemsError || toItemsError) {
+    throw new Error(`collection_items fetch failed: ${(fromItemsError ?? toItemsError)?.message}`)
+  }
+  const listedIn = new Set((toItems ?? []).map((i: { collection_id: number }) => i.collection_id))
+  const itemIds = ((fromItems ?? []) as { id: number; collection_id: number }[])
+    .filter((i) => !listedIn.has(i.collection_id))
+    .map((i) => i.id)
+  if (itemIds.length > 0) {
+    const { error } = await supabaseAdmin.from('collection_items').update({ event_id: toId }).in('id', itemIds)
+    if (error) throw new Error(`collection_items re-point failed: ${error.message}`)
+  }
+
+  // blog_mentions is UNIQUE (event_id, url): move the posts the canonical event
+  // doesn't have yet and drop the rest. Throws so the caller keeps the folded
+  // row (and its mentions, which cascade on delete) when the move fails.
+  const [{ data: fromMentions, error: fromError }, { data: toMentions, error: toError }] = await Promise.all([
+    supabaseAdmin.from('blog_mentions').select('id, url').eq('event_id', fromId),
+    supabaseAdmin.from('blog_mentions').select('url').eq('event_id', toId),
+  ])
+  if (fromError || toError) {
+    throw new Error(`blog_mentions fetch failed: ${(fromError ?? toError)?.message}`)
+  }
+
+  const canonicalUrls = new Set((toMentions ?? []).map((m: { url: string | null }) => m.url))
+  const moveIds: number[] = []
+  const duplicateIds: number[] = []
+  for (const m of (fromMentions ?? []) as { id: number; url: string | null }[]) {
+    if (m.url !== null && canonicalUrls.has(m.url)) duplicateIds.push(m.id)
+    else moveIds.push(m.id)
+  }
+
+  for (let i = 0; i < moveIds.length; i += MENTION_BATCH) {
+    const { error } = await supabaseAdmin
+      .from('blog_mentions')
+      .update({ event_id: toId })
+      .in('id', moveIds.slice(i, i + MENTION_BATCH))
+    if (error) throw new Error(`blog_mentions re-point failed: ${error.message}`)
+  }
+  for (let i = 0; i < duplicateIds.length; i += MENTION_BATCH) {
+    const { error } = await supabaseAdmin
+      .from('blog_mentions')
+      .delete()
+      .in('id', duplicateIds.slice(i, i + MENTION_BATCH))
+    if (error) throw new Error(`blog_mentions duplicate delete failed: ${error.message}`)
+  }
+}
+
+/**
+ * Link a listing to its canonical event: store the listing, re-point references,
+ * delete the incoming row and re-pick canonical fields from all listings.
+ */
+async function linkListing(listing: any, canonical: any, keys: string[]): Promise<void> {
+  if (listing.source_id) {
+    const { error: sourceError } = await supabaseAdmin
+      .from('event_sources')
+      .upsert(listingSnapshot(listing, canonical.id), { onConflict: 'source,source_id' })
+    if (sourceError) throw new Error(`event_sources upsert failed: ${sourceError.message}`)
+  }
+
+  await repointReferences(listing.id, canonical.id)
+
+  // Delete the incoming row (retry once on timeout) — its data now lives in event_sources
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { error } = await supabaseAdmin.from('events').delete().eq('id', listing.id)
+    if (!error) break
+    if (error.code === '57014' && attempt === 0) {
+      console.warn(`[event-dedup] DELETE timeout for ${listing.id}, retrying...`)
+      await new Promise(r => setTimeout(r, 2000))
+      continue
+    }
+    throw error
+  }
+
+  const { data: sources, error: sourcesError } = await supabaseAdmin
+    .from('event_sources')
+    .select('*')
+    .eq('event_id', canonical.id)
+  if (sourcesError) throw new Error(`event_sources fetch failed: ${sourcesError.message}`)
+
+  // Canonical rows without a source_id have no listing of their own — count the row itself
+  const listings = canonical.source_id ? sources ?? [] : [...(sources ?? []), canonical]
+  const picked = pickCanonicalFields(listings)
+  const updates: Record<string, unknown> = {
+    blocking_keys: [...new Set([...(canonical.blocking_keys ?? []), ...keys])],
+  }
+  for (const [field, value] of Object.entries(picked)) {
+    if (canonical[field] !== value) updates[field] = value
+  }
+
+  console.log(
+    `[event-dedup] Linking ${listing.id} (${listing.source}) → ${canonical.id} (${canonical.source}), ${sources?.length ?? 0} sources${Object.keys(updates).length > 1 ? `, updating ${Object.keys(updates).filter((f) => f !== 'blocking_keys').join(',')}` : ''}`
+  )
+
+  const { error: updateError } = await supabaseAdmin.from('events').update(updates).eq('id', canonical.id)
+  if (updateError) {
+    console.error(`[event-dedup] Update error for ${canonical.id}:`, updateError.message)
+  }
+
+  // Record merge in dedup audit log
+  const nameSim = similarity(canonical.name, listing.name)
+  const matchReason = canonical.venue_name && canonical.venue_name === listing.venue_name
+    ? 'venue_name'
+    : canonical.source === listing.source ? 'source_id' : 'name_date'
+  await supabaseAdmin.from('event_dedup_audit_log').insert({
+    kept_event_id: canonical.id,
+    removed_event_id: listing.id,
+    kept_event_name: canonical.name,
+    removed_event_name: listing.name,
+    similarity_score: nameSim,
+    match_reason: matchReason,
+    kept_source: canonical.source,
+    removed_source: listing.source,
+    kept_dates: { start_date: canonical.start_date, end_date: canonical.end_date },
+    removed_dates: { start_date: listing.start_date, end_date: listing.end_date },
+    venue_name: canonical.venue_name || listing.venue_name || null,
+  }).then(({ error: auditErr }) => {
+    if (auditErr) console.error('[event-dedup] Audit log error:', auditErr.message)
+  })
+}
+
 /**
  * Check if two events are likely duplicates.
  */
@@ -271,20 +625,23 @@ export function isProbableDuplicate(
   return false
 }
 
+/** Punctuation → spaces, 4-digit years stripped, lowercased */
+function normalizeEventName(name: string): string {
+  return name
+    .replace(/[〈〉<>()[\]'"「」『』：:·\-–—,./\\]/g, ' ')
+    .replace(/\d{4}/g, '') // strip years
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+}
+
 /**
  * Token-based similarity (order-independent).
  * Splits names into tokens and computes Jaccard-like overlap.
  */
 export function tokenSimilarity(name1: string, name2: string): number {
-  const normalize = (s: string) =>
-    s.replace(/[〈〉<>()[\]'"「」『』：:·\-–—,./\\]/g, ' ')
-      .replace(/\d{4}/g, '') // strip years
-      .replace(/\s+/g, ' ')
-      .trim()
-      .toLowerCase()
-
-  const tokens1 = new Set(normalize(name1).split(' ').filter(t => t.length >= 2))
-  const tokens2 = new Set(normalize(name2).split(' ').filter(t => t.length >= 2))
+  const tokens1 = new Set(normalizeEventName(name1).split(' ').filter(t => t.length >= 2))
+  const tokens2 = new Set(normalizeEventName(name2).split(' ').filter(t => t.length >= 2))
 
   if (tokens1.size === 0 || tokens2.size === 0) return 0
 
@@ -316,103 +673,6 @@ export function datesOverlap(
   return d1_start <= d2_end && d2_start <= d1_end
 }
 
-/**
- * Merge two events using source priority.
- *
- * 1. Data priority determines which event to keep (source-based, field count fallback)
- * 2. Poster priority determines which poster_url to use
- * 3. Non-null fields from the deleted event fill null fields in the kept event
- */
-async function mergeEvents(event1: any, event2: any, processed: Set<number>): Promise<void> {
-  const dataPri1 = SOURCE_DATA_PRIORITY[event1.source] ?? 0
-  const dataPri2 = SOURCE_DATA_PRIORITY[event2.source] ?? 0
-
-  // Determine keep/delete by data priority, fallback to field count
-  let keep: any, del: any
-  if (dataPri1 !== dataPri2) {
-    keep = dataPri1 >= dataPri2 ? event1 : event2
-    del = dataPri1 >= dataPri2 ? event2 : event1
-  } else {
-    const q1 = countNonNull(event1)
-    const q2 = countNonNull(event2)
-    keep = q1 >= q2 ? event1 : event2
-    del = q1 >= q2 ? event2 : event1
-  }
-
-  // Poster priority: use higher-priority poster if available
-  const posterPriKeep = SOURCE_POSTER_PRIORITY[keep.source] ?? 0
-  const posterPriDel = SOURCE_POSTER_PRIORITY[del.source] ?? 0
-  const updates: Record<string, any> = {}
-
-  if (del.poster_url && posterPriDel > posterPriKeep && !keep.poster_url) {
-    updates.poster_url = del.poster_url
-  } else if (del.poster_url && posterPriDel > posterPriKeep) {
-    updates.poster_url = del.poster_url
-  }
-
-  // Fill null fields in keep from del
-  const fillableFields = [
-    'venue_name', 'venue_address', 'lat', 'lng', 'description',
-    'source_url', 'price_info', 'time_info', 'age_range',
-  ]
-  for (const field of fillableFields) {
-    if ((keep[field] == null || keep[field] === '') && del[field] != null && del[field] !== '') {
-      updates[field] = del[field]
-    }
-  }
-
-  console.log(
-    `[event-dedup] Merging: keep ${keep.id} (${keep.source}), delete ${del.id} (${del.source})${Object.keys(updates).length > 0 ? `, filling ${Object.keys(updates).join(',')}` : ''}`
-  )
-
-  // Apply field updates to keep event
-  if (Object.keys(updates).length > 0) {
-    const { error: updateError } = await supabaseAdmin
-      .from('events')
-      .update(updates)
-      .eq('id', keep.id)
-
-    if (updateError) {
-      console.error(`[event-dedup] Update error for ${keep.id}:`, updateError.message)
-    }
-  }
-
-  // Delete the lower-priority event (retry once on timeout)
-  for (let attempt = 0; attempt < 2; attempt++) {
-    const { error } = await supabaseAdmin.from('events').delete().eq('id', del.id)
-    if (!error) break
-    if (error.code === '57014' && attempt === 0) {
-      console.warn(`[event-dedup] DELETE timeout for ${del.id}, retrying...`)
-      await new Promise(r => setTimeout(r, 2000))
-      continue
-    }
-    throw error
-  }
-
-  // Record merge in dedup audit log
-  const nameSim = similarity(keep.name, del.name)
-  const matchReason = keep.venue_name && keep.venue_name === del.venue_name
-    ? 'venue_name'
-    : keep.source === del.source ? 'source_id' : 'name_date'
-  await supabaseAdmin.from('event_dedup_audit_log').insert({
-    kept_event_id: keep.id,
-    removed_event_id: del.id,
-    kept_event_name: keep.name,
-    removed_event_name: del.name,
-    similarity_score: nameSim,
-    match_reason: matchReason,
-    kept_source: keep.source,
-    removed_source: del.source,
-    kept_dates: { start_date: keep.start_date, end_date: keep.end_date },
-    removed_dates: { start_date: del.start_date, end_date: del.end_date },
-    venue_name: keep.venue_name || del.venue_name || null,
-  }).then(({ error: auditErr }) => {
-    if (auditErr) console.error('[event-dedup] Audit log error:', auditErr.message)
-  })
-
-  processed.add(del.id)
-}
-
 /**
  * Count non-null fields in an event object.
  */
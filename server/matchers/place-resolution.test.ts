@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../lib/supabase-admin', () => ({
+  supabaseAdmin: { from: () => ({ select: () => ({ eq: () => ({ data: [], error: null }) }) }) },
+}))
+
+import {
+  scorePlacePair,
+  clusterPlaces,
+  pickKeeper,
+  normalizePhone,
+  kakaoNumericId,
+  MATCH_CONFIDENCE,
+  type ResolvablePlace,
+} from './place-resolution'
+
+// ~0.0009° lat ≈ 100m
+const base = { lat: 37.5, lng: 127.0 }
+
+function place(id: number, name: string, extra: Partial<ResolvablePlace> = {}): ResolvablePlace {
+  return { id, name, ...base, ...extra }
+}
+
+describe('normalizePhone / kakaoNumericId', () => {
+  it('normalizes phone formats and rejects short numbers', () => {
+    expect(normalizePhone('02-123-4567')).toBe('021234567')
+    expect(normalizePhone('(02) 123 4567')).toBe('021234567')
+    expect(normalizePhone('+82 2-123-4567')).toBe('021234567')
+    expect(normalizePhone('1588')).toBeNull()
+    expect(normalizePhone(null)).toBeNull()
+  })
+
+  it('extracts numeric kakao ids from prefixed variants', () => {
+    expect(kakaoNumericId('tour_12345')).toBe('12345')
+    expect(kakaoNumericId('dup_12345')).toBe('12345')
+    expect(kakaoNumericId('babygo_12')).toBeNull()
+  })
+})
+
+describe('scorePlacePair', () => {
+  it('treats the same numeric kakao id as definite regardless of distance', () => {
+    const score = scorePlacePair(
+      place(1, '코코몽 에코파크', { kakao_place_id: '12345678' }),
+      place(2, 'Coconmong', { kakao_place_id: 'tour_12345678', lat: 35.1 })
+    )
+    expect(score).toMatchObject({ confidence: 1, reasons: ['kakao_id'] })
+  })
+
+  it('scores similar names nearby and boosts very close pairs', () => {
+    const close = scorePlacePair(place(1, '코코몽 에코파크'), place(2, '코코몽에코파크', { lat: base.lat + 0.0002 }))!
+    expect(close.reasons).toEqual(['name', 'nearby'])
+    expect(close.confidence).toBe(0.99)
+
+    const far = scorePlacePair(place(1, '코코몽 에코파크'), place(2, '코코몽에코파크', { lat: base.lat + 0.0025 }))!
+    expect(far.reasons).toEqual(['name'])
+    expect(far.confidence).toBeGreaterThanOrEqual(MATCH_CONFIDENCE)
+  })
+
+  it('matches renamed places by phone', () => {
+    const score = scorePlacePair(
+      place(1, '플레이타임 송파점', { phone: '02-1234-5678' }),
+      place(2, '잠실 키즈카페', { phone: '0212345678', lat: base.lat + 0.0018 })
+    )!
+    expect(score.reasons).toEqual(['phone'])
+    expect(score.confidence).toBe(0.8)
+  })
+
+  it('returns null for distant, unrelated or number-only-different places', () => {
+    expect(scorePlacePair(place(1, '코코몽 에코파크'), place(2, '코코몽 에코파크', { lat: base.lat + 0.01 }))).toBeNull()
+    expect(scorePlacePair(place(1, '서울숲'), place(2, '뽀로로파크'))).toBeNull()
+    expect(scorePlacePair(place(1, '고수동굴 제1동굴'), place(2, '고수동굴 제3동굴'))).toBeNull()
+    expect(scorePlacePair(place(1, '서울숲', { lat: null }), place(2, '서울숲'))).toBeNull()
+  })
+})
+
+describe('pickKeeper', () => {
+  it('prefers a real kakao id, then mentions, then the older row', () => {
+    expect(pickKeeper([place(1, 'a', { kakao_place_id: 'tour_123456' }), place(2, 'a', { kakao_place_id: '123456' })]).id).toBe(2)
+    expect(pickKeeper([place(1, 'a', { mention_count: 1 }), place(2, 'a', { mention_count: 5 })]).id).toBe(2)
+    expect(pickKeeper([place(3, 'a'), place(2, 'a')]).id).toBe(2)
+  })
+})
+
+describe('clusterPlaces', () => {
+  it('groups transitive duplicates and reports the weakest link', () => {
+    const groups = clusterPlaces([
+      place(1, '코코몽 에코파크', { mention_count: 3 }),
+      place(2, '코코몽에코파크', { lat: base.lat + 0.0002 }),
+      place(3, '코코몽 에코파크 키즈', { lat: base.lat + 0.001, phone: '02-555-1234' }),
+      place(4, '뽀로로파크', { lat: base.lat + 0.0003 }),
+      place(5, '서울숲', { lat: 37.54, lng: 127.04 }),
+    ])
+    expect(groups).toHaveLength(1)
+    expect(groups[0].placeIds).toEqual([1, 2, 3])
+    expect(groups[0].keeperId).toBe(1)
+    expect(groups[0].confidence).toBeLessThan(0.99)
+    expect(groups[0].reasons).toContain('name')
+  })
+
+  it('links kakao-id twins even when their coordinates are far apart', () => {
+    const groups = clusterPlaces([
+      place(1, '국립중앙박물관', { kakao_place_id: '8000001' }),
+      place(2, '국립중앙박물관 어린이박물관', { kakao_place_id: 'tour_8000001', lat: 36.0 }),
+    ])
+    expect(groups).toEqual([{ placeIds: [1, 2], keeperId: 1, confidence: 1, reasons: ['kakao_id'] }])
+  })
+
+  it('respects minConfidence', () => {
+    const places = [place(1, '플레이타임 송파점', { phone: '0212345678' }), place(2, '잠실 키즈카페', { phone: '0212345678' })]
+    expect(clusterPlaces(places, 0.95)).toEqual([])
+    expect(clusterPlaces(places, 0.75)).toHaveLength(1)
+  })
+})
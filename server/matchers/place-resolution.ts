@@ -0,0 +1,351 @@
+/**
+ * Place entity resolution — the one place duplicate places are decided.
+ *
+ * scorePlacePair compares two places on four signals:
+ *   kakao id  same numeric Kakao id (tour_123 / dup_123 / 123) → definite
+ *   phone     same normalized number within PHONE_RADIUS_M
+ *   name      Dice similarity (similarity.ts) within NAME_RADIUS_M
+ *   distance  closer pairs get a small boost
+ * and returns a confidence in [0, 1] with the reasons that fired.
+ *
+ * Used by:
+ *   - checkDuplicate (duplicate.ts): ingest-time match, confidence ≥ MATCH_CONFIDENCE
+ *   - runPlaceResolution (pipeline step 'place-resolution'): clusters all active
+ *     places and writes merge groups to place_merge_proposals for admin review
+ *
+ * Merging itself is the merge_places() / unmerge_place() SQL pair (migration
+ * 00076), called from the admin API, so every merge is recorded in place_merges
+ * and can be undone.
+ */
+
+import { supabaseAdmin } from '../lib/supabase-admin'
+import { logCollection } from '../lib/collection-log'
+import { similarity, normalizePlaceName } from './similarity'
+import type { PlaceMatchReason } from '../../src/types/index'
+
+export interface ResolvablePlace {
+  id: number
+  name: string
+  lat: number | null
+  lng: number | null
+  phone?: string | null
+  kakao_place_id?: string | null
+  source?: string | null
+  mention_count?: number | null
+}
+
+export interface PairScore {
+  confidence: number
+  reasons: PlaceMatchReason[]
+  distanceM: number | null
+  nameSimilarity: number
+}
+
+export interface MergeGroup {
+  placeIds: number[]
+  keeperId: number
+  /** Weakest link in the group — the group is only as sure as its least sure pair */
+  confidence: number
+  reasons: PlaceMatchReason[]
+}
+
+export interface PlaceResolutionResult {
+  scanned: number
+  groups: number
+  proposed: number
+  errors: number
+}
+
+/** checkDuplicate treats pairs at or above this as the same place */
+export const MATCH_CONFIDENCE = 0.7
+/** Groups below this are not worth an admin's time */
+export const PROPOSAL_MIN_CONFIDENCE = 0.75
+
+const NAME_RADIUS_M = 300
+const PHONE_RADIUS_M = 500
+const MIN_NAME_SIMILARITY = 0.5
+const PAGE = 1000
+/** ~0.01° grid cells (≈1.1km × 0.9km) — neighbours cover every radius above */
+const GRID_SCALE = 100
+
+// ─── Pure scoring ───────────────────────────────────────────────────────────
+
+export function haversineMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6371000
+  const dLat = ((lat2 - lat1) * Math.PI) / 180
+  const dLng = ((lng2 - lng1) * Math.PI) / 180
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLng / 2) ** 2
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+/**
+ * Extract numeric kakao place id from prefixed variants.
+ * e.g. "tour_12345" → "12345", "dup_12345" → "12345", "12345" → "12345"
+ */
+export function kakaoNumericId(id: string | null | undefined): string | null {
+  if (!id) return null
+  const m = id.match(/(\d{5,})/)
+  return m ? m[1] : null
+}
+
+/** "02-123-4567", "(02) 123 4567" → "021234567"; null for numbers too short to identify a place */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null
+  const digits = phone.replace(/\D/g, '').replace(/^82/, '0')
+  return digits.length >= 9 ? digits : null
+}
+
+/** "제1동굴" vs "제3동굴", "1관" vs "2관": same text, different numbers → different places */
+function differsOnlyByNumber(a: string, b: string): boolean {
+  const na = normalizePlaceName(a)
+  const nb = normalizePlaceName(b)
+  const digitsA = na.replace(/\D/g, '')
+  const digitsB = nb.replace(/\D/g, '')
+  return digitsA !== digitsB && na.replace(/\d/g, '') === nb.replace(/\d/g, '')
+}
+
+/**
+ * Confidence that a and b are the same place, or null when no signal fires.
+ */
+export function scorePlacePair(a: ResolvablePlace, b: ResolvablePlace): PairScore | null {
+  const kakaoA = kakaoNumericId(a.kakao_place_id)
+  const distanceM =
+    a.lat != null && a.lng != null && b.lat != null && b.lng != null
+      ? haversineMeters(a.lat, a.lng, b.lat, b.lng)
+      : null
+  const nameSimilarity = similarity(a.name, b.name)
+
+  if (kakaoA && kakaoA === kakaoNumericId(b.kakao_place_id)) {
+    return { confidence: 1, reasons: ['kakao_id'], distanceM, nameSimilarity }
+  }
+  if (distanceM === null || differsOnlyByNumber(a.name, b.name)) return null
+
+  const phoneA = normalizePhone(a.phone)
+  const samePhone = phoneA !== null && phoneA === normalizePhone(b.phone) && distanceM <= PHONE_RADIUS_M
+  const nameMatch = nameSimilarity >= MIN_NAME_SIMILARITY && distanceM <= NAME_RADIUS_M
+  if (!samePhone && !nameMatch) return null
+
+  const reasons: PlaceMatchReason[] = []
+  let confidence = 0
+  if (nameMatch) {
+    reasons.push('name')
+    confidence = nameSimilarity
+  }
+  if (samePhone) {
+    reasons.push('phone')
+    // A shared number is strong on its own (renamed branch, "OO 키즈카페" vs "OO")
+    confidence = Math.max(confidence + 0.15, 0.8)
+  }
+  if (distanceM <= 50) {
+    reasons.push('nearby')
+    confidence += 0.1
+  } else if (distanceM <= 150) {
+    reasons.push('nearby')
+    confidence += 0.05
+  }
+
+  return { confidence: Math.min(0.99, Math.round(confidence * 100) / 100), reasons, distanceM, nameSimilarity }
+}
+
+/** Keeper preference: real kakao id > more mentions > kakao source > older row */
+function keeperRank(p: ResolvablePlace): number {
+  let rank = 0
+  if (p.kakao_place_id && /^\d+$/.test(p.kakao_place_id)) rank += 100
+  rank += (p.mention_count ?? 0) * 10
+  if (p.source === 'kakao') rank += 50
+  if (p.source === 'auto_promoted') rank += 30
+  rank -= p.id * 0.0001
+  return rank
+}
+
+export function pickKeeper(places: ResolvablePlace[]): ResolvablePlace {
+  return places.reduce((best, p) => (keeperRank(p) > keeperRank(best) ? p : best))
+}
+
+function gridKey(lat: number, lng: number): string {
+  return `${Math.floor(lat * GRID_SCALE)}_${Math.floor(lng * GRID_SCALE)}`
+}
+
+/**
+ * Groups places whose pairwise confidence ≥ minConfidence (union-find over a
+ * spatial grid, plus kakao-id buckets so id matches never depend on coordinates).
+ */
+export function clusterPlaces(places: ResolvablePlace[], minConfidence = PROPOSAL_MIN_CONFIDENCE): MergeGroup[] {
+  const parent = new Map<number, number>()
+  const find = (x: number): number => {
+    const p = parent.get(x) ?? x
+    if (p === x) return x
+    const root = find(p)
+    parent.set(x, root)
+    return root
+  }
+
+  const edges: { a: number; b: number; score: PairScore }[] = []
+  const consider = (a: ResolvablePlace, b: ResolvablePlace) => {
+    const score = scorePlacePair(a, b)
+    if (!score || score.confidence < minConfidence) return
+    edges.push({ a: a.id, b: b.id, score })
+    const ra = find(a.id)
+    const rb = find(b.id)
+    if (ra !== rb) parent.set(ra, rb)
+  }
+
+  const grid = new Map<string, ResolvablePlace[]>()
+  const byKakao = new Map<string, ResolvablePlace[]>()
+  for (const p of places) {
+    const kakao = kakaoNumericId(p.kakao_place_id)
+    if (kakao) {
+      if (!byKakao.has(kakao)) byKakao.set(kakao, [])
+      byKakao.get(kakao)!.push(p)
+    }
+    if (p.lat == null || p.lng == null) continue
+
+    const cellLat = Math.floor(p.lat * GRID_SCALE)
+    const cellLng = Math.floor(p.lng * GRID_SCALE)
+    for (let dLat = -1; dLat <= 1; dLat++) {
+      for (let dLng = -1; dLng <= 1; dLng++) {
+        for (const other of grid.get(`${cellLat + dLat}_${cellLng + dLng}`) ?? []) {
+          consider(other, p)
+        }
+      }
+    }
+    const key = gridKey(p.lat, p.lng)
+    if (!grid.has(key)) grid.set(key, [])
+    grid.get(key)!.push(p)
+  }
+
+  // Kakao-id matches far apart (bad geocode) are missed by the grid
+  for (const bucket of byKakao.values()) {
+    for (let i = 1; i < bucket.length; i++) {
+      if (find(bucket[0].id) !== find(bucket[i].id)) consider(bucket[0], bucket[i])
+    }
+  }
+
+  const byId = new Map(places.map((p) => [p.id, p]))
+  const groups = new Map<number, { ids: Set<number>; confidence: number; reasons: Set<PlaceMatchReason> }>()
+  for (const { a, b, score } of edges) {
+    const root = find(a)
+    const group = groups.get(root) ?? { ids: new Set<number>(), confidence: 1, reasons: new Set<PlaceMatchReason>() }
+    group.ids.add(a).add(b)
+    group.confidence = Math.min(group.confidence, score.confidence)
+    for (const reason of score.reasons) group.reasons.add(reason)
+    groups.set(root, group)
+  }
+
+  return Array.from(groups.values())
+    .map((g) => {
+      const members = Array.from(g.ids).sort((x, y) => x - y)
+      return {
+        placeIds: members,
+        keeperId: pickKeeper(members.map((id) => byId.get(id)!)).id,
+        confidence: g.confidence,
+        reasons: Array.from(g.reasons),
+      }
+    })
+    .sort((x, y) => y.confidence - x.confidence)
+}
+
+// ─── Pipeline step ──────────────────────────────────────────────────────────
+
+/**
+ * Cluster all active places and upsert pending merge proposals.
+ * Groups an admin already merged or dismissed (same group_key) are left alone;
+ * pending groups that no longer form are dropped.
+ */
+export async function runPlaceResolution(): Promise<PlaceResolutionResult> {
+  const result: PlaceResolutionResult = { scanned: 0, groups: 0, proposed: 0, errors: 0 }
+  const startedAt = Date.now()
+
+  try {
+    const places: ResolvablePlace[] = []
+    let offset = 0
+    while (true) {
+      const { data, error } = await supabaseAdmin
+        .from('places')
+        .select('id, name, lat, lng, phone, kakao_place_id, source, mention_count')
+        .eq('is_active', true)
+        .is('merged_into', null)
+        .order('id')
+        .range(offset, offset + PAGE - 1)
+      if (error) throw new Error(`Failed to fetch places: ${error.message}`)
+      if (!data || data.length === 0) break
+      places.push(...(data as ResolvablePlace[]))
+      if (data.length < PAGE) break
+      offset += PAGE
+    }
+    result.scanned = places.length
+
+    const groups = clusterPlaces(places)
+    result.groups = groups.length
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('place_merge_proposals')
+      .select('id, group_key, status')
+    if (existingError) throw new Error(`Failed to fetch proposals: ${existingError.message}`)
+    const reviewedKeys = new Set(
+      (existing ?? []).filter((r) => r.status !== 'pending').map((r) => r.group_key as string)
+    )
+    const currentKeys = new Set(groups.map((g) => g.placeIds.join(',')))
+
+    for (const group of groups) {
+      const groupKey = group.placeIds.join(',')
+      if (reviewedKeys.has(groupKey)) continue
+
+      const { error } = await supabaseAdmin.from('place_merge_proposals').upsert(
+        {
+          group_key: groupKey,
+          place_ids: group.placeIds,
+          keeper_id: group.keeperId,
+          confidence: group.confidence,
+          reasons: group.reasons,
+        },
+        { onConflict: 'group_key' }
+      )
+      if (error) {
+        console.error(`[place-resolution] Upsert error for ${groupKey}:`, error.message)
+        result.errors++
+      } else {
+        result.proposed++
+      }
+    }
+
+    // Pending groups that no longer form (a member was merged, renamed or moved)
+    const staleIds = (existing ?? [])
+      .filter((r) => r.status === 'pending' && !currentKeys.has(r.group_key as string))
+      .map((r) => r.id as number)
+    for (let i = 0; i < staleIds.length; i += 200) {
+      const { error } = await supabaseAdmin
+        .from('place_merge_proposals')
+        .delete()
+        .in('id', staleIds.slice(i, i + 200))
+      if (error) {
+        console.error('[place-resolution] Stale proposal cleanup error:', error.message)
+        result.errors++
+      }
+    }
+
+    await logCollection({
+      collector: 'place-resolution',
+      startedAt,
+      resultsCount: result.proposed,
+      errors: result.errors,
+    })
+  } catch (err) {
+    console.error('[place-resolution] Fatal error:', err)
+    result.errors++
+    await logCollection({
+      collector: 'place-resolution',
+      startedAt,
+      resultsCount: result.proposed,
+      errors: result.errors,
+      error: String(err),
+    })
+  }
+
+  console.log(
+    `[place-resolution] Done: scanned=${result.scanned}, groups=${result.groups}, proposed=${result.proposed}, errors=${result.errors}`
+  )
+  return result
+}
@@ -7,18 +7,10 @@
  *   similarity('코코몽 에코파크', '코코몽에코파크') → 1.0 (same after normalize)
  */
 
-/**
- * Normalizes a place name for comparison:
- * - Strips whitespace
- * - Removes special characters (keeps Korean, alphanumeric)
- * - Lowercases
- */
-export function normalizePlaceName(name: string): string {
-  return name
-    .replace(/\s+/g, '')
-    .replace(/[^가-힣a-zA-Z0-9]/g, '')
-    .toLowerCase()
-}
+import { normalizePlaceName } from '../../src/lib/search'
+
+// Shared with the search API so indexed names (search_normalize, 00085) match
+export { normalizePlaceName }
 
 /**
  * Extracts all consecutive character bigrams from a string.
@@ -0,0 +1,152 @@
+/**
+ * Shared run entry: resolve a job spec into a step selection and execute it
+ * with the run ledger attached.
+ *
+ * Used by both server/run.ts (cron / CLI) and server/worker.ts (queued jobs),
+ * so a job behaves identically whichever way it was started.
+ *
+ * Job spec forms (CLI positionals or a pipeline_jobs.job value):
+ *   '<schedule|job>'        named job from PIPELINE_JOBS (cron string or manual-*)
+ *   'step:<name>'           single step
+ *   'steps:<a,b,c>'         subgraph, in dependency order
+ *   'from:<name>'           step + everything downstream of it
+ */
+
+import { initializeAllLimiters, flushAllLimiters } from '../rate-limiter'
+import { orderSteps, downstreamOf, type StepContext } from './graph'
+import { runPipeline, type PipelineRunResult, type RunHooks } from './runner'
+import { PIPELINE_STEPS, PIPELINE_JOBS } from './steps'
+import { openRun, ledgerHooks, closeRun } from './ledger'
+
+export interface RunSelection {
+  trigger: string
+  steps: string[]
+  budgetMin: number | null
+  params: Record<string, string>
+}
+
+export interface ExecuteOptions {
+  /** pipeline_jobs.id when started from the queue */
+  jobId?: number
+  /** Extra hooks (progress reporting, cancellation) layered on the ledger hooks */
+  hooks?: RunHooks
+}
+
+/** 'step:density' → ['step', 'density'], '0 19 * * *' → ['0 19 * * *'] */
+export function parseJobSpec(spec: string): string[] {
+  const match = spec.match(/^(step|steps|from):(.+)$/)
+  return match ? [match[1], match[2]] : [spec]
+}
+
+/**
+ * Map positionals onto a step selection.
+ * Returns null when the schedule/job name is unknown; throws on unknown steps.
+ */
+export function resolveSelection(positional: string[], params: Record<string, string>): RunSelection | null {
+  const [mode = 'manual', target] = positional
+
+  let selection: RunSelection | null
+  switch (mode) {
+    case 'step':
+    case 'steps':
+    case 'from': {
+      if (!target) throw new Error(`[run] "${mode}" requires a step name`)
+      const steps =
+        mode === 'from'
+          ? downstreamOf(PIPELINE_STEPS, target)
+          : target.split(',').map((s) => s.trim()).filter(Boolean)
+      selection = { trigger: `${mode}:${target}`, steps, budgetMin: null, params }
+      break
+    }
+
+    default: {
+      const job = PIPELINE_JOBS[mode]
+      if (!job) return null
+
+      // Legacy positional batch id: `manual-batch-replay <batchId>`
+      const merged = { ...job.params, ...params }
+      if (mode === 'manual-batch-replay' && target && !merged.batch) {
+        merged.batch = target
+      }
+
+      console.log(`[run] Job: ${job.description}`)
+      selection = { trigger: mode, steps: job.steps, budgetMin: job.budgetMin ?? null, params: merged }
+    }
+  }
+
+  // Dependency order + unknown step check, before anything touches the DB
+  selection.steps = orderSteps(PIPELINE_STEPS, selection.steps)
+  return selection
+}
+
+/**
+ * Execute a resolved selection: rate limiter load/flush + run ledger + step runner.
+ * Step failures are reported in the result; only infrastructure errors throw.
+ */
+export async function executeSelection(
+  selection: RunSelection,
+  options: ExecuteOptions = {}
+): Promise<{ runId: number | null; result: PipelineRunResult }> {
+  console.log(`[run] Starting pipeline run — trigger: "${selection.trigger}"`)
+  console.log(`[run] Time: ${new Date().toISOString()}`)
+
+  // Load daily API counters from DB once (avoids ~7,000 DB round-trips during pipeline)
+  await initializeAllLimiters()
+
+  const ctx: StepContext = {
+    trigger: selection.trigger,
+    runStartedAt: Date.now(),
+    budgetMin: selection.budgetMin,
+    params: selection.params,
+  }
+
+  // Run ledger: pipeline_runs + pipeline_steps (shown in /admin/pipeline)
+  const runId = await openRun(ctx, selection.steps, options.jobId)
+  const hooks = combineHooks(ledgerHooks(runId), options.hooks ?? {})
+
+  try {
+    const result = await runPipeline(PIPELINE_STEPS, selection.steps, ctx, hooks)
+    await closeRun(runId, result)
+    await flushAllLimiters()
+    return { runId, result }
+  } catch (err) {
+    await closeRun(runId, null, err instanceof Error ? err.message : String(err))
+    await flushAllLimiters()
+    throw err
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function combineHooks(a: RunHooks, b: RunHooks): RunHooks {
+  return {
+    onStepStart: async (name) => {
+      await a.onStepStart?.(name)
+      await b.onStepStart?.(name)
+    },
+    onStepEnd: async (outcome) => {
+      await a.onStepEnd?.(outcome)
+      await b.onStepEnd?.(outcome)
+    },
+    shouldStop: b.shouldStop ?? a.shouldStop,
+  }
+}
+
+// ─── Environment validation ───────────────────────────────────────────────────
+
+export function validateEnv(): void {
+  const required = [
+    'NEXT_PUBLIC_SUPABASE_URL',
+    'SUPABASE_SERVICE_ROLE_KEY',
+    'KAKAO_REST_KEY',
+    'NAVER_CLIENT_ID',
+    'NAVER_CLIENT_SECRET',
+  ]
+
+  const missing = required.filter((key) => !process.env[key])
+  if (missing.length > 0) {
+    throw new Error(
+      `[run] Missing required environment variables: ${missing.join(', ')}`
+    )
+  }
+}
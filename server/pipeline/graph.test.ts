@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { validateGraph, orderSteps, downstreamOf, type PipelineStep } from './graph'
+
+const noop = async () => ({})
+
+function step(name: string, dependsOn?: string[]): PipelineStep {
+  return { name, description: name, dependsOn, run: noop }
+}
+
+// kakao-enrich → recalc → scoring → density → promote, plus an unrelated step
+const REGISTRY = [
+  step('kakao-enrich'),
+  step('event-scoring'),
+  step('recalc', ['kakao-enrich']),
+  step('scoring', ['recalc']),
+  step('density', ['scoring']),
+  step('promote', ['density']),
+]
+
+describe('validateGraph', () => {
+  it('accepts a valid DAG', () => {
+    expect(() => validateGraph(REGISTRY)).not.toThrow()
+  })
+
+  it('rejects unknown dependencies', () => {
+    expect(() => validateGraph([step('a', ['missing'])])).toThrow(/unknown step "missing"/)
+  })
+
+  it('rejects duplicate names', () => {
+    expect(() => validateGraph([step('a'), step('a')])).toThrow(/Duplicate/)
+  })
+
+  it('rejects cycles', () => {
+    expect(() => validateGraph([step('a', ['b']), step('b', ['a'])])).toThrow(/cycle/)
+  })
+})
+
+describe('orderSteps', () => {
+  it('orders selected steps by dependency', () => {
+    expect(orderSteps(REGISTRY, ['promote', 'scoring', 'density'])).toEqual(['scoring', 'density', 'promote'])
+  })
+
+  it('breaks ties by declaration order', () => {
+    expect(orderSteps(REGISTRY, ['recalc', 'event-scoring', 'kakao-enrich'])).toEqual([
+      'kakao-enrich',
+      'event-scoring',
+      'recalc',
+    ])
+  })
+
+  it('ignores dependencies outside the selection', () => {
+    expect(orderSteps(REGISTRY, ['density'])).toEqual(['density'])
+  })
+
+  it('throws on unknown step', () => {
+    expect(() => orderSteps(REGISTRY, ['nope'])).toThrow(/Unknown step/)
+  })
+
+  it('declares dependencies ahead of dependents even when declared later', () => {
+    const registry = [step('b', ['a']), step('a')]
+    expect(orderSteps(registry, ['b', 'a'])).toEqual(['a', 'b'])
+  })
+})
+
+describe('downstreamOf', () => {
+  it('returns the step and everything after it', () => {
+    expect(downstreamOf(REGISTRY, 'scoring')).toEqual(['scoring', 'density', 'promote'])
+  })
+
+  it('returns only the step for a leaf', () => {
+    expect(downstreamOf(REGISTRY, 'promote')).toEqual(['promote'])
+  })
+
+  it('excludes unrelated steps', () => {
+    expect(downstreamOf(REGISTRY, 'kakao-enrich')).not.toContain('event-scoring')
+  })
+})
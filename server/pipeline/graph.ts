@@ -0,0 +1,126 @@
+/**
+ * Declarative pipeline graph.
+ *
+ * Every unit of pipeline work (a collector, enricher, scorer...) is a named
+ * step with optional dependencies. Schedules and manual modes are just named
+ * step selections; the graph decides execution order.
+ *
+ * Dependency semantics:
+ *   - `dependsOn` only orders steps that are part of the same selection.
+ *     A dependency outside the selection is assumed to be already satisfied
+ *     (e.g. running `density` alone trusts yesterday's scoring).
+ *   - When a dependency fails inside a run, its dependents are skipped.
+ *   - Ties are broken by registry declaration order, so a job without
+ *     edges runs exactly in the order its steps were declared.
+ *
+ * This module is pure (no DB / network) so selection logic can be unit-tested.
+ */
+
+export interface StepContext {
+  /** Schedule / job name / CLI mode that triggered this run */
+  trigger: string
+  /** Epoch ms when the run started (shared by all steps in the run) */
+  runStartedAt: number
+  /** Overall run budget in minutes, if the job declares one */
+  budgetMin: number | null
+  /** Extra CLI parameters (`--key=value` → { key: 'value' }, `--flag` → { flag: 'true' }) */
+  params: Record<string, string>
+}
+
+export interface PipelineStep<T = unknown> {
+  name: string
+  description: string
+  /** Steps that must finish successfully first (when selected in the same run) */
+  dependsOn?: string[]
+  /** Per-attempt timeout in minutes; a timed-out step fails without a retry */
+  timeoutMin?: number
+  /** Extra attempts after the first failure (default 0), except after a timeout */
+  retries?: number
+  /** Return a reason string to skip the step, or null to run it */
+  skipIf?: (ctx: StepContext) => string | null | Promise<string | null>
+  run: (ctx: StepContext) => Promise<T>
+}
+
+export type StepRegistry = ReadonlyArray<PipelineStep>
+
+/**
+ * Throw if the registry references unknown steps or contains a cycle.
+ */
+export function validateGraph(registry: StepRegistry): void {
+  const names = new Set<string>()
+  for (const step of registry) {
+    if (names.has(step.name)) {
+      throw new Error(`[pipeline] Duplicate step name: "${step.name}"`)
+    }
+    names.add(step.name)
+  }
+
+  for (const step of registry) {
+    for (const dep of step.dependsOn ?? []) {
+      if (!names.has(dep)) {
+        throw new Error(`[pipeline] Step "${step.name}" depends on unknown step "${dep}"`)
+      }
+    }
+  }
+
+  // Full topological sort detects cycles
+  orderSteps(registry, [...names])
+}
+
+/**
+ * Return the selected step names in dependency order.
+ * Throws on unknown names or cycles among the selected steps.
+ */
+export function orderSteps(registry: StepRegistry, selected: string[]): string[] {
+  const index = new Map(registry.map((s, i) => [s.name, i]))
+  for (const name of selected) {
+    if (!index.has(name)) throw new Error(`[pipeline] Unknown step: "${name}"`)
+  }
+
+  const selection = new Set(selected)
+  const remaining = new Set(selection)
+  const ordered: string[] = []
+
+  // Kahn's algorithm restricted to the selection; ready set ordered by declaration index
+  while (remaining.size > 0) {
+    const ready = [...remaining]
+      .filter((name) => {
+        const deps = registry[index.get(name)!].dependsOn ?? []
+        return deps.every((d) => !selection.has(d) || ordered.includes(d))
+      })
+      .sort((a, b) => index.get(a)! - index.get(b)!)
+
+    if (ready.length === 0) {
+      throw new Error(`[pipeline] Dependency cycle among: ${[...remaining].join(', ')}`)
+    }
+
+    ordered.push(ready[0])
+    remaining.delete(ready[0])
+  }
+
+  return ordered
+}
+
+/**
+ * The step itself plus every step that transitively depends on it.
+ */
+export function downstreamOf(registry: StepRegistry, name: string): string[] {
+  if (!registry.some((s) => s.name === name)) {
+    throw new Error(`[pipeline] Unknown step: "${name}"`)
+  }
+
+  const result = new Set([name])
+  let grew = true
+  while (grew) {
+    grew = false
+    for (const step of registry) {
+      if (result.has(step.name)) continue
+      if ((step.dependsOn ?? []).some((d) => result.has(d))) {
+        result.add(step.name)
+        grew = true
+      }
+    }
+  }
+
+  return orderSteps(registry, [...result])
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../lib/supabase-admin', () => ({
+  supabaseAdmin: {},
+}))
+
+import { runStatus } from './ledger'
+import type { PipelineRunResult, StepOutcome } from './runner'
+
+function outcome(name: string, status: StepOutcome['status']): StepOutcome {
+  return { name, status, attempts: status === 'skipped' ? 0 : 1, durationMs: 0 }
+}
+
+function result(steps: StepOutcome[]): PipelineRunResult {
+  return { trigger: 'test', steps, failed: steps.filter((s) => s.status === 'failed').length, cancelled: false }
+}
+
+describe('runStatus', () => {
+  it('is success when nothing failed', () => {
+    expect(runStatus(result([outcome('a', 'success'), outcome('b', 'skipped')]))).toBe('success')
+  })
+
+  it('is partial when some executed steps failed', () => {
+    expect(runStatus(result([outcome('a', 'success'), outcome('b', 'failed')]))).toBe('partial')
+  })
+
+  it('is error when every executed step failed', () => {
+    expect(runStatus(result([outcome('a', 'failed'), outcome('b', 'skipped')]))).toBe('error')
+  })
+
+  it('is cancelled when stopped early', () => {
+    expect(runStatus({ ...result([outcome('a', 'failed')]), cancelled: true })).toBe('cancelled')
+  })
+
+  it('is error on a fatal abort', () => {
+    expect(runStatus(null, 'crash')).toBe('error')
+  })
+})
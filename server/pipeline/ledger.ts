@@ -0,0 +1,123 @@
+/**
+ * Pipeline run ledger: persists pipeline_runs / pipeline_steps rows.
+ *
+ * Every server/run.ts invocation opens one run row, the runner hooks write
+ * one step row per planned step (running → success/failed/skipped with the
+ * step's returned result object), and the run row is closed with an overall
+ * status. Schema: 00068_pipeline_run_ledger.sql.
+ *
+ * Ledger writes are best-effort: a failed insert is logged and the pipeline
+ * keeps going — losing a ledger row must never lose a collection run.
+ */
+
+import { supabaseAdmin } from '../lib/supabase-admin'
+import type { StepContext } from './graph'
+import type { PipelineRunResult, RunHooks, StepOutcome } from './runner'
+
+export type RunStatus = 'running' | 'success' | 'partial' | 'error' | 'cancelled'
+
+/**
+ * Insert the run row. Returns null if the ledger is unavailable.
+ */
+export async function openRun(
+  ctx: StepContext,
+  plannedSteps: string[],
+  jobId?: number
+): Promise<number | null> {
+  const { data, error } = await supabaseAdmin
+    .from('pipeline_runs')
+    .insert({
+      trigger: ctx.trigger,
+      status: 'running',
+      planned_steps: plannedSteps,
+      budget_min: ctx.budgetMin,
+      params: Object.keys(ctx.params).length > 0 ? ctx.params : null,
+      started_at: new Date(ctx.runStartedAt).toISOString(),
+      ...(jobId !== undefined && { job_id: jobId }),
+    })
+    .select('id')
+    .single()
+
+  if (error || !data) {
+    console.error('[ledger] Failed to open run:', error?.message)
+    return null
+  }
+  return data.id as number
+}
+
+/**
+ * Runner hooks writing one pipeline_steps row per step.
+ */
+export function ledgerHooks(runId: number | null): RunHooks {
+  if (runId === null) return {}
+
+  return {
+    onStepStart: async (name) => {
+      const { error } = await supabaseAdmin.from('pipeline_steps').upsert(
+        {
+          run_id: runId,
+          step: name,
+          status: 'running',
+          started_at: new Date().toISOString(),
+        },
+        { onConflict: 'run_id,step' }
+      )
+      if (error) console.error(`[ledger] Failed to record start of ${name}:`, error.message)
+    },
+
+    onStepEnd: async (outcome: StepOutcome) => {
+      const finishedAt = Date.now()
+      const { error } = await supabaseAdmin.from('pipeline_steps').upsert(
+        {
+          run_id: runId,
+          step: outcome.name,
+          status: outcome.status,
+          attempts: outcome.attempts,
+          result: outcome.result ?? null,
+          error: outcome.error ?? null,
+          skip_reason: outcome.skipReason ?? null,
+          started_at: new Date(finishedAt - outcome.durationMs).toISOString(),
+          finished_at: new Date(finishedAt).toISOString(),
+          duration_ms: outcome.durationMs,
+        },
+        { onConflict: 'run_id,step' }
+      )
+      if (error) console.error(`[ledger] Failed to record end of ${outcome.name}:`, error.message)
+    },
+  }
+}
+
+/**
+ * Close the run row with the overall status.
+ * Pass `fatal` when the run aborted outside of a step.
+ */
+export async function closeRun(
+  runId: number | null,
+  result: PipelineRunResult | null,
+  fatal?: string
+): Promise<void> {
+  if (runId === null) return
+
+  const { error } = await supabaseAdmin
+    .from('pipeline_runs')
+    .update({
+      status: runStatus(result, fatal),
+      error: fatal ?? null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', runId)
+
+  if (error) console.error('[ledger] Failed to close run:', error.message)
+}
+
+/**
+ * success: nothing failed. partial: some steps failed. error: fatal or every executed step failed.
+ * cancelled: stopped early on request (takes precedence over failures).
+ */
+export function runStatus(result: PipelineRunResult | null, fatal?: string): RunStatus {
+  if (fatal || !result) return 'error'
+  if (result.cancelled) return 'cancelled'
+  if (result.failed === 0) return 'success'
+  const executed = result.steps.filter((s) => s.status !== 'skipped').length
+  return result.failed >= executed ? 'error' : 'partial'
+}
@@ -0,0 +1,96 @@
+/**
+ * pipeline_jobs queue client (worker side).
+ *
+ * Lifecycle: queued → running (claimed with a lease) → success/partial/error/cancelled.
+ * The worker heartbeats to extend its lease; a job whose lease expires is
+ * re-claimable (up to max_attempts) so a crashed worker doesn't strand it.
+ * Schema + claim/heartbeat RPCs: 00069_pipeline_job_queue.sql.
+ */
+
+import { supabaseAdmin } from '../lib/supabase-admin'
+import type { RunStatus } from './ledger'
+
+export interface PipelineJobRow {
+  id: number
+  job: string
+  params: Record<string, string> | null
+  status: 'queued' | 'running' | RunStatus
+  attempts: number
+  max_attempts: number
+  cancel_requested: boolean
+}
+
+export interface JobProgress {
+  current: string | null
+  completed: number
+  total: number
+}
+
+/**
+ * Claim the oldest runnable job, or null when the queue is empty.
+ */
+export async function claimJob(workerId: string, leaseSeconds: number): Promise<PipelineJobRow | null> {
+  const { data, error } = await supabaseAdmin.rpc('claim_pipeline_job', {
+    p_worker_id: workerId,
+    p_lease_seconds: leaseSeconds,
+  })
+
+  if (error) {
+    throw new Error(`[queue] claim failed: ${error.message}`)
+  }
+  const rows = (data ?? []) as PipelineJobRow[]
+  return rows[0] ?? null
+}
+
+/**
+ * Extend the lease and publish progress.
+ * Returns 'cancel' when an admin requested cancellation, 'lost' when the lease
+ * is no longer ours (expired and re-claimed), else 'ok'.
+ */
+export async function heartbeat(
+  jobId: number,
+  workerId: string,
+  leaseSeconds: number,
+  progress: JobProgress | null
+): Promise<'ok' | 'cancel' | 'lost'> {
+  const { data, error } = await supabaseAdmin.rpc('heartbeat_pipeline_job', {
+    p_job_id: jobId,
+    p_worker_id: workerId,
+    p_lease_seconds: leaseSeconds,
+    p_progress: progress,
+  })
+
+  if (error) {
+    // Transient DB error: keep running, the next heartbeat retries
+    console.error(`[queue] heartbeat failed for job ${jobId}:`, error.message)
+    return 'ok'
+  }
+  if (data === null) return 'lost'
+  return data ? 'cancel' : 'ok'
+}
+
+/**
+ * Record the final status. Guarded by worker_id so a worker that lost its
+ * lease cannot overwrite the new owner's result.
+ */
+export async function finishJob(
+  jobId: number,
+  workerId: string,
+  status: RunStatus,
+  error?: string
+): Promise<void> {
+  const { error: updateError } = await supabaseAdmin
+    .from('pipeline_jobs')
+    .update({
+      status,
+      error: error ?? null,
+      lease_expires_at: null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('worker_id', workerId)
+
+  if (updateError) {
+    console.error(`[queue] Failed to finish job ${jobId}:`, updateError.message)
+  }
+}
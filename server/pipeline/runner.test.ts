@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { runPipeline } from './runner'
+import type { PipelineStep, StepContext } from './graph'
+
+const ctx: StepContext = { trigger: 'test', runStartedAt: 0, budgetMin: null, params: {} }
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('runPipeline', () => {
+  it('runs steps in dependency order and records results', async () => {
+    const calls: string[] = []
+    const registry: PipelineStep[] = [
+      { name: 'b', description: 'b', dependsOn: ['a'], run: async () => { calls.push('b'); return { n: 2 } } },
+      { name: 'a', description: 'a', run: async () => { calls.push('a'); return { n: 1 } } },
+    ]
+
+    const result = await runPipeline(registry, ['a', 'b'], ctx)
+
+    expect(calls).toEqual(['a', 'b'])
+    expect(result.failed).toBe(0)
+    expect(result.steps.map((s) => s.status)).toEqual(['success', 'success'])
+    expect(result.steps[1].result).toEqual({ n: 2 })
+  })
+
+  it('skips dependents of a failed step but keeps independent steps', async () => {
+    const registry: PipelineStep[] = [
+      { name: 'a', description: 'a', run: async () => { throw new Error('boom') } },
+      { name: 'b', description: 'b', dependsOn: ['a'], run: async () => ({}) },
+      { name: 'c', description: 'c', dependsOn: ['b'], run: async () => ({}) },
+      { name: 'd', description: 'd', run: async () => ({}) },
+    ]
+
+    const result = await runPipeline(registry, ['a', 'b', 'c', 'd'], ctx)
+    const byName = Object.fromEntries(result.steps.map((s) => [s.name, s]))
+
+    expect(result.failed).toBe(1)
+    expect(byName.a.error).toBe('boom')
+    expect(byName.b.status).toBe('skipped')
+    expect(byName.c.status).toBe('skipped')
+    expect(byName.c.skipReason).toMatch(/"b"/)
+    expect(byName.d.status).toBe('success')
+  })
+
+  it('honours skipIf without blocking dependents', async () => {
+    const registry: PipelineStep[] = [
+      { name: 'a', description: 'a', skipIf: () => 'no api key', run: async () => ({}) },
+      { name: 'b', description: 'b', dependsOn: ['a'], run: async () => ({}) },
+    ]
+
+    const result = await runPipeline(registry, ['a', 'b'], ctx)
+
+    expect(result.steps[0]).toMatchObject({ status: 'skipped', skipReason: 'no api key' })
+    expect(result.steps[1].status).toBe('success')
+  })
+
+  it('retries a failing step', async () => {
+    vi.useFakeTimers()
+    let attempts = 0
+    const registry: PipelineStep[] = [
+      {
+        name: 'flaky',
+        description: 'flaky',
+        retries: 2,
+        run: async () => {
+          attempts++
+          if (attempts < 3) throw new Error('transient')
+          return { ok: true }
+        },
+      },
+    ]
+
+    const promise = runPipeline(registry, ['flaky'], ctx)
+    await vi.runAllTimersAsync()
+    const result = await promise
+
+    expect(result.steps[0]).toMatchObject({ status: 'success', attempts: 3 })
+  })
+
+  it('fails a step that exceeds its timeout', async () => {
+    vi.useFakeTimers()
+    const registry: PipelineStep[] = [
+      { name: 'slow', description: 'slow', timeoutMin: 1, run: () => new Promise(() => {}) },
+    ]
+
+    const promise = runPipeline(registry, ['slow'], ctx)
+    await vi.advanceTimersByTimeAsync(60_000)
+    const result = await promise
+
+    expect(result.steps[0].status).toBe('failed')
+    expect(result.steps[0].error).toMatch(/timed out after 1min/)
+  })
+
+  it('does not retry a timed-out step while the first attempt may still run', async () => {
+    vi.useFakeTimers()
+    const run = vi.fn(() => new Promise(() => {}))
+    const registry: PipelineStep[] = [
+      { name: 'slow', description: 'slow', timeoutMin: 1, retries: 2, run },
+    ]
+
+    const promise = runPipeline(registry, ['slow'], ctx)
+    await vi.advanceTimersByTimeAsync(60_000)
+    const result = await promise
+
+    expect(run).toHaveBeenCalledTimes(1)
+    expect(result.steps[0]).toMatchObject({ status: 'failed', attempts: 1 })
+  })
+
+  it('reports every outcome to hooks, including skips', async () => {
+    const started: string[] = []
+    const ended: string[] = []
+    const registry: PipelineStep[] = [
+      { name: 'a', description: 'a', run: async () => { throw new Error('boom') } },
+      { name: 'b', description: 'b', dependsOn: ['a'], run: async () => ({}) },
+    ]
+
+    await runPipeline(registry, ['a', 'b'], ctx, {
+      onStepStart: async (name) => { started.push(name) },
+      onStepEnd: async (outcome) => { ended.push(`${outcome.name}:${outcome.status}`) },
+    })
+
+    expect(started).toEqual(['a'])
+    expect(ended).toEqual(['a:failed', 'b:skipped'])
+  })
+
+  it('skips remaining steps once shouldStop returns true', async () => {
+    const calls: string[] = []
+    const registry: PipelineStep[] = [
+      { name: 'a', description: 'a', run: async () => { calls.push('a'); return {} } },
+      { name: 'b', description: 'b', run: async () => { calls.push('b'); return {} } },
+    ]
+
+    const result = await runPipeline(registry, ['a', 'b'], ctx, {
+      shouldStop: () => calls.length > 0,
+    })
+
+    expect(calls).toEqual(['a'])
+    expect(result.cancelled).toBe(true)
+    expect(result.steps[1]).toMatchObject({ status: 'skipped', skipReason: 'cancelled' })
+  })
+})
@@ -0,0 +1,172 @@
+/**
+ * Pipeline step executor.
+ *
+ * Runs a selection of steps from the registry in dependency order with
+ * per-step timeouts, retries and skip conditions.
+ *
+ * A step that throws (or times out) after exhausting its retries is marked
+ * failed; steps depending on it are skipped, independent steps still run.
+ *
+ * Optional hooks observe step start/end (used by ./ledger.ts to persist
+ * pipeline_steps rows) without coupling the runner to the database.
+ *
+ * Note: a timed-out step's promise cannot be cancelled — the runner simply
+ * stops waiting for it and moves on. Collectors already bound their own work
+ * (rate limiters, time budgets), so the timeout is a safety net, not a kill.
+ */
+
+import { orderSteps, type StepContext, type StepRegistry } from './graph'
+
+export type StepStatus = 'success' | 'failed' | 'skipped'
+
+export interface StepOutcome {
+  name: string
+  status: StepStatus
+  attempts: number
+  durationMs: number
+  result?: unknown
+  error?: string
+  skipReason?: string
+}
+
+export interface PipelineRunResult {
+  trigger: string
+  steps: StepOutcome[]
+  failed: number
+  /** True when shouldStop() ended the run early */
+  cancelled: boolean
+}
+
+export interface RunHooks {
+  onStepStart?: (name: string) => Promise<void>
+  onStepEnd?: (outcome: StepOutcome) => Promise<void>
+  /** Checked before each step; returning true skips all remaining steps */
+  shouldStop?: () => boolean | Promise<boolean>
+}
+
+const RETRY_BASE_DELAY_MS = 5_000
+
+/**
+ * Execute the selected steps. Never throws for step failures —
+ * inspect `failed` / per-step status instead.
+ */
+export async function runPipeline(
+  registry: StepRegistry,
+  selected: string[],
+  ctx: StepContext,
+  hooks: RunHooks = {}
+): Promise<PipelineRunResult> {
+  const byName = new Map(registry.map((s) => [s.name, s]))
+  const ordered = orderSteps(registry, selected)
+  const selection = new Set(ordered)
+  const blocked = new Set<string>() // failed, or skipped because an upstream failed
+  const outcomes: StepOutcome[] = []
+  let cancelled = false
+
+  const record = async (outcome: StepOutcome) => {
+    outcomes.push(outcome)
+    await hooks.onStepEnd?.(outcome)
+  }
+
+  console.log(`[run] Plan (${ordered.length} steps): ${ordered.join(' → ')}`)
+
+  for (const name of ordered) {
+    const step = byName.get(name)!
+    const startedAt = Date.now()
+
+    if (!cancelled && hooks.shouldStop && (await hooks.shouldStop())) {
+      cancelled = true
+      console.warn('[run] Stop requested — skipping remaining steps')
+    }
+    if (cancelled) {
+      await record({ name, status: 'skipped', attempts: 0, durationMs: 0, skipReason: 'cancelled' })
+      continue
+    }
+
+    const failedDep = (step.dependsOn ?? []).find((d) => selection.has(d) && blocked.has(d))
+    if (failedDep) {
+      blocked.add(name)
+      await record({
+        name,
+        status: 'skipped',
+        attempts: 0,
+        durationMs: 0,
+        skipReason: `upstream step "${failedDep}" failed`,
+      })
+      console.warn(`[run] Skipping ${name}: upstream step "${failedDep}" failed`)
+      continue
+    }
+
+    const skipReason = step.skipIf ? await step.skipIf(ctx) : null
+    if (skipReason) {
+      await record({ name, status: 'skipped', attempts: 0, durationMs: 0, skipReason })
+      console.log(`[run] Skipping ${name}: ${skipReason}`)
+      continue
+    }
+
+    const maxAttempts = 1 + Math.max(0, step.retries ?? 0)
+    let attempts = 0
+    let succeeded = false
+    let result: unknown
+    let lastError: string | undefined
+
+    console.log(`[run] Running ${name} — ${step.description}`)
+    await hooks.onStepStart?.(name)
+
+    while (attempts < maxAttempts && !succeeded) {
+      attempts++
+      try {
+        result = await withTimeout(step.run(ctx), step.timeoutMin, name)
+        succeeded = true
+      } catch (err) {
+        lastError = err instanceof Error ? err.message : String(err)
+        console.error(`[run] ${name} attempt ${attempts}/${maxAttempts} failed:`, lastError)
+        // A timed-out attempt keeps running in the background; a retry would
+        // write alongside it (double inserts / counts in collectors)
+        if (err instanceof StepTimeoutError) break
+        if (attempts < maxAttempts) {
+          await sleep(RETRY_BASE_DELAY_MS * attempts)
+        }
+      }
+    }
+
+    const durationMs = Date.now() - startedAt
+    if (succeeded) {
+      console.log(`[run] ${name} result:`, JSON.stringify(result, null, 2))
+      await record({ name, status: 'success', attempts, durationMs, result })
+    } else {
+      blocked.add(name)
+      await record({ name, status: 'failed', attempts, durationMs, error: lastError })
+    }
+  }
+
+  const failed = outcomes.filter((o) => o.status === 'failed').length
+  const summary = outcomes
+    .map((o) => `${o.name}=${o.status}${o.status === 'success' ? ` (${Math.round(o.durationMs / 1000)}s)` : ''}`)
+    .join(', ')
+  console.log(`[run] Summary: ${summary}`)
+
+  return { trigger: ctx.trigger, steps: outcomes, failed, cancelled }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+class StepTimeoutError extends Error {}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMin: number | undefined, name: string): Promise<T> {
+  if (!timeoutMin) return promise
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new StepTimeoutError(`Step "${name}" timed out after ${timeoutMin}min`)),
+      timeoutMin * 60_000
+    )
+  })
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
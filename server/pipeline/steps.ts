@@ -0,0 +1,427 @@
+/**
+ * Pipeline step registry and named jobs.
+ *
+ * Step graph (→ = dependsOn edge):
+ *
+ *   Places:   kakao-category, reverse-search, public-data, localdata, children-facility
+ *   Events:   event-cleanup → {tour-api, seoul-events, kopis, interpark, babygo-events,
+ *                               exhibition-events, blog-events} → event-dedup
+ *             blog-events → event-blog-search
+ *             event-dedup → {poster-enrichment, event-age, event-price}
+ *   Scoring:  kakao-enrich → recalc-mentions → scoring → density → auto-promote
+ *             kakao-enrich → place-fields → scoring
+ *             review-moderation → scoring
+ *             kakao-enrich → place-resolution
+ *             event-scoring → event-auto-hide
+ *
+ * Jobs map cron schedules (see .github/workflows/collect.yml) and the legacy
+ * `manual-*` modes onto step selections. Declaration order below is the
+ * tie-breaker, so each job runs in the same sequence the old switch did.
+ */
+
+import { runPipelineA } from '../collectors/kakao-category'
+import { runReverseSearchOnly, runKeywordSearchBatch, replayFromExtraction } from '../collectors/naver-blog'
+import { runPublicData } from '../collectors/public-data'
+import { runLocalData } from '../collectors/localdata'
+import { runScoring, runEventScoring, runEventAutoHide, recalculateMentionCounts } from '../scoring'
+import { runDensityControl } from '../enrichers/density'
+import { runKakaoEnrichment, runEventKakaoEnrichment } from '../enrichers/kakao-enrich'
+import { runAutoPromotion } from '../candidates/auto-promote'
+import { runAutoDeactivate } from '../candidates/auto-deactivate'
+import { runTourAPICollector } from '../collectors/tour-api'
+import { runChildrenFacility } from '../collectors/children-facility'
+import { runSeoulEventsCollector } from '../collectors/seoul-events'
+import { runKOPISCollector } from '../collectors/kopis'
+import { runBlogEventDiscovery, runExhibitionEventExtraction } from '../collectors/blog-event-discovery'
+import { runEventDeduplication } from '../matchers/event-dedup'
+import { runPlaceResolution } from '../matchers/place-resolution'
+import { runPlaceFieldResolution } from '../enrichers/place-fields'
+import { runKeywordRotation } from '../keywords/keyword-rotation'
+import { runBlogNoiseFilter } from '../utils/blog-noise-filter'
+import { runReviewModeration } from '../utils/review-moderation'
+import { flagIrrelevantPlaces } from '../matchers/place-gate'
+import { runEventCleanup } from '../utils/event-cleanup'
+import { runEventBlogSearch } from '../collectors/event-blog-search'
+import { runFullBlogAudit } from '../utils/blog-full-audit'
+import { runBabygoCollector, fetchBabygoEvents } from '../collectors/babygo'
+import { runInterparkCollector } from '../collectors/interpark'
+import { runPosterEnrichment, runHiddenPosterRecovery } from '../enrichers/poster-enrichment'
+import { runEventAgeNormalization } from '../enrichers/event-age'
+import { runEventPriceNormalization } from '../enrichers/event-price'
+import { runDataLabTrendDetection } from '../keywords/datalab'
+import { runSearchGapKeywords } from '../keywords/search-gap'
+import { supabaseAdmin } from '../lib/supabase-admin'
+import type { PipelineStep, StepContext } from './graph'
+
+const DEFAULT_POSTER_BUDGET_MIN = 60
+const MIN_POSTER_BUDGET_MIN = 10
+
+const EVENT_COLLECTORS = [
+  'tour-api',
+  'seoul-events',
+  'kopis',
+  'interpark',
+  'babygo-events',
+  'exhibition-events',
+  'blog-events',
+]
+
+// ─── Steps ────────────────────────────────────────────────────────────────────
+
+export const PIPELINE_STEPS: PipelineStep[] = [
+  // Places collection
+  {
+    name: 'kakao-category',
+    description: 'Pipeline A: Kakao category scan',
+    timeoutMin: 120,
+    run: () => runPipelineA(),
+  },
+  {
+    name: 'reverse-search',
+    description: 'Pipeline B Method 1: Naver blog reverse search (no LLM cost)',
+    timeoutMin: 90,
+    run: () => runReverseSearchOnly(),
+  },
+  {
+    name: 'public-data',
+    description: 'Public data: playgrounds, parks, libraries, museums',
+    retries: 1,
+    run: () => runPublicData(),
+  },
+  {
+    name: 'localdata',
+    description: 'Small business market data (소상공인 상권정보): kids cafes, indoor play',
+    retries: 1,
+    run: () => runLocalData(),
+  },
+  {
+    name: 'children-facility',
+    description: 'Children play facility safety data (행안부 어린이놀이시설)',
+    retries: 1,
+    run: () => runChildrenFacility(),
+  },
+  {
+    name: 'keyword-batch',
+    description: 'Pipeline B Method 2: keyword search (Gemini Flash)',
+    run: () => runKeywordSearchBatch(),
+  },
+  {
+    name: 'replay',
+    description: 'Replay Kakao/DB matching from saved LLM extraction results',
+    run: (ctx) => runReplay(ctx),
+  },
+  {
+    name: 'babygo',
+    description: 'BabyGo (애기야가자) place collector',
+    run: () => runBabygoCollector(),
+  },
+
+  // Events collection
+  {
+    name: 'event-cleanup',
+    description: 'Expired event cleanup (before collecting new events)',
+    run: () => runEventCleanup(),
+  },
+  {
+    name: 'tour-api',
+    description: 'Tour API 관광정보',
+    dependsOn: ['event-cleanup'],
+    retries: 1,
+    run: () => runTourAPICollector(),
+  },
+  {
+    name: 'seoul-events',
+    description: 'Seoul cultural events',
+    dependsOn: ['event-cleanup'],
+    retries: 1,
+    run: () => runSeoulEventsCollector(),
+  },
+  {
+    name: 'kopis',
+    description: 'KOPIS 공연정보나루 kids performances',
+    dependsOn: ['event-cleanup'],
+    retries: 1,
+    skipIf: () => (process.env.KOPIS_API_KEY ? null : 'KOPIS_API_KEY not set'),
+    run: () => runKOPISCollector(),
+  },
+  {
+    name: 'interpark',
+    description: 'Interpark Ticket family genre',
+    dependsOn: ['event-cleanup'],
+    retries: 1,
+    run: () => runInterparkCollector(),
+  },
+  {
+    name: 'babygo-events',
+    description: 'BabyGo Events API',
+    dependsOn: ['event-cleanup'],
+    retries: 1,
+    run: () => fetchBabygoEvents(),
+  },
+  {
+    name: 'exhibition-events',
+    description: 'Exhibition event extraction (전시/체험 places first)',
+    dependsOn: ['event-cleanup'],
+    run: () => runExhibitionEventExtraction(),
+  },
+  {
+    name: 'blog-events',
+    description: 'Blog event discovery (Naver blog → Gemini extraction → events)',
+    dependsOn: ['event-cleanup'],
+    run: () => runBlogEventDiscovery(),
+  },
+  {
+    name: 'event-blog-search',
+    description: 'Naver blog posts for active events',
+    dependsOn: ['blog-events'],
+    run: () => runEventBlogSearch(),
+  },
+  {
+    name: 'event-dedup',
+    description: 'Event deduplication across sources',
+    dependsOn: EVENT_COLLECTORS,
+    run: () => runEventDeduplication(),
+  },
+  {
+    name: 'poster-enrichment',
+    description: 'Poster enrichment (skips official sources), time-budgeted',
+    dependsOn: ['event-dedup'],
+    run: (ctx) => runPosterEnrichment(posterBudget(ctx)),
+  },
+  {
+    name: 'event-age',
+    description: 'Parse event age_range text into min/max months',
+    dependsOn: ['event-dedup'],
+    run: () => runEventAgeNormalization(),
+  },
+  {
+    name: 'event-price',
+    description: 'Parse event price_info text into free flag and tier prices',
+    dependsOn: ['event-dedup'],
+    run: () => runEventPriceNormalization(),
+  },
+  {
+    name: 'poster-recovery',
+    description: 'Hidden poster recovery (replacements require approval)',
+    run: () => runHiddenPosterRecovery(),
+  },
+
+  // Enrichment + scoring
+  {
+    name: 'kakao-enrich',
+    description: 'Kakao enrichment: fill missing phone/road_address before scoring',
+    run: () => runKakaoEnrichment(),
+  },
+  {
+    name: 'event-kakao-enrich',
+    description: 'Kakao enrichment for events: fill missing lat/lng',
+    run: () => runEventKakaoEnrichment(),
+  },
+  {
+    name: 'place-resolution',
+    description: 'Cluster duplicate places into merge proposals for admin review',
+    dependsOn: ['kakao-enrich'],
+    run: () => runPlaceResolution(),
+  },
+  {
+    name: 'place-fields',
+    description: 'Pick place fields from place_sources by trust and recency; recount source_count',
+    dependsOn: ['kakao-enrich'],
+    run: () => runPlaceFieldResolution(),
+  },
+  {
+    name: 'recalc-mentions',
+    description: 'Recalculate mention_count from blog_mentions',
+    dependsOn: ['kakao-enrich'],
+    run: () => recalculateMentionCounts(),
+  },
+  {
+    name: 'review-moderation',
+    description: 'LLM spam/abuse check for new and edited reviews',
+    run: () => runReviewModeration(),
+  },
+  {
+    name: 'scoring',
+    description: 'Popularity scoring for all active places',
+    dependsOn: ['recalc-mentions', 'place-fields', 'review-moderation'],
+    run: () => runScoring(),
+  },
+  {
+    name: 'event-scoring',
+    description: 'Event popularity scoring',
+    run: () => runEventScoring(),
+  },
+  {
+    name: 'event-auto-hide',
+    description: 'Hide bottom N events by popularity',
+    dependsOn: ['event-scoring'],
+    run: () => runEventAutoHide(),
+  },
+  {
+    name: 'keyword-rotation',
+    description: 'Keyword efficiency + state transitions + seasonal transitions',
+    run: () => runKeywordRotation(),
+  },
+  {
+    name: 'search-gap',
+    description: 'Recurring zero-result searches → search_gap keywords (Gemini) + gap closing',
+    run: () => runSearchGapKeywords(),
+  },
+  {
+    name: 'blog-noise-filter',
+    description: 'LLM borderline mention review + blacklist term accumulation',
+    run: () => runBlogNoiseFilter(),
+  },
+  {
+    name: 'density',
+    description: 'Density control: rank places per district for map visibility',
+    dependsOn: ['scoring'],
+    run: () => runDensityControl(),
+  },
+  {
+    name: 'auto-promote',
+    description: 'Promote qualified candidates to places',
+    dependsOn: ['density'],
+    run: () => runAutoPromotion(),
+  },
+  {
+    name: 'place-gate-feedback',
+    description: 'Place Gate feedback loop: flag irrelevant places + learn patterns',
+    run: () => flagIrrelevantPlaces(),
+  },
+  {
+    name: 'auto-deactivate',
+    description: 'Detect closed places',
+    run: () => runAutoDeactivate(),
+  },
+
+  // Periodic
+  {
+    name: 'datalab',
+    description: 'Naver DataLab trend detection',
+    run: () => runDataLabTrendDetection(),
+  },
+  {
+    name: 'blog-audit',
+    description: 'Full blog mention audit (--resume to continue)',
+    run: (ctx) => runFullBlogAudit(ctx.params.resume === 'true'),
+  },
+]
+
+// ─── Jobs ─────────────────────────────────────────────────────────────────────
+
+export interface PipelineJob {
+  description: string
+  steps: string[]
+  /** Overall time budget; time-budgeted steps share what is left of it */
+  budgetMin?: number
+  /** Fixed params merged under CLI params */
+  params?: Record<string, string>
+}
+
+const PIPELINE_A_STEPS = ['kakao-category']
+const PUBLIC_DATA_STEPS = ['reverse-search', 'public-data', 'localdata', 'children-facility']
+const EVENTS_STEPS = [
+  'event-cleanup',
+  ...EVENT_COLLECTORS,
+  'event-blog-search',
+  'event-dedup',
+  'event-age',
+  'event-price',
+  'poster-enrichment',
+  'poster-recovery',
+]
+const SCORING_STEPS = [
+  'kakao-enrich',
+  'event-kakao-enrich',
+  'place-resolution',
+  'place-fields',
+  'recalc-mentions',
+  'review-moderation',
+  'scoring',
+  'event-scoring',
+  'event-auto-hide',
+  'keyword-rotation',
+  'search-gap',
+  'blog-noise-filter',
+  'density',
+  'auto-promote',
+  'place-gate-feedback',
+  'auto-deactivate',
+]
+const DAILY_STEPS = [...PIPELINE_A_STEPS, ...PUBLIC_DATA_STEPS, ...EVENTS_STEPS, ...SCORING_STEPS]
+
+const EVENTS_JOB_BUDGET_MIN = 130 // leave 20min margin before 150min workflow timeout
+
+export const PIPELINE_JOBS: Record<string, PipelineJob> = {
+  // Cron schedules
+  '0 17 * * *': { description: 'Pipeline A: Kakao category scan (02:00 KST)', steps: PIPELINE_A_STEPS },
+  '0 18 * * *': { description: 'Public data + Pipeline B Method 1 (03:00 KST)', steps: PUBLIC_DATA_STEPS },
+  '0 19 * * *': { description: 'Events collectors (04:00 KST)', steps: EVENTS_STEPS, budgetMin: EVENTS_JOB_BUDGET_MIN },
+  '0 20 * * *': { description: 'Enrichment + scoring + density + promotion (05:00 KST)', steps: SCORING_STEPS },
+  '0 21 1 * *': { description: 'Monthly: DataLab trends (06:00 KST, 1st of month)', steps: ['datalab'] },
+  '0 17 * * 1,4': { description: 'Pipeline B Method 2: keyword search (Mon/Thu)', steps: ['keyword-batch'] },
+  '0 15 * * 0': { description: 'Weekly: BabyGo places + events (Sunday 00:00 KST)', steps: ['babygo', 'babygo-events'] },
+  '0 22 * * 0': { description: 'Weekly: full blog audit (Sunday 07:00 KST)', steps: ['blog-audit'] },
+
+  // Manual modes
+  manual: {
+    description: 'All daily pipelines (use "manual-monthly" to include DataLab)',
+    steps: DAILY_STEPS,
+  },
+  'manual-monthly': {
+    description: 'All daily pipelines + DataLab',
+    steps: [...DAILY_STEPS, 'datalab'],
+  },
+  'manual-babygo': { description: 'BabyGo collector', steps: ['babygo', 'babygo-events'] },
+  'manual-interpark': { description: 'Interpark collector', steps: ['interpark'] },
+  'manual-kopis': { description: 'KOPIS performance collector', steps: ['kopis'] },
+  'manual-event-age': { description: 'Event age range normalization', steps: ['event-age'] },
+  'manual-event-price': { description: 'Event price normalization', steps: ['event-price'] },
+  'manual-place-resolution': { description: 'Place duplicate merge proposals', steps: ['place-resolution'] },
+  'manual-place-fields': { description: 'Resolve place fields from sources', steps: ['place-fields'] },
+  'manual-review-moderation': { description: 'Review spam/abuse moderation', steps: ['review-moderation'] },
+  'manual-search-gap': { description: 'Zero-result searches → keywords', steps: ['search-gap'] },
+  'manual-poster': { description: 'Poster enrichment', steps: ['poster-enrichment'] },
+  'manual-poster-recovery': { description: 'Hidden poster recovery', steps: ['poster-recovery'] },
+  'manual-audit': { description: 'Full blog audit', steps: ['blog-audit'] },
+  'manual-audit-resume': { description: 'Full blog audit (resume)', steps: ['blog-audit'], params: { resume: 'true' } },
+  'manual-batch': { description: 'Keyword search batch', steps: ['keyword-batch'] },
+  'manual-batch-replay': { description: 'Replay latest (or --batch=<id>) extraction batch', steps: ['replay'] },
+  'manual-reverse': { description: 'Reverse search only', steps: ['reverse-search'] },
+  'manual-event-blog-search': { description: 'Event blog search', steps: ['event-blog-search'] },
+  'manual-event-scoring': { description: 'Event scoring + auto-hide', steps: ['event-scoring', 'event-auto-hide'] },
+  'manual-blog-events': { description: 'Blog event discovery', steps: ['blog-events'] },
+  'manual-exhibition-events': { description: 'Exhibition event extraction', steps: ['exhibition-events'] },
+}
+
+// ─── Step helpers ─────────────────────────────────────────────────────────────
+
+/** Remaining run budget for poster enrichment (min 10min), or the collector default */
+function posterBudget(ctx: StepContext): number {
+  if (ctx.budgetMin == null) return DEFAULT_POSTER_BUDGET_MIN
+  const elapsedMin = Math.round((Date.now() - ctx.runStartedAt) / 60000)
+  const budget = Math.max(MIN_POSTER_BUDGET_MIN, ctx.budgetMin - elapsedMin)
+  console.log(`[run] Poster budget ${budget}min (elapsed ${elapsedMin}min)`)
+  return budget
+}
+
+async function runReplay(ctx: StepContext) {
+  let batchId = ctx.params.batch
+  if (!batchId) {
+    // Find the latest batch
+    const { data } = await supabaseAdmin
+      .from('llm_extraction_results')
+      .select('batch_id')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    if (!data) {
+      throw new Error('No extraction batches found. Run manual-batch first.')
+    }
+    batchId = data.batch_id as string
+  }
+
+  console.log(`[run] Replay batch: ${batchId}`)
+  return replayFromExtraction(batchId)
+}
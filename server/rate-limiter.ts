@@ -196,9 +196,15 @@ export const tourLimiter = new RateLimiter({
   provider: 'tour',
 })
 
+export const kopisLimiter = new RateLimiter({
+  maxPerSecond: 5,
+  maxPerDay: 3_000,
+  provider: 'kopis',
+})
+
 // ─── Batch initialize / flush helpers ─────────────────────────────────────────
 
-const ALL_LIMITERS = [kakaoLimiter, kakaoSearchLimiter, naverLimiter, dataLabLimiter, tourLimiter]
+const ALL_LIMITERS = [kakaoLimiter, kakaoSearchLimiter, naverLimiter, dataLabLimiter, tourLimiter, kopisLimiter]
 
 /** Initialize all rate limiters (call once at pipeline start). */
 export async function initializeAllLimiters(): Promise<void> {
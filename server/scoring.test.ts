@@ -4,7 +4,7 @@ vi.mock('./lib/supabase-admin', () => ({
   supabaseAdmin: { from: () => ({ select: () => ({ eq: () => ({ data: [], error: null }) }) }) },
 }))
 
-import { computeRecency, computeDataCompleteness } from './scoring'
+import { computeRecency, computeDataCompleteness, ratingScore } from './scoring'
 
 describe('computeRecency', () => {
   it('returns 0 for null input', () => {
@@ -114,3 +114,19 @@ describe('computeDataCompleteness', () => {
     ).toBe(0.2)
   })
 })
+
+describe('ratingScore', () => {
+  it('returns the prior for unreviewed places', () => {
+    expect(ratingScore(null, 0)).toBeCloseTo(0.625)
+  })
+
+  it('shrinks few reviews toward the prior', () => {
+    expect(ratingScore(5, 1)).toBeCloseTo(0.719, 3)
+    expect(ratingScore(4.5, 30)).toBeGreaterThan(ratingScore(5, 1))
+  })
+
+  it('maps a well-reviewed place onto 0..1', () => {
+    expect(ratingScore(1, 1000)).toBeCloseTo(0, 2)
+    expect(ratingScore(5, 1000)).toBeCloseTo(1, 2)
+  })
+})
@@ -6,11 +6,12 @@
  *   - source_count (distinct data sources)
  *   - recency (days since last mention, exponential decay)
  *   - data_completeness (filled fields ratio)
+ *   - rating (published user reviews, Bayesian-shrunk toward RATING_PRIOR_MEAN)
  *
  * Formula:
- *   score = 0.50 × mentionScore(count) + 0.10 × source_diversity +
- *           0.25 × recency + 0.15 × completeness
- *   (mention_count=0 → floor 0.30)
+ *   score = 0.45 × mentionScore(count) + 0.10 × source_diversity +
+ *           0.20 × recency + 0.15 × completeness + 0.10 × ratingScore
+ *   (mention_count=0 and no reviews → floor 0.30)
  *
  * Also includes recalculateMentionCounts() to sync places.mention_count
  * with actual blog_mentions before scoring.
@@ -33,6 +34,8 @@ export interface ScoringResult {
 
 const RECENCY_HALF_LIFE_DAYS = 180 // exponential decay half-life
 const DATA_FIELDS = ['name', 'address', 'phone', 'tags', 'description'] // for completeness
+const RATING_PRIOR_MEAN = 3.5 // unreviewed places sit here
+const RATING_PRIOR_WEIGHT = 3 // reviews needed to move halfway from the prior
 
 // ─── Main export ──────────────────────────────────────────────────────────────
 
@@ -54,6 +57,7 @@ export async function runScoring(): Promise<ScoringResult> {
       id: number; name: string; mention_count: number; source_count: number;
       last_mentioned_at: string | null; created_at: string;
       address: string | null; phone: string | null; tags: string[] | null; description: string | null;
+      review_count: number | null; rating_avg: number | null;
     }[] = []
 
     const PAGE_SIZE = 1000
@@ -62,7 +66,7 @@ export async function runScoring(): Promise<ScoringResult> {
       const { data: page, error: fetchError } = await supabaseAdmin
         .from('places')
         .select(
-          'id, name, mention_count, source_count, last_mentioned_at, created_at, address, phone, tags, description'
+          'id, name, mention_count, source_count, last_mentioned_at, created_at, address, phone, tags, description, review_count, rating_avg'
         )
         .eq('is_active', true)
         .order('id', { ascending: true })
@@ -101,18 +105,20 @@ export async function runScoring(): Promise<ScoringResult> {
         const recency = computeRecency(place.last_mentioned_at ?? place.created_at)
         const mention = mentionScore(place.mention_count ?? 0)
         const sourceDiversity = Math.min(place.source_count ?? 1, 4) / 4
+        const rating = ratingScore(place.rating_avg, place.review_count ?? 0)
 
-        // Places with no mentions get a fixed floor score
-        if ((place.mention_count ?? 0) === 0) {
+        // Places with no mentions and no reviews get a fixed floor score
+        if ((place.mention_count ?? 0) === 0 && (place.review_count ?? 0) === 0) {
           scoreMap.set(place.id, 0.30)
           continue
         }
 
         const score =
-          0.50 * mention +
+          0.45 * mention +
           0.10 * sourceDiversity +
-          0.25 * recency +
-          0.15 * completeness
+          0.20 * recency +
+          0.15 * completeness +
+          0.10 * rating
 
         const finalScore = Math.max(0.31, Math.min(1, score))
         if (isNaN(finalScore)) continue
@@ -295,6 +301,17 @@ export function mentionScore(count: number): number {
   return 0.90 + 0.10 * Math.min((count - 100) / 200, 1)
 }
 
+/**
+ * Review rating as 0..1: the mean rating shrunk toward RATING_PRIOR_MEAN by
+ * RATING_PRIOR_WEIGHT phantom reviews, so one 5-star review can't outrank a
+ * place with dozens of 4.5s. No reviews → the prior (0.625).
+ */
+export function ratingScore(ratingAvg: number | null, reviewCount: number): number {
+  const count = ratingAvg === null ? 0 : reviewCount
+  const mean = (RATING_PRIOR_MEAN * RATING_PRIOR_WEIGHT + (ratingAvg ?? 0) * count) / (RATING_PRIOR_WEIGHT + count)
+  return (mean - 1) / 4
+}
+
 /**
  * Computes data completeness: ratio of non-null, non-empty fields.
  * Fields checked: name, address, phone, tags, description
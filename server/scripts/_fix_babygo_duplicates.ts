@@ -1,13 +1,14 @@
 /**
  * One-time fix script for BabyGo data quality:
- *   1. Category correction via regex (immediate, no Kakao quota needed)
- *   2. Cross-source duplicate deactivation (babygo side → is_active=false, other side → source_count++)
+ *   Category correction via regex (immediate, no Kakao quota needed)
+ *
+ * Cross-source duplicates are no longer deactivated here — the place-resolution
+ * step proposes them as merge groups (server/matchers/place-resolution.ts).
  *
  * Run: DOTENV_CONFIG_PATH=.env.local npx tsx -r dotenv/config server/scripts/_fix_babygo_duplicates.ts
  */
 
 import { supabaseAdmin } from '../lib/supabase-admin'
-import { similarity, normalizePlaceName } from '../matchers/similarity'
 
 // ─── Category correction rules ──────────────────────────────────────────────
 
@@ -77,88 +78,6 @@ async function fixCategories(): Promise<{ fixed: number; before: Record<string,
   return { fixed, before, after }
 }
 
-async function fixDuplicates(): Promise<{ deactivated: number; examples: string[] }> {
-  // Fetch all babygo places
-  const bgPages: Array<{ id: number; name: string; lat: number; lng: number }> = []
-  let from = 0
-  while (true) {
-    const { data } = await supabaseAdmin
-      .from('places')
-      .select('id, name, lat, lng')
-      .eq('source', 'babygo')
-      .eq('is_active', true)
-      .range(from, from + 999)
-    if (!data || data.length === 0) break
-    bgPages.push(...data)
-    from += 1000
-  }
-
-  // Fetch non-babygo active places
-  const otherPages: Array<{ id: number; name: string; lat: number; lng: number }> = []
-  from = 0
-  while (true) {
-    const { data } = await supabaseAdmin
-      .from('places')
-      .select('id, name, lat, lng')
-      .neq('source', 'babygo')
-      .eq('is_active', true)
-      .range(from, from + 999)
-    if (!data || data.length === 0) break
-    otherPages.push(...data)
-    from += 1000
-  }
-
-  // Build spatial index
-  const grid = new Map<string, typeof otherPages>()
-  for (const o of otherPages) {
-    const key = `${Math.floor(o.lat * 100)}_${Math.floor(o.lng * 100)}`
-    if (!grid.has(key)) grid.set(key, [])
-    grid.get(key)!.push(o)
-  }
-
-  let deactivated = 0
-  const examples: string[] = []
-
-  for (const b of bgPages) {
-    const bLat100 = Math.floor(b.lat * 100)
-    const bLng100 = Math.floor(b.lng * 100)
-    const candidates: typeof otherPages = []
-    for (let dl = -1; dl <= 1; dl++) {
-      for (let dn = -1; dn <= 1; dn++) {
-        const k = `${bLat100 + dl}_${bLng100 + dn}`
-        if (grid.has(k)) candidates.push(...grid.get(k)!)
-      }
-    }
-
-    for (const o of candidates) {
-      const dLat = Math.abs(b.lat - o.lat)
-      const dLng = Math.abs(b.lng - o.lng)
-      if (dLat < 0.001 && dLng < 0.001) {
-        const sim = similarity(normalizePlaceName(b.name), normalizePlaceName(o.name))
-        if (sim >= 0.6) {
-          // Deactivate babygo side, bump other side
-          const { error: e1 } = await supabaseAdmin
-            .from('places')
-            .update({ is_active: false })
-            .eq('id', b.id)
-          const { error: e2 } = await supabaseAdmin
-            .rpc('increment_source_count', { p_place_id: o.id })
-
-          if (!e1 && !e2) {
-            deactivated++
-            if (examples.length < 20) {
-              examples.push(`sim=${sim.toFixed(2)} | babygo[${b.id}] "${b.name}" → deactivated, other[${o.id}] "${o.name}" → source_count++`)
-            }
-          }
-          break // one match per babygo place is enough
-        }
-      }
-    }
-  }
-
-  return { deactivated, examples }
-}
-
 async function main() {
   console.log('=== BabyGo Data Fix ===\n')
 
@@ -169,12 +88,6 @@ async function main() {
   console.log('Before:', catResult.before)
   console.log('After:', catResult.after)
 
-  // Step 2: Duplicate deactivation
-  console.log('\n--- Step 2: Cross-source Duplicate Deactivation ---')
-  const dupResult = await fixDuplicates()
-  console.log(`Deactivated: ${dupResult.deactivated} babygo duplicates`)
-  for (const ex of dupResult.examples) console.log(`  ${ex}`)
-
   console.log('\n=== Done ===')
 }
 
@@ -26,7 +26,7 @@ interface BorderlineMention {
   place_address: string | null
 }
 
-interface LLMClassification {
+export interface LLMClassification {
   /** 1-based index in batch */
   n: number
   /** 1 = relevant, 0 = irrelevant */
@@ -203,19 +203,33 @@ async function sampleBorderlineMentions(): Promise<BorderlineMention[]> {
 
 async function classifyMentionsWithLLM(
   samples: BorderlineMention[]
+): Promise<LLMClassification[]> {
+  return classifyInBatches(samples, classifyBatch, 'mentions')
+}
+
+/**
+ * Run a Gemini classifier over items in BATCH_SIZE batches, CONCURRENCY at a
+ * time. classify receives each batch with its offset and returns results with
+ * global 1-based n. Failed batches are logged and skipped.
+ * Shared with review moderation (server/utils/review-moderation.ts).
+ */
+export async function classifyInBatches<T>(
+  items: T[],
+  classify: (batch: T[], globalOffset: number) => Promise<LLMClassification[]>,
+  label: string
 ): Promise<LLMClassification[]> {
   if (!process.env.GEMINI_API_KEY) {
     console.warn('[blog-noise-filter] No GEMINI_API_KEY, skipping LLM classification')
     return []
   }
 
-  const batches: BorderlineMention[][] = []
-  for (let i = 0; i < samples.length; i += BATCH_SIZE) {
-    batches.push(samples.slice(i, i + BATCH_SIZE))
+  const batches: T[][] = []
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    batches.push(items.slice(i, i + BATCH_SIZE))
   }
 
   console.log(
-    `[blog-noise-filter] Gemini classification: ${samples.length} mentions in ${batches.length} batches (concurrency=${CONCURRENCY})`
+    `[blog-noise-filter] Gemini classification: ${items.length} ${label} in ${batches.length} batches (concurrency=${CONCURRENCY})`
   )
 
   const allClassifications: LLMClassification[] = []
@@ -228,7 +242,7 @@ async function classifyMentionsWithLLM(
     const chunk = batches.slice(i, i + CONCURRENCY)
     const promises = chunk.map((batch, chunkIdx) => {
       const globalOffset = (i + chunkIdx) * BATCH_SIZE
-      return classifyBatch(batch, globalOffset)
+      return classify(batch, globalOffset)
     })
 
     const results = await Promise.allSettled(promises)
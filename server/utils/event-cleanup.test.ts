@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const db = vi.hoisted(() => ({
+  expired: [] as number[],
+  visited: new Set<string>(),
+  listed: new Set<string>(),
+  deleted: [] as number[][],
+}))
+
+vi.mock('../lib/supabase-admin', () => ({
+  supabaseAdmin: {
+    from: () => ({
+      select: () => ({
+        lt: () => ({
+          order: () => ({
+            range: async (from: number, to: number) => ({
+              data: db.expired.slice(from, to + 1).map((id) => ({ id })),
+              error: null,
+            }),
+          }),
+        }),
+      }),
+      delete: () => ({
+        in: (_column: string, ids: number[]) => ({
+          select: async () => {
+            db.deleted.push(ids)
+            return { data: ids.map((id) => ({ id })), error: null }
+          },
+        }),
+      }),
+    }),
+  },
+}))
+vi.mock('../lib/prefetch', () => ({
+  prefetchIds: async ({ table }: { table: string }) => (table === 'visits' ? db.visited : db.listed),
+}))
+vi.mock('../lib/collection-log', () => ({ logCollection: async () => {} }))
+
+import { runEventCleanup } from './event-cleanup'
+
+describe('runEventCleanup', () => {
+  beforeEach(() => {
+    db.deleted = []
+    db.listed = new Set()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('keeps expired events that a diary entry points at', async () => {
+    db.expired = [1, 2, 3, 4]
+    db.visited = new Set(['2', '4', '9'])
+
+    const result = await runEventCleanup()
+
+    expect(db.deleted.flat()).toEqual([1, 3])
+    expect(result).toEqual({ deleted: 2, kept: 2, errors: 0 })
+  })
+
+  it('keeps expired events saved in a collection', async () => {
+    db.expired = [1, 2, 3]
+    db.visited = new Set(['1'])
+    db.listed = new Set(['3'])
+
+    const result = await runEventCleanup()
+
+    expect(db.deleted.flat()).toEqual([2])
+    expect(result).toEqual({ deleted: 1, kept: 2, errors: 0 })
+  })
+
+  it('deletes nothing when every expired event has a visit', async () => {
+    db.expired = [5]
+    db.visited = new Set(['5'])
+
+    const result = await runEventCleanup()
+
+    expect(db.deleted).toEqual([])
+    expect(result).toEqual({ deleted: 0, kept: 1, errors: 0 })
+  })
+})
@@ -4,19 +4,30 @@
  * Pattern: auto-deactivate.ts (places use is_active flag; events use end_date as lifecycle).
  * 7-day grace: recently ended events remain searchable briefly.
  *
+ * Events a diary entry points at (visits.event_id) are kept: the diary is a
+ * permanent record and shows the event's name, date and venue
+ * (visits.event_id is ON DELETE RESTRICT, migration 00092). Events saved in
+ * a collection are kept too, so the list and its shared link still show them
+ * (as ended) until the family removes them.
+ *
  * Runs at the start of runEventsJob() (clean before collecting new).
  */
 
 import { supabaseAdmin } from '../lib/supabase-admin'
 import { logCollection } from '../lib/collection-log'
+import { prefetchIds } from '../lib/prefetch'
 
 export interface EventCleanupResult {
   deleted: number
+  kept: number
   errors: number
 }
 
+const PAGE = 1000
+const DELETE_BATCH = 200
+
 export async function runEventCleanup(): Promise<EventCleanupResult> {
-  const result: EventCleanupResult = { deleted: 0, errors: 0 }
+  const result: EventCleanupResult = { deleted: 0, kept: 0, errors: 0 }
   const startedAt = Date.now()
 
   try {
@@ -24,17 +35,43 @@ export async function runEventCleanup(): Promise<EventCleanupResult> {
     cutoff.setDate(cutoff.getDate() - 7)
     const cutoffDate = cutoff.toISOString().split('T')[0]
 
-    const { data, error } = await supabaseAdmin
-      .from('events')
-      .delete()
-      .lt('end_date', cutoffDate)
-      .select('id')
-
-    if (error) {
-      console.error('[event-cleanup] Delete error:', error.message)
-      result.errors++
-    } else {
-      result.deleted = data?.length ?? 0
+    const expired: number[] = []
+    let offset = 0
+    while (true) {
+      const { data, error } = await supabaseAdmin
+        .from('events')
+        .select('id')
+        .lt('end_date', cutoffDate)
+        .order('id')
+        .range(offset, offset + PAGE - 1)
+      if (error) throw new Error(`Failed to fetch expired events: ${error.message}`)
+      if (!data || data.length === 0) break
+      expired.push(...data.map((e: { id: number }) => e.id))
+      if (data.length < PAGE) break
+      offset += PAGE
+    }
+
+    const [visited, listed] = await Promise.all(
+      ['visits', 'collection_items'].map((table) =>
+        prefetchIds({ table, column: 'event_id', filters: [{ op: 'not_null', column: 'event_id' }] })
+      )
+    )
+    const deletable = expired.filter((id) => !visited.has(String(id)) && !listed.has(String(id)))
+    result.kept = expired.length - deletable.length
+
+    for (let i = 0; i < deletable.length; i += DELETE_BATCH) {
+      const { data, error } = await supabaseAdmin
+        .from('events')
+        .delete()
+        .in('id', deletable.slice(i, i + DELETE_BATCH))
+        .select('id')
+
+      if (error) {
+        console.error('[event-cleanup] Delete error:', error.message)
+        result.errors++
+      } else {
+        result.deleted += data?.length ?? 0
+      }
     }
 
     await logCollection({
@@ -48,6 +85,6 @@ export async function runEventCleanup(): Promise<EventCleanupResult> {
     result.errors++
   }
 
-  console.log(`[event-cleanup] Done: deleted=${result.deleted}, errors=${result.errors}`)
+  console.log(`[event-cleanup] Done: deleted=${result.deleted}, kept=${result.kept}, errors=${result.errors}`)
   return result
 }
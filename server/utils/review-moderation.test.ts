@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../lib/supabase-admin', () => ({ supabaseAdmin: {} }))
+vi.mock('../lib/gemini', () => ({ classifyWithGemini: vi.fn() }))
+
+import { toVerdicts } from './review-moderation'
+
+describe('toVerdicts', () => {
+  const reviews = [{ id: 10 }, { id: 11 }, { id: 12 }, { id: 13 }]
+
+  it('maps classifier rows to review ids and reasons', () => {
+    const verdicts = toVerdicts(reviews, [
+      { n: 1, r: 1, t: null },
+      { n: 2, r: 0, t: 'spam' },
+      { n: 3, r: 0, t: 'abuse' },
+    ])
+    expect([...verdicts]).toEqual([
+      [10, 'ok'],
+      [11, 'spam'],
+      [12, 'abuse'],
+    ])
+  })
+
+  it('treats unknown removal reasons as spam and leaves skipped reviews queued', () => {
+    const verdicts = toVerdicts(reviews, [
+      { n: 4, r: 0, t: '광고' },
+      { n: 9, r: 1, t: null },
+    ])
+    expect(verdicts.get(13)).toBe('spam')
+    expect(verdicts.has(10)).toBe(false)
+    expect(verdicts.size).toBe(1)
+  })
+})
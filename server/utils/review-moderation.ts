@@ -0,0 +1,191 @@
+/**
+ * Review moderation — Gemini spam/abuse check for new and edited reviews.
+ *
+ * Reviews are published immediately; this step picks up every review with
+ * moderated_at IS NULL (new, or text/photos edited since the last check),
+ * classifies the text with the blog-noise-filter batch classifier and removes
+ * spam (ads, links, unrelated promotion) and abuse (insults, personal
+ * attacks, personal data). Rating-only reviews pass without an LLM call.
+ * A removed review that is edited is checked again and can be republished.
+ *
+ * Without GEMINI_API_KEY the queue is left as is for the next run.
+ */
+
+import { classifyWithGemini } from '../lib/gemini'
+import { supabaseAdmin } from '../lib/supabase-admin'
+import { logCollection } from '../lib/collection-log'
+import { classifyInBatches, type LLMClassification } from './blog-noise-filter'
+
+export interface ReviewModerationResult {
+  checked: number
+  published: number
+  removed: number
+  errors: number
+}
+
+interface PendingReview {
+  id: number
+  rating: number
+  body: string
+  place_name: string
+  place_category: string
+}
+
+export type ModerationVerdict = 'ok' | 'spam' | 'abuse'
+
+/** Reviews moderated per run (oldest first) */
+const QUEUE_LIMIT = 500
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+export async function runReviewModeration(): Promise<ReviewModerationResult> {
+  const result: ReviewModerationResult = { checked: 0, published: 0, removed: 0, errors: 0 }
+  const startedAt = Date.now()
+
+  try {
+    const queue = await fetchUnmoderatedReviews()
+    if (queue.length === 0) {
+      console.log('[review-moderation] No reviews to moderate')
+      return result
+    }
+
+    const withText = queue.filter((r) => r.body.trim().length > 0)
+    const verdicts = new Map<number, ModerationVerdict>()
+    for (const review of queue) {
+      if (review.body.trim().length === 0) verdicts.set(review.id, 'ok')
+    }
+
+    if (withText.length > 0) {
+      if (!process.env.GEMINI_API_KEY) {
+        console.warn('[review-moderation] No GEMINI_API_KEY, leaving text reviews for the next run')
+      } else {
+        const classifications = await classifyInBatches(withText, classifyReviewBatch, 'reviews')
+        for (const [id, verdict] of toVerdicts(withText, classifications)) verdicts.set(id, verdict)
+      }
+    }
+
+    const now = new Date().toISOString()
+    for (const [id, verdict] of verdicts) {
+      const { error } = await supabaseAdmin
+        .from('reviews')
+        .update({
+          status: verdict === 'ok' ? 'published' : 'removed',
+          moderation_reason: verdict === 'ok' ? null : verdict,
+          moderated_at: now,
+        })
+        .eq('id', id)
+        .is('moderated_at', null) // skip reviews edited again meanwhile
+      if (error) {
+        console.error(`[review-moderation] Update error for review ${id}:`, error.message)
+        result.errors++
+        continue
+      }
+      result.checked++
+      if (verdict === 'ok') result.published++
+      else result.removed++
+    }
+
+    await logCollection({
+      collector: 'review-moderation',
+      startedAt,
+      resultsCount: result.checked,
+      errors: result.errors,
+    })
+  } catch (err) {
+    console.error('[review-moderation] Fatal error:', err)
+    result.errors++
+    await logCollection({
+      collector: 'review-moderation',
+      startedAt,
+      resultsCount: result.checked,
+      errors: result.errors,
+      error: String(err),
+    })
+  }
+
+  console.log(
+    `[review-moderation] Done: checked=${result.checked}, published=${result.published}, removed=${result.removed}, errors=${result.errors}`
+  )
+  return result
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+async function fetchUnmoderatedReviews(): Promise<PendingReview[]> {
+  const { data, error } = await supabaseAdmin
+    .from('reviews')
+    .select('id, rating, body, places!inner(name, category)')
+    .is('moderated_at', null)
+    .order('id', { ascending: true })
+    .limit(QUEUE_LIMIT)
+
+  if (error) throw new Error(`Failed to fetch reviews: ${error.message}`)
+
+  return (data ?? []).map((row: Record<string, unknown>) => {
+    const place = row.places as { name: string; category: string }
+    return {
+      id: row.id as number,
+      rating: row.rating as number,
+      body: row.body as string,
+      place_name: place.name,
+      place_category: place.category,
+    }
+  })
+}
+
+/**
+ * Map classifier output (n = 1-based index, r = 1 keep / 0 remove,
+ * t = 'spam' | 'abuse') to verdicts. Reviews the model skipped get no verdict
+ * and stay in the queue.
+ */
+export function toVerdicts(
+  reviews: { id: number }[],
+  classifications: LLMClassification[]
+): Map<number, ModerationVerdict> {
+  const verdicts = new Map<number, ModerationVerdict>()
+  for (const c of classifications) {
+    const review = reviews[c.n - 1]
+    if (!review) continue
+    verdicts.set(review.id, c.r === 1 ? 'ok' : c.t === 'abuse' ? 'abuse' : 'spam')
+  }
+  return verdicts
+}
+
+async function classifyReviewBatch(
+  batch: PendingReview[],
+  globalOffset: number
+): Promise<LLMClassification[]> {
+  const items = batch.map((r, i) => ({
+    n: i + 1,
+    장소명: r.place_name,
+    카테고리: r.place_category,
+    별점: r.rating,
+    내용: r.body.slice(0, 500),
+  }))
+
+  const prompt = `당신은 아기/유아와 함께 가는 장소에 대한 사용자 리뷰를 검수합니다.
+
+각 항목은 특정 장소에 대한 리뷰(별점 1~5, 내용)입니다.
+정상 리뷰는 유지, 스팸이나 악성 리뷰는 삭제로 판정하세요.
+
+유지: 방문 후기, 시설 불만이나 낮은 별점(정당한 비판), 짧은 감상
+spam: 광고/홍보, 외부 링크·연락처 유도, 장소와 무관한 내용, 의미 없는 반복 글자
+abuse: 욕설, 특정인 비방·인신공격, 혐오 표현, 타인의 개인정보(전화번호, 실명 등) 노출
+
+JSON으로 응답: [{"n":1,"r":1,"t":null},{"n":2,"r":0,"t":"spam"}]
+n=번호, r=유지(1)/삭제(0), t=삭제 사유("spam" 또는 "abuse", 유지면 null)
+
+${JSON.stringify(items, null, 0)}`
+
+  try {
+    const text = await classifyWithGemini(prompt)
+    const match = text.match(/\[[\s\S]*\]/)
+    if (!match) return []
+
+    const parsed: LLMClassification[] = JSON.parse(match[0])
+    return parsed.map((c) => ({ ...c, n: globalOffset + c.n }))
+  } catch (err) {
+    console.error('[review-moderation] Gemini batch error:', err)
+    return []
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Pipeline job queue worker.
+ *
+ * Claims jobs enqueued by POST /api/admin/pipeline (pipeline_jobs table),
+ * runs them through the same step graph as server/run.ts, reports progress
+ * via lease heartbeats and records the final status.
+ *
+ * Usage:
+ *   npx tsx server/worker.ts --once         drain the queue, then exit (GitHub Actions poller)
+ *   npx tsx server/worker.ts                poll forever (local worker)
+ *   npx tsx server/worker.ts --poll=15      idle poll interval in seconds (default 30)
+ *
+ * Cancellation: admins set cancel_requested; the heartbeat picks it up and the
+ * runner skips every step that hasn't started yet. The step in flight finishes.
+ */
+
+import { hostname } from 'os'
+import { validateGraph } from './pipeline/graph'
+import { PIPELINE_STEPS } from './pipeline/steps'
+import { parseJobSpec, resolveSelection, executeSelection, validateEnv } from './pipeline/execute'
+import { runStatus } from './pipeline/ledger'
+import { claimJob, heartbeat, finishJob, type JobProgress, type PipelineJobRow } from './pipeline/queue'
+
+const LEASE_SECONDS = 300
+const HEARTBEAT_INTERVAL_MS = 60_000
+const DEFAULT_POLL_SECONDS = 30
+
+const WORKER_ID = `${hostname()}-${process.pid}`
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2)
+  const once = args.includes('--once')
+  const pollArg = args.find((a) => a.startsWith('--poll='))
+  const pollSeconds = pollArg ? Math.max(5, parseInt(pollArg.split('=')[1], 10) || DEFAULT_POLL_SECONDS) : DEFAULT_POLL_SECONDS
+
+  validateEnv()
+  validateGraph(PIPELINE_STEPS)
+
+  console.log(`[worker] ${WORKER_ID} started (${once ? 'drain once' : `poll every ${pollSeconds}s`})`)
+
+  let processed = 0
+  while (true) {
+    const job = await claimJob(WORKER_ID, LEASE_SECONDS)
+
+    if (!job) {
+      if (once) break
+      await sleep(pollSeconds * 1000)
+      continue
+    }
+
+    await processJob(job)
+    processed++
+  }
+
+  console.log(`[worker] Queue empty — processed ${processed} job(s)`)
+  process.exit(0)
+}
+
+// ─── Job processing ───────────────────────────────────────────────────────────
+
+async function processJob(job: PipelineJobRow): Promise<void> {
+  console.log(`[worker] Claimed job ${job.id}: "${job.job}" (attempt ${job.attempts}/${job.max_attempts})`)
+
+  let selection
+  try {
+    selection = resolveSelection(parseJobSpec(job.job), job.params ?? {})
+  } catch (err) {
+    await finishJob(job.id, WORKER_ID, 'error', (err as Error).message)
+    return
+  }
+  if (!selection) {
+    await finishJob(job.id, WORKER_ID, 'error', `Unknown job: "${job.job}"`)
+    return
+  }
+
+  const progress: JobProgress = { current: null, completed: 0, total: selection.steps.length }
+  let stopRequested = false
+
+  const beat = async () => {
+    const state = await heartbeat(job.id, WORKER_ID, LEASE_SECONDS, progress)
+    if (state === 'cancel') {
+      if (!stopRequested) console.warn(`[worker] Job ${job.id} cancellation requested`)
+      stopRequested = true
+    } else if (state === 'lost') {
+      if (!stopRequested) console.warn(`[worker] Job ${job.id} lease lost — stopping`)
+      stopRequested = true
+    }
+  }
+
+  const timer = setInterval(() => {
+    beat().catch((err) => console.error('[worker] heartbeat error:', err))
+  }, HEARTBEAT_INTERVAL_MS)
+
+  try {
+    const { result } = await executeSelection(selection, {
+      jobId: job.id,
+      hooks: {
+        onStepStart: async (name) => {
+          progress.current = name
+          await beat()
+        },
+        onStepEnd: async () => {
+          progress.completed++
+          progress.current = null
+        },
+        shouldStop: () => stopRequested,
+      },
+    })
+
+    const status = runStatus(result)
+    const failedSteps = result.steps.filter((s) => s.status === 'failed').map((s) => s.name)
+    await finishJob(
+      job.id,
+      WORKER_ID,
+      status,
+      failedSteps.length > 0 ? `Failed steps: ${failedSteps.join(', ')}` : undefined
+    )
+    console.log(`[worker] Job ${job.id} finished: ${status}`)
+  } catch (err) {
+    console.error(`[worker] Job ${job.id} fatal error:`, err)
+    await finishJob(job.id, WORKER_ID, 'error', err instanceof Error ? err.message : String(err))
+  } finally {
+    clearInterval(timer)
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+main().catch((err) => {
+  console.error('[worker] Fatal error:', err)
+  process.exit(1)
+})
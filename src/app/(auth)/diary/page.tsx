@@ -1,13 +1,27 @@
 'use client'
 
-import { useCallback, useRef, useEffect } from 'react'
+import { useCallback, useRef, useEffect, useState } from 'react'
 import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import type { InfiniteData } from '@tanstack/react-query'
 import { BookOpen } from 'lucide-react'
 import type { VisitWithPlace } from '@/types'
 import VisitCard from '@/components/diary/VisitCard'
+import VisitSheet from '@/components/diary/VisitSheet'
+import VisitCalendar from '@/components/diary/VisitCalendar'
+import VisitMap from '@/components/diary/VisitMap'
+import VisitStatsPanel from '@/components/diary/VisitStatsPanel'
+import { useChildren } from '@/hooks/useChildren'
 import BottomNav from '@/components/BottomNav'
 
+type DiaryView = 'timeline' | 'calendar' | 'map' | 'stats'
+
+const VIEW_TABS: { value: DiaryView; label: string }[] = [
+  { value: 'timeline', label: '타임라인' },
+  { value: 'calendar', label: '캘린더' },
+  { value: 'map', label: '지도' },
+  { value: 'stats', label: '통계' },
+]
+
 interface VisitsPageResponse {
   visits: VisitWithPlace[]
   nextCursor: number | null
@@ -104,6 +118,10 @@ function formatMonthLabel(ym: string): string {
 export default function DiaryPage() {
   const queryClient = useQueryClient()
   const observerTargetRef = useRef<HTMLDivElement>(null)
+  const childList = useChildren()
+  const [view, setView] = useState<DiaryView>('timeline')
+  const [year, setYear] = useState(() => new Date().getFullYear())
+  const [editing, setEditing] = useState<VisitWithPlace | null>(null)
 
   const {
     data,
@@ -155,8 +173,7 @@ export default function DiaryPage() {
     return () => observer.disconnect()
   }, [observerCallback])
 
-  const allVisits =
-    data?.pages.flatMap((page) => page.visits.filter((v) => v.places)) ?? []
+  const allVisits = data?.pages.flatMap((page) => page.visits) ?? []
   const monthGroups = groupByMonth(allVisits)
 
   return (
@@ -171,17 +188,46 @@ export default function DiaryPage() {
             </p>
           )}
         </div>
+
+        {/* View tabs */}
+        <div className="flex px-4" role="tablist">
+          {VIEW_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              role="tab"
+              aria-selected={view === tab.value}
+              onClick={() => setView(tab.value)}
+              className={`flex-1 py-2.5 text-[14px] font-medium border-b-2 ${
+                view === tab.value ? 'border-coral-500 text-coral-500' : 'border-transparent text-warm-400'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
       </div>
 
       {/* Content */}
       <div className="flex-1 overflow-y-auto">
-        {isLoading && <LoadingSkeleton />}
+        {view === 'calendar' && (
+          <VisitCalendar
+            childList={childList}
+            onEdit={setEditing}
+            onDelete={(id) => deleteMutation.mutate(id)}
+          />
+        )}
 
-        {error && !isLoading && <ErrorState onRetry={() => refetch()} />}
+        {view === 'map' && <VisitMap year={year} />}
 
-        {!isLoading && !error && allVisits.length === 0 && <EmptyState />}
+        {view === 'stats' && <VisitStatsPanel year={year} onYearChange={setYear} />}
 
-        {!isLoading && !error && allVisits.length > 0 && (
+        {view === 'timeline' && isLoading && <LoadingSkeleton />}
+
+        {view === 'timeline' && error && !isLoading && <ErrorState onRetry={() => refetch()} />}
+
+        {view === 'timeline' && !isLoading && !error && allVisits.length === 0 && <EmptyState />}
+
+        {view === 'timeline' && !isLoading && !error && allVisits.length > 0 && (
           <div className="px-4 py-4 space-y-6">
             {Array.from(monthGroups.entries()).map(([month, visits]) => (
               <div key={month}>
@@ -202,6 +248,8 @@ export default function DiaryPage() {
                     <VisitCard
                       key={visit.id}
                       visit={visit}
+                      childList={childList}
+                      onEdit={setEditing}
                       onDelete={(id) => deleteMutation.mutate(id)}
                     />
                   ))}
@@ -226,6 +274,15 @@ export default function DiaryPage() {
         )}
       </div>
 
+      {editing && (
+        <VisitSheet
+          open
+          onOpenChange={(open) => !open && setEditing(null)}
+          target={{ kind: 'edit', visit: editing }}
+          onSaved={() => queryClient.invalidateQueries({ queryKey: ['visits'] })}
+        />
+      )}
+
       <BottomNav />
     </div>
   )
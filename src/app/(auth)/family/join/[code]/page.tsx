@@ -0,0 +1,66 @@
+'use client'
+
+import { use } from 'react'
+import { useRouter } from 'next/navigation'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Users } from 'lucide-react'
+import BottomNav from '@/components/BottomNav'
+
+interface JoinFamilyPageProps {
+  params: Promise<{ code: string }>
+}
+
+const JOIN_ERRORS: Record<number, string> = {
+  400: '초대 링크가 올바르지 않아요.',
+  404: '만료되었거나 없는 초대 링크예요.',
+  409: '이미 다른 가족에 속해 있거나 가족 인원이 가득 찼어요.',
+}
+
+async function joinFamily(code: string): Promise<void> {
+  const res = await fetch('/api/family/join', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code }),
+  })
+  if (!res.ok) throw new Error(JOIN_ERRORS[res.status] ?? '가족에 참여하지 못했습니다.')
+}
+
+/** Invite link landing: confirm joining the family, then go to the shared diary */
+export default function JoinFamilyPage({ params }: JoinFamilyPageProps) {
+  const { code } = use(params)
+  const router = useRouter()
+  const queryClient = useQueryClient()
+
+  const joinMutation = useMutation({
+    mutationFn: () => joinFamily(code),
+    onSuccess: () => {
+      for (const key of ['family', 'favorites', 'visits', 'children']) {
+        queryClient.invalidateQueries({ queryKey: [key] })
+      }
+      router.push('/diary')
+    },
+  })
+
+  return (
+    <div className="bg-warm-50 min-h-dvh flex flex-col pb-[56px]">
+      <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
+        <Users size={56} className="text-coral-300 mb-4" />
+        <h1 className="text-[21px] font-bold text-warm-700 mb-2">가족 초대</h1>
+        <p className="text-[15px] text-warm-400 mb-6">
+          가족이 되면 즐겨찾기, 숨긴 장소, 방문 다이어리를 함께 보고 편집할 수 있어요.
+        </p>
+        <button
+          onClick={() => joinMutation.mutate()}
+          disabled={joinMutation.isPending}
+          className="px-6 py-3 bg-coral-500 text-white rounded-xl font-semibold text-[15px] min-h-[48px] shadow-md active:bg-coral-600 disabled:opacity-50"
+        >
+          가족 참여하기
+        </button>
+        {joinMutation.error && (
+          <p className="text-[14px] text-red-500 mt-4">{joinMutation.error.message}</p>
+        )}
+      </div>
+      <BottomNav />
+    </div>
+  )
+}
@@ -1,11 +1,12 @@
 'use client'
 
-import { useCallback, useRef } from 'react'
-import { useInfiniteQuery } from '@tanstack/react-query'
+import { useCallback, useRef, useState } from 'react'
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import type { InfiniteData } from '@tanstack/react-query'
-import { MapPin, Heart } from 'lucide-react'
-import type { Place } from '@/types'
+import { MapPin, Heart, Plus } from 'lucide-react'
+import type { CollectionsResponse, Place } from '@/types'
 import PlaceCard from '@/components/place/PlaceCard'
+import CollectionView from '@/components/collections/CollectionView'
 import BottomNav from '@/components/BottomNav'
 
 interface FavoritesResponse {
@@ -16,6 +17,8 @@ interface FavoritesResponse {
     event_id: number | null
     created_at: string
     places: Place | null
+    /** Family member who added it; null when it was the viewer */
+    added_by: string | null
   }>
   nextCursor: number | null
 }
@@ -35,6 +38,12 @@ async function fetchFavorites(
   return res.json()
 }
 
+async function fetchCollections(): Promise<CollectionsResponse> {
+  const res = await fetch('/api/collections')
+  if (!res.ok) throw new Error('리스트를 불러오지 못했습니다.')
+  return res.json()
+}
+
 function LoadingSkeleton() {
   return (
     <div className="space-y-3 px-4 py-4">
@@ -103,6 +112,38 @@ function ErrorState({ onRetry }: { onRetry: () => void }) {
 export default function FavoritesPage() {
   const sortRef = useRef<'distance' | 'created_at'>('created_at')
   const observerTargetRef = useRef<HTMLDivElement>(null)
+  const queryClient = useQueryClient()
+  /** null = all favorites, otherwise a collection id */
+  const [selectedCollection, setSelectedCollection] = useState<number | null>(null)
+
+  const { data: collectionsData } = useQuery({
+    queryKey: ['collections'],
+    queryFn: fetchCollections,
+    staleTime: 60_000,
+  })
+  const collections = collectionsData?.collections ?? []
+
+  const createCollection = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await fetch('/api/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      })
+      if (!res.ok) throw new Error('리스트를 만들지 못했습니다.')
+      const { collection } = await res.json()
+      return collection.id as number
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({ queryKey: ['collections'] })
+      setSelectedCollection(id)
+    },
+  })
+
+  const handleNewCollection = () => {
+    const name = prompt('새 리스트 이름 (예: 비 오는 날, 할머니댁 근처)')?.trim()
+    if (name) createCollection.mutate(name)
+  }
 
   const {
     data,
@@ -167,36 +208,83 @@ export default function FavoritesPage() {
         <div className="px-4 py-4">
           <h1 className="text-[28px] font-bold text-warm-700 mb-4">찜한 장소</h1>
 
-          {/* Sort buttons */}
+          {/* Collections */}
           <div className="flex gap-2 overflow-x-auto -mx-4 px-4 pb-2">
             <button
-              onClick={() => handleSortChange('created_at')}
+              onClick={() => setSelectedCollection(null)}
               className={`
                 shrink-0 px-4 py-2 rounded-full font-medium text-[14px]
-                transition-all duration-150 min-h-[36px]
-                ${sortRef.current === 'created_at'
-                  ? 'bg-coral-500 text-white shadow-sm'
+                transition-all duration-150 min-h-[36px] flex items-center gap-1
+                ${selectedCollection === null
+                  ? 'bg-warm-700 text-white shadow-sm'
                   : 'bg-warm-100 text-warm-600 active:bg-warm-200'
                 }
               `}
             >
-              최신순
+              <Heart size={14} />
+              전체
             </button>
+            {collections.map((collection) => (
+              <button
+                key={collection.id}
+                onClick={() => setSelectedCollection(collection.id)}
+                className={`
+                  shrink-0 px-4 py-2 rounded-full font-medium text-[14px]
+                  transition-all duration-150 min-h-[36px]
+                  ${selectedCollection === collection.id
+                    ? 'bg-warm-700 text-white shadow-sm'
+                    : 'bg-warm-100 text-warm-600 active:bg-warm-200'
+                  }
+                `}
+              >
+                {collection.name}
+                <span className="opacity-60"> {collection.item_count}</span>
+              </button>
+            ))}
             <button
-              onClick={() => handleSortChange('distance')}
-              className={`
-                shrink-0 px-4 py-2 rounded-full font-medium text-[14px]
-                transition-all duration-150 min-h-[36px] flex items-center gap-1
-                ${sortRef.current === 'distance'
-                  ? 'bg-coral-500 text-white shadow-sm'
-                  : 'bg-warm-100 text-warm-600 active:bg-warm-200'
-                }
-              `}
+              onClick={handleNewCollection}
+              disabled={createCollection.isPending}
+              className="shrink-0 px-3 py-2 rounded-full font-medium text-[14px] min-h-[36px] flex items-center gap-1 border border-dashed border-warm-300 text-warm-500 disabled:opacity-50"
             >
-              <MapPin size={14} />
-              거리순
+              <Plus size={14} />
+              새 리스트
             </button>
           </div>
+
+          {selectedCollection === null && (
+            <>
+              {/* Sort buttons */}
+              <div className="flex gap-2 overflow-x-auto -mx-4 px-4 pb-2">
+                <button
+                  onClick={() => handleSortChange('created_at')}
+                  className={`
+                    shrink-0 px-4 py-2 rounded-full font-medium text-[14px]
+                    transition-all duration-150 min-h-[36px]
+                    ${sortRef.current === 'created_at'
+                      ? 'bg-coral-500 text-white shadow-sm'
+                      : 'bg-warm-100 text-warm-600 active:bg-warm-200'
+                    }
+                  `}
+                >
+                  최신순
+                </button>
+                <button
+                  onClick={() => handleSortChange('distance')}
+                  className={`
+                    shrink-0 px-4 py-2 rounded-full font-medium text-[14px]
+                    transition-all duration-150 min-h-[36px] flex items-center gap-1
+                    ${sortRef.current === 'distance'
+                      ? 'bg-coral-500 text-white shadow-sm'
+                      : 'bg-warm-100 text-warm-600 active:bg-warm-200'
+                    }
+                  `}
+                >
+                  <MapPin size={14} />
+                  거리순
+                </button>
+              </div>
+            </>
+          )}
         </div>
       </div>
 
@@ -217,6 +305,11 @@ export default function FavoritesPage() {
                 className="block transition-transform active:scale-[0.98]"
               >
                 <PlaceCard place={favorite.places!} />
+                {favorite.added_by && (
+                  <p className="text-[12px] text-warm-400 mt-1 px-1">
+                    {favorite.added_by}님이 저장
+                  </p>
+                )}
               </a>
             ))}
 
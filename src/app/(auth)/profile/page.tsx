@@ -8,6 +8,10 @@ import Link from 'next/link'
 import { createClient } from '@supabase/supabase-js'
 import type { Profile } from '@/types'
 import BottomNav from '@/components/BottomNav'
+import ChildrenEditor from '@/components/ChildrenEditor'
+import FamilyEditor from '@/components/FamilyEditor'
+import SavedPlansList from '@/components/plan/SavedPlansList'
+import { SW_MESSAGE, postToServiceWorker } from '@/lib/service-worker'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -116,6 +120,7 @@ export default function ProfilePage() {
   }, [])
 
   const handleLogout = async () => {
+    await postToServiceWorker(SW_MESSAGE.CLEAR_USER_DATA)
     await supabase.auth.signOut()
     router.push('/login')
   }
@@ -269,6 +274,15 @@ export default function ProfilePage() {
           )}
         </div>
 
+        {/* Children */}
+        <ChildrenEditor />
+
+        {/* Family sharing */}
+        <FamilyEditor />
+
+        {/* Saved day plans */}
+        <SavedPlansList />
+
         {/* Email info */}
         <div className="bg-white rounded-xl p-4 mb-4">
           <label className="text-[15px] font-semibold text-warm-700 block mb-3">
@@ -0,0 +1,137 @@
+import type { Metadata } from 'next'
+import { headers } from 'next/headers'
+import { notFound } from 'next/navigation'
+import { cache } from 'react'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { collectionSummary, isShareToken } from '@/lib/collections'
+import type { CollectionItem } from '@/types'
+import PlaceCard from '@/components/place/PlaceCard'
+import EventCard from '@/components/event/EventCard'
+
+interface SharedCollectionPageProps {
+  params: Promise<{ token: string }>
+}
+
+/** places.is_hidden / events.is_hidden (admin hide) are not on the shared types */
+type AdminHideable = { is_hidden?: boolean }
+
+interface SharedCollection {
+  name: string
+  note: string | null
+  items: CollectionItem[]
+}
+
+/**
+ * Read-only copy of a shared collection. Loaded with the service role by
+ * share token; hidden / deactivated places and events are left out.
+ * Cached per request so generateMetadata and the page share one query.
+ */
+const loadSharedCollection = cache(async (token: string): Promise<SharedCollection | null> => {
+  if (!isShareToken(token)) return null
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('collections')
+    .select('name, note, collection_items(*, places(*), events(*))')
+    .eq('share_token', token)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[collections/[token]] Supabase error:', error)
+    return null
+  }
+  if (!data) return null
+
+  const items = ((data.collection_items ?? []) as CollectionItem[])
+    .filter((item) => {
+      if (item.places) return item.places.is_active && !(item.places as AdminHideable).is_hidden
+      return !!item.events && !item.events.auto_hidden && !(item.events as AdminHideable).is_hidden
+    })
+    .sort((a, b) => a.position - b.position || a.id - b.id)
+
+  return { name: data.name, note: data.note, items }
+})
+
+export async function generateMetadata({ params }: SharedCollectionPageProps): Promise<Metadata> {
+  const { token } = await params
+  const collection = await loadSharedCollection(token)
+  if (!collection) return { title: 'BabyPlace' }
+
+  const headerList = await headers()
+  const host = headerList.get('x-forwarded-host') ?? headerList.get('host') ?? 'localhost:3000'
+  const protocol = headerList.get('x-forwarded-proto') ?? 'https'
+  const origin = `${protocol}://${host}`
+
+  const title = `${collection.name} - BabyPlace`
+  const description = collection.note
+    ? `${collection.note} · ${collectionSummary(summaryItems(collection.items))}`
+    : collectionSummary(summaryItems(collection.items))
+  const poster = collection.items.find((i) => i.events?.poster_url && !i.events.poster_hidden)?.events?.poster_url
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      url: `${origin}/collections/${token}`,
+      siteName: 'BabyPlace',
+      type: 'website',
+      images: [poster ?? `${origin}/icons/icon-512.png`],
+    },
+  }
+}
+
+function summaryItems(items: CollectionItem[]): { name: string; kind: 'place' | 'event' }[] {
+  return items.map((item) =>
+    item.places ? { name: item.places.name, kind: 'place' } : { name: item.events?.name ?? '', kind: 'event' }
+  )
+}
+
+export default async function SharedCollectionPage({ params }: SharedCollectionPageProps) {
+  const { token } = await params
+  const collection = await loadSharedCollection(token)
+  if (!collection) notFound()
+
+  return (
+    <div className="bg-warm-50 min-h-dvh">
+      <div className="bg-white border-b border-warm-200 px-4 py-5">
+        <p className="text-[13px] font-medium text-coral-500 mb-1">BabyPlace 리스트</p>
+        <h1 className="text-[24px] font-bold text-warm-700">{collection.name}</h1>
+        {collection.note && (
+          <p className="text-[15px] text-warm-500 mt-2 whitespace-pre-line">{collection.note}</p>
+        )}
+        <p className="text-[13px] text-warm-400 mt-2">{collectionSummary(summaryItems(collection.items))}</p>
+      </div>
+
+      <div className="px-4 py-4 space-y-3">
+        {collection.items.map((item) => (
+          <div key={item.id}>
+            {item.places ? (
+              <a href={`/place/${item.places.id}`} className="block">
+                <PlaceCard place={item.places} />
+              </a>
+            ) : (
+              item.events && (
+                <a href={`/event/${item.events.id}`} className="block">
+                  <EventCard event={item.events} />
+                </a>
+              )
+            )}
+            {item.note && (
+              <p className="text-[14px] text-warm-500 mt-1 px-1 whitespace-pre-line">💬 {item.note}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="px-4 pb-8 text-center">
+        <a
+          href="/"
+          className="inline-block px-6 py-3 bg-coral-500 text-white rounded-xl font-semibold text-[15px] min-h-[48px] shadow-md active:bg-coral-600"
+        >
+          BabyPlace에서 더 찾아보기
+        </a>
+      </div>
+    </div>
+  )
+}
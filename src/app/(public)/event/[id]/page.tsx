@@ -1,10 +1,13 @@
 'use client'
 
-import { use } from 'react'
+import { use, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
 import type { EventDetailResponse } from '@/types'
 import EventDetail from '@/components/event/EventDetail'
+import VisitSheet from '@/components/diary/VisitSheet'
+import CollectionPickerSheet from '@/components/collections/CollectionPickerSheet'
+import DayPlanSheet from '@/components/plan/DayPlanSheet'
 import BottomNav from '@/components/BottomNav'
 import { useAdmin } from '@/hooks/useAdmin'
 
@@ -97,6 +100,9 @@ export default function EventPage({ params }: EventPageProps) {
   const { id } = use(params)
   const router = useRouter()
   const queryClient = useQueryClient()
+  const [visitSheetOpen, setVisitSheetOpen] = useState(false)
+  const [collectionSheetOpen, setCollectionSheetOpen] = useState(false)
+  const [planSheetOpen, setPlanSheetOpen] = useState(false)
   const isAdmin = useAdmin()
 
   const { data, isLoading, error } = useQuery({
@@ -189,11 +195,15 @@ export default function EventPage({ params }: EventPageProps) {
       <EventDetail
         event={data.event}
         topPosts={data.topPosts}
+        sources={data.sources}
         isFavorited={data.isFavorited}
         isHidden={data.isHidden}
         isAdmin={isAdmin}
         onBack={handleBack}
         onShare={handleShare}
+        onVisitRecord={() => setVisitSheetOpen(true)}
+        onCollect={() => setCollectionSheetOpen(true)}
+        onPlanDay={data.event.lat !== null && data.event.lng !== null ? () => setPlanSheetOpen(true) : undefined}
         onHideToggle={handleHideToggle}
         onPosterHideToggle={isAdmin ? handlePosterHideToggle : undefined}
         onFavoriteToggle={async () => {
@@ -212,6 +222,30 @@ export default function EventPage({ params }: EventPageProps) {
           }
         }}
       />
+      <VisitSheet
+        open={visitSheetOpen}
+        onOpenChange={setVisitSheetOpen}
+        target={{ kind: 'event', eventId: data.event.id, name: data.event.name }}
+        onSaved={() => queryClient.invalidateQueries({ queryKey: ['visits'] })}
+      />
+      <CollectionPickerSheet
+        open={collectionSheetOpen}
+        onOpenChange={setCollectionSheetOpen}
+        target={{ kind: 'event', eventId: data.event.id }}
+      />
+      {data.event.lat !== null && data.event.lng !== null && (
+        <DayPlanSheet
+          open={planSheetOpen}
+          onOpenChange={setPlanSheetOpen}
+          anchor={{
+            kind: 'event',
+            id: data.event.id,
+            lat: data.event.lat,
+            lng: data.event.lng,
+            defaultDate: data.event.start_date?.slice(0, 10),
+          }}
+        />
+      )}
       <BottomNav />
     </div>
   )
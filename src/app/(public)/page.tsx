@@ -23,9 +23,14 @@ import CategoryChips from '@/components/CategoryChips'
 import FilterPanel from '@/components/FilterPanel'
 import EmergencyOverlay, { EmergencyFAB } from '@/components/EmergencyOverlay'
 import WeatherBadge from '@/components/WeatherBadge'
+import ChildAgeChips from '@/components/ChildAgeChips'
 import SearchBar from '@/components/SearchBar'
+import SearchResults from '@/components/SearchResults'
 import BottomNav from '@/components/BottomNav'
 import { useAdmin } from '@/hooks/useAdmin'
+import { useChildren } from '@/hooks/useChildren'
+import { ageInMonths } from '@/lib/age-range'
+import type { AmenityFilter } from '@/lib/amenities'
 
 // KakaoMap must be loaded client-side only (requires window.kakao)
 const KakaoMap = dynamic(() => import('@/components/map/KakaoMap'), { ssr: false })
@@ -41,7 +46,10 @@ interface MapBounds {
 interface FilterState {
   categories: PlaceCategory[]
   tags: FacilityTag[]
+  amenities: AmenityFilter[]
   sort: SortOption
+  openNow: boolean
+  freeOnly: boolean
 }
 
 type SnapPoint = number | string
@@ -86,6 +94,8 @@ async function fetchPlaces(
   userLng?: number,
   indoor?: boolean,
   query?: string,
+  childAgeMonths?: number,
+  outdoorScore?: number,
 ): Promise<PlacesResponse> {
   const params = new URLSearchParams({
     swLat: String(bounds.swLat),
@@ -97,10 +107,15 @@ async function fetchPlaces(
   })
   if (filters.categories.length > 0) params.set('category', filters.categories.join(','))
   if (filters.tags.length > 0) params.set('tags', filters.tags.join(','))
+  if (filters.amenities.length > 0) params.set('amenities', filters.amenities.join(','))
   if (userLat !== undefined) params.set('lat', String(userLat))
   if (userLng !== undefined) params.set('lng', String(userLng))
   if (indoor !== undefined) params.set('indoor', String(indoor))
   if (query) params.set('query', query)
+  if (childAgeMonths !== undefined) params.set('childAgeMonths', String(childAgeMonths))
+  if (outdoorScore !== undefined) params.set('outdoorScore', String(outdoorScore))
+  if (filters.openNow) params.set('openNow', 'true')
+  if (filters.freeOnly) params.set('free', 'true')
 
   const res = await fetch(`/api/places?${params}`)
   if (!res.ok) throw new Error('장소 데이터를 불러오지 못했습니다.')
@@ -119,8 +134,11 @@ async function fetchEmergency(lat: number, lng: number): Promise<EmergencyRespon
   return res.json()
 }
 
-async function fetchRunningEvents(): Promise<EventsResponse> {
-  const res = await fetch('/api/events?status=running&limit=100')
+async function fetchRunningEvents(childAgeMonths?: number, freeOnly?: boolean): Promise<EventsResponse> {
+  const params = new URLSearchParams({ status: 'running', limit: '100' })
+  if (childAgeMonths !== undefined) params.set('childAgeMonths', String(childAgeMonths))
+  if (freeOnly) params.set('free', 'true')
+  const res = await fetch(`/api/events?${params}`)
   if (!res.ok) throw new Error('이벤트를 불러오지 못했습니다.')
   return res.json()
 }
@@ -143,6 +161,8 @@ export default function HomePage() {
   const [mapCenter, setMapCenter] = useState<{ lat: number; lng: number } | null>(null)
   const [selectedPlace, setSelectedPlace] = useState<Place | null>(savedState?.selectedPlace ?? null)
   const [searchQuery, setSearchQuery] = useState('')
+  // Submitted text; shows mixed place / event results instead of the tabs
+  const [submittedQuery, setSubmittedQuery] = useState('')
   const [isFilterOpen, setIsFilterOpen] = useState(false)
   const [isEmergencyOpen, setIsEmergencyOpen] = useState(false)
   const [isIndoorFilter, setIsIndoorFilter] = useState(false)
@@ -151,11 +171,16 @@ export default function HomePage() {
   const [filters, setFilters] = useState<FilterState>({
     categories: savedState?.categories ?? [],
     tags: [],
+    amenities: [],
     sort: 'distance',
+    openNow: false,
+    freeOnly: false,
   })
   const [hiddenPlaceIds, setHiddenPlaceIds] = useState<Set<number>>(new Set())
   const [hiddenEventIds, setHiddenEventIds] = useState<Set<number>>(new Set())
   const [snapPoint, setSnapPoint] = useState<SnapPoint>(savedState?.snapPoint ?? DEFAULT_SNAP)
+  // undefined = not chosen yet → first registered child; null = age filter off
+  const [activeChildId, setActiveChildId] = useState<number | null | undefined>(undefined)
   const listScrollRef = useRef<HTMLDivElement>(null)
   const pointerDownRef = useRef<{ x: number; y: number } | null>(null)
   // Track current map center/zoom for saving
@@ -181,12 +206,30 @@ export default function HomePage() {
     router.push(path)
   }, [selectedPlace, snapPoint, filters.categories, router])
 
+  const children = useChildren()
+  const activeChild = activeChildId === undefined
+    ? children[0]
+    : children.find((c) => c.id === activeChildId)
+  const childAgeMonths = activeChild ? ageInMonths(activeChild.birth_month) ?? undefined : undefined
+
+  // Fetch weather
+  const { data: weatherData, isLoading: isWeatherLoading } = useQuery({
+    queryKey: ['weather', userLocation?.lat, userLocation?.lng],
+    queryFn: () =>
+      userLocation ? fetchWeather(userLocation.lat, userLocation.lng) : null,
+    enabled: !!userLocation,
+    staleTime: 5 * 60_000,
+    refetchInterval: 10 * 60_000,
+  })
+  // Tilts the list toward indoor / outdoor places without filtering
+  const outdoorScore = weatherData?.outdoorScore
+
   // Fetch places when map bounds change
   const {
     data: placesData,
     isLoading: isPlacesLoading,
   } = useQuery({
-    queryKey: ['places', mapBounds, filters, userLocation?.lat, userLocation?.lng, isIndoorFilter, searchQuery],
+    queryKey: ['places', mapBounds, filters, userLocation?.lat, userLocation?.lng, isIndoorFilter, searchQuery, childAgeMonths, outdoorScore],
     queryFn: () =>
       mapBounds
         ? fetchPlaces(
@@ -196,6 +239,8 @@ export default function HomePage() {
             userLocation?.lng,
             isIndoorFilter || undefined,
             searchQuery.trim() || undefined,
+            childAgeMonths,
+            outdoorScore,
           )
         : Promise.resolve({ places: [], nextCursor: null }),
     enabled: !!mapBounds,
@@ -204,21 +249,11 @@ export default function HomePage() {
 
   // Fetch running events
   const { data: eventsData, isLoading: isEventsLoading } = useQuery({
-    queryKey: ['running-events'],
-    queryFn: fetchRunningEvents,
+    queryKey: ['running-events', childAgeMonths, filters.freeOnly],
+    queryFn: () => fetchRunningEvents(childAgeMonths, filters.freeOnly),
     staleTime: 60 * 60_000, // 1 hour
   })
 
-  // Fetch weather
-  const { data: weatherData, isLoading: isWeatherLoading } = useQuery({
-    queryKey: ['weather', userLocation?.lat, userLocation?.lng],
-    queryFn: () =>
-      userLocation ? fetchWeather(userLocation.lat, userLocation.lng) : null,
-    enabled: !!userLocation,
-    staleTime: 5 * 60_000,
-    refetchInterval: 10 * 60_000,
-  })
-
   // Fetch emergency places when overlay opens
   const {
     data: emergencyData,
@@ -362,7 +397,12 @@ export default function HomePage() {
     }
   }, [queryClient])
 
-  const totalActiveFilters = filters.categories.length + filters.tags.length
+  const totalActiveFilters =
+    filters.categories.length +
+    filters.tags.length +
+    filters.amenities.length +
+    (filters.openNow ? 1 : 0) +
+    (filters.freeOnly ? 1 : 0)
 
   return (
     <main className="h-dvh flex flex-col relative overflow-hidden bg-warm-50">
@@ -370,6 +410,7 @@ export default function HomePage() {
       <div className="absolute inset-0 z-0">
         <KakaoMap
           places={places}
+          clusters={placesData?.clusters}
           selectedPlaceId={selectedPlace?.id}
           onBoundsChanged={handleBoundsChanged}
           onPlaceClick={handlePlaceClick}
@@ -399,8 +440,29 @@ export default function HomePage() {
         <div className="flex-1">
           <SearchBar
             value={searchQuery}
-            onChange={setSearchQuery}
-            onSubmit={setSearchQuery}
+            onChange={(value) => {
+              setSearchQuery(value)
+              if (!value.trim()) setSubmittedQuery('')
+            }}
+            onSubmit={(value) => {
+              setSearchQuery(value)
+              setSubmittedQuery(value.trim())
+              setSnapPoint(LIST_SNAP)
+            }}
+            placeholder="장소, 행사, 주소로 검색"
+            suggest
+            onSelectSuggestion={(suggestion) => {
+              if (suggestion.kind === 'place') {
+                navigateToDetail(`/place/${suggestion.place_id}`)
+              } else if (suggestion.kind === 'category') {
+                // A category is a filter, not a text match
+                setSearchQuery('')
+                setSubmittedQuery('')
+                setFilters((prev) => ({ ...prev, categories: [suggestion.category] }))
+                setActiveTab('places')
+                setSnapPoint(LIST_SNAP)
+              }
+            }}
           />
         </div>
 
@@ -440,6 +502,13 @@ export default function HomePage() {
         <CategoryChips
           selected={filters.categories}
           onChange={(cats) => setFilters((f) => ({ ...f, categories: cats }))}
+          leading={
+            <ChildAgeChips
+              childProfiles={children}
+              activeChildId={activeChild?.id ?? null}
+              onChange={setActiveChildId}
+            />
+          }
         />
       </div>
 
@@ -507,8 +576,32 @@ export default function HomePage() {
         }
       >
 
+        {/* Search results */}
+        {submittedQuery && (
+          <div className="flex-1 overflow-y-auto px-4 pb-[80px]">
+            <div className="py-2 flex items-center justify-between">
+              <span className="text-[13px] font-semibold text-warm-600">&lsquo;{submittedQuery}&rsquo; 검색 결과</span>
+              <button
+                onClick={() => {
+                  setSubmittedQuery('')
+                  setSearchQuery('')
+                }}
+                className="text-[12px] text-coral-500 font-medium min-h-[36px] px-2"
+              >
+                검색 닫기
+              </button>
+            </div>
+            <SearchResults
+              query={submittedQuery}
+              lat={userLocation?.lat ?? mapCenter?.lat}
+              lng={userLocation?.lng ?? mapCenter?.lng}
+              onSelect={navigateToDetail}
+            />
+          </div>
+        )}
+
         {/* Places tab */}
-        {activeTab === 'places' && (
+        {!submittedQuery && activeTab === 'places' && (
           <>
             {/* Summary row */}
             <div className="px-4 py-2 flex items-center justify-between shrink-0">
@@ -517,7 +610,7 @@ export default function HomePage() {
                   ? '장소 불러오는 중...'
                   : selectedPlace
                     ? `${selectedPlace.name} 근처 ${filteredPlaces.length}개 장소`
-                    : `지도 내 ${filteredPlaces.length.toLocaleString()}개 장소`}
+                    : `지도 내 ${(placesData?.totalCount ?? filteredPlaces.length).toLocaleString()}개 장소`}
               </span>
               {selectedPlace && (
                 <button
@@ -614,7 +707,7 @@ export default function HomePage() {
         )}
 
         {/* Events tab */}
-        {activeTab === 'events' && (
+        {!submittedQuery && activeTab === 'events' && (
           <div className="flex-1 overflow-y-auto pb-[80px]">
             {/* Header */}
             <div className="px-4 py-2 flex items-center justify-between shrink-0">
@@ -1,10 +1,13 @@
 'use client'
 
-import { use } from 'react'
+import { use, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
 import type { PlaceDetailResponse } from '@/types'
 import PlaceDetail from '@/components/place/PlaceDetail'
+import VisitSheet from '@/components/diary/VisitSheet'
+import CollectionPickerSheet from '@/components/collections/CollectionPickerSheet'
+import DayPlanSheet from '@/components/plan/DayPlanSheet'
 import BottomNav from '@/components/BottomNav'
 
 interface PlacePageProps {
@@ -92,6 +95,9 @@ export default function PlacePage({ params }: PlacePageProps) {
   const { id } = use(params)
   const router = useRouter()
   const queryClient = useQueryClient()
+  const [visitSheetOpen, setVisitSheetOpen] = useState(false)
+  const [collectionSheetOpen, setCollectionSheetOpen] = useState(false)
+  const [planSheetOpen, setPlanSheetOpen] = useState(false)
 
   const {
     data,
@@ -192,22 +198,29 @@ export default function PlacePage({ params }: PlacePageProps) {
             // ignore
           }
         }}
-        onVisitRecord={async () => {
-          if (!data) return
-          try {
-            const res = await fetch('/api/visits', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ placeId: data.place.id }),
-            })
-            if (res.ok) {
-              queryClient.invalidateQueries({ queryKey: ['place', id] })
-            }
-          } catch {
-            // ignore
-          }
+        onVisitRecord={() => setVisitSheetOpen(true)}
+        onCollect={() => setCollectionSheetOpen(true)}
+        onPlanDay={() => setPlanSheetOpen(true)}
+      />
+      <VisitSheet
+        open={visitSheetOpen}
+        onOpenChange={setVisitSheetOpen}
+        target={{ kind: 'place', placeId: data.place.id, name: data.place.name }}
+        onSaved={() => {
+          queryClient.invalidateQueries({ queryKey: ['place', id] })
+          queryClient.invalidateQueries({ queryKey: ['visits'] })
         }}
       />
+      <CollectionPickerSheet
+        open={collectionSheetOpen}
+        onOpenChange={setCollectionSheetOpen}
+        target={{ kind: 'place', placeId: data.place.id }}
+      />
+      <DayPlanSheet
+        open={planSheetOpen}
+        onOpenChange={setPlanSheetOpen}
+        anchor={{ kind: 'place', id: data.place.id, lat: data.place.lat, lng: data.place.lng }}
+      />
       <BottomNav />
     </div>
   )
@@ -0,0 +1,96 @@
+import type { Metadata } from 'next'
+import { headers } from 'next/headers'
+import { notFound } from 'next/navigation'
+import { cache } from 'react'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { isShareToken } from '@/lib/collections'
+import type { DayPlan } from '@/types'
+import DayPlanView from '@/components/plan/DayPlanView'
+
+interface SharedPlanPageProps {
+  params: Promise<{ token: string }>
+}
+
+interface SharedPlan {
+  title: string
+  plan: DayPlan
+}
+
+/**
+ * Read-only copy of a saved day plan, loaded with the service role by share
+ * token. The itinerary is the snapshot taken when it was saved.
+ * Cached per request so generateMetadata and the page share one query.
+ */
+const loadSharedPlan = cache(async (token: string): Promise<SharedPlan | null> => {
+  if (!isShareToken(token)) return null
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('day_plans')
+    .select('title, plan')
+    .eq('share_token', token)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[plan/[token]] Supabase error:', error)
+    return null
+  }
+  return data ? { title: data.title, plan: data.plan as DayPlan } : null
+})
+
+export async function generateMetadata({ params }: SharedPlanPageProps): Promise<Metadata> {
+  const { token } = await params
+  const shared = await loadSharedPlan(token)
+  if (!shared) return { title: 'BabyPlace' }
+
+  const headerList = await headers()
+  const host = headerList.get('x-forwarded-host') ?? headerList.get('host') ?? 'localhost:3000'
+  const protocol = headerList.get('x-forwarded-proto') ?? 'https'
+  const origin = `${protocol}://${host}`
+
+  const title = `${shared.title} - BabyPlace`
+  const description = shared.plan.stops
+    .map((stop) => `${stop.arriveAt} ${stop.place?.name ?? stop.event?.name ?? ''}`)
+    .join(' → ')
+  const poster = shared.plan.stops.find((s) => s.event?.poster_url && !s.event.poster_hidden)?.event?.poster_url
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      url: `${origin}/plan/${token}`,
+      siteName: 'BabyPlace',
+      type: 'website',
+      images: [poster ?? `${origin}/icons/icon-512.png`],
+    },
+  }
+}
+
+export default async function SharedPlanPage({ params }: SharedPlanPageProps) {
+  const { token } = await params
+  const shared = await loadSharedPlan(token)
+  if (!shared) notFound()
+
+  return (
+    <div className="bg-warm-50 min-h-dvh">
+      <div className="bg-white border-b border-warm-200 px-4 py-5">
+        <p className="text-[13px] font-medium text-coral-500 mb-1">BabyPlace 나들이 일정</p>
+        <h1 className="text-[24px] font-bold text-warm-700">{shared.title}</h1>
+      </div>
+
+      <div className="px-4 py-4">
+        <DayPlanView plan={shared.plan} />
+      </div>
+
+      <div className="px-4 pb-8 text-center">
+        <a
+          href="/"
+          className="inline-block px-6 py-3 bg-coral-500 text-white rounded-xl font-semibold text-[15px] min-h-[48px] shadow-md active:bg-coral-600"
+        >
+          BabyPlace에서 더 찾아보기
+        </a>
+      </div>
+    </div>
+  )
+}
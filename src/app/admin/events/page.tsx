@@ -8,6 +8,7 @@ import type { Event } from '@/types'
 const SOURCE_LABELS: Record<string, string> = {
   tour_api: 'Tour API',
   seoul_events: '서울시',
+  kopis: 'KOPIS',
   interpark: '인터파크',
   babygo: '베이비고',
   blog_discovery: '블로그',
@@ -2,320 +2,326 @@
 
 import { useState } from 'react'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
-import { Radio, Play } from 'lucide-react'
-import DataTable, { Column } from '@/components/admin/DataTable'
+import { Radio, Play, Clock, AlertTriangle, X } from 'lucide-react'
 import StatusBadge from '@/components/admin/StatusBadge'
 
-interface CollectionLog {
+interface PipelineStepRow {
   id: number
-  collector: string
-  keyword: string | null
-  results_count: number
-  new_places: number
-  new_events: number
-  status: 'success' | 'error' | 'running'
+  run_id: number
+  step: string
+  status: 'running' | 'success' | 'failed' | 'skipped'
+  attempts: number
+  result: Record<string, unknown> | null
   error: string | null
-  duration_ms: number
-  ran_at: string
+  skip_reason: string | null
+  started_at: string
+  finished_at: string | null
+  duration_ms: number | null
 }
 
-interface SourceSummary {
-  source: string
+interface PipelineRunRow {
+  id: number
+  trigger: string
+  status: 'running' | 'success' | 'partial' | 'error' | 'cancelled'
+  planned_steps: string[]
+  budget_min: number | null
+  params: Record<string, string> | null
+  error: string | null
+  started_at: string
+  finished_at: string | null
+  steps: PipelineStepRow[]
+}
+
+interface StepSummary {
+  step: string
   totalRuns: number
   successCount: number
-  errorCount: number
+  failedCount: number
+  skippedCount: number
+  successRate: number
   avgDuration: number
-  lastRun: string
+  lastRun: string | null
+}
+
+interface PipelineJobRow {
+  id: number
+  job: string
+  params: Record<string, string> | null
+  status: 'queued' | 'running' | 'success' | 'partial' | 'error' | 'cancelled'
+  cancel_requested: boolean
+  worker_id: string | null
+  attempts: number
+  max_attempts: number
+  progress: { current: string | null; completed: number; total: number } | null
+  error: string | null
+  created_at: string
+  started_at: string | null
+  finished_at: string | null
+}
+
+interface PipelineJobOption {
+  id: string
+  label: string
+  group: string
+  job: string
+  params?: Array<{ key: string; label: string }>
+}
+
+const TRIGGER_LABELS: Record<string, string> = {
+  '0 17 * * *': 'Pipeline A (02:00)',
+  '0 18 * * *': 'Public data + reverse search (03:00)',
+  '0 19 * * *': 'Events (04:00)',
+  '0 20 * * *': 'Scoring (05:00)',
+  '0 21 1 * *': 'Monthly DataLab',
+  '0 17 * * 1,4': 'Keyword batch (Mon/Thu)',
+  '0 15 * * 0': 'Weekly BabyGo',
+  '0 22 * * 0': 'Weekly blog audit',
+}
+
+const STEP_BAR_COLORS: Record<PipelineStepRow['status'], string> = {
+  success: 'bg-green-400',
+  failed: 'bg-red-500',
+  skipped: 'bg-warm-300',
+  running: 'bg-blue-400 animate-pulse',
 }
 
-const PIPELINE_LABELS: Record<string, string> = {
-  A: 'Kakao Places Collection',
-  B: 'Naver Blog Reverse Search',
-  public: 'Public Data Collection',
-  events: 'Events Collection',
-  scoring: 'Scoring & Keyword Rotation',
+function formatDuration(ms: number | null): string {
+  if (ms == null) return '-'
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`
 }
 
-const PIPELINE_SOURCES = [
-  'kakao_collector',
-  'naver_blog_collector',
-  'publicdata_collector',
-  'tour_collector',
-  'scoring',
-  'poster-enrichment',
-  'event-cleanup',
-  'keyword_evaluator',
-]
+function formatTime(date: string | null): string {
+  if (!date) return '-'
+  return new Date(date).toLocaleString('ko-KR', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+/** First step that was still running when the job's time budget ran out */
+function findBudgetOverrun(run: PipelineRunRow): PipelineStepRow | null {
+  if (!run.budget_min) return null
+  const deadline = new Date(run.started_at).getTime() + run.budget_min * 60_000
+  return (
+    run.steps.find(
+      (s) => s.status !== 'skipped' && new Date(s.finished_at ?? Date.now()).getTime() > deadline
+    ) ?? null
+  )
+}
 
 export default function PipelineMonitoring() {
   const queryClient = useQueryClient()
-  const [expandedSources, setExpandedSources] = useState<string[]>([])
-
-  const { data: logsData, isLoading } = useQuery<{
-    logs: CollectionLog[]
-    summary: Array<{
-      collector: string
-      totalRuns: number
-      successCount: number
-      errorCount: number
-      avgDuration: number
-      lastRun: string
-    }>
-  }>({
-    queryKey: ['admin', 'pipeline', 'logs'],
+  const [days, setDays] = useState(7)
+  const [expandedRuns, setExpandedRuns] = useState<number[]>([])
+  const [expandedSteps, setExpandedSteps] = useState<number[]>([])
+
+  const { data, isLoading } = useQuery<{ runs: PipelineRunRow[]; summary: StepSummary[] }>({
+    queryKey: ['admin', 'pipeline', 'runs', days],
     queryFn: async () => {
-      const res = await fetch('/api/admin/pipeline')
-      if (!res.ok) throw new Error('Failed to fetch logs')
+      const res = await fetch(`/api/admin/pipeline?days=${days}`)
+      if (!res.ok) throw new Error('Failed to fetch pipeline runs')
       return res.json()
     },
     refetchInterval: 30000, // Refetch every 30 seconds
   })
 
-  const logs = logsData?.logs || []
-  const logSummary = logsData?.summary || []
+  const runs = data?.runs || []
+  const stepSummary = data?.summary || []
 
-  const triggerPipelineMutation = useMutation({
-    mutationFn: async (pipeline: string) => {
+  const { data: queueData } = useQuery<{ jobs: PipelineJobRow[]; catalog: PipelineJobOption[] }>({
+    queryKey: ['admin', 'pipeline', 'jobs'],
+    queryFn: async () => {
+      const res = await fetch('/api/admin/pipeline/jobs?limit=20')
+      if (!res.ok) throw new Error('Failed to fetch pipeline jobs')
+      return res.json()
+    },
+    refetchInterval: 10000,
+  })
+
+  const queueJobs = queueData?.jobs || []
+  const catalog = queueData?.catalog || []
+  const catalogGroups = Array.from(new Set(catalog.map((c) => c.group)))
+
+  const [jobParams, setJobParams] = useState<Record<string, string>>({})
+  const [stepSpec, setStepSpec] = useState('')
+  const [enqueueError, setEnqueueError] = useState<string | null>(null)
+
+  const enqueueMutation = useMutation({
+    mutationFn: async (body: { pipeline?: string; job?: string; params?: Record<string, string> }) => {
       const res = await fetch('/api/admin/pipeline', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ pipeline }),
+        body: JSON.stringify(body),
       })
-      if (!res.ok) throw new Error('Failed to trigger pipeline')
-      return res.json()
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'Failed to enqueue job')
+      return json
     },
     onSuccess: () => {
+      setEnqueueError(null)
       queryClient.invalidateQueries({ queryKey: ['admin', 'pipeline'] })
     },
+    onError: (err: Error) => setEnqueueError(err.message),
   })
 
-  // Convert summary to record for easy lookup
-  const sourceSummary: Record<string, SourceSummary> = {}
-  logSummary.forEach((item) => {
-    sourceSummary[item.collector] = {
-      source: item.collector,
-      totalRuns: item.totalRuns,
-      successCount: item.successCount,
-      errorCount: item.errorCount,
-      avgDuration: item.avgDuration,
-      lastRun: item.lastRun,
-    }
-  })
-
-  const logColumns: Column<CollectionLog>[] = [
-    {
-      key: 'ran_at',
-      label: 'Ran At',
-      width: 'w-40',
-      sortable: true,
-      render: (date) =>
-        new Date(date).toLocaleString('ko-KR', {
-          year: 'numeric',
-          month: '2-digit',
-          day: '2-digit',
-          hour: '2-digit',
-          minute: '2-digit',
-          second: '2-digit',
-        }),
-    },
-    {
-      key: 'status',
-      label: 'Status',
-      width: 'w-24',
-      render: (status) => <StatusBadge status={status} size="sm" />,
-    },
-    {
-      key: 'results_count',
-      label: 'Results',
-      width: 'w-20',
-      sortable: true,
-    },
-    {
-      key: 'new_places',
-      label: 'New Places',
-      width: 'w-24',
-      sortable: true,
-      render: (count) => (
-        <span className="text-sm font-semibold text-green-600">{count}</span>
-      ),
-    },
-    {
-      key: 'new_events',
-      label: 'New Events',
-      width: 'w-24',
-      sortable: true,
-      render: (count) => (
-        <span className="text-sm font-semibold text-blue-600">{count}</span>
-      ),
-    },
-    {
-      key: 'duration_ms',
-      label: 'Duration',
-      width: 'w-24',
-      sortable: true,
-      render: (ms) => (
-        <span className="text-xs text-warm-600">
-          {(ms / 1000).toFixed(1)}s
-        </span>
-      ),
+  const cancelMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      const res = await fetch(`/api/admin/pipeline/jobs/${jobId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'cancel' }),
+      })
+      if (!res.ok) throw new Error('Failed to cancel job')
+      return res.json()
     },
-    {
-      key: 'error',
-      label: 'Error',
-      width: 'w-48',
-      render: (error) =>
-        error ? (
-          <span className="text-xs text-red-600 truncate">{error}</span>
-        ) : (
-          <span className="text-xs text-warm-400">-</span>
-        ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'pipeline', 'jobs'] })
     },
-  ]
+  })
+
+  const toggle = (list: number[], setList: (v: number[]) => void, id: number) => {
+    setList(list.includes(id) ? list.filter((x) => x !== id) : [...list, id])
+  }
 
   return (
     <div className="space-y-6">
-      <div className="flex items-center gap-2">
-        <Radio size={24} className="text-coral-500" />
-        <h1 className="text-3xl font-bold text-warm-800">Pipeline Monitoring</h1>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Radio size={24} className="text-coral-500" />
+          <h1 className="text-3xl font-bold text-warm-800">Pipeline Monitoring</h1>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="px-3 py-2 border border-warm-200 rounded-lg text-sm bg-white"
+        >
+          <option value={1}>Last 24h</option>
+          <option value={7}>Last 7 days</option>
+          <option value={30}>Last 30 days</option>
+        </select>
       </div>
 
-      {/* Source summary */}
+      {/* Job queue */}
       <div className="space-y-3">
-        <h2 className="text-lg font-semibold text-warm-800">Source Status</h2>
-        <div className="grid gap-4">
-          {PIPELINE_SOURCES.map((source) => {
-            const summary = sourceSummary[source] || {
-              source,
-              totalRuns: 0,
-              successCount: 0,
-              errorCount: 0,
-              avgDuration: 0,
-              lastRun: '-',
-            }
-            const successRate =
-              summary.totalRuns > 0
-                ? ((summary.successCount / summary.totalRuns) * 100).toFixed(1)
-                : 0
-
-            return (
-              <div
-                key={source}
-                className="bg-white border border-warm-200 rounded-lg p-4"
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <h3 className="font-semibold text-warm-800 mb-3">
-                      {source}
-                    </h3>
-
-                    <div className="grid grid-cols-5 gap-4 text-sm mb-3">
-                      <div>
-                        <p className="text-warm-500 mb-1">Total Runs</p>
-                        <p className="text-lg font-bold text-warm-800">
-                          {summary.totalRuns}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-warm-500 mb-1">Success Rate</p>
-                        <p className="text-lg font-bold text-green-600">
-                          {successRate}%
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-warm-500 mb-1">Failures</p>
-                        <p className="text-lg font-bold text-red-600">
-                          {summary.errorCount}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-warm-500 mb-1">Avg Duration</p>
-                        <p className="text-lg font-bold text-warm-800">
-                          {(summary.avgDuration / 1000).toFixed(1)}s
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-warm-500 mb-1">Last Run</p>
-                        <p className="text-xs font-medium text-warm-600 truncate">
-                          {summary.lastRun === '-'
-                            ? '-'
-                            : new Date(summary.lastRun).toLocaleString('ko-KR', {
-                                month: '2-digit',
-                                day: '2-digit',
-                                hour: '2-digit',
-                                minute: '2-digit',
-                              })}
-                        </p>
-                      </div>
-                    </div>
-
-                    {/* Success rate bar */}
-                    <div className="w-full bg-warm-100 rounded-full h-2">
-                      <div
-                        className="bg-green-500 h-2 rounded-full transition-all"
-                        style={{ width: `${successRate}%` }}
-                      />
-                    </div>
-                  </div>
-
-                  {(() => {
-                    const pipelineMap: Record<string, string> = {
-                      kakao_collector: 'A',
-                      naver_blog_collector: 'B',
-                      publicdata_collector: 'public',
-                      tour_collector: 'events',
-                      scoring: 'scoring',
-                    }
-                    const pipelineId = pipelineMap[source]
-                    return pipelineId ? (
+        <h2 className="text-lg font-semibold text-warm-800">Run a Job</h2>
+        <div className="bg-white border border-warm-200 rounded-lg p-4 space-y-4">
+          {catalogGroups.map((group) => (
+            <div key={group}>
+              <p className="text-xs font-semibold text-warm-500 mb-2">{group}</p>
+              <div className="flex flex-wrap gap-2">
+                {catalog
+                  .filter((c) => c.group === group)
+                  .map((option) => (
+                    <div key={option.id} className="flex items-center gap-1">
+                      {option.params?.map((param) => (
+                        <input
+                          key={param.key}
+                          placeholder={param.label}
+                          value={jobParams[`${option.id}.${param.key}`] ?? ''}
+                          onChange={(e) =>
+                            setJobParams({ ...jobParams, [`${option.id}.${param.key}`]: e.target.value })
+                          }
+                          className="px-2 py-2 border border-warm-200 rounded-lg text-xs w-44"
+                        />
+                      ))}
                       <button
-                        onClick={() => triggerPipelineMutation.mutate(pipelineId)}
-                        disabled={triggerPipelineMutation.isPending}
+                        onClick={() =>
+                          enqueueMutation.mutate({
+                            pipeline: option.id,
+                            params: Object.fromEntries(
+                              (option.params ?? []).map((p) => [p.key, jobParams[`${option.id}.${p.key}`] ?? ''])
+                            ),
+                          })
+                        }
+                        disabled={enqueueMutation.isPending}
                         className="
-                          ml-4 px-4 py-2 rounded-lg bg-coral-500 text-white
+                          px-3 py-2 rounded-lg bg-coral-500 text-white text-sm
                           font-medium flex items-center gap-2
                           hover:bg-coral-600 disabled:opacity-50 transition
                           whitespace-nowrap
                         "
                       >
-                        <Play size={16} />
-                        Run Now
+                        <Play size={14} />
+                        {option.label}
                       </button>
-                    ) : null
-                  })()}
-                </div>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          ))}
 
-                {/* Expandable logs */}
-                <button
-                  onClick={() => {
-                    if (expandedSources.includes(source)) {
-                      setExpandedSources(
-                        expandedSources.filter((s) => s !== source)
-                      )
-                    } else {
-                      setExpandedSources([...expandedSources, source])
-                    }
-                  }}
-                  className="
-                    text-sm text-coral-500 font-medium mt-3
-                    hover:text-coral-600 transition
-                  "
-                >
-                  {expandedSources.includes(source)
-                    ? '▼ Hide Recent Logs'
-                    : '▶ Show Recent Logs'}
-                </button>
-
-                {expandedSources.includes(source) && (
-                  <div className="mt-4 pt-4 border-t border-warm-200">
-                    <DataTable<CollectionLog>
-                      columns={logColumns}
-                      data={logs.filter((l) => l.collector === source).slice(0, 10)}
-                      defaultSortKey="ran_at"
-                      defaultSortDir="desc"
-                      pageSize={5}
-                      emptyMessage="No logs available"
-                    />
-                  </div>
+          <div>
+            <p className="text-xs font-semibold text-warm-500 mb-2">Steps</p>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                if (stepSpec.trim()) enqueueMutation.mutate({ job: stepSpec.trim() })
+              }}
+              className="flex gap-2"
+            >
+              <input
+                value={stepSpec}
+                onChange={(e) => setStepSpec(e.target.value)}
+                placeholder="step:density · from:scoring · steps:recalc-mentions,scoring"
+                className="flex-1 px-3 py-2 border border-warm-200 rounded-lg text-sm font-mono"
+              />
+              <button
+                type="submit"
+                disabled={enqueueMutation.isPending || !stepSpec.trim()}
+                className="px-4 py-2 rounded-lg bg-warm-800 text-white text-sm font-medium disabled:opacity-50"
+              >
+                Enqueue
+              </button>
+            </form>
+          </div>
+
+          {enqueueError && <p className="text-sm text-red-600">{enqueueError}</p>}
+        </div>
+
+        <h2 className="text-lg font-semibold text-warm-800">Queue</h2>
+        <div className="bg-white border border-warm-200 rounded-lg divide-y divide-warm-100">
+          {queueJobs.length === 0 && <p className="p-4 text-sm text-warm-500">No queued jobs</p>}
+          {queueJobs.map((job) => {
+            const active = job.status === 'queued' || job.status === 'running'
+            const pct = job.progress && job.progress.total > 0
+              ? Math.round((job.progress.completed / job.progress.total) * 100)
+              : 0
+            return (
+              <div key={job.id} className="p-3 flex items-center gap-4 text-sm">
+                <StatusBadge status={job.status} size="sm" />
+                {job.cancel_requested && job.status === 'running' && (
+                  <span className="text-xs text-warm-500">cancelling…</span>
+                )}
+                <span className="font-mono text-warm-800 w-56 truncate">{job.job}</span>
+                <div className="flex-1 min-w-0">
+                  {job.status === 'running' && job.progress ? (
+                    <div className="space-y-1">
+                      <div className="w-full bg-warm-100 rounded-full h-1.5">
+                        <div className="bg-blue-400 h-1.5 rounded-full transition-all" style={{ width: `${pct}%` }} />
+                      </div>
+                      <p className="text-xs text-warm-500 truncate">
+                        {job.progress.completed}/{job.progress.total}
+                        {job.progress.current && ` · ${job.progress.current}`}
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-warm-500 truncate">
+                      {job.error ?? (job.finished_at ? `finished ${formatTime(job.finished_at)}` : `queued ${formatTime(job.created_at)}`)}
+                    </p>
+                  )}
+                </div>
+                {active && !job.cancel_requested && (
+                  <button
+                    onClick={() => cancelMutation.mutate(job.id)}
+                    disabled={cancelMutation.isPending}
+                    className="text-warm-400 hover:text-red-600 disabled:opacity-50"
+                    title="Cancel"
+                  >
+                    <X size={16} />
+                  </button>
                 )}
               </div>
             )
@@ -323,20 +329,164 @@ export default function PipelineMonitoring() {
         </div>
       </div>
 
-      {/* All logs */}
+      {/* Run timeline */}
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold text-warm-800">Run Timeline</h2>
+        {isLoading && <p className="text-sm text-warm-500">Loading...</p>}
+        {!isLoading && runs.length === 0 && (
+          <p className="text-sm text-warm-500">No pipeline runs recorded in this period</p>
+        )}
+
+        {runs.map((run) => {
+          const runStart = new Date(run.started_at).getTime()
+          const runEnd = new Date(run.finished_at ?? Date.now()).getTime()
+          const span = Math.max(1, runEnd - runStart)
+          const overrun = findBudgetOverrun(run)
+          const expanded = expandedRuns.includes(run.id)
+
+          return (
+            <div key={run.id} className="bg-white border border-warm-200 rounded-lg p-4">
+              <button
+                onClick={() => toggle(expandedRuns, setExpandedRuns, run.id)}
+                className="w-full flex items-center justify-between gap-4 text-left"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <StatusBadge status={run.status} size="sm" />
+                  <span className="font-semibold text-warm-800 truncate">
+                    {TRIGGER_LABELS[run.trigger] ?? run.trigger}
+                  </span>
+                  <span className="text-xs text-warm-500 whitespace-nowrap">
+                    {formatTime(run.started_at)}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1 text-xs text-warm-600 whitespace-nowrap">
+                  <Clock size={12} />
+                  {formatDuration(runEnd - runStart)}
+                  {run.budget_min && <span className="text-warm-400"> / {run.budget_min}m budget</span>}
+                </div>
+              </button>
+
+              {/* Gantt-style bar: one segment per step, positioned by wall-clock time */}
+              <div className="relative w-full h-3 mt-3 bg-warm-100 rounded-full overflow-hidden">
+                {run.steps
+                  .filter((s) => s.status !== 'skipped')
+                  .map((s) => {
+                    const start = new Date(s.started_at).getTime()
+                    const end = new Date(s.finished_at ?? Date.now()).getTime()
+                    const left = ((start - runStart) / span) * 100
+                    const width = Math.max(0.5, ((end - start) / span) * 100)
+                    return (
+                      <div
+                        key={s.id}
+                        title={`${s.step} — ${formatDuration(s.duration_ms)}`}
+                        className={`absolute top-0 h-3 border-r border-white ${STEP_BAR_COLORS[s.status]}`}
+                        style={{ left: `${left}%`, width: `${width}%` }}
+                      />
+                    )
+                  })}
+                {run.budget_min && run.budget_min * 60_000 < span && (
+                  <div
+                    className="absolute top-0 h-3 w-0.5 bg-red-700"
+                    style={{ left: `${((run.budget_min * 60_000) / span) * 100}%` }}
+                  />
+                )}
+              </div>
+
+              {overrun && (
+                <p className="mt-2 text-xs text-red-600 flex items-center gap-1">
+                  <AlertTriangle size={12} />
+                  Ran out of the {run.budget_min}min budget during <strong>{overrun.step}</strong>
+                </p>
+              )}
+              {run.error && <p className="mt-2 text-xs text-red-600">{run.error}</p>}
+
+              {expanded && (
+                <div className="mt-4 pt-4 border-t border-warm-200 space-y-1">
+                  {run.planned_steps.map((name) => {
+                    const s = run.steps.find((x) => x.step === name)
+                    return (
+                      <div key={name}>
+                        <div className="grid grid-cols-12 gap-2 items-center text-sm">
+                          <span className="col-span-3 font-medium text-warm-700 truncate">{name}</span>
+                          <span className="col-span-2">
+                            {s ? (
+                              <StatusBadge status={s.status} size="sm" />
+                            ) : (
+                              <span className="text-xs text-warm-400">pending</span>
+                            )}
+                          </span>
+                          <span className="col-span-2 text-xs text-warm-600">
+                            {s ? formatDuration(s.duration_ms) : '-'}
+                            {s && s.attempts > 1 && <span className="text-warm-400"> ({s.attempts} tries)</span>}
+                          </span>
+                          <span className="col-span-4 text-xs truncate">
+                            {s?.error && <span className="text-red-600">{s.error}</span>}
+                            {s?.skip_reason && <span className="text-warm-500">{s.skip_reason}</span>}
+                          </span>
+                          <span className="col-span-1 text-right">
+                            {s?.result && (
+                              <button
+                                onClick={() => toggle(expandedSteps, setExpandedSteps, s.id)}
+                                className="text-xs text-coral-500 hover:text-coral-600"
+                              >
+                                {expandedSteps.includes(s.id) ? 'Hide' : 'Result'}
+                              </button>
+                            )}
+                          </span>
+                        </div>
+                        {s?.result && expandedSteps.includes(s.id) && (
+                          <pre className="mt-1 mb-2 p-2 bg-warm-50 rounded text-xs text-warm-700 overflow-x-auto">
+                            {JSON.stringify(s.result, null, 2)}
+                          </pre>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Step summary */}
       <div>
-        <h2 className="text-lg font-semibold text-warm-800 mb-4">
-          All Collection Logs
-        </h2>
-        <DataTable<CollectionLog>
-          columns={logColumns}
-          data={logs}
-          searchableFields={['collector', 'keyword']}
-          defaultSortKey="ran_at"
-          defaultSortDir="desc"
-          pageSize={20}
-          emptyMessage="No logs found"
-        />
+        <h2 className="text-lg font-semibold text-warm-800 mb-4">Step Health</h2>
+        <div className="bg-white border border-warm-200 rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-warm-50 text-warm-500">
+              <tr>
+                <th className="text-left px-4 py-2">Step</th>
+                <th className="text-right px-4 py-2">Runs</th>
+                <th className="text-right px-4 py-2">Success Rate</th>
+                <th className="text-right px-4 py-2">Failed</th>
+                <th className="text-right px-4 py-2">Skipped</th>
+                <th className="text-right px-4 py-2">Avg Duration</th>
+                <th className="text-right px-4 py-2">Last Run</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stepSummary.map((s) => (
+                <tr key={s.step} className="border-t border-warm-100">
+                  <td className="px-4 py-2 font-medium text-warm-800">{s.step}</td>
+                  <td className="px-4 py-2 text-right">{s.totalRuns}</td>
+                  <td className="px-4 py-2 text-right text-green-600 font-semibold">{s.successRate}%</td>
+                  <td className="px-4 py-2 text-right text-red-600">{s.failedCount}</td>
+                  <td className="px-4 py-2 text-right text-warm-500">{s.skippedCount}</td>
+                  <td className="px-4 py-2 text-right">{formatDuration(s.avgDuration)}</td>
+                  <td className="px-4 py-2 text-right text-xs text-warm-600">{formatTime(s.lastRun)}</td>
+                </tr>
+              ))}
+              {stepSummary.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-4 py-6 text-center text-warm-500">
+                    No step data
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
       </div>
     </div>
   )
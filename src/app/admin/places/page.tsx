@@ -4,6 +4,7 @@ import { useState } from 'react'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { MapPin, Trash2, Copy } from 'lucide-react'
 import DataTable, { Column } from '@/components/admin/DataTable'
+import PlaceMergePanel from '@/components/admin/PlaceMergePanel'
 import type { Place, PlaceCategory } from '@/types'
 
 interface PlaceRow extends Place {
@@ -72,11 +73,13 @@ export default function PlacesManagement() {
           targetId: parseInt(targetId),
         }),
       })
-      if (!res.ok) throw new Error('Failed to merge places')
-      return res.json()
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error ?? 'Failed to merge places')
+      return data
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['admin', 'places'] })
+      queryClient.invalidateQueries({ queryKey: ['admin', 'place-merges'] })
       setMergeModalOpen(false)
       setSourceId('')
       setTargetId('')
@@ -267,6 +270,9 @@ export default function PlacesManagement() {
         </div>
       </div>
 
+      {/* Duplicate review + merge history */}
+      <PlaceMergePanel />
+
       {/* Data table */}
       <DataTable<PlaceRow>
         columns={columns}
@@ -316,6 +322,13 @@ export default function PlacesManagement() {
                   placeholder="Target place to keep"
                 />
               </div>
+
+              <p className="text-xs text-warm-400">
+                The source place is kept as an inactive alias and can be restored from Merge History.
+              </p>
+              {mergePlacesMutation.error && (
+                <p className="text-sm text-red-600">{mergePlacesMutation.error.message}</p>
+              )}
             </div>
 
             <div className="flex gap-3">
@@ -2,7 +2,7 @@
 
 import { useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
-import { TrendingUp, AlertTriangle } from 'lucide-react'
+import { TrendingUp, AlertTriangle, CheckCircle2 } from 'lucide-react'
 import DataTable, { Column } from '@/components/admin/DataTable'
 import StatsCard from '@/components/admin/StatsCard'
 
@@ -12,14 +12,53 @@ interface TopQuery {
   avg_results: number
 }
 
+type GapStatus = 'open' | 'closed' | 'noise'
+
 interface GapQuery {
   query: string
   count: number
+  gap_status: GapStatus | null
+}
+
+interface GapTracking {
+  query: string
+  gap_type: 'place_name' | 'district_category' | 'noise'
+  keyword: string | null
+  keyword_group: string | null
+  zero_count: number
+  status: GapStatus
+  classified_at: string
+  closed_at: string | null
+  results_after: number | null
+  latest_results: number | null
 }
 
 interface AnalysisResponse {
   topQueries: TopQuery[]
   gapQueries: GapQuery[]
+  gapTracking: GapTracking[]
+}
+
+const GAP_STATUS_STYLES: Record<GapStatus, { label: string; className: string }> = {
+  open: { label: 'Keyword added', className: 'bg-amber-50 text-amber-700' },
+  closed: { label: 'Closed', className: 'bg-green-50 text-green-700' },
+  noise: { label: 'Noise', className: 'bg-warm-100 text-warm-500' },
+}
+
+const GAP_TYPE_LABELS: Record<GapTracking['gap_type'], string> = {
+  place_name: 'Place name',
+  district_category: 'District + category',
+  noise: 'Noise',
+}
+
+function GapStatusBadge({ status }: { status: GapStatus | null }) {
+  if (!status) return <span className="text-warm-400">Not classified</span>
+  const { label, className } = GAP_STATUS_STYLES[status]
+  return <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${className}`}>{label}</span>
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString('ko-KR') : '—'
 }
 
 export default function SearchAnalysisPage() {
@@ -36,10 +75,13 @@ export default function SearchAnalysisPage() {
 
   const topQueries = data?.topQueries ?? []
   const gapQueries = data?.gapQueries ?? []
+  const gapTracking = data?.gapTracking ?? []
 
   const totalSearches = topQueries.reduce((acc, q) => acc + q.count, 0)
   const uniqueQueries = topQueries.length
   const gapCount = gapQueries.length
+  const trackedGaps = gapTracking.filter((g) => g.status !== 'noise')
+  const closedGaps = trackedGaps.filter((g) => g.status === 'closed').length
 
   const topColumns: Column<TopQuery>[] = [
     {
@@ -86,6 +128,75 @@ export default function SearchAnalysisPage() {
         <span className="font-semibold text-red-600">{count}</span>
       ),
     },
+    {
+      key: 'gap_status',
+      label: 'Gap Status',
+      width: 'w-32',
+      render: (status) => <GapStatusBadge status={status} />,
+    },
+  ]
+
+  const trackingColumns: Column<GapTracking>[] = [
+    {
+      key: 'query',
+      label: 'Search Query',
+      width: 'w-40',
+      sortable: true,
+    },
+    {
+      key: 'gap_type',
+      label: 'Type',
+      width: 'w-36',
+      sortable: true,
+      render: (type) => GAP_TYPE_LABELS[type as GapTracking['gap_type']],
+    },
+    {
+      key: 'keyword',
+      label: 'Keyword',
+      width: 'w-40',
+      render: (keyword, row) => (
+        <span className="text-warm-700">
+          {keyword ?? '—'}
+          {row.keyword_group && <span className="ml-1 text-xs text-warm-400">{row.keyword_group}</span>}
+        </span>
+      ),
+    },
+    {
+      key: 'zero_count',
+      label: 'Zero Searches',
+      width: 'w-28',
+      sortable: true,
+    },
+    {
+      key: 'status',
+      label: 'Status',
+      width: 'w-32',
+      sortable: true,
+      render: (status) => <GapStatusBadge status={status} />,
+    },
+    {
+      key: 'classified_at',
+      label: 'Added',
+      width: 'w-28',
+      sortable: true,
+      render: (value) => formatDate(value),
+    },
+    {
+      key: 'closed_at',
+      label: 'Closed',
+      width: 'w-28',
+      sortable: true,
+      render: (value, row) =>
+        value ? `${formatDate(value)} (${row.results_after ?? 0} results)` : '—',
+    },
+    {
+      key: 'latest_results',
+      label: 'Latest Results',
+      width: 'w-28',
+      render: (value) => (
+        <span className={`font-medium ${value ? 'text-green-600' : 'text-red-500'}`}>{value ?? '—'}</span>
+      ),
+    },
   ]
 
   return (
@@ -113,7 +224,7 @@ export default function SearchAnalysisPage() {
       </div>
 
       {/* Stats */}
-      <div className="grid grid-cols-3 gap-4">
+      <div className="grid grid-cols-4 gap-4">
         <StatsCard
           title="Total Searches"
           value={isLoading ? '...' : totalSearches}
@@ -131,6 +242,12 @@ export default function SearchAnalysisPage() {
           trend={gapCount > 10 ? 'down' : 'neutral'}
           description={gapCount > 0 ? `${gapCount} queries with 0 results` : 'All queries have results'}
         />
+        <StatsCard
+          title="Gaps Closed"
+          value={isLoading ? '...' : `${closedGaps} / ${trackedGaps.length}`}
+          icon={CheckCircle2}
+          description="Keyword-fed gaps that now return results"
+        />
       </div>
 
       {/* Top queries table */}
@@ -163,6 +280,27 @@ export default function SearchAnalysisPage() {
           emptyMessage="No gap queries found"
         />
       </div>
+
+      {/* Gap → keyword tracking */}
+      <div>
+        <div className="flex items-center gap-2 mb-4">
+          <CheckCircle2 size={20} className="text-green-600" />
+          <h2 className="text-xl font-bold text-warm-800">Gap Keywords</h2>
+        </div>
+        <p className="text-sm text-warm-500 mb-4">
+          Recurring zero-result queries classified by the search-gap step and added to keywords
+          (source <code>search_gap</code>). A gap closes once a later search for it finds results.
+        </p>
+        <DataTable<GapTracking>
+          columns={trackingColumns}
+          data={gapTracking}
+          searchableFields={['query', 'keyword']}
+          defaultSortKey="classified_at"
+          defaultSortDir="desc"
+          pageSize={15}
+          emptyMessage="No gaps classified yet"
+        />
+      </div>
     </div>
   )
 }
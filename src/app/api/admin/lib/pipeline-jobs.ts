@@ -0,0 +1,72 @@
+/**
+ * Admin-triggerable pipeline jobs.
+ *
+ * `job` values are server/run.ts job specs (cron schedule or manual-* mode,
+ * see server/pipeline/steps.ts PIPELINE_JOBS). The queue worker re-validates
+ * them, so this list only controls what the admin UI offers.
+ */
+
+export interface PipelineJobOption {
+  id: string
+  label: string
+  group: 'Daily' | 'Events' | 'Places' | 'Maintenance'
+  job: string
+  /** Optional params the UI may prompt for (e.g. replay batch id) */
+  params?: Array<{ key: string; label: string }>
+}
+
+export const PIPELINE_JOB_CATALOG: PipelineJobOption[] = [
+  { id: 'A', label: 'Kakao Places Collection', group: 'Daily', job: '0 17 * * *' },
+  { id: 'public', label: 'Public Data + Reverse Search', group: 'Daily', job: '0 18 * * *' },
+  { id: 'events', label: 'Events Collection', group: 'Daily', job: '0 19 * * *' },
+  { id: 'scoring', label: 'Scoring & Keyword Rotation', group: 'Daily', job: '0 20 * * *' },
+
+  { id: 'B', label: 'Naver Blog Reverse Search', group: 'Places', job: 'manual-reverse' },
+  { id: 'keyword-batch', label: 'Keyword Search Batch', group: 'Places', job: 'manual-batch' },
+  {
+    id: 'replay',
+    label: 'Replay Extraction Batch',
+    group: 'Places',
+    job: 'manual-batch-replay',
+    params: [{ key: 'batch', label: 'Batch ID (blank = latest)' }],
+  },
+  { id: 'babygo', label: 'BabyGo Collector', group: 'Places', job: 'manual-babygo' },
+  { id: 'place-resolution', label: 'Place Merge Proposals', group: 'Places', job: 'manual-place-resolution' },
+  { id: 'place-fields', label: 'Place Field Provenance', group: 'Places', job: 'manual-place-fields' },
+
+  { id: 'kopis', label: 'KOPIS Performances', group: 'Events', job: 'manual-kopis' },
+  { id: 'interpark', label: 'Interpark Collector', group: 'Events', job: 'manual-interpark' },
+  { id: 'blog-events', label: 'Blog Event Discovery', group: 'Events', job: 'manual-blog-events' },
+  { id: 'exhibition', label: 'Exhibition Event Extraction', group: 'Events', job: 'manual-exhibition-events' },
+  { id: 'event-blog-search', label: 'Event Blog Search', group: 'Events', job: 'manual-event-blog-search' },
+  { id: 'event-scoring', label: 'Event Scoring + Auto-hide', group: 'Events', job: 'manual-event-scoring' },
+  { id: 'poster', label: 'Poster Enrichment', group: 'Events', job: 'manual-poster' },
+  { id: 'poster-recovery', label: 'Hidden Poster Recovery', group: 'Events', job: 'manual-poster-recovery' },
+  { id: 'event-age', label: 'Event Age Ranges', group: 'Events', job: 'manual-event-age' },
+  { id: 'event-price', label: 'Event Prices', group: 'Events', job: 'manual-event-price' },
+
+  { id: 'monthly', label: 'DataLab Trends', group: 'Maintenance', job: '0 21 1 * *' },
+  { id: 'review-moderation', label: 'Review Moderation', group: 'Maintenance', job: 'manual-review-moderation' },
+  { id: 'search-gap', label: 'Search Gap Keywords', group: 'Maintenance', job: 'manual-search-gap' },
+  { id: 'audit', label: 'Full Blog Audit', group: 'Maintenance', job: 'manual-audit' },
+  { id: 'audit-resume', label: 'Full Blog Audit (resume)', group: 'Maintenance', job: 'manual-audit-resume' },
+]
+
+/** Free-form step selections: step:<name>, steps:<a,b>, from:<name> */
+const STEP_SPEC_PATTERN = /^(step|steps|from):[a-z0-9-]+(,[a-z0-9-]+)*$/
+
+/**
+ * Resolve a request body into a job spec.
+ * Accepts a catalog id (`pipeline`) or a raw step spec (`job`).
+ */
+export function resolveJobRequest(body: { pipeline?: unknown; job?: unknown }): string | null {
+  if (typeof body.pipeline === 'string') {
+    return PIPELINE_JOB_CATALOG.find((j) => j.id === body.pipeline)?.job ?? null
+  }
+  if (typeof body.job === 'string') {
+    const spec = body.job.trim()
+    if (STEP_SPEC_PATTERN.test(spec)) return spec
+    return PIPELINE_JOB_CATALOG.find((j) => j.job === spec)?.job ?? null
+  }
+  return null
+}
@@ -0,0 +1,85 @@
+import { NextRequest } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { verifyAdmin, logAuditAction, errorResponse, successResponse } from '../../../lib/admin-utils'
+
+/**
+ * PATCH /api/admin/pipeline/jobs/[id]
+ * Cancel a queued or running pipeline job
+ *
+ * Body: { action: 'cancel' }
+ *
+ * - queued  → cancelled immediately (never claimed)
+ * - running → cancel_requested; the worker skips remaining steps at the next
+ *             step boundary (the step in flight finishes)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const adminCheck = await verifyAdmin(request)
+  if (adminCheck.error) {
+    return errorResponse(adminCheck.error, adminCheck.status)
+  }
+
+  const { id } = await params
+  const jobId = parseInt(id, 10)
+  if (isNaN(jobId)) {
+    return errorResponse('Invalid ID', 400)
+  }
+
+  let body: { action?: string }
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse('Invalid request body', 400)
+  }
+
+  if (body.action !== 'cancel') {
+    return errorResponse('action must be "cancel"', 400)
+  }
+
+  try {
+    const { data: job, error: fetchError } = await supabaseAdmin
+      .from('pipeline_jobs')
+      .select('id, job, status')
+      .eq('id', jobId)
+      .single()
+
+    if (fetchError || !job) {
+      return errorResponse('Job not found', 404)
+    }
+
+    let update: Record<string, unknown>
+    if (job.status === 'queued') {
+      update = { status: 'cancelled', cancel_requested: true, finished_at: new Date().toISOString() }
+    } else if (job.status === 'running') {
+      update = { cancel_requested: true }
+    } else {
+      return errorResponse(`Job already ${job.status}`, 400)
+    }
+
+    // Guard on status so a job claimed in the meantime isn't flipped to cancelled
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('pipeline_jobs')
+      .update(update)
+      .eq('id', jobId)
+      .eq('status', job.status)
+      .select('*')
+      .maybeSingle()
+
+    if (updateError) throw updateError
+    if (!updated) {
+      return errorResponse('Job state changed, retry', 409)
+    }
+
+    await logAuditAction(adminCheck.user!.id, 'pipeline_cancel', 'pipeline_job', String(jobId), {
+      job: job.job,
+      previousStatus: job.status,
+    })
+
+    return successResponse({ job: updated })
+  } catch (err) {
+    console.error('[PATCH /api/admin/pipeline/jobs/[id]] Error:', err)
+    return errorResponse('Failed to cancel job', 500)
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { verifyAdmin, errorResponse, successResponse } from '../../lib/admin-utils'
+import { PIPELINE_JOB_CATALOG, type PipelineJobOption } from '../../lib/pipeline-jobs'
+
+interface PipelineJobRow {
+  id: number
+  job: string
+  params: Record<string, string> | null
+  status: 'queued' | 'running' | 'success' | 'partial' | 'error' | 'cancelled'
+  requested_by: string | null
+  cancel_requested: boolean
+  worker_id: string | null
+  lease_expires_at: string | null
+  attempts: number
+  max_attempts: number
+  progress: { current: string | null; completed: number; total: number } | null
+  error: string | null
+  created_at: string
+  started_at: string | null
+  finished_at: string | null
+}
+
+interface JobsResponse {
+  jobs: PipelineJobRow[]
+  catalog: PipelineJobOption[]
+}
+
+/**
+ * GET /api/admin/pipeline/jobs
+ * Pipeline job queue: active (queued/running) jobs plus recent finished ones
+ *
+ * Query params:
+ * - status?: comma-separated filter (e.g. 'queued,running')
+ * - limit?: number (default 50)
+ *
+ * Also returns the catalog of triggerable jobs for the admin UI.
+ * Admin role required
+ */
+export async function GET(request: NextRequest) {
+  const adminCheck = await verifyAdmin(request)
+  if (adminCheck.error) {
+    return errorResponse(adminCheck.error, adminCheck.status)
+  }
+
+  const { searchParams } = request.nextUrl
+  const statusParam = searchParams.get('status')
+  const statuses = statusParam ? statusParam.split(',').map((s) => s.trim()).filter(Boolean) : []
+  const limit = Math.min(200, parseInt(searchParams.get('limit') || '50', 10))
+
+  try {
+    let query = supabaseAdmin
+      .from('pipeline_jobs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (statuses.length > 0) {
+      query = query.in('status', statuses)
+    }
+
+    const { data, error } = await query
+    if (error) throw error
+
+    const response: JobsResponse = {
+      jobs: (data as PipelineJobRow[]) ?? [],
+      catalog: PIPELINE_JOB_CATALOG,
+    }
+    return successResponse(response)
+  } catch (err) {
+    console.error('[GET /api/admin/pipeline/jobs] Error:', err)
+    return errorResponse('Failed to fetch pipeline jobs', 500)
+  }
+}
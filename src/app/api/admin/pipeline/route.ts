@@ -1,44 +1,60 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabase } from '@/lib/supabase-server'
-import { verifyAdmin, errorResponse, successResponse } from '../lib/admin-utils'
-import { spawn } from 'child_process'
-import { promisify } from 'util'
+import { NextRequest } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { verifyAdmin, logAuditAction, errorResponse, successResponse } from '../lib/admin-utils'
+import { PIPELINE_JOB_CATALOG, resolveJobRequest } from '../lib/pipeline-jobs'
 
-interface CollectionLog {
+interface PipelineStepRow {
   id: number
-  collector: string
-  keyword: string | null
-  results_count: number
-  new_places: number
-  new_events: number
-  status: string
+  run_id: number
+  step: string
+  status: 'running' | 'success' | 'failed' | 'skipped'
+  attempts: number
+  result: Record<string, unknown> | null
   error: string | null
+  skip_reason: string | null
+  started_at: string
+  finished_at: string | null
   duration_ms: number | null
-  ran_at: string
 }
 
-interface CollectorSummary {
-  collector: string
+interface PipelineRunRow {
+  id: number
+  trigger: string
+  status: 'running' | 'success' | 'partial' | 'error' | 'cancelled'
+  planned_steps: string[]
+  budget_min: number | null
+  params: Record<string, string> | null
+  error: string | null
+  started_at: string
+  finished_at: string | null
+  steps: PipelineStepRow[]
+}
+
+interface StepSummary {
+  step: string
   totalRuns: number
   successCount: number
-  errorCount: number
+  failedCount: number
+  skippedCount: number
   successRate: number
   avgDuration: number
+  lastRun: string | null
 }
 
 interface PipelineResponse {
-  logs: CollectionLog[]
-  summary: CollectorSummary[]
+  runs: PipelineRunRow[]
+  summary: StepSummary[]
 }
 
 /**
  * GET /api/admin/pipeline
- * Monitor collection pipeline status
+ * Run-by-run pipeline timeline from the run ledger (pipeline_runs + pipeline_steps)
  *
  * Query params:
- * - collector?: string (filter by specific collector, e.g., 'kakao', 'naver', 'kopis')
+ * - trigger?: string (filter by schedule / job, e.g. '0 19 * * *', 'manual-poster')
+ * - step?: string (only runs that include this step, e.g. 'poster-enrichment')
  * - days?: number (look back N days, default 7)
- * - limit?: number (max logs to return, default 100)
+ * - limit?: number (max runs to return, default 50)
  *
  * Admin role required
  */
@@ -49,71 +65,104 @@ export async function GET(request: NextRequest) {
   }
 
   const { searchParams } = request.nextUrl
-  const collectorFilter = searchParams.get('collector') || ''
+  const triggerFilter = searchParams.get('trigger') || ''
+  const stepFilter = searchParams.get('step') || ''
   const days = Math.max(1, parseInt(searchParams.get('days') || '7', 10))
-  const limit = Math.min(500, parseInt(searchParams.get('limit') || '100', 10))
-
-  const supabase = await createServerSupabase()
+  const limit = Math.min(200, parseInt(searchParams.get('limit') || '50', 10))
 
   try {
     const lookbackDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
 
-    let query = supabase
-      .from('collection_logs')
+    // Ledger tables are server-only (RLS, no policies) → read via service_role
+    let runsQuery = supabaseAdmin
+      .from('pipeline_runs')
       .select('*')
-      .gte('ran_at', lookbackDate)
-      .order('ran_at', { ascending: false })
+      .gte('started_at', lookbackDate)
+      .order('started_at', { ascending: false })
       .limit(limit)
 
-    if (collectorFilter) {
-      query = query.eq('collector', collectorFilter)
+    if (triggerFilter) {
+      runsQuery = runsQuery.eq('trigger', triggerFilter)
+    }
+    if (stepFilter) {
+      runsQuery = runsQuery.contains('planned_steps', [stepFilter])
     }
 
-    const { data: logs, error } = await query
+    const { data: runs, error: runsError } = await runsQuery
+    if (runsError) throw runsError
 
-    if (error) throw error
+    const runIds = (runs ?? []).map((r) => r.id)
+    const stepsByRun = new Map<number, PipelineStepRow[]>()
 
-    // Calculate summary by collector
-    const summaryMap = new Map<string, CollectorSummary>()
+    if (runIds.length > 0) {
+      const { data: steps, error: stepsError } = await supabaseAdmin
+        .from('pipeline_steps')
+        .select('*')
+        .in('run_id', runIds)
+        .order('started_at', { ascending: true })
 
-    for (const log of logs || []) {
-      const collector = log.collector
-      if (!summaryMap.has(collector)) {
-        summaryMap.set(collector, {
-          collector,
-          totalRuns: 0,
-          successCount: 0,
-          errorCount: 0,
-          successRate: 0,
-          avgDuration: 0,
-        })
+      if (stepsError) throw stepsError
+
+      for (const step of (steps ?? []) as PipelineStepRow[]) {
+        const list = stepsByRun.get(step.run_id)
+        if (list) list.push(step)
+        else stepsByRun.set(step.run_id, [step])
       }
+    }
+
+    const runRows: PipelineRunRow[] = (runs ?? []).map((run) => ({
+      ...(run as Omit<PipelineRunRow, 'steps'>),
+      steps: stepsByRun.get(run.id) ?? [],
+    }))
 
-      const summary = summaryMap.get(collector)!
-      summary.totalRuns += 1
+    // Per-step summary across the returned runs
+    const summaryMap = new Map<string, StepSummary & { totalDuration: number; timedRuns: number }>()
+    for (const steps of stepsByRun.values()) {
+      for (const step of steps) {
+        let summary = summaryMap.get(step.step)
+        if (!summary) {
+          summary = {
+            step: step.step,
+            totalRuns: 0,
+            successCount: 0,
+            failedCount: 0,
+            skippedCount: 0,
+            successRate: 0,
+            avgDuration: 0,
+            lastRun: null,
+            totalDuration: 0,
+            timedRuns: 0,
+          }
+          summaryMap.set(step.step, summary)
+        }
 
-      if (log.status === 'success') {
-        summary.successCount += 1
-      } else if (log.status === 'error') {
-        summary.errorCount += 1
-      }
+        summary.totalRuns += 1
+        if (step.status === 'success') summary.successCount += 1
+        else if (step.status === 'failed') summary.failedCount += 1
+        else if (step.status === 'skipped') summary.skippedCount += 1
 
-      if (log.duration_ms) {
-        summary.avgDuration = (summary.avgDuration * (summary.totalRuns - 1) + log.duration_ms) / summary.totalRuns
+        if (step.duration_ms && step.status !== 'skipped') {
+          summary.totalDuration += step.duration_ms
+          summary.timedRuns += 1
+        }
+        if (!summary.lastRun || step.started_at > summary.lastRun) {
+          summary.lastRun = step.started_at
+        }
       }
     }
 
-    // Calculate success rates
-    const summary: CollectorSummary[] = Array.from(summaryMap.values()).map((s) => ({
-      ...s,
-      successRate: s.totalRuns > 0 ? Math.round((s.successCount / s.totalRuns) * 100) : 0,
-      avgDuration: Math.round(s.avgDuration),
-    }))
+    const summary: StepSummary[] = Array.from(summaryMap.values())
+      .map(({ totalDuration, timedRuns, ...s }) => {
+        const executed = s.successCount + s.failedCount
+        return {
+          ...s,
+          successRate: executed > 0 ? Math.round((s.successCount / executed) * 100) : 0,
+          avgDuration: timedRuns > 0 ? Math.round(totalDuration / timedRuns) : 0,
+        }
+      })
+      .sort((a, b) => a.step.localeCompare(b.step))
 
-    const response: PipelineResponse = {
-      logs: (logs as CollectionLog[]) || [],
-      summary,
-    }
+    const response: PipelineResponse = { runs: runRows, summary }
 
     return successResponse(response)
   } catch (err) {
@@ -123,23 +172,18 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * POST /api/admin/pipeline/trigger
- * Manually trigger a collection pipeline
+ * POST /api/admin/pipeline
+ * Enqueue a pipeline job for the queue worker (server/worker.ts)
  *
  * Body:
  * {
- *   pipeline: 'A' | 'B' | 'public' | 'events' | 'scoring'
+ *   pipeline?: string   // catalog id from PIPELINE_JOB_CATALOG ('A', 'events', 'poster-recovery', ...)
+ *   job?: string        // or a raw spec: 'step:density', 'from:scoring', 'manual-exhibition-events'
+ *   params?: Record<string, string>  // e.g. { batch: '...' } for replay
  * }
  *
- * Pipeline mapping (from server/run.ts):
- * - 'A': kakaoPlacesJob (카카오 지도 API)
- * - 'B': naveralBlogJob (네이버 블로그 역검색)
- * - 'public': publicDataJob (공공데이터)
- * - 'events': collectEventsJob (KOPIS + Tour API + Seoul)
- * - 'scoring': runScoringJob (점수 계산 + 키워드 로테이션)
- *
- * NOTE: This endpoint enqueues the job; actual execution happens asynchronously.
- * Check collection_logs to verify job completion.
+ * The job row is picked up by the worker (GitHub Actions poller every 10 min,
+ * or a local `npx tsx server/worker.ts`). Track it via GET /api/admin/pipeline/jobs.
  *
  * Admin role required
  */
@@ -149,68 +193,69 @@ export async function POST(request: NextRequest) {
     return errorResponse(adminCheck.error, adminCheck.status)
   }
 
-  let body: Record<string, unknown>
+  let body: { pipeline?: unknown; job?: unknown; params?: unknown }
   try {
     body = await request.json()
   } catch {
     return errorResponse('Invalid request body', 400)
   }
 
-  const { pipeline } = body as any
-
-  const pipelineNames: Record<string, string> = {
-    A: 'Kakao Places Collection',
-    B: 'Naver Blog Reverse Search',
-    public: 'Public Data Collection',
-    events: 'Events Collection',
-    scoring: 'Scoring & Keyword Rotation',
-  }
-
-  if (!pipeline || !pipelineNames[pipeline]) {
+  const job = resolveJobRequest(body)
+  if (!job) {
     return errorResponse(
-      `pipeline must be one of: ${Object.keys(pipelineNames).join(', ')}`,
+      `pipeline must be one of: ${PIPELINE_JOB_CATALOG.map((j) => j.id).join(', ')} (or job: step:<name> / from:<name>)`,
       400
     )
   }
 
-  const startTime = new Date().toISOString()
+  // Only string params are passed through to the worker
+  const params: Record<string, string> = {}
+  if (body.params && typeof body.params === 'object') {
+    for (const [key, value] of Object.entries(body.params as Record<string, unknown>)) {
+      if (typeof value === 'string' && value.trim()) params[key] = value.trim()
+    }
+  }
 
   try {
-    // Trigger pipeline execution asynchronously via child process
-    // This executes server/run.ts with the corresponding schedule mapping
-    const scheduleMap: Record<string, string> = {
-      A: '0 17 * * *', // Kakao category scan
-      B: '0 */6 * * *', // Naver blog reverse search
-      public: '0 18 * * *', // Public data collectors
-      events: '0 19 * * *', // Events collectors
-      scoring: '0 20 * * *', // Scoring + keyword rotation + density + auto-promotion
-    }
+    // Don't stack duplicates of a job that's already waiting or running
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('pipeline_jobs')
+      .select('id, status')
+      .eq('job', job)
+      .in('status', ['queued', 'running'])
+      .eq('cancel_requested', false)
+      .limit(1)
+      .maybeSingle()
 
-    const schedule = scheduleMap[pipeline]
+    if (existingError) throw existingError
+    if (existing) {
+      return errorResponse(`Job "${job}" is already ${existing.status} (#${existing.id})`, 409)
+    }
 
-    // Spawn child process to run the pipeline (non-blocking)
-    // This allows the API to return immediately while execution happens in background
-    const child = spawn('npx', ['tsx', 'server/run.ts', schedule], {
-      detached: true,
-      stdio: 'ignore',
-      env: { ...process.env },
-    })
+    const { data: inserted, error: insertError } = await supabaseAdmin
+      .from('pipeline_jobs')
+      .insert({
+        job,
+        params: Object.keys(params).length > 0 ? params : null,
+        requested_by: adminCheck.user!.id,
+      })
+      .select('*')
+      .single()
 
-    // Unref allows parent process to exit without waiting for child
-    child.unref()
+    if (insertError) throw insertError
 
-    // Log the trigger for audit purposes
-    console.log(`[POST /api/admin/pipeline/trigger] Pipeline ${pipeline} triggered with schedule "${schedule}"`)
+    await logAuditAction(adminCheck.user!.id, 'pipeline_enqueue', 'pipeline_job', String(inserted.id), {
+      job,
+      params,
+    })
 
     return successResponse({
-      status: 'enqueued',
-      pipeline,
-      message: `${pipelineNames[pipeline]} job enqueued`,
-      startTime,
-      checkStatus: 'Use GET /api/admin/pipeline to monitor collection_logs for job completion',
+      status: 'queued',
+      job: inserted,
+      checkStatus: 'Use GET /api/admin/pipeline/jobs to monitor the queue',
     })
   } catch (err) {
-    console.error('[POST /api/admin/pipeline/trigger] Error:', err)
-    return errorResponse('Failed to trigger pipeline', 500)
+    console.error('[POST /api/admin/pipeline] Error:', err)
+    return errorResponse('Failed to enqueue pipeline job', 500)
   }
 }
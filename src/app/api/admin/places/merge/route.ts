@@ -1,28 +1,36 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabase } from '@/lib/supabase-server'
+import { NextRequest } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase-admin'
 import { verifyAdmin, logAuditAction, errorResponse, successResponse } from '../../lib/admin-utils'
+import type { PlaceMergeProposal } from '@/types'
 
 interface MergeRequest {
+  sourceId?: number
+  targetId?: number
+  proposalId?: number
+}
+
+interface MergePair {
   sourceId: number
   targetId: number
+  confidence: number | null
+  reasons: string[]
 }
 
 /**
  * POST /api/admin/places/merge
- * Merge duplicate places: move all references from source to target, then delete source
+ * Merge duplicate places via merge_places() (migration 00076). The source row is
+ * kept as an inactive alias (merged_into = target) and everything moved is
+ * recorded in place_merges, so the merge can be undone with
+ * POST /api/admin/places/unmerge.
  *
- * Body:
+ * Body (one of):
  * {
- *   sourceId: number,  // Place to delete
- *   targetId: number   // Place to keep (absorb all references)
+ *   sourceId: number,  // Place to fold away
+ *   targetId: number   // Place to keep (absorbs favorites, visits, checks, mentions, tags)
+ * }
+ * {
+ *   proposalId: number // Merge every place in a place_merge_proposals group into its keeper
  * }
- *
- * Process:
- * 1. Update favorites: sourceId → targetId
- * 2. Update blog_mentions: sourceId → targetId
- * 3. Delete source place
- * 4. Record audit log
  *
  * Admin role required
  */
@@ -39,134 +47,88 @@ export async function POST(request: NextRequest) {
     return errorResponse('Invalid request body', 400)
   }
 
-  const { sourceId, targetId } = body
-
-  if (!sourceId || !targetId || typeof sourceId !== 'number' || typeof targetId !== 'number') {
-    return errorResponse('sourceId and targetId are required and must be numbers', 400)
-  }
-
-  if (sourceId === targetId) {
-    return errorResponse('sourceId and targetId must be different', 400)
-  }
+  const { sourceId, targetId, proposalId } = body
+  let proposal: PlaceMergeProposal | null = null
+  let pairs: MergePair[]
 
-  const supabase = await createServerSupabase()
-
-  try {
-    // Verify both places exist
-    const { data: sourcePlaceData, error: sourceFetchError } = await supabase
-      .from('places')
-      .select('*')
-      .eq('id', sourceId)
-      .single()
-
-    if (sourceFetchError || !sourcePlaceData) {
-      return errorResponse('Source place not found', 404)
+  if (proposalId !== undefined) {
+    if (typeof proposalId !== 'number') {
+      return errorResponse('proposalId must be a number', 400)
     }
-
-    const { data: targetPlaceData, error: targetFetchError } = await supabase
-      .from('places')
+    const { data, error } = await supabaseAdmin
+      .from('place_merge_proposals')
       .select('*')
-      .eq('id', targetId)
-      .single()
-
-    if (targetFetchError || !targetPlaceData) {
-      return errorResponse('Target place not found', 404)
+      .eq('id', proposalId)
+      .maybeSingle()
+    if (error || !data) {
+      return errorResponse('Proposal not found', 404)
     }
-
-    // 1. Update favorites: move sourceId → targetId
-    // Handle duplicate detection and migration with transaction safety
-    const { data: sourceFavs, error: favFetchError } = await supabaseAdmin
-      .from('favorites')
-      .select('user_id')
-      .eq('place_id', sourceId)
-
-    if (!favFetchError && sourceFavs && sourceFavs.length > 0) {
-      // Process each favorite, handling duplicates
-      const favoriteErrors: string[] = []
-
-      for (const fav of sourceFavs) {
-        try {
-          // Check if user already has target favorited (duplicate detection)
-          const { data: existingFav, error: checkError } = await supabaseAdmin
-            .from('favorites')
-            .select('id')
-            .eq('user_id', fav.user_id)
-            .eq('place_id', targetId)
-            .single()
-
-          if (checkError && checkError.code !== 'PGRST116') {
-            // PGRST116 means no row found, which is expected
-            throw checkError
-          }
-
-          if (!existingFav) {
-            // Safe to update: user only has source favorited
-            const { error: updateError } = await supabaseAdmin
-              .from('favorites')
-              .update({ place_id: targetId })
-              .eq('user_id', fav.user_id)
-              .eq('place_id', sourceId)
-
-            if (updateError) {
-              favoriteErrors.push(`Update failed for user ${fav.user_id}: ${updateError.message}`)
-            }
-          } else {
-            // Delete the source favorite (user has both, keep target)
-            const { error: deleteError } = await supabaseAdmin
-              .from('favorites')
-              .delete()
-              .eq('user_id', fav.user_id)
-              .eq('place_id', sourceId)
-
-            if (deleteError) {
-              favoriteErrors.push(`Delete failed for user ${fav.user_id}: ${deleteError.message}`)
-            }
-          }
-        } catch (favError) {
-          favoriteErrors.push(`Favorite ${fav.user_id}: ${favError instanceof Error ? favError.message : String(favError)}`)
-        }
-      }
-
-      // If any errors occurred during favorite migration, return error
-      if (favoriteErrors.length > 0) {
-        console.error('[POST /api/admin/places/merge] Favorite migration errors:', favoriteErrors)
-        return errorResponse(`Failed to migrate favorites: ${favoriteErrors.join('; ')}`, 500)
-      }
+    proposal = data as PlaceMergeProposal
+    if (proposal.status !== 'pending') {
+      return errorResponse(`Proposal is already ${proposal.status}`, 409)
     }
-
-    // 2. Update blog_mentions: sourceId → targetId
-    const { error: mentionsError } = await supabaseAdmin
-      .from('blog_mentions')
-      .update({ place_id: targetId })
-      .eq('place_id', sourceId)
-
-    if (mentionsError) {
-      console.error('[POST /api/admin/places/merge] blog_mentions update error:', mentionsError)
-      return errorResponse('Failed to move blog mentions', 500)
+    pairs = proposal.place_ids
+      .filter((id) => id !== proposal!.keeper_id)
+      .map((id) => ({
+        sourceId: id,
+        targetId: proposal!.keeper_id,
+        confidence: proposal!.confidence,
+        reasons: proposal!.reasons,
+      }))
+  } else {
+    if (!sourceId || !targetId || typeof sourceId !== 'number' || typeof targetId !== 'number') {
+      return errorResponse('sourceId and targetId are required and must be numbers', 400)
+    }
+    if (sourceId === targetId) {
+      return errorResponse('sourceId and targetId must be different', 400)
     }
+    pairs = [{ sourceId, targetId, confidence: null, reasons: [] }]
+  }
 
-    // 3. Delete source place (RLS bypass with service_role)
-    const { error: deleteError } = await supabaseAdmin
-      .from('places')
-      .delete()
-      .eq('id', sourceId)
+  const mergeIds: number[] = []
+  try {
+    for (const pair of pairs) {
+      const { data: mergeId, error } = await supabaseAdmin.rpc('merge_places', {
+        p_source_id: pair.sourceId,
+        p_target_id: pair.targetId,
+        p_confidence: pair.confidence,
+        p_reasons: pair.reasons,
+        p_merged_by: adminCheck.user!.id,
+        p_proposal_id: proposal?.id ?? null,
+      })
+
+      if (error) {
+        console.error('[POST /api/admin/places/merge] merge_places error:', error)
+        // P0001 = RAISE EXCEPTION in merge_places (not found, already merged, ...)
+        const status = error.code === 'P0001' ? 409 : 500
+        const done = mergeIds.length > 0 ? ` (${mergeIds.length} merged before the failure)` : ''
+        return errorResponse(`Failed to merge ${pair.sourceId} into ${pair.targetId}: ${error.message}${done}`, status)
+      }
 
-    if (deleteError) {
-      console.error('[POST /api/admin/places/merge] Delete error:', deleteError)
-      return errorResponse('Failed to delete source place', 500)
+      mergeIds.push(mergeId as number)
+      await logAuditAction(adminCheck.user!.id, 'place_merge', 'place', `${pair.sourceId}→${pair.targetId}`, {
+        mergeId,
+        proposalId: proposal?.id ?? null,
+        sourcePlaceId: pair.sourceId,
+        targetPlaceId: pair.targetId,
+      })
     }
 
-    // 4. Record audit log
-    await logAuditAction(adminCheck.user!.id, 'place_merge', 'place', `${sourceId}→${targetId}`, {
-      sourcePlaceId: sourceId,
-      targetPlaceId: targetId,
-      sourceName: sourcePlaceData.name,
-      targetName: targetPlaceData.name,
-    })
+    if (proposal) {
+      const { error } = await supabaseAdmin
+        .from('place_merge_proposals')
+        .update({ status: 'merged', reviewed_at: new Date().toISOString(), reviewed_by: adminCheck.user!.id })
+        .eq('id', proposal.id)
+      if (error) {
+        console.error('[POST /api/admin/places/merge] Proposal update error:', error)
+      }
+    }
 
+    const targetPlaceId = pairs[0].targetId
     return successResponse({
-      message: `Place ${sourceId} merged into ${targetId}`,
-      targetId,
+      message: `${pairs.length} place(s) merged into ${targetPlaceId}`,
+      targetId: targetPlaceId,
+      mergeIds,
     })
   } catch (err) {
     console.error('[POST /api/admin/places/merge] Error:', err)
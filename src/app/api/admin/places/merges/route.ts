@@ -0,0 +1,131 @@
+import { NextRequest } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { verifyAdmin, logAuditAction, errorResponse, successResponse } from '../../lib/admin-utils'
+import type { PlaceMerge, PlaceMergeProposal, PlaceMergeProposalWithPlaces } from '@/types'
+
+interface MergesResponse {
+  proposals: PlaceMergeProposalWithPlaces[]
+  merges: PlaceMerge[]
+}
+
+const PROPOSAL_PLACE_FIELDS = 'id, name, category, address, phone, source, mention_count'
+
+/**
+ * GET /api/admin/places/merges
+ * Pending merge proposals (with their places) and the merge history
+ *
+ * Query params:
+ * - limit?: number (default 50, max 200) — applies to each list
+ *
+ * Admin role required
+ */
+export async function GET(request: NextRequest) {
+  const adminCheck = await verifyAdmin(request)
+  if (adminCheck.error) {
+    return errorResponse(adminCheck.error, adminCheck.status)
+  }
+
+  const limit = Math.min(200, parseInt(request.nextUrl.searchParams.get('limit') || '50', 10))
+
+  try {
+    const [proposalsResult, mergesResult] = await Promise.all([
+      supabaseAdmin
+        .from('place_merge_proposals')
+        .select('*')
+        .eq('status', 'pending')
+        .order('confidence', { ascending: false })
+        .limit(limit),
+      supabaseAdmin
+        .from('place_merges')
+        .select('*')
+        .order('merged_at', { ascending: false })
+        .limit(limit),
+    ])
+
+    if (proposalsResult.error) throw proposalsResult.error
+    if (mergesResult.error) throw mergesResult.error
+
+    const proposals = (proposalsResult.data ?? []) as PlaceMergeProposal[]
+    const placeIds = Array.from(new Set(proposals.flatMap((p) => p.place_ids)))
+    const placesById = new Map<number, PlaceMergeProposalWithPlaces['places'][number]>()
+    if (placeIds.length > 0) {
+      const { data: places, error } = await supabaseAdmin
+        .from('places')
+        .select(PROPOSAL_PLACE_FIELDS)
+        .in('id', placeIds)
+      if (error) throw error
+      for (const place of places ?? []) placesById.set(place.id, place)
+    }
+
+    const response: MergesResponse = {
+      proposals: proposals.map((p) => ({
+        ...p,
+        // Keeper first
+        places: [...p.place_ids]
+          .sort((a, b) => Number(b === p.keeper_id) - Number(a === p.keeper_id))
+          .map((id) => placesById.get(id))
+          .filter((place): place is NonNullable<typeof place> => !!place),
+      })),
+      merges: (mergesResult.data ?? []) as PlaceMerge[],
+    }
+
+    return successResponse(response)
+  } catch (err) {
+    console.error('[GET /api/admin/places/merges] Error:', err)
+    return errorResponse('Failed to fetch merges', 500)
+  }
+}
+
+/**
+ * PATCH /api/admin/places/merges
+ * Dismiss a merge proposal (the place-resolution step won't propose the same group again)
+ *
+ * Body:
+ * {
+ *   proposalId: number
+ * }
+ *
+ * Admin role required
+ */
+export async function PATCH(request: NextRequest) {
+  const adminCheck = await verifyAdmin(request)
+  if (adminCheck.error) {
+    return errorResponse(adminCheck.error, adminCheck.status)
+  }
+
+  let body: { proposalId?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse('Invalid request body', 400)
+  }
+
+  const { proposalId } = body
+  if (!proposalId || typeof proposalId !== 'number') {
+    return errorResponse('proposalId is required and must be a number', 400)
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('place_merge_proposals')
+      .update({ status: 'dismissed', reviewed_at: new Date().toISOString(), reviewed_by: adminCheck.user!.id })
+      .eq('id', proposalId)
+      .eq('status', 'pending')
+      .select('id, place_ids')
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      return errorResponse('Pending proposal not found', 404)
+    }
+
+    await logAuditAction(adminCheck.user!.id, 'place_merge_dismiss', 'place_merge_proposal', proposalId.toString(), {
+      placeIds: data.place_ids,
+    })
+
+    return successResponse({ proposalId })
+  } catch (err) {
+    console.error('[PATCH /api/admin/places/merges] Error:', err)
+    return errorResponse('Failed to dismiss proposal', 500)
+  }
+}
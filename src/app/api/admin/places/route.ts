@@ -2,8 +2,12 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabase } from '@/lib/supabase-server'
 import { supabaseAdmin } from '@/lib/supabase-admin'
 import { verifyAdmin, logAuditAction, errorResponse, successResponse } from '../lib/admin-utils'
+import { mergeAmenities, parseAmenityText } from '@/lib/amenities'
 import type { Place } from '@/types'
 
+/** Fields place-fields resolves per source; admin edits to these are recorded as the 'admin' source */
+const PROVENANCE_FIELDS = ['phone', 'description', 'is_indoor', 'tags', 'amenities'] as const
+
 interface PlacesListResponse {
   places: Place[]
   total: number
@@ -134,6 +138,14 @@ export async function PATCH(request: NextRequest) {
       return errorResponse('Place not found', 404)
     }
 
+    // The tag editor still speaks FacilityTag; mirror amenity tags into amenities
+    if (Array.isArray(updateFields.tags)) {
+      const tagged = parseAmenityText(updateFields.tags, 'admin', new Date().toISOString())
+      if (Object.keys(tagged).length > 0) {
+        updateFields.amenities = mergeAmenities(currentPlace.amenities, tagged)
+      }
+    }
+
     // Update place
     const { data: updatedPlace, error: updateError } = await supabaseAdmin
       .from('places')
@@ -147,6 +159,22 @@ export async function PATCH(request: NextRequest) {
       return errorResponse('Failed to update place', 500)
     }
 
+    // Keep the edit from being overwritten by the place-fields step
+    const adminFields = Object.fromEntries(
+      PROVENANCE_FIELDS.filter((key) => updateFields[key] !== undefined && updateFields[key] !== null).map(
+        (key) => [key, updateFields[key]]
+      )
+    )
+    if (Object.keys(adminFields).length > 0) {
+      const { error: sourceError } = await supabaseAdmin.rpc('record_place_source', {
+        p_place_id: id,
+        p_source: 'admin',
+        p_source_id: String(id),
+        p_fields: adminFields,
+      })
+      if (sourceError) console.error('[PATCH /api/admin/places] Source record error:', sourceError)
+    }
+
     // Log audit action
     await logAuditAction(adminCheck.user!.id, 'place_edit', 'place', id.toString(), {
       before: currentPlace,
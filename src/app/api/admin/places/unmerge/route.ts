@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-admin'
+import { verifyAdmin, logAuditAction, errorResponse, successResponse } from '../../lib/admin-utils'
+
+interface UnmergeRequest {
+  mergeId: number
+}
+
+/**
+ * POST /api/admin/places/unmerge
+ * Undo a recorded merge via unmerge_place() (migration 00076)
+ *
+ * Body:
+ * {
+ *   mergeId: number  // place_merges.id
+ * }
+ *
+ * Process:
+ * 1. Favorites, visits, hidden items, verification checks and blog mentions
+ *    the merge moved go back to the source place
+ * 2. Target loses the tags, counts and empty fields the merge filled in
+ * 3. Source place is re-activated (if it was active before) and merged_into cleared
+ * 4. Record audit log
+ *
+ * Admin role required
+ */
+export async function POST(request: NextRequest) {
+  const adminCheck = await verifyAdmin(request)
+  if (adminCheck.error) {
+    return errorResponse(adminCheck.error, adminCheck.status)
+  }
+
+  let body: UnmergeRequest
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse('Invalid request body', 400)
+  }
+
+  const { mergeId } = body
+  if (!mergeId || typeof mergeId !== 'number') {
+    return errorResponse('mergeId is required and must be a number', 400)
+  }
+
+  try {
+    const { data: merge, error: fetchError } = await supabaseAdmin
+      .from('place_merges')
+      .select('id, source_place_id, target_place_id, proposal_id, status')
+      .eq('id', mergeId)
+      .maybeSingle()
+
+    if (fetchError || !merge) {
+      return errorResponse('Merge not found', 404)
+    }
+    if (merge.status !== 'merged') {
+      return errorResponse('Merge is already undone', 409)
+    }
+
+    const { error } = await supabaseAdmin.rpc('unmerge_place', {
+      p_merge_id: mergeId,
+      p_unmerged_by: adminCheck.user!.id,
+    })
+
+    if (error) {
+      console.error('[POST /api/admin/places/unmerge] unmerge_place error:', error)
+      return errorResponse(`Failed to undo merge: ${error.message}`, error.code === 'P0001' ? 409 : 500)
+    }
+
+    // An undone proposal merge should not be re-proposed as if it were new
+    if (merge.proposal_id) {
+      await supabaseAdmin
+        .from('place_merge_proposals')
+        .update({ status: 'dismissed', reviewed_at: new Date().toISOString(), reviewed_by: adminCheck.user!.id })
+        .eq('id', merge.proposal_id)
+    }
+
+    await logAuditAction(
+      adminCheck.user!.id,
+      'place_unmerge',
+      'place',
+      `${merge.source_place_id}←${merge.target_place_id}`,
+      {
+        mergeId,
+        sourcePlaceId: merge.source_place_id,
+        targetPlaceId: merge.target_place_id,
+      }
+    )
+
+    return successResponse({
+      message: `Place ${merge.source_place_id} restored from ${merge.target_place_id}`,
+      sourceId: merge.source_place_id,
+    })
+  } catch (err) {
+    console.error('[POST /api/admin/places/unmerge] Error:', err)
+    return errorResponse('Failed to undo merge', 500)
+  }
+}
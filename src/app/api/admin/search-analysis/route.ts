@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { verifyAdmin, errorResponse } from '../lib/admin-utils'
 import { supabaseAdmin } from '@/lib/supabase-admin'
+import { normalizePlaceName } from '@/lib/search'
 
 interface TopQuery {
   query: string
@@ -8,14 +9,36 @@ interface TopQuery {
   avg_results: number
 }
 
+type GapStatus = 'open' | 'closed' | 'noise'
+
 interface GapQuery {
   query: string
   count: number
+  /** search_gaps status once the search-gap step classified it */
+  gap_status: GapStatus | null
+}
+
+/** A classified gap and whether later searches found results (migration 00087) */
+interface GapTracking {
+  query: string
+  gap_type: 'place_name' | 'district_category' | 'noise'
+  keyword: string | null
+  keyword_group: string | null
+  zero_count: number
+  status: GapStatus
+  classified_at: string
+  closed_at: string | null
+  results_after: number | null
+  /** results_count of the latest search for the query */
+  latest_results: number | null
 }
 
+const GAP_TRACKING_LIMIT = 200
+
 /**
  * GET /api/admin/search-analysis
- * Returns top search queries and zero-result (gap) queries
+ * Returns top search queries, zero-result (gap) queries and the gaps the
+ * search-gap step turned into keywords, with whether they have closed since
  * Params: days (default 30), limit (default 50)
  * Admin role required
  */
@@ -59,13 +82,52 @@ export async function GET(request: NextRequest) {
       .sort((a, b) => b.count - a.count)
       .slice(0, limit)
 
+    const { data: gapRows, error: gapsError } = await supabaseAdmin
+      .from('search_gaps')
+      .select('query_norm, query, gap_type, keyword, keyword_group, zero_count, status, classified_at, closed_at, results_after')
+      .order('classified_at', { ascending: false })
+      .limit(GAP_TRACKING_LIMIT)
+
+    if (gapsError) throw gapsError
+
+    const gapStatus = new Map((gapRows ?? []).map((g) => [g.query_norm as string, g.status as GapStatus]))
+
     const gapQueries: GapQuery[] = Array.from(queryMap.entries())
       .filter(([, { totalResults, count }]) => totalResults === 0 || totalResults / count === 0)
-      .map(([query, { count }]) => ({ query, count }))
+      .map(([query, { count }]) => ({
+        query,
+        count,
+        gap_status: gapStatus.get(normalizePlaceName(query)) ?? null,
+      }))
       .sort((a, b) => b.count - a.count)
       .slice(0, limit)
 
-    return NextResponse.json({ topQueries, gapQueries })
+    // Latest outcome per tracked query (search_query_stats, maintained by a trigger on search_logs)
+    const norms = (gapRows ?? []).map((g) => g.query_norm as string)
+    const latestResults = new Map<string, number>()
+    if (norms.length > 0) {
+      const { data: stats, error: statsError } = await supabaseAdmin
+        .from('search_query_stats')
+        .select('query_norm, last_results_count')
+        .in('query_norm', norms)
+      if (statsError) throw statsError
+      for (const s of stats ?? []) latestResults.set(s.query_norm, s.last_results_count)
+    }
+
+    const gapTracking: GapTracking[] = (gapRows ?? []).map((g) => ({
+      query: g.query,
+      gap_type: g.gap_type,
+      keyword: g.keyword,
+      keyword_group: g.keyword_group,
+      zero_count: g.zero_count,
+      status: g.status,
+      classified_at: g.classified_at,
+      closed_at: g.closed_at,
+      results_after: g.results_after,
+      latest_results: latestResults.get(g.query_norm) ?? null,
+    }))
+
+    return NextResponse.json({ topQueries, gapQueries, gapTracking })
   } catch (err) {
     console.error('[GET /api/admin/search-analysis] Error:', err)
     return errorResponse('Failed to fetch search analysis', 500)
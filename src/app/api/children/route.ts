@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { ageInMonths } from '@/lib/age-range'
+import { getFamilyScope } from '../family/lib/family-scope'
+
+const MAX_CHILDREN = 10
+const MAX_NICKNAME_LENGTH = 20
+const MAX_AGE_MONTHS = 240
+
+/** 'YYYY-MM' → 'YYYY-MM-01', or null when malformed, in the future or over 20 years ago */
+function toBirthMonthDate(birthMonth: unknown): string | null {
+  if (typeof birthMonth !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(birthMonth)) return null
+  const months = ageInMonths(birthMonth)
+  if (months === null || months > MAX_AGE_MONTHS) return null
+  return `${birthMonth}-01`
+}
+
+function normalizeNickname(nickname: unknown): string | null | undefined {
+  if (nickname === undefined) return undefined
+  if (nickname === null) return null
+  if (typeof nickname !== 'string') return undefined
+  return nickname.trim() || null
+}
+
+/**
+ * GET /api/children
+ * Returns the children registered by the user and their family, oldest first
+ */
+export async function GET() {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const { userIds } = await getFamilyScope(supabase, user.id)
+  const { data, error } = await supabase
+    .from('children')
+    .select('id, nickname, birth_month, created_at')
+    .in('user_id', userIds)
+    .order('birth_month', { ascending: true })
+    .order('id', { ascending: true })
+
+  if (error) {
+    console.error('[GET /api/children] Supabase error:', error)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+
+  return NextResponse.json({ children: data ?? [] })
+}
+
+/**
+ * POST /api/children
+ * Register a child
+ * Body: { birthMonth: 'YYYY-MM', nickname?: string }
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  let body: { birthMonth?: string; nickname?: string | null }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const birthMonth = toBirthMonthDate(body.birthMonth)
+  if (!birthMonth) {
+    return NextResponse.json({ error: 'birthMonth must be a past YYYY-MM within 20 years' }, { status: 400 })
+  }
+
+  const nickname = normalizeNickname(body.nickname) ?? null
+  if (nickname && nickname.length > MAX_NICKNAME_LENGTH) {
+    return NextResponse.json(
+      { error: `nickname must be ${MAX_NICKNAME_LENGTH} characters or less` },
+      { status: 400 }
+    )
+  }
+
+  const { count } = await supabase
+    .from('children')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', user.id)
+
+  if ((count ?? 0) >= MAX_CHILDREN) {
+    return NextResponse.json({ error: `Up to ${MAX_CHILDREN} children can be registered` }, { status: 400 })
+  }
+
+  const { data, error } = await supabase
+    .from('children')
+    .insert({ user_id: user.id, birth_month: birthMonth, nickname })
+    .select('id, nickname, birth_month, created_at')
+    .single()
+
+  if (error) {
+    console.error('[POST /api/children] Supabase error:', error)
+    return NextResponse.json({ error: 'Failed to add child' }, { status: 500 })
+  }
+
+  return NextResponse.json({ child: data }, { status: 201 })
+}
+
+/**
+ * PATCH /api/children
+ * Update a child's birth month or nickname
+ * Body: { childId: number, birthMonth?: 'YYYY-MM', nickname?: string | null }
+ */
+export async function PATCH(request: NextRequest) {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  let body: { childId?: number; birthMonth?: string; nickname?: string | null }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  if (!body.childId) {
+    return NextResponse.json({ error: 'childId is required' }, { status: 400 })
+  }
+
+  const updateData: Record<string, unknown> = {}
+  if (body.birthMonth !== undefined) {
+    const birthMonth = toBirthMonthDate(body.birthMonth)
+    if (!birthMonth) {
+      return NextResponse.json({ error: 'birthMonth must be a past YYYY-MM within 20 years' }, { status: 400 })
+    }
+    updateData.birth_month = birthMonth
+  }
+  const nickname = normalizeNickname(body.nickname)
+  if (nickname !== undefined) {
+    if (nickname && nickname.length > MAX_NICKNAME_LENGTH) {
+      return NextResponse.json(
+        { error: `nickname must be ${MAX_NICKNAME_LENGTH} characters or less` },
+        { status: 400 }
+      )
+    }
+    updateData.nickname = nickname
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+  }
+
+  const { data, error } = await supabase
+    .from('children')
+    .update(updateData)
+    .eq('id', body.childId)
+    .eq('user_id', user.id)
+    .select('id, nickname, birth_month, created_at')
+    .single()
+
+  if (error) {
+    console.error('[PATCH /api/children] Supabase error:', error)
+    return NextResponse.json({ error: 'Failed to update child' }, { status: 500 })
+  }
+
+  return NextResponse.json({ child: data })
+}
+
+/**
+ * DELETE /api/children
+ * Remove a child
+ * Query: ?childId=123
+ */
+export async function DELETE(request: NextRequest) {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const childId = parseInt(request.nextUrl.searchParams.get('childId') ?? '', 10)
+
+  if (isNaN(childId)) {
+    return NextResponse.json({ error: 'childId is required' }, { status: 400 })
+  }
+
+  const { error } = await supabase
+    .from('children')
+    .delete()
+    .eq('id', childId)
+    .eq('user_id', user.id)
+
+  if (error) {
+    console.error('[DELETE /api/children] Supabase error:', error)
+    return NextResponse.json({ error: 'Failed to delete child' }, { status: 500 })
+  }
+
+  return NextResponse.json({ deleted: true })
+}
@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { COLLECTION_ITEM_NOTE_MAX, COLLECTION_ITEMS_MAX, parseNote } from '@/lib/collections'
+import { getFamilyScope } from '../../../family/lib/family-scope'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+async function parseCollectionId({ params }: RouteContext): Promise<number | null> {
+  const { id } = await params
+  const collectionId = parseInt(id, 10)
+  return isNaN(collectionId) ? null : collectionId
+}
+
+async function readBody(request: NextRequest): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json()
+    return body && typeof body === 'object' ? body : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Authenticated user whose family owns the collection, or an error response.
+ * Item rows carry no user_id, so ownership is checked on the collection.
+ */
+async function authorize(collectionId: number) {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) }
+  }
+
+  const { userIds } = await getFamilyScope(supabase, user.id)
+  const { data: collection } = await supabase
+    .from('collections')
+    .select('id')
+    .eq('id', collectionId)
+    .in('user_id', userIds)
+    .maybeSingle()
+
+  if (!collection) {
+    return { error: NextResponse.json({ error: 'Collection not found' }, { status: 404 }) }
+  }
+
+  return { supabase, user }
+}
+
+/**
+ * POST /api/collections/[id]/items
+ * Add a place or event at the end of the collection
+ * Body: { placeId?: number, eventId?: number, note?: string }
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const collectionId = await parseCollectionId(context)
+  if (collectionId === null) {
+    return NextResponse.json({ error: 'Invalid collection id' }, { status: 400 })
+  }
+
+  const body = await readBody(request)
+  if (!body) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const placeId = Number.isInteger(body.placeId) ? (body.placeId as number) : null
+  const eventId = Number.isInteger(body.eventId) ? (body.eventId as number) : null
+  if ((placeId === null) === (eventId === null)) {
+    return NextResponse.json({ error: 'Provide either placeId or eventId' }, { status: 400 })
+  }
+
+  const note = parseNote(body.note, COLLECTION_ITEM_NOTE_MAX)
+  if (note === undefined) {
+    return NextResponse.json(
+      { error: `note must be at most ${COLLECTION_ITEM_NOTE_MAX} characters` },
+      { status: 400 }
+    )
+  }
+
+  const auth = await authorize(collectionId)
+  if (auth.error) return auth.error
+  const { supabase, user } = auth
+
+  const { data: last, count } = await supabase
+    .from('collection_items')
+    .select('position', { count: 'exact' })
+    .eq('collection_id', collectionId)
+    .order('position', { ascending: false })
+    .limit(1)
+
+  if ((count ?? 0) >= COLLECTION_ITEMS_MAX) {
+    return NextResponse.json({ error: `At most ${COLLECTION_ITEMS_MAX} items` }, { status: 409 })
+  }
+
+  const { data, error } = await supabase
+    .from('collection_items')
+    .insert({
+      collection_id: collectionId,
+      place_id: placeId,
+      event_id: eventId,
+      note,
+      position: (last?.[0]?.position ?? -1) + 1,
+      added_by: user.id,
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'Already in this collection' }, { status: 409 })
+    }
+    console.error('[POST /api/collections/[id]/items] Insert error:', error)
+    return NextResponse.json({ error: 'Failed to add item' }, { status: 500 })
+  }
+
+  return NextResponse.json({ item: data }, { status: 201 })
+}
+
+/**
+ * PATCH /api/collections/[id]/items
+ * Edit an item's note
+ * Body: { itemId: number, note: string | null }
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const collectionId = await parseCollectionId(context)
+  if (collectionId === null) {
+    return NextResponse.json({ error: 'Invalid collection id' }, { status: 400 })
+  }
+
+  const body = await readBody(request)
+  if (!body || !Number.isInteger(body.itemId)) {
+    return NextResponse.json({ error: 'itemId is required' }, { status: 400 })
+  }
+
+  const note = parseNote(body.note, COLLECTION_ITEM_NOTE_MAX)
+  if (note === undefined) {
+    return NextResponse.json(
+      { error: `note must be at most ${COLLECTION_ITEM_NOTE_MAX} characters` },
+      { status: 400 }
+    )
+  }
+
+  const auth = await authorize(collectionId)
+  if (auth.error) return auth.error
+
+  const { data, error } = await auth.supabase
+    .from('collection_items')
+    .update({ note })
+    .eq('id', body.itemId as number)
+    .eq('collection_id', collectionId)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    console.error('[PATCH /api/collections/[id]/items] Update error:', error)
+    return NextResponse.json({ error: 'Failed to update item' }, { status: 500 })
+  }
+  if (!data) {
+    return NextResponse.json({ error: 'Item not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ item: data })
+}
+
+/**
+ * DELETE /api/collections/[id]/items?itemId=123 (or ?placeId= / ?eventId=)
+ * Remove an item from the collection
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const collectionId = await parseCollectionId(context)
+  if (collectionId === null) {
+    return NextResponse.json({ error: 'Invalid collection id' }, { status: 400 })
+  }
+
+  const { searchParams } = request.nextUrl
+  const itemId = parseInt(searchParams.get('itemId') ?? '', 10)
+  const placeId = parseInt(searchParams.get('placeId') ?? '', 10)
+  const eventId = parseInt(searchParams.get('eventId') ?? '', 10)
+  if (isNaN(itemId) && isNaN(placeId) && isNaN(eventId)) {
+    return NextResponse.json({ error: 'itemId, placeId or eventId is required' }, { status: 400 })
+  }
+
+  const auth = await authorize(collectionId)
+  if (auth.error) return auth.error
+
+  let query = auth.supabase.from('collection_items').delete().eq('collection_id', collectionId)
+  if (!isNaN(itemId)) query = query.eq('id', itemId)
+  else if (!isNaN(placeId)) query = query.eq('place_id', placeId)
+  else query = query.eq('event_id', eventId)
+
+  const { error } = await query
+
+  if (error) {
+    console.error('[DELETE /api/collections/[id]/items] Supabase error:', error)
+    return NextResponse.json({ error: 'Failed to remove item' }, { status: 500 })
+  }
+
+  return NextResponse.json({ deleted: true })
+}
@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { addedByName } from '@/lib/family'
+import { parseCollectionInput, reorderPositions } from '@/lib/collections'
+import type { Collection, CollectionDetailResponse, CollectionItem } from '@/types'
+import { getFamilyScope, type FamilyScope } from '../../family/lib/family-scope'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+async function parseCollectionId({ params }: RouteContext): Promise<number | null> {
+  const { id } = await params
+  const collectionId = parseInt(id, 10)
+  return isNaN(collectionId) ? null : collectionId
+}
+
+async function readBody(request: NextRequest): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json()
+    return body && typeof body === 'object' ? body : null
+  } catch {
+    return null
+  }
+}
+
+/** The collection with its ordered items, if it belongs to the user's family */
+async function loadCollection(
+  supabase: SupabaseClient,
+  collectionId: number,
+  userId: string,
+  scope: FamilyScope
+): Promise<CollectionDetailResponse | null> {
+  const { data, error } = await supabase
+    .from('collections')
+    .select('*, collection_items(*, places(*), events(*))')
+    .eq('id', collectionId)
+    .in('user_id', scope.userIds)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  const { collection_items, ...row } = data
+  const items = ((collection_items ?? []) as CollectionItem[]).sort(
+    (a, b) => a.position - b.position || a.id - b.id
+  )
+  const collection: Collection = {
+    ...row,
+    item_count: items.length,
+    added_by: addedByName(row.user_id, userId, scope.names),
+  }
+  return { collection, items }
+}
+
+/**
+ * GET /api/collections/[id]
+ * Returns: CollectionDetailResponse — the collection and its items in order
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const collectionId = await parseCollectionId(context)
+  if (collectionId === null) {
+    return NextResponse.json({ error: 'Invalid collection id' }, { status: 400 })
+  }
+
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  try {
+    const scope = await getFamilyScope(supabase, user.id)
+    const detail = await loadCollection(supabase, collectionId, user.id, scope)
+    if (!detail) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+    return NextResponse.json(detail)
+  } catch (err) {
+    console.error('[GET /api/collections/[id]] Supabase error:', err)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+}
+
+/**
+ * PATCH /api/collections/[id]
+ * Body: { name?, note?, shared?: boolean, order?: number[] (every item id) }
+ * shared: true issues a share token (kept if already shared); false revokes it.
+ * Returns: CollectionDetailResponse
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const collectionId = await parseCollectionId(context)
+  if (collectionId === null) {
+    return NextResponse.json({ error: 'Invalid collection id' }, { status: 400 })
+  }
+
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const body = await readBody(request)
+  if (!body) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const parsed = parseCollectionInput(body, { partial: true })
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+  if (body.shared !== undefined && typeof body.shared !== 'boolean') {
+    return NextResponse.json({ error: 'shared must be a boolean' }, { status: 400 })
+  }
+
+  try {
+    const scope = await getFamilyScope(supabase, user.id)
+    const detail = await loadCollection(supabase, collectionId, user.id, scope)
+    if (!detail) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+    }
+
+    const updateData: Record<string, unknown> = { ...parsed.value }
+    if (body.shared === true && !detail.collection.share_token) {
+      updateData.share_token = crypto.randomUUID().replace(/-/g, '')
+    } else if (body.shared === false) {
+      updateData.share_token = null
+    }
+
+    if (Object.keys(updateData).length > 0) {
+      const { error } = await supabase.from('collections').update(updateData).eq('id', collectionId)
+      if (error) throw error
+    }
+
+    if (body.order !== undefined) {
+      const positions = reorderPositions(detail.items.map((i) => i.id), body.order)
+      if (!positions) {
+        return NextResponse.json({ error: 'order must list every item once' }, { status: 400 })
+      }
+      const results = await Promise.all(
+        positions.map(({ id, position }) =>
+          supabase.from('collection_items').update({ position }).eq('id', id).eq('collection_id', collectionId)
+        )
+      )
+      const failed = results.find((r) => r.error)
+      if (failed) throw failed.error
+    }
+
+    return NextResponse.json(await loadCollection(supabase, collectionId, user.id, scope))
+  } catch (err) {
+    console.error('[PATCH /api/collections/[id]] Supabase error:', err)
+    return NextResponse.json({ error: 'Failed to update collection' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/collections/[id]
+ * Delete a collection and its items (the places / events stay favorited)
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const collectionId = await parseCollectionId(context)
+  if (collectionId === null) {
+    return NextResponse.json({ error: 'Invalid collection id' }, { status: 400 })
+  }
+
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const { userIds } = await getFamilyScope(supabase, user.id)
+  const { data, error } = await supabase
+    .from('collections')
+    .delete()
+    .eq('id', collectionId)
+    .in('user_id', userIds)
+    .select('id')
+
+  if (error) {
+    console.error('[DELETE /api/collections/[id]] Supabase error:', error)
+    return NextResponse.json({ error: 'Failed to delete collection' }, { status: 500 })
+  }
+  if (!data || data.length === 0) {
+    return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ deleted: true })
+}
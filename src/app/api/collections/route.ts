@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { addedByName } from '@/lib/family'
+import { COLLECTIONS_PER_USER_MAX, parseCollectionInput, reorderPositions } from '@/lib/collections'
+import type { Collection, CollectionsResponse } from '@/types'
+import { getFamilyScope } from '../family/lib/family-scope'
+
+async function readBody(request: NextRequest): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json()
+    return body && typeof body === 'object' ? body : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * GET /api/collections[?placeId=|?eventId=]
+ * Returns: the family's collections in order, with item counts. With placeId /
+ * eventId each collection also reports whether it holds that item (picker).
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const { searchParams } = request.nextUrl
+  const placeId = parseInt(searchParams.get('placeId') ?? '', 10)
+  const eventId = parseInt(searchParams.get('eventId') ?? '', 10)
+
+  const { userIds, names } = await getFamilyScope(supabase, user.id)
+  const { data, error } = await supabase
+    .from('collections')
+    .select('*, collection_items(place_id, event_id)')
+    .in('user_id', userIds)
+    .order('position', { ascending: true })
+    .order('id', { ascending: true })
+
+  if (error) {
+    console.error('[GET /api/collections] Supabase error:', error)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+
+  const collections: Collection[] = (data ?? []).map(({ collection_items, ...row }) => {
+    const items = (collection_items ?? []) as { place_id: number | null; event_id: number | null }[]
+    const collection: Collection = {
+      ...row,
+      item_count: items.length,
+      added_by: addedByName(row.user_id, user.id, names),
+    }
+    if (!isNaN(placeId)) collection.contains = items.some((i) => i.place_id === placeId)
+    else if (!isNaN(eventId)) collection.contains = items.some((i) => i.event_id === eventId)
+    return collection
+  })
+
+  const response: CollectionsResponse = { collections }
+  return NextResponse.json(response)
+}
+
+/**
+ * POST /api/collections
+ * Create a collection at the end of the list
+ * Body: { name: string, note?: string }
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const body = await readBody(request)
+  if (!body) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const parsed = parseCollectionInput(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+
+  const { userIds } = await getFamilyScope(supabase, user.id)
+  const { data: last, count } = await supabase
+    .from('collections')
+    .select('position', { count: 'exact' })
+    .in('user_id', userIds)
+    .order('position', { ascending: false })
+    .limit(1)
+
+  if ((count ?? 0) >= COLLECTIONS_PER_USER_MAX) {
+    return NextResponse.json({ error: `At most ${COLLECTIONS_PER_USER_MAX} collections` }, { status: 409 })
+  }
+
+  const { data, error } = await supabase
+    .from('collections')
+    .insert({ ...parsed.value, user_id: user.id, position: (last?.[0]?.position ?? -1) + 1 })
+    .select('*')
+    .single()
+
+  if (error) {
+    console.error('[POST /api/collections] Insert error:', error)
+    return NextResponse.json({ error: 'Failed to create collection' }, { status: 500 })
+  }
+
+  const collection: Collection = { ...data, item_count: 0, added_by: null }
+  return NextResponse.json({ collection }, { status: 201 })
+}
+
+/**
+ * PATCH /api/collections
+ * Reorder the family's collections
+ * Body: { order: number[] } — every collection id, in the new order
+ */
+export async function PATCH(request: NextRequest) {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const body = await readBody(request)
+  if (!body) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const { userIds } = await getFamilyScope(supabase, user.id)
+  const { data: current, error: selectError } = await supabase
+    .from('collections')
+    .select('id')
+    .in('user_id', userIds)
+
+  if (selectError) {
+    console.error('[PATCH /api/collections] Select error:', selectError)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+
+  const positions = reorderPositions((current ?? []).map((c) => c.id), body.order)
+  if (!positions) {
+    return NextResponse.json({ error: 'order must list every collection once' }, { status: 400 })
+  }
+
+  const results = await Promise.all(
+    positions.map(({ id, position }) => supabase.from('collections').update({ position }).eq('id', id))
+  )
+  const failed = results.find((r) => r.error)
+  if (failed) {
+    console.error('[PATCH /api/collections] Update error:', failed.error)
+    return NextResponse.json({ error: 'Failed to reorder collections' }, { status: 500 })
+  }
+
+  return NextResponse.json({ reordered: true })
+}
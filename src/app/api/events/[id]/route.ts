@@ -1,17 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabase } from '@/lib/supabase-server'
-import type { Event, BlogMention } from '@/types'
-
-export interface EventDetailResponse {
-  event: Event
-  topPosts: BlogMention[]
-  isFavorited: boolean
-  isHidden: boolean
-}
+import { getFamilyScope } from '../../family/lib/family-scope'
+import type { Event, BlogMention, EventSourceLink, EventDetailResponse } from '@/types'
 
 /**
  * GET /api/events/[id]
- * Returns: event row + isFavorited (login user)
+ * Returns: event row + linked source listings (event_sources) + isFavorited (login user)
  */
 export async function GET(
   request: NextRequest,
@@ -27,7 +21,7 @@ export async function GET(
   const supabase = await createServerSupabase()
 
   // Fetch event + top blog posts + user session
-  const [eventResult, mentionsResult, userResult] = await Promise.all([
+  const [eventResult, mentionsResult, sourcesResult, userResult] = await Promise.all([
     supabase.from('events').select('*').eq('id', eventId).single(),
     supabase
       .from('blog_mentions')
@@ -38,6 +32,11 @@ export async function GET(
       .order('relevance_score', { ascending: false })
       .order('post_date', { ascending: false })
       .limit(5),
+    supabase
+      .from('event_sources')
+      .select('source, source_url, last_seen_at')
+      .eq('event_id', eventId)
+      .order('last_seen_at', { ascending: false }),
     supabase.auth.getUser(),
   ])
 
@@ -51,32 +50,34 @@ export async function GET(
 
   const event = eventResult.data as Event
 
-  // Check if current user has favorited / hidden this event
+  // Check if the user's family has favorited / hidden this event
   let isFavorited = false
   let isHidden = false
   const user = userResult.data?.user
 
   if (user) {
+    const { userIds } = await getFamilyScope(supabase, user.id)
     const [favResult, hideResult] = await Promise.all([
       supabase
         .from('favorites')
         .select('id')
-        .eq('user_id', user.id)
+        .in('user_id', userIds)
         .eq('event_id', eventId)
-        .maybeSingle(),
+        .limit(1),
       supabase
         .from('user_hidden_items')
         .select('id')
-        .eq('user_id', user.id)
+        .in('user_id', userIds)
         .eq('event_id', eventId)
-        .maybeSingle(),
+        .limit(1),
     ])
 
-    isFavorited = !!favResult.data
-    isHidden = !!hideResult.data
+    isFavorited = (favResult.data?.length ?? 0) > 0
+    isHidden = (hideResult.data?.length ?? 0) > 0
   }
 
   const topPosts = (mentionsResult.data as BlogMention[]) ?? []
-  const response: EventDetailResponse = { event, topPosts, isFavorited, isHidden }
+  const sources = (sourcesResult.data as EventSourceLink[]) ?? []
+  const response: EventDetailResponse = { event, topPosts, sources, isFavorited, isHidden }
   return NextResponse.json(response)
 }
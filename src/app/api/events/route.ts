@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabase } from '@/lib/supabase-server'
+import { boostByChildAge, parseChildAgeParam } from '@/lib/age-range'
+import { parseMaxPriceParam } from '@/lib/price'
 import type { Event } from '@/types'
 
 /**
@@ -31,9 +33,13 @@ function decodeCursor(raw: string): CursorPayload | null {
 
 /**
  * GET /api/events
- * Query params: category?, sub_category?, status?, cursor?, limit?
+ * Query params: category?, sub_category?, status?, childAgeMonths?, free?, maxPrice?, cursor?, limit?
  * - status=running → start_date <= today AND (end_date >= today OR end_date IS NULL)
  * - sub_category=전시,체험 → comma-separated filter
+ * - childAgeMonths=14 → drop events whose age range excludes the child (unknown
+ *   ranges are kept) and move age-targeted matches to the top of the page
+ * - free=true → only events parsed as free; maxPrice=10000 → child price (adult
+ *   when no child tier) at most 10,000원. Both drop events with unknown prices.
  * Returns: paginated events list
  */
 export async function GET(request: NextRequest) {
@@ -47,6 +53,9 @@ export async function GET(request: NextRequest) {
 
   const status = searchParams.get('status')
   const sort = searchParams.get('sort')
+  const childAgeMonths = parseChildAgeParam(searchParams.get('childAgeMonths'))
+  const freeOnly = searchParams.get('free') === 'true'
+  const maxPrice = parseMaxPriceParam(searchParams.get('maxPrice'))
 
   const cursorRaw = searchParams.get('cursor') ?? null
   const cursorPayload = cursorRaw ? decodeCursor(cursorRaw) : null
@@ -99,6 +108,21 @@ export async function GET(request: NextRequest) {
     query = query.in('sub_category', subCategories)
   }
 
+  // Child age filter (NULL bound = no limit)
+  if (childAgeMonths !== null) {
+    query = query
+      .or(`age_min_months.is.null,age_min_months.lte.${childAgeMonths}`)
+      .or(`age_max_months.is.null,age_max_months.gte.${childAgeMonths}`)
+  }
+
+  // Price filters (see src/lib/price.ts entryPrice)
+  if (freeOnly) {
+    query = query.eq('is_free', true)
+  }
+  if (maxPrice !== null) {
+    query = query.or(`price_child.lte.${maxPrice},and(price_child.is.null,price_adult.lte.${maxPrice})`)
+  }
+
   // Keyset pagination cursor filter (only for non-running queries)
   if (!isRunning && cursorPayload?.type === 'recent') {
     const { createdAt, id } = cursorPayload
@@ -124,6 +148,11 @@ export async function GET(request: NextRequest) {
     events = events.slice(0, limit)
   }
 
+  // Boost within the page only, so the keyset cursor stays valid
+  if (childAgeMonths !== null) {
+    events = boostByChildAge(events, childAgeMonths)
+  }
+
   const response: EventsResponse = { events, nextCursor }
   return NextResponse.json(response)
 }
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { loadFamily } from '../lib/family-scope'
+
+/**
+ * POST /api/family/invite
+ * Issue a new invite code (owner only); the previous link stops working
+ * Returns: FamilyResponse
+ */
+export async function POST() {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const admin = getSupabaseAdmin()
+  const { data: membership } = await admin
+    .from('family_members')
+    .select('family_id, role')
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Not in a family' }, { status: 404 })
+  }
+  if (membership.role !== 'owner') {
+    return NextResponse.json({ error: 'Only the owner can reset the invite link' }, { status: 403 })
+  }
+
+  const { error } = await admin
+    .from('families')
+    .update({ invite_code: crypto.randomUUID().replace(/-/g, '') })
+    .eq('id', membership.family_id)
+
+  if (error) {
+    console.error('[POST /api/family/invite] Update error:', error)
+    return NextResponse.json({ error: 'Failed to reset invite' }, { status: 500 })
+  }
+
+  return NextResponse.json(await loadFamily(user.id))
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { FAMILY_MAX_MEMBERS, isInviteCode } from '@/lib/family'
+import { loadFamily } from '../lib/family-scope'
+
+/**
+ * POST /api/family/join
+ * Join a family from an invite link (/family/join/<code>)
+ * Body: { code: string }
+ * Returns: FamilyResponse; 404 unknown code, 409 already in another family or full
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  let body: { code?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  if (!isInviteCode(body.code)) {
+    return NextResponse.json({ error: 'Invalid invite code' }, { status: 400 })
+  }
+
+  const admin = getSupabaseAdmin()
+  const { data: family, error: familyError } = await admin
+    .from('families')
+    .select('id')
+    .eq('invite_code', body.code)
+    .maybeSingle()
+
+  if (familyError) {
+    console.error('[POST /api/family/join] Supabase error:', familyError)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+  if (!family) {
+    return NextResponse.json({ error: 'Invite not found' }, { status: 404 })
+  }
+
+  const { data: existing } = await admin
+    .from('family_members')
+    .select('family_id')
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (existing?.family_id === family.id) {
+    return NextResponse.json(await loadFamily(user.id))
+  }
+  if (existing) {
+    return NextResponse.json({ error: 'Already in a family' }, { status: 409 })
+  }
+
+  const { count } = await admin
+    .from('family_members')
+    .select('*', { count: 'exact', head: true })
+    .eq('family_id', family.id)
+
+  if ((count ?? 0) >= FAMILY_MAX_MEMBERS) {
+    return NextResponse.json({ error: 'Family is full' }, { status: 409 })
+  }
+
+  const { error: joinError } = await admin
+    .from('family_members')
+    .insert({ family_id: family.id, user_id: user.id, role: 'member' })
+
+  if (joinError) {
+    if (joinError.code === '23505') {
+      return NextResponse.json({ error: 'Already in a family' }, { status: 409 })
+    }
+    console.error('[POST /api/family/join] Insert error:', joinError)
+    return NextResponse.json({ error: 'Failed to join family' }, { status: 500 })
+  }
+
+  return NextResponse.json(await loadFamily(user.id))
+}
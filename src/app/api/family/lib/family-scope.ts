@@ -0,0 +1,71 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { memberDisplayName } from '@/lib/family'
+import type { Family, FamilyMember, FamilyResponse } from '@/types'
+
+export interface FamilyScope {
+  /** The user plus their family members; rows of these users are shared */
+  userIds: string[]
+  /** Display names of the other members, by user id */
+  names: Record<string, string>
+}
+
+/**
+ * Resolve whose favorites / hidden items / visits the user shares.
+ * family_members RLS only exposes the caller's own family, so every row read
+ * with the user's client is a co-member. Names come from profiles via the
+ * service role (profiles are readable only by their owner).
+ */
+export async function getFamilyScope(supabase: SupabaseClient, userId: string): Promise<FamilyScope> {
+  const { data, error } = await supabase.from('family_members').select('user_id')
+  if (error) console.error('[family-scope] family_members error:', error)
+
+  const others = (data ?? []).map((m) => m.user_id as string).filter((id) => id !== userId)
+  if (others.length === 0) return { userIds: [userId], names: {} }
+
+  const { data: profiles, error: profileError } = await getSupabaseAdmin()
+    .from('profiles')
+    .select('id, display_name, email')
+    .in('id', others)
+  if (profileError) console.error('[family-scope] profiles error:', profileError)
+
+  const names: Record<string, string> = {}
+  for (const profile of profiles ?? []) {
+    names[profile.id] = memberDisplayName(profile)
+  }
+  return { userIds: [userId, ...others], names }
+}
+
+/** The user's family and its members, or { family: null, members: [] } */
+export async function loadFamily(userId: string): Promise<FamilyResponse> {
+  const admin = getSupabaseAdmin()
+  const { data: membership, error } = await admin
+    .from('family_members')
+    .select('family_id, families(id, name, invite_code, created_at)')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!membership) return { family: null, members: [] }
+
+  const { data: rows, error: membersError } = await admin
+    .from('family_members')
+    .select('user_id, role, joined_at, profiles(display_name, email)')
+    .eq('family_id', membership.family_id)
+    .order('joined_at', { ascending: true })
+
+  if (membersError) throw membersError
+
+  const members: FamilyMember[] = (rows ?? []).map((row) => {
+    const profile = row.profiles as unknown as { display_name: string | null; email: string | null } | null
+    return {
+      user_id: row.user_id,
+      name: memberDisplayName(profile ?? { display_name: null, email: null }),
+      role: row.role,
+      joined_at: row.joined_at,
+      is_me: row.user_id === userId,
+    }
+  })
+
+  return { family: membership.families as unknown as Family, members }
+}
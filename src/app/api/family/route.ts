@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { FAMILY_NAME_MAX, nextOwner } from '@/lib/family'
+import { loadFamily } from './lib/family-scope'
+
+/**
+ * GET /api/family
+ * Returns: FamilyResponse — the user's family (with invite code) and members
+ */
+export async function GET() {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json(await loadFamily(user.id))
+  } catch (err) {
+    console.error('[GET /api/family] Supabase error:', err)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/family
+ * Create a family with the user as owner
+ * Body: { name?: string }
+ * Returns: FamilyResponse (201); 409 when the user is already in a family
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  let body: { name?: string }
+  try {
+    body = await request.json()
+  } catch {
+    body = {}
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() || null : null
+  if (name && name.length > FAMILY_NAME_MAX) {
+    return NextResponse.json({ error: `name must be at most ${FAMILY_NAME_MAX} characters` }, { status: 400 })
+  }
+
+  const admin = getSupabaseAdmin()
+  const { data: existing } = await admin
+    .from('family_members')
+    .select('family_id')
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (existing) {
+    return NextResponse.json({ error: 'Already in a family' }, { status: 409 })
+  }
+
+  const { data: family, error: familyError } = await admin
+    .from('families')
+    .insert({ name, created_by: user.id })
+    .select('id')
+    .single()
+
+  if (familyError) {
+    console.error('[POST /api/family] Insert error:', familyError)
+    return NextResponse.json({ error: 'Failed to create family' }, { status: 500 })
+  }
+
+  const { error: memberError } = await admin
+    .from('family_members')
+    .insert({ family_id: family.id, user_id: user.id, role: 'owner' })
+
+  if (memberError) {
+    await admin.from('families').delete().eq('id', family.id)
+    if (memberError.code === '23505') {
+      return NextResponse.json({ error: 'Already in a family' }, { status: 409 })
+    }
+    console.error('[POST /api/family] Member insert error:', memberError)
+    return NextResponse.json({ error: 'Failed to create family' }, { status: 500 })
+  }
+
+  return NextResponse.json(await loadFamily(user.id), { status: 201 })
+}
+
+/**
+ * DELETE /api/family
+ * Leave the family. The user's own favorites / hidden items / visits leave
+ * with them. An owner hands the family to the earliest remaining member; the
+ * last member leaving deletes it.
+ */
+export async function DELETE() {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const admin = getSupabaseAdmin()
+  const { data: membership } = await admin
+    .from('family_members')
+    .select('family_id, role')
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Not in a family' }, { status: 404 })
+  }
+
+  const { data: members, error: membersError } = await admin
+    .from('family_members')
+    .select('user_id, joined_at')
+    .eq('family_id', membership.family_id)
+
+  if (membersError) {
+    console.error('[DELETE /api/family] Supabase error:', membersError)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+
+  const successor = nextOwner(members ?? [], user.id)
+
+  if (!successor) {
+    const { error } = await admin.from('families').delete().eq('id', membership.family_id)
+    if (error) {
+      console.error('[DELETE /api/family] Delete error:', error)
+      return NextResponse.json({ error: 'Failed to leave family' }, { status: 500 })
+    }
+    return NextResponse.json({ left: true })
+  }
+
+  const { error: leaveError } = await admin
+    .from('family_members')
+    .delete()
+    .eq('family_id', membership.family_id)
+    .eq('user_id', user.id)
+
+  if (leaveError) {
+    console.error('[DELETE /api/family] Delete error:', leaveError)
+    return NextResponse.json({ error: 'Failed to leave family' }, { status: 500 })
+  }
+
+  if (membership.role === 'owner') {
+    const { error: ownerError } = await admin
+      .from('family_members')
+      .update({ role: 'owner' })
+      .eq('family_id', membership.family_id)
+      .eq('user_id', successor.user_id)
+    if (ownerError) console.error('[DELETE /api/family] Owner transfer error:', ownerError)
+  }
+
+  return NextResponse.json({ left: true })
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabase } from '@/lib/supabase-server'
+import { addedByName, dedupeByTarget } from '@/lib/family'
+import { getFamilyScope } from '../family/lib/family-scope'
 
 /**
  * POST /api/favorites
@@ -7,7 +9,8 @@ import { createServerSupabase } from '@/lib/supabase-server'
  * Body: { placeId?: number, eventId?: number }
  * Response: { favorited: boolean }
  *
- * Requires authentication (enforced by RLS: auth.uid() = user_id)
+ * Favorites are shared with the user's family: unfavoriting removes the item
+ * for everyone, whoever added it. Requires authentication (RLS: family rows).
  */
 export async function POST(request: NextRequest) {
   const supabase = await createServerSupabase()
@@ -45,11 +48,13 @@ export async function POST(request: NextRequest) {
     )
   }
 
-  // Build query to check existing favorite
+  const { userIds } = await getFamilyScope(supabase, user.id)
+
+  // Build query to check existing favorite (any family member's)
   let existingQuery = supabase
     .from('favorites')
     .select('id')
-    .eq('user_id', user.id)
+    .in('user_id', userIds)
 
   if (placeId) {
     existingQuery = existingQuery.eq('place_id', placeId)
@@ -57,20 +62,20 @@ export async function POST(request: NextRequest) {
     existingQuery = existingQuery.eq('event_id', eventId!)
   }
 
-  const { data: existing, error: selectError } = await existingQuery.maybeSingle()
+  const { data: existing, error: selectError } = await existingQuery
 
   if (selectError) {
     console.error('[POST /api/favorites] Select error:', selectError)
     return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
   }
 
-  if (existing) {
+  if (existing && existing.length > 0) {
     // Already favorited → remove (toggle off)
     const { error: deleteError } = await supabase
       .from('favorites')
       .delete()
-      .eq('id', existing.id)
-      .eq('user_id', user.id) // Ensure user owns the record (belt + suspenders with RLS)
+      .in('id', existing.map((f) => f.id))
+      .in('user_id', userIds) // Only the family's records (belt + suspenders with RLS)
 
     if (deleteError) {
       console.error('[POST /api/favorites] Delete error:', deleteError)
@@ -99,8 +104,8 @@ export async function POST(request: NextRequest) {
 
 /**
  * GET /api/favorites
- * Returns paginated list of user's favorited places
- * Used by the /favorites page
+ * Returns paginated list of the family's favorited places
+ * Used by the /favorites page. Each favorite carries added_by (null = the viewer).
  */
 export async function GET(request: NextRequest) {
   const supabase = await createServerSupabase()
@@ -120,10 +125,12 @@ export async function GET(request: NextRequest) {
   const limit = 20
   const fetchLimit = limit + 1
 
+  const { userIds, names } = await getFamilyScope(supabase, user.id)
+
   let query = supabase
     .from('favorites')
     .select('*, places(*)')
-    .eq('user_id', user.id)
+    .in('user_id', userIds)
     .not('place_id', 'is', null)
     .order('created_at', { ascending: false })
     .limit(fetchLimit)
@@ -139,13 +146,18 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
   }
 
-  const favorites = data ?? []
+  const rows = data ?? []
   let nextCursor: number | null = null
 
-  if (favorites.length > limit) {
-    nextCursor = favorites[limit - 1].id
-    favorites.splice(limit)
+  if (rows.length > limit) {
+    nextCursor = rows[limit - 1].id
+    rows.splice(limit)
   }
 
+  const favorites = dedupeByTarget(rows).map((fav) => ({
+    ...fav,
+    added_by: addedByName(fav.user_id, user.id, names),
+  }))
+
   return NextResponse.json({ favorites, nextCursor })
 }
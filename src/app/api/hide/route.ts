@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabase } from '@/lib/supabase-server'
+import { getFamilyScope } from '../family/lib/family-scope'
 
 /**
  * POST /api/hide
  * Toggle hide: if exists → delete (unhide), if not → insert (hide)
  * Body: { placeId?: number, eventId?: number }
  * Response: { hidden: boolean }
+ *
+ * Hidden items are shared with the user's family; unhiding clears the item for everyone.
  */
 export async function POST(request: NextRequest) {
   const supabase = await createServerSupabase()
@@ -36,10 +39,12 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Provide either placeId or eventId, not both' }, { status: 400 })
   }
 
+  const { userIds } = await getFamilyScope(supabase, user.id)
+
   let existingQuery = supabase
     .from('user_hidden_items')
     .select('id')
-    .eq('user_id', user.id)
+    .in('user_id', userIds)
 
   if (placeId) {
     existingQuery = existingQuery.eq('place_id', placeId)
@@ -47,19 +52,19 @@ export async function POST(request: NextRequest) {
     existingQuery = existingQuery.eq('event_id', eventId!)
   }
 
-  const { data: existing, error: selectError } = await existingQuery.maybeSingle()
+  const { data: existing, error: selectError } = await existingQuery
 
   if (selectError) {
     console.error('[POST /api/hide] Select error:', selectError)
     return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
   }
 
-  if (existing) {
+  if (existing && existing.length > 0) {
     const { error: deleteError } = await supabase
       .from('user_hidden_items')
       .delete()
-      .eq('id', existing.id)
-      .eq('user_id', user.id)
+      .in('id', existing.map((h) => h.id))
+      .in('user_id', userIds)
 
     if (deleteError) {
       console.error('[POST /api/hide] Delete error:', deleteError)
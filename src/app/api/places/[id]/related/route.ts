@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import {
+  complementaryCategories,
+  rankNearbyPlaces,
+  rankSimilarPlaces,
+  SIMILAR_RADIUS_DEG,
+  WALKING_RADIUS_DEG,
+} from '@/lib/related-places'
+import { getFamilyScope } from '../../../family/lib/family-scope'
+import type { Place, PlaceRelatedResponse } from '@/types'
+
+/** Candidates fetched per list before ranking in JS */
+const CANDIDATES = 100
+const CO_MENTIONS = 30
+
+/**
+ * GET /api/places/[id]/related
+ * Returns: { similar, nearby } (see src/lib/related-places.ts)
+ * similar: co-mentioned in the same blog posts (place_co_mentions, migration
+ * 00089), same sub_category within ~10km, shared tags as extra weight.
+ * nearby: complementary categories within stroller walking distance
+ * (식당/카페 next to a 놀이 place). The family's hidden places are left out.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const placeId = parseInt(id, 10)
+
+  if (isNaN(placeId)) {
+    return NextResponse.json({ error: 'Invalid place id' }, { status: 400 })
+  }
+
+  const supabase = await createServerSupabase()
+
+  const { data: placeData, error: placeError } = await supabase
+    .from('places')
+    .select('*')
+    .eq('id', placeId)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (placeError) {
+    console.error('[GET /api/places/[id]/related] place error:', placeError)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+  if (!placeData) {
+    return NextResponse.json({ error: 'Place not found' }, { status: 404 })
+  }
+  const place = placeData as Place
+
+  const activePlaces = () =>
+    supabase.from('places').select('*').eq('is_active', true).eq('is_hidden', false).neq('id', placeId)
+  const complements = complementaryCategories(place.category)
+
+  const [coMentionResult, similarResult, nearbyResult, userResult] = await Promise.all([
+    supabase.rpc('place_co_mentions', { p_place_id: placeId, p_limit: CO_MENTIONS }),
+    place.sub_category
+      ? activePlaces()
+          .eq('sub_category', place.sub_category)
+          .gte('lat', place.lat - SIMILAR_RADIUS_DEG)
+          .lte('lat', place.lat + SIMILAR_RADIUS_DEG)
+          .gte('lng', place.lng - SIMILAR_RADIUS_DEG)
+          .lte('lng', place.lng + SIMILAR_RADIUS_DEG)
+          .order('popularity_score', { ascending: false })
+          .limit(CANDIDATES)
+      : Promise.resolve({ data: [], error: null }),
+    complements.length > 0
+      ? activePlaces()
+          .in('category', complements)
+          .gte('lat', place.lat - WALKING_RADIUS_DEG)
+          .lte('lat', place.lat + WALKING_RADIUS_DEG)
+          .gte('lng', place.lng - WALKING_RADIUS_DEG)
+          .lte('lng', place.lng + WALKING_RADIUS_DEG)
+          .order('popularity_score', { ascending: false })
+          .limit(CANDIDATES)
+      : Promise.resolve({ data: [], error: null }),
+    supabase.auth.getUser(),
+  ])
+
+  if (coMentionResult.error || similarResult.error || nearbyResult.error) {
+    console.error(
+      '[GET /api/places/[id]/related] Supabase error:',
+      coMentionResult.error ?? similarResult.error ?? nearbyResult.error
+    )
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+
+  const sharedPosts = new Map(
+    ((coMentionResult.data ?? []) as { place_id: number; shared_posts: number }[]).map((r) => [r.place_id, r.shared_posts])
+  )
+  const similarCandidates = (similarResult.data ?? []) as Place[]
+
+  // Co-mentioned places outside the sub_category box
+  const missing = [...sharedPosts.keys()].filter((pid) => !similarCandidates.some((p) => p.id === pid))
+  if (missing.length > 0) {
+    const { data: coMentioned, error } = await activePlaces().in('id', missing)
+    if (error) {
+      console.error('[GET /api/places/[id]/related] co-mentioned places error:', error)
+      return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+    }
+    similarCandidates.push(...((coMentioned ?? []) as Place[]))
+  }
+
+  // The family's hidden places
+  const hiddenPlaces = new Set<number>()
+  const user = userResult.data?.user
+  if (user) {
+    const { userIds } = await getFamilyScope(supabase, user.id)
+    const { data: hidden } = await supabase
+      .from('user_hidden_items')
+      .select('place_id')
+      .in('user_id', userIds)
+      .not('place_id', 'is', null)
+    for (const h of hidden ?? []) hiddenPlaces.add(h.place_id)
+  }
+  const visible = (p: Place) => !hiddenPlaces.has(p.id)
+
+  const response: PlaceRelatedResponse = {
+    similar: rankSimilarPlaces(place, similarCandidates.filter(visible), sharedPosts),
+    nearby: rankNearbyPlaces(place, ((nearbyResult.data ?? []) as Place[]).filter(visible)),
+  }
+  return NextResponse.json(response)
+}
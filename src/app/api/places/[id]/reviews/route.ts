@@ -0,0 +1,250 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { parseReviewInput, REVIEW_PHOTO_BUCKET } from '@/lib/reviews'
+import type { Review, PlaceReviewsResponse } from '@/types'
+
+const PAGE_SIZE = 20
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+async function parsePlaceId({ params }: RouteContext): Promise<number | null> {
+  const { id } = await params
+  const placeId = parseInt(id, 10)
+  return isNaN(placeId) ? null : placeId
+}
+
+async function readBody(request: NextRequest): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json()
+    return body && typeof body === 'object' ? body : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * GET /api/places/[id]/reviews?cursor=<review id>
+ * Returns: published reviews (newest first, 20 per page) + the caller's own review
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const placeId = await parsePlaceId(context)
+  if (placeId === null) {
+    return NextResponse.json({ error: 'Invalid place id' }, { status: 400 })
+  }
+
+  const cursorParam = request.nextUrl.searchParams.get('cursor')
+  const cursor = cursorParam ? parseInt(cursorParam, 10) : null
+
+  const supabase = await createServerSupabase()
+
+  let query = supabase
+    .from('reviews')
+    .select('*')
+    .eq('place_id', placeId)
+    .eq('status', 'published')
+    .order('id', { ascending: false })
+    .limit(PAGE_SIZE + 1)
+  if (cursor !== null && !isNaN(cursor)) query = query.lt('id', cursor)
+
+  const [reviewsResult, userResult] = await Promise.all([query, supabase.auth.getUser()])
+
+  if (reviewsResult.error) {
+    console.error('[GET /api/places/[id]/reviews] query error:', reviewsResult.error)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+
+  const rows = (reviewsResult.data ?? []) as Review[]
+  const reviews = rows.slice(0, PAGE_SIZE)
+
+  let myReview: Review | null = null
+  const user = userResult.data.user
+  if (user) {
+    const { data } = await supabase
+      .from('reviews')
+      .select('*')
+      .eq('place_id', placeId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+    myReview = (data as Review | null) ?? null
+  }
+
+  const response: PlaceReviewsResponse = {
+    reviews,
+    myReview,
+    nextCursor: rows.length > PAGE_SIZE ? reviews[reviews.length - 1].id : null,
+  }
+  return NextResponse.json(response)
+}
+
+/**
+ * POST /api/places/[id]/reviews
+ * Body: { rating, body?, visited_on?, child_age_months?, photo_paths? }
+ * One review per user and place; 409 if the user already reviewed it (use PATCH).
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const placeId = await parsePlaceId(context)
+  if (placeId === null) {
+    return NextResponse.json({ error: 'Invalid place id' }, { status: 400 })
+  }
+
+  const supabase = await createServerSupabase()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const body = await readBody(request)
+  if (!body) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const input = parseReviewInput(body, user.id)
+  if (!input.ok) {
+    return NextResponse.json({ error: input.error }, { status: 400 })
+  }
+
+  const { data: place } = await supabase
+    .from('places')
+    .select('id')
+    .eq('id', placeId)
+    .eq('is_active', true)
+    .maybeSingle()
+  if (!place) {
+    return NextResponse.json({ error: 'Place not found' }, { status: 404 })
+  }
+
+  const { data, error } = await supabase
+    .from('reviews')
+    .insert({ ...input.value, place_id: placeId, user_id: user.id })
+    .select('*')
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'Already reviewed' }, { status: 409 })
+    }
+    console.error('[POST /api/places/[id]/reviews] insert error:', error)
+    return NextResponse.json({ error: 'Failed to save review' }, { status: 500 })
+  }
+
+  return NextResponse.json({ review: data as Review }, { status: 201 })
+}
+
+/**
+ * PATCH /api/places/[id]/reviews
+ * Body: any of { rating, body, visited_on, child_age_months, photo_paths }
+ * Edits the caller's review; changed text or photos are moderated again.
+ * Photos dropped from photo_paths are deleted from storage.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const placeId = await parsePlaceId(context)
+  if (placeId === null) {
+    return NextResponse.json({ error: 'Invalid place id' }, { status: 400 })
+  }
+
+  const supabase = await createServerSupabase()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const body = await readBody(request)
+  if (!body) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const input = parseReviewInput(body, user.id, { partial: true })
+  if (!input.ok) {
+    return NextResponse.json({ error: input.error }, { status: 400 })
+  }
+  if (Object.keys(input.value).length === 0) {
+    return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+  }
+
+  const { data: existing } = await supabase
+    .from('reviews')
+    .select('photo_paths')
+    .eq('place_id', placeId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+  if (!existing) {
+    return NextResponse.json({ error: 'Review not found' }, { status: 404 })
+  }
+
+  const { data, error } = await supabase
+    .from('reviews')
+    .update(input.value)
+    .eq('place_id', placeId)
+    .eq('user_id', user.id)
+    .select('*')
+    .single()
+
+  if (error) {
+    console.error('[PATCH /api/places/[id]/reviews] update error:', error)
+    return NextResponse.json({ error: 'Failed to update review' }, { status: 500 })
+  }
+
+  if (input.value.photo_paths) {
+    const kept = new Set(input.value.photo_paths)
+    const dropped = (existing.photo_paths as string[]).filter((p) => !kept.has(p))
+    if (dropped.length > 0) {
+      const { error: storageError } = await supabase.storage.from(REVIEW_PHOTO_BUCKET).remove(dropped)
+      if (storageError) console.error('[PATCH /api/places/[id]/reviews] photo cleanup error:', storageError)
+    }
+  }
+
+  return NextResponse.json({ review: data as Review })
+}
+
+/**
+ * DELETE /api/places/[id]/reviews
+ * Deletes the caller's review and its photos.
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const placeId = await parsePlaceId(context)
+  if (placeId === null) {
+    return NextResponse.json({ error: 'Invalid place id' }, { status: 400 })
+  }
+
+  const supabase = await createServerSupabase()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const { data, error } = await supabase
+    .from('reviews')
+    .delete()
+    .eq('place_id', placeId)
+    .eq('user_id', user.id)
+    .select('photo_paths')
+    .maybeSingle()
+
+  if (error) {
+    console.error('[DELETE /api/places/[id]/reviews] delete error:', error)
+    return NextResponse.json({ error: 'Failed to delete review' }, { status: 500 })
+  }
+  if (!data) {
+    return NextResponse.json({ error: 'Review not found' }, { status: 404 })
+  }
+
+  const photos = data.photo_paths as string[]
+  if (photos.length > 0) {
+    const { error: storageError } = await supabase.storage.from(REVIEW_PHOTO_BUCKET).remove(photos)
+    if (storageError) console.error('[DELETE /api/places/[id]/reviews] photo cleanup error:', storageError)
+  }
+
+  return NextResponse.json({ deleted: true })
+}
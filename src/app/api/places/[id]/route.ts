@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabase } from '@/lib/supabase-server'
+import { getFamilyScope } from '../../family/lib/family-scope'
 import type { Place, BlogMention, Event, PlaceDetailResponse } from '@/types'
 
 /**
  * GET /api/places/[id]
  * Returns: place row + top 5 blog_mentions (by post_date DESC) + isFavorited (login user)
+ * A place merged into another (places.merged_into) redirects to the surviving place.
  */
 export async function GET(
   request: NextRequest,
@@ -36,6 +38,16 @@ export async function GET(
 
   if (placeResult.error || !placeResult.data) {
     if (placeResult.error?.code === 'PGRST116') {
+      // Merged duplicates keep their row; old links follow to the surviving place
+      const { data: merged } = await supabase
+        .from('places')
+        .select('merged_into')
+        .eq('id', placeId)
+        .not('merged_into', 'is', null)
+        .maybeSingle()
+      if (merged?.merged_into) {
+        return NextResponse.redirect(new URL(`/api/places/${merged.merged_into}`, request.url), 308)
+      }
       return NextResponse.json({ error: 'Place not found' }, { status: 404 })
     }
     console.error('[GET /api/places/[id]] place error:', placeResult.error)
@@ -45,36 +57,37 @@ export async function GET(
   const place = placeResult.data as Place
   const topPosts = (mentionsResult.data ?? []) as BlogMention[]
 
-  // Check if current user has favorited / hidden this place
+  // Check if the user's family has favorited / hidden this place
   let isFavorited = false
   let isHidden = false
   const user = userResult.data?.user
 
   if (user) {
+    const { userIds } = await getFamilyScope(supabase, user.id)
     const [favResult, hideResult] = await Promise.all([
       supabase
         .from('favorites')
         .select('id')
-        .eq('user_id', user.id)
+        .in('user_id', userIds)
         .eq('place_id', placeId)
-        .maybeSingle(),
+        .limit(1),
       supabase
         .from('user_hidden_items')
         .select('id')
-        .eq('user_id', user.id)
+        .in('user_id', userIds)
         .eq('place_id', placeId)
-        .maybeSingle(),
+        .limit(1),
     ])
 
-    isFavorited = !!favResult.data
-    isHidden = !!hideResult.data
+    isFavorited = (favResult.data?.length ?? 0) > 0
+    isHidden = (hideResult.data?.length ?? 0) > 0
   }
 
   // Fetch nearby running events within 2km radius
   const today = new Date().toISOString().split('T')[0]
   const { data: eventsData } = await supabase
     .from('events')
-    .select('id, name, sub_category, category, venue_name, venue_address, start_date, end_date, date_confirmed, lat, lng, poster_url, time_info, price_info, age_range, source, source_id, source_url, description, created_at, updated_at')
+    .select('id, name, sub_category, category, venue_name, venue_address, start_date, end_date, date_confirmed, lat, lng, poster_url, time_info, price_info, is_free, price_adult, price_child, price_infant, free_under_months, age_range, source, source_id, source_url, description, created_at, updated_at')
     .gte('end_date', today)
     .lte('start_date', today)
     .not('lat', 'is', null)
@@ -0,0 +1,65 @@
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { amenityContainment } from '@/lib/amenities'
+import type { Place } from '@/types'
+
+export type FacilityType = 'nursing_room' | 'diaper_station'
+
+/** ~3km bounding box pre-filter around the point, before distance ranking */
+const RADIUS_DEG = 0.03
+const CANDIDATES = 50
+
+/**
+ * Nearest active places around a point, optionally with a nursing room or
+ * changing table (places.amenities), closest first.
+ * Shared by /api/places/emergency and the day-trip planner.
+ */
+export async function findNearestFacilities(
+  lat: number,
+  lng: number,
+  type: FacilityType | null,
+  limit = 5
+): Promise<(Place & { distance_m: number })[]> {
+  const requiredAmenity = type === 'nursing_room' ? 'nursing_room' : type === 'diaper_station' ? 'changing_table' : null
+
+  // lat/lng BETWEEN bounding box pre-filter for index usage before distance sort
+  let query = getSupabaseAdmin()
+    .from('places')
+    .select('*')
+    .eq('is_active', true)
+    .gte('lat', lat - RADIUS_DEG)
+    .lte('lat', lat + RADIUS_DEG)
+    .gte('lng', lng - RADIUS_DEG)
+    .lte('lng', lng + RADIUS_DEG)
+
+  if (requiredAmenity) {
+    query = query.contains('amenities', amenityContainment([requiredAmenity]))
+  }
+
+  // Supabase JS client doesn't expose ST_DistanceSphere in .order(); fetch a
+  // larger set and rank in JS
+  const { data, error } = await query.limit(CANDIDATES)
+  if (error) throw error
+
+  return ((data ?? []) as Place[])
+    .map((place) => ({
+      ...place,
+      distance_m: sphereDistanceMeters(lat, lng, place.lat, place.lng),
+    }))
+    .sort((a, b) => a.distance_m - b.distance_m)
+    .slice(0, limit)
+}
+
+/**
+ * ST_DistanceSphere equivalent: accurate great-circle distance on a sphere (meters)
+ * Uses Earth mean radius = 6370986 m (same as PostGIS ST_DistanceSphere default)
+ */
+function sphereDistanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6370986 // Earth mean radius in meters (PostGIS default)
+  const toRad = (d: number) => (d * Math.PI) / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLng = toRad(lng2 - lng1)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
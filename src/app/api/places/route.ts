@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabase } from '@/lib/supabase-server'
-import type { Place } from '@/types'
+import { shouldCluster, clusterCellSize, districtRankLimit } from '@/lib/map-clusters'
+import { boostByChildAge, parseChildAgeParam } from '@/lib/age-range'
+import { boostByWeather, parseOutdoorScoreParam } from '@/lib/weather'
+import { isOpenAt, parseOpenAtParam } from '@/lib/opening-hours'
+import { parseMaxPriceParam } from '@/lib/price'
+import { parseAmenitiesParam, amenityContainment } from '@/lib/amenities'
+import { normalizePlaceName } from '@/lib/search'
+import type { Place, PlaceCluster, PlacesResponse } from '@/types'
 
 /**
  * Cursor payload encoded as a base64 JSON string in query params.
@@ -13,11 +20,6 @@ type CursorPayload =
   | { type: 'recent'; createdAt: string; id: number }
   | { type: 'id'; id: number }
 
-interface PlacesResponse {
-  places: Place[]
-  nextCursor: string | null
-}
-
 function encodeCursor(payload: CursorPayload): string {
   return Buffer.from(JSON.stringify(payload)).toString('base64url')
 }
@@ -32,8 +34,23 @@ function decodeCursor(raw: string): CursorPayload | null {
 
 /**
  * GET /api/places
- * Query params: swLat, swLng, neLat, neLng, zoom, category?, tags?, sort?, lat?, lng?, cursor?, limit?, indoor?
+ * Query params: swLat, swLng, neLat, neLng, zoom, category?, tags?, sort?, lat?, lng?, cursor?, limit?, indoor?, childAgeMonths?, openNow?, openAt?,
+ *               free?, maxPrice?, amenities?, outdoorScore?
  * Cursor pagination: query 21 rows → return 20 + nextCursor if row 21 exists
+ * zoom >= CLUSTER_MIN_LEVEL: also returns grid `clusters` + `totalCount` for the map;
+ * `places` stays the first list page so the bottom sheet keeps working.
+ * zoom >= DENSITY_MIN_LEVEL without a text query: places limited to the Top-N per
+ * 행정동 by district_rank (places without a district are always included).
+ * childAgeMonths: drops places whose age range excludes the child (unknown ranges
+ * are kept) and moves age-targeted matches to the top of the page; clusters ignore it.
+ * openNow=true / openAt=YYYY-MM-DDTHH:MM (KST): drops places known to be closed at that
+ * time (unknown hours are kept). Applied per page, so a page may hold fewer than `limit`.
+ * free=true / maxPrice=KRW: price filters on the child price (adult when no child tier);
+ * unlike age and hours, unknown prices are dropped. Clusters ignore them.
+ * amenities=nursing_room:family,parking: places confirmed to have every listed amenity
+ * (see src/lib/amenities.ts). Clusters ignore it.
+ * outdoorScore=0-100 (WeatherResponse.outdoorScore / a slot's score): below 40 indoor places
+ * move up the page, from 70 outdoor ones do; unlike `indoor` nothing is dropped.
  */
 export async function GET(request: NextRequest) {
   const { searchParams } = request.nextUrl
@@ -43,8 +60,7 @@ export async function GET(request: NextRequest) {
   const swLng = parseFloat(searchParams.get('swLng') ?? '')
   const neLat = parseFloat(searchParams.get('neLat') ?? '')
   const neLng = parseFloat(searchParams.get('neLng') ?? '')
-  // zoom parsed for future use; currently bbox + limit handles density
-  const _zoom = parseInt(searchParams.get('zoom') ?? '12', 10)
+  const zoom = parseInt(searchParams.get('zoom') ?? '', 10)
 
   if (isNaN(swLat) || isNaN(swLng) || isNaN(neLat) || isNaN(neLng)) {
     return NextResponse.json(
@@ -58,6 +74,7 @@ export async function GET(request: NextRequest) {
 
   const tagsParam = searchParams.get('tags')
   const tags = tagsParam ? tagsParam.split(',').map((t) => t.trim()).filter(Boolean) : []
+  const amenityFilters = parseAmenitiesParam(searchParams.get('amenities'))
 
   const sort = (searchParams.get('sort') ?? 'popularity') as 'distance' | 'popularity' | 'recent'
   const userLat = parseFloat(searchParams.get('lat') ?? '')
@@ -68,6 +85,11 @@ export async function GET(request: NextRequest) {
   const limit = Math.min(parseInt(searchParams.get('limit') ?? '20', 10), 100)
   const indoor = searchParams.get('indoor') === 'true' ? true : searchParams.get('indoor') === 'false' ? false : undefined
   const queryText = searchParams.get('query')?.trim() || null
+  const childAgeMonths = parseChildAgeParam(searchParams.get('childAgeMonths'))
+  const weatherScore = parseOutdoorScoreParam(searchParams.get('outdoorScore'))
+  const freeOnly = searchParams.get('free') === 'true'
+  const maxPrice = parseMaxPriceParam(searchParams.get('maxPrice'))
+  const openAt = parseOpenAtParam(searchParams.get('openAt')) ?? (searchParams.get('openNow') === 'true' ? new Date() : null)
 
   // Fetch 1 extra to determine if next page exists
   const fetchLimit = limit + 1
@@ -86,9 +108,6 @@ export async function GET(request: NextRequest) {
     .lte('lng', neLng)
     .limit(fetchLimit)
 
-  // No zoom-based score filter — with ~2K places + limit 20, bbox alone controls density.
-  // The popularity_score ORDER BY already surfaces best places first.
-
   // Category filter
   if (categories.length > 0) {
     query = query.in('category', categories)
@@ -99,14 +118,48 @@ export async function GET(request: NextRequest) {
     query = query.overlaps('tags', tags)
   }
 
+  // Amenity filter — JSONB containment, every filter must match
+  if (amenityFilters.length > 0) {
+    query = query.contains('amenities', amenityContainment(amenityFilters))
+  }
+
   // Indoor filter (weather integration)
   if (indoor !== undefined) {
     query = query.eq('is_indoor', indoor)
   }
 
-  // Text search filter
+  // Text search filter; the normalized columns (00085) also catch spacing variants
   if (queryText) {
-    query = query.or(`name.ilike.%${queryText}%,road_address.ilike.%${queryText}%,address.ilike.%${queryText}%`)
+    const normalized = normalizePlaceName(queryText)
+    query = query.or(
+      [
+        `name.ilike.%${queryText}%`,
+        `road_address.ilike.%${queryText}%`,
+        `address.ilike.%${queryText}%`,
+        ...(normalized ? [`search_name.like.%${normalized}%`, `search_address.like.%${normalized}%`] : []),
+      ].join(',')
+    )
+  }
+
+  // Child age filter (NULL bound = no limit)
+  if (childAgeMonths !== null) {
+    query = query
+      .or(`age_min_months.is.null,age_min_months.lte.${childAgeMonths}`)
+      .or(`age_max_months.is.null,age_max_months.gte.${childAgeMonths}`)
+  }
+
+  // Price filters (see src/lib/price.ts entryPrice)
+  if (freeOnly) {
+    query = query.eq('is_free', true)
+  }
+  if (maxPrice !== null) {
+    query = query.or(`price_child.lte.${maxPrice},and(price_child.is.null,price_adult.lte.${maxPrice})`)
+  }
+
+  // Map density — text search still sees every open place
+  const rankLimit = queryText ? null : districtRankLimit(zoom)
+  if (rankLimit !== null) {
+    query = query.or(`district_rank.is.null,district_rank.lte.${rankLimit}`)
   }
 
   // Keyset pagination — apply cursor filter matching the sort key to avoid jumps/skips.
@@ -152,10 +205,26 @@ export async function GET(request: NextRequest) {
     }
   }
 
-  const { data, error } = await query
+  const clustered = shouldCluster(zoom)
+  const [{ data, error }, clusterResult] = await Promise.all([
+    query,
+    clustered
+      ? supabase.rpc('get_place_clusters', {
+          p_sw_lat: swLat,
+          p_sw_lng: swLng,
+          p_ne_lat: neLat,
+          p_ne_lng: neLng,
+          p_cell_deg: clusterCellSize(zoom),
+          p_categories: categories.length > 0 ? categories : null,
+          p_tags: tags.length > 0 ? tags : null,
+          p_indoor: indoor ?? null,
+          p_query: queryText,
+        })
+      : null,
+  ])
 
-  if (error) {
-    console.error('[GET /api/places] Supabase error:', error)
+  if (error || clusterResult?.error) {
+    console.error('[GET /api/places] Supabase error:', error ?? clusterResult?.error)
     return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
   }
 
@@ -187,6 +256,20 @@ export async function GET(request: NextRequest) {
     places = places.slice(0, limit)
   }
 
+  // Open-hours filter after the cursor is taken — hours can't be evaluated in SQL
+  if (openAt) {
+    places = places.filter((p) => isOpenAt(p.opening_hours, openAt))
+  }
+
+  // Boost within the page only, so the keyset cursor stays valid.
+  // Age runs last so age-targeted places stay on top, weather order within them.
+  if (weatherScore !== null) {
+    places = boostByWeather(places, weatherScore)
+  }
+  if (childAgeMonths !== null) {
+    places = boostByChildAge(places, childAgeMonths)
+  }
+
   // Fire-and-forget: log search query to search_logs
   if (queryText) {
     const userId = (await supabase.auth.getUser()).data.user?.id ?? null
@@ -203,9 +286,38 @@ export async function GET(request: NextRequest) {
   }
 
   const response: PlacesResponse = { places, nextCursor }
+  if (clusterResult) {
+    const clusters = ((clusterResult.data as ClusterRow[] | null) ?? []).map(toCluster)
+    response.clusters = clusters
+    response.totalCount = clusters.reduce((sum, c) => sum + c.count, 0)
+  }
   return NextResponse.json(response)
 }
 
+interface ClusterRow {
+  cell_row: number
+  cell_col: number
+  place_count: number
+  lat: number
+  lng: number
+  top_category: string
+  sw_lat: number
+  sw_lng: number
+  ne_lat: number
+  ne_lng: number
+}
+
+function toCluster(row: ClusterRow): PlaceCluster {
+  return {
+    key: `${row.cell_row}:${row.cell_col}`,
+    count: row.place_count,
+    lat: row.lat,
+    lng: row.lng,
+    topCategory: row.top_category,
+    bounds: { swLat: row.sw_lat, swLng: row.sw_lng, neLat: row.ne_lat, neLng: row.ne_lng },
+  }
+}
+
 /** Haversine distance in meters (for in-memory sort) */
 function haversineMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
   const R = 6371000
@@ -1,17 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabase } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import {
+  summarizeFactVotes,
+  applyFactConfirmations,
+  isFactAttribute,
+  type FactAttribute,
+  type FactSummary,
+  type FactVote,
+} from '@/lib/place-facts'
+import type { PlaceAmenities } from '@/lib/amenities'
 
 export interface VerificationResponse {
   place_id: number
   is_recently_verified: boolean
   last_verified_at: string | null
   verification_count: number
+  /** Crowd answers per attribute, see src/lib/place-facts.ts */
+  facts: FactSummary[]
+  /** The signed-in user's own answers (empty when logged out) */
+  my_answers: Partial<Record<FactAttribute, boolean>>
+}
+
+/** All answers for a place — votes are RLS-scoped to their owner, so read with the service role */
+async function fetchFactVotes(placeId: number): Promise<(FactVote & { user_id: string })[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('place_fact_votes')
+    .select('attribute, answer, answered_at, user_id')
+    .eq('place_id', placeId)
+
+  if (error) throw error
+  return (data ?? []) as (FactVote & { user_id: string })[]
+}
+
+function answersOf(votes: (FactVote & { user_id: string })[], userId: string | undefined) {
+  const answers: Partial<Record<FactAttribute, boolean>> = {}
+  if (!userId) return answers
+  for (const vote of votes) {
+    if (vote.user_id === userId) answers[vote.attribute] = vote.answer
+  }
+  return answers
 }
 
 /**
  * GET /api/places/verify?place_id=123
  * Returns: verification status for a place
  * Checks if verified in last 90 days (as per Item 22 requirement)
+ * plus crowd fact answers (facts) and the caller's own answers (my_answers)
  */
 export async function GET(request: NextRequest) {
   const { searchParams } = request.nextUrl
@@ -32,7 +67,7 @@ export async function GET(request: NextRequest) {
   const ninetyDaysAgo = new Date()
   ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90)
 
-  const [recentVerification, totalCount] = await Promise.all([
+  const [recentVerification, totalCount, userResult, votes] = await Promise.all([
     supabase
       .from('verification_checks')
       .select('verified_at')
@@ -45,6 +80,11 @@ export async function GET(request: NextRequest) {
       .from('verification_checks')
       .select('id', { count: 'exact' })
       .eq('place_id', placeId),
+    supabase.auth.getUser(),
+    fetchFactVotes(placeId).catch((err) => {
+      console.error('[GET /api/places/verify] fact votes error:', err)
+      return []
+    }),
   ])
 
   const isRecentlyVerified = !!recentVerification.data
@@ -56,7 +96,107 @@ export async function GET(request: NextRequest) {
     is_recently_verified: isRecentlyVerified,
     last_verified_at: lastVerifiedAt,
     verification_count: verificationCount,
+    facts: summarizeFactVotes(votes),
+    my_answers: answersOf(votes, userResult.data.user?.id),
   }
 
   return NextResponse.json(response)
 }
+
+/**
+ * POST /api/places/verify
+ * Body: { place_id: number, attribute: FactAttribute, answer: boolean }
+ * Records the user's answer (replacing an earlier one), logs a verification
+ * check unless the answer is "closed", and applies settled amenity answers to
+ * places.amenities right away so filters reflect them before the next
+ * place-fields run.
+ * Response: { facts, my_answers }
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  let body: { place_id?: unknown; attribute?: unknown; answer?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const placeId = typeof body.place_id === 'number' ? body.place_id : NaN
+  if (!Number.isInteger(placeId)) {
+    return NextResponse.json({ error: 'place_id is required' }, { status: 400 })
+  }
+  if (!isFactAttribute(body.attribute)) {
+    return NextResponse.json({ error: 'Unknown attribute' }, { status: 400 })
+  }
+  if (typeof body.answer !== 'boolean') {
+    return NextResponse.json({ error: 'answer must be true or false' }, { status: 400 })
+  }
+  const attribute = body.attribute
+  const answer = body.answer
+
+  const { data: place } = await supabase
+    .from('places')
+    .select('id, amenities')
+    .eq('id', placeId)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (!place) {
+    return NextResponse.json({ error: 'Place not found' }, { status: 404 })
+  }
+
+  const now = new Date().toISOString()
+  const { error: voteError } = await supabase
+    .from('place_fact_votes')
+    .upsert(
+      { place_id: placeId, user_id: user.id, attribute, answer, answered_at: now },
+      { onConflict: 'place_id,user_id,attribute' }
+    )
+
+  if (voteError) {
+    console.error('[POST /api/places/verify] vote error:', voteError)
+    return NextResponse.json({ error: 'Failed to save answer' }, { status: 500 })
+  }
+
+  // A "closed" answer is not a verification of the listing
+  if (attribute !== 'open' || answer) {
+    const { error: checkError } = await supabase
+      .from('verification_checks')
+      .insert({ place_id: placeId, user_id: user.id, notes: `fact:${attribute}=${answer ? 'yes' : 'no'}` })
+    if (checkError) console.error('[POST /api/places/verify] check error:', checkError)
+  }
+
+  let votes: (FactVote & { user_id: string })[]
+  try {
+    votes = await fetchFactVotes(placeId)
+  } catch (err) {
+    console.error('[POST /api/places/verify] fact votes error:', err)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+
+  const facts = summarizeFactVotes(votes)
+
+  if (attribute !== 'open') {
+    const current = (place.amenities ?? null) as PlaceAmenities | null
+    const amenities = applyFactConfirmations(current, facts)
+    if (JSON.stringify(amenities) !== JSON.stringify(current ?? {})) {
+      const { error: updateError } = await getSupabaseAdmin()
+        .from('places')
+        .update({ amenities })
+        .eq('id', placeId)
+      if (updateError) console.error('[POST /api/places/verify] amenities update error:', updateError)
+    }
+  }
+
+  return NextResponse.json({ facts, my_answers: answersOf(votes, user.id) })
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { getFamilyScope } from '../../family/lib/family-scope'
+
+/**
+ * DELETE /api/plans/[id]
+ * Delete a saved plan; its share link stops working
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const planId = parseInt(id, 10)
+
+  if (isNaN(planId)) {
+    return NextResponse.json({ error: 'Invalid plan id' }, { status: 400 })
+  }
+
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const { userIds } = await getFamilyScope(supabase, user.id)
+  const { data, error } = await supabase
+    .from('day_plans')
+    .delete()
+    .eq('id', planId)
+    .in('user_id', userIds)
+    .select('id')
+
+  if (error) {
+    console.error('[DELETE /api/plans/[id]] Supabase error:', error)
+    return NextResponse.json({ error: 'Failed to delete plan' }, { status: 500 })
+  }
+  if (!data || data.length === 0) {
+    return NextResponse.json({ error: 'Plan not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ deleted: true })
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parsePlanInput } from '@/lib/day-plan'
+import type { DayPlanResponse } from '@/types'
+import { buildPlan } from '../lib/build-plan'
+
+/**
+ * GET /api/plans/build
+ * Preview a day-trip itinerary (not saved)
+ * Query params: placeId | eventId, date? (YYYY-MM-DD, default today KST),
+ *   start? (HH:MM, default 10:00), childAgeMonths?, rain? (true),
+ *   mode? (walk | transit | car) or speedKmh? (1-60)
+ * Returns: DayPlanResponse
+ */
+export async function GET(request: NextRequest) {
+  const parsed = parsePlanInput(Object.fromEntries(request.nextUrl.searchParams))
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+
+  try {
+    const result = await buildPlan(parsed.value)
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+    const response: DayPlanResponse = { plan: result.plan }
+    return NextResponse.json(response)
+  } catch (err) {
+    console.error('[GET /api/plans/build] Supabase error:', err)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { amenityContainment } from '@/lib/amenities'
+import { parseOpeningHours } from '@/lib/opening-hours'
+import { buildDayPlan, mealSearchRadiusDeg, type DayPlanInput, type PlanAnchor } from '@/lib/day-plan'
+import type { DayPlan, Event, Place } from '@/types'
+import { findNearestFacilities } from '../../places/lib/nearest-facilities'
+
+export type BuildPlanResult = { plan: DayPlan } | { error: string; status: number }
+
+/** The anchor row; inactive places, hidden events and events without coordinates can't anchor a plan */
+async function loadAnchor(input: DayPlanInput): Promise<PlanAnchor | { error: string; status: number }> {
+  const supabase = getSupabaseAdmin()
+
+  if (input.anchor.kind === 'place') {
+    const { data, error } = await supabase
+      .from('places')
+      .select('*')
+      .eq('id', input.anchor.id)
+      .eq('is_active', true)
+      .maybeSingle()
+    if (error) throw error
+    if (!data) return { error: 'Place not found', status: 404 }
+    return { kind: 'place', place: data as Place }
+  }
+
+  const { data, error } = await supabase
+    .from('events')
+    .select('*')
+    .eq('id', input.anchor.id)
+    .eq('auto_hidden', false)
+    .maybeSingle()
+  if (error) throw error
+  if (!data) return { error: 'Event not found', status: 404 }
+  const event = data as Event
+  if (event.lat === null || event.lng === null) {
+    return { error: 'Event has no location', status: 422 }
+  }
+  // time_info is free text like "10:00~17:00"; the hours parser handles it
+  return { kind: 'event', event, hours: parseOpeningHours(event.time_info) }
+}
+
+/**
+ * Fetch the anchor and candidates for an itinerary and build it.
+ * Lunch: active 식당/카페 with a baby chair within MEAL_MAX_TRAVEL_MINUTES
+ * (bounding box); facilities: nearest nursing room / changing table.
+ */
+export async function buildPlan(input: DayPlanInput): Promise<BuildPlanResult> {
+  const anchor = await loadAnchor(input)
+  if ('error' in anchor) return anchor
+
+  const { lat, lng } = anchor.kind === 'place'
+    ? anchor.place
+    : { lat: anchor.event.lat as number, lng: anchor.event.lng as number }
+  const radiusDeg = mealSearchRadiusDeg(input.speedKmh)
+
+  const [mealsResult, nursingRooms, diaperStations] = await Promise.all([
+    getSupabaseAdmin()
+      .from('places')
+      .select('*')
+      .eq('is_active', true)
+      .eq('category', '식당/카페')
+      .contains('amenities', amenityContainment(['baby_chair']))
+      .gte('lat', lat - radiusDeg)
+      .lte('lat', lat + radiusDeg)
+      .gte('lng', lng - radiusDeg)
+      .lte('lng', lng + radiusDeg)
+      .order('popularity_score', { ascending: false })
+      .limit(100),
+    findNearestFacilities(lat, lng, 'nursing_room'),
+    findNearestFacilities(lat, lng, 'diaper_station'),
+  ])
+  if (mealsResult.error) throw mealsResult.error
+
+  const plan = buildDayPlan(input, anchor, {
+    meals: (mealsResult.data ?? []) as Place[],
+    nursingRooms,
+    diaperStations,
+  })
+  return { plan }
+}
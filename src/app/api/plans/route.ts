@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { defaultPlanTitle, parsePlanInput, PLAN_TITLE_MAX } from '@/lib/day-plan'
+import type { SavedDayPlan } from '@/types'
+import { getFamilyScope } from '../family/lib/family-scope'
+import { buildPlan } from './lib/build-plan'
+
+async function readBody(request: NextRequest): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json()
+    return body && typeof body === 'object' ? body : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * GET /api/plans
+ * Returns: { plans: SavedDayPlan[] } — the family's saved plans, latest date first
+ */
+export async function GET() {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const { userIds } = await getFamilyScope(supabase, user.id)
+  const { data, error } = await supabase
+    .from('day_plans')
+    .select('*')
+    .in('user_id', userIds)
+    .order('plan_date', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(50)
+
+  if (error) {
+    console.error('[GET /api/plans] Supabase error:', error)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+
+  return NextResponse.json({ plans: (data ?? []) as SavedDayPlan[] })
+}
+
+/**
+ * POST /api/plans
+ * Build and save a plan. The itinerary is rebuilt from the inputs server-side
+ * rather than trusting a client copy.
+ * Body: same fields as GET /api/plans/build, plus title?
+ * Returns: { plan: SavedDayPlan } (201); share at /plan/<share_token>
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const body = await readBody(request)
+  if (!body) {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const parsed = parsePlanInput(body)
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+
+  const rawTitle = typeof body.title === 'string' ? body.title.trim() : ''
+  if (rawTitle.length > PLAN_TITLE_MAX) {
+    return NextResponse.json({ error: `title must be at most ${PLAN_TITLE_MAX} characters` }, { status: 400 })
+  }
+
+  try {
+    const result = await buildPlan(parsed.value)
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    const { anchor } = parsed.value
+    const { data, error } = await supabase
+      .from('day_plans')
+      .insert({
+        user_id: user.id,
+        title: rawTitle || defaultPlanTitle(result.plan),
+        plan_date: result.plan.date,
+        place_id: anchor.kind === 'place' ? anchor.id : null,
+        event_id: anchor.kind === 'event' ? anchor.id : null,
+        plan: result.plan,
+      })
+      .select('*')
+      .single()
+
+    if (error) throw error
+    return NextResponse.json({ plan: data as SavedDayPlan }, { status: 201 })
+  } catch (err) {
+    console.error('[POST /api/plans] Supabase error:', err)
+    return NextResponse.json({ error: 'Failed to save plan' }, { status: 500 })
+  }
+}
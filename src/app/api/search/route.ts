@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { SEARCH_QUERY_MAX, blendSearchScore, buildSearchTerms, highlightRanges, parseSearchLimit } from '@/lib/search'
+import { haversineMeters } from '@/lib/day-plan'
+import type { Event, Place, SearchResponse, SearchResult } from '@/types'
+import { getFamilyScope } from '../family/lib/family-scope'
+
+/** RPC candidates fetched before blending; more than `limit` so popularity / distance can reorder */
+const CANDIDATE_FACTOR = 3
+
+interface Candidate {
+  kind: 'place' | 'event'
+  id: number
+  text_score: number
+}
+
+/**
+ * GET /api/search
+ * Unified place + event search (see migration 00085 and src/lib/search.ts)
+ * Query params: q, lat?, lng?, limit? (default 20, max 50)
+ *
+ * Matches normalized names ("키즈 카페" = "키즈카페"), 초성 ("ㅋㅈㅋㅍ"), typos
+ * (trigram similarity), "<chain> <branch>" words in any order (prefix
+ * tsquery over name / address / tags / venue) and addresses. Ranked by the
+ * text score blended with popularity_score and distance from lat/lng.
+ * Admin-hidden, inactive and ended items and the family's hidden items are left out.
+ * Logged to search_logs (source 'search') for suggestions and recent searches.
+ * Returns: SearchResponse
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+
+  const q = searchParams.get('q') ?? ''
+  const terms = buildSearchTerms(q)
+  if (!terms) {
+    const empty: SearchResponse = { results: [] }
+    return NextResponse.json(empty)
+  }
+
+  const lat = parseFloat(searchParams.get('lat') ?? '')
+  const lng = parseFloat(searchParams.get('lng') ?? '')
+  const hasLocation = !isNaN(lat) && !isNaN(lng)
+  const limit = parseSearchLimit(searchParams.get('limit'))
+
+  const supabase = await createServerSupabase()
+
+  const { data: candidates, error } = await supabase.rpc('search_places_events', {
+    p_norm: terms.norm,
+    p_tsquery: terms.tsquery,
+    p_choseong: terms.choseong,
+    p_limit: limit * CANDIDATE_FACTOR,
+  })
+
+  if (error) {
+    console.error('[GET /api/search] RPC error:', error)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+
+  const rows = (candidates ?? []) as Candidate[]
+  const placeIds = rows.filter((r) => r.kind === 'place').map((r) => r.id)
+  const eventIds = rows.filter((r) => r.kind === 'event').map((r) => r.id)
+
+  const [placesResult, eventsResult, userResult] = await Promise.all([
+    placeIds.length > 0
+      ? supabase.from('places').select('*').in('id', placeIds)
+      : Promise.resolve({ data: [], error: null }),
+    eventIds.length > 0
+      ? supabase.from('events').select('*').in('id', eventIds)
+      : Promise.resolve({ data: [], error: null }),
+    supabase.auth.getUser(),
+  ])
+
+  if (placesResult.error || eventsResult.error) {
+    console.error('[GET /api/search] Supabase error:', placesResult.error ?? eventsResult.error)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+
+  // The family's hidden places / events
+  const hiddenPlaces = new Set<number>()
+  const hiddenEvents = new Set<number>()
+  const user = userResult.data?.user
+  if (user) {
+    const { userIds } = await getFamilyScope(supabase, user.id)
+    const { data: hidden } = await supabase
+      .from('user_hidden_items')
+      .select('place_id, event_id')
+      .in('user_id', userIds)
+    for (const h of hidden ?? []) {
+      if (h.place_id) hiddenPlaces.add(h.place_id)
+      if (h.event_id) hiddenEvents.add(h.event_id)
+    }
+  }
+
+  const places = new Map(((placesResult.data ?? []) as Place[]).map((p) => [p.id, p]))
+  const events = new Map(((eventsResult.data ?? []) as Event[]).map((e) => [e.id, e]))
+
+  const distanceTo = (itemLat: number | null, itemLng: number | null): number | null =>
+    hasLocation && itemLat !== null && itemLng !== null ? Math.round(haversineMeters(lat, lng, itemLat, itemLng)) : null
+
+  const results: SearchResult[] = []
+  for (const row of rows) {
+    if (row.kind === 'place') {
+      const place = places.get(row.id)
+      if (!place || hiddenPlaces.has(place.id)) continue
+      const distance_m = distanceTo(place.lat, place.lng)
+      results.push({
+        kind: 'place',
+        place,
+        distance_m,
+        score: blendSearchScore(row.text_score, place.popularity_score, distance_m === null ? null : distance_m / 1000),
+        highlights: {
+          name: highlightRanges(place.name, q),
+          address: highlightRanges(place.road_address ?? place.address, q),
+        },
+      })
+    } else {
+      const event = events.get(row.id)
+      if (!event || hiddenEvents.has(event.id)) continue
+      const distance_m = distanceTo(event.lat, event.lng)
+      results.push({
+        kind: 'event',
+        event,
+        distance_m,
+        score: blendSearchScore(row.text_score, event.popularity_score, distance_m === null ? null : distance_m / 1000),
+        highlights: {
+          name: highlightRanges(event.name, q),
+          address: highlightRanges(event.venue_name, q),
+        },
+      })
+    }
+  }
+
+  results.sort((a, b) => b.score - a.score)
+
+  // Fire-and-forget: submitted searches feed suggestions and recent searches (00086)
+  supabase
+    .from('search_logs')
+    .insert({
+      query: q.trim().slice(0, SEARCH_QUERY_MAX),
+      results_count: results.length,
+      user_id: user?.id ?? null,
+      source: 'search',
+    })
+    .then(({ error: logError }) => {
+      if (logError) console.error('[search_logs] Insert error:', logError)
+    })
+
+  const response: SearchResponse = { results: results.slice(0, limit) }
+  return NextResponse.json(response)
+}
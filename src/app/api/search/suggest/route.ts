@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { SUGGEST_PER_KIND, buildSearchTerms, matchCategories, mergeSuggestions, type SuggestRow } from '@/lib/search'
+import type { SearchSuggestResponse } from '@/types'
+
+const RECENT_LIMIT = 10
+
+/**
+ * GET /api/search/suggest
+ * Search bar autocomplete (see migration 00086), called per keystroke.
+ * Query params: q
+ *
+ * With q: prefix completions for place names (also by 초성), 구 / 동
+ * names, categories and popular past queries whose latest search found
+ * something. Not user-specific, so the response is cacheable.
+ * Without q: the signed-in user's recent searches (empty for guests).
+ * Returns: SearchSuggestResponse
+ */
+export async function GET(request: NextRequest) {
+  const q = request.nextUrl.searchParams.get('q') ?? ''
+  const supabase = await createServerSupabase()
+
+  if (!q.trim()) {
+    const { data: { user } } = await supabase.auth.getUser()
+    const response: SearchSuggestResponse = { suggestions: [], recent: [] }
+    if (!user) return NextResponse.json(response)
+
+    const { data, error } = await supabase.rpc('my_recent_searches', { p_limit: RECENT_LIMIT })
+    if (error) {
+      console.error('[GET /api/search/suggest] Recent searches error:', error)
+      return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+    }
+    response.recent = ((data ?? []) as { query: string }[]).map((r) => r.query)
+    return NextResponse.json(response)
+  }
+
+  const terms = buildSearchTerms(q)
+  if (!terms) {
+    const empty: SearchSuggestResponse = { suggestions: [], recent: [] }
+    return NextResponse.json(empty)
+  }
+
+  const { data, error } = await supabase.rpc('search_suggest', {
+    p_norm: terms.norm,
+    p_choseong: terms.choseong,
+    p_limit: SUGGEST_PER_KIND,
+  })
+
+  if (error) {
+    console.error('[GET /api/search/suggest] RPC error:', error)
+    return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+  }
+
+  const response: SearchSuggestResponse = {
+    suggestions: mergeSuggestions((data ?? []) as SuggestRow[], matchCategories(q)),
+    recent: [],
+  }
+  return NextResponse.json(response, {
+    headers: { 'Cache-Control': 'public, max-age=60, stale-while-revalidate=300' },
+  })
+}
@@ -1,10 +1,97 @@
 import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createServerSupabase } from '@/lib/supabase-server'
+import { isOwnPhotoPath, VISIT_PHOTO_BUCKET, VISIT_PHOTO_MAX } from '@/lib/user-photos'
+import { addedByName } from '@/lib/family'
+import type { VisitWithPlace } from '@/types'
+import { getFamilyScope, type FamilyScope } from '../family/lib/family-scope'
+
+const VISIT_SELECT = '*, places(*), events(*), visit_children(child_id)'
+
+/** Signed photo URL lifetime; the diary list is cached by the service worker */
+const PHOTO_URL_TTL_SEC = 6 * 60 * 60
+
+/** Upper bound for range queries (calendar month / map year) */
+const RANGE_LIMIT = 1000
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+type VisitRow = Omit<VisitWithPlace, 'child_ids' | 'photo_urls' | 'added_by'> & {
+  visit_children: { child_id: number }[] | null
+}
+
+/** Flatten visit_children into child_ids, sign photo paths and label who recorded each visit */
+async function toVisits(
+  supabase: SupabaseClient,
+  rows: VisitRow[],
+  viewerId: string,
+  scope: FamilyScope
+): Promise<VisitWithPlace[]> {
+  const paths = rows.flatMap((r) => r.photo_paths ?? [])
+  const urls = new Map<string, string>()
+  if (paths.length > 0) {
+    const { data, error } = await supabase.storage
+      .from(VISIT_PHOTO_BUCKET)
+      .createSignedUrls(paths, PHOTO_URL_TTL_SEC)
+    if (error) console.error('[/api/visits] signed URL error:', error)
+    for (const entry of data ?? []) {
+      if (entry.path && entry.signedUrl) urls.set(entry.path, entry.signedUrl)
+    }
+  }
+
+  return rows.map(({ visit_children, ...visit }) => ({
+    ...visit,
+    photo_paths: visit.photo_paths ?? [],
+    child_ids: (visit_children ?? []).map((c) => c.child_id),
+    photo_urls: (visit.photo_paths ?? []).map((p) => urls.get(p) ?? '').filter(Boolean),
+    added_by: addedByName(visit.user_id, viewerId, scope.names),
+  }))
+}
+
+/**
+ * Validate childIds / photoPaths; returns an error message or null.
+ * New photos must be in the user's own folder; photos already on the visit
+ * (possibly uploaded by another family member) may be kept.
+ */
+function validateAttachments(
+  childIds: unknown,
+  photoPaths: unknown,
+  userId: string,
+  existingPaths: string[] = []
+): string | null {
+  if (childIds !== undefined) {
+    if (!Array.isArray(childIds) || !childIds.every((id) => Number.isInteger(id))) {
+      return 'childIds must be a list of child ids'
+    }
+  }
+  if (photoPaths !== undefined) {
+    const isAllowed = (p: unknown) =>
+      typeof p === 'string' && (isOwnPhotoPath(p, userId) || existingPaths.includes(p))
+    if (!Array.isArray(photoPaths) || !photoPaths.every(isAllowed)) {
+      return 'Invalid photo path'
+    }
+    if (photoPaths.length > VISIT_PHOTO_MAX) return `At most ${VISIT_PHOTO_MAX} photos`
+  }
+  return null
+}
+
+/** Replace the children tagged on a visit (RLS checks both visit and children belong to the family) */
+async function setVisitChildren(supabase: SupabaseClient, visitId: number, childIds: number[]) {
+  const { error: deleteError } = await supabase.from('visit_children').delete().eq('visit_id', visitId)
+  if (deleteError) return deleteError
+  if (childIds.length === 0) return null
+  const { error } = await supabase
+    .from('visit_children')
+    .insert([...new Set(childIds)].map((childId) => ({ visit_id: visitId, child_id: childId })))
+  return error
+}
 
 /**
  * GET /api/visits
- * Returns paginated list of user's visit diary entries
- * Cursor pagination by id DESC, joined with places
+ * Returns paginated list of the family's visit diary entries
+ * Cursor pagination by id DESC, joined with places / events and tagged children.
+ * With ?from=YYYY-MM-DD&to=YYYY-MM-DD returns every visit in that range instead
+ * (calendar and map views), without a cursor.
  */
 export async function GET(request: NextRequest) {
   const supabase = await createServerSupabase()
@@ -18,15 +105,43 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
   }
 
+  const scope = await getFamilyScope(supabase, user.id)
   const { searchParams } = request.nextUrl
+  const from = searchParams.get('from')
+  const to = searchParams.get('to')
+
+  if (from !== null || to !== null) {
+    if (!from || !to || !DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+      return NextResponse.json({ error: 'from and to must be YYYY-MM-DD' }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from('visits')
+      .select(VISIT_SELECT)
+      .in('user_id', scope.userIds)
+      .gte('visited_at', from)
+      .lte('visited_at', to)
+      .order('visited_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(RANGE_LIMIT)
+
+    if (error) {
+      console.error('[GET /api/visits] Supabase error:', error)
+      return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+    }
+
+    const visits = await toVisits(supabase, (data ?? []) as VisitRow[], user.id, scope)
+    return NextResponse.json({ visits, nextCursor: null })
+  }
+
   const cursor = searchParams.get('cursor') ? parseInt(searchParams.get('cursor')!, 10) : null
   const limit = 20
   const fetchLimit = limit + 1
 
   let query = supabase
     .from('visits')
-    .select('*, places(*)')
-    .eq('user_id', user.id)
+    .select(VISIT_SELECT)
+    .in('user_id', scope.userIds)
     .order('visited_at', { ascending: false })
     .order('id', { ascending: false })
     .limit(fetchLimit)
@@ -42,21 +157,24 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
   }
 
-  const visits = data ?? []
+  const rows = (data ?? []) as VisitRow[]
   let nextCursor: number | null = null
 
-  if (visits.length > limit) {
-    nextCursor = visits[limit - 1].id
-    visits.splice(limit)
+  if (rows.length > limit) {
+    nextCursor = rows[limit - 1].id
+    rows.splice(limit)
   }
 
+  const visits = await toVisits(supabase, rows, user.id, scope)
   return NextResponse.json({ visits, nextCursor })
 }
 
 /**
  * POST /api/visits
  * Add a visit record
- * Body: { placeId: number, visitedAt?: string, memo?: string, willReturn?: boolean }
+ * Body: { placeId?: number, eventId?: number, visitedAt?: string, memo?: string,
+ *         willReturn?: boolean, childIds?: number[], photoPaths?: string[] }
+ * At least one of placeId / eventId is required.
  */
 export async function POST(request: NextRequest) {
   const supabase = await createServerSupabase()
@@ -70,29 +188,60 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
   }
 
-  let body: { placeId: number; visitedAt?: string; memo?: string; willReturn?: boolean }
+  let body: {
+    placeId?: number
+    eventId?: number
+    visitedAt?: string
+    memo?: string
+    willReturn?: boolean
+    childIds?: number[]
+    photoPaths?: string[]
+  }
   try {
     body = await request.json()
   } catch {
     return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
   }
 
-  const { placeId, visitedAt, memo, willReturn } = body
+  const { placeId, eventId, visitedAt, memo, willReturn, childIds, photoPaths } = body
 
-  if (!placeId) {
-    return NextResponse.json({ error: 'placeId is required' }, { status: 400 })
+  if (!placeId && !eventId) {
+    return NextResponse.json({ error: 'placeId or eventId is required' }, { status: 400 })
+  }
+
+  const invalid = validateAttachments(childIds, photoPaths, user.id)
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 })
+  }
+
+  const scope = await getFamilyScope(supabase, user.id)
+  const date = visitedAt || new Date().toISOString().split('T')[0]
+
+  // One visit per place (or event) and day for the whole family
+  let duplicateQuery = supabase
+    .from('visits')
+    .select('id')
+    .in('user_id', scope.userIds)
+    .eq('visited_at', date)
+  duplicateQuery = placeId ? duplicateQuery.eq('place_id', placeId) : duplicateQuery.eq('event_id', eventId!)
+  const { data: duplicate } = await duplicateQuery.limit(1)
+
+  if (duplicate && duplicate.length > 0) {
+    return NextResponse.json({ error: 'Already recorded visit for this date' }, { status: 409 })
   }
 
   const { data, error } = await supabase
     .from('visits')
     .insert({
       user_id: user.id,
-      place_id: placeId,
-      visited_at: visitedAt || new Date().toISOString().split('T')[0],
+      place_id: placeId || null,
+      event_id: eventId || null,
+      visited_at: date,
       memo: memo || null,
       will_return: willReturn ?? false,
+      photo_paths: photoPaths ?? [],
     })
-    .select('*, places(*)')
+    .select('id')
     .single()
 
   if (error) {
@@ -103,13 +252,22 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Failed to create visit' }, { status: 500 })
   }
 
-  return NextResponse.json({ visit: data }, { status: 201 })
+  if (childIds && childIds.length > 0) {
+    const childError = await setVisitChildren(supabase, data.id, childIds)
+    if (childError) console.error('[POST /api/visits] visit_children error:', childError)
+  }
+
+  const { data: row } = await supabase.from('visits').select(VISIT_SELECT).eq('id', data.id).single()
+  const [visit] = await toVisits(supabase, row ? [row as VisitRow] : [], user.id, scope)
+
+  return NextResponse.json({ visit }, { status: 201 })
 }
 
 /**
  * PATCH /api/visits
- * Update a visit record (memo, willReturn)
- * Body: { visitId: number, memo?: string, willReturn?: boolean }
+ * Update a visit record (memo, willReturn, children, photos); any family member may edit
+ * Body: { visitId: number, memo?: string, willReturn?: boolean, childIds?: number[], photoPaths?: string[] }
+ * Photos dropped from photoPaths are deleted from storage.
  */
 export async function PATCH(request: NextRequest) {
   const supabase = await createServerSupabase()
@@ -123,14 +281,14 @@ export async function PATCH(request: NextRequest) {
     return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
   }
 
-  let body: { visitId: number; memo?: string; willReturn?: boolean }
+  let body: { visitId: number; memo?: string; willReturn?: boolean; childIds?: number[]; photoPaths?: string[] }
   try {
     body = await request.json()
   } catch {
     return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
   }
 
-  const { visitId, memo, willReturn } = body
+  const { visitId, memo, willReturn, childIds, photoPaths } = body
 
   if (!visitId) {
     return NextResponse.json({ error: 'visitId is required' }, { status: 400 })
@@ -139,30 +297,68 @@ export async function PATCH(request: NextRequest) {
   const updateData: Record<string, unknown> = {}
   if (memo !== undefined) updateData.memo = memo
   if (willReturn !== undefined) updateData.will_return = willReturn
+  if (photoPaths !== undefined) updateData.photo_paths = photoPaths
 
-  if (Object.keys(updateData).length === 0) {
+  if (Object.keys(updateData).length === 0 && childIds === undefined) {
     return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
   }
 
-  const { data, error } = await supabase
+  const scope = await getFamilyScope(supabase, user.id)
+  const { data: existing } = await supabase
     .from('visits')
-    .update(updateData)
+    .select('photo_paths')
     .eq('id', visitId)
-    .eq('user_id', user.id)
-    .select('*, places(*)')
-    .single()
+    .in('user_id', scope.userIds)
+    .maybeSingle()
 
-  if (error) {
-    console.error('[PATCH /api/visits] Supabase error:', error)
-    return NextResponse.json({ error: 'Failed to update visit' }, { status: 500 })
+  if (!existing) {
+    return NextResponse.json({ error: 'Visit not found' }, { status: 404 })
   }
 
-  return NextResponse.json({ visit: data })
+  const invalid = validateAttachments(childIds, photoPaths, user.id, (existing.photo_paths ?? []) as string[])
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 })
+  }
+
+  if (Object.keys(updateData).length > 0) {
+    const { error } = await supabase
+      .from('visits')
+      .update(updateData)
+      .eq('id', visitId)
+      .in('user_id', scope.userIds)
+
+    if (error) {
+      console.error('[PATCH /api/visits] Supabase error:', error)
+      return NextResponse.json({ error: 'Failed to update visit' }, { status: 500 })
+    }
+  }
+
+  if (childIds !== undefined) {
+    const childError = await setVisitChildren(supabase, visitId, childIds)
+    if (childError) {
+      console.error('[PATCH /api/visits] visit_children error:', childError)
+      return NextResponse.json({ error: 'Failed to update visit' }, { status: 500 })
+    }
+  }
+
+  if (photoPaths !== undefined) {
+    const kept = new Set(photoPaths)
+    const dropped = ((existing.photo_paths ?? []) as string[]).filter((p) => !kept.has(p))
+    if (dropped.length > 0) {
+      const { error: storageError } = await supabase.storage.from(VISIT_PHOTO_BUCKET).remove(dropped)
+      if (storageError) console.error('[PATCH /api/visits] photo cleanup error:', storageError)
+    }
+  }
+
+  const { data: row } = await supabase.from('visits').select(VISIT_SELECT).eq('id', visitId).single()
+  const [visit] = await toVisits(supabase, row ? [row as VisitRow] : [], user.id, scope)
+
+  return NextResponse.json({ visit })
 }
 
 /**
  * DELETE /api/visits
- * Delete a visit record
+ * Delete a visit record and its photos
  * Query: ?visitId=123
  */
 export async function DELETE(request: NextRequest) {
@@ -183,16 +379,24 @@ export async function DELETE(request: NextRequest) {
     return NextResponse.json({ error: 'visitId is required' }, { status: 400 })
   }
 
-  const { error } = await supabase
+  const { userIds } = await getFamilyScope(supabase, user.id)
+  const { data, error } = await supabase
     .from('visits')
     .delete()
     .eq('id', visitId)
-    .eq('user_id', user.id)
+    .in('user_id', userIds)
+    .select('photo_paths')
 
   if (error) {
     console.error('[DELETE /api/visits] Supabase error:', error)
     return NextResponse.json({ error: 'Failed to delete visit' }, { status: 500 })
   }
 
+  const photos = (data ?? []).flatMap((row) => (row.photo_paths ?? []) as string[])
+  if (photos.length > 0) {
+    const { error: storageError } = await supabase.storage.from(VISIT_PHOTO_BUCKET).remove(photos)
+    if (storageError) console.error('[DELETE /api/visits] photo cleanup error:', storageError)
+  }
+
   return NextResponse.json({ deleted: true })
 }
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase-server'
+import { computeVisitStats, type VisitStatsInput } from '@/lib/visit-stats'
+import type { VisitStatsResponse } from '@/types'
+import { getFamilyScope } from '../../family/lib/family-scope'
+
+const PAGE_SIZE = 1000
+
+/**
+ * GET /api/visits/stats?year=2026
+ * Returns: yearly diary stats (src/lib/visit-stats.ts) + the years that have visits.
+ * Covers the whole family's diary and reads every visit so "new 구" can
+ * compare against earlier years.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createServerSupabase()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const yearParam = request.nextUrl.searchParams.get('year')
+  const year = yearParam ? parseInt(yearParam, 10) : new Date().getFullYear()
+  if (isNaN(year) || year < 2000 || year > 2100) {
+    return NextResponse.json({ error: 'Invalid year' }, { status: 400 })
+  }
+
+  const { userIds } = await getFamilyScope(supabase, user.id)
+  const visits: VisitStatsInput[] = []
+  let offset = 0
+  while (true) {
+    const { data, error } = await supabase
+      .from('visits')
+      .select(
+        'visited_at, place_id, event_id, places(id, name, category, address, road_address), events(id, venue_address)'
+      )
+      .in('user_id', userIds)
+      .lte('visited_at', `${year}-12-31`)
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      console.error('[GET /api/visits/stats] Supabase error:', error)
+      return NextResponse.json({ error: 'Database query failed' }, { status: 500 })
+    }
+    if (!data || data.length === 0) break
+    visits.push(...(data as unknown as VisitStatsInput[]))
+    if (data.length < PAGE_SIZE) break
+    offset += PAGE_SIZE
+  }
+
+  const { data: latest } = await supabase
+    .from('visits')
+    .select('visited_at')
+    .in('user_id', userIds)
+    .order('visited_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const firstYear = visits.reduce((min, v) => Math.min(min, Number(v.visited_at.slice(0, 4))), year)
+  const lastYear = latest ? Number(String(latest.visited_at).slice(0, 4)) : year
+  const years: number[] = []
+  for (let y = Math.max(lastYear, year); y >= firstYear; y--) years.push(y)
+
+  const response: VisitStatsResponse = {
+    stats: computeVisitStats(visits, year),
+    years,
+  }
+  return NextResponse.json(response)
+}
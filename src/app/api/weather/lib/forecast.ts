@@ -0,0 +1,196 @@
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import {
+  airRegionFor,
+  buildWeatherSlots,
+  forecastDays,
+  getAirKoreaRelease,
+  getKmaBaseTime,
+  getUltraSrtBaseTime,
+  outdoorScore,
+  parseAirForecast,
+  parseVilageForecast,
+  parseWeatherCode,
+  summarizeDays,
+  toGridCoord,
+  weatherAlerts,
+  type AirForecastItem,
+  type KmaForecastItem,
+  type ShortTermForecast,
+} from '@/lib/weather'
+import type { AirGrade, WeatherResponse } from '@/types'
+
+const KMA_BASE_URL = 'https://apis.data.go.kr/1360000/VilageFcstInfoService_2.0'
+const AIRKOREA_URL = 'https://apis.data.go.kr/B552584/ArpltnInforInqireSvc/getMinuDustFrcstDspth'
+
+// getUltraSrtFcst: 6 hours x 10 categories; getVilageFcst: ~3 days x 12 categories
+const ULTRA_ROWS = 60
+const VILAGE_ROWS = 1000
+
+interface DataGoKrResponse<T> {
+  response?: {
+    header?: { resultCode: string; resultMsg: string }
+    body?: { items?: T }
+  }
+}
+
+/**
+ * Read a weather_cache row, reusing it while its version is current.
+ * Otherwise load and store it; when the load fails an older row is served
+ * instead. Cache read/write errors only cost a fresh upstream call.
+ */
+async function cached<T>(key: string, version: string, load: () => Promise<T>): Promise<T> {
+  const supabase = getSupabaseAdmin()
+  const { data: row, error } = await supabase
+    .from('weather_cache')
+    .select('version, payload')
+    .eq('cache_key', key)
+    .maybeSingle()
+  if (error) console.error(`[weather] Cache read failed for ${key}:`, error.message)
+  if (row && row.version === version) return row.payload as T
+
+  let payload: T
+  try {
+    payload = await load()
+  } catch (err) {
+    if (!row) throw err
+    console.warn(`[weather] Serving stale ${key} (${row.version}):`, err)
+    return row.payload as T
+  }
+
+  const { error: writeError } = await supabase
+    .from('weather_cache')
+    .upsert({ cache_key: key, version, payload, fetched_at: new Date().toISOString() })
+  if (writeError) console.error(`[weather] Cache write failed for ${key}:`, writeError.message)
+  return payload
+}
+
+async function fetchDataGoKr<T>(url: string, label: string): Promise<T> {
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) throw new Error(`${label} HTTP ${res.status}`)
+  const json = (await res.json()) as DataGoKrResponse<T>
+  const header = json.response?.header
+  if (header?.resultCode !== '00') {
+    throw new Error(`${label} error ${header?.resultCode}: ${header?.resultMsg}`)
+  }
+  const items = json.response?.body?.items
+  if (!items) throw new Error(`${label} returned no items`)
+  return items
+}
+
+async function fetchKma(
+  operation: 'getUltraSrtFcst' | 'getVilageFcst',
+  apiKey: string,
+  nx: number,
+  ny: number,
+  base: { baseDate: string; baseTime: string },
+  numOfRows: number
+): Promise<KmaForecastItem[]> {
+  const params = new URLSearchParams({
+    serviceKey: apiKey,
+    pageNo: '1',
+    numOfRows: String(numOfRows),
+    dataType: 'JSON',
+    base_date: base.baseDate,
+    base_time: base.baseTime,
+    nx: String(nx),
+    ny: String(ny),
+  })
+  const items = await fetchDataGoKr<{ item: KmaForecastItem[] }>(`${KMA_BASE_URL}/${operation}?${params.toString()}`, operation)
+  return items.item.map(({ category, fcstDate, fcstTime, fcstValue }) => ({ category, fcstDate, fcstTime, fcstValue }))
+}
+
+async function fetchAirForecast(apiKey: string, searchDate: string): Promise<AirForecastItem[]> {
+  const params = new URLSearchParams({
+    serviceKey: apiKey,
+    returnType: 'json',
+    pageNo: '1',
+    numOfRows: '100',
+    searchDate,
+  })
+  const items = await fetchDataGoKr<AirForecastItem[]>(`${AIRKOREA_URL}?${params.toString()}`, 'getMinuDustFrcstDspth')
+  return items
+    .filter((i) => i.informCode === 'PM10' || i.informCode === 'PM25')
+    .map(({ informCode, informData, informGrade, dataTime }) => ({ informCode, informData, informGrade, dataTime }))
+}
+
+/** Current conditions from the first getUltraSrtFcst hour */
+function parseCurrent(items: KmaForecastItem[]) {
+  const first = items.map((i) => `${i.fcstDate}${i.fcstTime}`).sort()[0]
+  const value = (category: string) => {
+    const item = items.find((i) => i.category === category && `${i.fcstDate}${i.fcstTime}` === first)
+    return item ? parseFloat(item.fcstValue) : NaN
+  }
+  const pty = value('PTY')
+  const temperature = value('T1H')
+  const windSpeed = value('WSD')
+  return {
+    pty: isNaN(pty) ? 0 : pty,
+    temperature: isNaN(temperature) ? null : temperature,
+    windSpeed: isNaN(windSpeed) ? null : windSpeed,
+  }
+}
+
+/**
+ * Current conditions, hourly slots, today / tomorrow / weekend summaries and
+ * heat / cold alerts for a point. Each source degrades on its own: without
+ * the short-term forecast there are no slots, without AirKorea (or
+ * AIRKOREA_API_KEY) air is null. Throws only when both KMA sources fail.
+ */
+export async function getWeather(lat: number, lng: number, kmaKey: string, now = new Date()): Promise<WeatherResponse> {
+  const { nx, ny } = toGridCoord(lat, lng)
+  const ultraBase = getUltraSrtBaseTime(now)
+  const vilageBase = getKmaBaseTime()
+  const airKey = process.env.AIRKOREA_API_KEY
+  const airRelease = getAirKoreaRelease(now)
+
+  const [ultra, vilage, airItems] = await Promise.allSettled([
+    cached(`ultra:${nx},${ny}`, ultraBase.baseDate + ultraBase.baseTime, () =>
+      fetchKma('getUltraSrtFcst', kmaKey, nx, ny, ultraBase, ULTRA_ROWS)
+    ),
+    cached(`vilage:${nx},${ny}`, vilageBase.baseDate + vilageBase.baseTime, () =>
+      fetchKma('getVilageFcst', kmaKey, nx, ny, vilageBase, VILAGE_ROWS)
+    ),
+    airKey
+      ? cached('air', airRelease.version, () => fetchAirForecast(airKey, airRelease.searchDate))
+      : Promise.resolve([] as AirForecastItem[]),
+  ])
+
+  if (ultra.status === 'rejected') console.error('[weather] getUltraSrtFcst failed:', ultra.reason)
+  if (vilage.status === 'rejected') console.error('[weather] getVilageFcst failed:', vilage.reason)
+  if (airItems.status === 'rejected') console.error('[weather] AirKorea forecast failed:', airItems.reason)
+  if (ultra.status === 'rejected' && vilage.status === 'rejected') {
+    throw new Error('KMA forecasts unavailable')
+  }
+
+  const forecast: ShortTermForecast = vilage.status === 'fulfilled'
+    ? parseVilageForecast(vilage.value)
+    : { hours: [], extremes: {} }
+  const air: Record<string, AirGrade> = airItems.status === 'fulfilled'
+    ? parseAirForecast(airItems.value, airRegionFor(lat, lng))
+    : {}
+
+  const kstNow = new Date(now.getTime() + 9 * 60 * 60 * 1000).toISOString()
+  const today = kstNow.slice(0, 10)
+  const slots = buildWeatherSlots(forecast.hours, air, `${kstNow.slice(0, 13)}:00`)
+
+  // Right now: getUltraSrtFcst, else the current short-term forecast hour
+  const current = ultra.status === 'fulfilled' ? parseCurrent(ultra.value) : null
+  const slot = slots[0]
+  const temperature = current?.temperature ?? slot?.temperature ?? 0
+  const { isRaining, description } = current
+    ? parseWeatherCode(current.pty, temperature)
+    : { isRaining: slot?.isRaining ?? false, description: slot?.description ?? '알 수 없음' }
+  const score = current
+    ? outdoorScore({ temperature, pop: slot?.pop ?? 0, isRaining, windSpeed: current.windSpeed, air: air[today] ?? null })
+    : slot?.outdoorScore ?? 0
+
+  return {
+    isRaining,
+    temperature,
+    description,
+    outdoorScore: score,
+    slots,
+    days: summarizeDays(forecast, air, forecastDays(today)),
+    alerts: weatherAlerts(forecast.extremes).filter((a) => a.date >= today),
+  }
+}
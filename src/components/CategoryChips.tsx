@@ -1,5 +1,6 @@
 'use client'
 
+import type { ReactNode } from 'react'
 import type { PlaceCategory } from '@/types'
 
 const CATEGORIES: { value: PlaceCategory; emoji: string; label: string }[] = [
@@ -18,9 +19,11 @@ const CATEGORIES: { value: PlaceCategory; emoji: string; label: string }[] = [
 interface CategoryChipsProps {
   selected: PlaceCategory[]
   onChange: (selected: PlaceCategory[]) => void
+  /** Extra chips rendered before the categories in the same scroll row */
+  leading?: ReactNode
 }
 
-export default function CategoryChips({ selected, onChange }: CategoryChipsProps) {
+export default function CategoryChips({ selected, onChange, leading }: CategoryChipsProps) {
   const toggle = (cat: PlaceCategory) => {
     if (selected.includes(cat)) {
       onChange(selected.filter((c) => c !== cat))
@@ -35,6 +38,7 @@ export default function CategoryChips({ selected, onChange }: CategoryChipsProps
       role="group"
       aria-label="카테고리 필터"
     >
+      {leading}
       {CATEGORIES.map(({ value, emoji, label }) => {
         const isSelected = selected.includes(value)
         return (
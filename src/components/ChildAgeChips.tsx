@@ -0,0 +1,44 @@
+'use client'
+
+import { ageInMonths, formatAgeMonths } from '@/lib/age-range'
+import type { Child } from '@/types'
+
+interface ChildAgeChipsProps {
+  childProfiles: Child[]
+  activeChildId: number | null
+  onChange: (childId: number | null) => void
+}
+
+/** One chip per registered child; the active child's age filters places and events */
+export default function ChildAgeChips({ childProfiles, activeChildId, onChange }: ChildAgeChipsProps) {
+  return (
+    <>
+      {childProfiles.map((child) => {
+        const months = ageInMonths(child.birth_month)
+        if (months === null) return null
+        const isSelected = child.id === activeChildId
+        const label = child.nickname ? `${child.nickname} ${formatAgeMonths(months)}` : formatAgeMonths(months)
+        return (
+          <button
+            key={child.id}
+            onClick={() => onChange(isSelected ? null : child.id)}
+            className={`
+              flex items-center gap-1 shrink-0 h-8 px-3 rounded-full
+              text-[13px] font-medium transition-all duration-150
+              border
+              ${isSelected
+                ? 'bg-coral-500 border-coral-500 text-white'
+                : 'bg-white border-coral-200 text-coral-600'
+              }
+            `}
+            aria-pressed={isSelected}
+            aria-label={`${label} 연령 맞춤 ${isSelected ? '적용됨' : '적용 안됨'}`}
+          >
+            <span>👶</span>
+            <span>{label}</span>
+          </button>
+        )
+      })}
+    </>
+  )
+}
@@ -0,0 +1,148 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Plus, Trash2 } from 'lucide-react'
+import { useChildren } from '@/hooks/useChildren'
+import { ageInMonths, formatAgeMonths } from '@/lib/age-range'
+import type { Child } from '@/types'
+
+async function addChild(input: { birthMonth: string; nickname: string }): Promise<Child> {
+  const res = await fetch('/api/children', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ birthMonth: input.birthMonth, nickname: input.nickname || null }),
+  })
+  if (!res.ok) throw new Error('아이 정보를 저장하지 못했습니다.')
+  const { child } = await res.json()
+  return child
+}
+
+async function deleteChild(childId: number): Promise<void> {
+  const res = await fetch(`/api/children?childId=${childId}`, { method: 'DELETE' })
+  if (!res.ok) throw new Error('아이 정보를 삭제하지 못했습니다.')
+}
+
+/** Current month as YYYY-MM, the upper bound for the birth month picker */
+function currentMonth(): string {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+}
+
+/** 아이 정보 section on the profile page: list, add and remove children */
+export default function ChildrenEditor() {
+  const queryClient = useQueryClient()
+  const children = useChildren()
+  const [birthMonth, setBirthMonth] = useState('')
+  const [nickname, setNickname] = useState('')
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['children'] })
+  }
+
+  const addMutation = useMutation({
+    mutationFn: addChild,
+    onSuccess: () => {
+      invalidate()
+      setBirthMonth('')
+      setNickname('')
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteChild,
+    onSuccess: invalidate,
+  })
+
+  const error = addMutation.error ?? deleteMutation.error
+
+  return (
+    <div className="bg-white rounded-xl p-4 mb-4">
+      <label className="text-[15px] font-semibold text-warm-700 block mb-1">
+        아이 정보
+      </label>
+      <p className="text-[13px] text-warm-400 mb-3">
+        월령에 맞는 장소와 행사를 먼저 보여드려요.
+      </p>
+
+      {children.length > 0 && (
+        <ul className="space-y-2 mb-3">
+          {children.map((child) => {
+            const months = ageInMonths(child.birth_month)
+            return (
+              <li
+                key={child.id}
+                className="flex items-center justify-between px-3 py-2 rounded-lg bg-warm-50"
+              >
+                <div className="min-w-0">
+                  <span className="text-[15px] font-medium text-warm-700">
+                    👶 {child.nickname || '아이'}
+                  </span>
+                  <span className="text-[13px] text-warm-500 ml-2">
+                    {child.birth_month.slice(0, 7).replace('-', '.')}생
+                    {months !== null && ` · ${formatAgeMonths(months)}`}
+                  </span>
+                </div>
+                <button
+                  onClick={() => deleteMutation.mutate(child.id)}
+                  disabled={deleteMutation.isPending}
+                  className="p-2 text-warm-400 active:text-red-500 disabled:opacity-50"
+                  aria-label={`${child.nickname || '아이'} 삭제`}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="month"
+          value={birthMonth}
+          max={currentMonth()}
+          onChange={(e) => setBirthMonth(e.target.value)}
+          className="
+            flex-1 min-w-0 px-3 py-2 border border-warm-200 rounded-lg
+            text-[15px] bg-white focus:outline-none focus:ring-2
+            focus:ring-coral-400 focus:border-transparent
+          "
+          aria-label="태어난 달"
+        />
+        <input
+          type="text"
+          value={nickname}
+          onChange={(e) => setNickname(e.target.value)}
+          placeholder="애칭 (선택)"
+          maxLength={20}
+          className="
+            flex-1 min-w-0 px-3 py-2 border border-warm-200 rounded-lg
+            text-[15px] bg-white focus:outline-none focus:ring-2
+            focus:ring-coral-400 focus:border-transparent
+          "
+          aria-label="애칭"
+        />
+        <button
+          onClick={() => addMutation.mutate({ birthMonth, nickname: nickname.trim() })}
+          disabled={!birthMonth || addMutation.isPending}
+          className="
+            shrink-0 flex items-center justify-center
+            w-11 rounded-lg text-white
+            bg-coral-500 active:bg-coral-600
+            disabled:opacity-50 disabled:cursor-not-allowed
+          "
+          aria-label="아이 추가"
+        >
+          <Plus size={18} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="text-[13px] text-red-600 bg-red-50 px-3 py-2 rounded-lg mt-3">
+          {error instanceof Error ? error.message : '요청에 실패했습니다.'}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Copy, Check, RefreshCw } from 'lucide-react'
+import { familyInviteUrl } from '@/lib/family'
+import type { FamilyResponse } from '@/types'
+
+async function fetchFamily(): Promise<FamilyResponse> {
+  const res = await fetch('/api/family')
+  if (!res.ok) throw new Error('가족 정보를 불러오지 못했습니다.')
+  return res.json()
+}
+
+async function familyAction(method: 'POST' | 'DELETE', path = '/api/family'): Promise<void> {
+  const res = await fetch(path, { method })
+  if (!res.ok) throw new Error('요청을 처리하지 못했습니다.')
+}
+
+/** 가족 공유 section on the profile page: create a family, share the invite link, leave */
+export default function FamilyEditor() {
+  const queryClient = useQueryClient()
+  const [copied, setCopied] = useState(false)
+
+  const { data } = useQuery({
+    queryKey: ['family'],
+    queryFn: fetchFamily,
+    staleTime: 5 * 60_000,
+  })
+
+  // Membership changes what favorites / hidden items / diary / children show
+  const invalidate = () => {
+    for (const key of ['family', 'favorites', 'visits', 'children', 'place', 'event']) {
+      queryClient.invalidateQueries({ queryKey: [key] })
+    }
+  }
+
+  const createMutation = useMutation({ mutationFn: () => familyAction('POST'), onSuccess: invalidate })
+  const leaveMutation = useMutation({ mutationFn: () => familyAction('DELETE'), onSuccess: invalidate })
+  const resetMutation = useMutation({
+    mutationFn: () => familyAction('POST', '/api/family/invite'),
+    onSuccess: invalidate,
+  })
+
+  const family = data?.family ?? null
+  const members = data?.members ?? []
+  const isOwner = members.some((m) => m.is_me && m.role === 'owner')
+  const origin = typeof window !== 'undefined' ? window.location.origin : ''
+  const inviteUrl = family ? familyInviteUrl(origin, family.invite_code) : ''
+  const error = createMutation.error ?? leaveMutation.error ?? resetMutation.error
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      // Clipboard unavailable; the link stays visible to copy by hand
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl p-4 mb-4">
+      <label className="text-[15px] font-semibold text-warm-700 block mb-1">
+        가족 공유
+      </label>
+      <p className="text-[13px] text-warm-400 mb-3">
+        즐겨찾기, 숨긴 장소, 방문 다이어리를 가족과 함께 써요.
+      </p>
+
+      {!family && (
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending}
+          className="w-full py-2.5 rounded-lg bg-coral-500 text-white text-[14px] font-semibold min-h-[44px] disabled:opacity-50"
+        >
+          가족 만들고 초대하기
+        </button>
+      )}
+
+      {family && (
+        <>
+          <ul className="space-y-2 mb-3">
+            {members.map((member) => (
+              <li
+                key={member.user_id}
+                className="flex items-center justify-between px-3 py-2 rounded-lg bg-warm-50"
+              >
+                <span className="text-[15px] font-medium text-warm-700">
+                  {member.name}
+                  {member.is_me && <span className="text-[13px] text-warm-400"> (나)</span>}
+                </span>
+                {member.role === 'owner' && (
+                  <span className="text-[12px] font-medium text-coral-500">관리자</span>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <p className="text-[13px] text-warm-500 mb-1">초대 링크</p>
+          <div className="flex items-center gap-2 mb-3">
+            <input
+              readOnly
+              value={inviteUrl}
+              className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-warm-200 text-[13px] text-warm-600 bg-warm-50"
+              onFocus={(e) => e.target.select()}
+            />
+            <button
+              onClick={handleCopy}
+              className="min-w-[40px] min-h-[40px] flex items-center justify-center rounded-lg bg-warm-100 text-warm-600"
+              aria-label="초대 링크 복사"
+            >
+              {copied ? <Check size={16} /> : <Copy size={16} />}
+            </button>
+            {isOwner && (
+              <button
+                onClick={() => resetMutation.mutate()}
+                disabled={resetMutation.isPending}
+                className="min-w-[40px] min-h-[40px] flex items-center justify-center rounded-lg bg-warm-100 text-warm-600 disabled:opacity-50"
+                aria-label="초대 링크 새로 만들기"
+              >
+                <RefreshCw size={16} />
+              </button>
+            )}
+          </div>
+
+          <button
+            onClick={() => {
+              if (confirm('가족에서 나갈까요? 내가 추가한 기록은 나와 함께 빠져요.')) leaveMutation.mutate()
+            }}
+            disabled={leaveMutation.isPending}
+            className="text-[13px] text-warm-400 underline disabled:opacity-50"
+          >
+            가족 나가기
+          </button>
+        </>
+      )}
+
+      {error && <p className="text-[13px] text-red-500 mt-2">{error.message}</p>}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { X } from 'lucide-react'
 import { Drawer } from 'vaul'
 import type { PlaceCategory, FacilityTag, SortOption } from '@/types'
+import type { AmenityFilter } from '@/lib/amenities'
 
 const CATEGORIES: { value: PlaceCategory; emoji: string; label: string }[] = [
   { value: '놀이', emoji: '🎪', label: '놀이' },
@@ -17,21 +18,37 @@ const CATEGORIES: { value: PlaceCategory; emoji: string; label: string }[] = [
   { value: '편의시설', emoji: '🚼', label: '편의시설' },
 ]
 
+/** Structured amenities (src/lib/amenities.ts); every selected one must match */
+const AMENITY_FILTERS: { value: AmenityFilter; emoji: string; label: string }[] = [
+  { value: 'nursing_room', emoji: '🍼', label: '수유실' },
+  { value: 'nursing_room:family', emoji: '👪', label: '가족수유실' },
+  { value: 'changing_table', emoji: '🚼', label: '기저귀교환대' },
+  { value: 'changing_table:mens_restroom', emoji: '👨', label: '남성교환대' },
+  { value: 'stroller_rental', emoji: '👶', label: '유모차대여' },
+  { value: 'step_free_entrance', emoji: '♿', label: '무단차 출입' },
+  { value: 'elevator', emoji: '🛗', label: '엘리베이터' },
+  { value: 'baby_chair', emoji: '🪑', label: '아기의자' },
+  { value: 'parking', emoji: '🅿', label: '주차' },
+  { value: 'parking:free', emoji: '🆓', label: '무료주차' },
+]
+
+/** Labels that aren't amenities stay tag filters */
 const FACILITY_TAGS: { value: FacilityTag; emoji: string; label: string }[] = [
-  { value: '수유실', emoji: '🍼', label: '수유실' },
-  { value: '기저귀교환대', emoji: '🚼', label: '기저귀교환대' },
-  { value: '남성화장실교환대', emoji: '👨', label: '남성교환대' },
-  { value: '유모차접근', emoji: '👶', label: '유모차접근' },
-  { value: '아기의자', emoji: '🪑', label: '아기의자' },
-  { value: '주차', emoji: '🅿', label: '주차' },
   { value: '예스키즈존', emoji: '😊', label: '예스키즈존' },
-  { value: '엘리베이터', emoji: '🛗', label: '엘리베이터' },
+]
+
+const CONDITION_TOGGLES: { key: 'openNow' | 'freeOnly'; emoji: string; label: string }[] = [
+  { key: 'openNow', emoji: '🕙', label: '지금 영업 중' },
+  { key: 'freeOnly', emoji: '🆓', label: '무료만' },
 ]
 
 interface FilterState {
   categories: PlaceCategory[]
   tags: FacilityTag[]
+  amenities: AmenityFilter[]
   sort: SortOption
+  openNow: boolean
+  freeOnly: boolean
 }
 
 interface FilterPanelProps {
@@ -47,7 +64,12 @@ export default function FilterPanel({
   filters,
   onFiltersChange,
 }: FilterPanelProps) {
-  const totalActive = filters.categories.length + filters.tags.length
+  const totalActive =
+    filters.categories.length +
+    filters.tags.length +
+    filters.amenities.length +
+    (filters.openNow ? 1 : 0) +
+    (filters.freeOnly ? 1 : 0)
 
   const toggleCategory = (cat: PlaceCategory) => {
     const next = filters.categories.includes(cat)
@@ -63,12 +85,19 @@ export default function FilterPanel({
     onFiltersChange({ ...filters, tags: next })
   }
 
+  const toggleAmenity = (amenity: AmenityFilter) => {
+    const next = filters.amenities.includes(amenity)
+      ? filters.amenities.filter((a) => a !== amenity)
+      : [...filters.amenities, amenity]
+    onFiltersChange({ ...filters, amenities: next })
+  }
+
   const handleApply = () => {
     onOpenChange(false)
   }
 
   const handleReset = () => {
-    onFiltersChange({ categories: [], tags: [], sort: 'distance' })
+    onFiltersChange({ categories: [], tags: [], amenities: [], sort: 'distance', openNow: false, freeOnly: false })
   }
 
   return (
@@ -159,6 +188,27 @@ export default function FilterPanel({
                 role="group"
                 aria-label="편의시설 선택"
               >
+                {AMENITY_FILTERS.map(({ value, emoji, label }) => {
+                  const isSelected = filters.amenities.includes(value)
+                  return (
+                    <button
+                      key={value}
+                      onClick={() => toggleAmenity(value)}
+                      className={`
+                        flex items-center gap-1.5 h-9 px-3 rounded-full
+                        text-[13px] font-medium border transition-all
+                        ${isSelected
+                          ? 'bg-coral-200 border-coral-400 text-coral-700'
+                          : 'bg-warm-100 border-warm-200 text-warm-600'
+                        }
+                      `}
+                      aria-pressed={isSelected}
+                    >
+                      <span>{emoji}</span>
+                      <span>{label}</span>
+                    </button>
+                  )
+                })}
                 {FACILITY_TAGS.map(({ value, emoji, label }) => {
                   const isSelected = filters.tags.includes(value)
                   return (
@@ -183,6 +233,40 @@ export default function FilterPanel({
               </div>
             </section>
 
+            {/* Conditions (opening hours, price) */}
+            <section>
+              <h3 className="text-[13px] font-semibold text-warm-500 uppercase tracking-wide mb-3">
+                이용 조건
+              </h3>
+              <div
+                className="flex flex-wrap gap-2"
+                role="group"
+                aria-label="이용 조건 선택"
+              >
+                {CONDITION_TOGGLES.map(({ key, emoji, label }) => {
+                  const isSelected = filters[key]
+                  return (
+                    <button
+                      key={key}
+                      onClick={() => onFiltersChange({ ...filters, [key]: !isSelected })}
+                      className={`
+                        flex items-center gap-1.5 h-9 px-3 rounded-full
+                        text-[13px] font-medium border transition-all
+                        ${isSelected
+                          ? 'bg-coral-200 border-coral-400 text-coral-700'
+                          : 'bg-warm-100 border-warm-200 text-warm-600'
+                        }
+                      `}
+                      aria-pressed={isSelected}
+                    >
+                      <span>{emoji}</span>
+                      <span>{label}</span>
+                    </button>
+                  )
+                })}
+              </div>
+            </section>
+
             {/* Sort */}
             <section>
               <h3 className="text-[13px] font-semibold text-warm-500 uppercase tracking-wide mb-3">
@@ -0,0 +1,76 @@
+'use client'
+
+import { useEffect, useState, useSyncExternalStore } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { WifiOff, CheckCircle2 } from 'lucide-react'
+import { SW_MESSAGE, onServiceWorkerEvent, postToServiceWorker } from '@/lib/service-worker'
+
+const SYNCED_NOTICE_MS = 3000
+
+function subscribeOnline(callback: () => void) {
+  window.addEventListener('online', callback)
+  window.addEventListener('offline', callback)
+  return () => {
+    window.removeEventListener('online', callback)
+    window.removeEventListener('offline', callback)
+  }
+}
+
+/** Top banner while offline; replays queued diary entries when the connection returns */
+export default function OfflineBanner() {
+  const queryClient = useQueryClient()
+  const isOnline = useSyncExternalStore(subscribeOnline, () => navigator.onLine, () => true)
+  const [pending, setPending] = useState(0)
+  const [syncedCount, setSyncedCount] = useState(0)
+
+  useEffect(() => {
+    return onServiceWorkerEvent((event) => {
+      setPending(event.pending)
+      if (event.type === SW_MESSAGE.SYNCED && event.synced > 0) {
+        setSyncedCount(event.synced)
+        queryClient.invalidateQueries({ queryKey: ['visits'] })
+        queryClient.invalidateQueries({ queryKey: ['place'] })
+      }
+    })
+  }, [queryClient])
+
+  // Background Sync is Chromium-only; flush explicitly on reconnect and on load
+  useEffect(() => {
+    if (isOnline) postToServiceWorker(SW_MESSAGE.FLUSH)
+  }, [isOnline])
+
+  useEffect(() => {
+    if (syncedCount === 0) return
+    const timer = setTimeout(() => setSyncedCount(0), SYNCED_NOTICE_MS)
+    return () => clearTimeout(timer)
+  }, [syncedCount])
+
+  if (!isOnline) {
+    return (
+      <div
+        role="status"
+        className="fixed top-0 inset-x-0 z-50 flex items-center justify-center gap-2 px-4 py-2 bg-warm-700 text-white text-[13px] font-medium"
+      >
+        <WifiOff size={14} className="shrink-0" />
+        <span>
+          오프라인 상태예요. 저장된 정보만 보여요
+          {pending > 0 && ` · 방문 기록 ${pending}건 대기 중`}
+        </span>
+      </div>
+    )
+  }
+
+  if (syncedCount > 0) {
+    return (
+      <div
+        role="status"
+        className="fixed top-0 inset-x-0 z-50 flex items-center justify-center gap-2 px-4 py-2 bg-coral-500 text-white text-[13px] font-medium"
+      >
+        <CheckCircle2 size={14} className="shrink-0" />
+        <span>오프라인 방문 기록 {syncedCount}건을 저장했어요</span>
+      </div>
+    )
+  }
+
+  return null
+}
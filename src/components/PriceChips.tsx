@@ -0,0 +1,27 @@
+import { priceChips, type PriceColumns } from '@/lib/price'
+
+interface PriceChipsProps {
+  row: Partial<PriceColumns>
+  className?: string
+}
+
+/** 무료 / 어린이 3,000원 / 24개월 미만 무료 chips for place and event cards */
+export default function PriceChips({ row, className = '' }: PriceChipsProps) {
+  const chips = priceChips(row)
+  if (chips.length === 0) return null
+
+  return (
+    <span className={`inline-flex items-center gap-1 flex-wrap ${className}`}>
+      {chips.map((chip) => (
+        <span
+          key={chip}
+          className={`text-[11px] font-medium px-1.5 py-0.5 rounded ${
+            chip.endsWith('무료') ? 'bg-green-50 text-green-700' : 'bg-warm-100 text-warm-600'
+          }`}
+        >
+          {chip}
+        </span>
+      ))}
+    </span>
+  )
+}
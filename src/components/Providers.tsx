@@ -1,7 +1,9 @@
 'use client'
 
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
-import { useState, ReactNode } from 'react'
+import { useEffect, useState, ReactNode } from 'react'
+import OfflineBanner from '@/components/OfflineBanner'
+import { registerServiceWorker } from '@/lib/service-worker'
 
 export default function Providers({ children }: { children: ReactNode }) {
   const [queryClient] = useState(
@@ -11,12 +13,24 @@ export default function Providers({ children }: { children: ReactNode }) {
           queries: {
             staleTime: 30_000,
             retry: 1,
+            // Let requests reach the service worker cache instead of pausing offline
+            networkMode: 'offlineFirst',
+          },
+          mutations: {
+            networkMode: 'offlineFirst',
           },
         },
       }),
   )
 
+  useEffect(() => {
+    registerServiceWorker()
+  }, [])
+
   return (
-    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    <QueryClientProvider client={queryClient}>
+      <OfflineBanner />
+      {children}
+    </QueryClientProvider>
   )
 }
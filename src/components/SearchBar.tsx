@@ -1,7 +1,14 @@
 'use client'
 
-import { useRef } from 'react'
-import { Search, X } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Clock, LayoutGrid, Map as MapIcon, MapPin, Search, TrendingUp, X } from 'lucide-react'
+import { highlightRanges } from '@/lib/search'
+import type { SearchSuggestion, SearchSuggestResponse } from '@/types'
+import { Highlighted } from './SearchResults'
+
+/** Delay before the typed text is sent to /api/search/suggest */
+const SUGGEST_DEBOUNCE_MS = 150
 
 interface SearchBarProps {
   value: string
@@ -9,6 +16,39 @@ interface SearchBarProps {
   onSubmit?: (value: string) => void
   placeholder?: string
   autoFocus?: boolean
+  /** Show the autocomplete dropdown (suggestions, and recent searches when empty) */
+  suggest?: boolean
+  /** Place and category picks; text picks (recent, district, query) fill in and submit instead */
+  onSelectSuggestion?: (suggestion: SearchSuggestion) => void
+}
+
+type DropdownItem = { kind: 'recent'; label: string } | SearchSuggestion
+
+async function fetchSuggestions(q: string): Promise<SearchSuggestResponse> {
+  const res = await fetch(`/api/search/suggest?q=${encodeURIComponent(q)}`)
+  if (!res.ok) throw new Error('검색어 추천을 불러오지 못했습니다.')
+  return res.json()
+}
+
+function SuggestionIcon({ kind }: { kind: DropdownItem['kind'] }) {
+  const props = { size: 16, className: 'text-warm-400', 'aria-hidden': true }
+  switch (kind) {
+    case 'recent': return <Clock {...props} />
+    case 'place': return <MapPin {...props} />
+    case 'district': return <MapIcon {...props} />
+    case 'category': return <LayoutGrid {...props} />
+    case 'query': return <TrendingUp {...props} />
+  }
+}
+
+function suggestionDetail(item: DropdownItem): string | null {
+  switch (item.kind) {
+    case 'place': return item.category || '장소'
+    case 'district': return item.parent ? `${item.parent} 동네` : '동네'
+    case 'category': return '카테고리'
+    case 'query': return '인기 검색어'
+    default: return null
+  }
 }
 
 export default function SearchBar({
@@ -17,13 +57,73 @@ export default function SearchBar({
   onSubmit,
   placeholder = '장소명, 주소로 검색',
   autoFocus,
+  suggest = false,
+  onSelectSuggestion,
 }: SearchBarProps) {
   const inputRef = useRef<HTMLInputElement>(null)
+  const [isFocused, setIsFocused] = useState(false)
+  const [debounced, setDebounced] = useState(value.trim())
+  const [activeIndex, setActiveIndex] = useState(-1)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value.trim()), SUGGEST_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [value])
+
+  useEffect(() => {
+    setActiveIndex(-1)
+  }, [debounced])
+
+  const { data } = useQuery({
+    queryKey: ['search-suggest', debounced],
+    queryFn: () => fetchSuggestions(debounced),
+    enabled: suggest && isFocused,
+    staleTime: debounced ? 5 * 60_000 : 0,
+    placeholderData: (previous) => previous,
+  })
+
+  const items: DropdownItem[] = debounced
+    ? data?.suggestions ?? []
+    : (data?.recent ?? []).map((label) => ({ kind: 'recent' as const, label }))
+  const isOpen = suggest && isFocused && items.length > 0
+
+  const submit = (text: string) => {
+    onSubmit?.(text)
+    setIsFocused(false)
+    inputRef.current?.blur()
+  }
+
+  const select = (item: DropdownItem) => {
+    if ((item.kind === 'place' || item.kind === 'category') && onSelectSuggestion) {
+      setIsFocused(false)
+      inputRef.current?.blur()
+      onSelectSuggestion(item)
+      return
+    }
+    onChange(item.label)
+    submit(item.label)
+  }
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    onSubmit?.(value)
-    inputRef.current?.blur()
+    if (isOpen && activeIndex >= 0 && items[activeIndex]) {
+      select(items[activeIndex])
+      return
+    }
+    submit(value)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex((i) => (i + 1) % items.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex((i) => (i <= 0 ? items.length - 1 : i - 1))
+    } else if (e.key === 'Escape') {
+      setIsFocused(false)
+    }
   }
 
   const handleClear = () => {
@@ -43,7 +143,13 @@ export default function SearchBar({
           ref={inputRef}
           type="search"
           value={value}
-          onChange={(e) => onChange(e.target.value)}
+          onChange={(e) => {
+            onChange(e.target.value)
+            setIsFocused(true)
+          }}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          onKeyDown={handleKeyDown}
           placeholder={placeholder}
           autoFocus={autoFocus}
           className="
@@ -56,6 +162,11 @@ export default function SearchBar({
           aria-label={placeholder}
           inputMode="search"
           enterKeyHint="search"
+          role={suggest ? 'combobox' : undefined}
+          aria-expanded={suggest ? isOpen : undefined}
+          aria-controls={suggest ? 'search-suggestions' : undefined}
+          aria-autocomplete={suggest ? 'list' : undefined}
+          aria-activedescendant={isOpen && activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
         />
         {value && (
           <button
@@ -71,6 +182,44 @@ export default function SearchBar({
             <X size={16} />
           </button>
         )}
+
+        {isOpen && (
+          <ul
+            id="search-suggestions"
+            role="listbox"
+            aria-label={debounced ? '추천 검색어' : '최근 검색'}
+            className="absolute left-0 right-0 top-[calc(100%+4px)] z-30 bg-white rounded-xl shadow-lg border border-warm-100 py-1 max-h-[320px] overflow-y-auto"
+          >
+            {!debounced && (
+              <li className="px-3.5 pt-1.5 pb-1 text-[12px] font-semibold text-warm-400" aria-hidden="true">
+                최근 검색
+              </li>
+            )}
+            {items.map((item, index) => {
+              const detail = suggestionDetail(item)
+              return (
+                <li
+                  key={`${item.kind}-${item.kind === 'place' ? item.place_id : item.label}`}
+                  id={`search-suggestion-${index}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // Keep focus in the input so blur doesn't close the list before the click
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => select(item)}
+                  className={`flex items-center gap-2.5 px-3.5 min-h-[44px] cursor-pointer ${
+                    index === activeIndex ? 'bg-warm-50' : 'active:bg-warm-50'
+                  }`}
+                >
+                  <SuggestionIcon kind={item.kind} />
+                  <span className="min-w-0 flex-1 truncate text-[15px] text-warm-700">
+                    <Highlighted text={item.label} ranges={highlightRanges(item.label, debounced)} />
+                  </span>
+                  {detail && <span className="shrink-0 text-[12px] text-warm-400">{detail}</span>}
+                </li>
+              )
+            })}
+          </ul>
+        )}
       </div>
     </form>
   )
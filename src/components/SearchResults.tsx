@@ -0,0 +1,134 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { CalendarDays, MapPin, Search } from 'lucide-react'
+import type { SearchResponse, SearchResult } from '@/types'
+
+interface SearchResultsProps {
+  query: string
+  lat?: number
+  lng?: number
+  onSelect: (path: string) => void
+}
+
+async function fetchSearch(query: string, lat?: number, lng?: number): Promise<SearchResponse> {
+  const params = new URLSearchParams({ q: query })
+  if (lat !== undefined && lng !== undefined) {
+    params.set('lat', String(lat))
+    params.set('lng', String(lng))
+  }
+  const res = await fetch(`/api/search?${params}`)
+  if (!res.ok) throw new Error('검색하지 못했습니다.')
+  return res.json()
+}
+
+/** Text with the matched ranges wrapped in <mark> */
+export function Highlighted({ text, ranges }: { text: string; ranges: [number, number][] }) {
+  if (ranges.length === 0) return <>{text}</>
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  for (const [start, end] of ranges) {
+    if (start > cursor) parts.push(text.slice(cursor, start))
+    parts.push(
+      <mark key={start} className="bg-transparent text-coral-600 font-bold">
+        {text.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor))
+  return <>{parts}</>
+}
+
+function formatDistance(meters: number): string {
+  return meters < 1000 ? `${meters}m` : `${(meters / 1000).toFixed(1)}km`
+}
+
+function ResultRow({ result, onSelect }: { result: SearchResult; onSelect: (path: string) => void }) {
+  const isPlace = result.kind === 'place'
+  const item = isPlace ? result.place : result.event
+  const secondary = isPlace
+    ? result.place.road_address ?? result.place.address
+    : result.event.venue_name
+  const meta = isPlace
+    ? result.place.category
+    : [result.event.start_date?.slice(5, 10), result.event.end_date?.slice(5, 10)].filter(Boolean).join('~')
+
+  return (
+    <button
+      onClick={() => onSelect(isPlace ? `/place/${item.id}` : `/event/${item.id}`)}
+      className="w-full flex items-start gap-3 text-left bg-white rounded-xl p-3 shadow-sm active:bg-warm-50"
+    >
+      <span
+        className={`shrink-0 mt-0.5 w-8 h-8 rounded-full flex items-center justify-center ${
+          isPlace ? 'bg-coral-50 text-coral-500' : 'bg-blue-50 text-blue-500'
+        }`}
+        aria-hidden="true"
+      >
+        {isPlace ? <MapPin size={16} /> : <CalendarDays size={16} />}
+      </span>
+      <span className="min-w-0 flex-1">
+        <span className="block text-[15px] font-semibold text-warm-700 truncate">
+          <Highlighted text={item.name} ranges={result.highlights.name} />
+        </span>
+        {secondary && (
+          <span className="block text-[13px] text-warm-400 truncate">
+            <Highlighted text={secondary} ranges={result.highlights.address} />
+          </span>
+        )}
+        <span className="block text-[12px] text-warm-400 mt-0.5">
+          {isPlace ? '장소' : '행사'}
+          {meta && ` · ${meta}`}
+          {result.distance_m !== null && ` · ${formatDistance(result.distance_m)}`}
+        </span>
+      </span>
+    </button>
+  )
+}
+
+/** Mixed place / event results for a submitted search (GET /api/search) */
+export default function SearchResults({ query, lat, lng, onSelect }: SearchResultsProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['search', query, lat, lng],
+    queryFn: () => fetchSearch(query, lat, lng),
+    enabled: query.trim().length > 0,
+    staleTime: 60_000,
+  })
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <div key={i} className="bg-white rounded-xl h-[72px] animate-pulse" />
+        ))}
+      </div>
+    )
+  }
+
+  if (error) {
+    return <p className="py-12 text-center text-[15px] text-warm-500">{error.message}</p>
+  }
+
+  const results = data?.results ?? []
+  if (results.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <Search size={32} className="text-warm-300 mb-3" />
+        <p className="text-[15px] text-warm-500 font-medium">&lsquo;{query}&rsquo; 검색 결과가 없습니다.</p>
+        <p className="text-[13px] text-warm-400 mt-1">띄어쓰기 없이, 또는 초성으로도 검색해보세요.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {results.map((result) => (
+        <ResultRow
+          key={`${result.kind}-${result.kind === 'place' ? result.place.id : result.event.id}`}
+          result={result}
+          onSelect={onSelect}
+        />
+      ))}
+    </div>
+  )
+}
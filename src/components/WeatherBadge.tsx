@@ -1,5 +1,6 @@
 import { CloudRain, Sun, Cloud } from 'lucide-react'
-import type { WeatherResponse } from '@/types'
+import { outdoorLevel } from '@/lib/weather'
+import type { WeatherDay, WeatherResponse } from '@/types'
 
 interface WeatherBadgeProps {
   weather: WeatherResponse | null
@@ -8,6 +9,19 @@ interface WeatherBadgeProps {
   isIndoorFilterActive?: boolean
 }
 
+const LEVEL_LABELS = { good: '나들이 좋음', fair: '나들이 보통', poor: '실내 추천' } as const
+
+/** "내일 나들이 좋음 (14시), 토요일 실내 추천" for the tooltip */
+function daySummary(days: WeatherDay[]): string {
+  return days
+    .filter((d) => d.label !== '오늘' && d.outdoorScore !== null)
+    .map((d) => {
+      const level = LEVEL_LABELS[outdoorLevel(d.outdoorScore as number)]
+      return d.bestTime && level !== LEVEL_LABELS.poor ? `${d.label} ${level} (${parseInt(d.bestTime, 10)}시)` : `${d.label} ${level}`
+    })
+    .join(', ')
+}
+
 export default function WeatherBadge({
   weather,
   isLoading,
@@ -27,6 +41,10 @@ export default function WeatherBadge({
 
   const isRaining = weather.isRaining
   const temp = Math.round(weather.temperature)
+  // Rain, heat, cold or bad air: suggest the indoor filter
+  const indoorRecommended = isRaining || outdoorLevel(weather.outdoorScore) === 'poor'
+  const alert = weather.alerts[0]
+  const upcoming = daySummary(weather.days)
 
   return (
     <button
@@ -35,15 +53,19 @@ export default function WeatherBadge({
         flex items-center gap-1.5 px-3 py-2 rounded-xl
         text-[13px] font-semibold transition-all duration-200
         min-h-[36px]
-        ${isRaining && isIndoorFilterActive
+        ${indoorRecommended && isIndoorFilterActive
           ? 'bg-coral-100 text-coral-600 ring-1 ring-coral-300'
-          : isRaining
+          : indoorRecommended
           ? 'bg-blue-50 text-blue-600'
           : 'bg-warm-100 text-warm-600'
         }
       `}
-      aria-label={`현재 날씨: ${weather.description}, ${temp}°. ${isRaining ? '실내 필터 적용 가능' : ''}`}
-      title={isRaining ? '탭하면 실내 장소만 표시' : weather.description}
+      aria-label={`현재 날씨: ${weather.description}, ${temp}°. ${indoorRecommended ? '실내 필터 적용 가능' : ''}${upcoming ? ` ${upcoming}` : ''}`}
+      title={[
+        indoorRecommended ? '탭하면 실내 장소만 표시' : weather.description,
+        alert?.message,
+        upcoming,
+      ].filter(Boolean).join('\n')}
     >
       {isRaining ? (
         <CloudRain size={16} className="text-blue-500 shrink-0" />
@@ -53,9 +75,9 @@ export default function WeatherBadge({
         <Cloud size={16} className="text-warm-400 shrink-0" />
       )}
       <span>{temp}°</span>
-      {isRaining && (
+      {indoorRecommended && (
         <span className="text-[11px]">
-          {isIndoorFilterActive ? '실내만' : '비'}
+          {isIndoorFilterActive ? '실내만' : isRaining ? '비' : '실내 추천'}
         </span>
       )}
     </button>
@@ -0,0 +1,186 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { GitMerge, Undo2, X } from 'lucide-react'
+import type { PlaceMatchReason, PlaceMerge, PlaceMergeProposalWithPlaces } from '@/types'
+
+interface MergesData {
+  proposals: PlaceMergeProposalWithPlaces[]
+  merges: PlaceMerge[]
+}
+
+const REASON_LABELS: Record<PlaceMatchReason, string> = {
+  kakao_id: 'Kakao ID',
+  phone: 'Phone',
+  name: 'Name',
+  nearby: 'Nearby',
+}
+
+function confidenceColor(confidence: number): string {
+  if (confidence >= 0.9) return 'bg-green-50 text-green-700'
+  if (confidence >= 0.8) return 'bg-yellow-50 text-yellow-700'
+  return 'bg-warm-100 text-warm-600'
+}
+
+async function postJson(url: string, method: string, body: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data.error ?? `Request failed (${res.status})`)
+  return data
+}
+
+/**
+ * Review duplicate groups proposed by the place-resolution step and undo past
+ * merges. Merges go through merge_places(), so every one here is reversible.
+ */
+export default function PlaceMergePanel() {
+  const queryClient = useQueryClient()
+
+  const { data, isLoading } = useQuery<MergesData>({
+    queryKey: ['admin', 'place-merges'],
+    queryFn: async () => {
+      const res = await fetch('/api/admin/places/merges')
+      if (!res.ok) throw new Error('Failed to fetch merges')
+      return res.json()
+    },
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin', 'place-merges'] })
+    queryClient.invalidateQueries({ queryKey: ['admin', 'places'] })
+  }
+
+  const mergeMutation = useMutation({
+    mutationFn: (proposalId: number) => postJson('/api/admin/places/merge', 'POST', { proposalId }),
+    onSuccess: invalidate,
+  })
+  const dismissMutation = useMutation({
+    mutationFn: (proposalId: number) => postJson('/api/admin/places/merges', 'PATCH', { proposalId }),
+    onSuccess: invalidate,
+  })
+  const unmergeMutation = useMutation({
+    mutationFn: (mergeId: number) => postJson('/api/admin/places/unmerge', 'POST', { mergeId }),
+    onSuccess: invalidate,
+  })
+
+  const error = mergeMutation.error ?? dismissMutation.error ?? unmergeMutation.error
+  const busy = mergeMutation.isPending || dismissMutation.isPending || unmergeMutation.isPending
+  const proposals = data?.proposals ?? []
+  const merges = data?.merges ?? []
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {/* Proposals */}
+      <div className="bg-white p-4 rounded-lg border border-warm-200">
+        <div className="flex items-center gap-2 mb-3">
+          <GitMerge size={18} className="text-coral-500" />
+          <h2 className="text-lg font-semibold text-warm-800">Merge Proposals</h2>
+          <span className="text-sm text-warm-400">{proposals.length}</span>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-2">{error.message}</p>}
+        {isLoading ? (
+          <p className="text-sm text-warm-400">Loading...</p>
+        ) : proposals.length === 0 ? (
+          <p className="text-sm text-warm-400">No pending proposals</p>
+        ) : (
+          <ul className="space-y-3 max-h-96 overflow-y-auto">
+            {proposals.map((proposal) => (
+              <li key={proposal.id} className="border border-warm-100 rounded p-3">
+                <div className="flex items-center gap-2 mb-2">
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${confidenceColor(proposal.confidence)}`}>
+                    {Math.round(proposal.confidence * 100)}%
+                  </span>
+                  {proposal.reasons.map((reason) => (
+                    <span key={reason} className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 text-xs">
+                      {REASON_LABELS[reason] ?? reason}
+                    </span>
+                  ))}
+                </div>
+                <ul className="space-y-1 mb-2">
+                  {proposal.places.map((place) => (
+                    <li key={place.id} className="text-sm text-warm-700">
+                      <span className="text-warm-400 mr-1">#{place.id}</span>
+                      {place.name}
+                      {place.id === proposal.keeper_id && (
+                        <span className="ml-1 text-xs font-semibold text-coral-600">keep</span>
+                      )}
+                      <span className="block text-xs text-warm-400 truncate">
+                        {[place.source, place.phone, place.address].filter(Boolean).join(' · ')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => mergeMutation.mutate(proposal.id)}
+                    disabled={busy}
+                    className="flex items-center gap-1 px-3 py-1 rounded bg-coral-500 text-white text-xs font-medium hover:bg-coral-600 disabled:opacity-50 transition"
+                  >
+                    <GitMerge size={14} />
+                    Merge
+                  </button>
+                  <button
+                    onClick={() => dismissMutation.mutate(proposal.id)}
+                    disabled={busy}
+                    className="flex items-center gap-1 px-3 py-1 rounded border border-warm-200 text-warm-600 text-xs font-medium hover:bg-warm-50 disabled:opacity-50 transition"
+                  >
+                    <X size={14} />
+                    Not duplicates
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* History */}
+      <div className="bg-white p-4 rounded-lg border border-warm-200">
+        <div className="flex items-center gap-2 mb-3">
+          <Undo2 size={18} className="text-coral-500" />
+          <h2 className="text-lg font-semibold text-warm-800">Merge History</h2>
+        </div>
+
+        {merges.length === 0 ? (
+          <p className="text-sm text-warm-400">No merges yet</p>
+        ) : (
+          <ul className="divide-y divide-warm-100 max-h-96 overflow-y-auto">
+            {merges.map((merge) => (
+              <li key={merge.id} className="py-2 flex items-start justify-between gap-2">
+                <div className="min-w-0 text-sm text-warm-700">
+                  <p className="truncate">
+                    <span className="text-warm-400">#{merge.source_place_id}</span>{' '}
+                    {merge.source_snapshot.name ?? ''} → #{merge.target_place_id}
+                  </p>
+                  <p className="text-xs text-warm-400">
+                    {new Date(merge.merged_at).toLocaleString('ko-KR')}
+                    {merge.confidence !== null ? ` · ${Math.round(merge.confidence * 100)}%` : ' · manual'}
+                    {` · moved ${Object.values(merge.moved_refs).reduce((n, ids) => n + ids.length, 0)} rows`}
+                  </p>
+                </div>
+                {merge.status === 'merged' ? (
+                  <button
+                    onClick={() => unmergeMutation.mutate(merge.id)}
+                    disabled={busy}
+                    className="shrink-0 flex items-center gap-1 px-2 py-1 rounded border border-warm-200 text-warm-600 text-xs hover:bg-warm-50 disabled:opacity-50 transition"
+                    title="Undo this merge"
+                  >
+                    <Undo2 size={14} />
+                    Undo
+                  </button>
+                ) : (
+                  <span className="shrink-0 text-xs text-warm-400">Undone</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 type KeywordStatus = 'ACTIVE' | 'DECLINING' | 'EXHAUSTED' | 'SEASONAL' | 'NEW'
-type PipelineStatus = 'success' | 'error' | 'running'
+type PipelineStatus = 'success' | 'error' | 'running' | 'partial' | 'failed' | 'skipped' | 'queued' | 'cancelled'
 
 interface StatusBadgeProps {
   status: KeywordStatus | PipelineStatus
@@ -48,6 +48,31 @@ export default function StatusBadge({ status, size = 'md' }: StatusBadgeProps) {
       text: 'text-blue-700',
       label: 'Running',
     },
+    partial: {
+      bg: 'bg-yellow-50',
+      text: 'text-yellow-700',
+      label: 'Partial',
+    },
+    failed: {
+      bg: 'bg-red-50',
+      text: 'text-red-700',
+      label: 'Failed',
+    },
+    skipped: {
+      bg: 'bg-warm-100',
+      text: 'text-warm-600',
+      label: 'Skipped',
+    },
+    queued: {
+      bg: 'bg-warm-100',
+      text: 'text-warm-600',
+      label: 'Queued',
+    },
+    cancelled: {
+      bg: 'bg-warm-100',
+      text: 'text-warm-500',
+      label: 'Cancelled',
+    },
   }
 
   const style = styleMap[status] || styleMap.NEW
@@ -0,0 +1,177 @@
+'use client'
+
+import { useState } from 'react'
+import { Drawer } from 'vaul'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Check, Plus, X } from 'lucide-react'
+import { COLLECTION_NAME_MAX } from '@/lib/collections'
+import type { Collection, CollectionsResponse } from '@/types'
+
+/** The place or event being added to collections */
+export type CollectionTarget = { kind: 'place'; placeId: number } | { kind: 'event'; eventId: number }
+
+interface CollectionPickerSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  target: CollectionTarget
+}
+
+class LoginRequiredError extends Error {}
+
+function targetParams(target: CollectionTarget): string {
+  return target.kind === 'place' ? `placeId=${target.placeId}` : `eventId=${target.eventId}`
+}
+
+async function fetchCollections(target: CollectionTarget): Promise<Collection[]> {
+  const res = await fetch(`/api/collections?${targetParams(target)}`)
+  if (res.status === 401) throw new LoginRequiredError()
+  if (!res.ok) throw new Error('리스트를 불러오지 못했습니다.')
+  const { collections }: CollectionsResponse = await res.json()
+  return collections
+}
+
+/** Bottom sheet on place / event pages: check the collections an item belongs to */
+export default function CollectionPickerSheet({ open, onOpenChange, target }: CollectionPickerSheetProps) {
+  const queryClient = useQueryClient()
+  const [newName, setNewName] = useState('')
+  const queryKey = ['collections', 'for', target.kind, target.kind === 'place' ? target.placeId : target.eventId]
+
+  const { data: collections = [], error } = useQuery({
+    queryKey,
+    queryFn: () => fetchCollections(target),
+    enabled: open,
+    retry: false,
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['collections'] })
+
+  const toggleMutation = useMutation({
+    mutationFn: async (collection: Collection) => {
+      const base = `/api/collections/${collection.id}/items`
+      const res = collection.contains
+        ? await fetch(`${base}?${targetParams(target)}`, { method: 'DELETE' })
+        : await fetch(base, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(
+              target.kind === 'place' ? { placeId: target.placeId } : { eventId: target.eventId }
+            ),
+          })
+      if (!res.ok && res.status !== 409) throw new Error('리스트에 담지 못했습니다.')
+    },
+    onSuccess: invalidate,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch('/api/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName }),
+      })
+      if (!res.ok) throw new Error('리스트를 만들지 못했습니다.')
+      const { collection } = await res.json()
+      return collection as Collection
+    },
+    onSuccess: (collection) => {
+      setNewName('')
+      toggleMutation.mutate({ ...collection, contains: false })
+    },
+  })
+
+  const mutationError = toggleMutation.error ?? createMutation.error
+
+  return (
+    <Drawer.Root open={open} onOpenChange={onOpenChange}>
+      <Drawer.Portal>
+        <Drawer.Overlay className="fixed inset-0 bg-black/40 z-40" />
+        <Drawer.Content
+          className="
+            fixed bottom-0 left-0 right-0 z-50
+            bg-white rounded-t-[20px] max-h-[85dvh]
+            flex flex-col
+            shadow-lg
+          "
+          aria-label="리스트에 담기"
+        >
+          {/* Handle */}
+          <div className="flex justify-center pt-3 pb-1">
+            <div className="w-10 h-1 bg-warm-300 rounded-full" />
+          </div>
+
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 border-b border-warm-200">
+            <Drawer.Title className="text-[17px] font-semibold text-warm-800">리스트에 담기</Drawer.Title>
+            <button
+              onClick={() => onOpenChange(false)}
+              className="min-w-[36px] min-h-[36px] flex items-center justify-center text-warm-400"
+              aria-label="닫기"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-4 py-3">
+            {error instanceof LoginRequiredError ? (
+              <p className="py-6 text-center text-[15px] text-warm-500">
+                <a href="/login" className="text-coral-500 font-semibold underline">로그인</a>하고 나만의 리스트를 만들어보세요
+              </p>
+            ) : (
+              <>
+                <ul className="space-y-1">
+                  {collections.map((collection) => (
+                    <li key={collection.id}>
+                      <button
+                        onClick={() => toggleMutation.mutate(collection)}
+                        disabled={toggleMutation.isPending}
+                        className="w-full flex items-center justify-between px-3 py-3 rounded-lg active:bg-warm-50 min-h-[48px]"
+                        aria-pressed={!!collection.contains}
+                      >
+                        <span className="text-[15px] text-warm-700 truncate">
+                          {collection.name}
+                          <span className="text-[13px] text-warm-400"> · {collection.item_count}</span>
+                        </span>
+                        <span
+                          className={`w-6 h-6 rounded-md flex items-center justify-center ${
+                            collection.contains ? 'bg-coral-500 text-white' : 'border border-warm-300'
+                          }`}
+                        >
+                          {collection.contains && <Check size={16} />}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    if (newName.trim()) createMutation.mutate()
+                  }}
+                  className="flex gap-2 mt-3"
+                >
+                  <input
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    maxLength={COLLECTION_NAME_MAX}
+                    placeholder="새 리스트 (예: 비 오는 날)"
+                    className="flex-1 px-3 py-2 rounded-lg border border-warm-200 text-[14px] text-warm-700"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!newName.trim() || createMutation.isPending}
+                    className="min-w-[44px] rounded-lg bg-coral-500 text-white flex items-center justify-center disabled:opacity-50"
+                    aria-label="새 리스트 만들기"
+                  >
+                    <Plus size={18} />
+                  </button>
+                </form>
+                {mutationError && <p className="text-[13px] text-red-500 mt-2">{mutationError.message}</p>}
+              </>
+            )}
+          </div>
+        </Drawer.Content>
+      </Drawer.Portal>
+    </Drawer.Root>
+  )
+}
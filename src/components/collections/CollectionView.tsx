@@ -0,0 +1,309 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ArrowDown, ArrowUp, Link2, Pencil, Trash2, X } from 'lucide-react'
+import PlaceCard from '@/components/place/PlaceCard'
+import EventCard from '@/components/event/EventCard'
+import { COLLECTION_ITEM_NOTE_MAX, COLLECTION_NAME_MAX, COLLECTION_NOTE_MAX, moveId } from '@/lib/collections'
+import type { CollectionDetailResponse, CollectionItem } from '@/types'
+
+interface CollectionViewProps {
+  collectionId: number
+  /** Called after the collection is deleted */
+  onDeleted: () => void
+}
+
+async function fetchCollection(id: number): Promise<CollectionDetailResponse> {
+  const res = await fetch(`/api/collections/${id}`)
+  if (!res.ok) throw new Error('리스트를 불러오지 못했습니다.')
+  return res.json()
+}
+
+async function patchCollection(id: number, body: Record<string, unknown>): Promise<CollectionDetailResponse> {
+  const res = await fetch(`/api/collections/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  if (!res.ok) throw new Error('리스트를 저장하지 못했습니다.')
+  return res.json()
+}
+
+function ItemNote({ collectionId, item }: { collectionId: number; item: CollectionItem }) {
+  const queryClient = useQueryClient()
+  const [editing, setEditing] = useState(false)
+  const [note, setNote] = useState(item.note ?? '')
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/collections/${collectionId}/items`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ itemId: item.id, note }),
+      })
+      if (!res.ok) throw new Error('메모를 저장하지 못했습니다.')
+    },
+    onSuccess: () => {
+      setEditing(false)
+      queryClient.invalidateQueries({ queryKey: ['collections', collectionId] })
+    },
+  })
+
+  if (!editing) {
+    return (
+      <button
+        onClick={() => setEditing(true)}
+        className="text-left text-[14px] text-warm-500 mt-1 px-1 min-h-[32px]"
+      >
+        {item.note ? `💬 ${item.note}` : '+ 메모 추가'}
+      </button>
+    )
+  }
+
+  return (
+    <div className="flex gap-2 mt-1">
+      <input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        maxLength={COLLECTION_ITEM_NOTE_MAX}
+        placeholder="예: 주차는 지하 2층"
+        className="flex-1 px-3 py-2 rounded-lg border border-warm-200 text-[14px] text-warm-700"
+        autoFocus
+      />
+      <button
+        onClick={() => saveMutation.mutate()}
+        disabled={saveMutation.isPending}
+        className="px-3 rounded-lg bg-coral-500 text-white text-[13px] font-semibold disabled:opacity-50"
+      >
+        저장
+      </button>
+    </div>
+  )
+}
+
+/** One collection on the favorites page: ordered items with notes, rename, share link, delete */
+export default function CollectionView({ collectionId, onDeleted }: CollectionViewProps) {
+  const queryClient = useQueryClient()
+  const [editingInfo, setEditingInfo] = useState(false)
+  const [name, setName] = useState('')
+  const [note, setNote] = useState('')
+  const [copied, setCopied] = useState(false)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['collections', collectionId],
+    queryFn: () => fetchCollection(collectionId),
+    staleTime: 60_000,
+  })
+
+  const onSaved = (detail: CollectionDetailResponse) => {
+    queryClient.setQueryData(['collections', collectionId], detail)
+    queryClient.invalidateQueries({ queryKey: ['collections'], exact: true })
+  }
+
+  const updateMutation = useMutation({
+    mutationFn: (body: Record<string, unknown>) => patchCollection(collectionId, body),
+    onSuccess: onSaved,
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: async (itemId: number) => {
+      const res = await fetch(`/api/collections/${collectionId}/items?itemId=${itemId}`, { method: 'DELETE' })
+      if (!res.ok) throw new Error('삭제하지 못했습니다.')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['collections'] })
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/collections/${collectionId}`, { method: 'DELETE' })
+      if (!res.ok) throw new Error('리스트를 삭제하지 못했습니다.')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['collections'] })
+      onDeleted()
+    },
+  })
+
+  if (isLoading) {
+    return <div className="mx-4 my-4 bg-white rounded-xl h-32 shadow-sm animate-pulse" />
+  }
+  if (error || !data) {
+    return <p className="px-4 py-8 text-center text-[15px] text-warm-400">리스트를 불러올 수 없습니다</p>
+  }
+
+  const { collection, items } = data
+  const ids = items.map((i) => i.id)
+
+  const handleShare = async () => {
+    let token = collection.share_token
+    if (!token) {
+      const detail = await patchCollection(collectionId, { shared: true })
+      onSaved(detail)
+      token = detail.collection.share_token
+    }
+    const url = `${window.location.origin}/collections/${token}`
+    const shareData = { title: collection.name, text: `${collection.name} - BabyPlace 리스트`, url }
+    if (navigator.share && navigator.canShare(shareData)) {
+      try {
+        await navigator.share(shareData)
+      } catch {
+        // Aborted by user - ignore
+      }
+    } else {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    }
+  }
+
+  const mutationError = updateMutation.error ?? removeMutation.error ?? deleteMutation.error
+
+  return (
+    <div className="px-4 py-4 space-y-3">
+      <div className="bg-white rounded-xl p-4 shadow-sm">
+        {editingInfo ? (
+          <div className="space-y-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={COLLECTION_NAME_MAX}
+              className="w-full px-3 py-2 rounded-lg border border-warm-200 text-[15px] text-warm-700"
+            />
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={COLLECTION_NOTE_MAX}
+              rows={2}
+              placeholder="리스트 설명"
+              className="w-full px-3 py-2 rounded-lg border border-warm-200 text-[14px] text-warm-700 resize-none"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() => updateMutation.mutate({ name, note }, { onSuccess: () => setEditingInfo(false) })}
+                disabled={!name.trim() || updateMutation.isPending}
+                className="flex-1 py-2 rounded-lg bg-coral-500 text-white text-[14px] font-semibold disabled:opacity-50"
+              >
+                저장
+              </button>
+              <button
+                onClick={() => setEditingInfo(false)}
+                className="px-4 py-2 rounded-lg bg-warm-100 text-warm-600 text-[14px] font-semibold"
+              >
+                취소
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <h2 className="text-[19px] font-bold text-warm-700 truncate">{collection.name}</h2>
+                {collection.added_by && (
+                  <p className="text-[12px] text-warm-400">{collection.added_by}님이 만든 리스트</p>
+                )}
+              </div>
+              <button
+                onClick={() => {
+                  setName(collection.name)
+                  setNote(collection.note ?? '')
+                  setEditingInfo(true)
+                }}
+                className="min-w-[36px] min-h-[36px] flex items-center justify-center text-warm-400"
+                aria-label="리스트 수정"
+              >
+                <Pencil size={16} />
+              </button>
+            </div>
+            {collection.note && (
+              <p className="text-[14px] text-warm-500 mt-1 whitespace-pre-line">{collection.note}</p>
+            )}
+            <div className="flex items-center gap-2 mt-3">
+              <button
+                onClick={handleShare}
+                className="flex items-center gap-1 px-3 py-2 rounded-lg bg-coral-50 text-coral-600 text-[13px] font-semibold min-h-[36px]"
+              >
+                <Link2 size={14} />
+                {copied ? '링크 복사됨' : '링크로 공유'}
+              </button>
+              {collection.share_token && (
+                <button
+                  onClick={() => updateMutation.mutate({ shared: false })}
+                  className="flex items-center gap-1 px-3 py-2 rounded-lg bg-warm-100 text-warm-500 text-[13px] min-h-[36px]"
+                >
+                  <X size={14} />
+                  공유 중지
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  if (confirm(`'${collection.name}' 리스트를 삭제할까요?`)) deleteMutation.mutate()
+                }}
+                className="ml-auto min-w-[36px] min-h-[36px] flex items-center justify-center text-warm-300 hover:text-red-400"
+                aria-label="리스트 삭제"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {items.length === 0 && (
+        <p className="py-8 text-center text-[15px] text-warm-400">
+          장소나 행사 페이지에서 이 리스트에 담아보세요
+        </p>
+      )}
+
+      {items.map((item, index) => (
+        <div key={item.id}>
+          <div className="flex items-stretch gap-1">
+            <div className="flex-1 min-w-0">
+              {item.places ? (
+                <a href={`/place/${item.places.id}`} className="block">
+                  <PlaceCard place={item.places} />
+                </a>
+              ) : (
+                item.events && (
+                  <a href={`/event/${item.events.id}`} className="block">
+                    <EventCard event={item.events} />
+                  </a>
+                )
+              )}
+            </div>
+            <div className="flex flex-col justify-center">
+              <button
+                onClick={() => updateMutation.mutate({ order: moveId(ids, item.id, -1) })}
+                disabled={index === 0 || updateMutation.isPending}
+                className="min-w-[32px] min-h-[32px] flex items-center justify-center text-warm-400 disabled:opacity-30"
+                aria-label="위로"
+              >
+                <ArrowUp size={16} />
+              </button>
+              <button
+                onClick={() => updateMutation.mutate({ order: moveId(ids, item.id, 1) })}
+                disabled={index === items.length - 1 || updateMutation.isPending}
+                className="min-w-[32px] min-h-[32px] flex items-center justify-center text-warm-400 disabled:opacity-30"
+                aria-label="아래로"
+              >
+                <ArrowDown size={16} />
+              </button>
+              <button
+                onClick={() => removeMutation.mutate(item.id)}
+                className="min-w-[32px] min-h-[32px] flex items-center justify-center text-warm-300 hover:text-red-400"
+                aria-label="리스트에서 빼기"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          </div>
+          <ItemNote key={`${item.id}-${item.note ?? ''}`} collectionId={collectionId} item={item} />
+        </div>
+      ))}
+
+      {mutationError && <p className="text-[13px] text-red-500">{mutationError.message}</p>}
+    </div>
+  )
+}
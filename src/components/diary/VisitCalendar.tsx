@@ -0,0 +1,126 @@
+'use client'
+
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import type { Child, VisitWithPlace } from '@/types'
+import VisitCard from './VisitCard'
+
+interface VisitCalendarProps {
+  childList: Child[]
+  onEdit: (visit: VisitWithPlace) => void
+  onDelete: (visitId: number) => void
+}
+
+const WEEKDAYS = ['일', '월', '화', '수', '목', '금', '토']
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+async function fetchMonthVisits(year: number, month: number): Promise<VisitWithPlace[]> {
+  const lastDay = new Date(year, month, 0).getDate()
+  const params = new URLSearchParams({
+    from: `${year}-${pad(month)}-01`,
+    to: `${year}-${pad(month)}-${pad(lastDay)}`,
+  })
+  const res = await fetch(`/api/visits?${params.toString()}`)
+  if (!res.ok) throw new Error('방문 기록을 불러오지 못했습니다.')
+  const { visits } = await res.json()
+  return visits
+}
+
+/** Month grid with a dot per visit day; tapping a day lists its visits */
+export default function VisitCalendar({ childList, onEdit, onDelete }: VisitCalendarProps) {
+  const now = new Date()
+  const [year, setYear] = useState(now.getFullYear())
+  const [month, setMonth] = useState(now.getMonth() + 1)
+  const [selectedDay, setSelectedDay] = useState<string | null>(null)
+
+  const { data: visits = [], isLoading } = useQuery({
+    queryKey: ['visits', 'month', year, month],
+    queryFn: () => fetchMonthVisits(year, month),
+    staleTime: 5 * 60_000,
+  })
+
+  const byDay = new Map<string, VisitWithPlace[]>()
+  for (const visit of visits) {
+    if (!byDay.has(visit.visited_at)) byDay.set(visit.visited_at, [])
+    byDay.get(visit.visited_at)!.push(visit)
+  }
+
+  const moveMonth = (delta: number) => {
+    const d = new Date(year, month - 1 + delta, 1)
+    setYear(d.getFullYear())
+    setMonth(d.getMonth() + 1)
+    setSelectedDay(null)
+  }
+
+  const firstWeekday = new Date(year, month - 1, 1).getDay()
+  const daysInMonth = new Date(year, month, 0).getDate()
+  const cells: (number | null)[] = [
+    ...Array<null>(firstWeekday).fill(null),
+    ...Array.from({ length: daysInMonth }, (_, i) => i + 1),
+  ]
+  const today = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`
+  const selectedVisits = selectedDay ? (byDay.get(selectedDay) ?? []) : []
+
+  return (
+    <div className="px-4 py-4 space-y-4">
+      <div className="bg-white rounded-xl p-4 shadow-sm">
+        <div className="flex items-center justify-between mb-3">
+          <button
+            onClick={() => moveMonth(-1)}
+            className="min-w-[36px] min-h-[36px] flex items-center justify-center text-warm-500"
+            aria-label="이전 달"
+          >
+            <ChevronLeft size={20} />
+          </button>
+          <h2 className="text-[16px] font-semibold text-warm-700">
+            {year}년 {month}월
+          </h2>
+          <button
+            onClick={() => moveMonth(1)}
+            className="min-w-[36px] min-h-[36px] flex items-center justify-center text-warm-500"
+            aria-label="다음 달"
+          >
+            <ChevronRight size={20} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-7 text-center text-[12px] text-warm-400 mb-1">
+          {WEEKDAYS.map((w) => (
+            <div key={w}>{w}</div>
+          ))}
+        </div>
+        <div className={`grid grid-cols-7 gap-1 ${isLoading ? 'opacity-50' : ''}`}>
+          {cells.map((day, i) => {
+            if (day === null) return <div key={`blank-${i}`} />
+            const key = `${year}-${pad(month)}-${pad(day)}`
+            const count = byDay.get(key)?.length ?? 0
+            const selected = key === selectedDay
+            return (
+              <button
+                key={key}
+                onClick={() => setSelectedDay(count > 0 ? key : null)}
+                className={`aspect-square rounded-lg flex flex-col items-center justify-center text-[14px] ${
+                  selected ? 'bg-coral-500 text-white' : key === today ? 'bg-coral-50 text-warm-700' : 'text-warm-700'
+                }`}
+                aria-label={`${month}월 ${day}일${count > 0 ? ` 방문 ${count}회` : ''}`}
+              >
+                {day}
+                {count > 0 && (
+                  <span className={`w-1.5 h-1.5 rounded-full mt-0.5 ${selected ? 'bg-white' : 'bg-coral-400'}`} />
+                )}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+
+      {selectedVisits.map((visit) => (
+        <VisitCard key={visit.id} visit={visit} childList={childList} onEdit={onEdit} onDelete={onDelete} />
+      ))}
+    </div>
+  )
+}
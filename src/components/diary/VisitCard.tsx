@@ -1,10 +1,15 @@
 'use client'
 
-import { MapPin, RotateCcw, Trash2 } from 'lucide-react'
-import type { VisitWithPlace } from '@/types'
+import { CalendarDays, MapPin, Pencil, RotateCcw, Trash2 } from 'lucide-react'
+import type { Child, VisitWithPlace } from '@/types'
+import { childAgeAtVisit } from '@/lib/reviews'
+import { formatAgeMonths } from '@/lib/age-range'
 
 interface VisitCardProps {
   visit: VisitWithPlace
+  /** Registered children, to label the tagged ones */
+  childList?: Child[]
+  onEdit?: (visit: VisitWithPlace) => void
   onDelete?: (visitId: number) => void
 }
 
@@ -33,8 +38,13 @@ function formatDate(dateStr: string): string {
   return `${month}월 ${day}일 (${weekday})`
 }
 
-export default function VisitCard({ visit, onDelete }: VisitCardProps) {
+export default function VisitCard({ visit, childList = [], onEdit, onDelete }: VisitCardProps) {
   const place = visit.places
+  const event = visit.events
+  const href = place ? `/place/${place.id}` : event ? `/event/${event.id}` : null
+  const title = place?.name ?? event?.name ?? '삭제된 장소'
+  const address = place?.road_address ?? event?.venue_address ?? null
+  const taggedChildren = childList.filter((c) => visit.child_ids.includes(c.id))
 
   return (
     <div className="bg-white rounded-xl p-4 shadow-sm">
@@ -43,35 +53,63 @@ export default function VisitCard({ visit, onDelete }: VisitCardProps) {
           {/* Date */}
           <p className="text-[13px] font-medium text-warm-400 mb-1">
             {formatDate(visit.visited_at)}
+            {visit.added_by && ` · ${visit.added_by}님이 기록`}
           </p>
 
-          {/* Place name */}
-          <a
-            href={`/place/${place.id}`}
-            className="block"
-          >
-            <h3 className="text-[17px] font-semibold text-warm-700 leading-snug truncate hover:text-coral-500 transition-colors">
-              {place.name}
-            </h3>
-          </a>
+          {/* Place / event name */}
+          {href ? (
+            <a href={href} className="block">
+              <h3 className="text-[17px] font-semibold text-warm-700 leading-snug truncate hover:text-coral-500 transition-colors">
+                {title}
+              </h3>
+            </a>
+          ) : (
+            <h3 className="text-[17px] font-semibold text-warm-400 leading-snug truncate">{title}</h3>
+          )}
 
           {/* Category + address */}
           <div className="flex items-center gap-1.5 mt-1 flex-wrap">
-            <span
-              className={`text-[12px] font-medium px-2 py-0.5 rounded-full ${getCategoryColor(place.category)}`}
-            >
-              {place.category}
-            </span>
-            {place.road_address && (
+            {place && (
+              <span
+                className={`text-[12px] font-medium px-2 py-0.5 rounded-full ${getCategoryColor(place.category)}`}
+              >
+                {place.category}
+              </span>
+            )}
+            {!place && event && (
+              <span className="flex items-center gap-0.5 text-[12px] font-medium px-2 py-0.5 rounded-full bg-pink-100 text-pink-700">
+                <CalendarDays size={11} />
+                행사
+              </span>
+            )}
+            {address && (
               <span className="flex items-center gap-0.5 text-[12px] text-warm-400">
                 <MapPin size={11} />
                 <span className="truncate max-w-[140px]">
-                  {place.road_address.split(' ').slice(0, 3).join(' ')}
+                  {address.split(' ').slice(0, 3).join(' ')}
                 </span>
               </span>
             )}
           </div>
 
+          {/* Tagged children with their age at the visit */}
+          {taggedChildren.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {taggedChildren.map((child) => {
+                const months = childAgeAtVisit(child.birth_month, visit.visited_at)
+                return (
+                  <span
+                    key={child.id}
+                    className="text-[12px] font-medium px-2 py-0.5 rounded-full bg-coral-50 text-coral-600"
+                  >
+                    {child.nickname ?? '아이'}
+                    {months !== null && ` · ${formatAgeMonths(months)}`}
+                  </span>
+                )
+              })}
+            </div>
+          )}
+
           {/* Memo */}
           {visit.memo && (
             <p className="text-[14px] text-warm-500 mt-2 leading-relaxed line-clamp-2">
@@ -79,6 +117,21 @@ export default function VisitCard({ visit, onDelete }: VisitCardProps) {
             </p>
           )}
 
+          {/* Photos */}
+          {visit.photo_urls.length > 0 && (
+            <div className="flex gap-2 mt-2 overflow-x-auto">
+              {visit.photo_urls.map((url) => (
+                <img
+                  key={url}
+                  src={url}
+                  alt=""
+                  loading="lazy"
+                  className="w-20 h-20 rounded-lg object-cover flex-shrink-0"
+                />
+              ))}
+            </div>
+          )}
+
           {/* Will return badge */}
           {visit.will_return && (
             <div className="flex items-center gap-1 mt-2">
@@ -90,19 +143,35 @@ export default function VisitCard({ visit, onDelete }: VisitCardProps) {
           )}
         </div>
 
-        {/* Delete button */}
-        {onDelete && (
-          <button
-            onClick={(e) => {
-              e.preventDefault()
-              onDelete(visit.id)
-            }}
-            className="min-w-[36px] min-h-[36px] flex items-center justify-center text-warm-300 hover:text-red-400 transition-colors"
-            aria-label="삭제"
-          >
-            <Trash2 size={16} />
-          </button>
-        )}
+        <div className="flex flex-col">
+          {/* Edit button */}
+          {onEdit && (
+            <button
+              onClick={(e) => {
+                e.preventDefault()
+                onEdit(visit)
+              }}
+              className="min-w-[36px] min-h-[36px] flex items-center justify-center text-warm-300 hover:text-coral-500 transition-colors"
+              aria-label="수정"
+            >
+              <Pencil size={16} />
+            </button>
+          )}
+
+          {/* Delete button */}
+          {onDelete && (
+            <button
+              onClick={(e) => {
+                e.preventDefault()
+                onDelete(visit.id)
+              }}
+              className="min-w-[36px] min-h-[36px] flex items-center justify-center text-warm-300 hover:text-red-400 transition-colors"
+              aria-label="삭제"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
       </div>
     </div>
   )
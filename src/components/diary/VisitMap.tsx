@@ -0,0 +1,68 @@
+'use client'
+
+import { useState } from 'react'
+import dynamic from 'next/dynamic'
+import { useQuery } from '@tanstack/react-query'
+import type { Place, VisitWithPlace } from '@/types'
+
+const KakaoMap = dynamic(() => import('@/components/map/KakaoMap'), { ssr: false })
+
+interface VisitMapProps {
+  year: number
+}
+
+async function fetchYearVisits(year: number): Promise<VisitWithPlace[]> {
+  const params = new URLSearchParams({ from: `${year}-01-01`, to: `${year}-12-31` })
+  const res = await fetch(`/api/visits?${params.toString()}`)
+  if (!res.ok) throw new Error('방문 기록을 불러오지 못했습니다.')
+  const { visits } = await res.json()
+  return visits
+}
+
+/** Places visited in the year on the map; tapping a marker shows visit count */
+export default function VisitMap({ year }: VisitMapProps) {
+  const [selected, setSelected] = useState<Place | null>(null)
+
+  const { data: visits = [] } = useQuery({
+    queryKey: ['visits', 'year', year],
+    queryFn: () => fetchYearVisits(year),
+    staleTime: 5 * 60_000,
+  })
+
+  const counts = new Map<number, number>()
+  const places: Place[] = []
+  for (const visit of visits) {
+    if (!visit.places) continue
+    if (!counts.has(visit.places.id)) places.push(visit.places)
+    counts.set(visit.places.id, (counts.get(visit.places.id) ?? 0) + 1)
+  }
+
+  return (
+    <div className="relative h-[calc(100dvh-200px)]">
+      <KakaoMap
+        places={places}
+        selectedPlaceId={selected?.id}
+        onPlaceClick={setSelected}
+        onMapClick={() => setSelected(null)}
+        initialCenter={places[0] ? { lat: places[0].lat, lng: places[0].lng } : undefined}
+        initialZoom={8}
+      />
+      {places.length === 0 && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-white rounded-full px-4 py-2 shadow-md text-[13px] text-warm-500">
+          {year}년에 다녀온 장소가 없어요
+        </div>
+      )}
+      {selected && (
+        <a
+          href={`/place/${selected.id}`}
+          className="absolute bottom-4 left-4 right-4 bg-white rounded-xl p-4 shadow-lg block"
+        >
+          <p className="text-[16px] font-semibold text-warm-700 truncate">{selected.name}</p>
+          <p className="text-[13px] text-warm-400 mt-0.5">
+            {selected.category} · {year}년 {counts.get(selected.id) ?? 0}회 방문
+          </p>
+        </a>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,274 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Drawer } from 'vaul'
+import { ImagePlus, Image as ImageIcon, X } from 'lucide-react'
+import { useChildren } from '@/hooks/useChildren'
+import { createClient } from '@/lib/supabase'
+import { photoUploadPath, VISIT_PHOTO_BUCKET, VISIT_PHOTO_MAX } from '@/lib/user-photos'
+import type { QueuedVisitResponse } from '@/lib/service-worker'
+import type { VisitWithPlace } from '@/types'
+
+/** What the visit is for: a new visit to a place / event, or an existing visit to edit */
+export type VisitSheetTarget =
+  | { kind: 'place'; placeId: number; name: string }
+  | { kind: 'event'; eventId: number; name: string }
+  | { kind: 'edit'; visit: VisitWithPlace }
+
+interface VisitSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  target: VisitSheetTarget
+  /** Called after the visit is saved (or queued offline) */
+  onSaved?: (result: { queued: boolean }) => void
+}
+
+function todayISO(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+/** Signed preview URLs of an existing visit's photos, by path */
+function existingPreviews(visit: VisitWithPlace | null): Record<string, string> {
+  if (!visit || visit.photo_urls.length !== visit.photo_paths.length) return {}
+  return Object.fromEntries(visit.photo_paths.map((path, i) => [path, visit.photo_urls[i]]))
+}
+
+/** Bottom sheet to record or edit a diary visit: date, memo, children, photos */
+export default function VisitSheet({ open, onOpenChange, target, onSaved }: VisitSheetProps) {
+  const children = useChildren()
+  const visit = target.kind === 'edit' ? target.visit : null
+  const title =
+    target.kind === 'edit'
+      ? (visit?.places?.name ?? visit?.events?.name ?? '방문 기록')
+      : target.name
+
+  const [visitedAt, setVisitedAt] = useState(visit?.visited_at ?? todayISO())
+  const [memo, setMemo] = useState(visit?.memo ?? '')
+  const [willReturn, setWillReturn] = useState(visit?.will_return ?? false)
+  const [childIds, setChildIds] = useState<number[]>(visit?.child_ids ?? [])
+  const [photoPaths, setPhotoPaths] = useState<string[]>(visit?.photo_paths ?? [])
+  const [previews, setPreviews] = useState<Record<string, string>>(() => existingPreviews(visit))
+  const [uploading, setUploading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Reset the form whenever the sheet opens for a (possibly different) target
+  useEffect(() => {
+    if (!open) return
+    setVisitedAt(visit?.visited_at ?? todayISO())
+    setMemo(visit?.memo ?? '')
+    setWillReturn(visit?.will_return ?? false)
+    setChildIds(visit?.child_ids ?? [])
+    setPhotoPaths(visit?.photo_paths ?? [])
+    setPreviews(existingPreviews(visit))
+    setError(null)
+  }, [open, visit])
+
+  const toggleChild = (id: number) => {
+    setChildIds((prev) => (prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id]))
+  }
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setError(null)
+    setUploading(true)
+    try {
+      const supabase = createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('로그인이 필요합니다.')
+
+      const room = VISIT_PHOTO_MAX - photoPaths.length
+      const uploaded: Record<string, string> = {}
+      for (const [index, file] of Array.from(files).slice(0, room).entries()) {
+        const path = photoUploadPath(user.id, file.name, index)
+        const { error: uploadError } = await supabase.storage.from(VISIT_PHOTO_BUCKET).upload(path, file, {
+          contentType: file.type,
+        })
+        if (uploadError) throw new Error('사진을 올리지 못했습니다.')
+        uploaded[path] = URL.createObjectURL(file)
+      }
+      setPhotoPaths((prev) => [...prev, ...Object.keys(uploaded)])
+      setPreviews((prev) => ({ ...prev, ...uploaded }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '사진을 올리지 못했습니다.')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    try {
+      const res = visit
+        ? await fetch('/api/visits', {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ visitId: visit.id, memo, willReturn, childIds, photoPaths }),
+          })
+        : await fetch('/api/visits', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              placeId: target.kind === 'place' ? target.placeId : undefined,
+              eventId: target.kind === 'event' ? target.eventId : undefined,
+              visitedAt,
+              memo,
+              willReturn,
+              childIds,
+              photoPaths,
+            }),
+          })
+
+      if (res.status === 401) throw new Error('로그인이 필요합니다.')
+      if (res.status === 409) throw new Error('이 날짜에 이미 방문 기록이 있어요.')
+      if (!res.ok) throw new Error('저장하지 못했습니다.')
+
+      const queued = res.status === 202 && ((await res.json()) as QueuedVisitResponse).queued
+      onSaved?.({ queued })
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '저장하지 못했습니다.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Drawer.Root open={open} onOpenChange={onOpenChange}>
+      <Drawer.Portal>
+        <Drawer.Overlay className="fixed inset-0 bg-black/40 z-40" />
+        <Drawer.Content
+          className="
+            fixed bottom-0 left-0 right-0 z-50
+            bg-white rounded-t-[20px] max-h-[85dvh]
+            flex flex-col
+            shadow-lg
+          "
+          aria-label="방문 기록"
+        >
+          {/* Handle */}
+          <div className="flex justify-center pt-3 pb-1">
+            <div className="w-10 h-1 bg-warm-300 rounded-full" />
+          </div>
+
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 border-b border-warm-200">
+            <Drawer.Title className="text-[17px] font-semibold text-warm-800 truncate">
+              {title}
+            </Drawer.Title>
+            <button
+              onClick={() => onOpenChange(false)}
+              className="min-w-[36px] min-h-[36px] flex items-center justify-center text-warm-400"
+              aria-label="닫기"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto px-4 py-4 space-y-4">
+            <label className="block text-[12px] text-warm-500">
+              방문일
+              <input
+                type="date"
+                value={visitedAt}
+                max={todayISO()}
+                disabled={!!visit}
+                onChange={(e) => setVisitedAt(e.target.value)}
+                className="mt-1 w-full px-3 py-2 rounded-lg border border-warm-200 text-[14px] text-warm-700 disabled:bg-warm-50"
+              />
+            </label>
+
+            {children.length > 0 && (
+              <div>
+                <p className="text-[12px] text-warm-500 mb-1">함께 간 아이</p>
+                <div className="flex flex-wrap gap-2">
+                  {children.map((child) => {
+                    const selected = childIds.includes(child.id)
+                    return (
+                      <button
+                        key={child.id}
+                        type="button"
+                        aria-pressed={selected}
+                        onClick={() => toggleChild(child.id)}
+                        className={`px-3 py-1.5 rounded-full text-[13px] font-medium min-h-[36px] ${
+                          selected ? 'bg-coral-500 text-white' : 'bg-warm-100 text-warm-600'
+                        }`}
+                      >
+                        {child.nickname || '아이'}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+            )}
+
+            <textarea
+              value={memo}
+              onChange={(e) => setMemo(e.target.value)}
+              rows={3}
+              placeholder="오늘의 기록을 남겨보세요"
+              className="w-full px-3 py-2 rounded-lg border border-warm-200 text-[14px] text-warm-700 resize-none"
+            />
+
+            <div className="flex gap-2 flex-wrap">
+              {photoPaths.map((path) => (
+                <div key={path} className="relative w-16 h-16">
+                  {previews[path] ? (
+                    <img src={previews[path]} alt="" className="w-16 h-16 rounded-lg object-cover" />
+                  ) : (
+                    <div className="w-16 h-16 rounded-lg bg-warm-100 flex items-center justify-center text-warm-300">
+                      <ImageIcon size={20} />
+                    </div>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setPhotoPaths((prev) => prev.filter((p) => p !== path))}
+                    className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-warm-700 text-white flex items-center justify-center"
+                    aria-label="사진 빼기"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+              {photoPaths.length < VISIT_PHOTO_MAX && (
+                <label className="w-16 h-16 rounded-lg border border-dashed border-warm-300 flex items-center justify-center text-warm-400 cursor-pointer">
+                  <ImagePlus size={20} />
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    className="hidden"
+                    disabled={uploading}
+                    onChange={(e) => handleUpload(e.target.files)}
+                  />
+                </label>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-[14px] text-warm-600">
+              <input
+                type="checkbox"
+                checked={willReturn}
+                onChange={(e) => setWillReturn(e.target.checked)}
+                className="w-4 h-4 accent-coral-500"
+              />
+              다시 갈래요
+            </label>
+
+            {error && <p className="text-[13px] text-red-500">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={saving || uploading}
+              className="w-full py-3 rounded-xl bg-coral-500 text-white text-[15px] font-semibold min-h-[48px] disabled:opacity-50"
+            >
+              {visit ? '수정하기' : '기록하기'}
+            </button>
+          </form>
+        </Drawer.Content>
+      </Drawer.Portal>
+    </Drawer.Root>
+  )
+}
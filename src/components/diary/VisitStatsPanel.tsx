@@ -0,0 +1,150 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { Map as MapIcon, RotateCcw } from 'lucide-react'
+import type { VisitStatsResponse } from '@/types'
+
+interface VisitStatsPanelProps {
+  year: number
+  onYearChange: (year: number) => void
+}
+
+async function fetchStats(year: number): Promise<VisitStatsResponse> {
+  const res = await fetch(`/api/visits/stats?year=${year}`)
+  if (!res.ok) throw new Error('통계를 불러오지 못했습니다.')
+  return res.json()
+}
+
+/** Yearly summary: totals, places per category, most revisited place, new 구 */
+export default function VisitStatsPanel({ year, onYearChange }: VisitStatsPanelProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['visits', 'stats', year],
+    queryFn: () => fetchStats(year),
+    staleTime: 5 * 60_000,
+  })
+
+  if (isLoading) {
+    return (
+      <div className="px-4 py-4 space-y-3">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="bg-white rounded-xl h-24 shadow-sm animate-pulse" />
+        ))}
+      </div>
+    )
+  }
+
+  if (error || !data) {
+    return <p className="px-4 py-8 text-center text-[15px] text-warm-400">통계를 불러올 수 없습니다</p>
+  }
+
+  const { stats, years } = data
+  const maxMonth = Math.max(1, ...stats.byMonth)
+  const maxCategory = Math.max(1, ...stats.byCategory.map((c) => c.count))
+
+  return (
+    <div className="px-4 py-4 space-y-3">
+      <div className="flex gap-2 overflow-x-auto">
+        {years.map((y) => (
+          <button
+            key={y}
+            onClick={() => onYearChange(y)}
+            className={`px-3 py-1.5 rounded-full text-[13px] font-medium min-h-[36px] flex-shrink-0 ${
+              y === year ? 'bg-coral-500 text-white' : 'bg-white text-warm-600 shadow-sm'
+            }`}
+          >
+            {y}년
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-xl p-4 shadow-sm grid grid-cols-3 text-center">
+        <div>
+          <p className="text-[22px] font-bold text-warm-700">{stats.visits}</p>
+          <p className="text-[12px] text-warm-400">방문</p>
+        </div>
+        <div>
+          <p className="text-[22px] font-bold text-warm-700">{stats.places}</p>
+          <p className="text-[12px] text-warm-400">장소</p>
+        </div>
+        <div>
+          <p className="text-[22px] font-bold text-warm-700">{stats.events}</p>
+          <p className="text-[12px] text-warm-400">행사</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl p-4 shadow-sm">
+        <h3 className="text-[15px] font-semibold text-warm-700 mb-3">월별 방문</h3>
+        <div className="flex items-end gap-1 h-20">
+          {stats.byMonth.map((count, i) => (
+            <div key={i} className="flex-1 flex flex-col items-center justify-end h-full">
+              <div
+                className="w-full rounded-t bg-coral-300"
+                style={{ height: `${(count / maxMonth) * 100}%` }}
+                title={`${i + 1}월 ${count}회`}
+              />
+              <span className="text-[10px] text-warm-400 mt-1">{i + 1}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {stats.byCategory.length > 0 && (
+        <div className="bg-white rounded-xl p-4 shadow-sm">
+          <h3 className="text-[15px] font-semibold text-warm-700 mb-3">카테고리별 장소</h3>
+          <div className="space-y-2">
+            {stats.byCategory.map(({ category, count }) => (
+              <div key={category} className="flex items-center gap-2 text-[13px]">
+                <span className="w-20 text-warm-600 truncate">{category}</span>
+                <div className="flex-1 h-2 bg-warm-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-coral-400" style={{ width: `${(count / maxCategory) * 100}%` }} />
+                </div>
+                <span className="w-8 text-right text-warm-500">{count}곳</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {stats.mostRevisited && (
+        <a href={`/place/${stats.mostRevisited.place_id}`} className="block bg-white rounded-xl p-4 shadow-sm">
+          <div className="flex items-center gap-1.5 text-[13px] text-coral-500 font-medium">
+            <RotateCcw size={13} />
+            가장 많이 간 곳
+          </div>
+          <p className="text-[17px] font-semibold text-warm-700 mt-1">{stats.mostRevisited.name}</p>
+          <p className="text-[13px] text-warm-400">{stats.mostRevisited.count}번 방문</p>
+        </a>
+      )}
+
+      {stats.districts.length > 0 && (
+        <div className="bg-white rounded-xl p-4 shadow-sm">
+          <div className="flex items-center gap-1.5 mb-2">
+            <MapIcon size={15} className="text-warm-500" />
+            <h3 className="text-[15px] font-semibold text-warm-700">
+              {stats.districts.length}개 동네 탐험
+              {stats.newDistricts.length > 0 && (
+                <span className="text-coral-500"> · 새로 {stats.newDistricts.length}곳</span>
+              )}
+            </h3>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {stats.districts.map((district) => {
+              const isNew = stats.newDistricts.includes(district)
+              return (
+                <span
+                  key={district}
+                  className={`text-[12px] font-medium px-2 py-0.5 rounded-full ${
+                    isNew ? 'bg-coral-100 text-coral-600' : 'bg-warm-100 text-warm-600'
+                  }`}
+                >
+                  {district}
+                  {isNew && ' NEW'}
+                </span>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,8 @@ import { useState } from 'react'
 import { Calendar, MapPin, Clock, DollarSign, Users, EyeOff, ImageOff } from 'lucide-react'
 import type { Event } from '@/types'
 import PopularityBar from '@/components/place/PopularityBar'
+import PriceChips from '@/components/PriceChips'
+import { priceChips } from '@/lib/price'
 
 interface EventCardProps {
   event: Event
@@ -46,6 +48,7 @@ function getSourceLabel(source: string): { label: string; className: string } {
   const map: Record<string, { label: string; className: string }> = {
     tour_api: { label: 'Tour API', className: 'bg-indigo-50 text-indigo-500 border-indigo-200' },
     seoul_events: { label: '서울시', className: 'bg-indigo-50 text-indigo-500 border-indigo-200' },
+    kopis: { label: 'KOPIS', className: 'bg-indigo-50 text-indigo-500 border-indigo-200' },
     interpark: { label: '인터파크', className: 'bg-teal-50 text-teal-600 border-teal-200' },
     babygo: { label: '베이비고', className: 'bg-teal-50 text-teal-600 border-teal-200' },
     blog_discovery: { label: '블로그', className: 'bg-warm-50 text-warm-500 border-warm-200' },
@@ -74,7 +77,8 @@ function formatDistance(meters: number): string {
 export default function EventCard({ event, onClick, onHide, onPosterHide, isAdmin, isSelected, distance }: EventCardProps) {
   const [imgError, setImgError] = useState(false)
   const hasLocation = event.venue_address || (event.lat !== null && event.lng !== null)
-  const hasPriceInfo = event.price_info && event.price_info.trim() !== ''
+  const hasPriceChips = priceChips(event).length > 0
+  const hasPriceInfo = hasPriceChips || (event.price_info && event.price_info.trim() !== '')
   const hasAgeRange = event.age_range && event.age_range.trim() !== ''
   const hasTimeInfo = event.time_info && event.time_info.trim() !== ''
 
@@ -192,7 +196,11 @@ export default function EventCard({ event, onClick, onHide, onPosterHide, isAdmi
           {hasPriceInfo && (
             <div className="flex items-center gap-2">
               <DollarSign size={14} className="text-warm-400 shrink-0" />
-              <span className="truncate">{event.price_info}</span>
+              {hasPriceChips ? (
+                <PriceChips row={event} />
+              ) : (
+                <span className="truncate">{event.price_info}</span>
+              )}
             </div>
           )}
 
@@ -1,8 +1,8 @@
 'use client'
 
 import { useState } from 'react'
-import { Heart, Share2, Calendar, Clock, MapPin, DollarSign, Users, ExternalLink, EyeOff, Eye, ImageOff, Image } from 'lucide-react'
-import type { Event, BlogMention } from '@/types'
+import { Heart, Share2, CalendarCheck, ListPlus, Route, Calendar, Clock, MapPin, DollarSign, Users, ExternalLink, EyeOff, Eye, ImageOff, Image } from 'lucide-react'
+import type { Event, BlogMention, EventSourceLink } from '@/types'
 
 function formatPostDate(dateStr: string | null): string {
   if (!dateStr) return ''
@@ -31,6 +31,7 @@ function SourceBadge({ sourceType }: { sourceType: string }) {
 interface EventDetailProps {
   event: Event
   topPosts?: BlogMention[]
+  sources?: EventSourceLink[]
   isFavorited?: boolean
   isHidden?: boolean
   isAdmin?: boolean
@@ -38,6 +39,10 @@ interface EventDetailProps {
   onHideToggle?: () => void
   onPosterHideToggle?: () => void
   onShare?: () => void
+  onVisitRecord?: () => void
+  onCollect?: () => void
+  /** Opens the day-trip planner anchored on this event */
+  onPlanDay?: () => void
   onBack?: () => void
 }
 
@@ -68,6 +73,7 @@ function getSourceLabel(source: string): { label: string; className: string } {
   const map: Record<string, { label: string; className: string }> = {
     tour_api: { label: 'Tour API', className: 'bg-indigo-50 text-indigo-500 border-indigo-200' },
     seoul_events: { label: '서울시', className: 'bg-indigo-50 text-indigo-500 border-indigo-200' },
+    kopis: { label: 'KOPIS', className: 'bg-indigo-50 text-indigo-500 border-indigo-200' },
     interpark: { label: '인터파크', className: 'bg-teal-50 text-teal-600 border-teal-200' },
     babygo: { label: '베이비고', className: 'bg-teal-50 text-teal-600 border-teal-200' },
     blog_discovery: { label: '블로그', className: 'bg-warm-50 text-warm-500 border-warm-200' },
@@ -76,6 +82,27 @@ function getSourceLabel(source: string): { label: string; className: string } {
   return map[source] ?? { label: source, className: 'bg-warm-50 text-warm-500 border-warm-200' }
 }
 
+const SOURCE_LINK_KINDS: Record<string, '예매' | '공식' | '정보'> = {
+  interpark: '예매',
+  babygo: '예매',
+  tour_api: '공식',
+  seoul_events: '공식',
+  kopis: '공식',
+}
+const SOURCE_LINK_ORDER = ['예매', '공식', '정보']
+
+/** "예매: 인터파크", "공식: 서울시" links — one per distinct URL, bookings first */
+function getSourceLinks(sources: EventSourceLink[]): { kind: string; label: string; url: string }[] {
+  const seen = new Set<string>()
+  const links: { kind: string; label: string; url: string }[] = []
+  for (const s of sources) {
+    if (!s.source_url || seen.has(s.source_url)) continue
+    seen.add(s.source_url)
+    links.push({ kind: SOURCE_LINK_KINDS[s.source] ?? '정보', label: getSourceLabel(s.source).label, url: s.source_url })
+  }
+  return links.sort((a, b) => SOURCE_LINK_ORDER.indexOf(a.kind) - SOURCE_LINK_ORDER.indexOf(b.kind))
+}
+
 function getCategoryEmoji(category: string): string {
   const emojis: Record<string, string> = {
     '전시': '🖼️',
@@ -91,6 +118,7 @@ function getCategoryEmoji(category: string): string {
 export default function EventDetail({
   event,
   topPosts,
+  sources = [],
   isFavorited = false,
   isHidden = false,
   isAdmin = false,
@@ -98,10 +126,14 @@ export default function EventDetail({
   onHideToggle,
   onPosterHideToggle,
   onShare,
+  onVisitRecord,
+  onCollect,
+  onPlanDay,
   onBack,
 }: EventDetailProps) {
   const [imgError, setImgError] = useState(false)
   const eventUrl = event.source_url ? new URL(event.source_url).hostname : null
+  const sourceLinks = getSourceLinks(sources)
 
   return (
     <div className="bg-warm-50 min-h-full">
@@ -188,6 +220,24 @@ export default function EventDetail({
                   <EyeOff size={22} className="text-warm-300" />
                 )}
               </button>
+              {onVisitRecord && (
+                <button
+                  onClick={onVisitRecord}
+                  className="min-w-[44px] min-h-[44px] flex items-center justify-center transition-transform active:scale-90"
+                  aria-label="방문 기록"
+                >
+                  <CalendarCheck size={22} className="text-warm-300" />
+                </button>
+              )}
+              {onCollect && (
+                <button
+                  onClick={onCollect}
+                  className="min-w-[44px] min-h-[44px] flex items-center justify-center transition-transform active:scale-90"
+                  aria-label="리스트에 담기"
+                >
+                  <ListPlus size={22} className="text-warm-300" />
+                </button>
+              )}
               <button
                 onClick={onFavoriteToggle}
                 className="min-w-[48px] min-h-[48px] flex items-center justify-center -mr-2 transition-transform active:scale-90"
@@ -268,6 +318,22 @@ export default function EventDetail({
               <span className="text-[15px] text-warm-600">{event.age_range}</span>
             </div>
           )}
+
+          {/* Day-trip planner */}
+          {onPlanDay && (
+            <button
+              onClick={onPlanDay}
+              className="
+                w-full flex items-center justify-center gap-2
+                py-3 rounded-xl
+                bg-warm-100 text-warm-700 text-[15px] font-semibold
+                border border-warm-200 active:bg-warm-200 transition-colors
+              "
+            >
+              <Route size={18} />
+              이 행사로 나들이 일정 짜기
+            </button>
+          )}
         </div>
 
         {/* Description */}
@@ -324,8 +390,33 @@ export default function EventDetail({
           </div>
         )}
 
+        {/* Source links — every listing linked to this event */}
+        {sourceLinks.length > 1 && (
+          <div className="bg-white px-4 py-4 space-y-2">
+            {sourceLinks.map((link) => (
+              <a
+                key={link.url}
+                href={link.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="
+                  flex items-center justify-between gap-3
+                  w-full py-3 px-3 rounded-xl
+                  bg-warm-50 border border-warm-200 text-warm-700
+                  hover:bg-warm-100 active:bg-warm-200 transition-colors
+                "
+              >
+                <span className="text-[14px]">
+                  <span className="font-semibold text-coral-600">{link.kind}</span>: {link.label}
+                </span>
+                <ExternalLink size={16} className="shrink-0 text-warm-400" />
+              </a>
+            ))}
+          </div>
+        )}
+
         {/* Source link */}
-        {event.source_url && (
+        {sourceLinks.length <= 1 && event.source_url && (
           <div className="bg-white px-4 py-4">
             <a
               href={event.source_url}
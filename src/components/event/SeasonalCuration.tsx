@@ -1,11 +1,39 @@
 'use client'
 
 import { useQuery } from '@tanstack/react-query'
-import type { Event, EventsResponse } from '@/types'
+import { outdoorLevel } from '@/lib/weather'
+import type { Event, EventsResponse, WeatherDay, WeatherResponse } from '@/types'
 import EventCard from './EventCard'
 
 interface SeasonalCurationProps {
   onEventClick?: (event: Event) => void
+  /** /api/weather for the user's area; a poor weekend moves indoor events up */
+  weather?: WeatherResponse | null
+}
+
+/** Event categories held indoors (performances, exhibitions) */
+const INDOOR_EVENT_CATEGORIES = new Set(['공연', '전시', '전시/체험'])
+
+function isIndoorEvent(event: Event): boolean {
+  return INDOOR_EVENT_CATEGORIES.has(event.category) || INDOOR_EVENT_CATEGORIES.has(event.sub_category ?? '')
+}
+
+/** The coming weekend's forecast days (today counts when it is the weekend) */
+function weekendDays(weather: WeatherResponse): WeatherDay[] {
+  return weather.days.filter((d) => {
+    const weekday = new Date(`${d.date}T00:00:00Z`).getUTCDay()
+    return (weekday === 0 || weekday === 6) && d.outdoorScore !== null
+  })
+}
+
+function weekendNote(days: WeatherDay[]): string | null {
+  if (days.length === 0) return null
+  const worst = Math.min(...days.map((d) => d.outdoorScore as number))
+  switch (outdoorLevel(worst)) {
+    case 'good': return '이번 주말은 야외 나들이하기 좋아요.'
+    case 'fair': return '이번 주말은 나들이할 만해요. 날씨를 한 번 더 확인하세요.'
+    case 'poor': return '이번 주말은 실내 나들이를 추천해요.'
+  }
 }
 
 function getSeason(): {
@@ -65,8 +93,11 @@ async function fetchSeasonalEvents(): Promise<EventsResponse> {
   return res.json()
 }
 
-export default function SeasonalCuration({ onEventClick }: SeasonalCurationProps) {
+export default function SeasonalCuration({ onEventClick, weather }: SeasonalCurationProps) {
   const season = getSeason()
+  const weekend = weather ? weekendDays(weather) : []
+  const weatherNote = weekendNote(weekend)
+  const preferIndoor = weekend.some((d) => outdoorLevel(d.outdoorScore as number) === 'poor')
 
   const { data, isLoading } = useQuery({
     queryKey: ['seasonal-events'],
@@ -93,8 +124,13 @@ export default function SeasonalCuration({ onEventClick }: SeasonalCurationProps
     return isInSeason || isUpcoming
   })
 
+  // Poor weekend weather: indoor events first, otherwise keep the order
+  const rankedEvents = preferIndoor
+    ? [...seasonalEvents.filter(isIndoorEvent), ...seasonalEvents.filter((e) => !isIndoorEvent(e))]
+    : seasonalEvents
+
   // Limit to 6 items for display
-  const displayedEvents = seasonalEvents.slice(0, 6)
+  const displayedEvents = rankedEvents.slice(0, 6)
 
   if (isLoading) {
     return (
@@ -136,6 +172,7 @@ export default function SeasonalCuration({ onEventClick }: SeasonalCurationProps
           {season.description}
         </h3>
         <p className="text-[13px] text-warm-500">{season.name} 시즌의 추천 이벤트입니다.</p>
+        {weatherNote && <p className="text-[13px] text-warm-500 mt-1">{weatherNote}</p>}
       </div>
 
       {/* Event list */}
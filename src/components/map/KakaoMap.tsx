@@ -1,10 +1,14 @@
 'use client'
 
 import { useEffect, useRef, useCallback, useState } from 'react'
-import type { Place } from '@/types'
+import type { Place, PlaceCluster } from '@/types'
+import { CLUSTER_MIN_LEVEL } from '@/lib/map-clusters'
+import { CATEGORY_EMOJI } from './PlaceMarker'
 
 interface KakaoMapProps {
   places: Place[]
+  /** When set (zoomed out), drawn as cluster bubbles instead of place markers */
+  clusters?: PlaceCluster[]
   selectedPlaceId?: number | null
   onBoundsChanged?: (params: {
     swLat: number
@@ -28,7 +32,7 @@ declare global {
         load: (callback: () => void) => void
         Map: new (container: HTMLElement, options: object) => KakaoMapInstance
         LatLng: new (lat: number, lng: number) => object
-        LatLngBounds: new () => KakaoBoundsInstance
+        LatLngBounds: new (sw?: object, ne?: object) => KakaoBoundsInstance
         Marker: new (options: object) => KakaoMarkerInstance
         CustomOverlay: new (options: object) => KakaoOverlayInstance
         event: {
@@ -45,6 +49,7 @@ interface KakaoMapInstance {
   getLevel: () => number
   panTo: (latlng: object) => void
   setLevel: (level: number) => void
+  setBounds: (bounds: KakaoBoundsInstance) => void
 }
 
 interface KakaoBoundsInstance {
@@ -91,8 +96,17 @@ function ensureKakaoSDK(): Promise<void> {
   return sdkReady
 }
 
+/** Bubble diameter grows with log(count) so dense clusters stay readable */
+function clusterSize(count: number): number {
+  return Math.min(64, 34 + Math.round(Math.log10(count) * 12))
+}
+
+/** Below this extent (degrees) fitting bounds would jump to street level */
+const MIN_CLUSTER_SPAN_DEG = 0.002
+
 export default function KakaoMap({
   places,
+  clusters,
   selectedPlaceId,
   onBoundsChanged,
   onPlaceClick,
@@ -171,7 +185,7 @@ export default function KakaoMap({
     map.panTo(new window.kakao.maps.LatLng(center.lat, center.lng))
   }, [mapReady, center?.lat, center?.lng])
 
-  // Render place overlays
+  // Render place overlays (or cluster bubbles when zoomed out)
   useEffect(() => {
     if (!mapReady || !mapRef.current) return
 
@@ -181,6 +195,35 @@ export default function KakaoMap({
 
     const newOverlays: KakaoOverlayInstance[] = []
 
+    if (clusters) {
+      clusters.forEach((cluster) => {
+        const size = clusterSize(cluster.count)
+        const emoji = CATEGORY_EMOJI[cluster.topCategory] ?? '📍'
+
+        const el = document.createElement('div')
+        el.style.cssText = 'cursor:pointer;'
+        el.innerHTML =
+          '<div style="position:relative;background:rgba(255,92,69,0.9);color:white;border-radius:50%;width:' + size + 'px;height:' + size + 'px;display:flex;align-items:center;justify-content:center;font-size:13px;font-weight:700;box-shadow:0 2px 8px rgba(255,92,69,0.4);border:2px solid white;">' +
+          cluster.count.toLocaleString() +
+          '<span style="position:absolute;top:-6px;right:-6px;font-size:12px;background:white;border-radius:50%;width:20px;height:20px;display:flex;align-items:center;justify-content:center;box-shadow:0 1px 3px rgba(0,0,0,0.2);">' + emoji + '</span></div>'
+        el.setAttribute('aria-label', `장소 ${cluster.count}개`)
+        el.addEventListener('click', () => expandCluster(cluster))
+
+        const overlay = new window.kakao.maps.CustomOverlay({
+          position: new window.kakao.maps.LatLng(cluster.lat, cluster.lng),
+          content: el,
+          yAnchor: 0.5,
+          zIndex: 1,
+        })
+
+        overlay.setMap(mapRef.current!)
+        newOverlays.push(overlay)
+      })
+
+      overlaysRef.current = newOverlays
+      return
+    }
+
     places.forEach((place) => {
       const isSelected = place.id === selectedPlaceId
       const bg = isSelected ? '#E84530' : '#FF5C45'
@@ -208,7 +251,25 @@ export default function KakaoMap({
     })
 
     overlaysRef.current = newOverlays
-  }, [mapReady, places, selectedPlaceId, onPlaceClick])
+  }, [mapReady, places, clusters, selectedPlaceId, onPlaceClick])
+
+  /** Zoom in on a tapped cluster: fit its extent, or drop below the cluster threshold */
+  function expandCluster(cluster: PlaceCluster) {
+    const map = mapRef.current
+    if (!map) return
+    const { swLat, swLng, neLat, neLng } = cluster.bounds
+    if (Math.max(neLat - swLat, neLng - swLng) < MIN_CLUSTER_SPAN_DEG) {
+      map.setLevel(Math.min(map.getLevel() - 2, CLUSTER_MIN_LEVEL - 1))
+      map.panTo(new window.kakao.maps.LatLng(cluster.lat, cluster.lng))
+      return
+    }
+    map.setBounds(
+      new window.kakao.maps.LatLngBounds(
+        new window.kakao.maps.LatLng(swLat, swLng),
+        new window.kakao.maps.LatLng(neLat, neLng)
+      )
+    )
+  }
 
   if (mapError) {
     return (
@@ -8,6 +8,19 @@ interface PlaceMarkerProps {
   onClick?: (place: Place) => void
 }
 
+export const CATEGORY_EMOJI: Record<string, string> = {
+  '놀이': '🎪',
+  '공원/놀이터': '🌳',
+  '전시/체험': '🏛',
+  '공연': '🎭',
+  '동물/자연': '🐾',
+  '식당/카페': '🍽',
+  '도서관': '📚',
+  '수영/물놀이': '🏊',
+  '문화행사': '🎉',
+  '편의시설': '🚼',
+}
+
 /**
  * PlaceMarker — rendered as a CustomOverlay via KakaoMap.
  * This component exports the HTML content string for use in KakaoMap's CustomOverlay,
@@ -18,20 +31,7 @@ export function getMarkerContent(place: Place, isSelected = false): string {
   const size = isSelected ? '36px' : '28px'
   const fontSize = isSelected ? '14px' : '11px'
 
-  const categoryEmoji: Record<string, string> = {
-    '놀이': '🎪',
-    '공원/놀이터': '🌳',
-    '전시/체험': '🏛',
-    '공연': '🎭',
-    '동물/자연': '🐾',
-    '식당/카페': '🍽',
-    '도서관': '📚',
-    '수영/물놀이': '🏊',
-    '문화행사': '🎉',
-    '편의시설': '🚼',
-  }
-
-  const emoji = categoryEmoji[place.category] ?? '📍'
+  const emoji = CATEGORY_EMOJI[place.category] ?? '📍'
 
   return `
     <div style="
@@ -66,20 +66,7 @@ export function getMarkerContent(place: Place, isSelected = false): string {
 }
 
 export default function PlaceMarker({ place, isSelected = false, onClick }: PlaceMarkerProps) {
-  const categoryEmoji: Record<string, string> = {
-    '놀이': '🎪',
-    '공원/놀이터': '🌳',
-    '전시/체험': '🏛',
-    '공연': '🎭',
-    '동물/자연': '🐾',
-    '식당/카페': '🍽',
-    '도서관': '📚',
-    '수영/물놀이': '🏊',
-    '문화행사': '🎉',
-    '편의시설': '🚼',
-  }
-
-  const emoji = categoryEmoji[place.category] ?? '📍'
+  const emoji = CATEGORY_EMOJI[place.category] ?? '📍'
 
   return (
     <button
@@ -7,9 +7,11 @@ import {
   Baby,
 } from 'lucide-react'
 import type { FacilityTag } from '@/types'
+import { AMENITY_KEYS, TAG_AMENITIES, amenityLabel, type AmenityKey, type PlaceAmenities } from '@/lib/amenities'
 
 interface FacilityIconsProps {
   tags: string[]
+  amenities?: PlaceAmenities | null
   size?: 'sm' | 'md'
 }
 
@@ -70,6 +72,46 @@ function getFacilityConfig(tag: FacilityTag | string, iconSize: number): Facilit
   }
 }
 
+function getAmenityConfig(key: AmenityKey, amenities: PlaceAmenities, iconSize: number): FacilityConfig {
+  const configs: Record<AmenityKey, Omit<FacilityConfig, 'label'>> = {
+    nursing_room: { icon: <Baby size={iconSize} />, colorClass: 'text-coral-500' },
+    changing_table: { icon: <NursingIcon size={iconSize} />, colorClass: 'text-coral-400' },
+    stroller_rental: { icon: <StrollerIcon size={iconSize} />, colorClass: 'text-indoor' },
+    elevator: { icon: <ArrowUpDown size={iconSize} />, colorClass: 'text-warm-500' },
+    step_free_entrance: { icon: <Accessibility size={iconSize} />, colorClass: 'text-indoor' },
+    parking: { icon: <ParkingCircle size={iconSize} />, colorClass: 'text-warm-600' },
+    baby_chair: { icon: <Armchair size={iconSize} />, colorClass: 'text-warm-500' },
+  }
+  return { label: amenityLabel(key, amenities), ...configs[key] }
+}
+
+/** "2026-03-14T..." → "2026.03 확인" */
+function formatConfirmed(confirmedAt: string): string {
+  const d = new Date(confirmedAt)
+  if (isNaN(d.getTime())) return ''
+  return `${d.getFullYear()}.${String(d.getMonth() + 1).padStart(2, '0')} 확인`
+}
+
+function StrollerIcon({ size }: { size: number }) {
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M4 4h2l2 9h10a5 5 0 0 0-5-8V5" />
+      <path d="M8 13l-1 3h12" />
+      <circle cx="8" cy="19" r="2" />
+      <circle cx="17" cy="19" r="2" />
+    </svg>
+  )
+}
+
 function NursingIcon({ size }: { size: number }) {
   return (
     <svg
@@ -89,8 +131,16 @@ function NursingIcon({ size }: { size: number }) {
   )
 }
 
-export default function FacilityIcons({ tags, size = 'sm' }: FacilityIconsProps) {
-  if (!tags || tags.length === 0) return null
+/**
+ * Structured amenities first (variant label; detail and last confirmation at
+ * size md), then tags that no amenity entry already covers.
+ */
+export default function FacilityIcons({ tags, amenities, size = 'sm' }: FacilityIconsProps) {
+  const amenityKeys = amenities ? AMENITY_KEYS.filter((key) => amenities[key]) : []
+  const present = amenityKeys.filter((key) => amenities![key]!.present)
+  const absent = size === 'md' ? amenityKeys.filter((key) => !amenities![key]!.present) : []
+  const restTags = (tags ?? []).filter((tag) => !(TAG_AMENITIES[tag] && amenities?.[TAG_AMENITIES[tag]]))
+  if (present.length === 0 && absent.length === 0 && restTags.length === 0) return null
 
   const iconSize = size === 'sm' ? 16 : 20
   const containerClass = size === 'sm' ? 'gap-1.5' : 'gap-2'
@@ -100,7 +150,34 @@ export default function FacilityIcons({ tags, size = 'sm' }: FacilityIconsProps)
 
   return (
     <div className={`flex flex-wrap items-center ${containerClass}`} role="list" aria-label="편의시설">
-      {tags.map((tag) => {
+      {present.map((key) => {
+        const amenity = amenities![key]!
+        const config = getAmenityConfig(key, amenities!, iconSize)
+        const confirmed = formatConfirmed(amenity.confirmed_at)
+        return (
+          <div
+            key={key}
+            role="listitem"
+            title={[amenity.detail, confirmed].filter(Boolean).join(' · ') || config.label}
+            className={`
+              flex items-center gap-1 bg-warm-50 ${config.colorClass}
+              ${tagClass} font-medium
+            `}
+          >
+            {config.icon}
+            {size === 'md' ? (
+              <span className="flex flex-col leading-tight">
+                <span className="text-warm-600">{config.label}</span>
+                {amenity.detail && <span className="text-[11px] font-normal text-warm-400">{amenity.detail}</span>}
+                {confirmed && <span className="text-[10px] font-normal text-warm-300">{confirmed}</span>}
+              </span>
+            ) : (
+              <span className="text-warm-600">{config.label}</span>
+            )}
+          </div>
+        )
+      })}
+      {restTags.map((tag) => {
         const config = getFacilityConfig(tag, iconSize)
         return (
           <div
@@ -117,6 +194,16 @@ export default function FacilityIcons({ tags, size = 'sm' }: FacilityIconsProps)
           </div>
         )
       })}
+      {absent.map((key) => (
+        <div
+          key={key}
+          role="listitem"
+          className={`flex items-center gap-1 bg-warm-50 text-warm-300 ${tagClass}`}
+        >
+          <span className="line-through">{getAmenityConfig(key, amenities!, iconSize).label}</span>
+          <span>없음</span>
+        </div>
+      ))}
     </div>
   )
 }
@@ -1,7 +1,9 @@
 import { MapPin, Navigation, EyeOff } from 'lucide-react'
 import type { Place } from '@/types'
+import { describeOpenStatus, openStatusAt } from '@/lib/opening-hours'
 import FacilityIcons from './FacilityIcons'
 import PopularityBar from './PopularityBar'
+import PriceChips from '@/components/PriceChips'
 
 interface PlaceCardProps {
   place: Place
@@ -34,6 +36,8 @@ function getCategoryColor(category: string): string {
 }
 
 export default function PlaceCard({ place, distance, onClick, onHide, isSelected, label }: PlaceCardProps) {
+  const openStatus = describeOpenStatus(openStatusAt(place.opening_hours, new Date()))
+
   return (
     <button
       onClick={() => onClick?.(place)}
@@ -81,6 +85,16 @@ export default function PlaceCard({ place, distance, onClick, onHide, isSelected
             >
               {place.category}
             </span>
+            <PriceChips row={place} />
+            {openStatus && (
+              <span
+                className={`text-[12px] font-medium ${
+                  openStatus.tone === 'open' ? 'text-green-600' : 'text-warm-400'
+                }`}
+              >
+                {openStatus.label}
+              </span>
+            )}
             {place.road_address && (
               <span className="flex items-center gap-0.5 text-[13px] text-warm-400">
                 <MapPin size={12} />
@@ -92,9 +106,9 @@ export default function PlaceCard({ place, distance, onClick, onHide, isSelected
           </div>
 
           {/* Facility icons */}
-          {place.tags && place.tags.length > 0 && (
+          {((place.tags && place.tags.length > 0) || place.amenities) && (
             <div className="mb-2">
-              <FacilityIcons tags={place.tags} size="sm" />
+              <FacilityIcons tags={place.tags} amenities={place.amenities} size="sm" />
             </div>
           )}
 
@@ -1,9 +1,12 @@
 'use client'
 
-import { Heart, Share2, Phone, Clock, MapPin, Navigation, ExternalLink, CalendarCheck, Globe, Info, Calendar, EyeOff, Eye } from 'lucide-react'
+import { Heart, Share2, Phone, Clock, MapPin, Navigation, ExternalLink, CalendarCheck, ListPlus, Route, Globe, Info, Calendar, EyeOff, Eye } from 'lucide-react'
 import type { Place, BlogMention, Event } from '@/types'
 import FacilityIcons from './FacilityIcons'
+import PlaceFactQuestions from './PlaceFactQuestions'
+import PlaceReviews from './PlaceReviews'
 import PopularityBar from './PopularityBar'
+import RelatedPlaces from './RelatedPlaces'
 
 interface PlaceDetailProps {
   place: Place
@@ -15,10 +18,50 @@ interface PlaceDetailProps {
   onFavoriteToggle?: () => void
   onHideToggle?: () => void
   onVisitRecord?: () => void
+  onCollect?: () => void
+  /** Opens the day-trip planner anchored on this place */
+  onPlanDay?: () => void
   onShare?: () => void
   onBack?: () => void
 }
 
+const SOURCE_LABELS: Record<string, string> = {
+  kakao: '카카오맵',
+  tour_api: '한국관광공사',
+  'public-data-go.kr': '공공데이터포털',
+  data_go_kr: '공공데이터포털',
+  seoul_opendata: '서울열린데이터',
+  'children-facility': '어린이놀이시설',
+  'small-biz': '소상공인 상가정보',
+  babygo: '베이비고',
+  auto_promoted: '블로그 언급',
+  user_submission: '사용자 제보',
+  admin: '관리자 확인',
+}
+
+/** Fields listed under 정보 출처, in display order (keys of places.field_sources) */
+const FIELD_LABELS: [field: string, label: string][] = [
+  ['road_address', '주소'],
+  ['phone', '전화'],
+  ['opening_hours', '운영시간'],
+  ['price_info', '요금'],
+  ['is_indoor', '실내/실외'],
+  ['tags', '편의시설'],
+  ['description', '소개'],
+]
+
+/** "카카오맵: 주소·전화 / 한국관광공사: 운영시간" — fields grouped by the source they came from */
+function formatFieldSources(fieldSources: Record<string, string>): string[] {
+  const bySource = new Map<string, string[]>()
+  for (const [field, label] of FIELD_LABELS) {
+    const source = fieldSources[field]
+    if (!source) continue
+    if (!bySource.has(source)) bySource.set(source, [])
+    bySource.get(source)!.push(label)
+  }
+  return [...bySource].map(([source, labels]) => `${SOURCE_LABELS[source] ?? source}: ${labels.join('·')}`)
+}
+
 function formatDistance(meters: number): string {
   if (meters < 1000) return `${Math.round(meters)}m`
   return `${(meters / 1000).toFixed(1)}km`
@@ -78,10 +121,13 @@ export default function PlaceDetail({
   onFavoriteToggle,
   onHideToggle,
   onVisitRecord,
+  onCollect,
+  onPlanDay,
   onShare,
   onBack,
 }: PlaceDetailProps) {
   const kakaoNavUrl = `https://map.kakao.com/link/to/${encodeURIComponent(place.name)},${place.lat},${place.lng}`
+  const fieldSourceLines = place.field_sources ? formatFieldSources(place.field_sources) : []
 
   return (
     <div className="bg-warm-50 min-h-full">
@@ -145,6 +191,15 @@ export default function PlaceDetail({
               >
                 <CalendarCheck size={22} className="text-warm-300" />
               </button>
+              {onCollect && (
+                <button
+                  onClick={onCollect}
+                  className="min-w-[44px] min-h-[44px] flex items-center justify-center transition-transform active:scale-90"
+                  aria-label="리스트에 담기"
+                >
+                  <ListPlus size={22} className="text-warm-300" />
+                </button>
+              )}
               <button
                 onClick={onFavoriteToggle}
                 className="min-w-[44px] min-h-[44px] flex items-center justify-center -mr-2 transition-transform active:scale-90"
@@ -182,8 +237,8 @@ export default function PlaceDetail({
           </div>
 
           {/* Facility icons */}
-          {place.tags && place.tags.length > 0 && (
-            <FacilityIcons tags={place.tags} size="md" />
+          {((place.tags && place.tags.length > 0) || place.amenities) && (
+            <FacilityIcons tags={place.tags} amenities={place.amenities} size="md" />
           )}
         </div>
 
@@ -222,6 +277,14 @@ export default function PlaceDetail({
               </a>
             </div>
           )}
+          {place.hours_text && (
+            <div className="flex items-start gap-3">
+              <Clock size={18} className="text-warm-400 shrink-0 mt-0.5" />
+              <span className="text-[15px] text-warm-600 leading-relaxed whitespace-pre-line">
+                {place.hours_text}
+              </span>
+            </div>
+          )}
           {place.description && (
             <div className="flex items-start gap-3">
               <Clock size={18} className="text-warm-400 shrink-0 mt-0.5" />
@@ -267,20 +330,49 @@ export default function PlaceDetail({
             )}
           </div>
 
+          {onPlanDay && (
+            <button
+              onClick={onPlanDay}
+              className="
+                mt-2 w-full flex items-center justify-center gap-2
+                py-3 rounded-xl
+                bg-warm-100 text-warm-700 text-[15px] font-semibold
+                border border-warm-200 active:bg-warm-200 transition-colors
+              "
+            >
+              <Route size={18} />
+              이 장소로 나들이 일정 짜기
+            </button>
+          )}
+
           {/* Source info */}
-          <div className="mt-3 flex items-center gap-1.5">
-            <Info size={13} className="text-warm-300 shrink-0" />
-            <span className="text-[12px] text-warm-400">
-              출처: {place.source === 'kakao' ? '카카오맵' :
-                     place.source === 'tour_api' ? '한국관광공사' :
-                     place.source === 'data_go_kr' ? '공공데이터포털' :
-                     place.source === 'seoul_opendata' ? '서울열린데이터' :
-                     place.source}
-              {place.source_count > 1 && ` 외 ${place.source_count - 1}개 출처`}
-            </span>
-          </div>
+          {fieldSourceLines.length > 0 ? (
+            <div className="mt-3 flex items-start gap-1.5">
+              <Info size={13} className="text-warm-300 shrink-0 mt-0.5" />
+              <div className="text-[12px] text-warm-400">
+                <span className="font-medium">정보 출처</span>
+                {fieldSourceLines.map((line) => (
+                  <p key={line}>{line}</p>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="mt-3 flex items-center gap-1.5">
+              <Info size={13} className="text-warm-300 shrink-0" />
+              <span className="text-[12px] text-warm-400">
+                출처: {SOURCE_LABELS[place.source] ?? place.source}
+                {place.source_count > 1 && ` 외 ${place.source_count - 1}개 출처`}
+              </span>
+            </div>
+          )}
         </div>
 
+        {/* Reviews */}
+        <PlaceReviews placeId={place.id} ratingAvg={place.rating_avg} reviewCount={place.review_count ?? 0} />
+
+        {/* Crowd fact questions */}
+        <PlaceFactQuestions placeId={place.id} />
+
         {/* Nearby running events */}
         {nearbyEvents && nearbyEvents.length > 0 && (
           <div className="bg-white px-4 py-4">
@@ -340,6 +432,9 @@ export default function PlaceDetail({
           </div>
         )}
 
+        {/* Nearby complements + similar places */}
+        <RelatedPlaces placeId={place.id} />
+
         {/* Top 5 blog posts */}
         {topPosts && topPosts.length > 0 && (
           <div className="bg-white px-4 py-4">
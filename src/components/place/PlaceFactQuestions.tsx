@@ -0,0 +1,120 @@
+'use client'
+
+import Link from 'next/link'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { FACT_QUESTIONS, type FactAttribute, type FactSummary } from '@/lib/place-facts'
+
+interface PlaceFactQuestionsProps {
+  placeId: number
+}
+
+/** The fact fields of GET /api/places/verify (shared query with VerificationBadge) */
+interface FactsResponse {
+  facts: FactSummary[]
+  my_answers: Partial<Record<FactAttribute, boolean>>
+}
+
+class LoginRequiredError extends Error {}
+
+async function fetchFacts(placeId: number): Promise<FactsResponse> {
+  const res = await fetch(`/api/places/verify?place_id=${placeId}`)
+  if (!res.ok) throw new Error('Verification status unavailable')
+  return res.json()
+}
+
+async function postAnswer(input: { placeId: number; attribute: FactAttribute; answer: boolean }): Promise<FactsResponse> {
+  const res = await fetch('/api/places/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ place_id: input.placeId, attribute: input.attribute, answer: input.answer }),
+  })
+  if (res.status === 401) throw new LoginRequiredError()
+  if (!res.ok) throw new Error('답변을 저장하지 못했습니다.')
+  return res.json()
+}
+
+function formatCounts(summary: FactSummary | undefined): string | null {
+  if (!summary) return null
+  return `예 ${summary.yes} · 아니오 ${summary.no}`
+}
+
+/** "방문해 보셨나요?" — yes/no questions that feed crowd confidence per attribute */
+export default function PlaceFactQuestions({ placeId }: PlaceFactQuestionsProps) {
+  const queryClient = useQueryClient()
+
+  const { data } = useQuery({
+    queryKey: ['verification', placeId],
+    queryFn: () => fetchFacts(placeId),
+    staleTime: 60 * 60_000, // 1 hour
+  })
+
+  const mutation = useMutation({
+    mutationFn: postAnswer,
+    onSuccess: (_result, { attribute }) => {
+      queryClient.invalidateQueries({ queryKey: ['verification', placeId] })
+      // Settled amenity answers change places.amenities
+      if (attribute !== 'open') queryClient.invalidateQueries({ queryKey: ['place', String(placeId)] })
+    },
+  })
+
+  const summaries = new Map((data?.facts ?? []).map((s) => [s.attribute, s]))
+  const myAnswers = data?.my_answers ?? {}
+
+  return (
+    <div className="bg-white px-4 py-4">
+      <h2 className="text-[15px] font-semibold text-warm-700 mb-1">방문해 보셨나요?</h2>
+      <p className="text-[13px] text-warm-400 mb-3">
+        알려주신 내용은 다른 부모님들이 보는 정보에 반영돼요.
+      </p>
+
+      <ul className="space-y-0">
+        {FACT_QUESTIONS.map(({ attribute, question }) => {
+          const counts = formatCounts(summaries.get(attribute))
+          const mine = myAnswers[attribute]
+          const pending = mutation.isPending && mutation.variables?.attribute === attribute
+          return (
+            <li
+              key={attribute}
+              className="flex items-center justify-between gap-3 py-2.5 border-b border-warm-200 last:border-0"
+            >
+              <div className="min-w-0">
+                <p className="text-[14px] text-warm-700">{question}</p>
+                {counts && <p className="text-[11px] text-warm-400 mt-0.5">{counts}</p>}
+              </div>
+              <div className="flex gap-1.5 shrink-0">
+                {([true, false] as const).map((answer) => (
+                  <button
+                    key={String(answer)}
+                    onClick={() => mutation.mutate({ placeId, attribute, answer })}
+                    disabled={pending}
+                    aria-pressed={mine === answer}
+                    className={`
+                      min-w-[52px] min-h-[36px] px-3 rounded-lg text-[13px] font-semibold
+                      border transition-colors disabled:opacity-50
+                      ${mine === answer
+                        ? 'bg-coral-500 text-white border-coral-500'
+                        : 'bg-white text-warm-600 border-warm-200 active:bg-warm-100'}
+                    `}
+                  >
+                    {answer ? '예' : '아니오'}
+                  </button>
+                ))}
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+
+      {mutation.error instanceof LoginRequiredError ? (
+        <p className="text-[13px] text-warm-500 mt-2">
+          <Link href="/login" className="text-coral-500 font-semibold underline">
+            로그인
+          </Link>
+          하면 답변할 수 있어요.
+        </p>
+      ) : mutation.error ? (
+        <p className="text-[13px] text-red-500 mt-2">{mutation.error.message}</p>
+      ) : null}
+    </div>
+  )
+}
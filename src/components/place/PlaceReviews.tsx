@@ -0,0 +1,193 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Star } from 'lucide-react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { formatAgeMonths } from '@/lib/age-range'
+import { reviewPhotoUrl } from '@/lib/reviews'
+import ReviewForm, { type ReviewFormValues } from './ReviewForm'
+import type { Review, PlaceReviewsResponse } from '@/types'
+
+interface PlaceReviewsProps {
+  placeId: number
+  ratingAvg: number | null
+  reviewCount: number
+}
+
+class LoginRequiredError extends Error {}
+
+async function fetchReviews(placeId: number): Promise<PlaceReviewsResponse> {
+  const res = await fetch(`/api/places/${placeId}/reviews`)
+  if (!res.ok) throw new Error('리뷰를 불러오지 못했습니다.')
+  return res.json()
+}
+
+async function saveReview(input: { placeId: number; values: ReviewFormValues; isEdit: boolean }): Promise<void> {
+  const res = await fetch(`/api/places/${input.placeId}/reviews`, {
+    method: input.isEdit ? 'PATCH' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input.values),
+  })
+  if (res.status === 401) throw new LoginRequiredError()
+  if (!res.ok) throw new Error('리뷰를 저장하지 못했습니다.')
+}
+
+async function deleteReview(placeId: number): Promise<void> {
+  const res = await fetch(`/api/places/${placeId}/reviews`, { method: 'DELETE' })
+  if (!res.ok) throw new Error('리뷰를 삭제하지 못했습니다.')
+}
+
+function formatVisit(review: Review): string | null {
+  const parts: string[] = []
+  if (review.visited_on) {
+    const [year, month] = review.visited_on.split('-')
+    parts.push(`${year}.${month} 방문`)
+  }
+  if (review.child_age_months !== null) parts.push(`방문 당시 ${formatAgeMonths(review.child_age_months)}`)
+  return parts.length > 0 ? parts.join(' · ') : null
+}
+
+function Stars({ rating, size = 14 }: { rating: number; size?: number }) {
+  return (
+    <span className="inline-flex" aria-label={`별점 ${rating}점`}>
+      {[1, 2, 3, 4, 5].map((value) => (
+        <Star
+          key={value}
+          size={size}
+          className={value <= Math.round(rating) ? 'text-amber-400 fill-amber-400' : 'text-warm-200'}
+        />
+      ))}
+    </span>
+  )
+}
+
+function ReviewItem({ review }: { review: Review }) {
+  const visit = formatVisit(review)
+  return (
+    <li className="py-3 border-b border-warm-200 last:border-0">
+      <div className="flex items-center gap-2">
+        <Stars rating={review.rating} size={12} />
+        {visit && <span className="text-[12px] text-warm-400">{visit}</span>}
+      </div>
+      {review.body && (
+        <p className="text-[14px] text-warm-700 mt-1.5 whitespace-pre-line">{review.body}</p>
+      )}
+      {review.photo_paths.length > 0 && (
+        <div className="flex gap-2 mt-2 overflow-x-auto">
+          {review.photo_paths.map((path) => (
+            <img
+              key={path}
+              src={reviewPhotoUrl(path)}
+              alt=""
+              loading="lazy"
+              className="w-20 h-20 rounded-lg object-cover shrink-0"
+            />
+          ))}
+        </div>
+      )}
+    </li>
+  )
+}
+
+/** 리뷰 section on the place page: rating summary, own review form, list */
+export default function PlaceReviews({ placeId, ratingAvg, reviewCount }: PlaceReviewsProps) {
+  const queryClient = useQueryClient()
+  const [editing, setEditing] = useState(false)
+
+  const { data } = useQuery({
+    queryKey: ['reviews', placeId],
+    queryFn: () => fetchReviews(placeId),
+    staleTime: 5 * 60_000,
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['reviews', placeId] })
+    queryClient.invalidateQueries({ queryKey: ['place', String(placeId)] })
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: saveReview,
+    onSuccess: () => {
+      setEditing(false)
+      invalidate()
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteReview,
+    onSuccess: invalidate,
+  })
+
+  const myReview = data?.myReview ?? null
+  const others = (data?.reviews ?? []).filter((r) => r.id !== myReview?.id)
+  const error = saveMutation.error ?? deleteMutation.error
+
+  return (
+    <div className="bg-white px-4 py-4">
+      <div className="flex items-center gap-2 mb-3">
+        <h2 className="text-[15px] font-semibold text-warm-700">리뷰</h2>
+        {reviewCount > 0 && ratingAvg !== null && (
+          <span className="flex items-center gap-1 text-[13px] text-warm-500">
+            <Stars rating={ratingAvg} />
+            {ratingAvg.toFixed(1)} ({reviewCount})
+          </span>
+        )}
+      </div>
+
+      {myReview && !editing ? (
+        <div className="rounded-xl bg-warm-50 px-3 mb-3">
+          <ul>
+            <ReviewItem review={myReview} />
+          </ul>
+          {myReview.status === 'removed' && (
+            <p className="text-[12px] text-red-500 pb-2">
+              운영 정책에 따라 다른 분들께 보이지 않는 리뷰예요. 수정하면 다시 검토해요.
+            </p>
+          )}
+          <div className="flex gap-3 pb-3 text-[13px] font-medium">
+            <button onClick={() => setEditing(true)} className="text-warm-600">수정</button>
+            <button
+              onClick={() => deleteMutation.mutate(placeId)}
+              disabled={deleteMutation.isPending}
+              className="text-warm-400"
+            >
+              삭제
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="mb-3">
+          <ReviewForm
+            key={myReview?.id ?? 'new'}
+            initial={myReview}
+            isSaving={saveMutation.isPending}
+            onSubmit={(values) => saveMutation.mutate({ placeId, values, isEdit: !!myReview })}
+            onCancel={myReview ? () => setEditing(false) : undefined}
+          />
+        </div>
+      )}
+
+      {error instanceof LoginRequiredError ? (
+        <p className="text-[13px] text-warm-500 mb-3">
+          <Link href="/login" className="text-coral-500 font-semibold underline">
+            로그인
+          </Link>
+          하면 리뷰를 남길 수 있어요.
+        </p>
+      ) : error ? (
+        <p className="text-[13px] text-red-500 mb-3">{error.message}</p>
+      ) : null}
+
+      {others.length > 0 ? (
+        <ul>
+          {others.map((review) => (
+            <ReviewItem key={review.id} review={review} />
+          ))}
+        </ul>
+      ) : (
+        !myReview && <p className="text-[13px] text-warm-400">아직 리뷰가 없어요. 첫 리뷰를 남겨주세요.</p>
+      )}
+    </div>
+  )
+}
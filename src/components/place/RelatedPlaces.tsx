@@ -0,0 +1,91 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { TRAVEL_SPEEDS, travelMinutes } from '@/lib/day-plan'
+import type { Place, PlaceRelatedResponse, RelatedReason } from '@/types'
+
+interface RelatedPlacesProps {
+  placeId: number
+}
+
+const REASON_LABELS: Record<RelatedReason, string> = {
+  co_mention: '함께 다녀온 후기',
+  sub_category: '비슷한 장소',
+  tags: '같은 편의시설',
+}
+
+async function fetchRelated(placeId: number): Promise<PlaceRelatedResponse> {
+  const res = await fetch(`/api/places/${placeId}/related`)
+  if (!res.ok) throw new Error('관련 장소를 불러오지 못했습니다.')
+  return res.json()
+}
+
+function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters)}m`
+  return `${(meters / 1000).toFixed(1)}km`
+}
+
+function PlaceTile({ place, detail }: { place: Place & { distance_m: number }; detail: string }) {
+  return (
+    <li className="w-[168px] shrink-0 snap-start">
+      <a
+        href={`/place/${place.id}`}
+        className="block h-full bg-warm-50 rounded-xl p-3 border border-warm-100 active:bg-warm-100 transition-colors"
+      >
+        <p className="text-[14px] font-medium text-warm-700 leading-snug line-clamp-2 min-h-[2.5em]">
+          {place.name}
+        </p>
+        <p className="text-[12px] text-warm-500 mt-1 truncate">
+          {place.sub_category ?? place.category}
+          <span className="ml-1.5 text-warm-300">{formatDistance(place.distance_m)}</span>
+        </p>
+        <p className="text-[11px] font-semibold text-coral-500 mt-1 truncate">{detail}</p>
+      </a>
+    </li>
+  )
+}
+
+function Carousel({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white py-4">
+      <h2 className="text-[15px] font-semibold text-warm-700 mb-3 px-4">{title}</h2>
+      <ul className="flex gap-2.5 overflow-x-auto snap-x px-4 pb-1" aria-label={title}>
+        {children}
+      </ul>
+    </div>
+  )
+}
+
+/** "비슷한 장소" and "걸어서 갈 만한 곳" carousels under the place details */
+export default function RelatedPlaces({ placeId }: RelatedPlacesProps) {
+  const { data } = useQuery({
+    queryKey: ['place-related', placeId],
+    queryFn: () => fetchRelated(placeId),
+    staleTime: 60 * 60_000, // 1 hour
+  })
+
+  if (!data) return null
+
+  return (
+    <>
+      {data.nearby.length > 0 && (
+        <Carousel title="걸어서 갈 만한 곳">
+          {data.nearby.map((p) => (
+            <PlaceTile key={p.id} place={p} detail={`유모차 도보 ${travelMinutes(p.distance_m, TRAVEL_SPEEDS.walk)}분`} />
+          ))}
+        </Carousel>
+      )}
+      {data.similar.length > 0 && (
+        <Carousel title="비슷한 장소">
+          {data.similar.map((p) => (
+            <PlaceTile
+              key={p.id}
+              place={p}
+              detail={p.shared_posts > 0 ? `후기 ${p.shared_posts}개에 함께 등장` : REASON_LABELS[p.reasons[0]]}
+            />
+          ))}
+        </Carousel>
+      )}
+    </>
+  )
+}
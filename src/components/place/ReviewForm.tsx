@@ -0,0 +1,212 @@
+'use client'
+
+import { useState } from 'react'
+import { Star, ImagePlus, X } from 'lucide-react'
+import { useChildren } from '@/hooks/useChildren'
+import { createClient } from '@/lib/supabase'
+import { formatAgeMonths } from '@/lib/age-range'
+import { photoUploadPath } from '@/lib/user-photos'
+import {
+  childAgeAtVisit,
+  reviewPhotoUrl,
+  REVIEW_BODY_MAX,
+  REVIEW_PHOTO_BUCKET,
+  REVIEW_PHOTO_MAX,
+} from '@/lib/reviews'
+import type { Review } from '@/types'
+
+export interface ReviewFormValues {
+  rating: number
+  body: string
+  visited_on: string | null
+  child_age_months: number | null
+  photo_paths: string[]
+}
+
+interface ReviewFormProps {
+  initial: Review | null
+  isSaving: boolean
+  onSubmit: (values: ReviewFormValues) => void
+  onCancel?: () => void
+}
+
+function todayISO(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+/** Write/edit form: stars, text, visit date, child age at the visit, photos */
+export default function ReviewForm({ initial, isSaving, onSubmit, onCancel }: ReviewFormProps) {
+  const children = useChildren()
+  const [rating, setRating] = useState(initial?.rating ?? 0)
+  const [body, setBody] = useState(initial?.body ?? '')
+  const [visitedOn, setVisitedOn] = useState(initial?.visited_on ?? '')
+  const [childAge, setChildAge] = useState<number | null>(initial?.child_age_months ?? null)
+  const [photoPaths, setPhotoPaths] = useState<string[]>(initial?.photo_paths ?? [])
+  const [uploading, setUploading] = useState(false)
+  const [uploadError, setUploadError] = useState<string | null>(null)
+
+  const handlePickChild = (birthMonth: string) => {
+    setChildAge(birthMonth ? childAgeAtVisit(birthMonth, visitedOn || null) : null)
+  }
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setUploadError(null)
+    setUploading(true)
+    try {
+      const supabase = createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('로그인이 필요합니다.')
+
+      const room = REVIEW_PHOTO_MAX - photoPaths.length
+      const uploaded: string[] = []
+      for (const [index, file] of Array.from(files).slice(0, room).entries()) {
+        const path = photoUploadPath(user.id, file.name, index)
+        const { error } = await supabase.storage.from(REVIEW_PHOTO_BUCKET).upload(path, file, {
+          contentType: file.type,
+        })
+        if (error) throw new Error('사진을 올리지 못했습니다.')
+        uploaded.push(path)
+      }
+      setPhotoPaths((prev) => [...prev, ...uploaded])
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : '사진을 올리지 못했습니다.')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (rating === 0) return
+    onSubmit({
+      rating,
+      body,
+      visited_on: visitedOn || null,
+      child_age_months: childAge,
+      photo_paths: photoPaths,
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex gap-1" role="radiogroup" aria-label="별점">
+        {[1, 2, 3, 4, 5].map((value) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={rating === value}
+            aria-label={`${value}점`}
+            onClick={() => setRating(value)}
+            className="min-w-[36px] min-h-[36px] flex items-center justify-center"
+          >
+            <Star
+              size={24}
+              className={value <= rating ? 'text-amber-400 fill-amber-400' : 'text-warm-300'}
+            />
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        maxLength={REVIEW_BODY_MAX}
+        rows={4}
+        placeholder="아이와 함께 다녀온 경험을 들려주세요"
+        className="w-full px-3 py-2 rounded-lg border border-warm-200 text-[14px] text-warm-700 resize-none"
+      />
+
+      <div className="flex gap-2">
+        <label className="flex-1 text-[12px] text-warm-500">
+          방문일
+          <input
+            type="date"
+            value={visitedOn}
+            max={todayISO()}
+            onChange={(e) => setVisitedOn(e.target.value)}
+            className="mt-1 w-full px-3 py-2 rounded-lg border border-warm-200 text-[14px] text-warm-700"
+          />
+        </label>
+        <label className="flex-1 text-[12px] text-warm-500">
+          방문 당시 아이
+          {children.length > 0 ? (
+            <select
+              defaultValue=""
+              onChange={(e) => handlePickChild(e.target.value)}
+              className="mt-1 w-full px-3 py-2 rounded-lg border border-warm-200 text-[14px] text-warm-700 bg-white"
+            >
+              <option value="">{childAge !== null ? formatAgeMonths(childAge) : '선택 안 함'}</option>
+              {children.map((child) => (
+                <option key={child.id} value={child.birth_month}>
+                  {child.nickname || '아이'}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type="number"
+              min={0}
+              max={240}
+              inputMode="numeric"
+              placeholder="개월"
+              value={childAge ?? ''}
+              onChange={(e) => setChildAge(e.target.value === '' ? null : Number(e.target.value))}
+              className="mt-1 w-full px-3 py-2 rounded-lg border border-warm-200 text-[14px] text-warm-700"
+            />
+          )}
+        </label>
+      </div>
+
+      <div className="flex gap-2 flex-wrap">
+        {photoPaths.map((path) => (
+          <div key={path} className="relative w-16 h-16">
+            <img src={reviewPhotoUrl(path)} alt="" className="w-16 h-16 rounded-lg object-cover" />
+            <button
+              type="button"
+              onClick={() => setPhotoPaths((prev) => prev.filter((p) => p !== path))}
+              className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-warm-700 text-white flex items-center justify-center"
+              aria-label="사진 빼기"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+        {photoPaths.length < REVIEW_PHOTO_MAX && (
+          <label className="w-16 h-16 rounded-lg border border-dashed border-warm-300 flex items-center justify-center text-warm-400 cursor-pointer">
+            <ImagePlus size={20} />
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              disabled={uploading}
+              onChange={(e) => handleUpload(e.target.files)}
+            />
+          </label>
+        )}
+      </div>
+      {uploadError && <p className="text-[13px] text-red-500">{uploadError}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={rating === 0 || isSaving || uploading}
+          className="flex-1 py-3 rounded-xl bg-coral-500 text-white text-[15px] font-semibold disabled:opacity-50"
+        >
+          {initial ? '수정하기' : '리뷰 남기기'}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-5 py-3 rounded-xl bg-warm-100 text-warm-600 text-[15px] font-semibold"
+          >
+            취소
+          </button>
+        )}
+      </div>
+    </form>
+  )
+}
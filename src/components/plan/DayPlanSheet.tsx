@@ -0,0 +1,242 @@
+'use client'
+
+import { useState } from 'react'
+import { Drawer } from 'vaul'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { CloudRain, Link2, X } from 'lucide-react'
+import ChildAgeChips from '@/components/ChildAgeChips'
+import DayPlanView from '@/components/plan/DayPlanView'
+import { useChildren } from '@/hooks/useChildren'
+import { ageInMonths } from '@/lib/age-range'
+import { DEFAULT_START, kstToday, type TravelMode } from '@/lib/day-plan'
+import { RAINY_DAY_POP } from '@/lib/weather'
+import type { DayPlanResponse, SavedDayPlan, WeatherResponse } from '@/types'
+
+/** The place or event the day is planned around */
+export interface DayPlanAnchor {
+  kind: 'place' | 'event'
+  id: number
+  lat: number
+  lng: number
+  /** First day to offer, e.g. an event's start date when it is in the future */
+  defaultDate?: string
+}
+
+interface DayPlanSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  anchor: DayPlanAnchor
+}
+
+class LoginRequiredError extends Error {}
+
+const MODE_LABELS: Record<TravelMode, string> = {
+  walk: '유모차 도보',
+  transit: '대중교통',
+  car: '자동차',
+}
+
+async function fetchPlan(params: URLSearchParams): Promise<DayPlanResponse> {
+  const res = await fetch(`/api/plans/build?${params}`)
+  if (!res.ok) throw new Error('일정을 만들지 못했습니다.')
+  return res.json()
+}
+
+async function fetchWeather(lat: number, lng: number): Promise<WeatherResponse> {
+  const res = await fetch(`/api/weather?lat=${lat}&lng=${lng}`)
+  if (!res.ok) throw new Error('날씨 정보를 불러오지 못했습니다.')
+  return res.json()
+}
+
+/** Bottom sheet on place / event pages: build a day around this item and save it as a shareable plan */
+export default function DayPlanSheet({ open, onOpenChange, anchor }: DayPlanSheetProps) {
+  const queryClient = useQueryClient()
+  const today = kstToday()
+  const [date, setDate] = useState(anchor.defaultDate && anchor.defaultDate > today ? anchor.defaultDate : today)
+  const [start, setStart] = useState(DEFAULT_START)
+  const [mode, setMode] = useState<TravelMode>('walk')
+  const [rainOverride, setRainOverride] = useState<boolean | null>(null)
+  const [activeChildId, setActiveChildId] = useState<number | null>(null)
+  const [copied, setCopied] = useState(false)
+  const childProfiles = useChildren()
+
+  // Today uses current conditions, later days the forecast chance of rain;
+  // days past the forecast range default to dry
+  const { data: weather } = useQuery({
+    queryKey: ['weather', anchor.lat, anchor.lng],
+    queryFn: () => fetchWeather(anchor.lat, anchor.lng),
+    enabled: open,
+    staleTime: 10 * 60_000,
+    retry: false,
+  })
+  const forecastPop = weather?.days.find((d) => d.date === date)?.pop ?? 0
+  const isRaining = rainOverride ?? (date === today ? !!weather?.isRaining : forecastPop >= RAINY_DAY_POP)
+
+  const activeChild = childProfiles.find((c) => c.id === activeChildId)
+  const childAgeMonths = activeChild ? ageInMonths(activeChild.birth_month) : null
+
+  const params = new URLSearchParams({
+    [anchor.kind === 'place' ? 'placeId' : 'eventId']: String(anchor.id),
+    date,
+    start,
+    mode,
+  })
+  if (isRaining) params.set('rain', 'true')
+  if (childAgeMonths !== null) params.set('childAgeMonths', String(childAgeMonths))
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['plan', params.toString()],
+    queryFn: () => fetchPlan(params),
+    enabled: open && !!date && !!start,
+    staleTime: 5 * 60_000,
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<SavedDayPlan> => {
+      const res = await fetch('/api/plans', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(Object.fromEntries(params)),
+      })
+      if (res.status === 401) throw new LoginRequiredError()
+      if (!res.ok) throw new Error('일정을 저장하지 못했습니다.')
+      const { plan } = await res.json()
+      return plan
+    },
+    onSuccess: async (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['plans'] })
+      const url = `${window.location.origin}/plan/${saved.share_token}`
+      const shareData = { title: saved.title, text: `${saved.title} - BabyPlace 나들이 일정`, url }
+      if (navigator.share && navigator.canShare(shareData)) {
+        try {
+          await navigator.share(shareData)
+        } catch {
+          // Aborted by user - ignore
+        }
+      } else {
+        await navigator.clipboard.writeText(url)
+        setCopied(true)
+        setTimeout(() => setCopied(false), 2000)
+      }
+    },
+  })
+
+  return (
+    <Drawer.Root open={open} onOpenChange={onOpenChange}>
+      <Drawer.Portal>
+        <Drawer.Overlay className="fixed inset-0 bg-black/40 z-40" />
+        <Drawer.Content
+          className="
+            fixed bottom-0 left-0 right-0 z-50
+            bg-warm-50 rounded-t-[20px] max-h-[90dvh]
+            flex flex-col
+            shadow-lg
+          "
+          aria-label="나들이 일정 짜기"
+        >
+          {/* Handle */}
+          <div className="flex justify-center pt-3 pb-1">
+            <div className="w-10 h-1 bg-warm-300 rounded-full" />
+          </div>
+
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 border-b border-warm-200 bg-white">
+            <Drawer.Title className="text-[17px] font-semibold text-warm-800">나들이 일정 짜기</Drawer.Title>
+            <button
+              onClick={() => onOpenChange(false)}
+              className="min-w-[36px] min-h-[36px] flex items-center justify-center text-warm-400"
+              aria-label="닫기"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={date}
+                min={today}
+                onChange={(e) => {
+                  setDate(e.target.value)
+                  setRainOverride(null)
+                }}
+                className="flex-1 px-3 py-2 rounded-lg border border-warm-200 bg-white text-[14px] text-warm-700"
+                aria-label="날짜"
+              />
+              <input
+                type="time"
+                value={start}
+                step={600}
+                onChange={(e) => setStart(e.target.value)}
+                className="w-[120px] px-3 py-2 rounded-lg border border-warm-200 bg-white text-[14px] text-warm-700"
+                aria-label="출발 시간"
+              />
+            </div>
+
+            <div className="flex gap-2 overflow-x-auto -mx-4 px-4">
+              {(Object.keys(MODE_LABELS) as TravelMode[]).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`shrink-0 h-8 px-3 rounded-full text-[13px] font-medium border ${
+                    mode === m ? 'bg-warm-700 border-warm-700 text-white' : 'bg-white border-warm-200 text-warm-600'
+                  }`}
+                  aria-pressed={mode === m}
+                >
+                  {MODE_LABELS[m]}
+                </button>
+              ))}
+              <button
+                onClick={() => setRainOverride(!isRaining)}
+                className={`shrink-0 h-8 px-3 rounded-full text-[13px] font-medium border flex items-center gap-1 ${
+                  isRaining ? 'bg-blue-50 border-blue-300 text-blue-600' : 'bg-white border-warm-200 text-warm-500'
+                }`}
+                aria-pressed={isRaining}
+              >
+                <CloudRain size={14} />
+                비
+              </button>
+            </div>
+
+            {childProfiles.length > 0 && (
+              <div className="flex gap-2 overflow-x-auto -mx-4 px-4">
+                <ChildAgeChips
+                  childProfiles={childProfiles}
+                  activeChildId={activeChildId}
+                  onChange={setActiveChildId}
+                />
+              </div>
+            )}
+
+            {isLoading && <div className="bg-white rounded-xl h-40 shadow-sm animate-pulse" />}
+            {error && <p className="py-6 text-center text-[15px] text-warm-400">{error.message}</p>}
+            {data && <DayPlanView plan={data.plan} />}
+          </div>
+
+          <div className="px-4 py-3 border-t border-warm-200 bg-white">
+            {saveMutation.error instanceof LoginRequiredError ? (
+              <p className="text-center text-[14px] text-warm-500 py-2">
+                <a href="/login" className="text-coral-500 font-semibold underline">로그인</a>하면 일정을 저장하고 공유할 수 있어요
+              </p>
+            ) : (
+              <>
+                <button
+                  onClick={() => saveMutation.mutate()}
+                  disabled={!data || saveMutation.isPending}
+                  className="w-full flex items-center justify-center gap-1.5 py-3 rounded-xl bg-coral-500 text-white text-[15px] font-semibold min-h-[48px] disabled:opacity-50 active:bg-coral-600"
+                >
+                  <Link2 size={16} />
+                  {copied ? '링크 복사됨' : '저장하고 공유하기'}
+                </button>
+                {saveMutation.error && (
+                  <p className="text-[13px] text-red-500 mt-2">{saveMutation.error.message}</p>
+                )}
+              </>
+            )}
+          </div>
+        </Drawer.Content>
+      </Drawer.Portal>
+    </Drawer.Root>
+  )
+}
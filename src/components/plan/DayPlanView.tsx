@@ -0,0 +1,109 @@
+import { AlertTriangle, Baby, Clock, Footprints } from 'lucide-react'
+import { formatAgeMonths } from '@/lib/age-range'
+import type { DayPlan, DayPlanStop } from '@/types'
+
+interface DayPlanViewProps {
+  plan: DayPlan
+}
+
+const STOP_LABELS: Record<DayPlanStop['kind'], string> = {
+  anchor: '나들이',
+  meal: '점심',
+}
+
+const FACILITY_LABELS = {
+  nursing_room: '수유실',
+  diaper_station: '기저귀교환대',
+} as const
+
+function formatDistance(meters: number): string {
+  return meters < 1000 ? `${meters}m` : `${(meters / 1000).toFixed(1)}km`
+}
+
+function formatDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number)
+  const weekday = '일월화수목금토'[new Date(Date.UTC(year, month - 1, day)).getUTCDay()]
+  return `${month}월 ${day}일 (${weekday})`
+}
+
+/** Timeline of a day plan: timed stops, nearby facilities and warnings */
+export default function DayPlanView({ plan }: DayPlanViewProps) {
+  return (
+    <div className="space-y-3">
+      <p className="text-[14px] text-warm-500">
+        {formatDate(plan.date)} · {plan.start} 출발
+        {plan.childAgeMonths !== null && ` · ${formatAgeMonths(plan.childAgeMonths)}`}
+        {plan.isRaining && ' · 🌧 비 예보'}
+      </p>
+
+      {plan.warnings.length > 0 && (
+        <ul className="bg-amber-50 rounded-xl px-3 py-2 space-y-1">
+          {plan.warnings.map((warning) => (
+            <li key={warning} className="flex items-start gap-1.5 text-[13px] text-amber-700">
+              <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+              {warning}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ol className="space-y-2">
+        {plan.stops.map((stop) => {
+          const target = stop.place ?? stop.event
+          if (!target) return null
+          const href = stop.place ? `/place/${stop.place.id}` : `/event/${target.id}`
+          return (
+            <li key={`${stop.kind}-${target.id}`}>
+              {stop.travelMinutes > 0 && (
+                <p className="flex items-center gap-1 text-[12px] text-warm-400 pl-3 pb-1">
+                  <Footprints size={12} />
+                  이동 약 {stop.travelMinutes}분 · {formatDistance(stop.distanceM)}
+                </p>
+              )}
+              <a href={href} className="flex gap-3 bg-white rounded-xl p-3 shadow-sm active:bg-warm-50">
+                <div className="shrink-0 text-center w-14">
+                  <p className="text-[15px] font-bold text-warm-700">{stop.arriveAt}</p>
+                  <p className="text-[12px] text-warm-400">~{stop.leaveAt}</p>
+                </div>
+                <div className="min-w-0">
+                  <p className="text-[12px] font-semibold text-coral-500">{STOP_LABELS[stop.kind]}</p>
+                  <p className="text-[15px] font-semibold text-warm-700 truncate">{target.name}</p>
+                  {stop.place?.road_address && (
+                    <p className="text-[12px] text-warm-400 truncate">{stop.place.road_address}</p>
+                  )}
+                  {stop.event?.venue_name && (
+                    <p className="text-[12px] text-warm-400 truncate">{stop.event.venue_name}</p>
+                  )}
+                </div>
+              </a>
+            </li>
+          )
+        })}
+      </ol>
+
+      {plan.facilities.length > 0 && (
+        <div className="bg-white rounded-xl p-3 shadow-sm">
+          <p className="flex items-center gap-1 text-[13px] font-semibold text-warm-600 mb-2">
+            <Baby size={14} />
+            가까운 편의시설
+          </p>
+          <ul className="space-y-1.5">
+            {plan.facilities.map((facility) => (
+              <li key={facility.kind}>
+                <a href={`/place/${facility.place.id}`} className="flex items-center justify-between gap-2 text-[14px]">
+                  <span className="min-w-0 truncate text-warm-700">
+                    <span className="text-warm-400">{FACILITY_LABELS[facility.kind]}</span> {facility.place.name}
+                  </span>
+                  <span className="shrink-0 flex items-center gap-1 text-[12px] text-warm-400">
+                    <Clock size={12} />
+                    {facility.travelMinutes}분 · {formatDistance(facility.distanceM)}
+                  </span>
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Trash2 } from 'lucide-react'
+import type { SavedDayPlan } from '@/types'
+
+async function fetchPlans(): Promise<SavedDayPlan[]> {
+  const res = await fetch('/api/plans')
+  if (!res.ok) throw new Error('일정을 불러오지 못했습니다.')
+  const { plans } = await res.json()
+  return plans
+}
+
+/** 나들이 일정 section on the profile page: saved day plans with their share links */
+export default function SavedPlansList() {
+  const queryClient = useQueryClient()
+
+  const { data: plans = [] } = useQuery({
+    queryKey: ['plans'],
+    queryFn: fetchPlans,
+    staleTime: 5 * 60_000,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(`/api/plans/${id}`, { method: 'DELETE' })
+      if (!res.ok) throw new Error('일정을 삭제하지 못했습니다.')
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['plans'] }),
+  })
+
+  if (plans.length === 0) return null
+
+  return (
+    <div className="bg-white rounded-xl p-4 mb-4">
+      <label className="text-[15px] font-semibold text-warm-700 block mb-3">
+        나들이 일정
+      </label>
+      <ul className="space-y-2">
+        {plans.map((plan) => (
+          <li key={plan.id} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-warm-50">
+            <a href={`/plan/${plan.share_token}`} className="flex-1 min-w-0">
+              <p className="text-[15px] font-medium text-warm-700 truncate">{plan.title}</p>
+              <p className="text-[12px] text-warm-400">
+                {plan.plan_date} · {plan.plan.stops.length}곳
+              </p>
+            </a>
+            <button
+              onClick={() => {
+                if (confirm(`'${plan.title}' 일정을 삭제할까요? 공유 링크도 사라져요.`)) deleteMutation.mutate(plan.id)
+              }}
+              disabled={deleteMutation.isPending}
+              className="min-w-[36px] min-h-[36px] flex items-center justify-center text-warm-300 hover:text-red-400 disabled:opacity-50"
+              aria-label="일정 삭제"
+            >
+              <Trash2 size={16} />
+            </button>
+          </li>
+        ))}
+      </ul>
+      {deleteMutation.error && <p className="text-[13px] text-red-500 mt-2">{deleteMutation.error.message}</p>}
+    </div>
+  )
+}
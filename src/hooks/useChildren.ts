@@ -0,0 +1,21 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import type { Child } from '@/types'
+
+/** Registered children of the signed-in user; empty when signed out */
+export function useChildren(): Child[] {
+  const { data } = useQuery({
+    queryKey: ['children'],
+    queryFn: async () => {
+      const res = await fetch('/api/children')
+      if (!res.ok) return []
+      const { children } = await res.json()
+      return children as Child[]
+    },
+    staleTime: 5 * 60_000,
+    retry: false,
+  })
+
+  return data ?? []
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseAgeRange,
+  parseTitleAgeRange,
+  ageRangeIncludes,
+  boostByChildAge,
+  ageInMonths,
+  formatAgeMonths,
+  parseChildAgeParam,
+} from './age-range'
+
+describe('parseAgeRange', () => {
+  it('returns null for empty or unrelated text', () => {
+    expect(parseAgeRange(null)).toBeNull()
+    expect(parseAgeRange('')).toBeNull()
+    expect(parseAgeRange('현장 문의')).toBeNull()
+  })
+
+  it('parses month lower bounds', () => {
+    expect(parseAgeRange('24개월 이상')).toEqual({ minMonths: 24, maxMonths: null })
+    expect(parseAgeRange('36개월부터')).toEqual({ minMonths: 36, maxMonths: null })
+  })
+
+  it('treats 미만 as exclusive and 이하 as inclusive of the whole year', () => {
+    expect(parseAgeRange('36개월 미만')).toEqual({ minMonths: 0, maxMonths: 35 })
+    expect(parseAgeRange('7세 미만')).toEqual({ minMonths: 0, maxMonths: 83 })
+    expect(parseAgeRange('7세 이하')).toEqual({ minMonths: 0, maxMonths: 95 })
+  })
+
+  it('parses year ranges with and without the first unit', () => {
+    expect(parseAgeRange('5세~7세')).toEqual({ minMonths: 60, maxMonths: 95 })
+    expect(parseAgeRange('5~7세')).toEqual({ minMonths: 60, maxMonths: 95 })
+    expect(parseAgeRange('만 3세 - 만 5세')).toEqual({ minMonths: 36, maxMonths: 71 })
+  })
+
+  it('parses mixed month/year ranges', () => {
+    expect(parseAgeRange('24개월~7세')).toEqual({ minMonths: 24, maxMonths: 95 })
+    expect(parseAgeRange('18~36개월')).toEqual({ minMonths: 18, maxMonths: 36 })
+  })
+
+  it('reads 만 N세 이상 and a bare age', () => {
+    expect(parseAgeRange('만 3세 이상')).toEqual({ minMonths: 36, maxMonths: null })
+    expect(parseAgeRange('5세')).toEqual({ minMonths: 60, maxMonths: 71 })
+  })
+
+  it('maps school stages and grades', () => {
+    expect(parseAgeRange('초등학생')).toEqual({ minMonths: 72, maxMonths: 155 })
+    expect(parseAgeRange('초등 1~3학년')).toEqual({ minMonths: 72, maxMonths: 119 })
+    expect(parseAgeRange('초등학교 4학년')).toEqual({ minMonths: 108, maxMonths: 131 })
+    expect(parseAgeRange('초등 고학년')).toEqual({ minMonths: 108, maxMonths: 155 })
+    expect(parseAgeRange('초등학생 이상')).toEqual({ minMonths: 72, maxMonths: null })
+    expect(parseAgeRange('중학생')).toEqual({ minMonths: 144, maxMonths: 191 })
+  })
+
+  it('maps infant keywords', () => {
+    expect(parseAgeRange('영아')).toEqual({ minMonths: 0, maxMonths: 35 })
+    expect(parseAgeRange('영유아 동반 가족')).toEqual({ minMonths: 0, maxMonths: 83 })
+    expect(parseAgeRange('미취학 아동')).toEqual({ minMonths: 0, maxMonths: 83 })
+  })
+
+  it('treats all-ages wording as unbounded', () => {
+    expect(parseAgeRange('전체관람가')).toEqual({ minMonths: 0, maxMonths: null })
+    expect(parseAgeRange('누구나')).toEqual({ minMonths: 0, maxMonths: null })
+    expect(parseAgeRange('누구나 (단, 미취학 아동은 보호자 동반)')).toEqual({ minMonths: 0, maxMonths: null })
+  })
+
+  it('bounds by 성인/어른 only when adults are the sole audience', () => {
+    expect(parseAgeRange('성인')).toEqual({ minMonths: 228, maxMonths: null })
+    expect(parseAgeRange('어린이 및 성인')).toBeNull()
+    expect(parseAgeRange('성인 보호자 동반 필수')).toBeNull()
+    expect(parseAgeRange('어른과 아이가 함께하는 숲 체험')).toBeNull()
+    expect(parseAgeRange('엄마 아빠와 함께하는 성인 요가')).toBeNull()
+    expect(parseAgeRange('초등학생 및 성인')).toEqual({ minMonths: 72, maxMonths: 155 })
+  })
+
+  it('ignores who needs a guardian', () => {
+    expect(parseAgeRange('5세 이상 (미취학 아동은 보호자 동반)')).toEqual({ minMonths: 60, maxMonths: null })
+  })
+
+  it('prefers explicit ages over stage keywords', () => {
+    expect(parseAgeRange('유아(4~7세)')).toEqual({ minMonths: 48, maxMonths: 95 })
+    expect(parseAgeRange('3~7세 유아')).toEqual({ minMonths: 36, maxMonths: 95 })
+    expect(parseAgeRange('영유아(24개월~7세)')).toEqual({ minMonths: 24, maxMonths: 95 })
+    expect(parseAgeRange('초등학생(8~13세)')).toEqual({ minMonths: 96, maxMonths: 167 })
+    expect(ageRangeIncludes(parseAgeRange('유아(4~7세)')!, 14)).toBe(false)
+  })
+
+  it('widens to the union of several mentions', () => {
+    expect(parseAgeRange('유아 및 초등학생')).toEqual({ minMonths: 0, maxMonths: 155 })
+    expect(parseAgeRange('36개월 이상 ~ 초등학생')).toEqual({ minMonths: 36, maxMonths: null })
+  })
+})
+
+describe('parseTitleAgeRange', () => {
+  it('reads explicit ages only', () => {
+    expect(parseTitleAgeRange('[24개월 이상] 오감놀이')).toEqual({ minMonths: 24, maxMonths: null })
+    expect(parseTitleAgeRange('5~7세 숲 놀이')).toEqual({ minMonths: 60, maxMonths: 95 })
+    expect(parseTitleAgeRange('엄마 아빠와 함께하는 성인 요가')).toBeNull()
+    expect(parseTitleAgeRange('초등 과학교실')).toBeNull()
+    expect(parseTitleAgeRange('100세 시대 건강 강좌')).toBeNull()
+    expect(parseTitleAgeRange(null)).toBeNull()
+  })
+})
+
+describe('ageRangeIncludes', () => {
+  it('respects inclusive bounds', () => {
+    expect(ageRangeIncludes({ minMonths: 24, maxMonths: 47 }, 24)).toBe(true)
+    expect(ageRangeIncludes({ minMonths: 24, maxMonths: 47 }, 47)).toBe(true)
+    expect(ageRangeIncludes({ minMonths: 24, maxMonths: 47 }, 14)).toBe(false)
+    expect(ageRangeIncludes({ minMonths: 24, maxMonths: 47 }, 48)).toBe(false)
+  })
+
+  it('never excludes on unknown bounds', () => {
+    expect(ageRangeIncludes({ minMonths: null, maxMonths: null }, 14)).toBe(true)
+    expect(ageRangeIncludes({ minMonths: 72, maxMonths: null }, 14)).toBe(false)
+  })
+})
+
+describe('boostByChildAge', () => {
+  const row = (id: number, min: number | null, max: number | null) => ({
+    id,
+    age_min_months: min,
+    age_max_months: max,
+  })
+
+  it('moves age-targeted matches first and keeps order otherwise', () => {
+    const rows = [row(1, null, null), row(2, 0, null), row(3, 12, 35), row(4, null, null), row(5, 0, 23)]
+    expect(boostByChildAge(rows, 14).map((r) => r.id)).toEqual([3, 5, 1, 2, 4])
+  })
+})
+
+describe('ageInMonths', () => {
+  const today = new Date(2026, 9, 19) // 2026-10-19
+
+  it('counts whole months from the birth month', () => {
+    expect(ageInMonths('2025-08', today)).toBe(14)
+    expect(ageInMonths('2025-08-01', today)).toBe(14)
+    expect(ageInMonths('2026-10', today)).toBe(0)
+  })
+
+  it('rejects future or malformed input', () => {
+    expect(ageInMonths('2026-11', today)).toBeNull()
+    expect(ageInMonths('08/2025', today)).toBeNull()
+  })
+})
+
+describe('formatAgeMonths', () => {
+  it('uses months under two and years after', () => {
+    expect(formatAgeMonths(14)).toBe('14개월')
+    expect(formatAgeMonths(36)).toBe('3세')
+    expect(formatAgeMonths(40)).toBe('3세 4개월')
+  })
+})
+
+describe('parseChildAgeParam', () => {
+  it('accepts integer months in range', () => {
+    expect(parseChildAgeParam('14')).toBe(14)
+    expect(parseChildAgeParam('0')).toBe(0)
+  })
+
+  it('ignores missing or invalid values', () => {
+    expect(parseChildAgeParam(null)).toBeNull()
+    expect(parseChildAgeParam('')).toBeNull()
+    expect(parseChildAgeParam('1.5')).toBeNull()
+    expect(parseChildAgeParam('-1')).toBeNull()
+    expect(parseChildAgeParam('abc')).toBeNull()
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * Age-in-months model shared by collectors, /api/events, /api/places and the UI.
+ *
+ * Source age text is free-form Korean ("24개월 이상", "5세~7세", "만 3세 이상",
+ * "초등 1~3학년", "전체관람가"). parseAgeRange normalizes it to an inclusive
+ * month range; null bounds mean "no limit on that side".
+ *
+ * 세/살 are read as 만 나이 (the legal default since 2023): "7세 이하" includes
+ * a child of 7 years 11 months.
+ */
+
+export interface AgeRangeMonths {
+  minMonths: number | null
+  maxMonths: number | null
+}
+
+type AgeUnit = '개월' | '세' | '살'
+
+interface Bound {
+  min: number | null
+  max: number | null
+}
+
+/** School stages by 만 나이 (초등 1학년 = 만 6~7세) */
+const STAGE_RANGES: Array<[RegExp, Bound]> = [
+  [/영유아/, { min: 0, max: 83 }],
+  [/영아/, { min: 0, max: 35 }],
+  [/미취학|유아/, { min: 0, max: 83 }],
+  [/초등\S*\s*저학년/, { min: 72, max: 119 }],
+  [/초등\S*\s*고학년/, { min: 108, max: 155 }],
+  [/초등/, { min: 72, max: 155 }],
+  [/중학/, { min: 144, max: 191 }],
+  [/고등/, { min: 180, max: 227 }],
+  [/청소년/, { min: 108, max: 227 }],
+]
+
+/**
+ * 성인/어른 bounds the range only when adults are the whole audience.
+ * "성인 보호자 동반", "어른과 아이가 함께하는" and "어린이 및 성인" are
+ * children's events that mention the accompanying adult.
+ */
+const ADULT_PATTERN = /성인|어른/
+const ADULT_BOUND: Bound = { min: 228, max: null }
+const WITH_CHILDREN_PATTERN = /보호자|동반|함께|같이|엄마|아빠|부모|가족|아이|어린이|아동|자녀|키즈/
+
+/** "(단, 미취학 아동은 보호자 동반)" — who needs a guardian, not who may attend */
+const GUARDIAN_NOTE_PATTERN = /\([^()]*보호자[^()]*\)|단\s*[,:]?[^,()]*보호자[^,()]*/g
+
+const ALL_AGES_PATTERN = /전체|누구나|전연령|연령\s*무관|제한\s*없음|가족/
+
+const RANGE_PATTERN = /(\d{1,2})\s*(개월|세|살)?\s*[~∼〜\-–]\s*(?:만\s*)?(\d{1,2})\s*(개월|세|살)/g
+const SINGLE_PATTERN = /(\d{1,2})\s*(개월|세|살)\s*(이상|부터|미만|이하|까지)?/g
+const GRADE_PATTERN = /초등\S*\s*(\d)\s*(?:[~∼〜\-–]\s*(\d))?\s*학년/
+/** Explicit "N세" / "N개월" mentions, with a range or qualifier when present */
+const EXPLICIT_AGE_PATTERN =
+  /(?<!\d)\d{1,2}\s*(?:개월|세|살)?\s*[~∼〜\-–]\s*(?:만\s*)?\d{1,2}\s*(?:개월|세|살)|(?<!\d)\d{1,2}\s*(?:개월|세|살)(?:\s*(?:이상|부터|미만|이하|까지))?/g
+
+function lowerMonths(value: number, unit: AgeUnit): number {
+  return unit === '개월' ? value : value * 12
+}
+
+function upperMonths(value: number, unit: AgeUnit): number {
+  return unit === '개월' ? value : value * 12 + 11
+}
+
+/**
+ * Parse a free-text age restriction into months.
+ * Returns null when nothing age-like is recognized.
+ */
+export function parseAgeRange(text: string | null | undefined): AgeRangeMonths | null {
+  if (!text) return null
+  let rest = text.replace(/\s+/g, ' ').replace(GUARDIAN_NOTE_PATTERN, ' ').trim()
+  if (!rest) return null
+
+  const bounds: Bound[] = []
+
+  // 1. Explicit ranges: "5세~7세", "24~48개월", "24개월~7세"
+  rest = rest.replace(RANGE_PATTERN, (_m, a: string, unitA: AgeUnit | undefined, b: string, unitB: AgeUnit) => {
+    bounds.push({ min: lowerMonths(Number(a), unitA ?? unitB), max: upperMonths(Number(b), unitB) })
+    return ' '
+  })
+
+  // 2. Grades: "초등 1~3학년"
+  const grade = rest.match(GRADE_PATTERN)
+  if (grade) {
+    const from = Number(grade[1])
+    const to = grade[2] ? Number(grade[2]) : from
+    bounds.push({ min: (from + 5) * 12, max: (to + 6) * 12 + 11 })
+    rest = rest.replace(GRADE_PATTERN, ' ')
+  }
+
+  // 3. Single ages with an optional qualifier: "24개월 이상", "7세 미만", "5세"
+  rest = rest.replace(SINGLE_PATTERN, (_m, v: string, unit: AgeUnit, qualifier: string | undefined) => {
+    const value = Number(v)
+    if (qualifier === '이상' || qualifier === '부터') {
+      bounds.push({ min: lowerMonths(value, unit), max: null })
+    } else if (qualifier === '미만') {
+      bounds.push({ min: 0, max: lowerMonths(value, unit) - 1 })
+    } else if (qualifier === '이하' || qualifier === '까지') {
+      bounds.push({ min: 0, max: upperMonths(value, unit) })
+    } else {
+      bounds.push({ min: lowerMonths(value, unit), max: upperMonths(value, unit) })
+    }
+    return ' '
+  })
+
+  // 4. Stage keywords: "초등학생", "영유아", "청소년"; "초등학생 이상" drops the upper bound.
+  // Only without explicit ages: "유아(4~7세)" is 4~7세, not every 유아
+  if (bounds.length === 0) {
+    for (const [pattern, range] of STAGE_RANGES) {
+      const match = rest.match(new RegExp(pattern.source + '\\S*(\\s*이상)?'))
+      if (!match) continue
+      bounds.push({ min: range.min, max: match[1] ? null : range.max })
+      rest = rest.replace(match[0], ' ')
+    }
+  }
+
+  // 5. 성인/어른, only as the sole audience
+  if (bounds.length === 0 && ADULT_PATTERN.test(rest) && !WITH_CHILDREN_PATTERN.test(rest)) {
+    bounds.push(ADULT_BOUND)
+  }
+
+  if (bounds.length === 0) {
+    return ALL_AGES_PATTERN.test(text) ? { minMonths: 0, maxMonths: null } : null
+  }
+
+  // Several mentions ("유아 및 초등학생") widen the range
+  const minMonths = Math.min(...bounds.map((b) => b.min ?? 0))
+  const maxMonths = bounds.some((b) => b.max === null) ? null : Math.max(...bounds.map((b) => b.max!))
+  return { minMonths, maxMonths: maxMonths !== null && maxMonths < minMonths ? null : maxMonths }
+}
+
+/**
+ * Age range from a title ("[24개월 이상] 오감놀이"), reading only explicit
+ * N세/N개월 mentions. Stage words in titles ("초등 과학교실", "성인 요가")
+ * describe the theme as often as the audience.
+ */
+export function parseTitleAgeRange(title: string | null | undefined): AgeRangeMonths | null {
+  const mentions = title?.match(EXPLICIT_AGE_PATTERN)
+  return mentions ? parseAgeRange(mentions.join(' ')) : null
+}
+
+/** True when a child of `months` fits the range; unknown bounds never exclude */
+export function ageRangeIncludes(
+  range: { minMonths: number | null; maxMonths: number | null },
+  months: number
+): boolean {
+  if (range.minMonths !== null && months < range.minMonths) return false
+  if (range.maxMonths !== null && months > range.maxMonths) return false
+  return true
+}
+
+/**
+ * Stable reorder for a childAgeMonths boost: rows with an age-targeted range
+ * that includes the child come first; all-ages and unknown rows keep their
+ * order after them.
+ * Rows that exclude the child are expected to be filtered out already.
+ */
+export function boostByChildAge<T extends { age_min_months: number | null; age_max_months: number | null }>(
+  rows: T[],
+  months: number
+): T[] {
+  const targeted = (row: T) =>
+    ((row.age_min_months ?? 0) > 0 || row.age_max_months !== null) &&
+    ageRangeIncludes({ minMonths: row.age_min_months, maxMonths: row.age_max_months }, months)
+  return [...rows.filter(targeted), ...rows.filter((row) => !targeted(row))]
+}
+
+/**
+ * Age in whole months from a birth month ("YYYY-MM" or "YYYY-MM-DD").
+ * Returns null for an unparseable or future birth month.
+ */
+export function ageInMonths(birthMonth: string, today: Date = new Date()): number | null {
+  const match = birthMonth.match(/^(\d{4})-(\d{2})/)
+  if (!match) return null
+  const months = (today.getFullYear() - Number(match[1])) * 12 + (today.getMonth() + 1 - Number(match[2]))
+  return months >= 0 ? months : null
+}
+
+/** 14 → "14개월", 40 → "3세 4개월" */
+export function formatAgeMonths(months: number): string {
+  if (months < 24) return `${months}개월`
+  const years = Math.floor(months / 12)
+  const rest = months % 12
+  return rest > 0 ? `${years}세 ${rest}개월` : `${years}세`
+}
+
+/** Parse a childAgeMonths query param; null when absent or out of range */
+export function parseChildAgeParam(raw: string | null): number | null {
+  if (raw === null || raw.trim() === '') return null
+  const months = Number(raw)
+  if (!Number.isInteger(months) || months < 0 || months > 240) return null
+  return months
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseAmenityText,
+  parseTourIntroAmenities,
+  mergeAmenities,
+  amenityLabel,
+  parseAmenitiesParam,
+  amenityContainment,
+} from './amenities'
+
+const AT = '2026-03-01T00:00:00.000Z'
+
+describe('parseAmenityText', () => {
+  it('returns nothing for empty input', () => {
+    expect(parseAmenityText(null, 'babygo', AT)).toEqual({})
+    expect(parseAmenityText('', 'babygo', AT)).toEqual({})
+  })
+
+  it('reads BabyGo amenity lists with variants', () => {
+    const amenities = parseAmenityText('가족수유실, 남자화장실 기저귀교환대, 아기의자, 주차 무료', 'babygo', AT)
+    expect(amenities.nursing_room).toEqual({
+      present: true,
+      detail: null,
+      source: 'babygo',
+      confirmed_at: AT,
+      kinds: ['family'],
+    })
+    expect(amenities.changing_table).toMatchObject({ present: true, locations: ['mens_restroom'], detail: '남자화장실 기저귀교환대' })
+    expect(amenities.baby_chair?.present).toBe(true)
+    expect(amenities.parking).toMatchObject({ present: true, fee: 'free' })
+  })
+
+  it('maps legacy FacilityTag lists', () => {
+    const amenities = parseAmenityText(['수유실', '유모차접근', '엘리베이터', '예스키즈존'], 'kakao', AT)
+    expect(Object.keys(amenities).sort()).toEqual(['elevator', 'nursing_room', 'step_free_entrance'])
+  })
+
+  it('records explicit absence and rental separately from access', () => {
+    const amenities = parseAmenityText('유모차 대여 가능 / 엘리베이터 없음 / 수유실 직원 상주', 'babygo', AT)
+    expect(amenities.stroller_rental?.present).toBe(true)
+    expect(amenities.step_free_entrance).toBeUndefined()
+    expect(amenities.elevator?.present).toBe(false)
+    expect(amenities.nursing_room?.kinds).toEqual(['staffed'])
+  })
+})
+
+describe('parseTourIntroAmenities', () => {
+  it('reads stroller and parking answers', () => {
+    const amenities = parseTourIntroAmenities({ stroller: '가능', parking: '가능(50대)', parkingFee: '2,000원' }, AT)
+    expect(amenities.stroller_rental).toEqual({ present: true, detail: null, source: 'tour_api', confirmed_at: AT })
+    expect(amenities.parking).toMatchObject({ present: true, fee: 'paid', detail: '가능(50대) / 요금: 2,000원' })
+  })
+
+  it('treats 불가 / 없음 as absent and skips empty fields', () => {
+    const amenities = parseTourIntroAmenities({ stroller: '불가', parking: '없음' }, AT)
+    expect(amenities.stroller_rental?.present).toBe(false)
+    expect(amenities.parking).toMatchObject({ present: false })
+    expect(amenities.parking?.fee).toBeUndefined()
+    expect(parseTourIntroAmenities({}, AT)).toEqual({})
+  })
+})
+
+describe('mergeAmenities', () => {
+  const obs = (source: string, confirmed_at: string, present = true) => ({ present, detail: null, source, confirmed_at })
+
+  it('keeps the most recent confirmation per amenity', () => {
+    const merged = mergeAmenities(
+      { parking: obs('kakao', '2026-01-01'), elevator: obs('kakao', '2026-01-01') },
+      { parking: obs('tour_api', '2026-02-01', false) }
+    )
+    expect(merged.parking?.source).toBe('tour_api')
+    expect(merged.elevator?.source).toBe('kakao')
+  })
+
+  it('lets admin entries win regardless of recency', () => {
+    const merged = mergeAmenities({ baby_chair: obs('admin', '2025-01-01') }, { baby_chair: obs('babygo', '2026-01-01') })
+    expect(merged.baby_chair?.source).toBe('admin')
+  })
+})
+
+describe('amenityLabel', () => {
+  it('names the most useful variant', () => {
+    const amenities = parseAmenityText('가족수유실, 무료주차, 남성화장실 교환대', 'babygo', AT)
+    expect(amenityLabel('nursing_room', amenities)).toBe('가족수유실')
+    expect(amenityLabel('parking', amenities)).toBe('무료주차')
+    expect(amenityLabel('changing_table', amenities)).toBe('남성화장실 교환대')
+    expect(amenityLabel('elevator', amenities)).toBe('엘리베이터')
+  })
+})
+
+describe('amenity filters', () => {
+  it('parses known filter values only', () => {
+    expect(parseAmenitiesParam('nursing_room:family, parking,wifi')).toEqual(['nursing_room:family', 'parking'])
+    expect(parseAmenitiesParam(null)).toEqual([])
+  })
+
+  it('builds one containment object for all filters', () => {
+    expect(amenityContainment(['nursing_room', 'nursing_room:staffed', 'parking:free', 'elevator'])).toEqual({
+      nursing_room: { present: true, kinds: ['staffed'] },
+      parking: { present: true, fee: 'free' },
+      elevator: { present: true },
+    })
+  })
+})
@@ -0,0 +1,280 @@
+/**
+ * Structured baby amenities shared by collectors, /api/places and the UI.
+ *
+ * places.tags used to collapse everything into eight FacilityTag strings
+ * ("수유실", "주차", ...), dropping the detail sources actually give us:
+ *
+ *   Tour API detailIntro2  chkbabycarriage "유모차대여 가능(무료)", parking "가능(50대)", parkingfee "무료"
+ *   BabyGo amenities       "가족수유실, 남자화장실 기저귀교환대, 아기의자"
+ *
+ * places.amenities keeps one entry per amenity with presence, the source
+ * wording, which source reported it and when it was last confirmed. Tags keep
+ * the labels that aren't amenities (예스키즈존, 체험연령:...).
+ *
+ * Filters use JSONB containment (amenities @> {...}), so they run in SQL and
+ * keep the keyset cursor valid. Multiple filters are ANDed.
+ */
+
+export type AmenityKey =
+  | 'nursing_room'
+  | 'changing_table'
+  | 'stroller_rental'
+  | 'elevator'
+  | 'step_free_entrance'
+  | 'parking'
+  | 'baby_chair'
+
+export type NursingRoomKind = 'single' | 'family' | 'staffed'
+export type ChangingTableLocation = 'womens_restroom' | 'mens_restroom' | 'family_restroom' | 'nursing_room'
+export type ParkingFee = 'free' | 'paid'
+
+export interface AmenityObservation {
+  /** false = a source said explicitly that there is none */
+  present: boolean
+  /** Source wording when it says more than the amenity name, e.g. "주차 가능(50대)" */
+  detail?: string | null
+  /** places.source vocabulary (kakao, tour_api, babygo, ...) or user_confirmation */
+  source: string
+  /** ISO timestamp of the last time a source or user confirmed it */
+  confirmed_at: string
+}
+
+export interface PlaceAmenities {
+  nursing_room?: AmenityObservation & { kinds?: NursingRoomKind[] }
+  changing_table?: AmenityObservation & { locations?: ChangingTableLocation[] }
+  stroller_rental?: AmenityObservation
+  elevator?: AmenityObservation
+  step_free_entrance?: AmenityObservation
+  parking?: AmenityObservation & { fee?: ParkingFee }
+  baby_chair?: AmenityObservation
+}
+
+/** Display order */
+export const AMENITY_KEYS: AmenityKey[] = [
+  'nursing_room',
+  'changing_table',
+  'stroller_rental',
+  'elevator',
+  'step_free_entrance',
+  'parking',
+  'baby_chair',
+]
+
+export const AMENITY_LABELS: Record<AmenityKey, string> = {
+  nursing_room: '수유실',
+  changing_table: '기저귀교환대',
+  stroller_rental: '유모차대여',
+  elevator: '엘리베이터',
+  step_free_entrance: '무단차 출입',
+  parking: '주차',
+  baby_chair: '아기의자',
+}
+
+/** Legacy FacilityTag → amenity it now lives in (see migration 00078 backfill) */
+export const TAG_AMENITIES: Record<string, AmenityKey> = {
+  수유실: 'nursing_room',
+  기저귀교환대: 'changing_table',
+  남성화장실교환대: 'changing_table',
+  유모차접근: 'step_free_entrance',
+  아기의자: 'baby_chair',
+  주차: 'parking',
+  엘리베이터: 'elevator',
+}
+
+const NEGATIVE = /없음|없습니다|불가|미운영|X\s*$/
+
+const AMENITY_PATTERNS: [AmenityKey, RegExp][] = [
+  ['changing_table', /기저귀|교환대/],
+  ['nursing_room', /수유/],
+  ['stroller_rental', /유모차\s*(?:대여|대출|무료\s*대여)/],
+  ['step_free_entrance', /경사로|무단차|턱\s*없|휠체어|유모차\s*(?:접근|진입|이동)/],
+  ['elevator', /엘리베이터|엘레베이터|승강기/],
+  ['parking', /주차/],
+  ['baby_chair', /아기\s*의자|유아\s*의자|유아용\s*의자|하이\s*체어|베이비\s*체어/],
+]
+
+function cleanText(text: string): string {
+  return text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/[ \t]+/g, ' ')
+    .trim()
+}
+
+/** Bare names ("가족수유실", "주차") carry no detail worth showing */
+function detailOf(segment: string): string | null {
+  return /[\s(:]/.test(segment) ? segment : null
+}
+
+function observe(segment: string, source: string, confirmedAt: string): AmenityObservation {
+  return { present: !NEGATIVE.test(segment), detail: detailOf(segment), source, confirmed_at: confirmedAt }
+}
+
+function parkingFee(text: string): ParkingFee | undefined {
+  if (/무료/.test(text)) return 'free'
+  if (/유료|\d[\d,]*\s*원/.test(text)) return 'paid'
+  return undefined
+}
+
+/**
+ * Read amenity mentions from free text or a tag list, one mention per
+ * comma / slash / line ("가족수유실, 남자화장실 기저귀교환대, 주차 무료").
+ */
+export function parseAmenityText(
+  text: string | string[] | null | undefined,
+  source: string,
+  confirmedAt: string
+): PlaceAmenities {
+  const amenities: PlaceAmenities = {}
+  if (!text) return amenities
+  const segments = (Array.isArray(text) ? text : [text])
+    .flatMap((t) => cleanText(t).split(/[,/·\n]/))
+    .map((s) => s.trim())
+    .filter(Boolean)
+
+  for (const segment of segments) {
+    for (const [key, pattern] of AMENITY_PATTERNS) {
+      if (!pattern.test(segment)) continue
+      const obs = observe(segment, source, confirmedAt)
+
+      if (key === 'nursing_room') {
+        const kinds: NursingRoomKind[] = []
+        if (/1인|개인|독립/.test(segment)) kinds.push('single')
+        if (/가족/.test(segment)) kinds.push('family')
+        if (/상주|직원|간호/.test(segment)) kinds.push('staffed')
+        amenities.nursing_room = { ...obs, ...(kinds.length > 0 && { kinds }) }
+      } else if (key === 'changing_table') {
+        const locations: ChangingTableLocation[] = []
+        if (/여자|여성/.test(segment)) locations.push('womens_restroom')
+        if (/남자|남성/.test(segment)) locations.push('mens_restroom')
+        if (/가족\s*화장실/.test(segment)) locations.push('family_restroom')
+        if (/수유실/.test(segment)) locations.push('nursing_room')
+        const previous = amenities.changing_table?.locations ?? []
+        const merged = [...new Set([...previous, ...locations])]
+        amenities.changing_table = { ...obs, ...(merged.length > 0 && { locations: merged }) }
+      } else if (key === 'parking') {
+        const fee = parkingFee(segment)
+        amenities.parking = { ...obs, ...(fee && { fee }) }
+      } else {
+        amenities[key] = obs
+      }
+    }
+  }
+  return amenities
+}
+
+/**
+ * Tour API detailIntro2 answers per field without naming the amenity
+ * (chkbabycarriage "가능", parking "있음(30대)", parkingfee "2,000원").
+ */
+export function parseTourIntroAmenities(
+  intro: { stroller?: string | null; parking?: string | null; parkingFee?: string | null },
+  confirmedAt: string
+): PlaceAmenities {
+  const amenities: PlaceAmenities = {}
+  const stroller = intro.stroller ? cleanText(intro.stroller) : ''
+  const parking = intro.parking ? cleanText(intro.parking) : ''
+  const fee = intro.parkingFee ? cleanText(intro.parkingFee) : ''
+
+  if (stroller) amenities.stroller_rental = observe(stroller, 'tour_api', confirmedAt)
+  if (parking || fee) {
+    const present = parking ? !NEGATIVE.test(parking) : true
+    const parkingFeeKind = present ? parkingFee(fee || parking) : undefined
+    amenities.parking = {
+      present,
+      detail: [parking, fee && `요금: ${fee}`].filter(Boolean).join(' / ') || null,
+      source: 'tour_api',
+      confirmed_at: confirmedAt,
+      ...(parkingFeeKind && { fee: parkingFeeKind }),
+    }
+  }
+  return amenities
+}
+
+/**
+ * Combine observations per amenity: admin entries win, then the most
+ * recently confirmed one. Earlier arguments win ties.
+ */
+export function mergeAmenities(...sets: (PlaceAmenities | null | undefined)[]): PlaceAmenities {
+  const merged: Record<string, AmenityObservation> = {}
+  for (const set of sets) {
+    if (!set) continue
+    for (const key of AMENITY_KEYS) {
+      const next = set[key]
+      if (!next) continue
+      const current = merged[key]
+      if (
+        !current ||
+        (next.source === 'admin' && current.source !== 'admin') ||
+        ((next.source === 'admin') === (current.source === 'admin') && next.confirmed_at > current.confirmed_at)
+      ) {
+        merged[key] = next
+      }
+    }
+  }
+  return merged as PlaceAmenities
+}
+
+/** Short label with the variant that matters most ("가족수유실", "무료주차") */
+export function amenityLabel(key: AmenityKey, amenities: PlaceAmenities): string {
+  if (key === 'nursing_room') {
+    const kinds = amenities.nursing_room?.kinds ?? []
+    if (kinds.includes('family')) return '가족수유실'
+    if (kinds.includes('staffed')) return '수유실(직원상주)'
+    if (kinds.includes('single')) return '1인 수유실'
+  }
+  if (key === 'changing_table' && amenities.changing_table?.locations?.includes('mens_restroom')) {
+    return '남성화장실 교환대'
+  }
+  if (key === 'parking') {
+    if (amenities.parking?.fee === 'free') return '무료주차'
+    if (amenities.parking?.fee === 'paid') return '유료주차'
+  }
+  return AMENITY_LABELS[key]
+}
+
+// ─── Filters ──────────────────────────────────────────────────────────────────
+
+/** `amenities` query param values: an amenity, or amenity:variant */
+export type AmenityFilter =
+  | AmenityKey
+  | 'nursing_room:family'
+  | 'nursing_room:staffed'
+  | 'changing_table:mens_restroom'
+  | 'parking:free'
+
+const FILTER_VALUES = new Set<string>([
+  ...AMENITY_KEYS,
+  'nursing_room:family',
+  'nursing_room:staffed',
+  'changing_table:mens_restroom',
+  'parking:free',
+])
+
+/** "nursing_room:family,parking" → valid filters; unknown values are ignored */
+export function parseAmenitiesParam(raw: string | null): AmenityFilter[] {
+  if (!raw) return []
+  return raw
+    .split(',')
+    .map((v) => v.trim())
+    .filter((v): v is AmenityFilter => FILTER_VALUES.has(v))
+}
+
+/**
+ * JSONB object for `amenities @> ...` matching every filter, e.g.
+ * ['nursing_room:family', 'parking'] →
+ * { nursing_room: { present: true, kinds: ['family'] }, parking: { present: true } }
+ */
+export function amenityContainment(filters: AmenityFilter[]): Record<string, Record<string, unknown>> {
+  const containment: Record<string, Record<string, unknown>> = {}
+  for (const filter of filters) {
+    const [key, variant] = filter.split(':') as [AmenityKey, string | undefined]
+    const entry = (containment[key] ??= { present: true })
+    if (!variant) continue
+    if (key === 'nursing_room') entry.kinds = [...((entry.kinds as string[]) ?? []), variant]
+    if (key === 'changing_table') entry.locations = [...((entry.locations as string[]) ?? []), variant]
+    if (key === 'parking') entry.fee = variant
+  }
+  return containment
+}
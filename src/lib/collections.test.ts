@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { collectionSummary, isShareToken, moveId, parseCollectionInput, reorderPositions } from './collections'
+
+describe('parseCollectionInput', () => {
+  it('requires a name for a new collection', () => {
+    expect(parseCollectionInput({ note: '메모' })).toEqual({ ok: false, error: 'name is required' })
+    expect(parseCollectionInput({ name: '  비 오는 날 ', note: '' })).toEqual({
+      ok: true,
+      value: { name: '비 오는 날', note: null },
+    })
+  })
+
+  it('only includes provided fields when partial', () => {
+    expect(parseCollectionInput({ note: '실내 위주' }, { partial: true })).toEqual({
+      ok: true,
+      value: { note: '실내 위주' },
+    })
+  })
+
+  it('rejects long values', () => {
+    expect(parseCollectionInput({ name: 'x'.repeat(31) }).ok).toBe(false)
+    expect(parseCollectionInput({ name: '돌잔치 후보', note: 'x'.repeat(501) }).ok).toBe(false)
+  })
+})
+
+describe('reorderPositions', () => {
+  it('assigns positions from a permutation', () => {
+    expect(reorderPositions([1, 2, 3], [3, 1, 2])).toEqual([
+      { id: 3, position: 0 },
+      { id: 1, position: 1 },
+      { id: 2, position: 2 },
+    ])
+  })
+
+  it('rejects stale or malformed orders', () => {
+    expect(reorderPositions([1, 2, 3], [1, 2])).toBeNull()
+    expect(reorderPositions([1, 2, 3], [1, 1, 2])).toBeNull()
+    expect(reorderPositions([1, 2, 3], [1, 2, 4])).toBeNull()
+    expect(reorderPositions([1], 'x')).toBeNull()
+  })
+})
+
+describe('moveId', () => {
+  it('swaps with the neighbour', () => {
+    expect(moveId([1, 2, 3], 2, -1)).toEqual([2, 1, 3])
+    expect(moveId([1, 2, 3], 3, 1)).toEqual([1, 2, 3])
+  })
+})
+
+describe('isShareToken', () => {
+  it('accepts dash-less UUIDs', () => {
+    expect(isShareToken('0f8fad5bd9cb469fa16570867728950e')).toBe(true)
+    expect(isShareToken('../etc')).toBe(false)
+  })
+})
+
+describe('collectionSummary', () => {
+  it('counts places and events and names the first two', () => {
+    expect(
+      collectionSummary([
+        { name: '올림픽공원', kind: 'place' },
+        { name: '서울숲', kind: 'place' },
+        { name: '국립어린이박물관', kind: 'place' },
+        { name: '어린이날 축제', kind: 'event' },
+      ])
+    ).toBe('장소 3곳 · 행사 1개 — 올림픽공원, 서울숲 외 2곳')
+    expect(collectionSummary([])).toBe('아직 담긴 곳이 없어요')
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * Favorite collections — input validation and ordering shared by
+ * /api/collections and the favorites page, plus the summary line used for the
+ * shared list's Open Graph preview.
+ */
+
+export const COLLECTION_NAME_MAX = 30
+export const COLLECTION_NOTE_MAX = 500
+export const COLLECTION_ITEM_NOTE_MAX = 300
+export const COLLECTIONS_PER_USER_MAX = 30
+export const COLLECTION_ITEMS_MAX = 100
+
+/** collections.share_token: a dash-less UUID */
+const SHARE_TOKEN_PATTERN = /^[0-9a-f]{32}$/
+
+export interface CollectionInput {
+  name: string
+  note: string | null
+}
+
+export type CollectionInputResult =
+  | { ok: true; value: Partial<CollectionInput> }
+  | { ok: false; error: string }
+
+/**
+ * Validate a collection body. With partial, absent fields are left out
+ * (PATCH); otherwise name is required.
+ */
+export function parseCollectionInput(
+  raw: Record<string, unknown>,
+  { partial = false }: { partial?: boolean } = {}
+): CollectionInputResult {
+  const value: Partial<CollectionInput> = {}
+
+  if (raw.name !== undefined || !partial) {
+    const name = typeof raw.name === 'string' ? raw.name.trim() : ''
+    if (!name) return { ok: false, error: 'name is required' }
+    if (name.length > COLLECTION_NAME_MAX) {
+      return { ok: false, error: `name must be at most ${COLLECTION_NAME_MAX} characters` }
+    }
+    value.name = name
+  }
+
+  if (raw.note !== undefined || !partial) {
+    const note = parseNote(raw.note, COLLECTION_NOTE_MAX)
+    if (note === undefined) return { ok: false, error: `note must be at most ${COLLECTION_NOTE_MAX} characters` }
+    value.note = note
+  }
+
+  return { ok: true, value }
+}
+
+/** Trimmed note, null when empty, undefined when invalid */
+export function parseNote(raw: unknown, max: number): string | null | undefined {
+  if (raw === undefined || raw === null) return null
+  if (typeof raw !== 'string') return undefined
+  const note = raw.trim()
+  if (note.length > max) return undefined
+  return note || null
+}
+
+export function isShareToken(token: unknown): token is string {
+  return typeof token === 'string' && SHARE_TOKEN_PATTERN.test(token)
+}
+
+/**
+ * New positions for a reorder request. `order` must be a permutation of the
+ * current ids; returns null otherwise so a stale client can't drop or
+ * duplicate rows.
+ */
+export function reorderPositions(currentIds: number[], order: unknown): { id: number; position: number }[] | null {
+  if (!Array.isArray(order) || order.length !== currentIds.length) return null
+  const current = new Set(currentIds)
+  const seen = new Set<number>()
+  for (const id of order) {
+    if (!Number.isInteger(id) || !current.has(id) || seen.has(id)) return null
+    seen.add(id)
+  }
+  return (order as number[]).map((id, position) => ({ id, position }))
+}
+
+/** Move one entry up (-1) or down (+1) in a list of ids; out-of-range moves are no-ops */
+export function moveId(ids: number[], id: number, delta: -1 | 1): number[] {
+  const from = ids.indexOf(id)
+  const to = from + delta
+  if (from < 0 || to < 0 || to >= ids.length) return ids
+  const next = [...ids]
+  ;[next[from], next[to]] = [next[to], next[from]]
+  return next
+}
+
+/** "장소 3곳 · 행사 1개 — 올림픽공원, 서울숲 외 2곳" for og:description */
+export function collectionSummary(items: { name: string; kind: 'place' | 'event' }[]): string {
+  if (items.length === 0) return '아직 담긴 곳이 없어요'
+  const places = items.filter((i) => i.kind === 'place').length
+  const events = items.length - places
+  const counts = [places > 0 ? `장소 ${places}곳` : null, events > 0 ? `행사 ${events}개` : null]
+    .filter(Boolean)
+    .join(' · ')
+  const names = items.slice(0, 2).map((i) => i.name).join(', ')
+  const rest = items.length - 2
+  return `${counts} — ${names}${rest > 0 ? ` 외 ${rest}곳` : ''}`
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildDayPlan,
+  defaultPlanTitle,
+  eventRunsOn,
+  formatClock,
+  parseClock,
+  parsePlanInput,
+  travelMinutes,
+  type DayPlanInput,
+} from './day-plan'
+import { parseOpeningHours } from './opening-hours'
+import type { Event, Place } from '@/types'
+
+function place(id: number, overrides: Partial<Place> = {}): Place {
+  return {
+    id,
+    name: `장소${id}`,
+    category: '식당/카페',
+    lat: 37.5,
+    lng: 127.0,
+    is_indoor: null,
+    age_min_months: null,
+    age_max_months: null,
+    opening_hours: null,
+    popularity_score: 0,
+    ...overrides,
+  } as Place
+}
+
+// ~0.009° latitude ≈ 1 km
+const ONE_KM = 0.009
+
+const input: DayPlanInput = {
+  anchor: { kind: 'place', id: 1 },
+  date: '2026-10-24', // Saturday
+  start: '10:00',
+  childAgeMonths: 30,
+  isRaining: false,
+  speedKmh: 3,
+}
+
+describe('parsePlanInput', () => {
+  const now = new Date('2026-10-23T20:00:00Z') // 10/24 05:00 KST
+
+  it('fills defaults from a query string', () => {
+    expect(parsePlanInput({ placeId: '12' }, now)).toEqual({
+      ok: true,
+      value: {
+        anchor: { kind: 'place', id: 12 },
+        date: '2026-10-24',
+        start: '10:00',
+        childAgeMonths: null,
+        isRaining: false,
+        speedKmh: 3,
+      },
+    })
+  })
+
+  it('reads mode, speed override, rain and age', () => {
+    const parsed = parsePlanInput({ eventId: 5, start: '9:30', mode: 'car', rain: true, childAgeMonths: '18' }, now)
+    expect(parsed.ok && parsed.value).toMatchObject({ anchor: { kind: 'event', id: 5 }, start: '09:30', speedKmh: 20, isRaining: true, childAgeMonths: 18 })
+    const custom = parsePlanInput({ placeId: 1, mode: 'car', speedKmh: '35' }, now)
+    expect(custom.ok && custom.value.speedKmh).toBe(35)
+  })
+
+  it('rejects bad input', () => {
+    expect(parsePlanInput({}, now).ok).toBe(false)
+    expect(parsePlanInput({ placeId: 1, eventId: 2 }, now).ok).toBe(false)
+    expect(parsePlanInput({ placeId: 1, date: '2026-02-30' }, now).ok).toBe(false)
+    expect(parsePlanInput({ placeId: 1, start: '25:00' }, now).ok).toBe(false)
+    expect(parsePlanInput({ placeId: 1, mode: 'bike' }, now).ok).toBe(false)
+    expect(parsePlanInput({ placeId: 1, speedKmh: '0' }, now).ok).toBe(false)
+  })
+})
+
+describe('clock helpers', () => {
+  it('round-trips and wraps', () => {
+    expect(parseClock('08:05')).toBe(485)
+    expect(formatClock(485)).toBe('08:05')
+    expect(formatClock(1440 + 30)).toBe('00:30')
+  })
+
+  it('converts straight-line distance to minutes', () => {
+    expect(travelMinutes(0, 3)).toBe(0)
+    expect(travelMinutes(1000, 3)).toBe(20)
+    expect(travelMinutes(10, 20)).toBe(1)
+  })
+})
+
+describe('eventRunsOn', () => {
+  it('checks the date range, treating unknown bounds as open', () => {
+    expect(eventRunsOn({ start_date: '2026-10-01', end_date: '2026-10-31' }, '2026-10-24')).toBe(true)
+    expect(eventRunsOn({ start_date: '2026-11-01', end_date: null }, '2026-10-24')).toBe(false)
+    expect(eventRunsOn({ start_date: null, end_date: null }, '2026-10-24')).toBe(true)
+  })
+})
+
+describe('buildDayPlan', () => {
+  const anchor = place(1, { name: '키즈카페', category: '놀이', opening_hours: parseOpeningHours('10:00~18:00') })
+
+  it('schedules the anchor then the closest open lunch spot', () => {
+    const near = place(2, { lat: 37.5 + ONE_KM / 2 })
+    const far = place(3, { lat: 37.5 + ONE_KM, popularity_score: 100 })
+    const closed = place(4, { lat: 37.5 + ONE_KM / 10, opening_hours: parseOpeningHours('17:00~22:00') })
+    const nursing = { ...place(5, { category: '편의시설' }), distance_m: 120 }
+
+    const plan = buildDayPlan(input, { kind: 'place', place: anchor }, {
+      meals: [far, closed, near],
+      nursingRooms: [nursing],
+      diaperStations: [nursing],
+    })
+
+    expect(plan.stops.map((s) => [s.kind, s.place?.id, s.arriveAt, s.leaveAt])).toEqual([
+      ['anchor', 1, '10:00', '12:00'],
+      ['meal', 2, '12:10', '13:10'],
+    ])
+    expect(plan.facilities).toEqual([
+      { kind: 'nursing_room', place: place(5, { category: '편의시설' }), distanceM: 120, travelMinutes: 2 },
+    ])
+    expect(plan.warnings).toEqual([])
+  })
+
+  it('shifts to opening time and trims at closing time', () => {
+    const short = place(1, { name: '체험관', opening_hours: parseOpeningHours('11:00~12:30') })
+    const plan = buildDayPlan(input, { kind: 'place', place: short }, { meals: [], nursingRooms: [], diaperStations: [] })
+    expect(plan.start).toBe('11:00')
+    expect(plan.stops[0]).toMatchObject({ arriveAt: '11:00', leaveAt: '12:30' })
+    expect(plan.warnings).toContain('체험관은(는) 11:00에 열어서 시작 시간을 맞췄어요')
+  })
+
+  it('keeps lunch indoors and age-appropriate, and warns on rain outdoors', () => {
+    const park = place(1, { name: '공원', is_indoor: false })
+    const terrace = place(2, { is_indoor: false })
+    const adultsOnly = place(3, { age_min_months: 96 })
+    const plan = buildDayPlan(
+      { ...input, isRaining: true },
+      { kind: 'place', place: park },
+      { meals: [terrace, adultsOnly], nursingRooms: [], diaperStations: [] }
+    )
+    expect(plan.stops).toHaveLength(1)
+    expect(plan.warnings).toEqual([
+      '비 소식이 있는데 야외 장소예요',
+      '근처에 아기의자가 있는 식당/카페를 찾지 못했어요',
+      '근처 수유실 정보가 없어요',
+    ])
+  })
+
+  it('uses event time_info hours and warns outside the run', () => {
+    const event = {
+      id: 9,
+      name: '가을 인형극',
+      lat: 37.5,
+      lng: 127.0,
+      start_date: '2026-11-01',
+      end_date: '2026-11-30',
+      age_min_months: null,
+      age_max_months: null,
+    } as Event
+    const plan = buildDayPlan(
+      { ...input, anchor: { kind: 'event', id: 9 } },
+      { kind: 'event', event, hours: parseOpeningHours('14:00~15:00') },
+      { meals: [], nursingRooms: [], diaperStations: [] }
+    )
+    expect(plan.stops[0]).toMatchObject({ event: { id: 9 }, arriveAt: '14:00', leaveAt: '15:00' })
+    expect(plan.warnings[0]).toBe('2026-10-24에는 가을 인형극 행사 기간이 아니에요')
+  })
+})
+
+describe('defaultPlanTitle', () => {
+  it('uses the date and anchor name', () => {
+    expect(defaultPlanTitle({ date: '2026-10-24', stops: [{ place: place(1, { name: '서울상상나라' }) }] as never })).toBe(
+      '10/24 서울상상나라 나들이'
+    )
+  })
+})
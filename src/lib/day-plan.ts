@@ -0,0 +1,341 @@
+/**
+ * Day-trip planner: one anchor (a place or an event), then lunch at a nearby
+ * 식당/카페 with baby chairs, plus the nearest 수유실 / 기저귀교환대 around the
+ * anchor. /api/plans fetches the candidates; everything here is pure so the
+ * itinerary can be rebuilt identically when a plan is saved.
+ *
+ * Travel time is straight-line distance at a configurable speed; times are
+ * KST clock strings on the plan date.
+ */
+
+import { ageRangeIncludes } from './age-range'
+import { isOpenAt, openStatusAt, type OpeningHours } from './opening-hours'
+import type { DayPlan, DayPlanFacility, DayPlanStop, Event, Place } from '@/types'
+
+/** km/h by travel mode; stroller walking is slower than the usual 4-5 km/h */
+export const TRAVEL_SPEEDS = {
+  walk: 3,
+  transit: 12,
+  car: 20,
+} as const
+
+export type TravelMode = keyof typeof TRAVEL_SPEEDS
+
+export const SPEED_MIN_KMH = 1
+export const SPEED_MAX_KMH = 60
+
+/** Minutes spent at each stop */
+export const ANCHOR_PLACE_MINUTES = 120
+export const ANCHOR_EVENT_MINUTES = 90
+export const MEAL_MINUTES = 60
+
+/** Lunch is searched within this many minutes of travel from the anchor */
+export const MEAL_MAX_TRAVEL_MINUTES = 30
+
+export const DEFAULT_START = '10:00'
+
+export const PLAN_TITLE_MAX = 60
+
+export interface DayPlanInput {
+  anchor: { kind: 'place' | 'event'; id: number }
+  /** YYYY-MM-DD (KST) */
+  date: string
+  /** HH:MM (KST) */
+  start: string
+  childAgeMonths: number | null
+  isRaining: boolean
+  speedKmh: number
+}
+
+export type ParsedPlanInput = { ok: true; value: DayPlanInput } | { ok: false; error: string }
+
+function toInteger(raw: unknown): number | null {
+  if (typeof raw === 'number') return Number.isInteger(raw) ? raw : null
+  if (typeof raw === 'string' && /^\d+$/.test(raw.trim())) return Number(raw)
+  return null
+}
+
+function isValidDate(raw: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(raw)) return false
+  const date = new Date(`${raw}T00:00:00Z`)
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(raw)
+}
+
+/** Today's date in KST as YYYY-MM-DD */
+export function kstToday(now: Date = new Date()): string {
+  return new Date(now.getTime() + 9 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+/**
+ * Validate planner input from a query string (all strings) or a JSON body.
+ * Fields: placeId | eventId, date?, start?, childAgeMonths?, rain?, mode?, speedKmh?
+ * speedKmh wins over mode; the default is stroller walking.
+ */
+export function parsePlanInput(raw: Record<string, unknown>, now: Date = new Date()): ParsedPlanInput {
+  const placeId = toInteger(raw.placeId)
+  const eventId = toInteger(raw.eventId)
+  if ((placeId === null) === (eventId === null)) {
+    return { ok: false, error: 'Provide either placeId or eventId' }
+  }
+
+  const date = raw.date === undefined || raw.date === '' ? kstToday(now) : raw.date
+  if (typeof date !== 'string' || !isValidDate(date)) {
+    return { ok: false, error: 'date must be YYYY-MM-DD' }
+  }
+
+  const start = raw.start === undefined || raw.start === '' ? DEFAULT_START : raw.start
+  if (typeof start !== 'string' || parseClock(start) === null) {
+    return { ok: false, error: 'start must be HH:MM' }
+  }
+
+  let childAgeMonths: number | null = null
+  if (raw.childAgeMonths !== undefined && raw.childAgeMonths !== '' && raw.childAgeMonths !== null) {
+    childAgeMonths = toInteger(raw.childAgeMonths)
+    if (childAgeMonths === null || childAgeMonths > 240) {
+      return { ok: false, error: 'childAgeMonths must be an integer between 0 and 240' }
+    }
+  }
+
+  const isRaining = raw.rain === true || raw.rain === 'true'
+
+  let speedKmh: number = TRAVEL_SPEEDS.walk
+  if (raw.mode !== undefined && raw.mode !== '') {
+    if (typeof raw.mode !== 'string' || !(raw.mode in TRAVEL_SPEEDS)) {
+      return { ok: false, error: `mode must be one of ${Object.keys(TRAVEL_SPEEDS).join(', ')}` }
+    }
+    speedKmh = TRAVEL_SPEEDS[raw.mode as TravelMode]
+  }
+  if (raw.speedKmh !== undefined && raw.speedKmh !== '') {
+    const speed = Number(raw.speedKmh)
+    if (!Number.isFinite(speed) || speed < SPEED_MIN_KMH || speed > SPEED_MAX_KMH) {
+      return { ok: false, error: `speedKmh must be between ${SPEED_MIN_KMH} and ${SPEED_MAX_KMH}` }
+    }
+    speedKmh = speed
+  }
+
+  return {
+    ok: true,
+    value: {
+      anchor: placeId !== null ? { kind: 'place', id: placeId } : { kind: 'event', id: eventId as number },
+      date,
+      start: formatClock(parseClock(start) as number),
+      childAgeMonths,
+      isRaining,
+      speedKmh,
+    },
+  }
+}
+
+/** 'H:MM' / 'HH:MM' → minutes after midnight; null when invalid */
+export function parseClock(raw: string): number | null {
+  const match = raw.trim().match(/^(\d{1,2}):(\d{2})$/)
+  if (!match) return null
+  const h = Number(match[1])
+  const m = Number(match[2])
+  if (h > 23 || m > 59) return null
+  return h * 60 + m
+}
+
+/** Minutes after midnight → 'HH:MM' (wraps past midnight) */
+export function formatClock(minutes: number): string {
+  const wrapped = ((Math.round(minutes) % 1440) + 1440) % 1440
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`
+}
+
+/** The KST moment `minutes` after midnight on `date` */
+export function kstMoment(date: string, minutes: number): Date {
+  return new Date(new Date(`${date}T00:00:00+09:00`).getTime() + minutes * 60_000)
+}
+
+/** Great-circle distance in meters */
+export function haversineMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6371000
+  const toRad = (d: number) => (d * Math.PI) / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLng = toRad(lng2 - lng1)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+/** Straight-line travel time in whole minutes (at least 1 for any move) */
+export function travelMinutes(distanceM: number, speedKmh: number): number {
+  if (distanceM <= 0) return 0
+  return Math.max(1, Math.round((distanceM / 1000 / speedKmh) * 60))
+}
+
+/** Search radius for lunch candidates, in degrees of latitude (bounding box pre-filter) */
+export function mealSearchRadiusDeg(speedKmh: number): number {
+  const km = (speedKmh * MEAL_MAX_TRAVEL_MINUTES) / 60
+  return Math.min(0.1, Math.max(0.005, km / 111))
+}
+
+/** Whether an event runs on `date` (unknown bounds count as running) */
+export function eventRunsOn(event: Pick<Event, 'start_date' | 'end_date'>, date: string): boolean {
+  const start = event.start_date?.slice(0, 10)
+  const end = event.end_date?.slice(0, 10) ?? start
+  if (start && date < start) return false
+  if (end && date > end) return false
+  return true
+}
+
+function fitsAge(row: Pick<Place, 'age_min_months' | 'age_max_months'>, months: number): boolean {
+  return ageRangeIncludes({ minMonths: row.age_min_months, maxMonths: row.age_max_months }, months)
+}
+
+interface Origin {
+  lat: number
+  lng: number
+}
+
+/**
+ * Best lunch spot: open on arrival, fits the child's age, indoors when it
+ * rains (unknown counts as indoors), within MEAL_MAX_TRAVEL_MINUTES; the
+ * closest wins, popularity breaks ties.
+ */
+export function pickMeal(
+  candidates: Place[],
+  origin: Origin,
+  arriveAt: (travel: number) => Date,
+  options: { speedKmh: number; childAgeMonths: number | null; isRaining: boolean; excludeId?: number }
+): { place: Place; distanceM: number; travel: number } | null {
+  const ranked = candidates
+    .filter((p) => p.id !== options.excludeId)
+    .filter((p) => !options.isRaining || p.is_indoor !== false)
+    .filter((p) => options.childAgeMonths === null || fitsAge(p, options.childAgeMonths))
+    .map((place) => {
+      const distanceM = haversineMeters(origin.lat, origin.lng, place.lat, place.lng)
+      return { place, distanceM, travel: travelMinutes(distanceM, options.speedKmh) }
+    })
+    .filter((c) => c.travel <= MEAL_MAX_TRAVEL_MINUTES)
+    .filter((c) => isOpenAt(c.place.opening_hours, arriveAt(c.travel)))
+    .sort((a, b) => a.travel - b.travel || b.place.popularity_score - a.place.popularity_score)
+  return ranked[0] ?? null
+}
+
+/** Nearest facility open at `at`; candidates come sorted by distance_m */
+export function pickFacility(
+  candidates: (Place & { distance_m: number })[],
+  at: Date,
+  speedKmh: number
+): { place: Place; distanceM: number; travel: number } | null {
+  const open = candidates.find((p) => isOpenAt(p.opening_hours, at))
+  if (!open) return null
+  const { distance_m, ...place } = open
+  return { place, distanceM: Math.round(distance_m), travel: travelMinutes(distance_m, speedKmh) }
+}
+
+export type PlanAnchor = { kind: 'place'; place: Place } | { kind: 'event'; event: Event; hours: OpeningHours | null }
+
+export interface PlanCandidates {
+  meals: Place[]
+  nursingRooms: (Place & { distance_m: number })[]
+  diaperStations: (Place & { distance_m: number })[]
+}
+
+/** Build the itinerary; problems become warnings instead of failures */
+export function buildDayPlan(input: DayPlanInput, anchor: PlanAnchor, candidates: PlanCandidates): DayPlan {
+  const warnings: string[] = []
+  const origin = anchor.kind === 'place'
+    ? { lat: anchor.place.lat, lng: anchor.place.lng }
+    : { lat: anchor.event.lat as number, lng: anchor.event.lng as number }
+  const name = anchor.kind === 'place' ? anchor.place.name : anchor.event.name
+  const hours = anchor.kind === 'place' ? anchor.place.opening_hours : anchor.hours
+
+  // Anchor: shift to opening time, cut short at closing time
+  let start = parseClock(input.start) as number
+  let dwell = anchor.kind === 'place' ? ANCHOR_PLACE_MINUTES : ANCHOR_EVENT_MINUTES
+
+  if (anchor.kind === 'event' && !eventRunsOn(anchor.event, input.date)) {
+    warnings.push(`${input.date}에는 ${name} 행사 기간이 아니에요`)
+  }
+
+  const status = openStatusAt(hours, kstMoment(input.date, start))
+  if (status.state === 'closed') {
+    if (status.opensAt) {
+      start = parseClock(status.opensAt) as number
+      warnings.push(`${name}은(는) ${status.opensAt}에 열어서 시작 시간을 맞췄어요`)
+    } else {
+      warnings.push(status.closedToday ? `${name}은(는) 이날 휴무예요` : `${name}은(는) 이미 운영이 끝났어요`)
+    }
+  }
+  const closing = openStatusAt(hours, kstMoment(input.date, start))
+  if (closing.state === 'open') {
+    const closesAt = closing.closesAt === '24:00' ? 1440 : (parseClock(closing.closesAt) ?? 1440)
+    if (closesAt > start && closesAt < start + dwell) dwell = closesAt - start
+  }
+
+  const ageSource = anchor.kind === 'place' ? anchor.place : anchor.event
+  if (input.childAgeMonths !== null && !fitsAge(ageSource, input.childAgeMonths)) {
+    warnings.push(`${name}은(는) 아이 연령에 맞지 않을 수 있어요`)
+  }
+  if (input.isRaining && anchor.kind === 'place' && anchor.place.is_indoor === false) {
+    warnings.push('비 소식이 있는데 야외 장소예요')
+  }
+
+  const anchorStop: DayPlanStop = {
+    kind: 'anchor',
+    place: anchor.kind === 'place' ? anchor.place : null,
+    event: anchor.kind === 'event' ? anchor.event : null,
+    arriveAt: formatClock(start),
+    leaveAt: formatClock(start + dwell),
+    travelMinutes: 0,
+    distanceM: 0,
+  }
+  const stops: DayPlanStop[] = [anchorStop]
+
+  const leave = start + dwell
+  const meal = pickMeal(candidates.meals, origin, (travel) => kstMoment(input.date, leave + travel), {
+    speedKmh: input.speedKmh,
+    childAgeMonths: input.childAgeMonths,
+    isRaining: input.isRaining,
+    excludeId: anchor.kind === 'place' ? anchor.place.id : undefined,
+  })
+  if (meal) {
+    const arrive = leave + meal.travel
+    stops.push({
+      kind: 'meal',
+      place: meal.place,
+      event: null,
+      arriveAt: formatClock(arrive),
+      leaveAt: formatClock(arrive + MEAL_MINUTES),
+      travelMinutes: meal.travel,
+      distanceM: Math.round(meal.distanceM),
+    })
+  } else {
+    warnings.push('근처에 아기의자가 있는 식당/카페를 찾지 못했어요')
+  }
+
+  const facilities: DayPlanFacility[] = []
+  const at = kstMoment(input.date, start)
+  const nursing = pickFacility(candidates.nursingRooms, at, input.speedKmh)
+  if (nursing) {
+    facilities.push({ kind: 'nursing_room', place: nursing.place, distanceM: nursing.distanceM, travelMinutes: nursing.travel })
+  } else {
+    warnings.push('근처 수유실 정보가 없어요')
+  }
+  const diaper = pickFacility(candidates.diaperStations, at, input.speedKmh)
+  if (diaper && diaper.place.id !== nursing?.place.id) {
+    facilities.push({ kind: 'diaper_station', place: diaper.place, distanceM: diaper.distanceM, travelMinutes: diaper.travel })
+  }
+
+  return {
+    date: input.date,
+    start: formatClock(start),
+    childAgeMonths: input.childAgeMonths,
+    isRaining: input.isRaining,
+    speedKmh: input.speedKmh,
+    stops,
+    facilities,
+    warnings,
+  }
+}
+
+/** Default title for a saved plan, e.g. "10/25 서울상상나라 나들이" */
+export function defaultPlanTitle(plan: Pick<DayPlan, 'date' | 'stops'>): string {
+  const anchor = plan.stops[0]
+  const name = anchor?.place?.name ?? anchor?.event?.name ?? ''
+  const [, month, day] = plan.date.split('-').map(Number)
+  return `${month}/${day} ${name} 나들이`.slice(0, PLAN_TITLE_MAX)
+}
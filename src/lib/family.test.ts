@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { addedByName, dedupeByTarget, isInviteCode, memberDisplayName, nextOwner } from './family'
+
+const ME = '6f1c2d3e-0000-4000-8000-000000000001'
+const PARTNER = '6f1c2d3e-0000-4000-8000-000000000002'
+
+describe('isInviteCode', () => {
+  it('accepts dash-less UUIDs only', () => {
+    expect(isInviteCode('0f8fad5bd9cb469fa16570867728950e')).toBe(true)
+    expect(isInviteCode('0f8fad5b-d9cb-469f-a165-70867728950e')).toBe(false)
+    expect(isInviteCode("x' OR 1=1")).toBe(false)
+    expect(isInviteCode(null)).toBe(false)
+  })
+})
+
+describe('memberDisplayName', () => {
+  it('falls back to the email local part', () => {
+    expect(memberDisplayName({ display_name: ' 엄마 ', email: 'mom@example.com' })).toBe('엄마')
+    expect(memberDisplayName({ display_name: null, email: 'dad@example.com' })).toBe('dad')
+    expect(memberDisplayName({ display_name: '', email: null })).toBe('가족')
+  })
+})
+
+describe('addedByName', () => {
+  it('labels rows added by other members', () => {
+    const names = { [PARTNER]: '아빠' }
+    expect(addedByName(ME, ME, names)).toBeNull()
+    expect(addedByName(PARTNER, ME, names)).toBe('아빠')
+    expect(addedByName('someone', ME, names)).toBe('가족')
+  })
+})
+
+describe('dedupeByTarget', () => {
+  it('keeps the first row per place or event', () => {
+    const rows = [
+      { id: 3, place_id: 10, event_id: null },
+      { id: 2, place_id: 10, event_id: null },
+      { id: 1, place_id: null, event_id: 10 },
+    ]
+    expect(dedupeByTarget(rows).map((r) => r.id)).toEqual([3, 1])
+  })
+})
+
+describe('nextOwner', () => {
+  it('hands the family to the earliest remaining member', () => {
+    const members = [
+      { user_id: ME, joined_at: '2026-01-01T00:00:00Z' },
+      { user_id: 'c', joined_at: '2026-03-01T00:00:00Z' },
+      { user_id: PARTNER, joined_at: '2026-02-01T00:00:00Z' },
+    ]
+    expect(nextOwner(members, ME)?.user_id).toBe(PARTNER)
+    expect(nextOwner([members[0]], ME)).toBeNull()
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * Shared family accounts — helpers for the family-aware routes.
+ *
+ * Favorites, hidden items and visits stay keyed by user_id (who added the
+ * row); RLS lets every member of the family read and edit them (migration
+ * 00082). Routes scope queries to the family's user ids and label each row
+ * with the member who added it.
+ */
+
+export const FAMILY_MAX_MEMBERS = 6
+export const FAMILY_NAME_MAX = 30
+
+/** families.invite_code: a dash-less UUID */
+const INVITE_CODE_PATTERN = /^[0-9a-f]{32}$/
+
+export function isInviteCode(code: unknown): code is string {
+  return typeof code === 'string' && INVITE_CODE_PATTERN.test(code)
+}
+
+/** Link a member shares to invite a co-parent */
+export function familyInviteUrl(origin: string, code: string): string {
+  return `${origin}/family/join/${code}`
+}
+
+/** Name shown for a member: display name, else the email's local part */
+export function memberDisplayName(profile: { display_name: string | null; email: string | null }): string {
+  const name = profile.display_name?.trim()
+  if (name) return name
+  const local = profile.email?.split('@')[0]
+  return local || '가족'
+}
+
+/**
+ * Who added a row, for display: null when the viewer added it (or has no
+ * family), otherwise the member's name.
+ */
+export function addedByName(
+  rowUserId: string,
+  viewerId: string,
+  names: Record<string, string>
+): string | null {
+  if (rowUserId === viewerId) return null
+  return names[rowUserId] ?? '가족'
+}
+
+/**
+ * Keep the first row per place / event. Two members can favorite or hide the
+ * same item independently; the shared list shows it once.
+ */
+export function dedupeByTarget<T extends { place_id: number | null; event_id: number | null }>(rows: T[]): T[] {
+  const seen = new Set<string>()
+  return rows.filter((row) => {
+    const key = row.place_id !== null ? `p${row.place_id}` : `e${row.event_id}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/** Owner leaving: the longest-standing remaining member takes over */
+export function nextOwner<T extends { user_id: string; joined_at: string }>(
+  members: T[],
+  leavingUserId: string
+): T | null {
+  const remaining = members
+    .filter((m) => m.user_id !== leavingUserId)
+    .sort((a, b) => a.joined_at.localeCompare(b.joined_at))
+  return remaining[0] ?? null
+}
@@ -0,0 +1,54 @@
+/**
+ * Korean public holidays (법정공휴일) for opening-hours evaluation.
+ *
+ * Solar holidays are fixed; lunar ones (설날, 부처님오신날, 추석) and 대체공휴일
+ * are listed per year. Extend LUNAR_HOLIDAYS each year — dates outside the
+ * table only match the solar list.
+ */
+
+const SOLAR_HOLIDAYS = ['01-01', '03-01', '05-05', '06-06', '08-15', '10-03', '10-09', '12-25']
+
+interface LunarYear {
+  /** 설날 당일 */
+  seollal: string
+  /** 추석 당일 */
+  chuseok: string
+  buddha: string
+  /** 대체공휴일 */
+  substitutes: string[]
+}
+
+const LUNAR_HOLIDAYS: Record<number, LunarYear> = {
+  2025: { seollal: '01-29', chuseok: '10-06', buddha: '05-05', substitutes: ['03-03', '05-06', '10-08'] },
+  2026: { seollal: '02-17', chuseok: '09-25', buddha: '05-24', substitutes: ['03-02', '05-25', '08-17', '10-05'] },
+  2027: { seollal: '02-07', chuseok: '09-15', buddha: '05-13', substitutes: ['02-09', '08-16', '10-04', '10-11', '12-27'] },
+}
+
+function shiftDay(monthDay: string, year: number, offset: number): string {
+  const [m, d] = monthDay.split('-').map(Number)
+  const date = new Date(Date.UTC(year, m - 1, d + offset))
+  return `${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`
+}
+
+/** 'seollal' / 'chuseok' → the day itself; '-period' → the three-day 연휴 */
+export type LunarClosure = 'seollal' | 'chuseok' | 'seollal-period' | 'chuseok-period'
+
+export function lunarClosureDays(closure: LunarClosure, year: number): string[] {
+  const lunar = LUNAR_HOLIDAYS[year]
+  if (!lunar) return []
+  const day = closure.startsWith('seollal') ? lunar.seollal : lunar.chuseok
+  return closure.endsWith('-period') ? [-1, 0, 1].map((o) => shiftDay(day, year, o)) : [day]
+}
+
+/** True for 법정공휴일 including 설날/추석 연휴 and 대체공휴일; monthDay is 'MM-DD' */
+export function isPublicHoliday(year: number, monthDay: string): boolean {
+  if (SOLAR_HOLIDAYS.includes(monthDay)) return true
+  const lunar = LUNAR_HOLIDAYS[year]
+  if (!lunar) return false
+  return (
+    lunarClosureDays('seollal-period', year).includes(monthDay) ||
+    lunarClosureDays('chuseok-period', year).includes(monthDay) ||
+    lunar.buddha === monthDay ||
+    lunar.substitutes.includes(monthDay)
+  )
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CLUSTER_MIN_LEVEL,
+  DENSITY_MIN_LEVEL,
+  PLACES_PER_DISTRICT_TOP_N,
+  shouldCluster,
+  clusterCellSize,
+  districtRankLimit,
+} from './map-clusters'
+
+describe('shouldCluster', () => {
+  it('clusters from CLUSTER_MIN_LEVEL upward', () => {
+    expect(shouldCluster(CLUSTER_MIN_LEVEL - 1)).toBe(false)
+    expect(shouldCluster(CLUSTER_MIN_LEVEL)).toBe(true)
+    expect(shouldCluster(14)).toBe(true)
+  })
+
+  it('does not cluster on an invalid level', () => {
+    expect(shouldCluster(NaN)).toBe(false)
+  })
+})
+
+describe('clusterCellSize', () => {
+  it('uses the base cell at CLUSTER_MIN_LEVEL', () => {
+    expect(clusterCellSize(CLUSTER_MIN_LEVEL)).toBeCloseTo(0.01)
+  })
+
+  it('doubles per zoom level', () => {
+    expect(clusterCellSize(CLUSTER_MIN_LEVEL + 1)).toBeCloseTo(0.02)
+    expect(clusterCellSize(CLUSTER_MIN_LEVEL + 3)).toBeCloseTo(0.08)
+  })
+
+  it('is capped at the coarsest cell', () => {
+    expect(clusterCellSize(14)).toBeCloseTo(0.32)
+  })
+
+  it('never goes below the base cell', () => {
+    expect(clusterCellSize(3)).toBeCloseTo(0.01)
+  })
+})
+
+describe('districtRankLimit', () => {
+  it('has no limit when zoomed in', () => {
+    expect(districtRankLimit(DENSITY_MIN_LEVEL - 1)).toBeNull()
+    expect(districtRankLimit(1)).toBeNull()
+  })
+
+  it('limits to the district Top-N from DENSITY_MIN_LEVEL', () => {
+    expect(districtRankLimit(DENSITY_MIN_LEVEL)).toBe(PLACES_PER_DISTRICT_TOP_N)
+    expect(districtRankLimit(CLUSTER_MIN_LEVEL)).toBe(PLACES_PER_DISTRICT_TOP_N)
+  })
+
+  it('has no limit on an invalid level', () => {
+    expect(districtRankLimit(NaN)).toBeNull()
+  })
+})
@@ -0,0 +1,44 @@
+/**
+ * Zoom-aware map aggregation shared by GET /api/places and KakaoMap.
+ *
+ * `zoom` is the Kakao map level (1 = street, 14 = country). From
+ * CLUSTER_MIN_LEVEL upward the API aggregates places into grid cells
+ * instead of returning individual markers, so a zoomed-out map shows the
+ * real distribution rather than the top-N slice of the list query.
+ *
+ * Cell size doubles with each level, matching Kakao's scale steps, so a
+ * cluster covers roughly the same screen area at every zoom.
+ *
+ * Just below the cluster threshold, markers are thinned to the Top-N per
+ * 행정동 using places.district_rank (computed by the density pipeline step).
+ */
+
+/** Kakao level at and above which places are returned as clusters */
+export const CLUSTER_MIN_LEVEL = 7
+
+/** Kakao level at and above which markers are limited to the district Top-N */
+export const DENSITY_MIN_LEVEL = 5
+
+/** Markers per 행정동 between DENSITY_MIN_LEVEL and CLUSTER_MIN_LEVEL */
+export const PLACES_PER_DISTRICT_TOP_N = 20
+
+/** Grid cell size in degrees at CLUSTER_MIN_LEVEL (~1.1km north-south) */
+const BASE_CELL_DEG = 0.01
+
+/** Coarsest cell used at any level (~35km) */
+const MAX_CELL_DEG = 0.32
+
+export function shouldCluster(level: number): boolean {
+  return Number.isFinite(level) && level >= CLUSTER_MIN_LEVEL
+}
+
+export function clusterCellSize(level: number): number {
+  const steps = Math.max(0, Math.round(level) - CLUSTER_MIN_LEVEL)
+  return Math.min(BASE_CELL_DEG * 2 ** steps, MAX_CELL_DEG)
+}
+
+/** Max district_rank to show at this level, or null for no limit */
+export function districtRankLimit(level: number): number | null {
+  if (!Number.isFinite(level) || level < DENSITY_MIN_LEVEL) return null
+  return PLACES_PER_DISTRICT_TOP_N
+}
@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseOpeningHours,
+  openStatusAt,
+  isOpenAt,
+  describeOpenStatus,
+  parseOpenAtParam,
+  normalizeClock,
+} from './opening-hours'
+
+/** KST wall-clock time → Date */
+const kst = (iso: string) => new Date(`${iso}:00+09:00`)
+
+const range = (open: string, close: string) => [{ open, close }]
+
+describe('parseOpeningHours', () => {
+  it('returns null for empty or unrelated text', () => {
+    expect(parseOpeningHours(null)).toBeNull()
+    expect(parseOpeningHours('')).toBeNull()
+    expect(parseOpeningHours('홈페이지 참조')).toBeNull()
+  })
+
+  it('applies an undated range to every day and reads 입장마감', () => {
+    const hours = parseOpeningHours('10:00~18:00 (입장마감 17:00)')!
+    expect(hours.weekly).toEqual(Array(7).fill(range('10:00', '18:00')))
+    expect(hours.lastEntry).toBe('17:00')
+  })
+
+  it('reads closures from parentheses and a separate restdate field', () => {
+    const hours = parseOpeningHours('09:00~18:00 (매주 월요일, 1월 1일, 설날·추석 당일 휴관)')!
+    expect(hours.weekly[1]).toEqual([])
+    expect(hours.weekly[2]).toEqual(range('09:00', '18:00'))
+    expect(hours.closedDates).toEqual(['01-01', 'seollal', 'chuseok'])
+
+    const split = parseOpeningHours('10:00~17:00', '매주 월요일 휴관')!
+    expect(split.weekly[1]).toEqual([])
+    expect(split.weekly[0]).toEqual(range('10:00', '17:00'))
+  })
+
+  it('handles weekday/weekend/holiday groups', () => {
+    const hours = parseOpeningHours('평일 09:00~18:00, 주말 및 공휴일 10:00~17:00')!
+    expect(hours.weekly[3]).toEqual(range('09:00', '18:00'))
+    expect(hours.weekly[6]).toEqual(range('10:00', '17:00'))
+    expect(hours.holidays).toEqual(range('10:00', '17:00'))
+  })
+
+  it('handles day ranges, slashes and trailing closures', () => {
+    const hours = parseOpeningHours('화~일 10:00~18:00 / 월요일 휴무')!
+    expect(hours.weekly[1]).toEqual([])
+    expect(hours.weekly[0]).toEqual(range('10:00', '18:00'))
+    expect(hours.weekly[2]).toEqual(range('10:00', '18:00'))
+
+    const inline = parseOpeningHours('월~금 10:00~18:00 토요일 휴무')!
+    expect(inline.weekly[5]).toEqual(range('10:00', '18:00'))
+    expect(inline.weekly[6]).toEqual([])
+    expect(inline.weekly[0]).toBeNull()
+  })
+
+  it('keeps split shifts for the same days', () => {
+    const hours = parseOpeningHours('10:00~12:00, 13:00~18:00')!
+    expect(hours.weekly[2]).toEqual([{ open: '10:00', close: '12:00' }, { open: '13:00', close: '18:00' }])
+  })
+
+  it('reads 시 and 오전/오후 forms', () => {
+    expect(parseOpeningHours('오전 10시~오후 6시')!.weekly[1]).toEqual(range('10:00', '18:00'))
+    expect(parseOpeningHours('10시~6시')!.weekly[1]).toEqual(range('10:00', '18:00'))
+    expect(parseOpeningHours('10시 30분부터 19시까지')!.weekly[1]).toEqual(range('10:30', '19:00'))
+  })
+
+  it('reads nth-weekday closures and public holidays', () => {
+    const hours = parseOpeningHours('09:00~18:00', '매월 둘째·넷째 월요일 및 법정공휴일')!
+    expect(hours.closedNth).toEqual([{ nth: 2, weekday: 1 }, { nth: 4, weekday: 1 }])
+    expect(hours.weekly[1]).toEqual(range('09:00', '18:00'))
+    expect(hours.holidays).toEqual([])
+  })
+
+  it('ignores shifted-closure notes', () => {
+    const hours = parseOpeningHours('10:00~18:00 (매주 월요일 휴관) (공휴일인 경우 다음날 휴관)')!
+    expect(hours.weekly[1]).toEqual([])
+    expect(hours.holidays).toBeNull()
+  })
+
+  it('keeps the weekly closure when a note shifts it on holidays', () => {
+    for (const restdate of ['매주 월요일(공휴일인 경우 다음 날 휴관)', '매주 월요일, 공휴일인 경우 다음날']) {
+      const hours = parseOpeningHours('09:00~18:00', restdate)!
+      expect(hours.weekly[1]).toEqual([])
+      expect(hours.weekly[2]).toEqual(range('09:00', '18:00'))
+      expect(hours.holidays).toBeNull()
+    }
+
+    const inline = parseOpeningHours('09:00~18:00 / 매주 월요일(공휴일인 경우 다음 날 휴관)')!
+    expect(inline.weekly[1]).toEqual([])
+    expect(inline.weekly[3]).toEqual(range('09:00', '18:00'))
+    expect(inline.holidays).toBeNull()
+  })
+
+  it('takes break times out of the open ranges', () => {
+    const hours = parseOpeningHours('11:00~21:00 브레이크타임 15:00~17:00')!
+    expect(hours.weekly[2]).toEqual([{ open: '11:00', close: '15:00' }, { open: '17:00', close: '21:00' }])
+
+    const weekend = parseOpeningHours('평일 11:00~21:00, 주말 10:00~22:00 (브레이크 타임 15:00~16:00)')!
+    expect(weekend.weekly[6]).toEqual([{ open: '10:00', close: '15:00' }, { open: '16:00', close: '22:00' }])
+  })
+
+  it('treats 연중무휴 and 24시간 as open every day', () => {
+    const always = parseOpeningHours('24시간 연중무휴')!
+    expect(always.weekly).toEqual(Array(7).fill(range('00:00', '24:00')))
+    expect(parseOpeningHours('연중무휴')!.weekly).toEqual(Array(7).fill(null))
+  })
+
+  it('keeps the narrower range when seasonal hours disagree', () => {
+    const hours = parseOpeningHours('하절기(3~10월) 09:00~18:00, 동절기(11~2월) 09:00~17:00')!
+    expect(hours.weekly[4]).toEqual(range('09:00', '17:00'))
+  })
+
+  it('expands BabyGo day-by-day hours', () => {
+    const hours = parseOpeningHours('월 10:00~20:00, 화 10:00~20:00, 토 09:00~21:00')!
+    expect(hours.weekly[1]).toEqual(range('10:00', '20:00'))
+    expect(hours.weekly[6]).toEqual(range('09:00', '21:00'))
+    expect(hours.weekly[3]).toBeNull()
+  })
+})
+
+describe('openStatusAt', () => {
+  const hours = parseOpeningHours('화~일 10:00~18:00 (매주 월요일, 설날 당일 휴관)')
+
+  it('is open inside the range with the closing time', () => {
+    expect(openStatusAt(hours, kst('2026-10-20T14:00'))).toEqual({ state: 'open', closesAt: '18:00', lastEntry: null })
+  })
+
+  it('is closed before opening with the next opening time', () => {
+    expect(openStatusAt(hours, kst('2026-10-20T09:00'))).toEqual({ state: 'closed', opensAt: '10:00', closedToday: false })
+  })
+
+  it('is closed all day on the weekly closure and lunar closure', () => {
+    expect(openStatusAt(hours, kst('2026-10-19T14:00'))).toEqual({ state: 'closed', opensAt: null, closedToday: true })
+    // 2026-02-17 is 설날 (Tuesday)
+    expect(openStatusAt(hours, kst('2026-02-17T14:00')).state).toBe('closed')
+  })
+
+  it('evaluates in KST regardless of the Date offset', () => {
+    // 05:00 UTC = 14:00 KST Tuesday
+    expect(openStatusAt(hours, new Date('2026-10-20T05:00:00Z')).state).toBe('open')
+  })
+
+  it('is unknown without hours or for an unlisted day', () => {
+    expect(openStatusAt(null, kst('2026-10-20T14:00'))).toEqual({ state: 'unknown' })
+    const partial = parseOpeningHours('평일 10:00~18:00')
+    expect(openStatusAt(partial, kst('2026-10-18T14:00'))).toEqual({ state: 'unknown' })
+  })
+
+  it('uses holiday hours on public holidays', () => {
+    const library = parseOpeningHours('09:00~22:00', '법정공휴일')
+    // 2026-10-09 한글날 (Friday)
+    expect(openStatusAt(library, kst('2026-10-09T12:00')).state).toBe('closed')
+    expect(openStatusAt(library, kst('2026-10-08T12:00')).state).toBe('open')
+  })
+
+  it('applies nth-weekday closures', () => {
+    const library = parseOpeningHours('09:00~18:00', '매월 둘째·넷째 월요일')
+    expect(openStatusAt(library, kst('2026-10-12T12:00')).state).toBe('closed') // 2nd Monday
+    expect(openStatusAt(library, kst('2026-10-05T12:00')).state).toBe('open') // 1st Monday
+  })
+
+  it('carries past-midnight ranges into the next day', () => {
+    const late = parseOpeningHours('18:00~02:00')
+    expect(openStatusAt(late, kst('2026-10-20T01:00'))).toEqual({ state: 'open', closesAt: '02:00', lastEntry: null })
+    expect(openStatusAt(late, kst('2026-10-20T03:00')).state).toBe('closed')
+  })
+})
+
+describe('isOpenAt', () => {
+  it('passes unknown hours and rejects after 입장마감', () => {
+    const hours = parseOpeningHours('10:00~18:00 (입장마감 17:00)')
+    expect(isOpenAt(null, kst('2026-10-20T14:00'))).toBe(true)
+    expect(isOpenAt(hours, kst('2026-10-20T16:30'))).toBe(true)
+    expect(isOpenAt(hours, kst('2026-10-20T17:30'))).toBe(false)
+    expect(isOpenAt(hours, kst('2026-10-20T19:00'))).toBe(false)
+  })
+})
+
+describe('describeOpenStatus', () => {
+  it('labels each state', () => {
+    expect(describeOpenStatus({ state: 'open', closesAt: '18:00', lastEntry: null })).toEqual({ label: '영업 중 · 18:00 마감', tone: 'open' })
+    expect(describeOpenStatus({ state: 'closed', opensAt: null, closedToday: true })!.label).toBe('오늘 휴무')
+    expect(describeOpenStatus({ state: 'closed', opensAt: '10:00', closedToday: false })!.label).toBe('10:00 오픈')
+    expect(describeOpenStatus({ state: 'closed', opensAt: null, closedToday: false })!.label).toBe('영업 종료')
+    expect(describeOpenStatus({ state: 'unknown' })).toBeNull()
+  })
+})
+
+describe('parseOpenAtParam', () => {
+  it('reads offset-less local times as KST', () => {
+    expect(parseOpenAtParam('2026-10-20T14:00')!.toISOString()).toBe('2026-10-20T05:00:00.000Z')
+    expect(parseOpenAtParam('2026-10-20T14:00:00Z')!.toISOString()).toBe('2026-10-20T14:00:00.000Z')
+  })
+
+  it('rejects invalid input', () => {
+    expect(parseOpenAtParam(null)).toBeNull()
+    expect(parseOpenAtParam('tomorrow')).toBeNull()
+  })
+})
+
+describe('normalizeClock', () => {
+  it('normalizes public-data clock values', () => {
+    expect(normalizeClock('0900')).toBe('09:00')
+    expect(normalizeClock('9:30')).toBe('09:30')
+    expect(normalizeClock('18:00')).toBe('18:00')
+    expect(normalizeClock('00:00')).toBeNull()
+    expect(normalizeClock('')).toBeNull()
+  })
+})
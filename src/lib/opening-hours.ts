@@ -0,0 +1,488 @@
+/**
+ * Structured opening hours for places, plus a parser for the Korean free-text
+ * formats collectors receive (Tour API usetime/restdate, public-data 운영시간/
+ * 휴관일, BabyGo business_hours):
+ *
+ *   "10:00~18:00 (입장마감 17:00)"
+ *   "화~일 10:00~18:00 / 매주 월요일, 1월 1일, 설날·추석 당일 휴관"
+ *   "평일 09:00~18:00, 주말 및 공휴일 10:00~17:00"
+ *   "매월 둘째·넷째 월요일 휴관", "연중무휴", "24시간"
+ *
+ * All evaluation happens in KST regardless of the server time zone.
+ */
+
+import { isPublicHoliday, lunarClosureDays, type LunarClosure } from './korean-holidays'
+
+/** 'HH:MM'; close may be '24:00', and close < open means past midnight */
+export interface TimeRange {
+  open: string
+  close: string
+}
+
+export interface OpeningHours {
+  /** Index = Date.getDay() (0 = Sun). [] = closed all day, null = unknown */
+  weekly: (TimeRange[] | null)[]
+  /** Hours on 법정공휴일; [] = closed, null = same as that weekday */
+  holidays: TimeRange[] | null
+  /** 매월 둘째·넷째 월요일 style closures; nth -1 = last */
+  closedNth: { nth: number; weekday: number }[]
+  /** Annual 'MM-DD' closures and LunarClosure keys */
+  closedDates: string[]
+  /** 입장마감 'HH:MM' */
+  lastEntry: string | null
+}
+
+export type OpenStatus =
+  | { state: 'open'; closesAt: string; lastEntry: string | null }
+  | { state: 'closed'; opensAt: string | null; closedToday: boolean }
+  | { state: 'unknown' }
+
+const DAY_CHARS = '일월화수목금토'
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6]
+
+const CLOSURE_KEYWORD = /휴관|휴무|휴장|휴점|휴원|정기\s*휴일|쉽니다|(?<![가-힣])쉼(?![가-힣])/
+/** Sub-clauses that describe a shifted or cancelled closure, not a closure */
+const CLOSURE_EXCEPTION = /경우|다음\s*날|익일|개관|정상\s*운영/
+/** The exception plus the condition word before it ("공휴일인 경우 …") */
+const CLOSURE_EXCEPTION_TAIL = /(?:\S+\s+)?(?:경우|다음\s*날|익일|개관|정상\s*운영)[\s\S]*$/
+const CLAUSE_SPLIT = /[()[\]\n/※*]/
+const SEASON_KEYWORD = /하절기|동절기|하계|동계|여름|겨울|\d{1,2}\s*월\s*[~-]\s*\d{1,2}\s*월/
+
+const TIME = String.raw`(?:(오전|오후)\s*)?(\d{1,2})\s*(?::\s*(\d{2})|시(?:\s*(\d{1,2})\s*분|\s*반)?)`
+const RANGE_PATTERN = new RegExp(`${TIME}\\s*(?:[~-]|부터)\\s*${TIME}(?:\\s*까지)?`, 'g')
+/** "브레이크타임 15:00~17:00" — closed in between, not an extra shift */
+const BREAK_PATTERN = new RegExp(`(?:브레이크\\s*타임|브레이크|휴게\\s*시간|break\\s*time)\\s*:?\\s*${RANGE_PATTERN.source}`, 'gi')
+const LAST_ENTRY_PATTERNS = [
+  new RegExp(`입장\\s*마감\\s*[:：]?\\s*${TIME}`),
+  new RegExp(`${TIME}\\s*(?:까지\\s*)?입장\\s*마감`),
+  new RegExp(`입장은?\\s*${TIME}\\s*까지`),
+]
+const ORDINALS: Record<string, number> = {
+  첫: 1, '1': 1, 둘: 2, '2': 2, 셋: 3, '3': 3, 넷: 4, '4': 4, 다섯: 5, '5': 5, 마지막: -1,
+}
+const NTH_PATTERN = /((?:(?:첫|둘|셋|넷|다섯|마지막|[1-5])(?:째|번째)?\s*(?:주)?\s*(?:[,·및와과]\s*)?)+)\s*(?:주\s*)?([일월화수목금토])요일/g
+
+function emptyHours(): OpeningHours {
+  return { weekly: [null, null, null, null, null, null, null], holidays: null, closedNth: [], closedDates: [], lastEntry: null }
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number)
+  return h * 60 + m
+}
+
+/** Match groups (meridiem, hour, minute, minuteAfter시, …) → hour/minute */
+function readTime(meridiem: string | undefined, hour: string, colonMin: string | undefined, siMin: string | undefined, raw: string): { h: number; m: number } {
+  let h = Number(hour)
+  const m = colonMin ? Number(colonMin) : siMin ? Number(siMin) : raw.includes('반') ? 30 : 0
+  if (meridiem === '오후' && h < 12) h += 12
+  if (meridiem === '오전' && h === 12) h = 0
+  return { h, m }
+}
+
+function formatTime(h: number, m: number): string {
+  return `${pad(h)}:${pad(m)}`
+}
+
+/** Normalize dashes/tildes/full-width forms so the patterns stay simple */
+function normalize(text: string): string {
+  return text
+    .replace(/[∼〜～]/g, '~')
+    .replace(/[–—−]/g, '-')
+    .replace(/：/g, ':')
+    .replace(/\r/g, '')
+}
+
+// ─── Day tokens ─────────────────────────────────────────────────────────────
+
+interface DaySelection {
+  days: number[]
+  holidays: boolean
+}
+
+function parseDays(text: string): DaySelection {
+  const days = new Set<number>()
+  let holidays = false
+
+  // Dates and 매월 would otherwise read as 월(Mon)/일(Sun)
+  let rest = text
+    .replace(/\d{1,2}\s*월\s*\d{1,2}\s*일/g, ' ')
+    .replace(/\d{1,2}\s*[월일]/g, ' ')
+    .replace(/매월/g, ' ')
+
+  if (/공휴일|국경일|휴일/.test(rest)) holidays = true
+  if (/매일|연중무휴|전일|항시/.test(rest)) ALL_DAYS.forEach((d) => days.add(d))
+  if (/평일|주중/.test(rest)) [1, 2, 3, 4, 5].forEach((d) => days.add(d))
+  if (/주말/.test(rest)) [0, 6].forEach((d) => days.add(d))
+  rest = rest.replace(/공휴일|국경일|휴일|매일|평일|주중|주말|당일/g, ' ')
+
+  rest = rest.replace(
+    /(?<![가-힣])([일월화수목금토])(?:요일)?\s*[~-]\s*([일월화수목금토])(?:요일|(?![가-힣]))/g,
+    (_m, from: string, to: string) => {
+      const start = DAY_CHARS.indexOf(from)
+      const end = DAY_CHARS.indexOf(to)
+      for (let i = 0; i <= (end - start + 7) % 7; i++) days.add((start + i) % 7)
+      return ' '
+    }
+  )
+  for (const match of rest.matchAll(/(?<![가-힣])([일월화수목금토])(?:요일|(?![가-힣]))/g)) {
+    days.add(DAY_CHARS.indexOf(match[1]))
+  }
+
+  return { days: [...days].sort(), holidays }
+}
+
+// ─── Closures ───────────────────────────────────────────────────────────────
+
+function applyClosures(text: string, hours: OpeningHours): boolean {
+  let found = false
+  let rest = text.replace(/정기\s*휴[일관무]/g, ' ')
+
+  if (/연중\s*무휴|휴관일?\s*없음|휴무\s*없음/.test(rest)) return true
+
+  rest = rest.replace(NTH_PATTERN, (_m, ordinals: string, dayChar: string) => {
+    const weekday = DAY_CHARS.indexOf(dayChar)
+    for (const token of ordinals.match(/첫|둘|셋|넷|다섯|마지막|[1-5]/g) ?? []) {
+      hours.closedNth.push({ nth: ORDINALS[token], weekday })
+    }
+    found = true
+    return ' '
+  })
+
+  for (const match of rest.matchAll(/(\d{1,2})\s*월\s*(\d{1,2})\s*일/g)) {
+    hours.closedDates.push(`${pad(Number(match[1]))}-${pad(Number(match[2]))}`)
+    found = true
+  }
+
+  const period = /연휴/.test(rest)
+  const lunar: LunarClosure[] = []
+  if (/설날?|구정/.test(rest)) lunar.push(period ? 'seollal-period' : 'seollal')
+  if (/추석/.test(rest)) lunar.push(period ? 'chuseok-period' : 'chuseok')
+  if (lunar.length > 0) {
+    hours.closedDates.push(...lunar)
+    found = true
+  }
+
+  const { days, holidays } = parseDays(rest.replace(/설날?|구정|추석|연휴/g, ' '))
+  for (const day of days) hours.weekly[day] = []
+  if (holidays) hours.holidays = []
+  return found || days.length > 0 || holidays
+}
+
+// ─── Hours ──────────────────────────────────────────────────────────────────
+
+interface Assignment {
+  days: number[]
+  holidays: boolean
+  ranges: TimeRange[]
+  seasonal: boolean
+}
+
+/** RANGE_PATTERN groups (match[1..8]) → TimeRange; text before the first time is ignored */
+function toRange(match: RegExpMatchArray, raw: string): TimeRange {
+  const range = raw.slice(Math.max(0, raw.search(/\d|오전|오후/)))
+  const open = readTime(match[1], match[2], match[3], match[4], range.split(/[~-]|부터/)[0])
+  const close = readTime(match[5], match[6], match[7], match[8], range.split(/[~-]|부터/).slice(1).join(''))
+  // "10시~6시" without 오전/오후 means 6pm; HH:MM is already 24-hour
+  if (!match[5] && match[7] === undefined && close.h < open.h && close.h <= 12 && close.h + 12 > open.h) close.h += 12
+  return {
+    open: formatTime(open.h, open.m),
+    close: close.h === 0 && close.m === 0 ? '24:00' : formatTime(close.h, close.m),
+  }
+}
+
+function readRanges(text: string): Assignment[] {
+  const assignments: Assignment[] = []
+  let cursor = 0
+
+  for (const match of text.matchAll(RANGE_PATTERN)) {
+    const raw = match[0]
+    const range = toRange(match, raw)
+
+    const before = text.slice(cursor, match.index)
+    cursor = (match.index ?? 0) + raw.length
+    const selection = parseDays(before)
+    const explicit = selection.days.length > 0 || selection.holidays
+    const seasonal = SEASON_KEYWORD.test(before)
+    const last = assignments[assignments.length - 1]
+
+    if (!explicit && !seasonal && last) {
+      // "10:00~12:00, 13:00~18:00" — a second shift for the same days
+      last.ranges.push(range)
+    } else {
+      assignments.push({
+        days: explicit ? selection.days : ALL_DAYS,
+        holidays: selection.holidays,
+        ranges: [range],
+        seasonal,
+      })
+    }
+  }
+  return assignments
+}
+
+/** Overlap of two range lists; used when 하절기/동절기 hours disagree */
+function intersect(a: TimeRange[], b: TimeRange[]): TimeRange[] {
+  const out: TimeRange[] = []
+  for (const x of a) {
+    for (const y of b) {
+      const open = Math.max(toMinutes(x.open), toMinutes(y.open))
+      const close = Math.min(toMinutes(x.close), toMinutes(y.close))
+      if (close > open) out.push({ open: formatTime(Math.floor(open / 60), open % 60), close: formatTime(Math.floor(close / 60), close % 60) })
+    }
+  }
+  return out
+}
+
+/** Ranges minus a break; overnight ranges are left alone */
+function subtract(ranges: TimeRange[], cut: TimeRange): TimeRange[] {
+  const cutOpen = toMinutes(cut.open)
+  const cutClose = toMinutes(cut.close)
+  const out: TimeRange[] = []
+  for (const r of ranges) {
+    const open = toMinutes(r.open)
+    const close = toMinutes(r.close)
+    if (close < open || cutClose <= open || cutOpen >= close) {
+      out.push(r)
+      continue
+    }
+    if (cutOpen > open) out.push({ open: r.open, close: cut.open })
+    if (cutClose < close) out.push({ open: cut.close, close: r.close })
+  }
+  return out
+}
+
+function applyAssignments(assignments: Assignment[], hours: OpeningHours): void {
+  const seasonalDays = new Set<number>()
+  for (const a of assignments) {
+    for (const day of a.days) {
+      const current = hours.weekly[day]
+      hours.weekly[day] = a.seasonal && seasonalDays.has(day) && current ? intersect(current, a.ranges) : [...a.ranges]
+      if (a.seasonal) seasonalDays.add(day)
+    }
+    if (a.holidays) hours.holidays = [...a.ranges]
+  }
+}
+
+// ─── Closure notes ──────────────────────────────────────────────────────────
+
+/**
+ * "매주 월요일(공휴일인 경우 다음 날 휴관)": the note only shifts the closure,
+ * but its 휴관 is the one that marks "매주 월요일" as closed. Replace such a
+ * note with a bare 휴관 so the text before it reads as a closure clause.
+ */
+function foldClosureNotes(text: string): string {
+  return text.replace(/\(([^()]*)\)/g, (note, inner: string) =>
+    CLOSURE_EXCEPTION.test(inner) && CLOSURE_KEYWORD.test(inner) ? ' 휴관' : note
+  )
+}
+
+/**
+ * Drop the shifted/cancelled part of each comma-separated sub-clause:
+ * "매주 월요일, 공휴일인 경우 다음날" → "매주 월요일"
+ */
+function stripClosureExceptions(clause: string): string {
+  return clause
+    .split(/[,，]/)
+    .map((part) => (CLOSURE_EXCEPTION.test(part) ? part.replace(CLOSURE_EXCEPTION_TAIL, '') : part))
+    .join(',')
+}
+
+// ─── Parser ─────────────────────────────────────────────────────────────────
+
+/**
+ * Parse usetime-style text plus an optional separate closed-days field.
+ * Returns null when neither yields anything recognizable.
+ */
+export function parseOpeningHours(usetime: string | null | undefined, restdate?: string | null): OpeningHours | null {
+  const hours = emptyHours()
+  let recognized = false
+  let text = normalize(usetime ?? '')
+
+  for (const pattern of LAST_ENTRY_PATTERNS) {
+    const match = text.match(pattern)
+    if (!match) continue
+    const t = readTime(match[1], match[2], match[3], match[4], match[0])
+    hours.lastEntry = formatTime(t.h, t.m)
+    text = text.replace(match[0], ' ')
+    recognized = true
+    break
+  }
+
+  // No closed days; hours stay unknown unless a range follows
+  if (/연중\s*무휴/.test(text)) recognized = true
+
+  if (/24\s*시간/.test(text)) {
+    ALL_DAYS.forEach((d) => { hours.weekly[d] = [{ open: '00:00', close: '24:00' }] })
+    recognized = true
+  }
+
+  // Break times come out of the open ranges after those are read
+  const breaks = [...text.matchAll(BREAK_PATTERN)].map((match) => toRange(match, match[0]))
+  text = text.replace(BREAK_PATTERN, ' ')
+
+  // Clauses: parentheses, line breaks, slashes and ※ notes. Every restdate
+  // clause is a closure, keyword or not ("매주 월요일").
+  const hourClauses: string[] = []
+  const closureClauses: string[] = restdate ? foldClosureNotes(normalize(restdate)).split(CLAUSE_SPLIT) : []
+  for (const clause of foldClosureNotes(text).split(CLAUSE_SPLIT)) {
+    if (!CLOSURE_KEYWORD.test(clause)) {
+      hourClauses.push(clause)
+      continue
+    }
+    // "월~금 10:00~18:00 토요일 휴무" — the closure is whatever follows the last time range
+    const ranges = [...clause.matchAll(RANGE_PATTERN)]
+    if (ranges.length > 0) {
+      const lastRange = ranges[ranges.length - 1]
+      const cut = (lastRange.index ?? 0) + lastRange[0].length
+      hourClauses.push(clause.slice(0, cut))
+      closureClauses.push(clause.slice(cut))
+    } else {
+      closureClauses.push(clause)
+    }
+  }
+
+  const assignments = readRanges(hourClauses.join('\n'))
+  if (assignments.length > 0) {
+    applyAssignments(assignments, hours)
+    for (const cut of breaks) {
+      hours.weekly = hours.weekly.map((ranges) => ranges && subtract(ranges, cut))
+      if (hours.holidays) hours.holidays = subtract(hours.holidays, cut)
+    }
+    recognized = true
+  }
+
+  for (const clause of closureClauses) {
+    if (applyClosures(stripClosureExceptions(clause), hours)) recognized = true
+  }
+
+  return recognized ? hours : null
+}
+
+// ─── Evaluation ─────────────────────────────────────────────────────────────
+
+interface KstParts {
+  year: number
+  monthDay: string
+  day: number
+  weekday: number
+  minutes: number
+  daysInMonth: number
+}
+
+function kstParts(at: Date): KstParts {
+  const kst = new Date(at.getTime() + 9 * 60 * 60 * 1000)
+  const year = kst.getUTCFullYear()
+  const month = kst.getUTCMonth()
+  return {
+    year,
+    monthDay: `${pad(month + 1)}-${pad(kst.getUTCDate())}`,
+    day: kst.getUTCDate(),
+    weekday: kst.getUTCDay(),
+    minutes: kst.getUTCHours() * 60 + kst.getUTCMinutes(),
+    daysInMonth: new Date(Date.UTC(year, month + 1, 0)).getUTCDate(),
+  }
+}
+
+/** Ranges for one KST calendar day after closures and holidays; null = unknown */
+function rangesOn(hours: OpeningHours, parts: KstParts): TimeRange[] | null {
+  const closedByDate = hours.closedDates.some((key) =>
+    key === parts.monthDay ||
+    (!/^\d/.test(key) && lunarClosureDays(key as LunarClosure, parts.year).includes(parts.monthDay))
+  )
+  if (closedByDate) return []
+
+  const closedByNth = hours.closedNth.some((n) =>
+    n.weekday === parts.weekday &&
+    (n.nth === -1 ? parts.day + 7 > parts.daysInMonth : Math.ceil(parts.day / 7) === n.nth)
+  )
+  if (closedByNth) return []
+
+  if (hours.holidays !== null && isPublicHoliday(parts.year, parts.monthDay)) return hours.holidays
+  return hours.weekly[parts.weekday]
+}
+
+/** Open / closed / unknown at a moment, with the next boundary for the badge */
+export function openStatusAt(hours: OpeningHours | null | undefined, at: Date): OpenStatus {
+  if (!hours) return { state: 'unknown' }
+  const today = kstParts(at)
+  const ranges = rangesOn(hours, today)
+
+  // Past-midnight shift from yesterday ("18:00~02:00")
+  const yesterday = rangesOn(hours, kstParts(new Date(at.getTime() - 24 * 60 * 60 * 1000)))
+  for (const r of yesterday ?? []) {
+    const open = toMinutes(r.open)
+    const close = toMinutes(r.close)
+    if (close < open && today.minutes < close) return { state: 'open', closesAt: r.close, lastEntry: hours.lastEntry }
+  }
+
+  if (ranges === null) return { state: 'unknown' }
+  if (ranges.length === 0) return { state: 'closed', opensAt: null, closedToday: true }
+
+  for (const r of ranges) {
+    const open = toMinutes(r.open)
+    const close = toMinutes(r.close)
+    const overnight = close < open
+    if (today.minutes >= open && (overnight || today.minutes < close)) {
+      return { state: 'open', closesAt: r.close, lastEntry: hours.lastEntry }
+    }
+  }
+
+  const next = ranges.map((r) => r.open).filter((open) => toMinutes(open) > today.minutes).sort()[0] ?? null
+  return { state: 'closed', opensAt: next, closedToday: false }
+}
+
+/**
+ * Filter predicate for openNow/openAt: false only when the place is known to be
+ * closed (or past 입장마감) at that moment; unknown hours pass.
+ */
+export function isOpenAt(hours: OpeningHours | null | undefined, at: Date): boolean {
+  const status = openStatusAt(hours, at)
+  if (status.state === 'closed') return false
+  if (status.state === 'open' && status.lastEntry) {
+    const minutes = kstParts(at).minutes
+    const lastEntry = toMinutes(status.lastEntry)
+    // Only meaningful when last entry falls inside the current range
+    if (lastEntry < toMinutes(status.closesAt) && minutes >= lastEntry) return false
+  }
+  return true
+}
+
+/** Badge label and tone for PlaceCard; null when hours are unknown */
+export function describeOpenStatus(status: OpenStatus): { label: string; tone: 'open' | 'closed' } | null {
+  switch (status.state) {
+    case 'open':
+      return { label: `영업 중 · ${status.closesAt} 마감`, tone: 'open' }
+    case 'closed':
+      if (status.closedToday) return { label: '오늘 휴무', tone: 'closed' }
+      if (status.opensAt) return { label: `${status.opensAt} 오픈`, tone: 'closed' }
+      return { label: '영업 종료', tone: 'closed' }
+    default:
+      return null
+  }
+}
+
+/**
+ * Parse an openAt query param. 'YYYY-MM-DDTHH:MM' without an offset is read as
+ * KST; anything Date can parse with an offset is accepted as-is.
+ */
+export function parseOpenAtParam(raw: string | null): Date | null {
+  if (!raw) return null
+  const local = raw.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})$/)
+  const date = new Date(local ? `${local[1]}T${local[2]}:00+09:00` : raw)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/** HHMM / HH:MM / H:MM → 'HH:MM'; null for blanks and the 00:00 "no data" value */
+export function normalizeClock(raw: string | null | undefined): string | null {
+  const match = raw?.trim().match(/^(\d{1,2}):?(\d{2})$/)
+  if (!match) return null
+  const h = Number(match[1])
+  const m = Number(match[2])
+  if (h > 24 || m > 59 || (h === 0 && m === 0)) return null
+  return formatTime(h, m)
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import {
+  summarizeFactVotes,
+  voteWeight,
+  settledAnswer,
+  isCrowdClosed,
+  applyFactConfirmations,
+  isFactAttribute,
+  VOTE_HALF_LIFE_DAYS,
+  type FactVote,
+} from './place-facts'
+
+const NOW = new Date('2026-06-01T00:00:00Z')
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString()
+}
+
+function votes(attribute: FactVote['attribute'], answers: [boolean, number][]): FactVote[] {
+  return answers.map(([answer, age]) => ({ attribute, answer, answered_at: daysAgo(age) }))
+}
+
+describe('voteWeight', () => {
+  it('halves every half-life', () => {
+    expect(voteWeight(daysAgo(0), NOW)).toBe(1)
+    expect(voteWeight(daysAgo(VOTE_HALF_LIFE_DAYS), NOW)).toBeCloseTo(0.5)
+    expect(voteWeight(daysAgo(VOTE_HALF_LIFE_DAYS * 2), NOW)).toBeCloseTo(0.25)
+  })
+})
+
+describe('summarizeFactVotes', () => {
+  it('aggregates per attribute in display order', () => {
+    const summaries = summarizeFactVotes(
+      [...votes('parking', [[true, 0]]), ...votes('open', [[true, 0], [false, 0]])],
+      NOW
+    )
+    expect(summaries.map((s) => s.attribute)).toEqual(['open', 'parking'])
+    expect(summaries[0]).toMatchObject({ yes: 1, no: 1, weight: 2, confidence: 0.5 })
+    expect(summaries[1].last_answered_at).toBe(daysAgo(0))
+  })
+
+  it('lets recent answers outweigh old ones', () => {
+    const [summary] = summarizeFactVotes(
+      votes('nursing_room', [[true, 360], [true, 360], [false, 0], [false, 0], [false, 1]]),
+      NOW
+    )
+    expect(summary.confidence).toBeLessThan(0.25)
+    expect(settledAnswer(summary)).toBe(false)
+  })
+})
+
+describe('settledAnswer / isCrowdClosed', () => {
+  it('needs more than one recent, agreeing answer to settle', () => {
+    expect(settledAnswer(summarizeFactVotes(votes('elevator', [[true, 0]]), NOW)[0])).toBeNull()
+    expect(settledAnswer(summarizeFactVotes(votes('elevator', [[true, 0], [false, 0]]), NOW)[0])).toBeNull()
+    expect(settledAnswer(summarizeFactVotes(votes('elevator', [[true, 200], [true, 200]]), NOW)[0])).toBeNull()
+    expect(settledAnswer(summarizeFactVotes(votes('elevator', [[true, 0], [true, 1]]), NOW)[0])).toBe(true)
+    expect(settledAnswer(undefined)).toBeNull()
+  })
+
+  it('flags closure only after several recent "closed" answers', () => {
+    const two = summarizeFactVotes(votes('open', [[false, 0], [false, 0]]), NOW)[0]
+    const three = summarizeFactVotes(votes('open', [[false, 0], [false, 0], [false, 2]]), NOW)[0]
+    const stale = summarizeFactVotes(votes('open', [[false, 300], [false, 300], [false, 300]]), NOW)[0]
+    expect(isCrowdClosed(two)).toBe(false)
+    expect(isCrowdClosed(three)).toBe(true)
+    expect(isCrowdClosed(stale)).toBe(false)
+  })
+})
+
+describe('applyFactConfirmations', () => {
+  const babygo = {
+    nursing_room: { present: true, detail: null, source: 'babygo', confirmed_at: daysAgo(30), kinds: ['family' as const] },
+    parking: { present: true, detail: null, source: 'kakao', confirmed_at: daysAgo(1) },
+  }
+
+  it('refreshes agreeing amenities without losing their variant', () => {
+    const summaries = summarizeFactVotes(votes('nursing_room', [[true, 0], [true, 0], [true, 0]]), NOW)
+    const applied = applyFactConfirmations(babygo, summaries)
+    expect(applied.nursing_room).toEqual({ ...babygo.nursing_room, confirmed_at: daysAgo(0) })
+  })
+
+  it('replaces contradicted amenities and adds new ones', () => {
+    const summaries = summarizeFactVotes(
+      [...votes('parking', [[false, 3], [false, 3], [false, 3]]), ...votes('baby_chair', [[true, 0], [true, 0], [true, 0]])],
+      NOW
+    )
+    const applied = applyFactConfirmations(babygo, summaries)
+    expect(applied.parking).toMatchObject({ present: false, source: 'user_confirmation', detail: '사용자 확인 3명' })
+    expect(applied.baby_chair).toMatchObject({ present: true, source: 'user_confirmation' })
+    expect(applied.nursing_room).toEqual(babygo.nursing_room)
+  })
+
+  it('ignores open/closed and undecided answers', () => {
+    const summaries = summarizeFactVotes([...votes('open', [[false, 0]]), ...votes('elevator', [[true, 0], [false, 0]])], NOW)
+    expect(applyFactConfirmations(null, summaries)).toEqual({})
+  })
+})
+
+describe('isFactAttribute', () => {
+  it('accepts open and amenity keys only', () => {
+    expect(isFactAttribute('open')).toBe(true)
+    expect(isFactAttribute('step_free_entrance')).toBe(true)
+    expect(isFactAttribute('wifi')).toBe(false)
+    expect(isFactAttribute(3)).toBe(false)
+  })
+})
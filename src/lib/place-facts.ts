@@ -0,0 +1,150 @@
+/**
+ * Crowd-sourced place facts — yes/no answers from the place page
+ * ("수유실 있음?", "아직 영업 중?") aggregated into per-attribute confidence.
+ *
+ * Each user keeps one answer per attribute (place_fact_votes, re-answering
+ * replaces it). Answers lose half their weight every VOTE_HALF_LIFE_DAYS, so
+ * a place that reopened or lost its nursing room recovers from old votes.
+ * Confidence is the decayed share of "yes" with one phantom vote on each side,
+ * which keeps a single answer from settling anything.
+ *
+ * Settled amenity answers are applied to places.amenities (on each answer and
+ * in the place-fields step); a settled "closed" feeds runAutoDeactivate.
+ */
+
+import { AMENITY_KEYS, type AmenityKey, type AmenityObservation, type PlaceAmenities } from './amenities'
+
+export type FactAttribute = 'open' | AmenityKey
+
+export const FACT_ATTRIBUTES: FactAttribute[] = ['open', ...AMENITY_KEYS]
+
+/** Display order on the place page */
+export const FACT_QUESTIONS: { attribute: FactAttribute; question: string }[] = [
+  { attribute: 'open', question: '아직 영업 중인가요?' },
+  { attribute: 'nursing_room', question: '수유실이 있나요?' },
+  { attribute: 'changing_table', question: '기저귀교환대가 있나요?' },
+  { attribute: 'step_free_entrance', question: '유모차로 들어갈 수 있나요?' },
+  { attribute: 'stroller_rental', question: '유모차를 빌릴 수 있나요?' },
+  { attribute: 'elevator', question: '엘리베이터가 있나요?' },
+  { attribute: 'parking', question: '주차할 수 있나요?' },
+  { attribute: 'baby_chair', question: '아기의자가 있나요?' },
+]
+
+export interface FactVote {
+  attribute: FactAttribute
+  answer: boolean
+  answered_at: string
+}
+
+export interface FactSummary {
+  attribute: FactAttribute
+  /** Raw answer counts */
+  yes: number
+  no: number
+  /** Sum of decayed vote weights */
+  weight: number
+  /** Decayed probability that the answer is "yes" (0..1) */
+  confidence: number
+  last_answered_at: string
+}
+
+export const VOTE_HALF_LIFE_DAYS = 90
+
+/** Decayed weight needed before an answer counts as settled (~2 recent votes) */
+export const SETTLED_MIN_WEIGHT = 1.5
+export const SETTLED_CONFIDENCE = 0.7
+
+/** "Closed" needs a bit more agreement (~3 recent votes) before it feeds deactivation */
+export const CLOSED_MIN_WEIGHT = 2.5
+export const CLOSED_MAX_CONFIDENCE = 0.25
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function isFactAttribute(value: unknown): value is FactAttribute {
+  return typeof value === 'string' && (FACT_ATTRIBUTES as string[]).includes(value)
+}
+
+export function voteWeight(answeredAt: string, now: Date = new Date()): number {
+  const ageDays = Math.max(0, (now.getTime() - new Date(answeredAt).getTime()) / DAY_MS)
+  return Math.pow(0.5, ageDays / VOTE_HALF_LIFE_DAYS)
+}
+
+/** One summary per attribute that has answers, in FACT_ATTRIBUTES order */
+export function summarizeFactVotes(votes: FactVote[], now: Date = new Date()): FactSummary[] {
+  const byAttribute = new Map<FactAttribute, { yes: number; no: number; yesW: number; noW: number; last: string }>()
+  for (const vote of votes) {
+    const entry = byAttribute.get(vote.attribute) ?? { yes: 0, no: 0, yesW: 0, noW: 0, last: vote.answered_at }
+    const weight = voteWeight(vote.answered_at, now)
+    if (vote.answer) {
+      entry.yes++
+      entry.yesW += weight
+    } else {
+      entry.no++
+      entry.noW += weight
+    }
+    if (vote.answered_at > entry.last) entry.last = vote.answered_at
+    byAttribute.set(vote.attribute, entry)
+  }
+
+  return FACT_ATTRIBUTES.filter((attribute) => byAttribute.has(attribute)).map((attribute) => {
+    const { yes, no, yesW, noW, last } = byAttribute.get(attribute)!
+    return {
+      attribute,
+      yes,
+      no,
+      weight: yesW + noW,
+      confidence: (yesW + 1) / (yesW + noW + 2),
+      last_answered_at: last,
+    }
+  })
+}
+
+/** true / false once enough recent answers agree; null while undecided */
+export function settledAnswer(summary: FactSummary | undefined): boolean | null {
+  if (!summary || summary.weight < SETTLED_MIN_WEIGHT) return null
+  if (summary.confidence >= SETTLED_CONFIDENCE) return true
+  if (summary.confidence <= 1 - SETTLED_CONFIDENCE) return false
+  return null
+}
+
+/** Users agree the place has closed — one of runAutoDeactivate's signals */
+export function isCrowdClosed(summary: FactSummary | undefined): boolean {
+  return (
+    !!summary &&
+    summary.attribute === 'open' &&
+    summary.weight >= CLOSED_MIN_WEIGHT &&
+    summary.confidence <= CLOSED_MAX_CONFIDENCE
+  )
+}
+
+/**
+ * Apply settled amenity answers on top of the source-resolved amenities.
+ * Agreeing answers only refresh confirmed_at (the source's detail and variant
+ * stay); contradicting or new ones replace the entry as 'user_confirmation',
+ * even over a fresher collector run — visitors see the place as it is now.
+ */
+export function applyFactConfirmations(
+  amenities: PlaceAmenities | null | undefined,
+  summaries: FactSummary[]
+): PlaceAmenities {
+  const result: Record<string, AmenityObservation> = { ...(amenities ?? {}) }
+  for (const summary of summaries) {
+    if (summary.attribute === 'open') continue
+    const answer = settledAnswer(summary)
+    if (answer === null) continue
+    const current = result[summary.attribute]
+    if (current && current.present === answer) {
+      if (summary.last_answered_at > current.confirmed_at) {
+        result[summary.attribute] = { ...current, confirmed_at: summary.last_answered_at }
+      }
+      continue
+    }
+    result[summary.attribute] = {
+      present: answer,
+      detail: `사용자 확인 ${summary.yes + summary.no}명`,
+      source: 'user_confirmation',
+      confirmed_at: summary.last_answered_at,
+    }
+  }
+  return result as PlaceAmenities
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { parsePrice, toPriceColumns, entryPrice, priceChips, formatWon, parseMaxPriceParam } from './price'
+
+describe('parsePrice', () => {
+  it('returns null for empty or unrelated text', () => {
+    expect(parsePrice(null)).toBeNull()
+    expect(parsePrice('')).toBeNull()
+    expect(parsePrice('홈페이지 참조')).toBeNull()
+  })
+
+  it('reads free and paid-without-amount text', () => {
+    expect(parsePrice('무료')).toEqual({ isFree: true, adult: 0, child: 0, infant: null, freeUnderMonths: null })
+    expect(parsePrice('전석무료')!.isFree).toBe(true)
+    expect(parsePrice('무료(사전예약 필수)')!.isFree).toBe(true)
+    expect(parsePrice('입장료 없음')!.isFree).toBe(true)
+    expect(parsePrice('유료')).toEqual({ isFree: false, adult: null, child: null, infant: null, freeUnderMonths: null })
+  })
+
+  it('assigns amounts to the nearest audience keyword', () => {
+    const price = parsePrice('성인 5,000원 / 어린이 3,000원 (24개월 미만 무료)')!
+    expect(price).toEqual({ isFree: false, adult: 5000, child: 3000, infant: 0, freeUnderMonths: 24 })
+
+    const inline = parsePrice('어른 1,000원, 청소년 500원, 어린이 300원')!
+    expect(inline.adult).toBe(1000)
+    expect(inline.child).toBe(300)
+
+    expect(parsePrice('어린이(36개월 이상) 12,000원, 보호자 5,000원')).toMatchObject({ adult: 5000, child: 12000 })
+  })
+
+  it('fills adult and child from seat prices without an audience', () => {
+    expect(parsePrice('R석 50,000원, S석 40,000원')).toMatchObject({ isFree: false, adult: 40000, child: 40000 })
+    expect(parsePrice('전석 25,000원')).toMatchObject({ adult: 25000, child: 25000 })
+    expect(parsePrice('기본 2시간 12000원, 보호자 3000원')).toMatchObject({ adult: 3000, child: 12000 })
+  })
+
+  it('ignores overtime and extra-unit fees', () => {
+    expect(parsePrice('어린이 1인 2시간 18,000원 (추가 30분당 3,000원)')).toMatchObject({ adult: null, child: 18000 })
+    expect(parsePrice('기본 1시간 10,000원, 1시간 초과 시 10분당 1,000원')).toMatchObject({ adult: 10000, child: 10000 })
+    expect(parsePrice('1인당 12,000원')).toMatchObject({ adult: 12000, child: 12000 })
+  })
+
+  it('keeps a free accompanying guardian out of the adult price', () => {
+    expect(parsePrice('1인 15,000원 (보호자 1인 무료)')).toMatchObject({ isFree: false, adult: 15000, child: 15000 })
+    expect(parsePrice('어린이 8,000원, 보호자 무료')).toMatchObject({ isFree: false, adult: null, child: 8000 })
+  })
+
+  it('reads 만/천 amounts and ranges', () => {
+    expect(parsePrice('1만 5천원')!.child).toBe(15000)
+    expect(parsePrice('1만원')!.child).toBe(10000)
+    expect(parsePrice('5천원')!.child).toBe(5000)
+    expect(parsePrice('5,000~10,000원')!.child).toBe(5000)
+  })
+
+  it('is free only when every listed tier is free', () => {
+    expect(parsePrice('성인 5,000원, 어린이 무료')).toMatchObject({ isFree: false, child: 0 })
+    expect(parsePrice('성인 무료, 어린이 무료')!.isFree).toBe(true)
+  })
+
+  it('reads 세-based free-under rules and strips HTML', () => {
+    expect(parsePrice('1인 10,000원<br>(만 3세 미만 무료)')).toMatchObject({ child: 10000, infant: 0, freeUnderMonths: 36 })
+    expect(parsePrice('36개월 이하 무료')).toEqual({ isFree: null, adult: null, child: null, infant: 0, freeUnderMonths: 37 })
+  })
+})
+
+describe('toPriceColumns', () => {
+  it('maps the model and nulls unparseable text', () => {
+    expect(toPriceColumns(parsePrice('어린이 3,000원'))).toEqual({
+      is_free: false,
+      price_adult: null,
+      price_child: 3000,
+      price_infant: null,
+      free_under_months: null,
+    })
+    expect(toPriceColumns(null).is_free).toBeNull()
+  })
+})
+
+describe('entryPrice', () => {
+  it('prefers the child price', () => {
+    expect(entryPrice({ price_adult: 5000, price_child: 3000 })).toBe(3000)
+    expect(entryPrice({ price_adult: 5000, price_child: null })).toBe(5000)
+    expect(entryPrice({})).toBeNull()
+  })
+})
+
+describe('priceChips', () => {
+  it('labels free, child-free and paid rows', () => {
+    expect(priceChips({ is_free: true, price_adult: 0, price_child: 0 })).toEqual(['무료'])
+    expect(priceChips({ is_free: false, price_adult: 5000, price_child: 0 })).toEqual(['어린이 무료'])
+    expect(priceChips({ is_free: false, price_adult: 5000, price_child: 3000, free_under_months: 24 })).toEqual([
+      '어린이 3,000원',
+      '24개월 미만 무료',
+    ])
+    expect(priceChips({ is_free: false, price_adult: 25000, price_child: 25000 })).toEqual(['2만 5천원'])
+    expect(priceChips({ is_free: false, free_under_months: 48 })).toEqual(['4세 미만 무료'])
+    expect(priceChips({ is_free: null })).toEqual([])
+  })
+})
+
+describe('formatWon', () => {
+  it('uses 만 units for round amounts', () => {
+    expect(formatWon(3000)).toBe('3,000원')
+    expect(formatWon(10000)).toBe('1만원')
+    expect(formatWon(12500)).toBe('12,500원')
+  })
+})
+
+describe('parseMaxPriceParam', () => {
+  it('accepts non-negative integers only', () => {
+    expect(parseMaxPriceParam('10000')).toBe(10000)
+    expect(parseMaxPriceParam('0')).toBe(0)
+    expect(parseMaxPriceParam(null)).toBeNull()
+    expect(parseMaxPriceParam('-1')).toBeNull()
+    expect(parseMaxPriceParam('abc')).toBeNull()
+  })
+})
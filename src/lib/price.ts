@@ -0,0 +1,192 @@
+/**
+ * Price / admission model shared by collectors, /api/events, /api/places and the UI.
+ *
+ * Source price text is free-form Korean (Seoul USE_FEE, Tour API usefee,
+ * KOPIS pcseguidance, BabyGo products, user submissions):
+ *
+ *   "무료", "전석무료", "유료"
+ *   "성인 5,000원 / 어린이 3,000원 (24개월 미만 무료)"
+ *   "R석 50,000원, S석 40,000원", "1만 5천원"
+ *
+ * parsePrice reads each amount (or 무료) together with the audience keyword
+ * closest before it. Amounts without an audience (전석, 1인, R석) fill the
+ * adult and child tiers that aren't listed explicitly. A paid 보호자 amount is
+ * the adult price; "보호자 1인 무료" only lets the accompanying guardian in.
+ *
+ * Filters compare the child price (adult when no child tier is listed), since
+ * that's what the family is actually deciding on.
+ */
+
+export interface PriceModel {
+  /** true = every listed adult/child tier is free; false = paid; null = unknown */
+  isFree: boolean | null
+  /** Lowest price per tier in KRW; 0 = free for that tier, null = not listed */
+  adult: number | null
+  child: number | null
+  infant: number | null
+  /** "24개월 미만 무료" → 24: children younger than this many months enter free */
+  freeUnderMonths: number | null
+}
+
+/** Row shape shared by Place and Event (see migration 00074) */
+export interface PriceColumns {
+  is_free: boolean | null
+  price_adult: number | null
+  price_child: number | null
+  price_infant: number | null
+  free_under_months: number | null
+}
+
+type Tier = 'adult' | 'guardian' | 'child' | 'infant' | 'general'
+
+const TIER_PATTERNS: [Tier, RegExp][] = [
+  ['infant', /영유아|영아|유아|미취학|베이비|(?<!\d)\d+\s*개월\s*(?:미만|이하|까지)|(?<!\d)\d\s*세\s*(?:미만|이하|까지)/g],
+  ['child', /어린이|아동|소인|초등|키즈|청소년|학생/g],
+  ['adult', /성인|어른|대인|일반/g],
+  ['guardian', /보호자|부모/g],
+]
+
+/**
+ * One amount or 무료: "10,000원", "10000원", "1만 5천원", "5천원", "무료".
+ * A comma-grouped number directly before "~" borrows the range's 원 ("5,000~10,000원").
+ */
+const AMOUNT_PATTERN =
+  /(\d+)\s*만\s*(?:(\d+)\s*천\s*)?원|(\d+)\s*천\s*원|(\d{1,3}(?:,\d{3})+|\d{3,})\s*(?:원|(?=[~-]\s*\d[\d,]*\s*원))|(무료|입장료\s*없음)/g
+
+/** Overtime / extra-unit fees before an amount: "추가 30분당", "1시간 초과 시" */
+const EXTRA_FEE_PATTERN = /(?:추가|초과|\d\s*(?:분|시간)\s*당)[^,/\n]*$/
+
+const FREE_UNDER_PATTERN = /(?<!\d)(\d+)\s*(개월|세)\s*(미만|이하|까지)[^,/\n]{0,12}?무료/
+
+function cleanText(text: string): string {
+  return text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/[，]/g, ',')
+    .replace(/[～〜]/g, '~')
+}
+
+function amountOf(match: RegExpExecArray): number {
+  if (match[1] !== undefined) return Number(match[1]) * 10000 + Number(match[2] ?? 0) * 1000
+  if (match[3] !== undefined) return Number(match[3]) * 1000
+  if (match[4] !== undefined) return Number(match[4].replace(/,/g, ''))
+  return 0
+}
+
+/** Audience keyword ending closest to the end of `text`, or 'general' */
+function tierOf(text: string): Tier {
+  let best: Tier = 'general'
+  let bestEnd = -1
+  for (const [tier, pattern] of TIER_PATTERNS) {
+    for (const m of text.matchAll(pattern)) {
+      const end = (m.index ?? 0) + m[0].length
+      if (end > bestEnd) {
+        best = tier
+        bestEnd = end
+      }
+    }
+  }
+  return best
+}
+
+function freeUnderMonths(text: string): number | null {
+  const m = text.match(FREE_UNDER_PATTERN)
+  if (!m) return null
+  const n = Number(m[1])
+  const inclusive = m[3] !== '미만'
+  if (m[2] === '개월') return inclusive ? n + 1 : n
+  return (inclusive ? n + 1 : n) * 12
+}
+
+function lowest(current: number | null, value: number): number {
+  return current === null ? value : Math.min(current, value)
+}
+
+export function parsePrice(text: string | null | undefined): PriceModel | null {
+  if (!text || !text.trim()) return null
+  const cleaned = cleanText(text)
+
+  const tiers: Record<Tier, number | null> = { adult: null, guardian: null, child: null, infant: null, general: null }
+  let found = false
+  let lastEnd = 0
+  for (const match of cleaned.matchAll(AMOUNT_PATTERN)) {
+    const start = match.index ?? 0
+    const before = cleaned.slice(lastEnd, start)
+    if (!EXTRA_FEE_PATTERN.test(before)) {
+      const tier = tierOf(before)
+      tiers[tier] = lowest(tiers[tier], amountOf(match))
+    }
+    lastEnd = start + match[0].length
+    found = true
+  }
+
+  const underMonths = freeUnderMonths(cleaned)
+  if (underMonths !== null) tiers.infant = 0
+
+  const paidHint = /유료/.test(cleaned)
+  if (!found && underMonths === null && !paidHint) return null
+
+  // A free guardian is the accompanying adult's allowance, not an adult ticket
+  const adult = tiers.adult ?? (tiers.guardian || null) ?? tiers.general
+  const child = tiers.child ?? tiers.general
+  const listed = [adult, child].filter((p): p is number => p !== null)
+  const isFree = listed.length > 0 ? listed.every((p) => p === 0) : paidHint ? false : null
+
+  return { isFree, adult, child, infant: tiers.infant, freeUnderMonths: underMonths }
+}
+
+/** Price the maxPrice filter compares: child tier, else adult */
+export function entryPrice(row: Partial<PriceColumns>): number | null {
+  return row.price_child ?? row.price_adult ?? null
+}
+
+/** PriceModel → DB columns; all null when the text is unparseable */
+export function toPriceColumns(model: PriceModel | null): PriceColumns {
+  return {
+    is_free: model?.isFree ?? null,
+    price_adult: model?.adult ?? null,
+    price_child: model?.child ?? null,
+    price_infant: model?.infant ?? null,
+    free_under_months: model?.freeUnderMonths ?? null,
+  }
+}
+
+export function formatWon(amount: number): string {
+  if (amount >= 10000 && amount % 1000 === 0) {
+    const man = Math.floor(amount / 10000)
+    const cheon = (amount % 10000) / 1000
+    return cheon > 0 ? `${man}만 ${cheon}천원` : `${man}만원`
+  }
+  return `${amount.toLocaleString('ko-KR')}원`
+}
+
+/** Short chips for cards: ['무료'], ['어린이 무료'], ['어린이 3,000원', '24개월 미만 무료'] */
+export function priceChips(row: Partial<PriceColumns>): string[] {
+  const chips: string[] = []
+  const price = entryPrice(row)
+  if (row.is_free) {
+    chips.push('무료')
+  } else if (row.price_child === 0) {
+    chips.push('어린이 무료')
+  } else if (price !== null) {
+    const childOnly = row.price_child != null && row.price_adult != null && row.price_child !== row.price_adult
+    chips.push(childOnly ? `어린이 ${formatWon(price)}` : formatWon(price))
+  }
+  if (!row.is_free && row.free_under_months) {
+    chips.push(
+      row.free_under_months >= 48 && row.free_under_months % 12 === 0
+        ? `${row.free_under_months / 12}세 미만 무료`
+        : `${row.free_under_months}개월 미만 무료`
+    )
+  }
+  return chips
+}
+
+/** ?maxPrice= → KRW, null when missing or invalid */
+export function parseMaxPriceParam(raw: string | null): number | null {
+  if (raw === null || raw.trim() === '') return null
+  const amount = Number(raw)
+  if (!Number.isInteger(amount) || amount < 0) return null
+  return amount
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { rankSimilarPlaces, rankNearbyPlaces, complementaryCategories } from './related-places'
+import type { Place } from '@/types'
+
+const base = { lat: 37.5, lng: 127.0, tags: [] as string[], popularity_score: 0.5 }
+
+function place(id: number, fields: Partial<Place> = {}): Place {
+  return { id, name: `place ${id}`, category: '놀이', sub_category: null, ...base, ...fields } as Place
+}
+
+describe('rankSimilarPlaces', () => {
+  const anchor = place(1, { sub_category: '키즈카페', tags: ['수유실', '주차'] })
+
+  it('needs a co-mention or the same sub_category', () => {
+    const result = rankSimilarPlaces(anchor, [
+      place(2, { sub_category: '키즈카페' }),
+      place(3, { sub_category: '실내놀이터', tags: ['수유실', '주차'] }),
+      place(4, { category: '식당/카페' }),
+    ], new Map([[4, 1]]))
+    expect(result.map((p) => [p.id, p.reasons, p.shared_posts])).toEqual([
+      [2, ['sub_category'], 0],
+      [4, ['co_mention'], 1],
+    ])
+  })
+
+  it('ranks shared posts, then sub_category and tags, nearer first on ties', () => {
+    const result = rankSimilarPlaces(anchor, [
+      place(2, { sub_category: '키즈카페', lat: 37.55 }),
+      place(3, { sub_category: '키즈카페' }),
+      place(4, { sub_category: '키즈카페', tags: ['수유실'] }),
+      place(5, { category: '식당/카페' }),
+      place(1, { sub_category: '키즈카페' }),
+    ], new Map([[5, 2]]))
+    expect(result.map((p) => p.id)).toEqual([5, 4, 3, 2])
+    expect(result[1].reasons).toEqual(['sub_category', 'tags'])
+    expect(result[3].distance_m).toBeGreaterThan(5000)
+  })
+
+  it('ignores a missing sub_category and respects the limit', () => {
+    const result = rankSimilarPlaces(place(1), [place(2), place(3)], new Map([[2, 1], [3, 4]]), 1)
+    expect(result.map((p) => p.id)).toEqual([3])
+  })
+})
+
+describe('rankNearbyPlaces', () => {
+  const anchor = place(1)
+
+  it('keeps complementary categories within walking distance', () => {
+    const result = rankNearbyPlaces(anchor, [
+      place(2, { category: '공원/놀이터', popularity_score: 0.9 }),
+      place(3, { category: '식당/카페', popularity_score: 0.2, lat: 37.501 }),
+      place(4, { category: '식당/카페', popularity_score: 0.8, lat: 37.502 }),
+      place(5, { category: '식당/카페', lat: 37.51 }),
+      place(6, { category: '도서관' }),
+    ])
+    expect(result.map((p) => p.id)).toEqual([4, 3, 2])
+    expect(result[1].distance_m).toBeGreaterThan(100)
+  })
+
+  it('has no complements for unknown categories', () => {
+    expect(complementaryCategories('기타')).toEqual([])
+    expect(rankNearbyPlaces(place(1, { category: '기타' }), [place(2, { category: '식당/카페' })])).toEqual([])
+  })
+})
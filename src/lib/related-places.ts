@@ -0,0 +1,118 @@
+/**
+ * Related places for the place page: "similar" places (the same kind of
+ * outing) and "nearby" places that go with this one within stroller walking
+ * distance. /api/places/[id]/related fetches the candidates; ranking here is
+ * pure.
+ */
+
+import { haversineMeters } from './day-plan'
+import type { Place, PlaceCategory, RelatedPlace, RelatedReason } from '@/types'
+
+export const SIMILAR_LIMIT = 10
+export const NEARBY_LIMIT = 10
+
+/** Similar candidates come from a ~10km box; co-mentioned places from anywhere */
+export const SIMILAR_RADIUS_DEG = 0.1
+/** About 10 minutes pushing a stroller (TRAVEL_SPEEDS.walk, 3 km/h) */
+export const WALKING_DISTANCE_M = 500
+export const WALKING_RADIUS_DEG = 0.005
+
+/** What pairs well with an outing of each category, best first */
+export const COMPLEMENTARY_CATEGORIES: Record<PlaceCategory, PlaceCategory[]> = {
+  '놀이': ['식당/카페', '공원/놀이터'],
+  '공원/놀이터': ['식당/카페', '놀이'],
+  '전시/체험': ['식당/카페', '공원/놀이터'],
+  '공연': ['식당/카페', '공원/놀이터'],
+  '동물/자연': ['식당/카페'],
+  '식당/카페': ['놀이', '공원/놀이터'],
+  '도서관': ['공원/놀이터', '식당/카페'],
+  '수영/물놀이': ['식당/카페'],
+  '문화행사': ['식당/카페', '공원/놀이터'],
+  '편의시설': ['놀이', '식당/카페'],
+}
+
+// Signal weights: each shared post counts most, then sub_category, then tags
+const SHARED_POST_WEIGHT = 3
+const MAX_SHARED_POSTS = 5
+const SUB_CATEGORY_WEIGHT = 4
+const TAG_WEIGHT = 1
+const MAX_SHARED_TAGS = 3
+/** popularity_score (0-1) breaks ties; points lost per km favour nearer places */
+const DISTANCE_PENALTY_PER_KM = 0.2
+
+export function complementaryCategories(category: string): PlaceCategory[] {
+  return COMPLEMENTARY_CATEGORIES[category as PlaceCategory] ?? []
+}
+
+function sharedTags(a: string[] | null, b: string[] | null): number {
+  if (!a?.length || !b?.length) return 0
+  const tags = new Set(a)
+  return b.filter((t) => tags.has(t)).length
+}
+
+/**
+ * Rank similar places. A candidate needs a co-mention or the same
+ * sub_category; shared tags alone (mostly facility tags like 수유실) only
+ * add weight. Same-category candidates without either are dropped.
+ */
+export function rankSimilarPlaces(
+  place: Place,
+  candidates: Place[],
+  sharedPosts: Map<number, number>,
+  limit = SIMILAR_LIMIT
+): RelatedPlace[] {
+  const seen = new Set<number>([place.id])
+  const ranked: { related: RelatedPlace; score: number }[] = []
+
+  for (const candidate of candidates) {
+    if (seen.has(candidate.id)) continue
+    seen.add(candidate.id)
+
+    const posts = sharedPosts.get(candidate.id) ?? 0
+    const sameSubCategory = !!place.sub_category && candidate.sub_category === place.sub_category
+    if (posts === 0 && !sameSubCategory) continue
+
+    const tags = sharedTags(place.tags, candidate.tags)
+    const reasons: RelatedReason[] = []
+    if (posts > 0) reasons.push('co_mention')
+    if (sameSubCategory) reasons.push('sub_category')
+    if (tags > 0) reasons.push('tags')
+
+    const distance_m = Math.round(haversineMeters(place.lat, place.lng, candidate.lat, candidate.lng))
+    const score =
+      Math.min(posts, MAX_SHARED_POSTS) * SHARED_POST_WEIGHT +
+      (sameSubCategory ? SUB_CATEGORY_WEIGHT : 0) +
+      Math.min(tags, MAX_SHARED_TAGS) * TAG_WEIGHT +
+      Math.min(Math.max(candidate.popularity_score ?? 0, 0), 1) -
+      (distance_m / 1000) * DISTANCE_PENALTY_PER_KM
+
+    ranked.push({ related: { ...candidate, distance_m, reasons, shared_posts: posts }, score })
+  }
+
+  return ranked
+    .sort((a, b) => b.score - a.score || a.related.id - b.related.id)
+    .slice(0, limit)
+    .map((r) => r.related)
+}
+
+/**
+ * Complementary places within WALKING_DISTANCE_M, in COMPLEMENTARY_CATEGORIES
+ * order, most popular first within a category.
+ */
+export function rankNearbyPlaces(
+  place: Place,
+  candidates: Place[],
+  limit = NEARBY_LIMIT
+): (Place & { distance_m: number })[] {
+  const categories = complementaryCategories(place.category)
+  return candidates
+    .filter((c) => c.id !== place.id && categories.includes(c.category as PlaceCategory))
+    .map((c) => ({ ...c, distance_m: Math.round(haversineMeters(place.lat, place.lng, c.lat, c.lng)) }))
+    .filter((c) => c.distance_m <= WALKING_DISTANCE_M)
+    .sort((a, b) =>
+      categories.indexOf(a.category as PlaceCategory) - categories.indexOf(b.category as PlaceCategory) ||
+      b.popularity_score - a.popularity_score ||
+      a.distance_m - b.distance_m
+    )
+    .slice(0, limit)
+}
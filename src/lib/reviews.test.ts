@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { parseReviewInput, childAgeAtVisit } from './reviews'
+
+const USER = '6f1c2d3e-0000-4000-8000-000000000001'
+const TODAY = new Date('2026-06-01T00:00:00Z')
+
+describe('parseReviewInput', () => {
+  it('requires a rating and fills defaults for a new review', () => {
+    expect(parseReviewInput({ body: '좋아요' }, USER)).toEqual({
+      ok: false,
+      error: 'rating must be an integer from 1 to 5',
+    })
+    expect(parseReviewInput({ rating: 4, body: '  수유실 깨끗해요 ' }, USER, { today: TODAY })).toEqual({
+      ok: true,
+      value: { rating: 4, body: '수유실 깨끗해요', visited_on: null, child_age_months: null, photo_paths: [] },
+    })
+  })
+
+  it('only includes provided fields when partial', () => {
+    expect(parseReviewInput({ body: '다시 가봤어요' }, USER, { partial: true })).toEqual({
+      ok: true,
+      value: { body: '다시 가봤어요' },
+    })
+  })
+
+  it('rejects out-of-range values', () => {
+    expect(parseReviewInput({ rating: 6 }, USER).ok).toBe(false)
+    expect(parseReviewInput({ rating: 3.5 }, USER).ok).toBe(false)
+    expect(parseReviewInput({ rating: 3, child_age_months: -1 }, USER).ok).toBe(false)
+    expect(parseReviewInput({ rating: 3, visited_on: '2026-13-01' }, USER).ok).toBe(false)
+    expect(parseReviewInput({ rating: 3, visited_on: '2026-07-01' }, USER, { today: TODAY })).toEqual({
+      ok: false,
+      error: 'visited_on is in the future',
+    })
+    expect(parseReviewInput({ rating: 3, body: 'x'.repeat(2001) }, USER).ok).toBe(false)
+  })
+
+  it('accepts only photos in the author folder', () => {
+    expect(parseReviewInput({ rating: 5, photo_paths: [`${USER}/a.jpg`] }, USER).ok).toBe(true)
+    expect(parseReviewInput({ rating: 5, photo_paths: ['someone-else/a.jpg'] }, USER)).toEqual({
+      ok: false,
+      error: 'Invalid photo path',
+    })
+    expect(parseReviewInput({ rating: 5, photo_paths: Array(6).fill(`${USER}/a.jpg`) }, USER).ok).toBe(false)
+  })
+})
+
+describe('childAgeAtVisit', () => {
+  it('measures age at the visit date', () => {
+    expect(childAgeAtVisit('2025-01-01', '2026-03-15')).toBe(14)
+    expect(childAgeAtVisit('2026-05-01', '2026-03-15')).toBeNull()
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * User reviews — input validation shared by /api/places/[id]/reviews and the
+ * review form, plus photo URL helpers.
+ *
+ * Photos are uploaded straight to the review-photos bucket by the client
+ * (see src/lib/user-photos.ts) and the review stores the object paths.
+ */
+
+import { ageInMonths } from './age-range'
+import { isOwnPhotoPath } from './user-photos'
+
+export const REVIEW_BODY_MAX = 2000
+export const REVIEW_PHOTO_MAX = 5
+export const REVIEW_PHOTO_BUCKET = 'review-photos'
+
+export interface ReviewInput {
+  rating: number
+  body: string
+  visited_on: string | null
+  child_age_months: number | null
+  photo_paths: string[]
+}
+
+export type ReviewInputResult =
+  | { ok: true; value: Partial<ReviewInput> }
+  | { ok: false; error: string }
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Validate a review body. With partial, absent fields are left out (PATCH);
+ * otherwise rating is required and the rest default to empty.
+ */
+export function parseReviewInput(
+  raw: Record<string, unknown>,
+  userId: string,
+  { partial = false, today = new Date() }: { partial?: boolean; today?: Date } = {}
+): ReviewInputResult {
+  const value: Partial<ReviewInput> = {}
+
+  if (raw.rating !== undefined || !partial) {
+    const rating = raw.rating
+    if (typeof rating !== 'number' || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return { ok: false, error: 'rating must be an integer from 1 to 5' }
+    }
+    value.rating = rating
+  }
+
+  if (raw.body !== undefined || !partial) {
+    const body = raw.body ?? ''
+    if (typeof body !== 'string') return { ok: false, error: 'body must be a string' }
+    if (body.trim().length > REVIEW_BODY_MAX) {
+      return { ok: false, error: `body must be at most ${REVIEW_BODY_MAX} characters` }
+    }
+    value.body = body.trim()
+  }
+
+  if (raw.visited_on !== undefined || !partial) {
+    const visitedOn = raw.visited_on ?? null
+    if (visitedOn !== null) {
+      if (typeof visitedOn !== 'string' || !DATE_PATTERN.test(visitedOn) || isNaN(Date.parse(visitedOn))) {
+        return { ok: false, error: 'visited_on must be YYYY-MM-DD' }
+      }
+      if (new Date(visitedOn) > today) return { ok: false, error: 'visited_on is in the future' }
+    }
+    value.visited_on = visitedOn as string | null
+  }
+
+  if (raw.child_age_months !== undefined || !partial) {
+    const months = raw.child_age_months ?? null
+    if (months !== null && (typeof months !== 'number' || !Number.isInteger(months) || months < 0 || months > 240)) {
+      return { ok: false, error: 'child_age_months must be an integer from 0 to 240' }
+    }
+    value.child_age_months = months as number | null
+  }
+
+  if (raw.photo_paths !== undefined || !partial) {
+    const paths = raw.photo_paths ?? []
+    if (!Array.isArray(paths) || paths.some((p) => typeof p !== 'string')) {
+      return { ok: false, error: 'photo_paths must be a list of paths' }
+    }
+    if (paths.length > REVIEW_PHOTO_MAX) {
+      return { ok: false, error: `At most ${REVIEW_PHOTO_MAX} photos` }
+    }
+    if (!paths.every((p: string) => isOwnPhotoPath(p, userId))) {
+      return { ok: false, error: 'Invalid photo path' }
+    }
+    value.photo_paths = paths
+  }
+
+  return { ok: true, value }
+}
+
+/** Public URL of a photo in the review-photos bucket */
+export function reviewPhotoUrl(path: string): string {
+  return `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/${REVIEW_PHOTO_BUCKET}/${path}`
+}
+
+/** A registered child's age at the visit date (YYYY-MM-DD) */
+export function childAgeAtVisit(birthMonth: string, visitedOn: string | null): number | null {
+  return ageInMonths(birthMonth, visitedOn ? new Date(visitedOn) : new Date())
+}
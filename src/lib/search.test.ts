@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+import {
+  blendSearchScore,
+  buildSearchTerms,
+  highlightRanges,
+  isChoseongQuery,
+  matchCategories,
+  mergeSuggestions,
+  normalizePlaceName,
+  parseSearchLimit,
+  toChoseong,
+} from './search'
+
+describe('normalizePlaceName', () => {
+  it('collapses spacing and punctuation', () => {
+    expect(normalizePlaceName('키즈 카페')).toBe(normalizePlaceName('키즈카페'))
+    expect(normalizePlaceName('Kids-Cafe (본점)')).toBe('kidscafe본점')
+  })
+})
+
+describe('toChoseong', () => {
+  it('maps syllables to initial consonants and keeps letters / digits', () => {
+    expect(toChoseong('키즈카페')).toBe('ㅋㅈㅋㅍ')
+    expect(toChoseong('뽀로로파크 2호점')).toBe('ㅃㄹㄹㅍㅋ2ㅎㅈ')
+    expect(toChoseong('ABC 놀이터!')).toBe('abcㄴㅇㅌ')
+  })
+
+  it('detects 초성-only input', () => {
+    expect(isChoseongQuery('ㅋㅈ ㅋㅍ')).toBe(true)
+    expect(isChoseongQuery('키즈ㅋ')).toBe(false)
+    expect(isChoseongQuery('kids')).toBe(false)
+  })
+})
+
+describe('buildSearchTerms', () => {
+  it('normalizes a single word', () => {
+    expect(buildSearchTerms('  키즈 ')).toEqual({ norm: '키즈', tsquery: null, choseong: null })
+  })
+
+  it('builds a prefix tsquery for several words', () => {
+    expect(buildSearchTerms('강남 스타벅스')).toEqual({
+      norm: '강남스타벅스',
+      tsquery: '강남:* & 스타벅스:*',
+      choseong: null,
+    })
+  })
+
+  it('passes 초성 through and drops unsearchable input', () => {
+    expect(buildSearchTerms('ㅋㅈ ㅋㅍ')).toEqual({ norm: '', tsquery: null, choseong: 'ㅋㅈㅋㅍ' })
+    expect(buildSearchTerms('ㅋ')).toBeNull()
+    expect(buildSearchTerms('!!!')).toBeNull()
+    expect(buildSearchTerms('a')).toBeNull()
+    expect(buildSearchTerms('숲')).toEqual({ norm: '숲', tsquery: null, choseong: null })
+  })
+})
+
+describe('highlightRanges', () => {
+  it('matches across spacing differences', () => {
+    expect(highlightRanges('ABC키즈카페 본점', '키즈 카페')).toEqual([[3, 7]])
+    expect(highlightRanges('키즈 카페', '키즈카페')).toEqual([[0, 5]])
+  })
+
+  it('highlights each word when the whole query is not contiguous', () => {
+    expect(highlightRanges('스타벅스 강남역점', '강남 스타벅스')).toEqual([[0, 4], [5, 7]])
+  })
+
+  it('matches 초성 against syllable initials', () => {
+    expect(highlightRanges('서울 키즈카페', 'ㅋㅈㅋㅍ')).toEqual([[3, 7]])
+  })
+
+  it('is case-insensitive and returns nothing for fuzzy-only matches', () => {
+    expect(highlightRanges('LEGO 랜드', 'lego')).toEqual([[0, 4]])
+    expect(highlightRanges('키즈카페', '키츠카페')).toEqual([])
+    expect(highlightRanges(null, '키즈')).toEqual([])
+  })
+})
+
+describe('blendSearchScore', () => {
+  it('ranks a close, popular match above a far one with the same text score', () => {
+    expect(blendSearchScore(0.85, 0.8, 1)).toBeGreaterThan(blendSearchScore(0.85, 0.8, 30))
+    expect(blendSearchScore(0.85, 0.9, 5)).toBeGreaterThan(blendSearchScore(0.85, 0.3, 5))
+  })
+
+  it('lets an exact match beat a weak match that is closer', () => {
+    expect(blendSearchScore(1, 0.4, 20)).toBeGreaterThan(blendSearchScore(0.4, 0.4, 0))
+  })
+
+  it('spreads the distance weight without a location', () => {
+    expect(blendSearchScore(1, 1, null)).toBeCloseTo(1)
+    expect(blendSearchScore(0, 0, null)).toBe(0)
+  })
+})
+
+describe('parseSearchLimit', () => {
+  it('defaults and clamps', () => {
+    expect(parseSearchLimit(null)).toBe(20)
+    expect(parseSearchLimit('500')).toBe(50)
+    expect(parseSearchLimit('0')).toBe(1)
+  })
+})
+
+describe('matchCategories', () => {
+  it('matches a category by its name or a part of it', () => {
+    expect(matchCategories('놀이터')).toEqual(['공원/놀이터'])
+    expect(matchCategories('식당 카페')).toEqual(['식당/카페'])
+    expect(matchCategories('수영')).toEqual(['수영/물놀이'])
+    expect(matchCategories('놀이')).toEqual(['놀이', '공원/놀이터'])
+  })
+
+  it('ignores 초성 and unsearchable input', () => {
+    expect(matchCategories('ㄴㅇ')).toEqual([])
+    expect(matchCategories('   ')).toEqual([])
+  })
+})
+
+describe('mergeSuggestions', () => {
+  it('orders kinds and sorts by weight within a kind', () => {
+    const merged = mergeSuggestions(
+      [
+        { kind: 'query', label: '강남 키즈카페', detail: null, place_id: null, weight: 12 },
+        { kind: 'place', label: '강남놀이터', detail: '공원/놀이터', place_id: 2, weight: 0.4 },
+        { kind: 'place', label: '강남키즈파크', detail: '놀이', place_id: 1, weight: 0.9 },
+        { kind: 'district', label: '강남구', detail: null, place_id: null, weight: 300 },
+      ],
+      []
+    )
+    expect(merged.map((s) => s.label)).toEqual(['강남구', '강남키즈파크', '강남놀이터', '강남 키즈카페'])
+    expect(merged[1]).toEqual({ kind: 'place', label: '강남키즈파크', place_id: 1, category: '놀이' })
+  })
+
+  it('drops a popular query that repeats a place name, but keeps same-named branches', () => {
+    const merged = mergeSuggestions(
+      [
+        { kind: 'place', label: '키즈카페', detail: '놀이', place_id: 1, weight: 0.5 },
+        { kind: 'place', label: '키즈 카페', detail: '놀이', place_id: 2, weight: 0.4 },
+        { kind: 'query', label: '키즈카페', detail: null, place_id: null, weight: 40 },
+      ],
+      ['놀이']
+    )
+    expect(merged.map((s) => s.kind)).toEqual(['category', 'place', 'place'])
+  })
+
+  it('caps the list', () => {
+    const rows = Array.from({ length: 12 }, (_, i) => ({
+      kind: 'place' as const,
+      label: `놀이터 ${i}`,
+      detail: null,
+      place_id: i,
+      weight: i,
+    }))
+    expect(mergeSuggestions(rows, [], 8)).toHaveLength(8)
+  })
+})
@@ -0,0 +1,271 @@
+/**
+ * Text helpers for GET /api/search (see migration 00085) and the name
+ * matchers in server/matchers.
+ *
+ * The database indexes normalized names (search_normalize mirrors
+ * normalizePlaceName), so "키즈 카페" and "키즈카페" meet in the same form.
+ * 초성-only input ("ㅋㅈㅋㅍ") is matched against the initial consonants of
+ * each syllable. Results are ranked by the text score from the RPC blended
+ * with popularity and distance.
+ *
+ * Autocomplete (GET /api/search/suggest, migration 00086) merges prefix
+ * matches on place names, districts and popular queries with the fixed
+ * category list.
+ */
+
+import type { PlaceCategory, SearchSuggestion } from '@/types'
+
+export type SearchKind = 'place' | 'event'
+
+/** [start, end) character offsets into the original text */
+export type HighlightRange = [number, number]
+
+export const SEARCH_QUERY_MAX = 50
+export const SEARCH_LIMIT_DEFAULT = 20
+export const SEARCH_LIMIT_MAX = 50
+/** Rows per suggestion kind requested from the RPC */
+export const SUGGEST_PER_KIND = 5
+/** Rows in the dropdown */
+export const SUGGEST_LIMIT = 8
+
+/** Blend weights; text relevance dominates, distance only without a strong match */
+const TEXT_WEIGHT = 0.65
+const POPULARITY_WEIGHT = 0.2
+const DISTANCE_WEIGHT = 0.15
+/** Distance at which the distance score halves */
+const DISTANCE_HALF_KM = 5
+
+const CHOSEONG = 'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ'
+const HANGUL_START = 0xac00
+const HANGUL_END = 0xd7a3
+
+/**
+ * Normalizes a place name for comparison:
+ * - Strips whitespace
+ * - Removes special characters (keeps Korean, alphanumeric)
+ * - Lowercases
+ */
+export function normalizePlaceName(name: string): string {
+  return name
+    .replace(/\s+/g, '')
+    .replace(/[^가-힣a-zA-Z0-9]/g, '')
+    .toLowerCase()
+}
+
+/** Initial consonant of a syllable, or the lowercased letter / digit; null otherwise */
+function choseongOf(ch: string): string | null {
+  const code = ch.charCodeAt(0)
+  if (code >= HANGUL_START && code <= HANGUL_END) {
+    return CHOSEONG[Math.floor((code - HANGUL_START) / 588)]
+  }
+  return /[a-zA-Z0-9]/.test(ch) ? ch.toLowerCase() : null
+}
+
+/** "키즈카페 2호점" → "ㅋㅈㅋㅍ2ㅎㅈ" (mirrors the hangul_choseong SQL function) */
+export function toChoseong(text: string): string {
+  let result = ''
+  for (const ch of text) result += choseongOf(ch) ?? ''
+  return result
+}
+
+/** True for input made of 초성 (and spaces), e.g. "ㅋㅈ ㅋㅍ" */
+export function isChoseongQuery(query: string): boolean {
+  return /[ㄱ-ㅎ]/.test(query) && /^[ㄱ-ㅎ\s]+$/.test(query)
+}
+
+export interface SearchTerms {
+  /** normalizePlaceName(query); '' for 초성 input */
+  norm: string
+  /** Prefix tsquery over the normalized words, e.g. "강남:* & 스타벅스:*"; null for a single word */
+  tsquery: string | null
+  /** 초성 query without spaces; null unless isChoseongQuery */
+  choseong: string | null
+}
+
+/**
+ * Arguments for the search_places_events RPC; null when nothing searchable
+ * is left (empty, punctuation only, or too short).
+ */
+export function buildSearchTerms(raw: string): SearchTerms | null {
+  const query = raw.trim().slice(0, SEARCH_QUERY_MAX)
+  if (isChoseongQuery(query)) {
+    const choseong = query.replace(/\s+/g, '')
+    return choseong.length >= 2 ? { norm: '', tsquery: null, choseong } : null
+  }
+
+  const norm = normalizePlaceName(query)
+  if (norm.length === 0) return null
+  // A single Latin letter or digit matches nearly everything
+  if (norm.length === 1 && /[a-z0-9]/.test(norm)) return null
+
+  const words = query.split(/\s+/).map(normalizePlaceName).filter(Boolean)
+  const tsquery = words.length > 1 ? words.map((w) => `${w}:*`).join(' & ') : null
+  return { norm, tsquery, choseong: null }
+}
+
+function mergeRanges(ranges: HighlightRange[]): HighlightRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: HighlightRange[] = []
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1])
+    else merged.push([range[0], range[1]])
+  }
+  return merged
+}
+
+/** Every occurrence of needle in the projected text, mapped back to original offsets */
+function findProjected(projected: { ch: string; index: number }[], needle: string): HighlightRange[] {
+  if (!needle) return []
+  const haystack = projected.map((p) => p.ch).join('')
+  const ranges: HighlightRange[] = []
+  let from = 0
+  while (from <= haystack.length - needle.length) {
+    const at = haystack.indexOf(needle, from)
+    if (at === -1) break
+    ranges.push([projected[at].index, projected[at + needle.length - 1].index + 1])
+    from = at + needle.length
+  }
+  return ranges
+}
+
+/**
+ * Ranges of `text` matching the query, ignoring spacing and punctuation:
+ * "키즈 카페" in "ABC키즈카페 본점" → [[3, 7]]. 초성 queries match syllable
+ * initials; multi-word queries highlight each word. Fuzzy-only matches
+ * have no ranges.
+ */
+export function highlightRanges(text: string | null | undefined, query: string): HighlightRange[] {
+  if (!text) return []
+  const terms = buildSearchTerms(query)
+  if (!terms) return []
+
+  const chars = Array.from(text)
+  // UTF-16 offsets, so ranges slice the JS string directly
+  const offsets: number[] = []
+  let offset = 0
+  for (const ch of chars) {
+    offsets.push(offset)
+    offset += ch.length
+  }
+
+  if (terms.choseong) {
+    const projected = chars
+      .map((ch, i) => ({ ch: choseongOf(ch) ?? '', index: offsets[i] }))
+      .filter((p) => p.ch)
+    return mergeRanges(findProjected(projected, terms.choseong))
+  }
+
+  const projected = chars
+    .map((ch, i) => ({ ch: normalizePlaceName(ch), index: offsets[i] }))
+    .filter((p) => p.ch)
+  const whole = findProjected(projected, terms.norm)
+  if (whole.length > 0) return mergeRanges(whole)
+
+  const words = query.split(/\s+/).map(normalizePlaceName).filter((w) => w.length > 0)
+  return mergeRanges(words.flatMap((w) => findProjected(projected, w)))
+}
+
+/**
+ * Final rank: text score (0-1, from the RPC) blended with popularity_score
+ * (0-1) and closeness (1 at the user, 0.5 at DISTANCE_HALF_KM). Without a
+ * location the distance weight is spread over the other two.
+ */
+export function blendSearchScore(textScore: number, popularity: number | null, distanceKm: number | null): number {
+  const pop = Math.min(Math.max(popularity ?? 0, 0), 1)
+  if (distanceKm === null) {
+    const scale = 1 / (TEXT_WEIGHT + POPULARITY_WEIGHT)
+    return (TEXT_WEIGHT * textScore + POPULARITY_WEIGHT * pop) * scale
+  }
+  const closeness = DISTANCE_HALF_KM / (DISTANCE_HALF_KM + Math.max(distanceKm, 0))
+  return TEXT_WEIGHT * textScore + POPULARITY_WEIGHT * pop + DISTANCE_WEIGHT * closeness
+}
+
+/** Parse the limit query param, clamped to [1, SEARCH_LIMIT_MAX] */
+export function parseSearchLimit(raw: string | null): number {
+  const limit = parseInt(raw ?? '', 10)
+  if (isNaN(limit)) return SEARCH_LIMIT_DEFAULT
+  return Math.min(Math.max(limit, 1), SEARCH_LIMIT_MAX)
+}
+
+/** Categories offered as suggestions; each is matched by its whole name and its '/' parts */
+export const SUGGEST_CATEGORIES: PlaceCategory[] = [
+  '놀이',
+  '공원/놀이터',
+  '전시/체험',
+  '공연',
+  '동물/자연',
+  '식당/카페',
+  '도서관',
+  '수영/물놀이',
+  '문화행사',
+  '편의시설',
+]
+
+/** Categories whose name or a '/' part starts with the query ("놀이터" → 공원/놀이터) */
+export function matchCategories(raw: string): PlaceCategory[] {
+  const terms = buildSearchTerms(raw)
+  if (!terms || !terms.norm) return []
+  return SUGGEST_CATEGORIES.filter((category) =>
+    [category, ...category.split('/')].some((part) => normalizePlaceName(part).startsWith(terms.norm))
+  )
+}
+
+/** Row shape returned by the search_suggest RPC */
+export interface SuggestRow {
+  kind: 'place' | 'district' | 'query'
+  label: string
+  detail: string | null
+  place_id: number | null
+  weight: number
+}
+
+/** Dropdown order: the narrowest targets first, past queries last */
+const SUGGEST_KIND_ORDER: SearchSuggestion['kind'][] = ['district', 'category', 'place', 'query']
+
+/**
+ * Merge RPC rows and matched categories into the dropdown list: kinds in
+ * SUGGEST_KIND_ORDER, heaviest first within a kind, one row per normalized
+ * label (a popular query equal to a place name or district is dropped),
+ * at most `limit` rows.
+ */
+export function mergeSuggestions(
+  rows: SuggestRow[],
+  categories: PlaceCategory[],
+  limit = SUGGEST_LIMIT
+): SearchSuggestion[] {
+  const byKind = new Map<SearchSuggestion['kind'], SearchSuggestion[]>()
+  const push = (suggestion: SearchSuggestion) => {
+    const list = byKind.get(suggestion.kind) ?? []
+    list.push(suggestion)
+    byKind.set(suggestion.kind, list)
+  }
+
+  const sorted = [...rows].sort((a, b) => b.weight - a.weight)
+  for (const row of sorted) {
+    if (row.kind === 'place' && row.place_id !== null) {
+      push({ kind: 'place', label: row.label, place_id: row.place_id, category: row.detail ?? '' })
+    } else if (row.kind === 'district') {
+      push({ kind: 'district', label: row.label, parent: row.detail })
+    } else if (row.kind === 'query') {
+      push({ kind: 'query', label: row.label })
+    }
+  }
+  for (const category of categories) push({ kind: 'category', label: category, category })
+
+  const seen = new Set<string>()
+  const merged: SearchSuggestion[] = []
+  for (const kind of SUGGEST_KIND_ORDER) {
+    for (const suggestion of byKind.get(kind) ?? []) {
+      // Places keep their own row: two branches can share a name
+      const key = suggestion.kind === 'place'
+        ? `place:${suggestion.place_id}`
+        : normalizePlaceName(suggestion.label)
+      if (seen.has(key)) continue
+      seen.add(key)
+      if (suggestion.kind === 'place') seen.add(normalizePlaceName(suggestion.label))
+      merged.push(suggestion)
+    }
+  }
+  return merged.slice(0, limit)
+}
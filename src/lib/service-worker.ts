@@ -0,0 +1,54 @@
+/**
+ * Client side of public/sw.js: registration and the message protocol.
+ * Keep SW_MESSAGE in sync with MSG in public/sw.js.
+ */
+
+export const SW_MESSAGE = {
+  /** page → SW: replay queued POST /api/visits now */
+  FLUSH: 'flush-visit-queue',
+  /** page → SW: drop cached per-user API responses and queued visits (logout) */
+  CLEAR_USER_DATA: 'clear-user-data',
+  /** SW → page: a visit was queued while offline; { pending } */
+  QUEUED: 'visit-queued',
+  /** SW → page: queue replayed; { synced, pending } */
+  SYNCED: 'visits-synced',
+} as const
+
+export type ServiceWorkerEvent =
+  | { type: typeof SW_MESSAGE.QUEUED; pending: number }
+  | { type: typeof SW_MESSAGE.SYNCED; synced: number; pending: number }
+
+/** Response body of POST /api/visits when the SW queued it offline (status 202) */
+export interface QueuedVisitResponse {
+  queued: true
+  pending: number
+}
+
+function isSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+}
+
+/** Register /sw.js in production builds; dev keeps HMR free of cached chunks */
+export function registerServiceWorker(): void {
+  if (!isSupported() || process.env.NODE_ENV !== 'production') return
+  navigator.serviceWorker.register('/sw.js').catch((err) => {
+    console.error('[sw] Registration failed:', err)
+  })
+}
+
+export async function postToServiceWorker(type: typeof SW_MESSAGE.FLUSH | typeof SW_MESSAGE.CLEAR_USER_DATA): Promise<void> {
+  if (!isSupported()) return
+  const registration = await navigator.serviceWorker.getRegistration()
+  registration?.active?.postMessage({ type })
+}
+
+/** Subscribe to SW → page events; returns an unsubscribe function */
+export function onServiceWorkerEvent(listener: (event: ServiceWorkerEvent) => void): () => void {
+  if (!isSupported()) return () => {}
+  const handler = (message: MessageEvent) => {
+    const type = message.data?.type
+    if (type === SW_MESSAGE.QUEUED || type === SW_MESSAGE.SYNCED) listener(message.data)
+  }
+  navigator.serviceWorker.addEventListener('message', handler)
+  return () => navigator.serviceWorker.removeEventListener('message', handler)
+}
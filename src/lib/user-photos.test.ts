@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest'
+import { isOwnPhotoPath, photoUploadPath } from './user-photos'
+
+const USER = '6f1c2d3e-0000-4000-8000-000000000001'
+
+describe('photo paths', () => {
+  it('rejects nested and traversal paths', () => {
+    expect(isOwnPhotoPath(`${USER}/a.jpg`, USER)).toBe(true)
+    expect(isOwnPhotoPath(`${USER}/../x/a.jpg`, USER)).toBe(false)
+    expect(isOwnPhotoPath(`${USER}/..`, USER)).toBe(false)
+    expect(isOwnPhotoPath(`${USER}/`, USER)).toBe(false)
+  })
+
+  it('builds upload paths in the user folder', () => {
+    expect(photoUploadPath(USER, 'IMG_0001.HEIC', 2, 1000)).toBe(`${USER}/1000-2.heic`)
+    expect(photoUploadPath(USER, 'photo', 0, 1000)).toBe(`${USER}/1000-0.jpg`)
+  })
+})
@@ -0,0 +1,23 @@
+/**
+ * User photo uploads (review-photos, visit-photos buckets).
+ *
+ * Clients upload straight to Storage under "<user_id>/" (bucket policies
+ * enforce the folder) and rows store the object paths; API routes only accept
+ * paths inside the caller's own folder.
+ */
+
+/** "<user_id>/<file>" without traversal */
+export function isOwnPhotoPath(path: string, userId: string): boolean {
+  const [folder, file, ...rest] = path.split('/')
+  return folder === userId && !!file && rest.length === 0 && file !== '..' && file !== '.'
+}
+
+/** Storage path for a new upload, e.g. "<user_id>/1718000000000-0.jpg" */
+export function photoUploadPath(userId: string, fileName: string, index: number, now: number = Date.now()): string {
+  const ext = fileName.match(/\.([a-z0-9]{1,5})$/i)?.[1]?.toLowerCase() ?? 'jpg'
+  return `${userId}/${now}-${index}.${ext}`
+}
+
+/** Private diary photos; served through signed URLs by /api/visits */
+export const VISIT_PHOTO_BUCKET = 'visit-photos'
+export const VISIT_PHOTO_MAX = 10
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { computeVisitStats, districtOf, type VisitStatsInput } from './visit-stats'
+
+function placeVisit(
+  visitedAt: string,
+  id: number,
+  category: string,
+  address: string,
+  name = `장소${id}`
+): VisitStatsInput {
+  return {
+    visited_at: visitedAt,
+    place_id: id,
+    event_id: null,
+    places: { id, name, category, address, road_address: null },
+    events: null,
+  }
+}
+
+function eventVisit(visitedAt: string, id: number, venueAddress: string | null): VisitStatsInput {
+  return { visited_at: visitedAt, place_id: null, event_id: id, places: null, events: { id, venue_address: venueAddress } }
+}
+
+describe('districtOf', () => {
+  it('keeps the province with the 구/군/시', () => {
+    expect(districtOf('서울특별시 송파구 올림픽로 424')).toBe('서울 송파구')
+    expect(districtOf('인천 중구 공항로 272')).toBe('인천 중구')
+    expect(districtOf('경기 수원시 팔달구 정조로 825')).toBe('경기 수원시 팔달구')
+    expect(districtOf('경기도 파주시 탄현면 필승로 200')).toBe('경기 파주시')
+    expect(districtOf('경기 가평군 청평면')).toBe('경기 가평군')
+  })
+
+  it('returns null without a district', () => {
+    expect(districtOf(null)).toBeNull()
+    expect(districtOf('서울')).toBeNull()
+  })
+})
+
+describe('computeVisitStats', () => {
+  const visits = [
+    placeVisit('2025-11-02', 1, '공원/놀이터', '서울 송파구 올림픽로 424'),
+    placeVisit('2026-01-10', 1, '공원/놀이터', '서울 송파구 올림픽로 424', '올림픽공원'),
+    placeVisit('2026-03-05', 1, '공원/놀이터', '서울 송파구 올림픽로 424', '올림픽공원'),
+    placeVisit('2026-03-20', 2, '도서관', '서울 강동구 천호대로 1'),
+    placeVisit('2026-04-01', 3, '공원/놀이터', '경기 성남시 분당구 1'),
+    eventVisit('2026-05-05', 9, '서울 종로구 세종대로 175'),
+  ]
+
+  it('summarizes one year', () => {
+    const stats = computeVisitStats(visits, 2026)
+    expect(stats.visits).toBe(5)
+    expect(stats.places).toBe(3)
+    expect(stats.events).toBe(1)
+    expect(stats.byCategory).toEqual([
+      { category: '공원/놀이터', count: 2 },
+      { category: '도서관', count: 1 },
+    ])
+    expect(stats.mostRevisited).toEqual({ place_id: 1, name: '올림픽공원', count: 2 })
+    expect(stats.byMonth).toEqual([1, 0, 2, 1, 1, 0, 0, 0, 0, 0, 0, 0])
+  })
+
+  it('lists 구 first explored in the year', () => {
+    const stats = computeVisitStats(visits, 2026)
+    expect(stats.districts).toEqual(['경기 성남시 분당구', '서울 강동구', '서울 송파구', '서울 종로구'])
+    expect(stats.newDistricts).toEqual(['경기 성남시 분당구', '서울 강동구', '서울 종로구'])
+  })
+
+  it('has no most revisited place without repeat visits', () => {
+    expect(computeVisitStats(visits, 2025).mostRevisited).toBeNull()
+    expect(computeVisitStats([], 2026).visits).toBe(0)
+  })
+})
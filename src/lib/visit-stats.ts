@@ -0,0 +1,135 @@
+/**
+ * Visit diary stats — yearly summary for the diary page.
+ *
+ * Computed from the user's visits (all years, so "new 구" can look back):
+ * places visited per category, the most revisited place, 구 visited for the
+ * first time that year, and visits per month. Event-only visits count toward
+ * totals and months; their venue address counts toward 구.
+ */
+
+export interface VisitStatsInput {
+  visited_at: string
+  place_id: number | null
+  event_id: number | null
+  places: { id: number; name: string; category: string; address: string | null; road_address: string | null } | null
+  events: { id: number; venue_address: string | null } | null
+}
+
+export interface VisitStats {
+  year: number
+  /** Visit records in the year */
+  visits: number
+  /** Distinct places visited */
+  places: number
+  /** Event visits */
+  events: number
+  /** Distinct places per category, most first */
+  byCategory: { category: string; count: number }[]
+  /** Place visited most often (2+ times), ties → most recent */
+  mostRevisited: { place_id: number; name: string; count: number } | null
+  /** 구 visited in the year, e.g. "서울 송파구" */
+  districts: string[]
+  /** Of districts, the ones never visited before the year */
+  newDistricts: string[]
+  /** Visits per month, index 0 = January */
+  byMonth: number[]
+}
+
+const SIDO_SHORT: Record<string, string> = {
+  서울특별시: '서울',
+  서울시: '서울',
+  인천광역시: '인천',
+  인천시: '인천',
+  경기도: '경기',
+}
+
+/**
+ * "서울특별시 송파구 올림픽로 1" → "서울 송파구",
+ * "경기 수원시 팔달구 ..." → "경기 수원시 팔달구", "경기 파주시 ..." → "경기 파주시".
+ * The province stays in so 중구 in 서울 and 인천 differ.
+ */
+export function districtOf(address: string | null | undefined): string | null {
+  if (!address) return null
+  const tokens = address.trim().split(/\s+/)
+  if (tokens.length < 2) return null
+  const sido = SIDO_SHORT[tokens[0]] ?? tokens[0]
+
+  const guIndex = tokens.findIndex((t, i) => i > 0 && /.(구|군)$/.test(t))
+  if (guIndex > 0) return [sido, ...tokens.slice(1, guIndex + 1)].join(' ')
+
+  const siIndex = tokens.findIndex((t, i) => i > 0 && /.시$/.test(t))
+  if (siIndex > 0) return [sido, ...tokens.slice(1, siIndex + 1)].join(' ')
+  return null
+}
+
+function visitDistrict(visit: VisitStatsInput): string | null {
+  if (visit.places) return districtOf(visit.places.road_address ?? visit.places.address)
+  return districtOf(visit.events?.venue_address)
+}
+
+export function computeVisitStats(visits: VisitStatsInput[], year: number): VisitStats {
+  const prefix = String(year)
+  const inYear = visits.filter((v) => v.visited_at.startsWith(prefix))
+
+  const before = new Set<string>()
+  for (const visit of visits) {
+    if (visit.visited_at.slice(0, 4) >= prefix) continue
+    const district = visitDistrict(visit)
+    if (district) before.add(district)
+  }
+
+  const placeVisits = new Map<number, { name: string; category: string; count: number; last: string }>()
+  const districts = new Set<string>()
+  const byMonth = Array(12).fill(0) as number[]
+  let events = 0
+
+  for (const visit of inYear) {
+    byMonth[Number(visit.visited_at.slice(5, 7)) - 1]++
+    if (visit.event_id !== null && visit.place_id === null) events++
+
+    const district = visitDistrict(visit)
+    if (district) districts.add(district)
+
+    if (visit.places) {
+      const entry = placeVisits.get(visit.places.id) ?? {
+        name: visit.places.name,
+        category: visit.places.category,
+        count: 0,
+        last: visit.visited_at,
+      }
+      entry.count++
+      if (visit.visited_at > entry.last) entry.last = visit.visited_at
+      placeVisits.set(visit.places.id, entry)
+    }
+  }
+
+  const categoryCounts = new Map<string, number>()
+  for (const { category } of placeVisits.values()) {
+    categoryCounts.set(category, (categoryCounts.get(category) ?? 0) + 1)
+  }
+
+  let mostRevisited: VisitStats['mostRevisited'] = null
+  let mostLast = ''
+  for (const [placeId, entry] of placeVisits) {
+    if (entry.count < 2) continue
+    if (!mostRevisited || entry.count > mostRevisited.count || (entry.count === mostRevisited.count && entry.last > mostLast)) {
+      mostRevisited = { place_id: placeId, name: entry.name, count: entry.count }
+      mostLast = entry.last
+    }
+  }
+
+  const sortedDistricts = [...districts].sort()
+  return {
+    year,
+    visits: inYear.length,
+    places: placeVisits.size,
+    events,
+    byCategory: [...categoryCounts]
+      .map(([category, count]) => ({ category, count }))
+      .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category)),
+    mostRevisited,
+    districts: sortedDistricts,
+    newDistricts: sortedDistricts.filter((d) => !before.has(d)),
+    byMonth,
+  }
+}
@@ -1,5 +1,22 @@
 import { describe, it, expect } from 'vitest'
-import { toGridCoord, parseWeatherCode } from './weather'
+import {
+  toGridCoord,
+  parseWeatherCode,
+  getUltraSrtBaseTime,
+  parseVilageForecast,
+  airRegionFor,
+  parseInformGrade,
+  parseAirForecast,
+  getAirKoreaRelease,
+  outdoorScore,
+  OUTDOOR_GOOD_SCORE,
+  OUTDOOR_POOR_SCORE,
+  forecastDays,
+  summarizeDays,
+  weatherAlerts,
+  boostByWeather,
+  parseOutdoorScoreParam,
+} from './weather'
 
 describe('toGridCoord', () => {
   it('converts Seoul city hall coordinates to approximately (60, 127)', () => {
@@ -86,3 +103,174 @@ describe('parseWeatherCode', () => {
     expect(cold.description).toBe(hot.description)
   })
 })
+
+describe('getUltraSrtBaseTime', () => {
+  it('uses the current hour from HH45 KST', () => {
+    // 2026-10-19 14:50 KST
+    expect(getUltraSrtBaseTime(new Date('2026-10-19T05:50:00Z'))).toEqual({ baseDate: '20261019', baseTime: '1430' })
+  })
+
+  it('falls back to the previous hour (and day) before HH45', () => {
+    // 2026-10-19 00:20 KST
+    expect(getUltraSrtBaseTime(new Date('2026-10-18T15:20:00Z'))).toEqual({ baseDate: '20261018', baseTime: '2330' })
+  })
+})
+
+describe('parseVilageForecast', () => {
+  const item = (category: string, fcstDate: string, fcstTime: string, fcstValue: string) =>
+    ({ category, fcstDate, fcstTime, fcstValue })
+
+  it('groups items by hour in order and keeps TMN / TMX', () => {
+    const { hours, extremes } = parseVilageForecast([
+      item('TMP', '20261019', '1500', '21'),
+      item('POP', '20261019', '1500', '30'),
+      item('TMP', '20261019', '0600', '9'),
+      item('PTY', '20261019', '0600', '1'),
+      item('TMN', '20261019', '0600', '8.0'),
+      item('TMX', '20261019', '1500', '22.0'),
+      item('WSD', '20261019', '1500', '3.2'),
+    ])
+    expect(hours.map((h) => [h.date, h.hour, h.temperature, h.pop, h.pty])).toEqual([
+      ['2026-10-19', 6, 9, 0, 1],
+      ['2026-10-19', 15, 21, 30, 0],
+    ])
+    expect(hours[1].windSpeed).toBe(3.2)
+    expect(extremes['2026-10-19']).toEqual({ min: 8, max: 22 })
+  })
+
+  it('falls back to hourly extremes and drops missing values', () => {
+    const { hours, extremes } = parseVilageForecast([
+      item('TMP', '20261020', '0900', '12'),
+      item('TMP', '20261020', '1400', '19'),
+      item('WSD', '20261020', '1400', '-999'),
+    ])
+    expect(extremes['2026-10-20']).toEqual({ min: 12, max: 19 })
+    expect(hours[1].windSpeed).toBeNull()
+  })
+})
+
+describe('air forecast', () => {
+  it('picks the nearest forecast region', () => {
+    expect(airRegionFor(37.5665, 126.978)).toBe('서울')
+    expect(airRegionFor(37.4563, 126.7052)).toBe('인천')
+    expect(airRegionFor(37.2636, 127.0286)).toBe('경기남부')
+    expect(airRegionFor(37.6584, 126.832)).toBe('서울')
+  })
+
+  it('reads a region grade from informGrade', () => {
+    const grade = '서울 : 보통,제주 : 좋음,경기남부 : 매우나쁨'
+    expect(parseInformGrade(grade, '서울')).toBe('moderate')
+    expect(parseInformGrade(grade, '경기남부')).toBe('very_bad')
+    expect(parseInformGrade(grade, '인천')).toBeNull()
+  })
+
+  it('takes the worse of PM10 and PM2.5 from the latest release', () => {
+    const grades = parseAirForecast([
+      { informCode: 'PM10', informData: '2026-10-19', informGrade: '서울 : 보통', dataTime: '2026-10-19 05시 발표' },
+      { informCode: 'PM25', informData: '2026-10-19', informGrade: '서울 : 나쁨', dataTime: '2026-10-19 05시 발표' },
+      { informCode: 'PM25', informData: '2026-10-20', informGrade: '서울 : 나쁨', dataTime: '2026-10-19 05시 발표' },
+      { informCode: 'PM25', informData: '2026-10-20', informGrade: '서울 : 좋음', dataTime: '2026-10-19 11시 발표' },
+      { informCode: 'O3', informData: '2026-10-20', informGrade: '서울 : 매우나쁨', dataTime: '2026-10-19 11시 발표' },
+    ], '서울')
+    expect(grades).toEqual({ '2026-10-19': 'bad', '2026-10-20': 'good' })
+  })
+
+  it('versions AirKorea releases and uses the previous day before 05:15 KST', () => {
+    expect(getAirKoreaRelease(new Date('2026-10-19T03:00:00Z'))).toEqual({ searchDate: '2026-10-19', version: '2026-10-19-11' })
+    expect(getAirKoreaRelease(new Date('2026-10-18T19:00:00Z'))).toEqual({ searchDate: '2026-10-18', version: '2026-10-18-23' })
+  })
+})
+
+describe('outdoorScore', () => {
+  const mild = { temperature: 20, pop: 0, isRaining: false, windSpeed: 2, air: 'good' as const }
+
+  it('is 100 for a mild, dry, calm day', () => {
+    expect(outdoorScore(mild)).toBe(100)
+  })
+
+  it('caps rain and penalises bad air, heat and cold', () => {
+    expect(outdoorScore({ ...mild, isRaining: true })).toBeLessThanOrEqual(10)
+    expect(outdoorScore({ ...mild, air: 'bad' })).toBe(70)
+    expect(outdoorScore({ ...mild, air: 'very_bad' })).toBe(35)
+    expect(outdoorScore({ ...mild, temperature: 33 })).toBeLessThan(OUTDOOR_GOOD_SCORE)
+    expect(outdoorScore({ ...mild, temperature: -5 })).toBeLessThan(OUTDOOR_POOR_SCORE)
+  })
+
+  it('stays within 0-100', () => {
+    expect(outdoorScore({ temperature: 38, pop: 100, isRaining: true, windSpeed: 20, air: 'very_bad' })).toBe(0)
+  })
+})
+
+describe('forecastDays', () => {
+  it('adds the coming weekend after today and tomorrow', () => {
+    // Monday
+    expect(forecastDays('2026-10-19').map((d) => `${d.label} ${d.date}`)).toEqual([
+      '오늘 2026-10-19',
+      '내일 2026-10-20',
+      '토요일 2026-10-24',
+      '일요일 2026-10-25',
+    ])
+  })
+
+  it('does not repeat weekend days already covered', () => {
+    // Saturday
+    expect(forecastDays('2026-10-24').map((d) => d.label)).toEqual(['오늘', '내일'])
+    // Friday
+    expect(forecastDays('2026-10-23').map((d) => d.label)).toEqual(['오늘', '내일', '일요일'])
+    // Sunday: the next weekend is out of range
+    expect(forecastDays('2026-10-25').map((d) => d.label)).toEqual(['오늘', '내일'])
+  })
+})
+
+describe('summarizeDays / weatherAlerts', () => {
+  const hour = (date: string, h: number, temperature: number, pty = 0) =>
+    ({ date, hour: h, temperature, pop: pty ? 80 : 0, pty, sky: 1, windSpeed: 1 })
+
+  it('averages daytime scores and picks the best hour', () => {
+    const forecast = {
+      hours: [hour('2026-10-19', 6, 5), hour('2026-10-19', 10, 18, 1), hour('2026-10-19', 14, 20)],
+      extremes: { '2026-10-19': { min: 5, max: 20 } },
+    }
+    const [day, far] = summarizeDays(forecast, { '2026-10-19': 'moderate' }, [
+      { date: '2026-10-19', label: '오늘' },
+      { date: '2026-10-25', label: '일요일' },
+    ])
+    expect(day).toMatchObject({ minTemp: 5, maxTemp: 20, pop: 80, air: 'moderate', bestTime: '14:00' })
+    expect(day.outdoorScore).toBe(Math.round((10 + 100) / 2))
+    expect(far).toMatchObject({ outdoorScore: null, bestTime: null, pop: null })
+  })
+
+  it('raises heat and cold alerts from daily extremes', () => {
+    const alerts = weatherAlerts({
+      '2026-08-01': { min: 26, max: 34 },
+      '2026-08-02': { min: 24, max: 31 },
+      '2027-01-10': { min: -13, max: -4 },
+    })
+    expect(alerts.map((a) => [a.date, a.kind])).toEqual([['2026-08-01', 'heat'], ['2027-01-10', 'cold']])
+  })
+})
+
+describe('boostByWeather', () => {
+  const rows = [
+    { id: 1, is_indoor: false },
+    { id: 2, is_indoor: true },
+    { id: 3, is_indoor: null },
+    { id: 4, is_indoor: true },
+  ]
+
+  it('moves indoor places up on poor days and outdoor ones on good days', () => {
+    expect(boostByWeather(rows, 20).map((r) => r.id)).toEqual([2, 4, 1, 3])
+    expect(boostByWeather(rows, 90).map((r) => r.id)).toEqual([1, 2, 3, 4])
+  })
+
+  it('keeps the order in between', () => {
+    expect(boostByWeather(rows, 55)).toEqual(rows)
+  })
+
+  it('parses the score param', () => {
+    expect(parseOutdoorScoreParam('35')).toBe(35)
+    expect(parseOutdoorScoreParam('150')).toBeNull()
+    expect(parseOutdoorScoreParam(null)).toBeNull()
+    expect(parseOutdoorScoreParam('abc')).toBeNull()
+  })
+})
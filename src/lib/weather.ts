@@ -2,8 +2,14 @@
  * KMA (Korea Meteorological Administration) weather helper
  * Grid conversion algorithm ported from KMA open API technical document (C code → TypeScript)
  * Reference: plan.md 18-6
+ *
+ * Also parses the short-term forecast (getVilageFcst) and the AirKorea dust
+ * forecast into hourly / daily outdoor suitability scores (0-100) used to
+ * tilt recommendations toward indoor or outdoor places.
  */
 
+import type { AirGrade, WeatherAlert, WeatherDay, WeatherSlot } from '@/types'
+
 const RE = 6371.00877    // Earth radius (km)
 const GRID = 5.0          // Grid spacing (km)
 const SLAT1 = 30.0        // Projection latitude 1 (degree)
@@ -127,3 +133,371 @@ export function getKmaBaseTime(): { baseDate: string; baseTime: string } {
 
   return { baseDate, baseTime }
 }
+
+/**
+ * Base time for getUltraSrtFcst: issued every hour at HH30, available ~HH45
+ */
+export function getUltraSrtBaseTime(now: Date = new Date()): { baseDate: string; baseTime: string } {
+  const kst = new Date(now.getTime() + 9 * 60 * 60 * 1000)
+  if (kst.getUTCMinutes() < 45) kst.setUTCHours(kst.getUTCHours() - 1)
+  const baseDate = kst.toISOString().slice(0, 10).replace(/-/g, '')
+  const baseTime = `${String(kst.getUTCHours()).padStart(2, '0')}30`
+  return { baseDate, baseTime }
+}
+
+// ─── Short-term forecast (getVilageFcst) ─────────────────────────────────────
+
+export interface KmaForecastItem {
+  category: string
+  fcstDate: string
+  fcstTime: string
+  fcstValue: string
+}
+
+/** One forecast hour from getVilageFcst */
+export interface ForecastHour {
+  /** YYYY-MM-DD (KST) */
+  date: string
+  /** 0-23 (KST) */
+  hour: number
+  /** TMP, °C */
+  temperature: number | null
+  /** POP, % */
+  pop: number
+  /** PTY code (see parseWeatherCode) */
+  pty: number
+  /** SKY: 1 맑음, 3 구름많음, 4 흐림 */
+  sky: number
+  /** WSD, m/s */
+  windSpeed: number | null
+}
+
+/** Daily min / max (TMN / TMX), falling back to the hourly extremes */
+export type DailyExtremes = Record<string, { min: number | null; max: number | null }>
+
+export interface ShortTermForecast {
+  hours: ForecastHour[]
+  extremes: DailyExtremes
+}
+
+const SKY_DESCRIPTIONS: Record<number, string> = { 1: '맑음', 3: '구름많음', 4: '흐림' }
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined) return null
+  const n = parseFloat(value)
+  // KMA uses ±900 and above for missing values
+  return isNaN(n) || Math.abs(n) >= 900 ? null : n
+}
+
+/** Group getVilageFcst items into hours (sorted) and daily extremes */
+export function parseVilageForecast(items: KmaForecastItem[]): ShortTermForecast {
+  const byTime = new Map<string, Record<string, string>>()
+  for (const item of items) {
+    const key = `${item.fcstDate}${item.fcstTime}`
+    const values = byTime.get(key) ?? {}
+    values[item.category] = item.fcstValue
+    byTime.set(key, values)
+  }
+
+  const hours: ForecastHour[] = []
+  const extremes: DailyExtremes = {}
+  for (const [key, values] of [...byTime.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    const date = `${key.slice(0, 4)}-${key.slice(4, 6)}-${key.slice(6, 8)}`
+    const day = (extremes[date] ??= { min: null, max: null })
+    const tmn = toNumber(values.TMN)
+    const tmx = toNumber(values.TMX)
+    if (tmn !== null) day.min = tmn
+    if (tmx !== null) day.max = tmx
+
+    if (values.TMP === undefined && values.PTY === undefined) continue
+    hours.push({
+      date,
+      hour: parseInt(key.slice(8, 10), 10),
+      temperature: toNumber(values.TMP),
+      pop: toNumber(values.POP) ?? 0,
+      pty: toNumber(values.PTY) ?? 0,
+      sky: toNumber(values.SKY) ?? 1,
+      windSpeed: toNumber(values.WSD),
+    })
+  }
+
+  // TMN / TMX are only issued with some base times
+  for (const [date, day] of Object.entries(extremes)) {
+    const temps = hours.filter((h) => h.date === date && h.temperature !== null).map((h) => h.temperature as number)
+    if (temps.length === 0) continue
+    day.min ??= Math.min(...temps)
+    day.max ??= Math.max(...temps)
+  }
+
+  return { hours, extremes }
+}
+
+/** "비" for precipitation, otherwise the sky state */
+export function describeHour(hour: Pick<ForecastHour, 'pty' | 'sky'>): string {
+  if (hour.pty !== 0) return parseWeatherCode(hour.pty, 0).description
+  return SKY_DESCRIPTIONS[hour.sky] ?? '맑음'
+}
+
+// ─── Air quality (AirKorea getMinuDustFrcstDspth) ────────────────────────────
+
+export interface AirForecastItem {
+  informCode: string
+  /** YYYY-MM-DD the grade applies to */
+  informData: string
+  /** "서울 : 보통,제주 : 좋음,..." */
+  informGrade: string
+  /** "2026-10-19 17시 발표" */
+  dataTime: string
+}
+
+const AIR_GRADES: Record<string, AirGrade> = {
+  좋음: 'good',
+  보통: 'moderate',
+  나쁨: 'bad',
+  매우나쁨: 'very_bad',
+}
+const AIR_SEVERITY: AirGrade[] = ['good', 'moderate', 'bad', 'very_bad']
+
+/** AirKorea forecast regions around the service area, with a rough centre each */
+const AIR_REGIONS: { name: string; lat: number; lng: number }[] = [
+  { name: '서울', lat: 37.5665, lng: 126.978 },
+  { name: '인천', lat: 37.4563, lng: 126.7052 },
+  { name: '경기북부', lat: 37.7381, lng: 127.0338 },
+  { name: '경기남부', lat: 37.2636, lng: 127.0286 },
+  { name: '영서', lat: 37.8813, lng: 127.7298 },
+  { name: '영동', lat: 37.7519, lng: 128.8761 },
+  { name: '충북', lat: 36.6424, lng: 127.489 },
+  { name: '충남', lat: 36.6588, lng: 126.6728 },
+  { name: '세종', lat: 36.48, lng: 127.289 },
+  { name: '대전', lat: 36.3504, lng: 127.3845 },
+]
+
+/** Nearest AirKorea forecast region for a coordinate */
+export function airRegionFor(lat: number, lng: number): string {
+  let best = AIR_REGIONS[0]
+  let bestDist = Infinity
+  for (const region of AIR_REGIONS) {
+    // Equirectangular distance is enough to pick a neighbour
+    const dist = (region.lat - lat) ** 2 + ((region.lng - lng) * Math.cos((lat * Math.PI) / 180)) ** 2
+    if (dist < bestDist) {
+      best = region
+      bestDist = dist
+    }
+  }
+  return best.name
+}
+
+function worseGrade(a: AirGrade | null, b: AirGrade | null): AirGrade | null {
+  if (a === null) return b
+  if (b === null) return a
+  return AIR_SEVERITY.indexOf(a) >= AIR_SEVERITY.indexOf(b) ? a : b
+}
+
+/** The region's grade from an informGrade string, or null when not listed */
+export function parseInformGrade(informGrade: string, region: string): AirGrade | null {
+  for (const part of informGrade.split(',')) {
+    const [name, grade] = part.split(':').map((s) => s.trim())
+    if (name === region) return AIR_GRADES[grade?.replace(/\s+/g, '')] ?? null
+  }
+  return null
+}
+
+/**
+ * Grade per date for a region: the worse of PM10 and PM2.5, taking the
+ * latest release for each (code, date).
+ */
+export function parseAirForecast(items: AirForecastItem[], region: string): Record<string, AirGrade> {
+  const latest = new Map<string, AirForecastItem>()
+  for (const item of items) {
+    if (item.informCode !== 'PM10' && item.informCode !== 'PM25') continue
+    const key = `${item.informCode}|${item.informData}`
+    const current = latest.get(key)
+    if (!current || item.dataTime > current.dataTime) latest.set(key, item)
+  }
+
+  const grades: Record<string, AirGrade> = {}
+  for (const item of latest.values()) {
+    const grade = worseGrade(grades[item.informData] ?? null, parseInformGrade(item.informGrade, region))
+    if (grade) grades[item.informData] = grade
+  }
+  return grades
+}
+
+/**
+ * AirKorea forecasts are released at 05, 11, 17 and 23 KST (~15 min later
+ * online). searchDate is the release day; version changes with each release.
+ */
+export function getAirKoreaRelease(now: Date = new Date()): { searchDate: string; version: string } {
+  const kst = new Date(now.getTime() + 9 * 60 * 60 * 1000)
+  const minutes = kst.getUTCHours() * 60 + kst.getUTCMinutes()
+  const release = [23, 17, 11, 5].find((h) => minutes >= h * 60 + 15)
+  if (release === undefined) kst.setUTCDate(kst.getUTCDate() - 1)
+  const searchDate = kst.toISOString().slice(0, 10)
+  return { searchDate, version: `${searchDate}-${String(release ?? 23).padStart(2, '0')}` }
+}
+
+// ─── Outdoor suitability ─────────────────────────────────────────────────────
+
+/** KMA 폭염주의보 (daily max apparent temp) / 한파주의보 (morning min) thresholds */
+export const HEAT_ALERT_C = 33
+export const COLD_ALERT_C = -12
+
+/** Scores at or above are "good for outside", below POOR are "indoor recommended" */
+export const OUTDOOR_GOOD_SCORE = 70
+export const OUTDOOR_POOR_SCORE = 40
+
+/** A forecast day's chance of precipitation (%) from which plans assume rain */
+export const RAINY_DAY_POP = 60
+
+const COMFORT_MIN_C = 15
+const COMFORT_MAX_C = 25
+const AIR_PENALTY: Record<AirGrade, number> = { good: 0, moderate: 0, bad: 30, very_bad: 65 }
+
+export interface OutdoorConditions {
+  temperature: number | null
+  /** % */
+  pop: number
+  isRaining: boolean
+  windSpeed: number | null
+  air: AirGrade | null
+}
+
+/**
+ * 0-100 outdoor suitability for a stroller outing. Rain caps it at 10;
+ * otherwise points come off for chance of rain (above 20%), temperature
+ * outside 15-25°C (heat weighs more), wind above 7 m/s and bad air.
+ */
+export function outdoorScore(c: OutdoorConditions): number {
+  let score = 100
+  if (c.pop > 20) score -= (c.pop - 20) * 0.8
+  if (c.temperature !== null) {
+    if (c.temperature < COMFORT_MIN_C) score -= (COMFORT_MIN_C - c.temperature) * 3.5
+    if (c.temperature > COMFORT_MAX_C) score -= (c.temperature - COMFORT_MAX_C) * 4
+  }
+  if (c.windSpeed !== null && c.windSpeed > 7) score -= (c.windSpeed - 7) * 5
+  if (c.air) score -= AIR_PENALTY[c.air]
+  if (c.isRaining) score = Math.min(score, 10)
+  return Math.round(Math.min(Math.max(score, 0), 100))
+}
+
+export type OutdoorLevel = 'good' | 'fair' | 'poor'
+
+export function outdoorLevel(score: number): OutdoorLevel {
+  if (score >= OUTDOOR_GOOD_SCORE) return 'good'
+  if (score >= OUTDOOR_POOR_SCORE) return 'fair'
+  return 'poor'
+}
+
+function isRainingCode(pty: number): boolean {
+  return parseWeatherCode(pty, 0).isRaining
+}
+
+/** Hourly slots from fromTime ('YYYY-MM-DDTHH:00', KST) on */
+export function buildWeatherSlots(
+  hours: ForecastHour[],
+  air: Record<string, AirGrade>,
+  fromTime: string
+): WeatherSlot[] {
+  return hours
+    .map((h) => ({ h, time: `${h.date}T${String(h.hour).padStart(2, '0')}:00` }))
+    .filter(({ time }) => time >= fromTime)
+    .map(({ h, time }) => ({
+      time,
+      temperature: h.temperature,
+      pop: h.pop,
+      isRaining: isRainingCode(h.pty),
+      description: describeHour(h),
+      outdoorScore: outdoorScore({
+        temperature: h.temperature,
+        pop: h.pop,
+        isRaining: isRainingCode(h.pty),
+        windSpeed: h.windSpeed,
+        air: air[h.date] ?? null,
+      }),
+    }))
+}
+
+const DAYTIME_START = 9
+const DAYTIME_END = 18
+
+/** Today, tomorrow, then the coming Saturday and Sunday if not already listed */
+export function forecastDays(today: string): { date: string; label: string }[] {
+  const addDays = (n: number) => {
+    const d = new Date(`${today}T00:00:00Z`)
+    d.setUTCDate(d.getUTCDate() + n)
+    return d.toISOString().slice(0, 10)
+  }
+  const days = [
+    { date: today, label: '오늘' },
+    { date: addDays(1), label: '내일' },
+  ]
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay()
+  const toSaturday = (6 - weekday + 7) % 7
+  const weekend = weekday === 0 ? [] : [
+    { date: addDays(toSaturday), label: '토요일' },
+    { date: addDays(toSaturday + 1), label: '일요일' },
+  ]
+  for (const day of weekend) {
+    if (!days.some((d) => d.date === day.date)) days.push(day)
+  }
+  return days
+}
+
+/** Per-day summary; days past the forecast range keep only their air grade */
+export function summarizeDays(
+  forecast: ShortTermForecast,
+  air: Record<string, AirGrade>,
+  days: { date: string; label: string }[]
+): WeatherDay[] {
+  return days.map(({ date, label }) => {
+    const daytime = forecast.hours.filter((h) => h.date === date && h.hour >= DAYTIME_START && h.hour <= DAYTIME_END)
+    const slots = buildWeatherSlots(daytime, air, `${date}T00:00`)
+    const best = slots.reduce<WeatherSlot | null>((acc, s) => (!acc || s.outdoorScore > acc.outdoorScore ? s : acc), null)
+    const all = forecast.hours.filter((h) => h.date === date)
+    return {
+      date,
+      label,
+      minTemp: forecast.extremes[date]?.min ?? null,
+      maxTemp: forecast.extremes[date]?.max ?? null,
+      pop: all.length > 0 ? Math.max(...all.map((h) => h.pop)) : null,
+      air: air[date] ?? null,
+      outdoorScore: slots.length > 0
+        ? Math.round(slots.reduce((sum, s) => sum + s.outdoorScore, 0) / slots.length)
+        : null,
+      bestTime: best ? best.time.slice(11) : null,
+    }
+  })
+}
+
+/** 폭염 / 한파 alerts from the daily extremes */
+export function weatherAlerts(extremes: DailyExtremes): WeatherAlert[] {
+  const alerts: WeatherAlert[] = []
+  for (const [date, { min, max }] of Object.entries(extremes).sort(([a], [b]) => a.localeCompare(b))) {
+    if (max !== null && max >= HEAT_ALERT_C) {
+      alerts.push({ date, kind: 'heat', message: `낮 최고 ${Math.round(max)}°, 폭염 주의: 한낮 야외 활동은 피하세요.` })
+    }
+    if (min !== null && min <= COLD_ALERT_C) {
+      alerts.push({ date, kind: 'cold', message: `아침 최저 ${Math.round(min)}°, 한파 주의: 실내 나들이를 추천해요.` })
+    }
+  }
+  return alerts
+}
+
+/**
+ * Stable reorder for an outdoorScore hint: below OUTDOOR_POOR_SCORE indoor
+ * rows come first, at OUTDOOR_GOOD_SCORE and above outdoor rows do; unknown
+ * is_indoor and the middle band keep their order.
+ */
+export function boostByWeather<T extends { is_indoor: boolean | null }>(rows: T[], score: number): T[] {
+  const level = outdoorLevel(score)
+  if (level === 'fair') return rows
+  const preferred = (row: T) => row.is_indoor === (level === 'poor')
+  return [...rows.filter(preferred), ...rows.filter((row) => !preferred(row))]
+}
+
+/** Parse the outdoorScore query param; null when absent or out of range */
+export function parseOutdoorScoreParam(raw: string | null): number | null {
+  if (raw === null || raw.trim() === '') return null
+  const score = Number(raw)
+  return Number.isFinite(score) && score >= 0 && score <= 100 ? score : null
+}
@@ -1,3 +1,7 @@
+import type { OpeningHours } from '../lib/opening-hours'
+import type { AmenityFilter, PlaceAmenities } from '../lib/amenities'
+import type { VisitStats } from '../lib/visit-stats'
+
 export interface Place {
   id: number
   name: string
@@ -6,6 +10,8 @@ export interface Place {
   address: string | null
   road_address: string | null
   district_code: string | null
+  /** Popularity rank within district_code (map density only; see density step) */
+  district_rank: number | null
   lat: number
   lng: number
   phone: string | null
@@ -14,12 +20,37 @@ export interface Place {
   kakao_place_id: string | null
   description: string | null
   tags: string[]
+  /** Per-amenity presence, detail and provenance; null = none reported (see src/lib/amenities.ts) */
+  amenities: PlaceAmenities | null
   is_indoor: boolean | null
+  /** Inclusive age bounds in months; null = unknown / no limit */
+  age_min_months: number | null
+  age_max_months: number | null
+  /** Parsed weekly hours + closures; null = unknown (see src/lib/opening-hours.ts) */
+  opening_hours: OpeningHours | null
+  /** Source hours text opening_hours was parsed from */
+  hours_text: string | null
+  /** Source admission fee text; the price columns below are parsed from it */
+  price_info: string | null
+  /** Parsed prices in KRW (0 = free for that tier); null = unknown (see src/lib/price.ts) */
+  is_free: boolean | null
+  price_adult: number | null
+  price_child: number | null
+  price_infant: number | null
+  free_under_months: number | null
   mention_count: number
   popularity_score: number
   last_mentioned_at: string | null
   source_count: number
+  /** Published reviews (maintained by a trigger on reviews) */
+  review_count: number
+  /** Mean published review rating (1-5); null without reviews */
+  rating_avg: number | null
+  /** Winning place_sources source per field, e.g. { phone: 'kakao' } (place-fields step) */
+  field_sources: Record<string, string> | null
   is_active: boolean
+  /** Set when merged into another place; the row is kept so the merge can be undone */
+  merged_into: number | null
   submission_status: 'pending' | 'approved' | 'rejected' | null
   submitted_by: string | null
   submitted_at: string | null
@@ -56,6 +87,15 @@ export interface Event {
   time_info: string | null
   price_info: string | null
   age_range: string | null
+  /** age_range parsed into inclusive months by the event-age step; null = unknown / no limit */
+  age_min_months: number | null
+  age_max_months: number | null
+  /** price_info parsed by the event-price step; null = unknown (see src/lib/price.ts) */
+  is_free: boolean | null
+  price_adult: number | null
+  price_child: number | null
+  price_infant: number | null
+  free_under_months: number | null
   source: string
   source_id: string
   date_confirmed: boolean | null
@@ -112,6 +152,32 @@ export interface Profile {
   created_at: string
 }
 
+export interface Child {
+  id: number
+  nickname: string | null
+  /** First day of the birth month (YYYY-MM-01) */
+  birth_month: string
+  created_at: string
+}
+
+export interface Review {
+  id: number
+  place_id: number
+  user_id: string
+  /** 1-5 */
+  rating: number
+  body: string
+  visited_on: string | null
+  /** The child's age at the visit */
+  child_age_months: number | null
+  /** review-photos bucket paths ("<user_id>/<file>") */
+  photo_paths: string[]
+  status: 'published' | 'removed'
+  moderation_reason: string | null
+  created_at: string
+  updated_at: string
+}
+
 export interface Favorite {
   id: number
   user_id: string
@@ -120,6 +186,125 @@ export interface Favorite {
   created_at: string
 }
 
+export interface Collection {
+  id: number
+  user_id: string
+  name: string
+  note: string | null
+  position: number
+  /** Set while the list is shared at /collections/<token> */
+  share_token: string | null
+  created_at: string
+  updated_at: string
+  item_count: number
+  /** Family member who created it; null when it was the viewer */
+  added_by: string | null
+  /** With ?placeId= / ?eventId=: whether that item is in the collection */
+  contains?: boolean
+}
+
+export interface CollectionItem {
+  id: number
+  collection_id: number
+  place_id: number | null
+  event_id: number | null
+  note: string | null
+  position: number
+  created_at: string
+  places: Place | null
+  events: Event | null
+}
+
+export interface CollectionsResponse {
+  collections: Collection[]
+}
+
+export interface CollectionDetailResponse {
+  collection: Collection
+  items: CollectionItem[]
+}
+
+/** One timed stop of a day plan (see src/lib/day-plan.ts) */
+export interface DayPlanStop {
+  kind: 'anchor' | 'meal'
+  place: Place | null
+  event: Event | null
+  /** KST 'HH:MM' on the plan date */
+  arriveAt: string
+  leaveAt: string
+  /** Straight-line travel from the previous stop */
+  travelMinutes: number
+  distanceM: number
+}
+
+/** Nearest 수유실 / 기저귀교환대 around the anchor */
+export interface DayPlanFacility {
+  kind: 'nursing_room' | 'diaper_station'
+  place: Place
+  distanceM: number
+  travelMinutes: number
+}
+
+export interface DayPlan {
+  /** YYYY-MM-DD (KST) */
+  date: string
+  start: string
+  childAgeMonths: number | null
+  isRaining: boolean
+  speedKmh: number
+  stops: DayPlanStop[]
+  facilities: DayPlanFacility[]
+  /** Closed anchor, outdoor in rain, no lunch found, ... */
+  warnings: string[]
+}
+
+export interface DayPlanResponse {
+  plan: DayPlan
+}
+
+/** A plan saved by the user; plan is a snapshot, viewable at /plan/<share_token> */
+export interface SavedDayPlan {
+  id: number
+  user_id: string
+  title: string
+  plan_date: string
+  place_id: number | null
+  event_id: number | null
+  share_token: string
+  plan: DayPlan
+  created_at: string
+}
+
+/** Matched spans per field, as [start, end) offsets (see src/lib/search.ts highlightRanges) */
+export interface SearchHighlights {
+  name: [number, number][]
+  /** road_address / address for places, venue_name for events */
+  address: [number, number][]
+}
+
+export type SearchResult =
+  | { kind: 'place'; place: Place; score: number; distance_m: number | null; highlights: SearchHighlights }
+  | { kind: 'event'; event: Event; score: number; distance_m: number | null; highlights: SearchHighlights }
+
+export interface SearchResponse {
+  results: SearchResult[]
+}
+
+/** One autocomplete row (GET /api/search/suggest) */
+export type SearchSuggestion =
+  | { kind: 'place'; label: string; place_id: number; category: string }
+  /** 구 / 동; parent is the 구 (or 시) a 동 belongs to */
+  | { kind: 'district'; label: string; parent: string | null }
+  | { kind: 'category'; label: string; category: PlaceCategory }
+  /** A popular past query that found results */
+  | { kind: 'query'; label: string }
+
+export interface SearchSuggestResponse {
+  suggestions: SearchSuggestion[]
+  /** The signed-in user's recent searches; only for an empty q */
+  recent: string[]
+}
+
 export type PlaceCategory =
   | '놀이'
   | '공원/놀이터'
@@ -152,6 +337,7 @@ export interface PlacesQueryParams {
   zoom: number
   category?: PlaceCategory[]
   tags?: FacilityTag[]
+  amenities?: AmenityFilter[]
   sort?: SortOption
   lat?: number
   lng?: number
@@ -161,10 +347,26 @@ export interface PlacesQueryParams {
   indoor?: boolean
 }
 
+export interface PlaceCluster {
+  /** Grid cell key "<row>:<col>"; stable while panning at the same zoom */
+  key: string
+  count: number
+  /** Centroid of the places in the cell */
+  lat: number
+  lng: number
+  topCategory: string
+  /** Extent of the places in the cell, used to zoom in on tap */
+  bounds: { swLat: number; swLng: number; neLat: number; neLng: number }
+}
+
 export interface PlacesResponse {
   places: Place[]
   /** Opaque base64url-encoded keyset cursor. Pass as `cursor` param to fetch next page. */
   nextCursor: string | null
+  /** Present when zoomed out past CLUSTER_MIN_LEVEL; the map draws these instead of `places` */
+  clusters?: PlaceCluster[]
+  /** Total places in the viewport when clustered (sum of cluster counts) */
+  totalCount?: number
 }
 
 export interface PlaceDetailResponse {
@@ -175,14 +377,84 @@ export interface PlaceDetailResponse {
   isHidden: boolean
 }
 
+/** Why a place is listed as similar (see src/lib/related-places.ts) */
+export type RelatedReason = 'co_mention' | 'sub_category' | 'tags'
+
+export interface RelatedPlace extends Place {
+  distance_m: number
+  reasons: RelatedReason[]
+  /** Blog posts mentioning both places */
+  shared_posts: number
+}
+
+export interface PlaceRelatedResponse {
+  /** Same kind of place: co-mentioned in blog posts, same sub_category, shared tags */
+  similar: RelatedPlace[]
+  /** Within walking distance and a category that goes with this one (놀이 → 식당/카페) */
+  nearby: (Place & { distance_m: number })[]
+}
+
+export interface PlaceReviewsResponse {
+  reviews: Review[]
+  /** The signed-in user's review, including a removed one */
+  myReview: Review | null
+  nextCursor: number | null
+}
+
 export interface EmergencyResponse {
   places: (Place & { distance_m: number })[]
 }
 
+/** AirKorea forecast grade (미세먼지 / 초미세먼지, the worse of the two) */
+export type AirGrade = 'good' | 'moderate' | 'bad' | 'very_bad'
+
+/** One forecast hour (see src/lib/weather.ts outdoorScore) */
+export interface WeatherSlot {
+  /** KST 'YYYY-MM-DDTHH:00' */
+  time: string
+  temperature: number | null
+  /** Chance of precipitation, % */
+  pop: number
+  isRaining: boolean
+  description: string
+  /** 0-100, higher = better for going outside */
+  outdoorScore: number
+}
+
+export interface WeatherDay {
+  /** YYYY-MM-DD (KST) */
+  date: string
+  /** '오늘' | '내일' | '토요일' | '일요일' */
+  label: string
+  minTemp: number | null
+  maxTemp: number | null
+  /** Highest chance of precipitation during the day, % */
+  pop: number | null
+  air: AirGrade | null
+  /** Mean daytime (09-18) score; null beyond the forecast range */
+  outdoorScore: number | null
+  /** Best daytime slot, 'HH:00' */
+  bestTime: string | null
+}
+
+/** Derived from the forecast with KMA 폭염 / 한파 advisory thresholds */
+export interface WeatherAlert {
+  date: string
+  kind: 'heat' | 'cold'
+  message: string
+}
+
 export interface WeatherResponse {
   isRaining: boolean
   temperature: number
   description: string
+  /** Right now, 0-100 */
+  outdoorScore: number
+  /** Hourly from the current hour to the end of the short-term forecast (~3 days) */
+  slots: WeatherSlot[]
+  /** Today, tomorrow and the coming weekend */
+  days: WeatherDay[]
+  alerts: WeatherAlert[]
 }
 
 export interface EventsResponse {
@@ -191,9 +463,18 @@ export interface EventsResponse {
   nextCursor: string | null
 }
 
+/** One source listing linked to a canonical event (event_sources row, public fields) */
+export interface EventSourceLink {
+  source: string
+  source_url: string | null
+  last_seen_at: string | null
+}
+
 export interface EventDetailResponse {
   event: Event
   topPosts: BlogMention[]
+  /** Every listing of this event, for 예매/공식 links */
+  sources: EventSourceLink[]
   isFavorited: boolean
   isHidden: boolean
 }
@@ -201,15 +482,26 @@ export interface EventDetailResponse {
 export interface Visit {
   id: number
   user_id: string
-  place_id: number
+  /** Set for place visits; null when only an event was recorded */
+  place_id: number | null
+  event_id: number | null
   visited_at: string
   memo: string | null
   will_return: boolean
+  /** visit-photos bucket paths ("<user_id>/<file>") */
+  photo_paths: string[]
   created_at: string
 }
 
 export interface VisitWithPlace extends Visit {
-  places: Place
+  places: Place | null
+  events: Event | null
+  /** Children tagged on the visit */
+  child_ids: number[]
+  /** Signed URLs for photo_paths, same order (valid for 6 hours) */
+  photo_urls: string[]
+  /** Family member who recorded it; null when it was the viewer */
+  added_by: string | null
 }
 
 export interface VisitsResponse {
@@ -217,6 +509,32 @@ export interface VisitsResponse {
   nextCursor: number | null
 }
 
+export interface VisitStatsResponse {
+  stats: VisitStats
+  /** Years with at least one visit, newest first */
+  years: number[]
+}
+
+export interface Family {
+  id: number
+  name: string | null
+  invite_code: string
+  created_at: string
+}
+
+export interface FamilyMember {
+  user_id: string
+  name: string
+  role: 'owner' | 'member'
+  joined_at: string
+  is_me: boolean
+}
+
+export interface FamilyResponse {
+  family: Family | null
+  members: FamilyMember[]
+}
+
 export interface AuditLog {
   id: number
   admin_id: string | null
@@ -226,3 +544,47 @@ export interface AuditLog {
   details: Record<string, unknown> | null
   created_at: string
 }
+
+export type PlaceMatchReason = 'kakao_id' | 'phone' | 'name' | 'nearby'
+
+/** Duplicate group proposed by the place-resolution step (see migration 00076) */
+export interface PlaceMergeProposal {
+  id: number
+  group_key: string
+  place_ids: number[]
+  keeper_id: number
+  confidence: number
+  reasons: PlaceMatchReason[]
+  status: 'pending' | 'merged' | 'dismissed'
+  created_at: string
+  reviewed_at: string | null
+  reviewed_by: string | null
+}
+
+export interface PlaceMergeProposalWithPlaces extends PlaceMergeProposal {
+  places: Pick<Place, 'id' | 'name' | 'category' | 'address' | 'phone' | 'source' | 'mention_count'>[]
+}
+
+/** One recorded merge; unmerge_place() reverses it */
+export interface PlaceMerge {
+  id: number
+  source_place_id: number
+  target_place_id: number
+  proposal_id: number | null
+  /** null for manual merges */
+  confidence: number | null
+  reasons: PlaceMatchReason[]
+  /** Source place row as it was before the merge */
+  source_snapshot: Partial<Place>
+  /** Row ids moved to the target, per table */
+  moved_refs: Record<string, number[]>
+  added_tags: string[]
+  filled_fields: string[]
+  added_mention_count: number
+  added_source_count: number
+  status: 'merged' | 'unmerged'
+  merged_by: string | null
+  merged_at: string
+  unmerged_by: string | null
+  unmerged_at: string | null
+}
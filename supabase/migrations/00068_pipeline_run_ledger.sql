@@ -0,0 +1,40 @@
+-- Pipeline run ledger: one row per server/run.ts invocation + one row per step.
+-- Written by server/pipeline/ledger.ts (service_role); read by /admin/pipeline.
+-- Replaces stdout JSON dumps as the record of what each step returned.
+
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+  id BIGSERIAL PRIMARY KEY,
+  trigger TEXT NOT NULL,                      -- cron string, manual-* job, or step:/steps:/from: CLI mode
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'success', 'partial', 'error')),
+  planned_steps TEXT[] NOT NULL DEFAULT '{}', -- dependency-ordered plan
+  budget_min INT,                             -- job time budget (events job: 130)
+  params JSONB,
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS pipeline_steps (
+  id BIGSERIAL PRIMARY KEY,
+  run_id BIGINT NOT NULL REFERENCES pipeline_runs(id) ON DELETE CASCADE,
+  step TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'success', 'failed', 'skipped')),
+  attempts INT NOT NULL DEFAULT 0,
+  result JSONB,                               -- ScoringResult, PipelineAResult, ...
+  error TEXT,
+  skip_reason TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  duration_ms INT,
+  UNIQUE (run_id, step)
+);
+
+CREATE INDEX idx_pipeline_runs_started ON pipeline_runs(started_at DESC);
+CREATE INDEX idx_pipeline_steps_run ON pipeline_steps(run_id);
+CREATE INDEX idx_pipeline_steps_step_started ON pipeline_steps(step, started_at DESC);
+
+-- Server-only tables (service_role bypasses RLS; admin API reads via service_role)
+ALTER TABLE pipeline_runs  ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pipeline_steps ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,116 @@
+-- Pipeline job queue: admin API enqueues, a worker (server/worker.ts) claims with a lease.
+-- Replaces the detached `npx tsx server/run.ts` spawn in POST /api/admin/pipeline,
+-- which cannot run on Vercel.
+--
+-- job values use the run.ts job spec: '<schedule|manual-*>', 'step:<name>',
+-- 'steps:<a,b>', 'from:<name>'. Unknown specs are rejected by the worker.
+
+CREATE TABLE IF NOT EXISTS pipeline_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  job TEXT NOT NULL,
+  params JSONB,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'success', 'partial', 'error', 'cancelled')),
+  requested_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  cancel_requested BOOLEAN NOT NULL DEFAULT false,
+  worker_id TEXT,
+  lease_expires_at TIMESTAMPTZ,
+  attempts INT NOT NULL DEFAULT 0,
+  max_attempts INT NOT NULL DEFAULT 2,
+  progress JSONB,                          -- { current, completed, total }
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_pipeline_jobs_status_created ON pipeline_jobs(status, created_at);
+CREATE INDEX idx_pipeline_jobs_created ON pipeline_jobs(created_at DESC);
+
+ALTER TABLE pipeline_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Link ledger runs to the queued job that started them
+ALTER TABLE pipeline_runs ADD COLUMN job_id BIGINT REFERENCES pipeline_jobs(id) ON DELETE SET NULL;
+CREATE INDEX idx_pipeline_runs_job ON pipeline_runs(job_id);
+
+ALTER TABLE pipeline_runs DROP CONSTRAINT pipeline_runs_status_check;
+ALTER TABLE pipeline_runs ADD CONSTRAINT pipeline_runs_status_check
+  CHECK (status IN ('running', 'success', 'partial', 'error', 'cancelled'));
+
+-- Atomically claim the oldest runnable job.
+-- Runnable = queued, or running with an expired lease (worker died) and attempts left.
+-- Expired jobs out of attempts are failed in the same call so they don't block the queue.
+CREATE OR REPLACE FUNCTION public.claim_pipeline_job(p_worker_id text, p_lease_seconds integer)
+RETURNS SETOF public.pipeline_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  claimed_id bigint;
+BEGIN
+  UPDATE public.pipeline_jobs
+  SET status = 'error',
+      error = 'Lease expired after ' || attempts || ' attempt(s)',
+      finished_at = now()
+  WHERE status = 'running'
+    AND lease_expires_at < now()
+    AND attempts >= max_attempts
+    AND cancel_requested = false;
+
+  -- Cancelled while running, then the worker died: nothing left to finish it
+  UPDATE public.pipeline_jobs
+  SET status = 'cancelled', finished_at = now()
+  WHERE status = 'running'
+    AND lease_expires_at < now()
+    AND cancel_requested = true;
+
+  SELECT id INTO claimed_id
+  FROM public.pipeline_jobs
+  WHERE cancel_requested = false
+    AND (status = 'queued' OR (status = 'running' AND lease_expires_at < now()))
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF claimed_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.pipeline_jobs
+  SET status = 'running',
+      worker_id = p_worker_id,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      attempts = attempts + 1,
+      started_at = COALESCE(started_at, now())
+  WHERE id = claimed_id
+  RETURNING *;
+END;
+$function$;
+
+-- Extend the lease while the worker is alive. Returns cancel_requested so the
+-- worker learns about cancellation on the same round-trip (NULL = lease lost).
+CREATE OR REPLACE FUNCTION public.heartbeat_pipeline_job(
+  p_job_id bigint, p_worker_id text, p_lease_seconds integer, p_progress jsonb
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  is_cancelled boolean;
+BEGIN
+  UPDATE public.pipeline_jobs
+  SET lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      progress = COALESCE(p_progress, progress)
+  WHERE id = p_job_id AND worker_id = p_worker_id AND status = 'running'
+  RETURNING cancel_requested INTO is_cancelled;
+
+  RETURN is_cancelled;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_pipeline_job(text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.heartbeat_pipeline_job(bigint, text, integer, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,64 @@
+-- 00070: Zoom-aware map aggregation for GET /api/places
+-- At low zoom the API returns grid clusters instead of a top-N slice of markers.
+-- Cells are aligned to multiples of p_cell_deg, so a cell keeps its key while panning.
+-- Filters mirror the /api/places query (category, tags, indoor, text).
+
+CREATE OR REPLACE FUNCTION public.get_place_clusters(
+  p_sw_lat double precision,
+  p_sw_lng double precision,
+  p_ne_lat double precision,
+  p_ne_lng double precision,
+  p_cell_deg double precision,
+  p_categories text[] DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_indoor boolean DEFAULT NULL,
+  p_query text DEFAULT NULL
+)
+RETURNS TABLE (
+  cell_row integer,
+  cell_col integer,
+  place_count integer,
+  lat double precision,
+  lng double precision,
+  top_category text,
+  sw_lat double precision,
+  sw_lng double precision,
+  ne_lat double precision,
+  ne_lng double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $function$
+  SELECT
+    floor(p.lat / p_cell_deg)::integer AS cell_row,
+    floor(p.lng / p_cell_deg)::integer AS cell_col,
+    count(*)::integer AS place_count,
+    avg(p.lat) AS lat,
+    avg(p.lng) AS lng,
+    mode() WITHIN GROUP (ORDER BY p.category) AS top_category,
+    min(p.lat) AS sw_lat,
+    min(p.lng) AS sw_lng,
+    max(p.lat) AS ne_lat,
+    max(p.lng) AS ne_lng
+  FROM public.places p
+  WHERE p.is_active = true
+    AND p.is_hidden = false
+    AND p.lat BETWEEN p_sw_lat AND p_ne_lat
+    AND p.lng BETWEEN p_sw_lng AND p_ne_lng
+    AND (p_categories IS NULL OR p.category = ANY (p_categories))
+    AND (p_tags IS NULL OR p.tags && p_tags)
+    AND (p_indoor IS NULL OR p.is_indoor = p_indoor)
+    AND (
+      p_query IS NULL
+      OR p.name ILIKE '%' || p_query || '%'
+      OR p.road_address ILIKE '%' || p_query || '%'
+      OR p.address ILIKE '%' || p_query || '%'
+    )
+  GROUP BY 1, 2
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_place_clusters(
+  double precision, double precision, double precision, double precision, double precision,
+  text[], text[], boolean, text
+) TO anon, authenticated;
@@ -0,0 +1,78 @@
+-- 00071: Query-time map density
+-- runDensityControl used to set is_active = false on places outside the Top-20
+-- per district_code, which made a good place in a crowded 동 look exactly like a
+-- closed one (auto-deactivate, place-gate, admin) and removed it from search,
+-- favorites and the detail page. Density is now a rank that only the map uses.
+
+ALTER TABLE places ADD COLUMN IF NOT EXISTS district_rank INT;
+
+COMMENT ON COLUMN places.district_rank IS
+  'Rank by popularity_score within district_code among active places (1 = best). '
+  'NULL when inactive or without district. Refreshed by the density pipeline step; '
+  '/api/places limits map markers by it, nothing else filters on it.';
+
+CREATE INDEX IF NOT EXISTS idx_places_district_rank ON places(district_rank);
+
+-- Recompute district_rank for all places; returns the number of rows changed.
+-- Only rows whose rank moved are written, so a daily run touches few rows.
+CREATE OR REPLACE FUNCTION public.refresh_place_district_ranks()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  changed integer;
+BEGIN
+  WITH ranked AS (
+    SELECT p.id, r.rnk
+    FROM public.places p
+    LEFT JOIN (
+      SELECT
+        id,
+        row_number() OVER (
+          PARTITION BY district_code
+          ORDER BY popularity_score DESC NULLS LAST, id
+        )::integer AS rnk
+      FROM public.places
+      WHERE is_active = true AND district_code IS NOT NULL
+    ) r ON r.id = p.id
+  )
+  UPDATE public.places p
+  SET district_rank = ranked.rnk
+  FROM ranked
+  WHERE p.id = ranked.id
+    AND p.district_rank IS DISTINCT FROM ranked.rnk;
+
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  RETURN changed;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_place_district_ranks() FROM PUBLIC, anon, authenticated;
+
+-- One-time restore of places the old density pass deactivated.
+-- Those rows carry no marker, so reactivate inactive places that none of the
+-- remaining deactivation paths can explain:
+--   - auto-deactivate: needs >= 90 days without mentions (shortest category TTL)
+--   - kakao-enrich duplicates: kakao_place_id 'dup_*'
+--   - place-gate feedback: irrelevant_mention_count >= 5 AND mention_count <= 2
+--   - admin edits: audit_logs place_edit touching is_active
+--   - submissions: pending/rejected user submissions
+-- Silent places stay inactive; they are indistinguishable from closed ones.
+UPDATE places p
+SET is_active = true, updated_at = now()
+WHERE p.is_active = false
+  AND p.last_mentioned_at > now() - interval '90 days'
+  AND (p.submission_status IS NULL OR p.submission_status = 'approved')
+  AND (p.kakao_place_id IS NULL OR p.kakao_place_id NOT LIKE 'dup\_%')
+  AND NOT (COALESCE(p.irrelevant_mention_count, 0) >= 5 AND COALESCE(p.mention_count, 0) <= 2)
+  AND NOT EXISTS (
+    SELECT 1 FROM audit_logs a
+    WHERE a.target_type = 'place'
+      AND a.target_id = p.id::text
+      AND a.action = 'place_edit'
+      AND a.details->'changedFields' ? 'is_active'
+  );
+
+SELECT public.refresh_place_district_ranks();
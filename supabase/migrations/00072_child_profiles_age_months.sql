@@ -0,0 +1,31 @@
+-- 00072: Child profiles and age-in-months ranges
+-- Parents register children by birth month; events and places carry a
+-- normalized month range so /api/events and /api/places can filter and boost
+-- by childAgeMonths instead of matching free-text age_range.
+
+CREATE TABLE children (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  nickname TEXT CHECK (char_length(nickname) <= 20),
+  birth_month DATE NOT NULL CHECK (EXTRACT(DAY FROM birth_month) = 1),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE children ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users manage own children"
+  ON children FOR ALL
+  USING ((select auth.uid()) = user_id)
+  WITH CHECK ((select auth.uid()) = user_id);
+
+CREATE INDEX idx_children_user ON children(user_id, birth_month);
+
+-- Inclusive month bounds; NULL = unknown / no limit on that side.
+-- events: parsed from age_range by the event-age pipeline step (first run backfills).
+-- places: set by collectors that provide an age target (BabyGo).
+ALTER TABLE events ADD COLUMN IF NOT EXISTS age_min_months INT;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS age_max_months INT;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS age_min_months INT;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS age_max_months INT;
+
+COMMENT ON COLUMN events.age_min_months IS 'Youngest eligible age in months (inclusive), parsed from age_range';
+COMMENT ON COLUMN events.age_max_months IS 'Oldest eligible age in months (inclusive), parsed from age_range';
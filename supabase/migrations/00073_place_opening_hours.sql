@@ -0,0 +1,13 @@
+-- 00073: Place opening hours
+-- Structured weekly hours + closures (see src/lib/opening-hours.ts OpeningHours)
+-- parsed by collectors from Tour API usetime/restdate, public-data 운영시간/휴관일
+-- and BabyGo business_hours. hours_text keeps the source text for display and
+-- re-parsing when the parser improves.
+
+ALTER TABLE places ADD COLUMN IF NOT EXISTS opening_hours JSONB;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS hours_text TEXT;
+
+COMMENT ON COLUMN places.opening_hours IS
+  '{weekly: (ranges|null)[7] indexed by weekday (0 = Sun), holidays, closedNth, closedDates, lastEntry}; '
+  'NULL = unknown. Evaluated in KST by /api/places openNow/openAt and PlaceCard.';
+COMMENT ON COLUMN places.hours_text IS 'Source opening hours / closed days text the structured value was parsed from';
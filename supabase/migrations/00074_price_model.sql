@@ -0,0 +1,30 @@
+-- 00074: Normalized price / admission model
+-- Parsed from price text by src/lib/price.ts parsePrice: events via the
+-- event-price step (price_info from Seoul USE_FEE, KOPIS pcseguidance, Tour API
+-- usetimefestival, submissions), places by collectors (Tour API usefee,
+-- public-data ENTRC_FEE, BabyGo products). NULL = unknown.
+
+ALTER TABLE places ADD COLUMN IF NOT EXISTS price_info TEXT;
+
+ALTER TABLE places
+  ADD COLUMN IF NOT EXISTS is_free BOOLEAN,
+  ADD COLUMN IF NOT EXISTS price_adult INTEGER,
+  ADD COLUMN IF NOT EXISTS price_child INTEGER,
+  ADD COLUMN IF NOT EXISTS price_infant INTEGER,
+  ADD COLUMN IF NOT EXISTS free_under_months SMALLINT;
+
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS is_free BOOLEAN,
+  ADD COLUMN IF NOT EXISTS price_adult INTEGER,
+  ADD COLUMN IF NOT EXISTS price_child INTEGER,
+  ADD COLUMN IF NOT EXISTS price_infant INTEGER,
+  ADD COLUMN IF NOT EXISTS free_under_months SMALLINT;
+
+-- free=true filter
+CREATE INDEX IF NOT EXISTS idx_places_is_free ON places (is_free) WHERE is_free;
+CREATE INDEX IF NOT EXISTS idx_events_is_free ON events (is_free) WHERE is_free;
+
+COMMENT ON COLUMN places.price_info IS 'Source admission fee text the price columns were parsed from';
+COMMENT ON COLUMN events.price_child IS
+  'Lowest child price in KRW (0 = free); /api/events maxPrice compares this, falling back to price_adult';
+COMMENT ON COLUMN events.free_under_months IS '"24개월 미만 무료" → 24: children younger than this enter free';
@@ -0,0 +1,61 @@
+-- 00075: Canonical events with linked source listings
+-- Each events row is a canonical event; event_sources keeps one row per source
+-- listing (Seoul, KOPIS, Interpark, ...) that was resolved to it, so merging no
+-- longer loses the other listings' links, prices and posters. Canonical fields
+-- are picked per field by source priority (server/matchers/event-dedup.ts).
+--
+-- Collectors still insert new listings into events; the event-dedup step links
+-- each one to an existing canonical event via blocking_keys (or registers it as
+-- a new canonical event) and folds the incoming row away.
+
+CREATE TABLE IF NOT EXISTS event_sources (
+  id SERIAL PRIMARY KEY,
+  event_id INTEGER REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  source TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  source_url TEXT,
+  -- Listing snapshot used to pick canonical fields
+  name TEXT NOT NULL,
+  venue_name TEXT,
+  venue_address TEXT,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  start_date DATE,
+  end_date DATE,
+  time_info TEXT,
+  price_info TEXT,
+  age_range TEXT,
+  description TEXT,
+  poster_url TEXT,
+  first_seen_at TIMESTAMPTZ DEFAULT now(),
+  last_seen_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (source, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_sources_event ON event_sources(event_id);
+
+ALTER TABLE event_sources ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Event sources are publicly readable"
+  ON event_sources FOR SELECT USING (true);
+
+-- Blocking keys ("token@YYYY-MM", "token@none", "token@v:venue"); NULL = not yet resolved by event-dedup
+ALTER TABLE events ADD COLUMN IF NOT EXISTS blocking_keys TEXT[];
+CREATE INDEX IF NOT EXISTS idx_events_blocking_keys ON events USING GIN (blocking_keys);
+CREATE INDEX IF NOT EXISTS idx_events_unresolved ON events(id) WHERE blocking_keys IS NULL;
+
+-- Backfill: every existing event becomes its own single listing
+INSERT INTO event_sources (
+  event_id, source, source_id, source_url, name, venue_name, venue_address, lat, lng,
+  start_date, end_date, time_info, price_info, age_range, description, poster_url,
+  first_seen_at, last_seen_at
+)
+SELECT
+  id, source, source_id, source_url, name, venue_name, venue_address, lat, lng,
+  start_date, end_date, time_info, price_info, age_range, description, poster_url,
+  created_at, COALESCE(updated_at, created_at)
+FROM events
+WHERE source_id IS NOT NULL
+ON CONFLICT (source, source_id) DO NOTHING;
+
+COMMENT ON TABLE event_sources IS 'Source listings resolved to a canonical event (see event-dedup step)';
+COMMENT ON COLUMN event_sources.last_seen_at IS 'Last collector run that still returned this listing';
@@ -0,0 +1,276 @@
+-- 00076: Place entity resolution with reversible merges
+-- Replaces hard-delete merges (POST /api/admin/places/merge) and the ad-hoc
+-- duplicate cleanup scripts. A merge now keeps the source row (inactive,
+-- merged_into = target) and records everything it moved in place_merges, so
+-- unmerge_place() can put it back.
+--
+-- The place-resolution step (server/matchers/place-resolution.ts) clusters
+-- places by kakao id, phone, name similarity and distance and writes merge
+-- groups to place_merge_proposals for admin review.
+
+ALTER TABLE places ADD COLUMN IF NOT EXISTS merged_into INTEGER REFERENCES places(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_places_merged_into ON places(merged_into) WHERE merged_into IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS place_merge_proposals (
+  id SERIAL PRIMARY KEY,
+  -- Sorted place ids joined by ',' — one proposal per distinct group
+  group_key TEXT UNIQUE NOT NULL,
+  place_ids INTEGER[] NOT NULL,
+  keeper_id INTEGER REFERENCES places(id) ON DELETE CASCADE NOT NULL,
+  confidence REAL NOT NULL,
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'merged', 'dismissed')),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_place_merge_proposals_pending
+  ON place_merge_proposals(confidence DESC) WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS place_merges (
+  id SERIAL PRIMARY KEY,
+  source_place_id INTEGER REFERENCES places(id) ON DELETE CASCADE NOT NULL,
+  target_place_id INTEGER REFERENCES places(id) ON DELETE CASCADE NOT NULL,
+  proposal_id INTEGER REFERENCES place_merge_proposals(id) ON DELETE SET NULL,
+  -- NULL for manual merges from the admin UI
+  confidence REAL,
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  -- Source row as it was before the merge (source ids, tags, counts, ...)
+  source_snapshot JSONB NOT NULL,
+  -- Row ids re-pointed to the target: {"favorites": [..], "visits": [..], ...}
+  moved_refs JSONB NOT NULL DEFAULT '{}',
+  -- What the merge added to the target, subtracted again on unmerge
+  added_tags TEXT[] NOT NULL DEFAULT '{}',
+  filled_fields TEXT[] NOT NULL DEFAULT '{}',
+  added_mention_count INTEGER NOT NULL DEFAULT 0,
+  added_source_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'merged' CHECK (status IN ('merged', 'unmerged')),
+  merged_by UUID REFERENCES auth.users(id),
+  merged_at TIMESTAMPTZ DEFAULT now(),
+  unmerged_by UUID REFERENCES auth.users(id),
+  unmerged_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_place_merges_target ON place_merges(target_place_id);
+CREATE INDEX IF NOT EXISTS idx_place_merges_source ON place_merges(source_place_id);
+
+-- Admin-only tables (API routes use service_role)
+ALTER TABLE place_merge_proposals ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "place_merge_proposals_admin_all" ON place_merge_proposals
+  FOR ALL
+  USING ((SELECT role FROM public.profiles WHERE id = (select auth.uid())) = 'admin')
+  WITH CHECK ((SELECT role FROM public.profiles WHERE id = (select auth.uid())) = 'admin');
+
+ALTER TABLE place_merges ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "place_merges_admin_all" ON place_merges
+  FOR ALL
+  USING ((SELECT role FROM public.profiles WHERE id = (select auth.uid())) = 'admin')
+  WITH CHECK ((SELECT role FROM public.profiles WHERE id = (select auth.uid())) = 'admin');
+
+-- ─── merge_places ───────────────────────────────────────────────────────────
+-- Folds p_source_id into p_target_id in one transaction:
+--   1. favorites / visits / user_hidden_items move unless the user already has
+--      the same row on the target (those stay on the inactive source)
+--   2. verification_checks and blog_mentions move
+--   3. target gains the source's tags, counts and any fields it was missing
+--   4. source becomes is_active = false, merged_into = target
+-- Returns the place_merges id.
+CREATE OR REPLACE FUNCTION public.merge_places(
+  p_source_id INTEGER,
+  p_target_id INTEGER,
+  p_confidence REAL DEFAULT NULL,
+  p_reasons TEXT[] DEFAULT '{}',
+  p_merged_by UUID DEFAULT NULL,
+  p_proposal_id INTEGER DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source places%ROWTYPE;
+  v_target places%ROWTYPE;
+  v_favorites INTEGER[];
+  v_visits INTEGER[];
+  v_hidden INTEGER[];
+  v_checks INTEGER[];
+  v_mentions INTEGER[];
+  v_added_tags TEXT[];
+  v_filled TEXT[] := '{}';
+  v_merge_id INTEGER;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge place % into itself', p_source_id;
+  END IF;
+
+  SELECT * INTO v_source FROM places WHERE id = p_source_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Source place % not found', p_source_id; END IF;
+  SELECT * INTO v_target FROM places WHERE id = p_target_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Target place % not found', p_target_id; END IF;
+
+  IF v_source.merged_into IS NOT NULL THEN
+    RAISE EXCEPTION 'Place % is already merged into %', p_source_id, v_source.merged_into;
+  END IF;
+  IF v_target.merged_into IS NOT NULL THEN
+    RAISE EXCEPTION 'Target place % is itself merged into %', p_target_id, v_target.merged_into;
+  END IF;
+
+  -- 1. Per-user rows (unique per user + place)
+  WITH moved AS (
+    UPDATE favorites f SET place_id = p_target_id
+    WHERE f.place_id = p_source_id
+      AND NOT EXISTS (SELECT 1 FROM favorites t WHERE t.place_id = p_target_id AND t.user_id = f.user_id)
+    RETURNING f.id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO v_favorites FROM moved;
+
+  WITH moved AS (
+    UPDATE visits v SET place_id = p_target_id
+    WHERE v.place_id = p_source_id
+      AND NOT EXISTS (
+        SELECT 1 FROM visits t
+        WHERE t.place_id = p_target_id AND t.user_id = v.user_id AND t.visited_at = v.visited_at
+      )
+    RETURNING v.id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO v_visits FROM moved;
+
+  WITH moved AS (
+    UPDATE user_hidden_items h SET place_id = p_target_id
+    WHERE h.place_id = p_source_id
+      AND NOT EXISTS (SELECT 1 FROM user_hidden_items t WHERE t.place_id = p_target_id AND t.user_id = h.user_id)
+    RETURNING h.id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO v_hidden FROM moved;
+
+  -- 2. Evidence rows
+  WITH moved AS (
+    UPDATE verification_checks SET place_id = p_target_id WHERE place_id = p_source_id RETURNING id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO v_checks FROM moved;
+
+  WITH moved AS (
+    UPDATE blog_mentions SET place_id = p_target_id WHERE place_id = p_source_id RETURNING id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO v_mentions FROM moved;
+
+  -- 3. Target absorbs the source
+  SELECT COALESCE(array_agg(t), '{}') INTO v_added_tags
+  FROM unnest(COALESCE(v_source.tags, '{}')) AS t
+  WHERE NOT (t = ANY(COALESCE(v_target.tags, '{}')));
+
+  IF v_target.address IS NULL AND v_source.address IS NOT NULL THEN v_filled := v_filled || 'address'; END IF;
+  IF v_target.road_address IS NULL AND v_source.road_address IS NOT NULL THEN v_filled := v_filled || 'road_address'; END IF;
+  IF v_target.phone IS NULL AND v_source.phone IS NOT NULL THEN v_filled := v_filled || 'phone'; END IF;
+  IF v_target.description IS NULL AND v_source.description IS NOT NULL THEN v_filled := v_filled || 'description'; END IF;
+  IF v_target.is_indoor IS NULL AND v_source.is_indoor IS NOT NULL THEN v_filled := v_filled || 'is_indoor'; END IF;
+  IF v_target.opening_hours IS NULL AND v_source.opening_hours IS NOT NULL THEN v_filled := v_filled || 'opening_hours'; END IF;
+  IF v_target.hours_text IS NULL AND v_source.hours_text IS NOT NULL THEN v_filled := v_filled || 'hours_text'; END IF;
+  IF v_target.price_info IS NULL AND v_source.price_info IS NOT NULL THEN v_filled := v_filled || 'price_info'; END IF;
+
+  UPDATE places SET
+    tags = COALESCE(tags, '{}') || v_added_tags,
+    mention_count = COALESCE(mention_count, 0) + COALESCE(v_source.mention_count, 0),
+    source_count = COALESCE(source_count, 1) + COALESCE(v_source.source_count, 1),
+    address = COALESCE(address, v_source.address),
+    road_address = COALESCE(road_address, v_source.road_address),
+    phone = COALESCE(phone, v_source.phone),
+    description = COALESCE(description, v_source.description),
+    is_indoor = COALESCE(is_indoor, v_source.is_indoor),
+    opening_hours = COALESCE(opening_hours, v_source.opening_hours),
+    hours_text = COALESCE(hours_text, v_source.hours_text),
+    price_info = COALESCE(price_info, v_source.price_info),
+    updated_at = now()
+  WHERE id = p_target_id;
+
+  -- 4. Source stays as an inactive alias of the target
+  UPDATE places SET is_active = false, merged_into = p_target_id, updated_at = now()
+  WHERE id = p_source_id;
+
+  INSERT INTO place_merges (
+    source_place_id, target_place_id, proposal_id, confidence, reasons, source_snapshot,
+    moved_refs, added_tags, filled_fields, added_mention_count, added_source_count, merged_by
+  ) VALUES (
+    p_source_id, p_target_id, p_proposal_id, p_confidence, COALESCE(p_reasons, '{}'), to_jsonb(v_source),
+    jsonb_build_object(
+      'favorites', to_jsonb(v_favorites),
+      'visits', to_jsonb(v_visits),
+      'user_hidden_items', to_jsonb(v_hidden),
+      'verification_checks', to_jsonb(v_checks),
+      'blog_mentions', to_jsonb(v_mentions)
+    ),
+    v_added_tags, v_filled, COALESCE(v_source.mention_count, 0), COALESCE(v_source.source_count, 1), p_merged_by
+  )
+  RETURNING id INTO v_merge_id;
+
+  RETURN v_merge_id;
+END;
+$$;
+
+-- ─── unmerge_place ──────────────────────────────────────────────────────────
+-- Reverses one merge: moved rows go back to the source, the target loses what
+-- the merge added (filled fields only if still unchanged), and the source is
+-- restored to its pre-merge is_active.
+CREATE OR REPLACE FUNCTION public.unmerge_place(
+  p_merge_id INTEGER,
+  p_unmerged_by UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_merge place_merges%ROWTYPE;
+  v_source places%ROWTYPE;
+  v_src INTEGER;
+  v_tgt INTEGER;
+BEGIN
+  SELECT * INTO v_merge FROM place_merges WHERE id = p_merge_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Merge % not found', p_merge_id; END IF;
+  IF v_merge.status <> 'merged' THEN RAISE EXCEPTION 'Merge % is already undone', p_merge_id; END IF;
+
+  v_src := v_merge.source_place_id;
+  v_tgt := v_merge.target_place_id;
+  SELECT * INTO v_source FROM places WHERE id = v_src FOR UPDATE;
+
+  UPDATE favorites SET place_id = v_src
+  WHERE place_id = v_tgt AND id IN (SELECT jsonb_array_elements_text(v_merge.moved_refs->'favorites')::INTEGER);
+  UPDATE visits SET place_id = v_src
+  WHERE place_id = v_tgt AND id IN (SELECT jsonb_array_elements_text(v_merge.moved_refs->'visits')::INTEGER);
+  UPDATE user_hidden_items SET place_id = v_src
+  WHERE place_id = v_tgt AND id IN (SELECT jsonb_array_elements_text(v_merge.moved_refs->'user_hidden_items')::INTEGER);
+  UPDATE verification_checks SET place_id = v_src
+  WHERE place_id = v_tgt AND id IN (SELECT jsonb_array_elements_text(v_merge.moved_refs->'verification_checks')::INTEGER);
+  UPDATE blog_mentions SET place_id = v_src
+  WHERE place_id = v_tgt AND id IN (SELECT jsonb_array_elements_text(v_merge.moved_refs->'blog_mentions')::INTEGER);
+
+  UPDATE places SET
+    tags = ARRAY(SELECT t FROM unnest(COALESCE(tags, '{}')) AS t WHERE NOT (t = ANY(v_merge.added_tags))),
+    mention_count = GREATEST(0, COALESCE(mention_count, 0) - v_merge.added_mention_count),
+    source_count = GREATEST(1, COALESCE(source_count, 1) - v_merge.added_source_count),
+    address = CASE WHEN 'address' = ANY(v_merge.filled_fields) AND address IS NOT DISTINCT FROM v_source.address THEN NULL ELSE address END,
+    road_address = CASE WHEN 'road_address' = ANY(v_merge.filled_fields) AND road_address IS NOT DISTINCT FROM v_source.road_address THEN NULL ELSE road_address END,
+    phone = CASE WHEN 'phone' = ANY(v_merge.filled_fields) AND phone IS NOT DISTINCT FROM v_source.phone THEN NULL ELSE phone END,
+    description = CASE WHEN 'description' = ANY(v_merge.filled_fields) AND description IS NOT DISTINCT FROM v_source.description THEN NULL ELSE description END,
+    is_indoor = CASE WHEN 'is_indoor' = ANY(v_merge.filled_fields) AND is_indoor IS NOT DISTINCT FROM v_source.is_indoor THEN NULL ELSE is_indoor END,
+    opening_hours = CASE WHEN 'opening_hours' = ANY(v_merge.filled_fields) AND opening_hours IS NOT DISTINCT FROM v_source.opening_hours THEN NULL ELSE opening_hours END,
+    hours_text = CASE WHEN 'hours_text' = ANY(v_merge.filled_fields) AND hours_text IS NOT DISTINCT FROM v_source.hours_text THEN NULL ELSE hours_text END,
+    price_info = CASE WHEN 'price_info' = ANY(v_merge.filled_fields) AND price_info IS NOT DISTINCT FROM v_source.price_info THEN NULL ELSE price_info END,
+    updated_at = now()
+  WHERE id = v_tgt;
+
+  UPDATE places SET
+    is_active = COALESCE((v_merge.source_snapshot->>'is_active')::BOOLEAN, true),
+    merged_into = NULL,
+    updated_at = now()
+  WHERE id = v_src;
+
+  UPDATE place_merges SET status = 'unmerged', unmerged_by = p_unmerged_by, unmerged_at = now()
+  WHERE id = p_merge_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_places(INTEGER, INTEGER, REAL, TEXT[], UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.unmerge_place(INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE place_merges IS 'Reversible place merges (merge_places / unmerge_place)';
+COMMENT ON TABLE place_merge_proposals IS 'Duplicate place groups proposed by the place-resolution step';
+COMMENT ON COLUMN places.merged_into IS 'Set when this place was merged into another; the row is kept for unmerge';
@@ -0,0 +1,84 @@
+-- 00077: Per-field place provenance
+-- A places row used to carry one source/source_id plus an ad-hoc source_count
+-- (bumped on every duplicate hit, including re-runs of the same collector).
+-- place_sources keeps one row per collector listing that resolved to a place,
+-- with the raw payload and the field values that listing observed. The
+-- place-fields step (server/enrichers/place-fields.ts) picks each field by
+-- source trust and recency, records the winner in places.field_sources, and
+-- sets source_count to the number of distinct sources.
+
+CREATE TABLE IF NOT EXISTS place_sources (
+  id SERIAL PRIMARY KEY,
+  place_id INTEGER REFERENCES places(id) ON DELETE CASCADE NOT NULL,
+  -- places.source vocabulary: kakao, tour_api, public-data-go.kr, children-facility,
+  -- small-biz, babygo, auto_promoted, user_submission, admin
+  source TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  -- Field values this listing reported, e.g. {"phone": "02-...", "is_indoor": true}
+  fields JSONB NOT NULL DEFAULT '{}',
+  raw JSONB,
+  first_seen_at TIMESTAMPTZ DEFAULT now(),
+  last_seen_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (source, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_place_sources_place ON place_sources(place_id);
+
+ALTER TABLE place_sources ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Place sources are publicly readable"
+  ON place_sources FOR SELECT USING (true);
+
+-- Winning source per field, e.g. {"phone": "kakao", "tags": "tour_api"}
+ALTER TABLE places ADD COLUMN IF NOT EXISTS field_sources JSONB;
+
+-- Upsert one observation; fields merge into what the listing reported before
+-- (Tour API reports the list item and its detailIntro2 in separate calls).
+CREATE OR REPLACE FUNCTION public.record_place_source(
+  p_place_id INTEGER,
+  p_source TEXT,
+  p_source_id TEXT,
+  p_fields JSONB,
+  p_raw JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO place_sources (place_id, source, source_id, fields, raw)
+  VALUES (p_place_id, p_source, p_source_id, COALESCE(p_fields, '{}'), p_raw)
+  ON CONFLICT (source, source_id) DO UPDATE SET
+    place_id = EXCLUDED.place_id,
+    fields = place_sources.fields || EXCLUDED.fields,
+    raw = COALESCE(EXCLUDED.raw, place_sources.raw),
+    last_seen_at = now();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_place_source(INTEGER, TEXT, TEXT, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Backfill: each place's own row is its first observation
+INSERT INTO place_sources (place_id, source, source_id, fields, first_seen_at, last_seen_at)
+SELECT
+  id,
+  source,
+  COALESCE(source_id, 'place_' || id),
+  jsonb_strip_nulls(jsonb_build_object(
+    'phone', phone,
+    'address', address,
+    'road_address', road_address,
+    'description', description,
+    'is_indoor', is_indoor,
+    'tags', CASE WHEN tags IS NULL OR cardinality(tags) = 0 THEN NULL ELSE to_jsonb(tags) END,
+    'opening_hours', opening_hours,
+    'hours_text', hours_text,
+    'price_info', price_info,
+    'age_min_months', age_min_months,
+    'age_max_months', age_max_months
+  )),
+  created_at,
+  COALESCE(updated_at, created_at)
+FROM places
+ON CONFLICT (source, source_id) DO NOTHING;
+
+COMMENT ON TABLE place_sources IS 'Collector listings resolved to a place, with the fields each reported (see place-fields step)';
+COMMENT ON COLUMN places.field_sources IS 'Source each displayed field was taken from (place-fields step)';
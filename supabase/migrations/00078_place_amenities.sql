@@ -0,0 +1,55 @@
+-- 00078: Structured amenities
+-- places.tags flattened baby facilities into eight FacilityTag strings. amenities
+-- keeps one entry per amenity with presence, source wording, source and last
+-- confirmation (see src/lib/amenities.ts), e.g.
+--   {"nursing_room": {"present": true, "kinds": ["family"], "detail": "2층 가족수유실",
+--                     "source": "babygo", "confirmed_at": "2026-03-01T00:00:00Z"}}
+-- /api/places filters with containment (amenities @> '{"parking": {"present": true}}').
+
+ALTER TABLE places ADD COLUMN IF NOT EXISTS amenities JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_places_amenities ON places USING GIN (amenities jsonb_path_ops);
+
+-- Backfill from legacy FacilityTag strings; the tags stay for older clients
+WITH tagged AS (
+  SELECT
+    id,
+    source,
+    to_jsonb(COALESCE(updated_at, created_at)) AS confirmed_at,
+    tags
+  FROM places
+  WHERE tags && ARRAY['수유실', '기저귀교환대', '남성화장실교환대', '유모차접근', '아기의자', '주차', '엘리베이터']::text[]
+)
+UPDATE places p
+SET amenities = jsonb_strip_nulls(jsonb_build_object(
+  'nursing_room', CASE WHEN '수유실' = ANY(t.tags) THEN
+    jsonb_build_object('present', true, 'source', t.source, 'confirmed_at', t.confirmed_at) END,
+  'changing_table', CASE
+    WHEN '남성화장실교환대' = ANY(t.tags) THEN
+      jsonb_build_object('present', true, 'source', t.source, 'confirmed_at', t.confirmed_at,
+                         'locations', '["mens_restroom"]'::jsonb)
+    WHEN '기저귀교환대' = ANY(t.tags) THEN
+      jsonb_build_object('present', true, 'source', t.source, 'confirmed_at', t.confirmed_at) END,
+  'step_free_entrance', CASE WHEN '유모차접근' = ANY(t.tags) THEN
+    jsonb_build_object('present', true, 'source', t.source, 'confirmed_at', t.confirmed_at) END,
+  'baby_chair', CASE WHEN '아기의자' = ANY(t.tags) THEN
+    jsonb_build_object('present', true, 'source', t.source, 'confirmed_at', t.confirmed_at) END,
+  'parking', CASE WHEN '주차' = ANY(t.tags) THEN
+    jsonb_build_object('present', true, 'source', t.source, 'confirmed_at', t.confirmed_at) END,
+  'elevator', CASE WHEN '엘리베이터' = ANY(t.tags) THEN
+    jsonb_build_object('present', true, 'source', t.source, 'confirmed_at', t.confirmed_at) END
+))
+FROM tagged t
+WHERE p.id = t.id AND p.amenities IS NULL;
+
+-- Carry the backfill into each place's origin observation so place-fields
+-- merges new amenity reports with it instead of replacing it
+UPDATE place_sources ps
+SET fields = ps.fields || jsonb_build_object('amenities', p.amenities)
+FROM places p
+WHERE ps.place_id = p.id
+  AND ps.source = p.source
+  AND ps.source_id = COALESCE(p.source_id, 'place_' || p.id)
+  AND p.amenities IS NOT NULL;
+
+COMMENT ON COLUMN places.amenities IS 'Per-amenity presence, detail, source and confirmed_at (src/lib/amenities.ts)';
@@ -0,0 +1,33 @@
+-- 00079: Crowd-sourced place facts
+-- Users confirm or refute specific facts from the place page ("수유실 있음?",
+-- "아직 영업 중?"). One answer per user and attribute; re-answering replaces
+-- it. Answers are aggregated with recency decay in src/lib/place-facts.ts:
+-- settled amenity answers update places.amenities, and a settled "closed"
+-- is one of runAutoDeactivate's signals.
+
+CREATE TABLE IF NOT EXISTS place_fact_votes (
+  id SERIAL PRIMARY KEY,
+  place_id INTEGER REFERENCES places(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  -- 'open' or an amenity key (src/lib/amenities.ts AmenityKey)
+  attribute TEXT NOT NULL CHECK (attribute IN (
+    'open', 'nursing_room', 'changing_table', 'stroller_rental', 'elevator',
+    'step_free_entrance', 'parking', 'baby_chair'
+  )),
+  answer BOOLEAN NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  answered_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (place_id, user_id, attribute)
+);
+
+CREATE INDEX IF NOT EXISTS idx_place_fact_votes_place ON place_fact_votes(place_id);
+CREATE INDEX IF NOT EXISTS idx_place_fact_votes_open
+  ON place_fact_votes(place_id, answered_at DESC) WHERE attribute = 'open';
+
+-- Aggregates are served by the API (service role); users see their own answers
+ALTER TABLE place_fact_votes ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users manage own fact votes" ON place_fact_votes
+  FOR ALL USING ((select auth.uid()) = user_id)
+  WITH CHECK ((select auth.uid()) = user_id);
+
+COMMENT ON TABLE place_fact_votes IS 'Yes/no user answers per place attribute (src/lib/place-facts.ts)';
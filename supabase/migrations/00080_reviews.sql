@@ -0,0 +1,127 @@
+-- 00080: User reviews
+-- One review per user and place: rating, text, visit date, the child's age in
+-- months at the visit, and up to 5 photos in the review-photos bucket
+-- (paths "<user_id>/<file>"). Reviews are visible right away; the
+-- review-moderation step (server/utils/review-moderation.ts) classifies new and
+-- edited ones and removes spam/abuse. places.rating_avg / review_count track
+-- published reviews and feed runScoring.
+
+CREATE TABLE IF NOT EXISTS reviews (
+  id SERIAL PRIMARY KEY,
+  place_id INTEGER REFERENCES places(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  body TEXT NOT NULL DEFAULT '' CHECK (char_length(body) <= 2000),
+  visited_on DATE,
+  child_age_months SMALLINT CHECK (child_age_months BETWEEN 0 AND 240),
+  photo_paths TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(photo_paths) <= 5),
+  -- Moderation: set by the server only (see column grants below)
+  status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('published', 'removed')),
+  moderation_reason TEXT,
+  moderated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (place_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_place_published
+  ON reviews(place_id, created_at DESC) WHERE status = 'published';
+CREATE INDEX IF NOT EXISTS idx_reviews_unmoderated
+  ON reviews(id) WHERE moderated_at IS NULL;
+
+CREATE TRIGGER reviews_updated_at
+  BEFORE UPDATE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Edited text or photos go back through moderation
+CREATE OR REPLACE FUNCTION public.reviews_reset_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $function$
+BEGIN
+  IF NEW.body IS DISTINCT FROM OLD.body OR NEW.photo_paths IS DISTINCT FROM OLD.photo_paths THEN
+    NEW.moderated_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER reviews_reset_moderation
+  BEFORE UPDATE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION public.reviews_reset_moderation();
+
+-- ============ RLS ============
+
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Published reviews are public" ON reviews
+  FOR SELECT USING (status = 'published' OR (select auth.uid()) = user_id);
+CREATE POLICY "Users insert own reviews" ON reviews
+  FOR INSERT WITH CHECK ((select auth.uid()) = user_id);
+CREATE POLICY "Users update own reviews" ON reviews
+  FOR UPDATE USING ((select auth.uid()) = user_id) WITH CHECK ((select auth.uid()) = user_id);
+CREATE POLICY "Users delete own reviews" ON reviews
+  FOR DELETE USING ((select auth.uid()) = user_id);
+
+-- Users write content columns only; status and moderation stay server-side
+REVOKE INSERT, UPDATE ON reviews FROM anon, authenticated;
+GRANT INSERT (place_id, user_id, rating, body, visited_on, child_age_months, photo_paths)
+  ON reviews TO authenticated;
+GRANT UPDATE (rating, body, visited_on, child_age_months, photo_paths)
+  ON reviews TO authenticated;
+
+-- ============ Aggregate on places ============
+
+ALTER TABLE places ADD COLUMN IF NOT EXISTS review_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS rating_avg REAL;
+
+CREATE OR REPLACE FUNCTION public.refresh_place_review_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  v_place_id INTEGER;
+BEGIN
+  FOR v_place_id IN
+    SELECT DISTINCT unnest(ARRAY[
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.place_id END,
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.place_id END
+    ])
+  LOOP
+    CONTINUE WHEN v_place_id IS NULL;
+    UPDATE public.places p SET
+      review_count = s.cnt,
+      rating_avg = s.avg
+    FROM (
+      SELECT count(*)::INTEGER AS cnt, avg(rating)::REAL AS avg
+      FROM public.reviews
+      WHERE place_id = v_place_id AND status = 'published'
+    ) s
+    WHERE p.id = v_place_id
+      AND (p.review_count IS DISTINCT FROM s.cnt OR p.rating_avg IS DISTINCT FROM s.avg);
+  END LOOP;
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER reviews_refresh_place_stats
+  AFTER INSERT OR UPDATE OF rating, status, place_id OR DELETE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_place_review_stats();
+
+-- ============ Photos ============
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('review-photos', 'review-photos', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users upload own review photos" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'review-photos' AND (storage.foldername(name))[1] = (select auth.uid())::text);
+CREATE POLICY "Users delete own review photos" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'review-photos' AND (storage.foldername(name))[1] = (select auth.uid())::text);
+
+COMMENT ON TABLE reviews IS 'User reviews with rating, visit context and photos; moderated by server/utils/review-moderation.ts';
@@ -0,0 +1,55 @@
+-- 00081: Family visit timeline
+-- Visits can now record an event (event_id) instead of a place, carry photos
+-- (private visit-photos bucket, paths "<user_id>/<file>") and tag which
+-- children came along (visit_children). The diary page builds its calendar,
+-- map and yearly stats (src/lib/visit-stats.ts) from these rows.
+
+ALTER TABLE visits ALTER COLUMN place_id DROP NOT NULL;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS event_id INTEGER REFERENCES events(id) ON DELETE CASCADE;
+ALTER TABLE visits ADD COLUMN IF NOT EXISTS photo_paths TEXT[] NOT NULL DEFAULT '{}'
+  CHECK (cardinality(photo_paths) <= 10);
+ALTER TABLE visits ADD CONSTRAINT visits_target_check
+  CHECK (place_id IS NOT NULL OR event_id IS NOT NULL);
+
+-- UNIQUE(user_id, place_id, visited_at) already covers place visits
+CREATE UNIQUE INDEX IF NOT EXISTS idx_visits_user_event_date
+  ON visits(user_id, event_id, visited_at) WHERE event_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_visits_event ON visits(event_id) WHERE event_id IS NOT NULL;
+
+-- ============ Children on a visit ============
+
+CREATE TABLE IF NOT EXISTS visit_children (
+  visit_id INTEGER REFERENCES visits(id) ON DELETE CASCADE NOT NULL,
+  child_id INTEGER REFERENCES children(id) ON DELETE CASCADE NOT NULL,
+  PRIMARY KEY (visit_id, child_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_visit_children_child ON visit_children(child_id);
+
+ALTER TABLE visit_children ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users manage own visit children" ON visit_children
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM visits v WHERE v.id = visit_id AND v.user_id = (select auth.uid())))
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM visits v WHERE v.id = visit_id AND v.user_id = (select auth.uid()))
+    AND EXISTS (SELECT 1 FROM children c WHERE c.id = child_id AND c.user_id = (select auth.uid()))
+  );
+
+-- ============ Photos (private; served through signed URLs) ============
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('visit-photos', 'visit-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users upload own visit photos" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'visit-photos' AND (storage.foldername(name))[1] = (select auth.uid())::text);
+CREATE POLICY "Users read own visit photos" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'visit-photos' AND (storage.foldername(name))[1] = (select auth.uid())::text);
+CREATE POLICY "Users delete own visit photos" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'visit-photos' AND (storage.foldername(name))[1] = (select auth.uid())::text);
+
+COMMENT ON COLUMN visits.event_id IS 'Event attended; place_id may be NULL for event-only visits';
+COMMENT ON COLUMN visits.photo_paths IS 'visit-photos bucket paths ("<user_id>/<file>")';
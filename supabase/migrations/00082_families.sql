@@ -0,0 +1,124 @@
+-- 00082: Shared family accounts
+-- Co-parents join one family through an invite link and share favorites,
+-- hidden items and the visit diary. Rows stay keyed by user_id, which now
+-- records who added the entry; RLS widens reads and edits from "own rows" to
+-- "rows of anyone in my family" through family_user_ids(). Inserts still
+-- require user_id = auth.uid(). Leaving a family takes your own rows with you.
+--
+-- families / family_members are written by /api/family with the service role
+-- (joining looks a family up by invite code, which members-only RLS hides).
+
+CREATE TABLE IF NOT EXISTS families (
+  id SERIAL PRIMARY KEY,
+  name TEXT CHECK (char_length(name) <= 30),
+  invite_code TEXT UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS family_members (
+  family_id INTEGER REFERENCES families(id) ON DELETE CASCADE NOT NULL,
+  -- One family per user
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  joined_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (family_id, user_id)
+);
+
+-- ============ Membership lookup ============
+
+-- The caller plus everyone in the caller's family. SECURITY DEFINER so
+-- policies on family_members can use it without recursing into themselves.
+CREATE OR REPLACE FUNCTION public.family_user_ids()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+  SELECT auth.uid()
+  UNION
+  SELECT fm.user_id
+  FROM public.family_members fm
+  WHERE fm.family_id = (
+    SELECT me.family_id FROM public.family_members me WHERE me.user_id = auth.uid()
+  );
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.family_user_ids() FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.family_user_ids() TO authenticated;
+
+ALTER TABLE families ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Members read own family" ON families
+  FOR SELECT USING (id IN (SELECT family_id FROM family_members WHERE user_id = (select auth.uid())));
+
+ALTER TABLE family_members ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Members read family members" ON family_members
+  FOR SELECT USING (user_id IN (SELECT public.family_user_ids()));
+
+-- ============ Shared rows ============
+-- Read / update / delete: any family member. Insert: as yourself.
+
+DROP POLICY "Users manage own favorites" ON favorites;
+CREATE POLICY "Family reads favorites" ON favorites
+  FOR SELECT USING (user_id IN (SELECT public.family_user_ids()));
+CREATE POLICY "Users add own favorites" ON favorites
+  FOR INSERT WITH CHECK ((select auth.uid()) = user_id);
+CREATE POLICY "Family deletes favorites" ON favorites
+  FOR DELETE USING (user_id IN (SELECT public.family_user_ids()));
+
+DROP POLICY "Users manage own hidden items" ON user_hidden_items;
+CREATE POLICY "Family reads hidden items" ON user_hidden_items
+  FOR SELECT USING (user_id IN (SELECT public.family_user_ids()));
+CREATE POLICY "Users add own hidden items" ON user_hidden_items
+  FOR INSERT WITH CHECK ((select auth.uid()) = user_id);
+CREATE POLICY "Family deletes hidden items" ON user_hidden_items
+  FOR DELETE USING (user_id IN (SELECT public.family_user_ids()));
+
+DROP POLICY "Users manage own visits" ON visits;
+CREATE POLICY "Family reads visits" ON visits
+  FOR SELECT USING (user_id IN (SELECT public.family_user_ids()));
+CREATE POLICY "Users add own visits" ON visits
+  FOR INSERT WITH CHECK ((select auth.uid()) = user_id);
+CREATE POLICY "Family updates visits" ON visits
+  FOR UPDATE USING (user_id IN (SELECT public.family_user_ids()))
+  WITH CHECK (user_id IN (SELECT public.family_user_ids()));
+CREATE POLICY "Family deletes visits" ON visits
+  FOR DELETE USING (user_id IN (SELECT public.family_user_ids()));
+
+-- Children are readable by the family so either parent can tag them on a
+-- visit; only the parent who registered a child edits it.
+CREATE POLICY "Family reads children" ON children
+  FOR SELECT USING (user_id IN (SELECT public.family_user_ids()));
+
+DROP POLICY "Users manage own visit children" ON visit_children;
+CREATE POLICY "Family manages visit children" ON visit_children
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM visits v WHERE v.id = visit_id AND v.user_id IN (SELECT public.family_user_ids())
+  ))
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM visits v WHERE v.id = visit_id AND v.user_id IN (SELECT public.family_user_ids()))
+    AND EXISTS (SELECT 1 FROM children c WHERE c.id = child_id AND c.user_id IN (SELECT public.family_user_ids()))
+  );
+
+-- Visit photos: upload into your own folder, read / delete the family's
+DROP POLICY "Users read own visit photos" ON storage.objects;
+CREATE POLICY "Family reads visit photos" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'visit-photos'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM public.family_user_ids() AS id)
+  );
+DROP POLICY "Users delete own visit photos" ON storage.objects;
+CREATE POLICY "Family deletes visit photos" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'visit-photos'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM public.family_user_ids() AS id)
+  );
+
+COMMENT ON TABLE families IS 'Co-parent groups sharing favorites, hidden items and the diary (invite_code → /family/join/<code>)';
+COMMENT ON COLUMN favorites.user_id IS 'Member who added the favorite; shared with their family';
+COMMENT ON COLUMN user_hidden_items.user_id IS 'Member who hid the item; shared with their family';
+COMMENT ON COLUMN visits.user_id IS 'Member who recorded the visit; shared with their family';
@@ -0,0 +1,70 @@
+-- 00083: Named favorite collections
+-- User-defined, ordered lists of places and events ("비 오는 날",
+-- "할머니댁 근처") with notes on the list and on each item. Collections are
+-- shared with the creator's family like favorites (00082). Setting
+-- share_token publishes a read-only copy at /collections/<token>, served by
+-- the API with the service role — there is no anonymous RLS access.
+
+CREATE TABLE IF NOT EXISTS collections (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 30),
+  note TEXT CHECK (char_length(note) <= 500),
+  position INTEGER NOT NULL DEFAULT 0,
+  -- NULL = private; set when the list is shared by link
+  share_token TEXT UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_collections_user ON collections(user_id, position);
+
+CREATE TRIGGER collections_updated_at
+  BEFORE UPDATE ON collections
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE IF NOT EXISTS collection_items (
+  id SERIAL PRIMARY KEY,
+  collection_id INTEGER REFERENCES collections(id) ON DELETE CASCADE NOT NULL,
+  place_id INTEGER REFERENCES places(id) ON DELETE CASCADE,
+  event_id INTEGER REFERENCES events(id) ON DELETE CASCADE,
+  note TEXT CHECK (char_length(note) <= 300),
+  position INTEGER NOT NULL DEFAULT 0,
+  -- Family member who added the item
+  added_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CHECK ((place_id IS NULL) <> (event_id IS NULL)),
+  UNIQUE (collection_id, place_id),
+  UNIQUE (collection_id, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_items_collection ON collection_items(collection_id, position);
+CREATE INDEX IF NOT EXISTS idx_collection_items_place ON collection_items(place_id) WHERE place_id IS NOT NULL;
+
+-- ============ RLS: family-shared, inserts as yourself ============
+
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Family reads collections" ON collections
+  FOR SELECT USING (user_id IN (SELECT public.family_user_ids()));
+CREATE POLICY "Users add own collections" ON collections
+  FOR INSERT WITH CHECK ((select auth.uid()) = user_id);
+CREATE POLICY "Family updates collections" ON collections
+  FOR UPDATE USING (user_id IN (SELECT public.family_user_ids()))
+  WITH CHECK (user_id IN (SELECT public.family_user_ids()));
+CREATE POLICY "Family deletes collections" ON collections
+  FOR DELETE USING (user_id IN (SELECT public.family_user_ids()));
+
+ALTER TABLE collection_items ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Family manages collection items" ON collection_items
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM collections c
+    WHERE c.id = collection_id AND c.user_id IN (SELECT public.family_user_ids())
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM collections c
+    WHERE c.id = collection_id AND c.user_id IN (SELECT public.family_user_ids())
+  ));
+
+COMMENT ON TABLE collections IS 'Named, ordered favorite lists; share_token publishes a read-only copy';
+COMMENT ON TABLE collection_items IS 'Places / events in a collection, ordered by position';
@@ -0,0 +1,32 @@
+-- 00084: Saved day-trip plans
+-- The planner (/api/plans/build) combines an anchor place or event with a
+-- nearby lunch spot and the nearest 수유실 / 기저귀교환대. Saving stores a
+-- snapshot of the itinerary so a shared link keeps showing what was planned
+-- even after places change. Every saved plan is viewable read-only at
+-- /plan/<share_token>, served with the service role (no anonymous RLS).
+-- Plans are shared with the creator's family like collections (00083).
+
+CREATE TABLE IF NOT EXISTS day_plans (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 60),
+  plan_date DATE NOT NULL,
+  place_id INTEGER REFERENCES places(id) ON DELETE SET NULL,
+  event_id INTEGER REFERENCES events(id) ON DELETE SET NULL,
+  share_token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  -- DayPlan snapshot (src/types DayPlan)
+  plan JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_day_plans_user ON day_plans(user_id, plan_date DESC);
+
+ALTER TABLE day_plans ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Family reads day plans" ON day_plans
+  FOR SELECT USING (user_id IN (SELECT public.family_user_ids()));
+CREATE POLICY "Users add own day plans" ON day_plans
+  FOR INSERT WITH CHECK ((select auth.uid()) = user_id);
+CREATE POLICY "Family deletes day plans" ON day_plans
+  FOR DELETE USING (user_id IN (SELECT public.family_user_ids()));
+
+COMMENT ON TABLE day_plans IS 'Saved day-trip itineraries (snapshot); share_token publishes a read-only copy';
@@ -0,0 +1,191 @@
+-- 00085: Korean-aware search over places and events (GET /api/search)
+-- name ILIKE '%q%' missed spacing variants ("키즈 카페" vs "키즈카페"), 초성
+-- input ("ㅋㅈㅋㅍ"), typos and "<chain> <branch>" word order. Generated
+-- columns hold normalized text so trigram / full-text indexes can serve:
+--   search_name      name as normalizePlaceName (src/lib/search.ts) produces it
+--   search_address   normalized address / venue, for substring matches
+--   search_choseong  initial consonants of name ("키즈카페" → "ㅋㅈㅋㅍ")
+--   search_document  'simple' tsvector over name, address / venue and tags
+-- The RPC returns candidate ids with a text score; /api/search blends it with
+-- popularity and distance.
+
+-- ============ Immutable helpers (usable in generated columns) ============
+
+-- Mirrors normalizePlaceName: drop whitespace and anything but 한글/영문/숫자, lowercase
+CREATE OR REPLACE FUNCTION public.search_normalize(input TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+SET search_path = ''
+AS $function$
+  SELECT lower(regexp_replace(coalesce(input, ''), '[^가-힣a-zA-Z0-9]', '', 'g'))
+$function$;
+
+-- Initial consonant of each syllable; letters and digits kept, the rest dropped
+CREATE OR REPLACE FUNCTION public.hangul_choseong(input TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+PARALLEL SAFE
+SET search_path = ''
+AS $function$
+DECLARE
+  initials CONSTANT TEXT[] := ARRAY[
+    'ㄱ','ㄲ','ㄴ','ㄷ','ㄸ','ㄹ','ㅁ','ㅂ','ㅃ','ㅅ','ㅆ','ㅇ','ㅈ','ㅉ','ㅊ','ㅋ','ㅌ','ㅍ','ㅎ'
+  ];
+  result TEXT := '';
+  ch TEXT;
+  code INTEGER;
+BEGIN
+  FOREACH ch IN ARRAY regexp_split_to_array(coalesce(input, ''), '') LOOP
+    code := ascii(ch);
+    IF code BETWEEN 44032 AND 55203 THEN
+      result := result || initials[(code - 44032) / 588 + 1];
+    ELSIF ch ~ '[a-zA-Z0-9]' THEN
+      result := result || lower(ch);
+    END IF;
+  END LOOP;
+  RETURN result;
+END;
+$function$;
+
+-- array_to_string is only STABLE
+CREATE OR REPLACE FUNCTION public.search_join(input TEXT[])
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+SET search_path = ''
+AS $function$
+  SELECT coalesce(array_to_string(input, ' '), '')
+$function$;
+
+-- ============ places ============
+
+ALTER TABLE places
+  ADD COLUMN IF NOT EXISTS search_name TEXT
+    GENERATED ALWAYS AS (public.search_normalize(name)) STORED,
+  ADD COLUMN IF NOT EXISTS search_address TEXT
+    GENERATED ALWAYS AS (public.search_normalize(coalesce(road_address, '') || coalesce(address, ''))) STORED,
+  ADD COLUMN IF NOT EXISTS search_choseong TEXT
+    GENERATED ALWAYS AS (public.hangul_choseong(name)) STORED,
+  ADD COLUMN IF NOT EXISTS search_document TSVECTOR
+    GENERATED ALWAYS AS (
+      to_tsvector('simple',
+        coalesce(name, '') || ' ' || coalesce(road_address, '') || ' ' ||
+        coalesce(address, '') || ' ' || public.search_join(tags))
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_places_search_name_trgm ON places USING gin (search_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_places_search_address_trgm ON places USING gin (search_address gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_places_search_choseong_trgm ON places USING gin (search_choseong gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_places_search_document ON places USING gin (search_document);
+
+-- ============ events ============
+
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS search_name TEXT
+    GENERATED ALWAYS AS (public.search_normalize(name)) STORED,
+  ADD COLUMN IF NOT EXISTS search_address TEXT
+    GENERATED ALWAYS AS (public.search_normalize(coalesce(venue_name, '') || coalesce(venue_address, ''))) STORED,
+  ADD COLUMN IF NOT EXISTS search_choseong TEXT
+    GENERATED ALWAYS AS (public.hangul_choseong(name)) STORED,
+  ADD COLUMN IF NOT EXISTS search_document TSVECTOR
+    GENERATED ALWAYS AS (
+      to_tsvector('simple',
+        coalesce(name, '') || ' ' || coalesce(venue_name, '') || ' ' || coalesce(venue_address, ''))
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_events_search_name_trgm ON events USING gin (search_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_events_search_address_trgm ON events USING gin (search_address gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_events_search_choseong_trgm ON events USING gin (search_choseong gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_events_search_document ON events USING gin (search_document);
+
+-- ============ RPC ============
+
+-- p_norm: normalized query ('' for 초성-only input)
+-- p_tsquery: prefix tsquery built from normalized tokens ("강남:* & 스타벅스:*"), or NULL
+-- p_choseong: 초성 query ("ㅋㅈㅋㅍ"), or NULL
+-- text_score in [0, 1]: exact > prefix > substring > 초성 > fuzzy / word match > address
+CREATE OR REPLACE FUNCTION public.search_places_events(
+  p_norm TEXT,
+  p_tsquery TEXT DEFAULT NULL,
+  p_choseong TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 60
+)
+RETURNS TABLE (
+  kind TEXT,
+  id INTEGER,
+  text_score REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $function$
+  WITH input AS (
+    SELECT
+      nullif(p_norm, '') AS norm,
+      CASE WHEN nullif(p_tsquery, '') IS NULL THEN NULL ELSE to_tsquery('simple', p_tsquery) END AS tsq,
+      nullif(p_choseong, '') AS cho
+  ),
+  candidates AS (
+    SELECT 'place'::TEXT AS kind, p.id, p.search_name, p.search_address, p.search_choseong, p.search_document
+    FROM public.places p, input i
+    WHERE p.is_active = true
+      AND p.is_hidden = false
+      AND (
+        (i.norm IS NOT NULL AND (
+          p.search_name LIKE '%' || i.norm || '%'
+          OR p.search_address LIKE '%' || i.norm || '%'
+          OR p.search_name OPERATOR(public.%) i.norm
+        ))
+        OR (i.tsq IS NOT NULL AND p.search_document @@ i.tsq)
+        OR (i.cho IS NOT NULL AND p.search_choseong LIKE '%' || i.cho || '%')
+      )
+    UNION ALL
+    SELECT 'event'::TEXT, e.id, e.search_name, e.search_address, e.search_choseong, e.search_document
+    FROM public.events e, input i
+    WHERE e.is_hidden = false
+      AND (e.end_date IS NULL OR e.end_date >= (now() AT TIME ZONE 'Asia/Seoul')::DATE)
+      AND (
+        (i.norm IS NOT NULL AND (
+          e.search_name LIKE '%' || i.norm || '%'
+          OR e.search_address LIKE '%' || i.norm || '%'
+          OR e.search_name OPERATOR(public.%) i.norm
+        ))
+        OR (i.tsq IS NOT NULL AND e.search_document @@ i.tsq)
+        OR (i.cho IS NOT NULL AND e.search_choseong LIKE '%' || i.cho || '%')
+      )
+  ),
+  scored AS (
+    SELECT
+      c.kind,
+      c.id,
+      greatest(
+        CASE
+          WHEN i.norm IS NULL THEN 0
+          WHEN c.search_name = i.norm THEN 1.0
+          WHEN c.search_name LIKE i.norm || '%' THEN 0.95
+          WHEN c.search_name LIKE '%' || i.norm || '%' THEN 0.85
+          ELSE 0
+        END,
+        CASE WHEN i.cho IS NOT NULL AND c.search_choseong LIKE i.cho || '%' THEN 0.8
+             WHEN i.cho IS NOT NULL AND c.search_choseong LIKE '%' || i.cho || '%' THEN 0.7
+             ELSE 0 END,
+        CASE WHEN i.norm IS NULL THEN 0 ELSE public.similarity(c.search_name, i.norm) END,
+        CASE WHEN i.tsq IS NOT NULL AND c.search_document @@ i.tsq THEN 0.6 ELSE 0 END,
+        CASE WHEN i.norm IS NOT NULL AND c.search_address LIKE '%' || i.norm || '%' THEN 0.5 ELSE 0 END
+      )::REAL AS text_score
+    FROM candidates c, input i
+  )
+  SELECT s.kind, s.id, s.text_score
+  FROM scored s
+  ORDER BY s.text_score DESC, s.id
+  LIMIT least(greatest(p_limit, 1), 200)
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.search_places_events(TEXT, TEXT, TEXT, INTEGER) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_places_events(TEXT, TEXT, TEXT, INTEGER) IS
+  'Candidate places / events for /api/search with a text match score (see 00085)';
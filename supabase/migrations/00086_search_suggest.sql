@@ -0,0 +1,233 @@
+-- 00086: Search bar autocomplete (GET /api/search/suggest)
+-- Called on every keystroke, so each source is a prefix lookup on a small
+-- indexed set rather than an aggregate over search_logs or places:
+--   search_query_stats  popular past queries, kept by a trigger on submitted
+--                       searches in search_logs (map list filters are typed
+--                       per keystroke and only count the current viewport);
+--                       a query whose latest search found nothing is skipped.
+--                       Starts empty: every earlier search_logs row is a map
+--                       list filter (source defaults to 'places' below)
+--   search_districts    구 / 동 names per district_code, refreshed by the density step
+--   places.search_name  prefix (text_pattern_ops) for place names
+-- Categories are a fixed list and are matched in src/lib/search.ts.
+-- Recent searches are the signed-in user's own submitted searches
+-- (search_logs.source = 'search', written by /api/search).
+
+-- ============ search_logs ============
+
+-- 'places' = map list text filter (logged as typed), 'search' = submitted search
+ALTER TABLE search_logs
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'places'
+    CHECK (source IN ('places', 'search'));
+
+CREATE INDEX IF NOT EXISTS idx_search_logs_user_recent
+  ON search_logs (user_id, created_at DESC)
+  WHERE user_id IS NOT NULL AND source = 'search';
+
+-- ============ Popular queries ============
+
+CREATE TABLE IF NOT EXISTS search_query_stats (
+  query_norm TEXT PRIMARY KEY,
+  -- Latest spelling searched, shown as the suggestion
+  query TEXT NOT NULL,
+  search_count INTEGER NOT NULL DEFAULT 0,
+  last_results_count INTEGER NOT NULL DEFAULT 0,
+  last_searched_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_query_stats_prefix
+  ON search_query_stats (query_norm text_pattern_ops);
+
+-- Read only through search_suggest (SECURITY DEFINER)
+ALTER TABLE search_query_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.track_search_query()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  norm TEXT := public.search_normalize(NEW.query);
+BEGIN
+  IF length(norm) < 2 OR length(norm) > 50 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.search_query_stats AS s (query_norm, query, search_count, last_results_count, last_searched_at)
+  VALUES (norm, btrim(NEW.query), 1, coalesce(NEW.results_count, 0), coalesce(NEW.created_at, now()))
+  ON CONFLICT (query_norm) DO UPDATE SET
+    query = CASE WHEN excluded.last_results_count > 0 THEN excluded.query ELSE s.query END,
+    search_count = s.search_count + 1,
+    last_results_count = excluded.last_results_count,
+    last_searched_at = excluded.last_searched_at;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS search_logs_track_query ON search_logs;
+CREATE TRIGGER search_logs_track_query
+  AFTER INSERT ON search_logs
+  FOR EACH ROW
+  WHEN (NEW.source = 'search')
+  EXECUTE FUNCTION public.track_search_query();
+
+-- ============ Districts ============
+
+-- Each district_code's most common 구 (시/군 without one) and 동 (읍/면/가),
+-- read from the jibun address, which keeps the 동 the road address drops
+CREATE MATERIALIZED VIEW IF NOT EXISTS search_districts AS
+WITH parsed AS (
+  SELECT
+    p.district_code,
+    coalesce(
+      substring(a.addr FROM '\s([가-힣]+(?:구|군))(?:\s|$)'),
+      substring(a.addr FROM '\s([가-힣]+시)(?:\s|$)')
+    ) AS gu,
+    substring(a.addr FROM '\s([가-힣0-9]+(?:동|읍|면|가))(?:\s|$)') AS dong
+  FROM places p
+  CROSS JOIN LATERAL (SELECT coalesce(p.address, p.road_address) AS addr) a
+  WHERE p.is_active = true AND p.district_code IS NOT NULL
+),
+per_code AS (
+  SELECT
+    district_code,
+    mode() WITHIN GROUP (ORDER BY gu) AS gu,
+    mode() WITHIN GROUP (ORDER BY dong) AS dong,
+    count(*)::INTEGER AS place_count
+  FROM parsed
+  GROUP BY district_code
+)
+SELECT gu AS name, ''::TEXT AS parent, sum(place_count)::INTEGER AS place_count
+FROM per_code
+WHERE gu IS NOT NULL
+GROUP BY gu
+UNION ALL
+SELECT dong, gu, sum(place_count)::INTEGER
+FROM per_code
+WHERE dong IS NOT NULL AND gu IS NOT NULL
+GROUP BY gu, dong;
+
+-- Unique index so the view can be refreshed concurrently
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_districts_key ON search_districts (name, parent);
+CREATE INDEX IF NOT EXISTS idx_search_districts_prefix
+  ON search_districts (public.search_normalize(name) text_pattern_ops);
+
+REVOKE ALL ON search_districts FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_search_districts()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.search_districts;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_search_districts() FROM PUBLIC, anon, authenticated;
+
+-- ============ Place name prefix ============
+
+CREATE INDEX IF NOT EXISTS idx_places_search_name_prefix
+  ON places (search_name text_pattern_ops)
+  WHERE is_active = true AND is_hidden = false;
+CREATE INDEX IF NOT EXISTS idx_places_search_choseong_prefix
+  ON places (search_choseong text_pattern_ops)
+  WHERE is_active = true AND is_hidden = false;
+
+-- ============ RPCs ============
+
+-- p_norm: normalized prefix ('' for 초성-only input)
+-- p_choseong: 초성 prefix ("ㅋㅈ"), or NULL; matches place names only
+-- kind: 'place' | 'district' | 'query'; weight orders rows within a kind
+CREATE OR REPLACE FUNCTION public.search_suggest(
+  p_norm TEXT,
+  p_choseong TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  kind TEXT,
+  label TEXT,
+  detail TEXT,
+  place_id INTEGER,
+  weight REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+  WITH input AS (
+    SELECT
+      nullif(p_norm, '') AS norm,
+      nullif(p_choseong, '') AS cho,
+      least(greatest(p_limit, 1), 10) AS lim
+  )
+  (
+    SELECT 'place'::TEXT, p.name, p.category, p.id, coalesce(p.popularity_score, 0)::REAL
+    FROM public.places p, input i
+    WHERE p.is_active = true
+      AND p.is_hidden = false
+      AND (
+        (i.norm IS NOT NULL AND p.search_name LIKE i.norm || '%')
+        OR (i.cho IS NOT NULL AND p.search_choseong LIKE i.cho || '%')
+      )
+    ORDER BY p.popularity_score DESC NULLS LAST, p.id
+    LIMIT (SELECT lim FROM input)
+  )
+  UNION ALL
+  (
+    SELECT 'district'::TEXT, d.name, nullif(d.parent, ''), NULL::INTEGER, d.place_count::REAL
+    FROM public.search_districts d, input i
+    WHERE i.norm IS NOT NULL
+      AND public.search_normalize(d.name) LIKE i.norm || '%'
+    ORDER BY d.place_count DESC, d.name
+    LIMIT (SELECT lim FROM input)
+  )
+  UNION ALL
+  (
+    SELECT 'query'::TEXT, s.query, NULL::TEXT, NULL::INTEGER, s.search_count::REAL
+    FROM public.search_query_stats s, input i
+    WHERE i.norm IS NOT NULL
+      AND s.query_norm LIKE i.norm || '%'
+      AND s.last_results_count > 0
+      AND s.search_count >= 2
+      AND s.last_searched_at > now() - interval '180 days'
+    ORDER BY s.search_count DESC, s.query_norm
+    LIMIT (SELECT lim FROM input)
+  )
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.search_suggest(TEXT, TEXT, INTEGER) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_suggest(TEXT, TEXT, INTEGER) IS
+  'Prefix completions for the search bar: place names, districts, popular queries (see 00086)';
+
+-- The caller's latest distinct submitted searches that found something
+CREATE OR REPLACE FUNCTION public.my_recent_searches(p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (query TEXT, searched_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+  SELECT r.query, r.searched_at
+  FROM (
+    SELECT DISTINCT ON (public.search_normalize(l.query))
+      btrim(l.query) AS query,
+      l.created_at AS searched_at
+    FROM public.search_logs l
+    WHERE l.user_id = (select auth.uid())
+      AND l.source = 'search'
+      AND l.results_count > 0
+      AND l.created_at > now() - interval '90 days'
+    ORDER BY public.search_normalize(l.query), l.created_at DESC
+  ) r
+  ORDER BY r.searched_at DESC
+  LIMIT least(greatest(p_limit, 1), 20)
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.my_recent_searches(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.my_recent_searches(INTEGER) TO authenticated;
@@ -0,0 +1,108 @@
+-- 00087: Zero-result searches → collection keywords (search-gap step)
+-- Queries that keep finding nothing are classified once by Gemini:
+--   place_name         a specific place ("뽀로로파크 일산")
+--   district_category  an area + kind of place ("일산 키즈카페")
+--   noise              typos, unrelated or unsearchable text
+-- Non-noise gaps are added to keywords (source 'search_gap', both providers)
+-- for Pipeline A (kakao) and B (naver). A gap is closed once the latest
+-- submitted search for the same normalized query finds results, which
+-- /admin/search-analysis shows next to the gap. Only submitted searches
+-- (search_logs.source = 'search', 00086) count: the map list filter only
+-- searches the current viewport, so its empty or non-empty results say
+-- nothing about coverage.
+
+CREATE TABLE IF NOT EXISTS search_gaps (
+  id SERIAL PRIMARY KEY,
+  query_norm TEXT UNIQUE NOT NULL,
+  query TEXT NOT NULL,
+  gap_type TEXT NOT NULL CHECK (gap_type IN ('place_name', 'district_category', 'noise')),
+  -- Keyword fed to collection; NULL for noise
+  keyword TEXT,
+  keyword_group TEXT,
+  -- Zero-result searches in the window when the gap was classified
+  zero_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'noise')),
+  classified_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  closed_at TIMESTAMPTZ,
+  -- results_count of the search that closed the gap
+  results_after INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_gaps_status ON search_gaps (status, classified_at DESC);
+
+-- Server only (search-gap step, admin API via service_role)
+ALTER TABLE search_gaps ENABLE ROW LEVEL SECURITY;
+
+-- Recurring zero-result queries not classified yet: at least p_min_count
+-- zero-result searches in the last p_days, and the latest search still empty
+CREATE OR REPLACE FUNCTION public.search_gap_candidates(
+  p_days INTEGER DEFAULT 30,
+  p_min_count INTEGER DEFAULT 3,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (query_norm TEXT, query TEXT, zero_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+  WITH logs AS (
+    SELECT public.search_normalize(l.query) AS norm, btrim(l.query) AS query, l.results_count, l.created_at
+    FROM public.search_logs l
+    WHERE l.source = 'search'
+      AND l.created_at > now() - make_interval(days => p_days)
+  ),
+  grouped AS (
+    SELECT
+      norm,
+      (array_agg(query ORDER BY created_at DESC))[1] AS query,
+      (array_agg(coalesce(results_count, 0) ORDER BY created_at DESC))[1] AS latest_results,
+      count(*) FILTER (WHERE coalesce(results_count, 0) = 0)::INTEGER AS zero_count
+    FROM logs
+    WHERE length(norm) BETWEEN 2 AND 50
+    GROUP BY norm
+  )
+  SELECT g.norm, g.query, g.zero_count
+  FROM grouped g
+  WHERE g.latest_results = 0
+    AND g.zero_count >= p_min_count
+    AND NOT EXISTS (SELECT 1 FROM public.search_gaps s WHERE s.query_norm = g.norm)
+  ORDER BY g.zero_count DESC, g.norm
+  LIMIT least(greatest(p_limit, 1), 500)
+$function$;
+
+-- Close open gaps whose latest submitted search since classification found
+-- results; returns rows closed
+CREATE OR REPLACE FUNCTION public.refresh_search_gaps()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  changed INTEGER;
+BEGIN
+  UPDATE public.search_gaps g
+  SET status = 'closed',
+      closed_at = latest.created_at,
+      results_after = latest.results_count
+  FROM (
+    SELECT DISTINCT ON (o.id) o.id, l.created_at, coalesce(l.results_count, 0) AS results_count
+    FROM public.search_gaps o
+    JOIN public.search_logs l
+      ON l.source = 'search'
+     AND l.created_at > o.classified_at
+     AND public.search_normalize(l.query) = o.query_norm
+    WHERE o.status = 'open'
+    ORDER BY o.id, l.created_at DESC
+  ) latest
+  WHERE g.id = latest.id
+    AND latest.results_count > 0;
+
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  RETURN changed;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.search_gap_candidates(INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_search_gaps() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,18 @@
+-- 00088: Shared cache for /api/weather upstream responses
+-- KMA forecasts are cached per grid cell (toGridCoord) and the AirKorea dust
+-- forecast once nationally, so quota use is bounded by the number of cells
+-- users are in rather than by traffic:
+--   ultra:<nx>,<ny>   getUltraSrtFcst  (version = base date + time, hourly)
+--   vilage:<nx>,<ny>  getVilageFcst    (version = base date + time, 8x a day)
+--   air               getMinuDustFrcstDspth (version = release, 4x a day)
+-- A row is reused while its version matches the latest expected release.
+
+CREATE TABLE IF NOT EXISTS weather_cache (
+  cache_key TEXT PRIMARY KEY,
+  version TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Server only (/api/weather via service_role)
+ALTER TABLE weather_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,220 @@
+-- 00089: Related places on the place page (/api/places/[id]/related)
+--
+-- Co-mentions: a blog post that reviews several places ("일산 아기랑 코스:
+-- 키즈카페 → 브런치 카페") links them. blog_mentions.url was UNIQUE, so such a
+-- post kept a row only for the first place it was matched to, while Pipeline B
+-- already counted it in every matched place's mention_count. Uniqueness moves
+-- to (place_id, url) / (event_id, url): the same post is still stored once per
+-- place or event, and multi-place posts now keep a row for each place.
+-- Existing posts only hold their first place; co-mentions build up as
+-- collection re-finds posts.
+
+ALTER TABLE blog_mentions DROP CONSTRAINT IF EXISTS blog_mentions_url_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_blog_mentions_place_url
+  ON blog_mentions (place_id, url) WHERE place_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_blog_mentions_event_url
+  ON blog_mentions (event_id, url) WHERE event_id IS NOT NULL;
+
+-- merge_places (00076) re-pointed every blog_mentions row of the source, which
+-- now fails on a post both duplicates were matched to. Shared posts stay on
+-- the inactive source like duplicate favorites / visits; unmerge_place is
+-- unchanged since it only moves back the recorded ids.
+CREATE OR REPLACE FUNCTION public.merge_places(
+  p_source_id INTEGER,
+  p_target_id INTEGER,
+  p_confidence REAL DEFAULT NULL,
+  p_reasons TEXT[] DEFAULT '{}',
+  p_merged_by UUID DEFAULT NULL,
+  p_proposal_id INTEGER DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source places%ROWTYPE;
+  v_target places%ROWTYPE;
+  v_favorites INTEGER[];
+  v_visits INTEGER[];
+  v_hidden INTEGER[];
+  v_checks INTEGER[];
+  v_mentions INTEGER[];
+  v_added_tags TEXT[];
+  v_filled TEXT[] := '{}';
+  v_merge_id INTEGER;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge place % into itself', p_source_id;
+  END IF;
+
+  SELECT * INTO v_source FROM places WHERE id = p_source_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Source place % not found', p_source_id; END IF;
+  SELECT * INTO v_target FROM places WHERE id = p_target_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Target place % not found', p_target_id; END IF;
+
+  IF v_source.merged_into IS NOT NULL THEN
+    RAISE EXCEPTION 'Place % is already merged into %', p_source_id, v_source.merged_into;
+  END IF;
+  IF v_target.merged_into IS NOT NULL THEN
+    RAISE EXCEPTION 'Target place % is itself merged into %', p_target_id, v_target.merged_into;
+  END IF;
+
+  -- 1. Per-user rows (unique per user + place)
+  WITH moved AS (
+    UPDATE favorites f SET place_id = p_target_id
+    WHERE f.place_id = p_source_id
+      AND NOT EXISTS (SELECT 1 FROM favorites t WHERE t.place_id = p_target_id AND t.user_id = f.user_id)
+    RETURNING f.id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO v_favorites FROM moved;
+
+  WITH moved AS (
+    UPDATE visits v SET place_id = p_target_id
+    WHERE v.place_id = p_source_id
+      AND NOT EXISTS (
+        SELECT 1 FROM visits t
+        WHERE t.place_id = p_target_id AND t.user_id = v.user_id AND t.visited_at = v.visited_at
+      )
+    RETURNING v.id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO v_visits FROM moved;
+
+  WITH moved AS (
+    UPDATE user_hidden_items h SET place_id = p_target_id
+    WHERE h.place_id = p_source_id
+      AND NOT EXISTS (SELECT 1 FROM user_hidden_items t WHERE t.place_id = p_target_id AND t.user_id = h.user_id)
+    RETURNING h.id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO v_hidden FROM moved;
+
+  -- 2. Evidence rows
+  WITH moved AS (
+    UPDATE verification_checks SET place_id = p_target_id WHERE place_id = p_source_id RETURNING id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO v_checks FROM moved;
+
+  -- A post already on the target stays on the source (UNIQUE (place_id, url))
+  WITH moved AS (
+    UPDATE blog_mentions m SET place_id = p_target_id
+    WHERE m.place_id = p_source_id
+      AND NOT EXISTS (SELECT 1 FROM blog_mentions t WHERE t.place_id = p_target_id AND t.url = m.url)
+    RETURNING m.id
+  ) SELECT COALESCE(array_agg(id), '{}') INTO v_mentions FROM moved;
+
+  -- 3. Target absorbs the source
+  SELECT COALESCE(array_agg(t), '{}') INTO v_added_tags
+  FROM unnest(COALESCE(v_source.tags, '{}')) AS t
+  WHERE NOT (t = ANY(COALESCE(v_target.tags, '{}')));
+
+  IF v_target.address IS NULL AND v_source.address IS NOT NULL THEN v_filled := v_filled || 'address'; END IF;
+  IF v_target.road_address IS NULL AND v_source.road_address IS NOT NULL THEN v_filled := v_filled || 'road_address'; END IF;
+  IF v_target.phone IS NULL AND v_source.phone IS NOT NULL THEN v_filled := v_filled || 'phone'; END IF;
+  IF v_target.description IS NULL AND v_source.description IS NOT NULL THEN v_filled := v_filled || 'description'; END IF;
+  IF v_target.is_indoor IS NULL AND v_source.is_indoor IS NOT NULL THEN v_filled := v_filled || 'is_indoor'; END IF;
+  IF v_target.opening_hours IS NULL AND v_source.opening_hours IS NOT NULL THEN v_filled := v_filled || 'opening_hours'; END IF;
+  IF v_target.hours_text IS NULL AND v_source.hours_text IS NOT NULL THEN v_filled := v_filled || 'hours_text'; END IF;
+  IF v_target.price_info IS NULL AND v_source.price_info IS NOT NULL THEN v_filled := v_filled || 'price_info'; END IF;
+
+  UPDATE places SET
+    tags = COALESCE(tags, '{}') || v_added_tags,
+    mention_count = COALESCE(mention_count, 0) + COALESCE(v_source.mention_count, 0),
+    source_count = COALESCE(source_count, 1) + COALESCE(v_source.source_count, 1),
+    address = COALESCE(address, v_source.address),
+    road_address = COALESCE(road_address, v_source.road_address),
+    phone = COALESCE(phone, v_source.phone),
+    description = COALESCE(description, v_source.description),
+    is_indoor = COALESCE(is_indoor, v_source.is_indoor),
+    opening_hours = COALESCE(opening_hours, v_source.opening_hours),
+    hours_text = COALESCE(hours_text, v_source.hours_text),
+    price_info = COALESCE(price_info, v_source.price_info),
+    updated_at = now()
+  WHERE id = p_target_id;
+
+  -- 4. Source stays as an inactive alias of the target
+  UPDATE places SET is_active = false, merged_into = p_target_id, updated_at = now()
+  WHERE id = p_source_id;
+
+  INSERT INTO place_merges (
+    source_place_id, target_place_id, proposal_id, confidence, reasons, source_snapshot,
+    moved_refs, added_tags, filled_fields, added_mention_count, added_source_count, merged_by
+  ) VALUES (
+    p_source_id, p_target_id, p_proposal_id, p_confidence, COALESCE(p_reasons, '{}'), to_jsonb(v_source),
+    jsonb_build_object(
+      'favorites', to_jsonb(v_favorites),
+      'visits', to_jsonb(v_visits),
+      'user_hidden_items', to_jsonb(v_hidden),
+      'verification_checks', to_jsonb(v_checks),
+      'blog_mentions', to_jsonb(v_mentions)
+    ),
+    v_added_tags, v_filled, COALESCE(v_source.mention_count, 0), COALESCE(v_source.source_count, 1), p_merged_by
+  )
+  RETURNING id INTO v_merge_id;
+
+  RETURN v_merge_id;
+END;
+$$;
+
+-- Check: merging two places that share a post keeps one row per place and
+-- url. Runs on throwaway rows inside a subtransaction that is rolled back.
+DO $check$
+DECLARE
+  v_source INTEGER;
+  v_target INTEGER;
+  v_merge INTEGER;
+  v_url TEXT := 'https://blog.example.invalid/00089-merge-check';
+BEGIN
+  BEGIN
+    INSERT INTO public.places (name, category, lat, lng, source, is_active)
+    VALUES ('00089 merge check source', '놀이', 37.5, 127.0, 'admin', false) RETURNING id INTO v_source;
+    INSERT INTO public.places (name, category, lat, lng, source, is_active)
+    VALUES ('00089 merge check target', '놀이', 37.5, 127.0, 'admin', false) RETURNING id INTO v_target;
+    INSERT INTO public.blog_mentions (place_id, source_type, url) VALUES
+      (v_source, 'naver_blog', v_url),
+      (v_target, 'naver_blog', v_url),
+      (v_source, 'naver_blog', v_url || '-source-only');
+
+    v_merge := public.merge_places(v_source, v_target);
+
+    IF (SELECT count(*) FROM public.blog_mentions WHERE place_id = v_target) <> 2 THEN
+      RAISE EXCEPTION '00089 check: target should hold the shared and the moved post';
+    END IF;
+    IF (SELECT count(*) FROM public.blog_mentions WHERE place_id = v_source AND url = v_url) <> 1 THEN
+      RAISE EXCEPTION '00089 check: the shared post should stay on the source';
+    END IF;
+    IF jsonb_array_length((SELECT moved_refs->'blog_mentions' FROM public.place_merges WHERE id = v_merge)) <> 1 THEN
+      RAISE EXCEPTION '00089 check: only the moved post should be recorded';
+    END IF;
+
+    RAISE EXCEPTION USING ERRCODE = 'P0099', MESSAGE = 'rollback merge check';
+  EXCEPTION WHEN SQLSTATE 'P0099' THEN
+    NULL;
+  END;
+END
+$check$;
+
+-- Places sharing relevant blog posts with p_place_id, most shared posts first.
+-- Uses idx_blog_mentions_place then idx_blog_mentions_url.
+CREATE OR REPLACE FUNCTION public.place_co_mentions(
+  p_place_id INTEGER,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (place_id INTEGER, shared_posts INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $function$
+  SELECT o.place_id, count(DISTINCT o.url)::INTEGER AS shared_posts
+  FROM public.blog_mentions m
+  JOIN public.blog_mentions o
+    ON o.url = m.url
+   AND o.place_id IS NOT NULL
+   AND o.place_id <> m.place_id
+   AND o.relevance_score >= 0.3
+  JOIN public.places p
+    ON p.id = o.place_id
+   AND p.is_active = true
+   AND p.is_hidden = false
+  WHERE m.place_id = p_place_id
+    AND m.relevance_score >= 0.3
+  GROUP BY o.place_id
+  ORDER BY shared_posts DESC, o.place_id
+  LIMIT least(greatest(p_limit, 1), 50)
+$function$;
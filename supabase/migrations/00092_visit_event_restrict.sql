@@ -0,0 +1,13 @@
+-- 00092: Diary entries keep their event
+-- visits.event_id (00081) cascaded on delete, and the event-cleanup step
+-- deletes every event a week after end_date, so event-only diary entries and
+-- their visit_children went with it (their photos stayed orphaned in the
+-- visit-photos bucket). event-cleanup now skips events a visit points at, and
+-- the foreign key refuses any other delete that would drop a diary entry.
+-- Folding a duplicate listing (event-dedup) moves its visits first.
+
+ALTER TABLE visits DROP CONSTRAINT IF EXISTS visits_event_id_fkey;
+ALTER TABLE visits ADD CONSTRAINT visits_event_id_fkey
+  FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE RESTRICT;
+
+COMMENT ON COLUMN visits.event_id IS 'Event attended; place_id may be NULL for event-only visits. RESTRICT: events with visits are never deleted';